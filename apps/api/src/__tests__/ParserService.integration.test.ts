@@ -1,3 +1,4 @@
+import { WorkspaceUtils } from '@car-finder/services';
 import { ParserService } from '../services/ParserService';
 import * as fs from 'fs';
 import * as path from 'path';
@@ -56,7 +57,7 @@ describe('ParserService Integration Tests', () => {
           detail: {
             selectors: {
               title: 'h1[data-cy="ad_title"]',
-              price: '[data-testid="ad-price-container"]',
+              pricePln: '[data-testid="ad-price-container"]',
               description: '[data-cy="ad_description"]'
             }
           }
@@ -542,4 +543,95 @@ describe('ParserService Integration Tests', () => {
       expect(result.data).toHaveLength(1);
     });
   });
+
+  describe('OLX CSS Parsing (parser-schema.json)', () => {
+    const olxFixture = (name: string) =>
+      fs.readFileSync(path.join(WorkspaceUtils.resolveProjectFile('parser-samples'), 'olx', name), 'utf-8');
+    let olxParser: ParserService;
+
+    beforeEach(() => {
+      olxParser = new ParserService();
+    });
+
+    it('should list on-site adverts of a search page once, without tracking parameters', () => {
+      const result = olxParser.parseHtml(olxFixture('search.html'), 'olx', 'search');
+
+      expect(result.pageType).toBe('search');
+      expect(result.data).toEqual([
+        {
+          sourceId: '912345678',
+          sourceUrl: 'https://www.olx.pl/d/oferta/renault-trafic-2-0-dci-l2h1-CID5-IDZtr01.html',
+          sourceTitle: 'Renault Trafic 2.0 dCi L2H1 9 osób',
+          sourceCreatedAt: new Date(2024, 2, 12).toISOString(),
+        },
+        {
+          sourceId: '912345679',
+          sourceUrl: 'https://www.olx.pl/d/oferta/opel-vivaro-2-5-cdti-CID5-IDZvv02.html',
+          sourceTitle: 'Opel Vivaro 2.5 CDTI long',
+          sourceCreatedAt: new Date(2024, 9, 2).toISOString(),
+        },
+      ]);
+    });
+
+    it('should detect a search page without results', () => {
+      const result = olxParser.parseHtml(olxFixture('search-empty.html'), 'olx');
+
+      expect(result).toEqual({ pageType: 'search', data: [] });
+    });
+
+    it('should parse a detail page', () => {
+      const result = olxParser.parseHtml(olxFixture('detail-trafic.html'), 'olx', 'detail');
+
+      expect(result.pageType).toBe('detail');
+      expect(result.data).toMatchObject({
+        sourceId: '912345678',
+        sourceTitle: 'Renault Trafic 2.0 dCi L2H1 9 osób',
+        pricePln: 42900,
+        year: 2012,
+        mileage: 231000,
+        sourceCreatedAt: new Date(2024, 2, 12),
+        sourceParameters: {
+          Marka: 'Renault',
+          Model: 'Trafic',
+          'Rok produkcji': '2012',
+          Przebieg: '231 000 km',
+          Paliwo: 'Diesel',
+          'Skrzynia biegów': 'Manualna',
+        },
+        sourcePhotos: [
+          'https://ireland.apollo.olxcdn.com/v1/files/trafic-1/image;s=1000x700',
+          'https://ireland.apollo.olxcdn.com/v1/files/trafic-2/image;s=1000x700',
+        ],
+        sellerInfo: {
+          name: 'Jan',
+          id: null,
+          type: 'private',
+          location: 'Wrocław, Krzyki',
+          memberSince: 'Na OLX od marzec 2015',
+        },
+      });
+      expect((result.data as any).sourceDescriptionHtml).toBe('Zadbany bus, serwisowany w ASO.<br>Klimatyzacja manualna, hak.');
+    });
+
+    it('should parse the newer detail layout of company adverts', () => {
+      const result = olxParser.parseHtml(olxFixture('detail-vivaro.html'), 'olx');
+
+      expect(result.pageType).toBe('detail');
+      expect(result.data).toMatchObject({
+        sourceId: '912345679',
+        sourceTitle: 'Opel Vivaro 2.5 CDTI long',
+        pricePln: 37500,
+        year: 2010,
+        mileage: 265000,
+        sellerInfo: { name: 'Auto-Handel Oleśnica', type: 'company', location: 'Oleśnica' },
+      });
+    });
+
+    it('should reject pages of the wrong or an unknown type', () => {
+      expect(() => olxParser.parseHtml(olxFixture('search.html'), 'olx', 'detail'))
+        .toThrow('Page type mismatch: expected detail, detected search');
+      expect(() => olxParser.parseHtml('<html><body>Captcha</body></html>', 'olx'))
+        .toThrow('Unknown page type - neither search nor detail indicators found');
+    });
+  });
 });
@@ -0,0 +1,285 @@
+import request from 'supertest';
+import express from 'express';
+import messagesRouter from '../routes/messages';
+import { ServiceRegistry, MockVehicleRepository } from '@car-finder/services';
+import { AIProviderFactory, IAIProvider } from '@car-finder/ai';
+
+// Mock the ServiceRegistry
+jest.mock('@car-finder/services', () => {
+  const actualServices = jest.requireActual('@car-finder/services');
+  return {
+    ...actualServices,
+    ServiceRegistry: {
+      getVehicleRepository: jest.fn(),
+    },
+  };
+});
+
+const app = express();
+app.use(express.json());
+app.use('/api/vehicles/:id/messages', messagesRouter);
+
+describe('Seller Messages API', () => {
+  let mockVehicleRepository: MockVehicleRepository;
+  let stubProvider: jest.Mocked<Pick<IAIProvider, 'generateStructured'>>;
+  const originalEnv = { ...process.env };
+
+  beforeAll(() => {
+    // Register a stub provider so AIService resolves it through the factory
+    AIProviderFactory.registerProvider('stub', {
+      name: 'Stub Provider',
+      factory: () => stubProvider as unknown as IAIProvider,
+      description: 'Stub provider for seller message route tests',
+      supportedFeatures: ['generateStructured'],
+    });
+  });
+
+  beforeEach(async () => {
+    process.env.AI_PROVIDER = 'stub';
+    process.env.AI_API_KEY = 'test-api-key';
+
+    stubProvider = {
+      generateStructured: jest.fn(),
+    };
+
+    mockVehicleRepository = new MockVehicleRepository();
+    (ServiceRegistry.getVehicleRepository as jest.Mock).mockReturnValue(mockVehicleRepository);
+
+    await mockVehicleRepository.insertVehicle(MockVehicleRepository.createTestVehicle({
+      id: 'vehicle-1',
+      title: 'Fiat Ducato Maxi',
+      aiMechanicReport: '## Red Flags\n- Timing belt due at 120,000 km',
+      aiDataSanityCheck: '**Flags:**\n- Service history not mentioned',
+    }));
+  });
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+    jest.clearAllMocks();
+    mockVehicleRepository.clearAll();
+  });
+
+  const sentPrompt = (): string => stubProvider.generateStructured.mock.calls[0][0];
+
+  describe('GET /api/vehicles/:id/messages', () => {
+    it('should return the conversation oldest first', async () => {
+      await mockVehicleRepository.addSellerMessage({
+        vehicleId: 'vehicle-1',
+        direction: 'incoming',
+        messageType: null,
+        textPl: 'Tak, dostępny.',
+        textEn: 'Yes, available.',
+        createdAt: new Date('2024-03-02T10:00:00Z'),
+      });
+      await mockVehicleRepository.addSellerMessage({
+        vehicleId: 'vehicle-1',
+        direction: 'outgoing',
+        messageType: 'inquiry',
+        textPl: 'Czy auto jest dostępne?',
+        textEn: 'Is the car available?',
+        createdAt: new Date('2024-03-01T10:00:00Z'),
+      });
+
+      const response = await request(app)
+        .get('/api/vehicles/vehicle-1/messages')
+        .expect(200);
+
+      expect(response.body.vehicleId).toBe('vehicle-1');
+      expect(response.body.messages.map((message: any) => message.textEn)).toEqual([
+        'Is the car available?',
+        'Yes, available.',
+      ]);
+      expect(response.body.messages[0].createdAt).toBe('2024-03-01T10:00:00.000Z');
+    });
+
+    it('should return 404 for an unknown vehicle', async () => {
+      const response = await request(app)
+        .get('/api/vehicles/missing/messages')
+        .expect(404);
+
+      expect(response.body.error).toBe('Vehicle not found');
+    });
+
+    it('should return 500 when the repository fails', async () => {
+      mockVehicleRepository.setMockError('getSellerMessages', new Error('Database error'));
+
+      const response = await request(app)
+        .get('/api/vehicles/vehicle-1/messages')
+        .expect(500);
+
+      expect(response.body).toEqual({
+        error: 'Internal server error',
+        message: 'Failed to fetch seller messages',
+      });
+    });
+  });
+
+  describe('POST /api/vehicles/:id/messages/draft', () => {
+    it('should draft a message from the mechanic report and sanity check without storing it', async () => {
+      stubProvider.generateStructured.mockResolvedValue({
+        messagePl: 'Dzień dobry, kiedy był wymieniany rozrząd?',
+        messageEn: 'Good morning, when was the timing belt replaced?',
+        questions: ['When was the timing belt replaced?'],
+      });
+
+      const response = await request(app)
+        .post('/api/vehicles/vehicle-1/messages/draft')
+        .send({ messageType: 'inquiry', notes: 'Ask about the spare key' })
+        .expect(200);
+
+      expect(response.body).toEqual({
+        messageType: 'inquiry',
+        messagePl: 'Dzień dobry, kiedy był wymieniany rozrząd?',
+        messageEn: 'Good morning, when was the timing belt replaced?',
+        questions: ['When was the timing belt replaced?'],
+      });
+
+      const prompt = sentPrompt();
+      expect(prompt).toMatch(/^SYSTEM: You are a professional communication assistant/);
+      expect(prompt).toContain('Timing belt due at 120,000 km');
+      expect(prompt).toContain('Service history not mentioned');
+      expect(prompt).toContain('Ask about the spare key');
+      expect(await mockVehicleRepository.getSellerMessages('vehicle-1')).toEqual([]);
+    });
+
+    it('should include the offer price and the conversation so far in negotiation drafts', async () => {
+      await mockVehicleRepository.addSellerMessage({
+        vehicleId: 'vehicle-1',
+        direction: 'incoming',
+        messageType: null,
+        textPl: 'Rozrząd nie był wymieniany.',
+        textEn: 'The timing belt has not been replaced.',
+      });
+      stubProvider.generateStructured.mockResolvedValue({
+        messagePl: 'Czy przyjmie Pan 120 000 zł?',
+        messageEn: 'Would you accept 120,000 PLN?',
+        questions: [],
+      });
+
+      await request(app)
+        .post('/api/vehicles/vehicle-1/messages/draft')
+        .send({ messageType: 'negotiation', offerPriceEur: 28000 })
+        .expect(200);
+
+      const prompt = sentPrompt();
+      expect(prompt).toContain('"offerPriceEur": 28000');
+      expect(prompt).toContain('The timing belt has not been replaced.');
+    });
+
+    it('should return 400 for an invalid message type', async () => {
+      const response = await request(app)
+        .post('/api/vehicles/vehicle-1/messages/draft')
+        .send({ messageType: 'complaint' })
+        .expect(400);
+
+      expect(response.body.message).toBe('messageType must be one of: inquiry, negotiation');
+      expect(stubProvider.generateStructured).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 for a non-positive offer price', async () => {
+      const response = await request(app)
+        .post('/api/vehicles/vehicle-1/messages/draft')
+        .send({ messageType: 'negotiation', offerPriceEur: -5 })
+        .expect(400);
+
+      expect(response.body.message).toBe('offerPriceEur must be a positive number');
+    });
+
+    it('should return 404 for an unknown vehicle', async () => {
+      await request(app)
+        .post('/api/vehicles/missing/messages/draft')
+        .send({ messageType: 'inquiry' })
+        .expect(404);
+    });
+
+    it('should return 500 when the AI provider returns an empty message', async () => {
+      stubProvider.generateStructured.mockResolvedValue({ messagePl: '', messageEn: '', questions: [] });
+
+      const response = await request(app)
+        .post('/api/vehicles/vehicle-1/messages/draft')
+        .send({ messageType: 'inquiry' })
+        .expect(500);
+
+      expect(response.body.message).toBe('Empty seller message returned from AI provider');
+    });
+  });
+
+  describe('POST /api/vehicles/:id/messages', () => {
+    it('should log a sent message', async () => {
+      const response = await request(app)
+        .post('/api/vehicles/vehicle-1/messages')
+        .send({ messageType: 'inquiry', textPl: ' Dzień dobry ', textEn: 'Good morning' })
+        .expect(201);
+
+      expect(response.body).toMatchObject({
+        vehicleId: 'vehicle-1',
+        direction: 'outgoing',
+        messageType: 'inquiry',
+        textPl: 'Dzień dobry',
+        textEn: 'Good morning',
+      });
+      expect(await mockVehicleRepository.getSellerMessages('vehicle-1')).toHaveLength(1);
+    });
+
+    it('should return 400 when the text is missing', async () => {
+      const response = await request(app)
+        .post('/api/vehicles/vehicle-1/messages')
+        .send({ messageType: 'inquiry', textPl: 'Dzień dobry' })
+        .expect(400);
+
+      expect(response.body.message).toBe('textPl and textEn must be non-empty strings');
+    });
+  });
+
+  describe('POST /api/vehicles/:id/messages/reply', () => {
+    it('should translate the reply in the context of the conversation and log it', async () => {
+      await mockVehicleRepository.addSellerMessage({
+        vehicleId: 'vehicle-1',
+        direction: 'outgoing',
+        messageType: 'inquiry',
+        textPl: 'Kiedy był wymieniany rozrząd?',
+        textEn: 'When was the timing belt replaced?',
+        createdAt: new Date('2024-03-01T10:00:00Z'),
+      });
+      stubProvider.generateStructured.mockResolvedValue({
+        translation: 'At 120,000 km, there is an invoice.',
+      });
+
+      const response = await request(app)
+        .post('/api/vehicles/vehicle-1/messages/reply')
+        .send({ textPl: 'Przy 120 tys, faktura jest.' })
+        .expect(201);
+
+      expect(response.body).toMatchObject({
+        direction: 'incoming',
+        messageType: null,
+        textPl: 'Przy 120 tys, faktura jest.',
+        textEn: 'At 120,000 km, there is an invoice.',
+      });
+      expect(sentPrompt()).toContain('When was the timing belt replaced?');
+      expect(sentPrompt()).toContain('Przy 120 tys, faktura jest.');
+
+      const messages = await mockVehicleRepository.getSellerMessages('vehicle-1');
+      expect(messages.map(message => message.direction)).toEqual(['outgoing', 'incoming']);
+    });
+
+    it('should not log the reply when translation fails', async () => {
+      stubProvider.generateStructured.mockRejectedValue(new Error('Provider unavailable'));
+
+      const response = await request(app)
+        .post('/api/vehicles/vehicle-1/messages/reply')
+        .send({ textPl: 'Tak' })
+        .expect(500);
+
+      expect(response.body.message).toBe('Failed to translate seller reply: Provider unavailable');
+      expect(await mockVehicleRepository.getSellerMessages('vehicle-1')).toEqual([]);
+    });
+
+    it('should return 400 for an empty reply', async () => {
+      await request(app)
+        .post('/api/vehicles/vehicle-1/messages/reply')
+        .send({ textPl: '   ' })
+        .expect(400);
+    });
+  });
+});
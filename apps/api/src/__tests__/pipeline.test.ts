@@ -0,0 +1,104 @@
+import request from 'supertest';
+import express from 'express';
+import pipelineRouter from '../routes/pipeline';
+import { ServiceRegistry, MockVehicleRepository } from '@car-finder/services';
+import { PipelineRun } from '@car-finder/types';
+
+// Mock the ServiceRegistry
+jest.mock('@car-finder/services', () => {
+  const actualServices = jest.requireActual('@car-finder/services');
+  return {
+    ...actualServices,
+    ServiceRegistry: {
+      getVehicleRepository: jest.fn(),
+    },
+  };
+});
+
+const app = express();
+app.use(express.json());
+app.use('/api/pipeline', pipelineRouter);
+
+describe('Pipeline API', () => {
+  let mockVehicleRepository: MockVehicleRepository;
+
+  function createRun(id: string, startedAt: string, overrides: Partial<PipelineRun> = {}): PipelineRun {
+    return {
+      id,
+      trigger: 'schedule',
+      schedule: '0 6 * * *',
+      status: 'completed',
+      stages: ['ingest', 'translate', 'analyze'],
+      startedAt: new Date(startedAt),
+      finishedAt: new Date(startedAt),
+      ingestion: null,
+      translation: null,
+      analysis: null,
+      error: null,
+      ...overrides,
+    };
+  }
+
+  beforeEach(() => {
+    mockVehicleRepository = new MockVehicleRepository();
+    (ServiceRegistry.getVehicleRepository as jest.Mock).mockReturnValue(mockVehicleRepository);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+    mockVehicleRepository.clearAll();
+  });
+
+  describe('GET /api/pipeline/runs', () => {
+    beforeEach(async () => {
+      await mockVehicleRepository.savePipelineRun(createRun('run-1', '2024-03-01T06:00:00Z'));
+      await mockVehicleRepository.savePipelineRun(createRun('run-2', '2024-03-02T06:00:00Z', {
+        status: 'skipped',
+        error: 'Another pipeline run is in progress',
+      }));
+    });
+
+    it('should return runs, most recent first', async () => {
+      const response = await request(app)
+        .get('/api/pipeline/runs')
+        .expect(200);
+
+      expect(response.body.runs.map((run: PipelineRun) => run.id)).toEqual(['run-2', 'run-1']);
+      expect(response.body.runs[0]).toMatchObject({
+        status: 'skipped',
+        startedAt: '2024-03-02T06:00:00.000Z',
+        error: 'Another pipeline run is in progress',
+      });
+    });
+
+    it('should apply the limit', async () => {
+      const response = await request(app)
+        .get('/api/pipeline/runs?limit=1')
+        .expect(200);
+
+      expect(response.body.runs).toHaveLength(1);
+    });
+
+    it.each(['0', '101', 'abc'])('should return 400 for limit=%s', async (limit) => {
+      const response = await request(app)
+        .get(`/api/pipeline/runs?limit=${limit}`)
+        .expect(400);
+
+      expect(response.body.message).toBe('limit must be an integer between 1 and 100');
+    });
+
+    it('should return 500 when the runs cannot be read', async () => {
+      jest.spyOn(console, 'error').mockImplementation();
+      mockVehicleRepository.setMockError('getPipelineRuns', new Error('Database error'));
+
+      const response = await request(app)
+        .get('/api/pipeline/runs')
+        .expect(500);
+
+      expect(response.body).toEqual({
+        error: 'Internal server error',
+        message: 'Failed to fetch pipeline runs',
+      });
+    });
+  });
+});
@@ -0,0 +1,55 @@
+import request from 'supertest';
+import express from 'express';
+import profilesRouter from '../routes/profiles';
+import { CriteriaProfileService } from '../services/CriteriaProfileService';
+
+const app = express();
+app.use(express.json());
+app.use('/api/profiles', profilesRouter);
+
+describe('Criteria Profiles API', () => {
+  const criteria = {
+    budgetEur: { min: 5000, max: 20000 },
+    preferredFeatures: ['tailgate'],
+    useCase: 'camper conversion',
+    priorityFactors: ['reliability'],
+  };
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should list profiles with the default profile ID', async () => {
+    jest.spyOn(CriteriaProfileService, 'loadSettings').mockReturnValue({
+      defaultProfile: 'family-van',
+      criteriaProfiles: {
+        camper: { ...criteria, name: 'Camper conversion' },
+        'family-van': { ...criteria, name: 'Family van', useCase: 'school runs' },
+      },
+    });
+
+    const response = await request(app)
+      .get('/api/profiles')
+      .expect(200);
+
+    expect(response.body.defaultProfileId).toBe('family-van');
+    expect(response.body.profiles).toEqual([
+      { ...criteria, id: 'camper', name: 'Camper conversion' },
+      { ...criteria, id: 'family-van', name: 'Family van', useCase: 'school runs' },
+    ]);
+  });
+
+  it('should return 500 when the config has no profiles', async () => {
+    jest.spyOn(console, 'error').mockImplementation();
+    jest.spyOn(CriteriaProfileService, 'loadSettings').mockReturnValue({});
+
+    const response = await request(app)
+      .get('/api/profiles')
+      .expect(500);
+
+    expect(response.body).toEqual({
+      error: 'Internal server error',
+      message: 'Failed to load criteria profiles from search-config.json',
+    });
+  });
+});
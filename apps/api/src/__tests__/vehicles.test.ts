@@ -2,6 +2,7 @@ import request from 'supertest';
 import express from 'express';
 import vehiclesRouter from '../routes/vehicles';
 import { ServiceRegistry, MockVehicleRepository } from '@car-finder/services';
+import { AIProviderFactory, IAIProvider } from '@car-finder/ai';
 
 // Mock the ServiceRegistry
 jest.mock('@car-finder/services', () => {
@@ -56,8 +57,9 @@ describe('Vehicles API', () => {
         .get('/api/vehicles')
         .expect(200);
 
-      expect(response.body).toHaveLength(1);
-      expect(response.body[0]).toMatchObject({
+      expect(response.body).toMatchObject({ total: 1, page: 1, limit: 20 });
+      expect(response.body.data).toHaveLength(1);
+      expect(response.body.data[0]).toMatchObject({
         id: 'test-id-1',
         title: 'Test Vehicle 1',
         source: 'otomoto',
@@ -66,18 +68,159 @@ describe('Vehicles API', () => {
       });
     });
 
-    it('should return empty array when no vehicles exist', async () => {
+    it('should return an empty page when no vehicles exist', async () => {
       // mockVehicleRepository starts empty by default
 
       const response = await request(app)
         .get('/api/vehicles')
         .expect(200);
 
-      expect(response.body).toEqual([]);
+      expect(response.body).toEqual({ data: [], total: 0, page: 1, limit: 20 });
+    });
+
+    it('should apply filters, sorting and pagination from query parameters', async () => {
+      mockVehicleRepository.seedWithTestData([
+        { status: 'new', features: ['air_conditioning'], aiPriorityRating: 7 },
+        { status: 'contacted', features: ['air_conditioning'], aiPriorityRating: 9 },
+        { status: 'to_visit', features: ['air_conditioning'], aiPriorityRating: 8 },
+        { status: 'deleted', features: ['air_conditioning'], aiPriorityRating: 10 },
+        { status: 'new', features: [], aiPriorityRating: 6 },
+      ]);
+
+      const response = await request(app)
+        .get('/api/vehicles')
+        .query({
+          status: 'new,contacted,to_visit',
+          features: 'air_conditioning',
+          sortBy: 'aiPriorityRating',
+          sortDirection: 'desc',
+          limit: 2,
+          page: 1,
+        })
+        .expect(200);
+
+      expect(response.body).toMatchObject({ total: 3, page: 1, limit: 2 });
+      expect(response.body.data.map((v: any) => v.id)).toEqual(['test-id-2', 'test-id-3']);
+    });
+
+    it('should accept repeated status parameters', async () => {
+      mockVehicleRepository.seedWithTestData([
+        { status: 'new' },
+        { status: 'contacted' },
+        { status: 'visited' },
+      ]);
+
+      const response = await request(app)
+        .get('/api/vehicles?status=new&status=visited')
+        .expect(200);
+
+      expect(response.body.total).toBe(2);
+    });
+
+    it('should filter by listing state', async () => {
+      mockVehicleRepository.seedWithTestData([
+        { title: 'Fiat Ducato Maxi' },
+        { title: 'Peugeot Boxer', listingState: 'sold' },
+        { title: 'Citroen Jumper', listingState: 'removed' },
+      ]);
+
+      const response = await request(app)
+        .get('/api/vehicles?listingState=sold,removed')
+        .expect(200);
+
+      expect(response.body.data.map((v: any) => v.title).sort()).toEqual(['Citroen Jumper', 'Peugeot Boxer']);
+    });
+
+    it('should filter by price range and free-text search', async () => {
+      mockVehicleRepository.seedWithTestData([
+        { title: 'Fiat Ducato Maxi', priceEur: 15000 },
+        { title: 'Fiat Ducato L2H2', priceEur: 9000 },
+        { title: 'Peugeot Boxer', priceEur: 14000 },
+      ]);
+
+      const response = await request(app)
+        .get('/api/vehicles')
+        .query({ search: 'ducato', minPriceEur: 10000 })
+        .expect(200);
+
+      expect(response.body.total).toBe(1);
+      expect(response.body.data[0].title).toBe('Fiat Ducato Maxi');
+    });
+
+    it('should collapse duplicates and link the other listings', async () => {
+      mockVehicleRepository.seedWithTestData([
+        { title: 'Fiat Ducato Maxi' },
+        { title: 'Fiat Ducato Maxi', source: 'olx', sourceUrl: 'https://olx.pl/ducato' },
+        { title: 'Peugeot Boxer' },
+      ]);
+      await mockVehicleRepository.replaceDuplicateClusters([[
+        { vehicleId: 'test-id-1', isPrimary: true, matchScore: 1, matchReasons: [] },
+        { vehicleId: 'test-id-2', isPrimary: false, matchScore: 0.92, matchReasons: ['mileage', 'photos'] },
+      ]]);
+
+      const collapsed = await request(app)
+        .get('/api/vehicles?collapseDuplicates=true&sortBy=priceEur&sortDirection=asc')
+        .expect(200);
+
+      expect(collapsed.body.total).toBe(2);
+      const ducato = collapsed.body.data.find((v: any) => v.id === 'test-id-1');
+      expect(ducato.duplicateListings).toEqual([
+        expect.objectContaining({
+          vehicleId: 'test-id-2',
+          source: 'olx',
+          sourceUrl: 'https://olx.pl/ducato',
+          isPrimary: false,
+          matchScore: 0.92,
+          matchReasons: ['mileage', 'photos'],
+        }),
+      ]);
+      expect(collapsed.body.data.find((v: any) => v.id === 'test-id-3').duplicateListings).toEqual([]);
+
+      const expanded = await request(app)
+        .get('/api/vehicles?collapseDuplicates=false')
+        .expect(200);
+
+      expect(expanded.body.total).toBe(3);
+    });
+
+    it('should sort by the selected criteria profile and include all fit scores', async () => {
+      mockVehicleRepository.seedWithTestData([
+        { title: 'Fiat Ducato Maxi', personalFitScore: 9 },
+        { title: 'VW Caravelle', personalFitScore: 4 },
+      ]);
+      await mockVehicleRepository.saveFitScore('test-id-1', 'default', 9);
+      await mockVehicleRepository.saveFitScore('test-id-1', 'family-van', 3);
+      await mockVehicleRepository.saveFitScore('test-id-2', 'family-van', 8);
+
+      const response = await request(app)
+        .get('/api/vehicles?profileId=family-van&sortBy=personalFitScore&sortDirection=desc')
+        .expect(200);
+
+      expect(response.body.data.map((v: any) => v.title)).toEqual(['VW Caravelle', 'Fiat Ducato Maxi']);
+      expect(response.body.data[1].fitScores).toEqual({ default: 9, 'family-van': 3 });
+    });
+
+    it.each([
+      ['status=archived', 'Invalid status value: archived'],
+      ['listingState=expired', 'Invalid listingState value: expired'],
+      ['source=mobile', 'Invalid source value: mobile'],
+      ['minYear=abc', 'minYear must be a number'],
+      ['sortBy=title', 'Invalid sortBy value. Allowed: createdAt, sourceCreatedAt, priceEur, year, mileage, personalFitScore, aiPriorityRating'],
+      ['sortDirection=up', "sortDirection must be either 'asc' or 'desc'"],
+      ['page=0', 'page must be a positive integer'],
+      ['limit=500', 'limit must be an integer between 1 and 100'],
+      ['collapseDuplicates=yes', "collapseDuplicates must be either 'true' or 'false'"],
+      ['profileId=', 'profileId must be a non-empty string'],
+    ])('should return 400 for invalid query %s', async (queryString, message) => {
+      const response = await request(app)
+        .get(`/api/vehicles?${queryString}`)
+        .expect(400);
+
+      expect(response.body).toEqual({ error: 'Bad request', message });
     });
 
     it('should handle database errors', async () => {
-      mockVehicleRepository.setMockError('getAllVehicles', new Error('Database connection failed'));
+      mockVehicleRepository.setMockError('queryVehicles', new Error('Database connection failed'));
 
       const response = await request(app)
         .get('/api/vehicles')
@@ -115,7 +258,69 @@ describe('Vehicles API', () => {
         id: 'test-id-1',
         title: 'Test Vehicle',
         source: 'otomoto',
+        duplicateListings: [],
+        fitScores: {},
+      });
+    });
+
+    it('should include the listing data and analysis shown on the detail page', async () => {
+      await mockVehicleRepository.insertVehicle(MockVehicleRepository.createTestVehicle({
+        id: 'test-id-1',
+        sourceParameters: { 'Marka pojazdu': 'Fiat', 'Skrzynia biegów': 'Manualna' },
+        sourceEquipment: { 'Komfort': ['Klimatyzacja'] },
+        sourceDescriptionHtml: '<p>Zadbany</p>',
+        aiDataSanityCheck: 'No inconsistencies found',
+      }));
+
+      const response = await request(app)
+        .get('/api/vehicles/test-id-1')
+        .expect(200);
+
+      expect(response.body).toMatchObject({
+        sourceParameters: { 'Marka pojazdu': 'Fiat', 'Skrzynia biegów': 'Manualna' },
+        sourceEquipment: { 'Komfort': ['Klimatyzacja'] },
+        sourceDescriptionHtml: '<p>Zadbany</p>',
+        aiDataSanityCheck: 'No inconsistencies found',
+      });
+    });
+
+    it('should include the other listings of a duplicate vehicle', async () => {
+      mockVehicleRepository.seedWithTestData([{}, { source: 'olx', sourceUrl: 'https://olx.pl/duplicate' }]);
+      await mockVehicleRepository.replaceDuplicateClusters([[
+        { vehicleId: 'test-id-1', isPrimary: true, matchScore: 1, matchReasons: [] },
+        { vehicleId: 'test-id-2', isPrimary: false, matchScore: 1, matchReasons: ['vin'] },
+      ]]);
+
+      const response = await request(app)
+        .get('/api/vehicles/test-id-2')
+        .expect(200);
+
+      expect(response.body.duplicateListings).toEqual([
+        expect.objectContaining({ vehicleId: 'test-id-1', source: 'otomoto', isPrimary: true }),
+      ]);
+    });
+
+    it('should reject a status transition outside the workflow', async () => {
+      await mockVehicleRepository.insertVehicle(MockVehicleRepository.createTestVehicle({ id: 'visited-vehicle', status: 'visited' }));
+
+      const response = await request(app)
+        .patch('/api/vehicles/visited-vehicle')
+        .send({ status: 'new' })
+        .expect(409);
+
+      expect(response.body).toMatchObject({
+        error: 'Invalid status transition',
+        message: 'Cannot change status from visited to new',
       });
+      expect((await mockVehicleRepository.findVehicleById('visited-vehicle'))!.status).toBe('visited');
+    });
+
+    it('should allow stepping back once and leaving the workflow from any status', async () => {
+      await mockVehicleRepository.insertVehicle(MockVehicleRepository.createTestVehicle({ id: 'visited-vehicle', status: 'visited' }));
+
+      for (const status of ['to_visit', 'not_interested', 'contacted']) {
+        await request(app).patch('/api/vehicles/visited-vehicle').send({ status }).expect(200);
+      }
     });
 
     it('should return 404 for non-existent vehicle', async () => {
@@ -131,6 +336,346 @@ describe('Vehicles API', () => {
     });
   });
 
+  describe('GET /api/vehicles/:id/history', () => {
+    it('should return snapshots oldest first with the changed fields', async () => {
+      const vehicle = MockVehicleRepository.createTestVehicle({ id: 'history-vehicle' });
+      await mockVehicleRepository.insertVehicle(vehicle);
+
+      const baseSnapshot = {
+        vehicleId: 'history-vehicle',
+        priceEur: 11500,
+        mileage: 50000,
+        title: 'Test Vehicle Title',
+        descriptionHash: 'hash',
+        photoCount: 1,
+      };
+      await mockVehicleRepository.recordVehicleSnapshot({
+        ...baseSnapshot,
+        pricePln: 45000,
+        changedFields: ['price'],
+        capturedAt: new Date('2024-02-01T00:00:00Z'),
+      });
+      await mockVehicleRepository.recordVehicleSnapshot({
+        ...baseSnapshot,
+        pricePln: 50000,
+        changedFields: [],
+        capturedAt: new Date('2024-01-01T00:00:00Z'),
+      });
+
+      const response = await request(app)
+        .get('/api/vehicles/history-vehicle/history')
+        .expect(200);
+
+      expect(response.body.vehicleId).toBe('history-vehicle');
+      expect(response.body.snapshots).toHaveLength(2);
+      expect(response.body.snapshots[0]).toMatchObject({
+        pricePln: 50000,
+        changedFields: [],
+        capturedAt: '2024-01-01T00:00:00.000Z',
+      });
+      expect(response.body.snapshots[1]).toMatchObject({ pricePln: 45000, changedFields: ['price'] });
+    });
+
+    it('should return 404 for a non-existent vehicle', async () => {
+      const response = await request(app)
+        .get('/api/vehicles/non-existent-id/history')
+        .expect(404);
+
+      expect(response.body).toMatchObject({ error: 'Vehicle not found' });
+    });
+
+    it('should return 500 when the history lookup fails', async () => {
+      await mockVehicleRepository.insertVehicle(MockVehicleRepository.createTestVehicle({ id: 'broken' }));
+      mockVehicleRepository.setMockError('getSnapshots:broken', new Error('Database error'));
+
+      const response = await request(app)
+        .get('/api/vehicles/broken/history')
+        .expect(500);
+
+      expect(response.body).toMatchObject({ error: 'Internal server error' });
+    });
+  });
+
+  describe('GET /api/vehicles/:id/events', () => {
+    it('should return the vehicle events oldest first', async () => {
+      await mockVehicleRepository.insertVehicle(MockVehicleRepository.createTestVehicle({ id: 'audited' }));
+      await mockVehicleRepository.updateVehicle('audited', { status: 'to_contact' });
+      await mockVehicleRepository.recordVehicleEvent(
+        { vehicleId: 'audited', type: 'analysis', fromValue: null, toValue: 'aiPriorityRating' },
+        new Date('2030-01-01T00:00:00Z')
+      );
+
+      const response = await request(app)
+        .get('/api/vehicles/audited/events')
+        .expect(200);
+
+      expect(response.body.vehicleId).toBe('audited');
+      expect(response.body.events).toEqual([
+        expect.objectContaining({ type: 'status_change', fromValue: 'new', toValue: 'to_contact' }),
+        expect.objectContaining({ type: 'analysis', toValue: 'aiPriorityRating', createdAt: '2030-01-01T00:00:00.000Z' }),
+      ]);
+    });
+
+    it('should return 404 for a non-existent vehicle', async () => {
+      const response = await request(app)
+        .get('/api/vehicles/non-existent-id/events')
+        .expect(404);
+
+      expect(response.body).toMatchObject({ error: 'Vehicle not found' });
+    });
+  });
+
+  describe('GET /api/vehicles/:id/market-value', () => {
+    it('should return the stored analysis with its comparables', async () => {
+      await mockVehicleRepository.insertVehicle(MockVehicleRepository.createTestVehicle({ id: 'priced-vehicle' }));
+      await mockVehicleRepository.saveMarketValueAnalysis({
+        vehicleId: 'priced-vehicle',
+        model: 'weighted',
+        score: '-8%',
+        priceEur: 11500,
+        marketPriceEur: 12500,
+        percentDifference: -8,
+        dealScore: null,
+        sampleSize: 1,
+        effectiveSampleSize: 1,
+        confidence: 'low',
+        comparables: [{
+          vehicleId: 'comparable-vehicle',
+          title: 'Comparable',
+          sourceUrl: 'https://otomoto.pl/comparable',
+          status: 'sold',
+          year: 2018,
+          mileage: 140000,
+          priceEur: 12500,
+          adjustedPriceEur: 12500,
+          mileageWeight: 0.5,
+          equivalencyWeight: 1,
+          attributeWeight: 1,
+          statusWeight: 1.5,
+          weight: 0.75,
+          penalties: [],
+        }],
+        calculatedAt: new Date('2024-03-01T10:00:00Z'),
+      });
+
+      const response = await request(app)
+        .get('/api/vehicles/priced-vehicle/market-value')
+        .expect(200);
+
+      expect(response.body).toMatchObject({
+        vehicleId: 'priced-vehicle',
+        score: '-8%',
+        confidence: 'low',
+        calculatedAt: '2024-03-01T10:00:00.000Z',
+      });
+      expect(response.body.comparables[0]).toMatchObject({ vehicleId: 'comparable-vehicle', weight: 0.75 });
+    });
+
+    it('should return 404 when the market value has not been calculated', async () => {
+      await mockVehicleRepository.insertVehicle(MockVehicleRepository.createTestVehicle({ id: 'unpriced-vehicle' }));
+
+      const response = await request(app)
+        .get('/api/vehicles/unpriced-vehicle/market-value')
+        .expect(404);
+
+      expect(response.body).toMatchObject({ error: 'Market value not found' });
+    });
+
+    it('should return 404 for a non-existent vehicle', async () => {
+      const response = await request(app)
+        .get('/api/vehicles/non-existent-id/market-value')
+        .expect(404);
+
+      expect(response.body).toMatchObject({ error: 'Vehicle not found' });
+    });
+  });
+
+  describe('GET /api/vehicles/stats/time-on-market', () => {
+    it('should return time-on-market stats per delisted status', async () => {
+      await mockVehicleRepository.insertVehicle(MockVehicleRepository.createTestVehicle({
+        id: 'sold-vehicle',
+        sourceCreatedAt: new Date('2024-01-01T00:00:00Z'),
+      }));
+      await mockVehicleRepository.markVehicleDelisted('sold-vehicle', 'sold', new Date('2024-01-15T00:00:00Z'));
+
+      const response = await request(app)
+        .get('/api/vehicles/stats/time-on-market')
+        .expect(200);
+
+      expect(response.body.stats).toEqual([
+        { status: 'sold', count: 1, averageDays: 14, medianDays: 14, minDays: 14, maxDays: 14 },
+        { status: 'removed', count: 0, averageDays: 0, medianDays: 0, minDays: 0, maxDays: 0 },
+      ]);
+    });
+
+    it('should return 500 when the stats query fails', async () => {
+      mockVehicleRepository.setMockError('timeOnMarket', new Error('Database error'));
+
+      const response = await request(app)
+        .get('/api/vehicles/stats/time-on-market')
+        .expect(500);
+
+      expect(response.body).toMatchObject({ error: 'Internal server error' });
+    });
+  });
+
+  describe('GET /api/vehicles/compare', () => {
+    let stubProvider: jest.Mocked<Pick<IAIProvider, 'generateStructured'>>;
+    const originalEnv = { ...process.env };
+
+    beforeAll(() => {
+      // Register a stub provider so AIService resolves it through the factory
+      AIProviderFactory.registerProvider('stub', {
+        name: 'Stub Provider',
+        factory: () => stubProvider as unknown as IAIProvider,
+        description: 'Stub provider for comparison route tests',
+        supportedFeatures: ['generateStructured'],
+      });
+    });
+
+    beforeEach(async () => {
+      process.env.AI_PROVIDER = 'stub';
+      process.env.AI_API_KEY = 'test-api-key';
+      stubProvider = { generateStructured: jest.fn() };
+
+      await mockVehicleRepository.insertVehicle(MockVehicleRepository.createTestVehicle({
+        id: 'trafic-1',
+        sourceUrl: 'https://otomoto.pl/trafic-1',
+        title: 'Renault Trafic 2017',
+        priceEur: 17500,
+        year: 2017,
+        features: ['comfort_air_conditioning', 'towbar'],
+      }));
+      await mockVehicleRepository.insertVehicle(MockVehicleRepository.createTestVehicle({
+        id: 'trafic-2',
+        sourceUrl: 'https://otomoto.pl/trafic-2',
+        title: 'Renault Trafic 2019',
+        priceEur: 21000,
+        year: 2019,
+        features: ['comfort_air_conditioning'],
+        aiDataSanityCheck: 'Consistency Score: 5/10\nTrust Level: LOW\n\nFLAGS:\n- Mileage not verified',
+      }));
+    });
+
+    afterEach(() => {
+      process.env = { ...originalEnv };
+    });
+
+    it('should align the vehicles in the requested order', async () => {
+      const response = await request(app)
+        .get('/api/vehicles/compare?ids=trafic-2,trafic-1')
+        .expect(200);
+
+      expect(response.body.vehicles.map((vehicle: { id: string }) => vehicle.id)).toEqual(['trafic-2', 'trafic-1']);
+      expect(response.body.rows).toContainEqual(expect.objectContaining({
+        key: 'priceEur',
+        values: [21000, 17500],
+        best: [1],
+        worst: [0],
+      }));
+      expect(response.body.features[0]).toEqual({ feature: 'towbar', present: [false, true] });
+      expect(response.body.sanityFlags).toEqual([['Mileage not verified'], []]);
+      expect(response.body.recommendation).toBeNull();
+      expect(stubProvider.generateStructured).not.toHaveBeenCalled();
+    });
+
+    it('should include market value analyses', async () => {
+      await mockVehicleRepository.saveMarketValueAnalysis({
+        vehicleId: 'trafic-1',
+        model: 'regression',
+        score: '-8%',
+        priceEur: 17500,
+        marketPriceEur: 19000,
+        percentDifference: -7.89,
+        dealScore: -1.2,
+        sampleSize: 40,
+        effectiveSampleSize: 32,
+        confidence: 'medium',
+        comparables: [],
+        calculatedAt: new Date('2024-03-01T10:00:00Z'),
+      });
+
+      const response = await request(app)
+        .get('/api/vehicles/compare?ids=trafic-1,trafic-2')
+        .expect(200);
+
+      expect(response.body.rows).toContainEqual(expect.objectContaining({ key: 'marketDifferencePercent', values: [-7.9, null] }));
+      expect(response.body.rows).toContainEqual(expect.objectContaining({ key: 'dealScore', values: [-1.2, null] }));
+    });
+
+    it('should add the AI recommendation when requested', async () => {
+      stubProvider.generateStructured.mockResolvedValue({
+        summary: ' Pursue the 2017 Trafic first. ',
+        recommendedVehicleId: 'trafic-1',
+        vehicles: [
+          { vehicleId: 'trafic-1', pros: ['3,500 EUR cheaper'], cons: ['Two years older'] },
+          { vehicleId: 'unknown', pros: ['Made up'], cons: [] },
+        ],
+      });
+
+      const response = await request(app)
+        .get('/api/vehicles/compare?ids=trafic-1,trafic-2&recommend=true')
+        .expect(200);
+
+      expect(response.body.recommendation).toEqual({
+        summary: 'Pursue the 2017 Trafic first.',
+        recommendedVehicleId: 'trafic-1',
+        vehicles: [{ vehicleId: 'trafic-1', pros: ['3,500 EUR cheaper'], cons: ['Two years older'] }],
+      });
+      const prompt: string = stubProvider.generateStructured.mock.calls[0][0];
+      expect(prompt).toContain('Renault Trafic 2019');
+      expect(prompt).toContain('Mileage not verified');
+    });
+
+    it('should drop a recommended vehicle that was not compared', async () => {
+      stubProvider.generateStructured.mockResolvedValue({ summary: 'Neither is worth it.', recommendedVehicleId: 'other', vehicles: [] });
+
+      const response = await request(app)
+        .get('/api/vehicles/compare?ids=trafic-1,trafic-2&recommend=true')
+        .expect(200);
+
+      expect(response.body.recommendation).toMatchObject({ recommendedVehicleId: null });
+    });
+
+    it('should return the comparison with an error note when the AI recommendation fails', async () => {
+      stubProvider.generateStructured.mockResolvedValue({ summary: '', recommendedVehicleId: null, vehicles: [] });
+
+      const response = await request(app)
+        .get('/api/vehicles/compare?ids=trafic-1,trafic-2&recommend=true')
+        .expect(200);
+
+      expect(response.body).toMatchObject({
+        recommendation: null,
+        recommendationError: 'Empty comparison summary returned from AI provider',
+      });
+      expect(response.body.rows.length).toBeGreaterThan(0);
+    });
+
+    it.each([
+      ['one vehicle', 'ids=trafic-1'],
+      ['more than four vehicles', 'ids=a,b,c,d,e'],
+      ['the same vehicle twice', 'ids=trafic-1,trafic-1'],
+      ['no ids', ''],
+    ])('should return 400 for %s', async (_case, query) => {
+      const response = await request(app)
+        .get(`/api/vehicles/compare?${query}`)
+        .expect(400);
+
+      expect(response.body).toMatchObject({ error: 'Bad request' });
+    });
+
+    it('should return 404 listing the vehicles that do not exist', async () => {
+      const response = await request(app)
+        .get('/api/vehicles/compare?ids=trafic-1,missing-1,missing-2')
+        .expect(404);
+
+      expect(response.body).toEqual({
+        error: 'Vehicle not found',
+        message: 'No vehicle found with ID: missing-1, missing-2',
+      });
+    });
+  });
+
   describe('PATCH /api/vehicles/:id', () => {
     it('should update vehicle status', async () => {
       const mockVehicle = {
@@ -180,4 +725,161 @@ describe('Vehicles API', () => {
       });
     });
   });
+
+  describe('POST /api/vehicles/bulk', () => {
+    beforeEach(async () => {
+      for (const [id, pricePln] of [['bulk-1', 40000], ['bulk-2', 60000], ['bulk-3', 80000]] as const) {
+        await mockVehicleRepository.insertVehicle(MockVehicleRepository.createTestVehicle({
+          id,
+          sourceUrl: `https://otomoto.pl/${id}`,
+          pricePln,
+          priceEur: pricePln / 4,
+        }));
+      }
+    });
+
+    it('should set the status of the listed vehicles and undo it', async () => {
+      const response = await request(app)
+        .post('/api/vehicles/bulk')
+        .send({ vehicleIds: ['bulk-1', 'bulk-2', 'missing'], action: 'set_status', status: 'to_contact' })
+        .expect(200);
+
+      expect(response.body).toMatchObject({
+        action: 'set_status',
+        affected: 2,
+        vehicleIds: ['bulk-1', 'bulk-2'],
+        rejectedVehicleIds: [],
+        undoneAt: null,
+      });
+      expect((await mockVehicleRepository.findVehicleById('bulk-2'))!.status).toBe('to_contact');
+
+      const undo = await request(app)
+        .post(`/api/vehicles/bulk/${response.body.operationId}/undo`)
+        .expect(200);
+
+      expect(undo.body.undoneAt).not.toBeNull();
+      expect((await mockVehicleRepository.findVehicleById('bulk-2'))!.status).toBe('new');
+    });
+
+    it('should only set statuses the workflow allows and report the rejected vehicles', async () => {
+      await mockVehicleRepository.updateVehicle('bulk-1', { status: 'visited' });
+
+      const response = await request(app)
+        .post('/api/vehicles/bulk')
+        .send({ vehicleIds: ['bulk-1', 'bulk-2'], action: 'set_status', status: 'to_contact' })
+        .expect(200);
+
+      expect(response.body).toMatchObject({ affected: 1, vehicleIds: ['bulk-2'], rejectedVehicleIds: ['bulk-1'] });
+      expect((await mockVehicleRepository.findVehicleById('bulk-1'))!.status).toBe('visited');
+
+      const rejected = await request(app)
+        .post('/api/vehicles/bulk')
+        .send({ vehicleIds: ['bulk-1', 'missing'], action: 'set_status', status: 'new' })
+        .expect(409);
+
+      expect(rejected.body).toMatchObject({ error: 'Invalid status transition', rejectedVehicleIds: ['bulk-1'] });
+    });
+
+    it('should check statuses that change after the vehicles were selected', async () => {
+      const queryVehicles = mockVehicleRepository.queryVehicles.bind(mockVehicleRepository);
+      jest.spyOn(mockVehicleRepository, 'queryVehicles').mockImplementationOnce(async query => {
+        const result = await queryVehicles(query);
+        // A concurrent PATCH moves the vehicle on before the bulk write
+        await mockVehicleRepository.updateVehicle('bulk-1', { status: 'visited' });
+        return result;
+      });
+
+      const response = await request(app)
+        .post('/api/vehicles/bulk')
+        .send({ filter: { status: 'new' }, action: 'set_status', status: 'to_contact' })
+        .expect(200);
+
+      expect(response.body).toMatchObject({ vehicleIds: ['bulk-2', 'bulk-3'], rejectedVehicleIds: ['bulk-1'] });
+      expect((await mockVehicleRepository.findVehicleById('bulk-1'))!.status).toBe('visited');
+    });
+
+    it('should clear the market value analysis for re-analysis', async () => {
+      await mockVehicleRepository.saveMarketValueAnalysis({
+        vehicleId: 'bulk-1',
+        model: 'weighted',
+        score: '-8%',
+        priceEur: 10000,
+        marketPriceEur: 10900,
+        percentDifference: -8,
+        dealScore: null,
+        sampleSize: 3,
+        effectiveSampleSize: 3,
+        confidence: 'medium',
+        comparables: [],
+        calculatedAt: new Date(),
+      });
+
+      const response = await request(app)
+        .post('/api/vehicles/bulk')
+        .send({ vehicleIds: ['bulk-1'], action: 'reanalyze' })
+        .expect(200);
+
+      expect(response.body.rejectedVehicleIds).toEqual([]);
+      expect(await mockVehicleRepository.getMarketValueAnalysis('bulk-1')).toBeNull();
+
+      await request(app).post(`/api/vehicles/bulk/${response.body.operationId}/undo`).expect(200);
+      expect(await mockVehicleRepository.getMarketValueAnalysis('bulk-1')).toMatchObject({ score: '-8%' });
+    });
+
+    it('should apply the action to vehicles matching a filter', async () => {
+      const response = await request(app)
+        .post('/api/vehicles/bulk')
+        .send({ filter: { minPriceEur: 12000, status: ['new'] }, action: 'append_note', note: 'Ask about service history' })
+        .expect(200);
+
+      expect(response.body.vehicleIds).toEqual(expect.arrayContaining(['bulk-2', 'bulk-3']));
+      expect(response.body.affected).toBe(2);
+      expect((await mockVehicleRepository.findVehicleById('bulk-3'))!.personalNotes).toBe('Ask about service history');
+      expect((await mockVehicleRepository.findVehicleById('bulk-1'))!.personalNotes).toBeNull();
+    });
+
+    it('should return 400 for invalid requests', async () => {
+      const invalid = [
+        { vehicleIds: ['bulk-1'], action: 'archive' },
+        { vehicleIds: ['bulk-1'], action: 'set_status', status: 'invalid_status' },
+        { vehicleIds: ['bulk-1'], action: 'append_note', note: '  ' },
+        { action: 'delete' },
+        { vehicleIds: ['bulk-1'], filter: {}, action: 'delete' },
+        { filter: { minYear: 'abc' }, action: 'delete' },
+      ];
+
+      for (const body of invalid) {
+        const response = await request(app).post('/api/vehicles/bulk').send(body).expect(400);
+        expect(response.body.error).toBe('Bad request');
+      }
+    });
+
+    it('should return 404 when none of the vehicles exist', async () => {
+      const response = await request(app)
+        .post('/api/vehicles/bulk')
+        .send({ vehicleIds: ['missing'], action: 'delete' })
+        .expect(404);
+
+      expect(response.body).toMatchObject({ error: 'Vehicles not found' });
+    });
+
+    it('should refuse to undo twice, after expiry or for unknown operations', async () => {
+      const response = await request(app)
+        .post('/api/vehicles/bulk')
+        .send({ vehicleIds: ['bulk-1'], action: 'delete' })
+        .expect(200);
+      const undoUrl = `/api/vehicles/bulk/${response.body.operationId}/undo`;
+
+      await request(app).post(undoUrl).expect(200);
+      await request(app).post(undoUrl).expect(409);
+      await request(app).post('/api/vehicles/bulk/unknown/undo').expect(404);
+
+      const expired = await mockVehicleRepository.applyBulkOperation({
+        action: 'reanalyze',
+        vehicleIds: ['bulk-2'],
+        undoExpiresAt: new Date(Date.now() - 1000),
+      });
+      await request(app).post(`/api/vehicles/bulk/${expired!.id}/undo`).expect(410);
+    });
+  });
 });
@@ -0,0 +1,259 @@
+import request from 'supertest';
+import express from 'express';
+import visitsRouter from '../routes/visits';
+import calendarRouter from '../routes/calendar';
+import { ServiceRegistry, MockVehicleRepository } from '@car-finder/services';
+
+// Mock the ServiceRegistry
+jest.mock('@car-finder/services', () => {
+  const actualServices = jest.requireActual('@car-finder/services');
+  return {
+    ...actualServices,
+    ServiceRegistry: {
+      getVehicleRepository: jest.fn(),
+    },
+  };
+});
+
+const app = express();
+app.use(express.json());
+app.use('/api/vehicles/:id/visits', visitsRouter);
+app.use('/api/calendar', calendarRouter);
+
+const MECHANIC_REPORT = [
+  '## Critical Inspection Points',
+  '1. **Timing Chain Noise:** Listen at cold start (**CRITICAL**).',
+  '2. **Oil Leaks:** Inspect the valve cover.',
+  '---',
+  '## Red Flags to Watch For',
+  '- No service history',
+].join('\n');
+
+describe('Visits API', () => {
+  let mockVehicleRepository: MockVehicleRepository;
+
+  beforeEach(async () => {
+    mockVehicleRepository = new MockVehicleRepository();
+    (ServiceRegistry.getVehicleRepository as jest.Mock).mockReturnValue(mockVehicleRepository);
+
+    await mockVehicleRepository.insertVehicle(MockVehicleRepository.createTestVehicle({
+      id: 'vehicle-1',
+      title: 'Fiat Ducato Maxi',
+      sourceUrl: 'https://otomoto.pl/ducato',
+      status: 'contacted',
+      aiMechanicReport: MECHANIC_REPORT,
+    }));
+    await mockVehicleRepository.insertVehicle(MockVehicleRepository.createTestVehicle({
+      id: 'vehicle-2',
+      sourceUrl: 'https://otomoto.pl/boxer',
+      status: 'to_visit',
+    }));
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+    mockVehicleRepository.clearAll();
+  });
+
+  describe('POST /api/vehicles/:id/visits', () => {
+    it('should schedule a visit with a checklist from the mechanic report and move the vehicle to to_visit', async () => {
+      const response = await request(app)
+        .post('/api/vehicles/vehicle-1/visits')
+        .send({ scheduledAt: '2030-03-09T10:00:00Z', location: ' Poznań ', contactName: 'Jan', contactPhone: '' })
+        .expect(201);
+
+      expect(response.body).toMatchObject({
+        vehicleId: 'vehicle-1',
+        scheduledAt: '2030-03-09T10:00:00.000Z',
+        durationMinutes: 60,
+        location: 'Poznań',
+        contactName: 'Jan',
+        contactPhone: null,
+        status: 'scheduled',
+      });
+      expect(response.body.checklist).toEqual([
+        expect.objectContaining({ label: 'Timing Chain Noise: Listen at cold start (CRITICAL).', critical: true, result: 'pending' }),
+        expect.objectContaining({ label: 'Oil Leaks: Inspect the valve cover.', critical: false, source: 'mechanic_report' }),
+      ]);
+      expect((await mockVehicleRepository.findVehicleById('vehicle-1'))!.status).toBe('to_visit');
+    });
+
+    it.each([
+      [{}, 'scheduledAt must be an ISO date string'],
+      [{ scheduledAt: 'next friday' }, 'scheduledAt must be an ISO date string'],
+      [{ scheduledAt: '2030-03-09T10:00:00Z', durationMinutes: 0 }, 'durationMinutes must be an integer between 1 and 1440'],
+      [{ scheduledAt: '2030-03-09T10:00:00Z', location: 42 }, 'location must be a string of at most 1000 characters'],
+      [{ scheduledAt: '2030-03-09T10:00:00Z', status: 'completed' }, 'New visits are always scheduled; change the status with PATCH'],
+    ])('should reject %j', async (body, message) => {
+      const response = await request(app)
+        .post('/api/vehicles/vehicle-1/visits')
+        .send(body)
+        .expect(400);
+
+      expect(response.body).toEqual({ error: 'Bad request', message });
+    });
+
+    it('should return 404 for an unknown vehicle', async () => {
+      const response = await request(app)
+        .post('/api/vehicles/missing/visits')
+        .send({ scheduledAt: '2030-03-09T10:00:00Z' })
+        .expect(404);
+
+      expect(response.body.error).toBe('Vehicle not found');
+    });
+  });
+
+  describe('GET /api/vehicles/:id/visits', () => {
+    it('should list the vehicle\'s visits earliest first', async () => {
+      await mockVehicleRepository.createVisit({ vehicleId: 'vehicle-1', scheduledAt: new Date('2030-03-09T10:00:00Z'), checklist: [] });
+      await mockVehicleRepository.createVisit({ vehicleId: 'vehicle-1', scheduledAt: new Date('2030-03-05T10:00:00Z'), checklist: [] });
+      await mockVehicleRepository.createVisit({ vehicleId: 'vehicle-2', scheduledAt: new Date('2030-03-01T10:00:00Z'), checklist: [] });
+
+      const response = await request(app)
+        .get('/api/vehicles/vehicle-1/visits')
+        .expect(200);
+
+      expect(response.body.vehicleId).toBe('vehicle-1');
+      expect(response.body.visits.map((visit: any) => visit.scheduledAt)).toEqual([
+        '2030-03-05T10:00:00.000Z',
+        '2030-03-09T10:00:00.000Z',
+      ]);
+    });
+
+    it('should return 500 when the repository fails', async () => {
+      mockVehicleRepository.setMockError('getVisits', new Error('Database error'));
+
+      const response = await request(app)
+        .get('/api/vehicles/vehicle-1/visits')
+        .expect(500);
+
+      expect(response.body).toEqual({ error: 'Internal server error', message: 'Failed to fetch visits' });
+    });
+  });
+
+  describe('PATCH /api/vehicles/:id/visits/:visitId', () => {
+    it('should reschedule a visit', async () => {
+      const visit = await mockVehicleRepository.createVisit({ vehicleId: 'vehicle-2', scheduledAt: new Date('2030-03-09T10:00:00Z'), checklist: [] });
+
+      const response = await request(app)
+        .patch(`/api/vehicles/vehicle-2/visits/${visit.id}`)
+        .send({ scheduledAt: '2030-03-10T15:30:00Z', durationMinutes: 45, notes: 'Bring the OBD reader' })
+        .expect(200);
+
+      expect(response.body).toMatchObject({
+        scheduledAt: '2030-03-10T15:30:00.000Z',
+        durationMinutes: 45,
+        notes: 'Bring the OBD reader',
+        status: 'scheduled',
+      });
+      expect((await mockVehicleRepository.findVehicleById('vehicle-2'))!.status).toBe('to_visit');
+    });
+
+    it('should move the vehicle to visited when the visit is completed', async () => {
+      const visit = await mockVehicleRepository.createVisit({ vehicleId: 'vehicle-2', scheduledAt: new Date('2030-03-09T10:00:00Z'), checklist: [] });
+
+      await request(app)
+        .patch(`/api/vehicles/vehicle-2/visits/${visit.id}`)
+        .send({ status: 'completed' })
+        .expect(200);
+
+      expect((await mockVehicleRepository.findVehicleById('vehicle-2'))!.status).toBe('visited');
+    });
+
+    it('should return 404 for a visit of another vehicle', async () => {
+      const visit = await mockVehicleRepository.createVisit({ vehicleId: 'vehicle-2', scheduledAt: new Date('2030-03-09T10:00:00Z'), checklist: [] });
+
+      const response = await request(app)
+        .patch(`/api/vehicles/vehicle-1/visits/${visit.id}`)
+        .send({ status: 'cancelled' })
+        .expect(404);
+
+      expect(response.body.error).toBe('Visit not found');
+      expect((await mockVehicleRepository.getVisit(visit.id))!.status).toBe('scheduled');
+    });
+
+    it('should reject an empty update', async () => {
+      const response = await request(app)
+        .patch('/api/vehicles/vehicle-2/visits/visit-1')
+        .send({})
+        .expect(400);
+
+      expect(response.body.message).toBe('No visit fields provided');
+    });
+  });
+
+  describe('PUT /api/vehicles/:id/visits/:visitId/checklist', () => {
+    it('should record results and issue notes and accept manual items', async () => {
+      const visit = await mockVehicleRepository.createVisit({
+        vehicleId: 'vehicle-1',
+        scheduledAt: new Date('2030-03-09T10:00:00Z'),
+        checklist: [{ label: 'Timing chain noise', critical: true, source: 'mechanic_report' }],
+      });
+      const [chain] = visit.checklist;
+
+      const response = await request(app)
+        .put(`/api/vehicles/vehicle-1/visits/${visit.id}/checklist`)
+        .send({
+          items: [
+            { ...chain, result: 'issue', notes: ' Rattles for 3s, see photos 4-6 ' },
+            { label: 'Spare key' },
+          ],
+        })
+        .expect(200);
+
+      expect(response.body.checklist).toEqual([
+        { ...chain, result: 'issue', notes: 'Rattles for 3s, see photos 4-6' },
+        { id: expect.any(String), label: 'Spare key', critical: false, source: 'manual', result: 'pending', notes: null },
+      ]);
+    });
+
+    it.each([
+      [{}, 'items must be an array of at most 100 checklist items'],
+      [{ items: [{ label: ' ' }] }, 'items[0].label must be a non-empty string of at most 300 characters'],
+      [{ items: [{ label: 'Rust', result: 'broken' }] }, 'items[0].result must be one of: pending, ok, issue, skipped'],
+      [{ items: [{ label: 'Rust', critical: 'yes' }] }, 'items[0].critical must be a boolean'],
+    ])('should reject %j', async (body, message) => {
+      const response = await request(app)
+        .put('/api/vehicles/vehicle-1/visits/visit-1/checklist')
+        .send(body)
+        .expect(400);
+
+      expect(response.body).toEqual({ error: 'Bad request', message });
+    });
+  });
+
+  describe('GET /api/calendar/visits.ics', () => {
+    it('should export upcoming scheduled visits as iCalendar', async () => {
+      const upcoming = await mockVehicleRepository.createVisit({
+        vehicleId: 'vehicle-1',
+        scheduledAt: new Date('2030-03-09T10:00:00Z'),
+        location: 'Poznań',
+        checklist: [],
+      });
+      await mockVehicleRepository.createVisit({ vehicleId: 'vehicle-1', scheduledAt: new Date('2020-03-09T10:00:00Z'), checklist: [] });
+      const cancelled = await mockVehicleRepository.createVisit({ vehicleId: 'vehicle-2', scheduledAt: new Date('2030-03-10T10:00:00Z'), checklist: [] });
+      await mockVehicleRepository.updateVisit(cancelled.id, { status: 'cancelled' });
+
+      const response = await request(app)
+        .get('/api/calendar/visits.ics')
+        .expect(200);
+
+      expect(response.headers['content-type']).toBe('text/calendar; charset=utf-8');
+      expect(response.headers['content-disposition']).toBe('attachment; filename="car-finder-visits.ics"');
+      expect(response.text.match(/BEGIN:VEVENT/g)).toHaveLength(1);
+      expect(response.text).toContain(`UID:${upcoming.id}@car-finder-ai\r\n`);
+      expect(response.text).toContain('DTSTART:20300309T100000Z\r\n');
+      expect(response.text).toContain('LOCATION:Poznań\r\n');
+    });
+
+    it('should return 500 when the repository fails', async () => {
+      mockVehicleRepository.setMockError('getUpcomingVisits', new Error('Database error'));
+
+      const response = await request(app)
+        .get('/api/calendar/visits.ics')
+        .expect(500);
+
+      expect(response.body).toEqual({ error: 'Internal server error', message: 'Failed to export visit calendar' });
+    });
+  });
+});
@@ -4,6 +4,12 @@ import { WorkspaceUtils } from '@car-finder/services';
 import { ScraperService } from './services/ScraperService';
 import { ParserService } from './services/ParserService';
 import vehiclesRouter from './routes/vehicles';
+import aiRouter from './routes/ai';
+import profilesRouter from './routes/profiles';
+import pipelineRouter from './routes/pipeline';
+import messagesRouter from './routes/messages';
+import visitsRouter from './routes/visits';
+import calendarRouter from './routes/calendar';
 
 // Load environment variables from workspace root
 WorkspaceUtils.loadEnvFromRoot();
@@ -29,6 +35,12 @@ app.get('/health', (req, res) => {
 
 // API Routes
 app.use('/api/vehicles', vehiclesRouter);
+app.use('/api/vehicles/:id/messages', messagesRouter);
+app.use('/api/vehicles/:id/visits', visitsRouter);
+app.use('/api/ai', aiRouter);
+app.use('/api/profiles', profilesRouter);
+app.use('/api/pipeline', pipelineRouter);
+app.use('/api/calendar', calendarRouter);
 
 // Parser service demonstration endpoint
 app.post('/api/parse', async (req, res) => {
@@ -0,0 +1,110 @@
+import { Router, Request, Response } from 'express';
+import { ServiceRegistry } from '@car-finder/services';
+import { ChatMessage, ChatRequest, ChatResponse, Vehicle } from '@car-finder/types';
+import { AIService } from '../services/AIService';
+
+const router: Router = Router();
+
+// Maximum number of vehicles injected as grounding for the dashboard view
+const DASHBOARD_CONTEXT_LIMIT = 20;
+
+// Statuses that are hidden from the dashboard and therefore not used as grounding
+const EXCLUDED_DASHBOARD_STATUSES = ['not_interested', 'deleted'];
+
+/**
+ * Check that a conversation history entry has the expected shape
+ */
+function isValidChatMessage(message: any): message is ChatMessage {
+  return (
+    message !== null &&
+    typeof message === 'object' &&
+    (message.role === 'user' || message.role === 'model') &&
+    typeof message.content === 'string'
+  );
+}
+
+/**
+ * Select the dashboard vehicles used as grounding, highest priority first
+ */
+function selectDashboardVehicles(vehicles: Vehicle[]): Vehicle[] {
+  return vehicles
+    .filter(vehicle => !EXCLUDED_DASHBOARD_STATUSES.includes(vehicle.status))
+    .sort((a, b) => (b.aiPriorityRating ?? -1) - (a.aiPriorityRating ?? -1))
+    .slice(0, DASHBOARD_CONTEXT_LIMIT);
+}
+
+// POST /api/ai/chat - Contextual conversation with the AI assistant
+router.post('/chat', async (req: Request, res: Response) => {
+  try {
+    const { context, conversationHistory = [], userMessage } = req.body;
+
+    // Validate input
+    if (typeof userMessage !== 'string' || userMessage.trim() === '') {
+      return res.status(400).json({
+        error: 'Bad request',
+        message: 'userMessage must be a non-empty string'
+      });
+    }
+
+    if (!context || !['dashboard', 'detail'].includes(context.view)) {
+      return res.status(400).json({
+        error: 'Bad request',
+        message: "context.view must be either 'dashboard' or 'detail'"
+      });
+    }
+
+    if (context.view === 'detail' && !context.vehicleId) {
+      return res.status(400).json({
+        error: 'Bad request',
+        message: 'context.vehicleId is required for the detail view'
+      });
+    }
+
+    if (!Array.isArray(conversationHistory) || !conversationHistory.every(isValidChatMessage)) {
+      return res.status(400).json({
+        error: 'Bad request',
+        message: 'conversationHistory must be an array of { role, content } messages'
+      });
+    }
+
+    const vehicleRepository = await ServiceRegistry.getVehicleRepository();
+
+    // Load grounding records for the current view
+    let vehicles: Vehicle[];
+    if (context.view === 'detail') {
+      const vehicle = await vehicleRepository.findVehicleById(context.vehicleId);
+      if (!vehicle) {
+        return res.status(404).json({
+          error: 'Vehicle not found',
+          message: `No vehicle found with ID: ${context.vehicleId}`
+        });
+      }
+      vehicles = [vehicle];
+    } else {
+      vehicles = selectDashboardVehicles(await vehicleRepository.getAllVehicles());
+    }
+
+    const chatRequest: ChatRequest = {
+      context: {
+        view: context.view,
+        vehicleId: context.vehicleId,
+      },
+      conversationHistory,
+      userMessage: userMessage.trim(),
+    };
+
+    const aiService = new AIService();
+    const aiResponse = await aiService.chat(chatRequest, vehicles);
+
+    const chatResponse: ChatResponse = { aiResponse };
+    res.json(chatResponse);
+  } catch (error) {
+    console.error('Error generating chat response:', error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Failed to generate chat response'
+    });
+  }
+});
+
+export default router;
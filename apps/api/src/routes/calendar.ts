@@ -0,0 +1,36 @@
+import { Router, Request, Response } from 'express';
+import { ServiceRegistry } from '@car-finder/services';
+import { CalendarVisit, VisitCalendar } from '../services/VisitCalendar';
+
+// Mounted at /api/calendar
+const router: Router = Router();
+
+// GET /api/calendar/visits.ics - Upcoming scheduled visits as an iCalendar feed
+router.get('/visits.ics', async (req: Request, res: Response) => {
+  try {
+    const vehicleRepository = await ServiceRegistry.getVehicleRepository();
+    const visits = await vehicleRepository.getUpcomingVisits(new Date());
+
+    const entries: CalendarVisit[] = [];
+    for (const visit of visits) {
+      const vehicle = await vehicleRepository.findVehicleById(visit.vehicleId);
+      // Soft-deleted vehicles are hidden everywhere else, so their visits are too
+      if (vehicle && vehicle.status !== 'deleted') {
+        entries.push({ visit, vehicle });
+      }
+    }
+
+    res
+      .type('text/calendar; charset=utf-8')
+      .attachment('car-finder-visits.ics')
+      .send(new VisitCalendar().build(entries));
+  } catch (error) {
+    console.error('Error exporting visit calendar:', error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: 'Failed to export visit calendar'
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,203 @@
+import { Router, Request, Response } from 'express';
+import { ServiceRegistry, IVehicleRepository } from '@car-finder/services';
+import {
+  DraftSellerMessageRequest,
+  SellerConversationResponse,
+  SellerMessageType,
+  Vehicle,
+} from '@car-finder/types';
+import { AIService } from '../services/AIService';
+
+// Mounted at /api/vehicles/:id/messages
+const router: Router = Router({ mergeParams: true });
+
+const MESSAGE_TYPES: SellerMessageType[] = ['inquiry', 'negotiation'];
+const MAX_NOTES_LENGTH = 1000;
+
+/**
+ * Load the vehicle from the route, or send a 404 and return null
+ */
+async function findVehicleOr404(
+  vehicleRepository: IVehicleRepository,
+  req: Request,
+  res: Response
+): Promise<Vehicle | null> {
+  const vehicle = await vehicleRepository.findVehicleById(req.params.id);
+  if (!vehicle) {
+    res.status(404).json({
+      error: 'Vehicle not found',
+      message: `No vehicle found with ID: ${req.params.id}`
+    });
+  }
+  return vehicle;
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === 'string' && value.trim() !== '';
+}
+
+/**
+ * Validate a POST /messages/draft body
+ * @returns The draft request, or an error message for a 400 response
+ */
+function parseDraftRequest(body: any): { request: DraftSellerMessageRequest } | { error: string } {
+  const { messageType, offerPriceEur, notes } = body ?? {};
+
+  if (!MESSAGE_TYPES.includes(messageType)) {
+    return { error: `messageType must be one of: ${MESSAGE_TYPES.join(', ')}` };
+  }
+  if (offerPriceEur !== undefined && offerPriceEur !== null && !(typeof offerPriceEur === 'number' && offerPriceEur > 0)) {
+    return { error: 'offerPriceEur must be a positive number' };
+  }
+  if (notes !== undefined && notes !== null && (typeof notes !== 'string' || notes.length > MAX_NOTES_LENGTH)) {
+    return { error: `notes must be a string of at most ${MAX_NOTES_LENGTH} characters` };
+  }
+
+  return {
+    request: {
+      messageType,
+      ...(offerPriceEur ? { offerPriceEur } : {}),
+      ...(isNonEmptyString(notes) ? { notes: notes.trim() } : {}),
+    },
+  };
+}
+
+// GET /api/vehicles/:id/messages - Conversation log with the seller, oldest first
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const vehicleRepository = await ServiceRegistry.getVehicleRepository();
+    const vehicle = await findVehicleOr404(vehicleRepository, req, res);
+    if (!vehicle) {
+      return;
+    }
+
+    const response: SellerConversationResponse = {
+      vehicleId: vehicle.id,
+      messages: await vehicleRepository.getSellerMessages(vehicle.id),
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error('Error fetching seller messages:', error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: 'Failed to fetch seller messages'
+    });
+  }
+});
+
+// POST /api/vehicles/:id/messages/draft - Draft the next message to the seller (not stored)
+router.post('/draft', async (req: Request, res: Response) => {
+  try {
+    const parsed = parseDraftRequest(req.body);
+    if ('error' in parsed) {
+      return res.status(400).json({
+        error: 'Bad request',
+        message: parsed.error
+      });
+    }
+
+    const vehicleRepository = await ServiceRegistry.getVehicleRepository();
+    const vehicle = await findVehicleOr404(vehicleRepository, req, res);
+    if (!vehicle) {
+      return;
+    }
+
+    const conversation = await vehicleRepository.getSellerMessages(vehicle.id);
+    const aiService = new AIService();
+    const draft = await aiService.draftSellerMessage(vehicle, parsed.request, conversation);
+
+    res.json(draft);
+  } catch (error) {
+    console.error('Error drafting seller message:', error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Failed to draft seller message'
+    });
+  }
+});
+
+// POST /api/vehicles/:id/messages - Log a message sent to the seller
+router.post('/', async (req: Request, res: Response) => {
+  try {
+    const { messageType, textPl, textEn } = req.body ?? {};
+
+    if (!MESSAGE_TYPES.includes(messageType)) {
+      return res.status(400).json({
+        error: 'Bad request',
+        message: `messageType must be one of: ${MESSAGE_TYPES.join(', ')}`
+      });
+    }
+
+    if (!isNonEmptyString(textPl) || !isNonEmptyString(textEn)) {
+      return res.status(400).json({
+        error: 'Bad request',
+        message: 'textPl and textEn must be non-empty strings'
+      });
+    }
+
+    const vehicleRepository = await ServiceRegistry.getVehicleRepository();
+    const vehicle = await findVehicleOr404(vehicleRepository, req, res);
+    if (!vehicle) {
+      return;
+    }
+
+    const message = await vehicleRepository.addSellerMessage({
+      vehicleId: vehicle.id,
+      direction: 'outgoing',
+      messageType,
+      textPl: textPl.trim(),
+      textEn: textEn.trim(),
+    });
+
+    res.status(201).json(message);
+  } catch (error) {
+    console.error('Error logging seller message:', error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: 'Failed to log seller message'
+    });
+  }
+});
+
+// POST /api/vehicles/:id/messages/reply - Translate a pasted seller reply and log it
+router.post('/reply', async (req: Request, res: Response) => {
+  try {
+    const { textPl } = req.body ?? {};
+
+    if (!isNonEmptyString(textPl)) {
+      return res.status(400).json({
+        error: 'Bad request',
+        message: 'textPl must be a non-empty string'
+      });
+    }
+
+    const vehicleRepository = await ServiceRegistry.getVehicleRepository();
+    const vehicle = await findVehicleOr404(vehicleRepository, req, res);
+    if (!vehicle) {
+      return;
+    }
+
+    const conversation = await vehicleRepository.getSellerMessages(vehicle.id);
+    const aiService = new AIService();
+    const textEn = await aiService.translateSellerReply(vehicle, textPl.trim(), conversation);
+
+    const message = await vehicleRepository.addSellerMessage({
+      vehicleId: vehicle.id,
+      direction: 'incoming',
+      messageType: null,
+      textPl: textPl.trim(),
+      textEn,
+    });
+
+    res.status(201).json(message);
+  } catch (error) {
+    console.error('Error translating seller reply:', error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Failed to translate seller reply'
+    });
+  }
+});
+
+export default router;
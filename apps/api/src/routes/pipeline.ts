@@ -0,0 +1,39 @@
+import { Router, Request, Response } from 'express';
+import { ServiceRegistry } from '@car-finder/services';
+import { PipelineRunsResponse } from '@car-finder/types';
+
+const router: Router = Router();
+
+const DEFAULT_RUN_LIMIT = 20;
+const MAX_RUN_LIMIT = 100;
+
+// GET /api/pipeline/runs - Scheduled pipeline run history, most recent first
+router.get('/runs', async (req: Request, res: Response) => {
+  try {
+    let limit = DEFAULT_RUN_LIMIT;
+    if (req.query.limit !== undefined) {
+      limit = Number(req.query.limit);
+      if (!Number.isInteger(limit) || limit < 1 || limit > MAX_RUN_LIMIT) {
+        return res.status(400).json({
+          error: 'Bad request',
+          message: `limit must be an integer between 1 and ${MAX_RUN_LIMIT}`
+        });
+      }
+    }
+
+    const vehicleRepository = await ServiceRegistry.getVehicleRepository();
+    const response: PipelineRunsResponse = {
+      runs: await vehicleRepository.getPipelineRuns(limit),
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error('Error fetching pipeline runs:', error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: 'Failed to fetch pipeline runs'
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,27 @@
+import { Router, Request, Response } from 'express';
+import { CriteriaProfilesResponse } from '@car-finder/types';
+import { CriteriaProfileService } from '../services/CriteriaProfileService';
+
+const router: Router = Router();
+
+// GET /api/profiles - Criteria profiles available for personal fit scores
+router.get('/', (req: Request, res: Response) => {
+  try {
+    const profileService = new CriteriaProfileService();
+
+    const response: CriteriaProfilesResponse = {
+      profiles: profileService.getProfiles(),
+      defaultProfileId: profileService.getDefaultProfileId(),
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error('Error loading criteria profiles:', error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: 'Failed to load criteria profiles from search-config.json'
+    });
+  }
+});
+
+export default router;
@@ -1,18 +1,218 @@
 import { Router, Request, Response } from 'express';
-import { ServiceRegistry } from '@car-finder/services';
-import { Vehicle } from '@car-finder/types';
+import { ServiceRegistry, IVehicleRepository } from '@car-finder/services';
+import {
+  Vehicle,
+  DuplicateListing,
+  VehicleQuery,
+  VehicleStatus,
+  ListingState,
+  VehicleSortField,
+  SortDirection,
+  TranslateVehicleResponse,
+  AnalyzeVehicleResponse,
+  BulkOperation,
+  BulkOperationResponse,
+  BulkVehicleAction,
+  MarketValueAnalysis,
+  VehicleComparison,
+} from '@car-finder/types';
+import { AIService } from '../services/AIService';
+import { VehicleComparisonBuilder } from '../services/VehicleComparisonBuilder';
+import { sourceRegistry } from '../sources';
 
 const router: Router = Router();
 
-// GET /api/vehicles - Get all vehicles
+const VEHICLE_STATUSES: VehicleStatus[] = ['new', 'to_contact', 'contacted', 'to_visit', 'visited', 'not_interested', 'deleted', 'sold', 'removed'];
+const LISTING_STATES: ListingState[] = ['active', 'sold', 'removed'];
+const SORT_FIELDS: VehicleSortField[] = ['createdAt', 'sourceCreatedAt', 'priceEur', 'year', 'mileage', 'personalFitScore', 'aiPriorityRating'];
+const MAX_PAGE_SIZE = 100;
+// Workflow statuses in order: a vehicle may move forward any number of steps, or back one to correct a mistake
+const WORKFLOW_STATUSES: VehicleStatus[] = ['new', 'to_contact', 'contacted', 'to_visit', 'visited'];
+// Statuses that take a vehicle out of the workflow; reachable from any status and left for any status
+const EXIT_STATUSES: VehicleStatus[] = ['not_interested', 'deleted', 'sold', 'removed'];
+const BULK_ACTIONS: BulkVehicleAction[] = ['set_status', 'append_note', 'reanalyze', 'delete'];
+const MAX_BULK_VEHICLES = 500;
+const BULK_UNDO_WINDOW_MS = 10 * 60 * 1000;
+const MIN_COMPARED_VEHICLES = 2;
+const MAX_COMPARED_VEHICLES = 4;
+
+/**
+ * Read a query parameter that may be repeated (?a=1&a=2) or comma-separated (?a=1,2)
+ */
+function parseListParam(value: unknown): string[] {
+  const values = Array.isArray(value) ? value : [value];
+  return values
+    .filter((item): item is string => typeof item === 'string')
+    .flatMap(item => item.split(','))
+    .map(item => item.trim())
+    .filter(item => item !== '');
+}
+
+/**
+ * Parse and validate GET /api/vehicles query parameters
+ * @returns The repository query, or an error message for a 400 response
+ */
+function parseVehicleQuery(params: Request['query']): { query: VehicleQuery } | { error: string } {
+  const query: VehicleQuery = {};
+
+  const status = parseListParam(params.status);
+  if (status.length > 0) {
+    const invalid = status.filter(value => !VEHICLE_STATUSES.includes(value as VehicleStatus));
+    if (invalid.length > 0) {
+      return { error: `Invalid status value: ${invalid.join(', ')}` };
+    }
+    query.status = status as VehicleStatus[];
+  }
+
+  const listingState = parseListParam(params.listingState);
+  if (listingState.length > 0) {
+    const invalid = listingState.filter(value => !LISTING_STATES.includes(value as ListingState));
+    if (invalid.length > 0) {
+      return { error: `Invalid listingState value: ${invalid.join(', ')}` };
+    }
+    query.listingState = listingState as ListingState[];
+  }
+
+  if (params.source !== undefined) {
+    if (typeof params.source !== 'string' || !sourceRegistry.has(params.source)) {
+      return { error: `Invalid source value: ${params.source}` };
+    }
+    query.source = params.source;
+  }
+
+  const numericParams = [
+    'minPriceEur', 'maxPriceEur', 'minYear', 'maxYear', 'minMileage', 'maxMileage',
+    'minPersonalFitScore', 'minAiPriorityRating',
+  ] as const;
+  for (const name of numericParams) {
+    if (params[name] === undefined) continue;
+    const value = Number(params[name]);
+    if (typeof params[name] !== 'string' || params[name] === '' || !Number.isFinite(value)) {
+      return { error: `${name} must be a number` };
+    }
+    query[name] = value;
+  }
+
+  const features = parseListParam(params.features);
+  if (features.length > 0) {
+    query.features = features;
+  }
+
+  if (typeof params.search === 'string' && params.search.trim() !== '') {
+    query.search = params.search.trim();
+  }
+
+  if (params.collapseDuplicates !== undefined) {
+    if (params.collapseDuplicates !== 'true' && params.collapseDuplicates !== 'false') {
+      return { error: "collapseDuplicates must be either 'true' or 'false'" };
+    }
+    query.collapseDuplicates = params.collapseDuplicates === 'true';
+  }
+
+  if (params.profileId !== undefined) {
+    if (typeof params.profileId !== 'string' || params.profileId.trim() === '') {
+      return { error: 'profileId must be a non-empty string' };
+    }
+    query.profileId = params.profileId.trim();
+  }
+
+  if (params.sortBy !== undefined) {
+    if (!SORT_FIELDS.includes(params.sortBy as VehicleSortField)) {
+      return { error: `Invalid sortBy value. Allowed: ${SORT_FIELDS.join(', ')}` };
+    }
+    query.sortBy = params.sortBy as VehicleSortField;
+  }
+
+  if (params.sortDirection !== undefined) {
+    if (params.sortDirection !== 'asc' && params.sortDirection !== 'desc') {
+      return { error: "sortDirection must be either 'asc' or 'desc'" };
+    }
+    query.sortDirection = params.sortDirection as SortDirection;
+  }
+
+  if (params.page !== undefined) {
+    const page = Number(params.page);
+    if (!Number.isInteger(page) || page < 1) {
+      return { error: 'page must be a positive integer' };
+    }
+    query.page = page;
+  }
+
+  if (params.limit !== undefined) {
+    const limit = Number(params.limit);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+      return { error: `limit must be an integer between 1 and ${MAX_PAGE_SIZE}` };
+    }
+    query.limit = limit;
+  }
+
+  return { query };
+}
+
+/**
+ * Whether PATCH and bulk set_status may move a vehicle from one status to another
+ */
+function isAllowedStatusTransition(from: VehicleStatus, to: VehicleStatus): boolean {
+  if (from === to || EXIT_STATUSES.includes(from) || EXIT_STATUSES.includes(to)) {
+    return true;
+  }
+  return WORKFLOW_STATUSES.indexOf(to) >= WORKFLOW_STATUSES.indexOf(from) - 1;
+}
+
+/**
+ * Transform a bulk operation for API responses
+ */
+function toBulkOperationResponse(operation: BulkOperation, rejectedVehicleIds: string[] = []): BulkOperationResponse {
+  return {
+    operationId: operation.id,
+    action: operation.action,
+    affected: operation.vehicleIds.length,
+    vehicleIds: operation.vehicleIds,
+    rejectedVehicleIds,
+    undoExpiresAt: operation.undoExpiresAt.toISOString(),
+    undoneAt: operation.undoneAt ? operation.undoneAt.toISOString() : null,
+  };
+}
+
+/**
+ * Map each vehicle ID to the other listings in its duplicate cluster
+ */
+async function findDuplicateListings(
+  vehicleRepository: IVehicleRepository,
+  vehicleIds: string[]
+): Promise<Map<string, DuplicateListing[]>> {
+  const clusters = await vehicleRepository.getDuplicateClusters(vehicleIds);
+  const duplicates = new Map<string, DuplicateListing[]>();
+
+  for (const cluster of clusters) {
+    for (const listing of cluster.listings) {
+      duplicates.set(listing.vehicleId, cluster.listings.filter(other => other.vehicleId !== listing.vehicleId));
+    }
+  }
+
+  return duplicates;
+}
+
+// GET /api/vehicles - Query vehicles with filtering, sorting and pagination
 router.get('/', async (req: Request, res: Response) => {
   try {
+    const parsed = parseVehicleQuery(req.query);
+    if ('error' in parsed) {
+      return res.status(400).json({
+        error: 'Bad request',
+        message: parsed.error
+      });
+    }
+
     const vehicleRepository = await ServiceRegistry.getVehicleRepository();
     
-    const vehicles = await vehicleRepository.getAllVehicles();
+    const result = await vehicleRepository.queryVehicles(parsed.query);
+    const vehicleIds = result.data.map(vehicle => vehicle.id);
+    const duplicates = await findDuplicateListings(vehicleRepository, vehicleIds);
+    const fitScores = await vehicleRepository.getFitScores(vehicleIds);
     
     // Transform vehicles for API response (exclude raw source fields for clarity)
-    const apiVehicles = vehicles.map(vehicle => ({
+    const apiVehicles = result.data.map(vehicle => ({
       id: vehicle.id,
       source: vehicle.source,
       sourceUrl: vehicle.sourceUrl,
@@ -24,6 +224,7 @@ router.get('/', async (req: Request, res: Response) => {
       priceEur: vehicle.priceEur,
       year: vehicle.year,
       mileage: vehicle.mileage,
+      attributes: vehicle.attributes,
       sellerInfo: vehicle.sellerInfo,
       photos: vehicle.photos,
       personalFitScore: vehicle.personalFitScore,
@@ -35,9 +236,19 @@ router.get('/', async (req: Request, res: Response) => {
       personalNotes: vehicle.personalNotes,
       createdAt: vehicle.createdAt.toISOString(),
       updatedAt: vehicle.updatedAt.toISOString(),
+      lastSeenAt: vehicle.lastSeenAt ? vehicle.lastSeenAt.toISOString() : null,
+      listingState: vehicle.listingState,
+      delistedAt: vehicle.delistedAt ? vehicle.delistedAt.toISOString() : null,
+      duplicateListings: duplicates.get(vehicle.id) ?? [],
+      fitScores: fitScores.get(vehicle.id) ?? {},
     }));
 
-    res.json(apiVehicles);
+    res.json({
+      data: apiVehicles,
+      total: result.total,
+      page: result.page,
+      limit: result.limit,
+    });
   } catch (error) {
     console.error('Error fetching vehicles:', error);
     res.status(500).json({
@@ -47,6 +258,75 @@ router.get('/', async (req: Request, res: Response) => {
   }
 });
 
+// GET /api/vehicles/stats/time-on-market - Days from publication to delisting for sold/removed vehicles
+router.get('/stats/time-on-market', async (req: Request, res: Response) => {
+  try {
+    const vehicleRepository = await ServiceRegistry.getVehicleRepository();
+    const stats = await vehicleRepository.getTimeOnMarketStats();
+
+    res.json({ stats });
+  } catch (error) {
+    console.error('Error fetching time-on-market stats:', error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: 'Failed to fetch time-on-market stats from database'
+    });
+  }
+});
+
+// GET /api/vehicles/compare?ids=a,b,c - Key attributes of 2-4 vehicles side by side, optionally with an AI recommendation
+router.get('/compare', async (req: Request, res: Response) => {
+  try {
+    const ids = parseListParam(req.query.ids);
+    if (ids.length < MIN_COMPARED_VEHICLES || ids.length > MAX_COMPARED_VEHICLES || new Set(ids).size !== ids.length) {
+      return res.status(400).json({
+        error: 'Bad request',
+        message: `ids must list ${MIN_COMPARED_VEHICLES}-${MAX_COMPARED_VEHICLES} different vehicle IDs`
+      });
+    }
+
+    const vehicleRepository = await ServiceRegistry.getVehicleRepository();
+    const found = await Promise.all(ids.map(id => vehicleRepository.findVehicleById(id)));
+    const missing = ids.filter((_id, index) => !found[index]);
+    if (missing.length > 0) {
+      return res.status(404).json({
+        error: 'Vehicle not found',
+        message: `No vehicle found with ID: ${missing.join(', ')}`
+      });
+    }
+    const vehicles = found as Vehicle[];
+
+    const marketValues = new Map<string, MarketValueAnalysis>();
+    for (const vehicle of vehicles) {
+      const analysis = await vehicleRepository.getMarketValueAnalysis(vehicle.id);
+      if (analysis) {
+        marketValues.set(vehicle.id, analysis);
+      }
+    }
+
+    const comparison: VehicleComparison = new VehicleComparisonBuilder().build(vehicles, marketValues);
+
+    // The comparison itself needs no AI, so a failed recommendation is reported with it instead of failing the request
+    if (req.query.recommend === 'true') {
+      try {
+        const aiService = new AIService();
+        comparison.recommendation = await aiService.compareVehicles(vehicles, comparison);
+      } catch (error) {
+        console.error('Error generating comparison recommendation:', error);
+        comparison.recommendationError = error instanceof Error ? error.message : 'Failed to generate recommendation';
+      }
+    }
+
+    res.json(comparison);
+  } catch (error) {
+    console.error('Error comparing vehicles:', error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Failed to compare vehicles'
+    });
+  }
+});
+
 // GET /api/vehicles/:id - Get single vehicle by ID
 router.get('/:id', async (req: Request, res: Response) => {
   try {
@@ -61,12 +341,21 @@ router.get('/:id', async (req: Request, res: Response) => {
       });
     }
 
+    const duplicates = await findDuplicateListings(vehicleRepository, [vehicle.id]);
+    const fitScores = await vehicleRepository.getFitScores([vehicle.id]);
+
     // Transform vehicle for API response
     const apiVehicle = {
       id: vehicle.id,
       source: vehicle.source,
       sourceUrl: vehicle.sourceUrl,
+      sourceId: vehicle.sourceId,
       sourceCreatedAt: vehicle.sourceCreatedAt.toISOString(),
+      // Raw listing data shown on the detail page
+      sourceTitle: vehicle.sourceTitle,
+      sourceDescriptionHtml: vehicle.sourceDescriptionHtml,
+      sourceParameters: vehicle.sourceParameters,
+      sourceEquipment: vehicle.sourceEquipment,
       title: vehicle.title,
       description: vehicle.description,
       features: vehicle.features,
@@ -74,6 +363,7 @@ router.get('/:id', async (req: Request, res: Response) => {
       priceEur: vehicle.priceEur,
       year: vehicle.year,
       mileage: vehicle.mileage,
+      attributes: vehicle.attributes,
       sellerInfo: vehicle.sellerInfo,
       photos: vehicle.photos,
       personalFitScore: vehicle.personalFitScore,
@@ -81,10 +371,17 @@ router.get('/:id', async (req: Request, res: Response) => {
       aiPriorityRating: vehicle.aiPriorityRating,
       aiPrioritySummary: vehicle.aiPrioritySummary,
       aiMechanicReport: vehicle.aiMechanicReport,
+      aiDataSanityCheck: vehicle.aiDataSanityCheck,
       status: vehicle.status,
       personalNotes: vehicle.personalNotes,
+      scrapedAt: vehicle.scrapedAt.toISOString(),
       createdAt: vehicle.createdAt.toISOString(),
       updatedAt: vehicle.updatedAt.toISOString(),
+      lastSeenAt: vehicle.lastSeenAt ? vehicle.lastSeenAt.toISOString() : null,
+      listingState: vehicle.listingState,
+      delistedAt: vehicle.delistedAt ? vehicle.delistedAt.toISOString() : null,
+      duplicateListings: duplicates.get(vehicle.id) ?? [],
+      fitScores: fitScores.get(vehicle.id) ?? {},
     };
 
     res.json(apiVehicle);
@@ -97,6 +394,106 @@ router.get('/:id', async (req: Request, res: Response) => {
   }
 });
 
+// GET /api/vehicles/:id/history - Price and listing history, oldest snapshot first
+router.get('/:id/history', async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const vehicleRepository = await ServiceRegistry.getVehicleRepository();
+    const vehicle = await vehicleRepository.findVehicleById(id);
+
+    if (!vehicle) {
+      return res.status(404).json({
+        error: 'Vehicle not found',
+        message: `No vehicle found with ID: ${id}`
+      });
+    }
+
+    const snapshots = await vehicleRepository.getVehicleSnapshots(id);
+
+    res.json({
+      vehicleId: id,
+      snapshots: snapshots.map(snapshot => ({
+        ...snapshot,
+        capturedAt: snapshot.capturedAt.toISOString(),
+      })),
+    });
+  } catch (error) {
+    console.error('Error fetching vehicle history:', error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: 'Failed to fetch vehicle history from database'
+    });
+  }
+});
+
+// GET /api/vehicles/:id/events - Status, note and price changes and analysis runs, oldest first
+router.get('/:id/events', async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const vehicleRepository = await ServiceRegistry.getVehicleRepository();
+    const vehicle = await vehicleRepository.findVehicleById(id);
+
+    if (!vehicle) {
+      return res.status(404).json({
+        error: 'Vehicle not found',
+        message: `No vehicle found with ID: ${id}`
+      });
+    }
+
+    const events = await vehicleRepository.getVehicleEvents(id);
+
+    res.json({
+      vehicleId: id,
+      events: events.map(event => ({
+        ...event,
+        createdAt: event.createdAt.toISOString(),
+      })),
+    });
+  } catch (error) {
+    console.error('Error fetching vehicle events:', error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: 'Failed to fetch vehicle events from database'
+    });
+  }
+});
+
+// GET /api/vehicles/:id/market-value - Market value score with the comparables behind it
+router.get('/:id/market-value', async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const vehicleRepository = await ServiceRegistry.getVehicleRepository();
+    const vehicle = await vehicleRepository.findVehicleById(id);
+
+    if (!vehicle) {
+      return res.status(404).json({
+        error: 'Vehicle not found',
+        message: `No vehicle found with ID: ${id}`
+      });
+    }
+
+    const analysis = await vehicleRepository.getMarketValueAnalysis(id);
+
+    if (!analysis) {
+      return res.status(404).json({
+        error: 'Market value not found',
+        message: `Market value has not been calculated for vehicle: ${id}`
+      });
+    }
+
+    res.json({
+      ...analysis,
+      calculatedAt: analysis.calculatedAt.toISOString(),
+    });
+  } catch (error) {
+    console.error('Error fetching market value:', error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: 'Failed to fetch market value from database'
+    });
+  }
+});
+
 // PATCH /api/vehicles/:id - Update vehicle status or notes
 router.patch('/:id', async (req: Request, res: Response) => {
   try {
@@ -111,7 +508,7 @@ router.patch('/:id', async (req: Request, res: Response) => {
       });
     }
 
-    if (status && !['new', 'to_contact', 'contacted', 'to_visit', 'visited', 'not_interested', 'deleted'].includes(status)) {
+    if (status && !VEHICLE_STATUSES.includes(status)) {
       return res.status(400).json({
         error: 'Bad request',
         message: 'Invalid status value'
@@ -129,6 +526,13 @@ router.patch('/:id', async (req: Request, res: Response) => {
       });
     }
 
+    if (status && !isAllowedStatusTransition(existingVehicle.status, status)) {
+      return res.status(409).json({
+        error: 'Invalid status transition',
+        message: `Cannot change status from ${existingVehicle.status} to ${status}`
+      });
+    }
+
     // Update vehicle
     const updates: Partial<Vehicle> = {};
     if (status) updates.status = status as any;
@@ -179,6 +583,173 @@ router.patch('/:id', async (req: Request, res: Response) => {
   }
 });
 
+// POST /api/vehicles/bulk - Apply one action to a list of vehicles or to every vehicle matching a filter
+router.post('/bulk', async (req: Request, res: Response) => {
+  try {
+    const { vehicleIds, filter, action, status, note } = req.body ?? {};
+
+    if (!BULK_ACTIONS.includes(action)) {
+      return res.status(400).json({
+        error: 'Bad request',
+        message: `action must be one of: ${BULK_ACTIONS.join(', ')}`
+      });
+    }
+
+    if (action === 'set_status' && !VEHICLE_STATUSES.includes(status)) {
+      return res.status(400).json({
+        error: 'Bad request',
+        message: 'Invalid status value'
+      });
+    }
+
+    if (action === 'append_note' && (typeof note !== 'string' || note.trim() === '')) {
+      return res.status(400).json({
+        error: 'Bad request',
+        message: 'note must be a non-empty string'
+      });
+    }
+
+    if ((vehicleIds === undefined) === (filter === undefined)) {
+      return res.status(400).json({
+        error: 'Bad request',
+        message: 'Provide either vehicleIds or filter'
+      });
+    }
+
+    const vehicleRepository = await ServiceRegistry.getVehicleRepository();
+    let targetIds: string[];
+    let targetVehicles: (Vehicle | null)[] | undefined;
+
+    if (vehicleIds !== undefined) {
+      if (!Array.isArray(vehicleIds) || vehicleIds.length === 0 || !vehicleIds.every(id => typeof id === 'string')) {
+        return res.status(400).json({
+          error: 'Bad request',
+          message: 'vehicleIds must be a non-empty array of strings'
+        });
+      }
+      targetIds = vehicleIds;
+    } else {
+      if (typeof filter !== 'object' || filter === null || Array.isArray(filter)) {
+        return res.status(400).json({
+          error: 'Bad request',
+          message: 'filter must be an object of vehicle query parameters'
+        });
+      }
+
+      // Reuse the GET /api/vehicles validation, which expects query-string values
+      const params: Request['query'] = {};
+      for (const [key, value] of Object.entries(filter)) {
+        if (key === 'page' || key === 'limit' || value === undefined || value === null) continue;
+        params[key] = Array.isArray(value) ? value.map(String) : String(value);
+      }
+      const parsed = parseVehicleQuery(params);
+      if ('error' in parsed) {
+        return res.status(400).json({
+          error: 'Bad request',
+          message: parsed.error
+        });
+      }
+
+      const result = await vehicleRepository.queryVehicles({ ...parsed.query, page: 1, limit: MAX_BULK_VEHICLES });
+      targetIds = result.data.map(vehicle => vehicle.id);
+      targetVehicles = result.data;
+      if (result.total > MAX_BULK_VEHICLES) {
+        return res.status(400).json({
+          error: 'Bad request',
+          message: `Filter matches ${result.total} vehicles; narrow it to at most ${MAX_BULK_VEHICLES}`
+        });
+      }
+    }
+
+    if (targetIds.length > MAX_BULK_VEHICLES) {
+      return res.status(400).json({
+        error: 'Bad request',
+        message: `At most ${MAX_BULK_VEHICLES} vehicles can be updated at once`
+      });
+    }
+
+    // Status changes follow the same workflow rules as PATCH. The repository checks the statuses in its
+    // transaction and leaves vehicles that may not move unchanged; they are reported here
+    const operation = await vehicleRepository.applyBulkOperation({
+      action,
+      vehicleIds: targetIds,
+      status: action === 'set_status' ? status : undefined,
+      fromStatuses: action === 'set_status'
+        ? VEHICLE_STATUSES.filter(from => isAllowedStatusTransition(from, status))
+        : undefined,
+      note: action === 'append_note' ? note.trim() : undefined,
+      undoExpiresAt: new Date(Date.now() + BULK_UNDO_WINDOW_MS),
+    });
+
+    let rejectedVehicleIds: string[] = [];
+    if (action === 'set_status') {
+      targetVehicles ??= await Promise.all(targetIds.map(id => vehicleRepository.findVehicleById(id)));
+      rejectedVehicleIds = targetVehicles
+        .filter((vehicle): vehicle is Vehicle => vehicle !== null && !operation?.vehicleIds.includes(vehicle.id))
+        .map(vehicle => vehicle.id);
+    }
+
+    if (!operation && rejectedVehicleIds.length > 0) {
+      return res.status(409).json({
+        error: 'Invalid status transition',
+        message: `None of the selected vehicles can change status to ${status}`,
+        rejectedVehicleIds
+      });
+    }
+    if (!operation) {
+      return res.status(404).json({
+        error: 'Vehicles not found',
+        message: 'None of the selected vehicles exist'
+      });
+    }
+
+    res.json(toBulkOperationResponse(operation, rejectedVehicleIds));
+  } catch (error) {
+    console.error('Error applying bulk operation:', error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: 'Failed to apply bulk operation'
+    });
+  }
+});
+
+// POST /api/vehicles/bulk/:operationId/undo - Restore the vehicles a bulk operation changed
+router.post('/bulk/:operationId/undo', async (req: Request, res: Response) => {
+  try {
+    const { operationId } = req.params;
+    const vehicleRepository = await ServiceRegistry.getVehicleRepository();
+
+    const existing = await vehicleRepository.getBulkOperation(operationId);
+    if (!existing) {
+      return res.status(404).json({
+        error: 'Operation not found',
+        message: `No bulk operation found with ID: ${operationId}`
+      });
+    }
+
+    const operation = await vehicleRepository.undoBulkOperation(operationId);
+    if (!operation) {
+      return existing.undoneAt
+        ? res.status(409).json({
+            error: 'Conflict',
+            message: 'Bulk operation has already been undone'
+          })
+        : res.status(410).json({
+            error: 'Undo expired',
+            message: `Bulk operation could only be undone until ${existing.undoExpiresAt.toISOString()}`
+          });
+    }
+
+    res.json(toBulkOperationResponse(operation));
+  } catch (error) {
+    console.error('Error undoing bulk operation:', error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: 'Failed to undo bulk operation'
+    });
+  }
+});
+
 // POST /api/vehicles/:id/translate - Translate specific vehicle on-demand
 router.post('/:id/translate', async (req: Request, res: Response) => {
   try {
@@ -212,7 +783,7 @@ router.post('/:id/translate', async (req: Request, res: Response) => {
       });
     }
 
-    res.status(202).json({
+    const response: TranslateVehicleResponse = {
       message: 'Translation completed successfully',
       vehicle: {
         id: updatedVehicle.id,
@@ -220,7 +791,9 @@ router.post('/:id/translate', async (req: Request, res: Response) => {
         features: updatedVehicle.features,
         status: updatedVehicle.status,
       }
-    });
+    };
+
+    res.status(202).json(response);
   } catch (error) {
     console.error('Error translating vehicle:', error);
     res.status(500).json({
@@ -235,6 +808,7 @@ router.post('/:id/analyze', async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
     const force = req.query.force === 'true';
+    const profile = typeof req.query.profile === 'string' ? req.query.profile : undefined;
 
     const vehicleRepository = await ServiceRegistry.getVehicleRepository();
 
@@ -260,7 +834,7 @@ router.post('/:id/analyze', async (req: Request, res: Response) => {
 
     // Run analysis
     const analyzer = await VehicleAnalyzer.create();
-    await analyzer.run({ vehicleId: id, force });
+    await analyzer.run({ vehicleId: id, force, profile });
 
     // Fetch updated vehicle
     const updatedVehicle = await vehicleRepository.findVehicleById(id);
@@ -271,18 +845,23 @@ router.post('/:id/analyze', async (req: Request, res: Response) => {
       });
     }
 
-    res.status(202).json({
+    const fitScores = await vehicleRepository.getFitScores([id]);
+
+    const response: AnalyzeVehicleResponse = {
       message: 'Analysis completed successfully',
       vehicle: {
         id: updatedVehicle.id,
         personalFitScore: updatedVehicle.personalFitScore,
+        fitScores: fitScores.get(id) ?? {},
         marketValueScore: updatedVehicle.marketValueScore,
         aiPriorityRating: updatedVehicle.aiPriorityRating,
         aiPrioritySummary: updatedVehicle.aiPrioritySummary,
         aiMechanicReport: updatedVehicle.aiMechanicReport,
         aiDataSanityCheck: updatedVehicle.aiDataSanityCheck,
       }
-    });
+    };
+
+    res.status(202).json(response);
   } catch (error) {
     console.error('Error analyzing vehicle:', error);
     res.status(500).json({
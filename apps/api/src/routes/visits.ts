@@ -0,0 +1,302 @@
+import { Router, Request, Response } from 'express';
+import { ServiceRegistry, IVehicleRepository } from '@car-finder/services';
+import {
+  InspectionItemSource,
+  InspectionResult,
+  NewInspectionItem,
+  Vehicle,
+  VehicleStatus,
+  VehicleVisitsResponse,
+  Visit,
+  VisitStatus,
+  VisitUpdate,
+} from '@car-finder/types';
+import { InspectionChecklistBuilder } from '../services/InspectionChecklistBuilder';
+
+// Mounted at /api/vehicles/:id/visits
+const router: Router = Router({ mergeParams: true });
+
+const VISIT_STATUSES: VisitStatus[] = ['scheduled', 'completed', 'cancelled'];
+const INSPECTION_RESULTS: InspectionResult[] = ['pending', 'ok', 'issue', 'skipped'];
+const INSPECTION_SOURCES: InspectionItemSource[] = ['mechanic_report', 'manual'];
+const TEXT_FIELDS = ['location', 'contactName', 'contactPhone', 'notes'] as const;
+const MAX_TEXT_LENGTH = 1000;
+const MAX_LABEL_LENGTH = 300;
+const MAX_CHECKLIST_ITEMS = 100;
+const MAX_DURATION_MINUTES = 24 * 60;
+// Scheduling a visit moves a vehicle that is still being contacted on to to_visit
+const PRE_VISIT_STATUSES: VehicleStatus[] = ['new', 'to_contact', 'contacted'];
+
+/**
+ * Load the vehicle from the route, or send a 404 and return null
+ */
+async function findVehicleOr404(
+  vehicleRepository: IVehicleRepository,
+  req: Request,
+  res: Response
+): Promise<Vehicle | null> {
+  const vehicle = await vehicleRepository.findVehicleById(req.params.id);
+  if (!vehicle) {
+    res.status(404).json({
+      error: 'Vehicle not found',
+      message: `No vehicle found with ID: ${req.params.id}`
+    });
+  }
+  return vehicle;
+}
+
+/**
+ * Load the route's visit of the vehicle, or send a 404 and return null
+ */
+async function findVisitOr404(
+  vehicleRepository: IVehicleRepository,
+  vehicle: Vehicle,
+  req: Request,
+  res: Response
+): Promise<Visit | null> {
+  const visit = await vehicleRepository.getVisit(req.params.visitId);
+  if (!visit || visit.vehicleId !== vehicle.id) {
+    res.status(404).json({
+      error: 'Visit not found',
+      message: `No visit found with ID: ${req.params.visitId}`
+    });
+    return null;
+  }
+  return visit;
+}
+
+function isOptionalText(value: unknown, maxLength: number): value is string | null | undefined {
+  return value === undefined || value === null || (typeof value === 'string' && value.length <= maxLength);
+}
+
+/**
+ * Validate the appointment fields of a POST or PATCH body
+ * @param requireSchedule - scheduledAt must be present (POST)
+ * @returns The fields to store, or an error message for a 400 response
+ */
+function parseVisitFields(body: any, requireSchedule: boolean): { fields: VisitUpdate } | { error: string } {
+  const { scheduledAt, durationMinutes, status } = body ?? {};
+  const fields: VisitUpdate = {};
+
+  if (scheduledAt !== undefined || requireSchedule) {
+    const date = typeof scheduledAt === 'string' ? new Date(scheduledAt) : null;
+    if (!date || isNaN(date.getTime())) {
+      return { error: 'scheduledAt must be an ISO date string' };
+    }
+    fields.scheduledAt = date;
+  }
+
+  if (durationMinutes !== undefined) {
+    if (!Number.isInteger(durationMinutes) || durationMinutes <= 0 || durationMinutes > MAX_DURATION_MINUTES) {
+      return { error: `durationMinutes must be an integer between 1 and ${MAX_DURATION_MINUTES}` };
+    }
+    fields.durationMinutes = durationMinutes;
+  }
+
+  for (const field of TEXT_FIELDS) {
+    const value = body?.[field];
+    if (!isOptionalText(value, MAX_TEXT_LENGTH)) {
+      return { error: `${field} must be a string of at most ${MAX_TEXT_LENGTH} characters` };
+    }
+    if (value !== undefined) {
+      fields[field] = value?.trim() || null;
+    }
+  }
+
+  if (status !== undefined) {
+    if (requireSchedule) {
+      return { error: 'New visits are always scheduled; change the status with PATCH' };
+    }
+    if (!VISIT_STATUSES.includes(status)) {
+      return { error: `status must be one of: ${VISIT_STATUSES.join(', ')}` };
+    }
+    fields.status = status;
+  }
+
+  return { fields };
+}
+
+/**
+ * Validate a PUT /checklist body
+ * @returns The checklist items in order, or an error message for a 400 response
+ */
+function parseChecklist(body: any): { items: NewInspectionItem[] } | { error: string } {
+  const items = body?.items;
+  if (!Array.isArray(items) || items.length > MAX_CHECKLIST_ITEMS) {
+    return { error: `items must be an array of at most ${MAX_CHECKLIST_ITEMS} checklist items` };
+  }
+
+  const parsed: NewInspectionItem[] = [];
+  for (const [index, item] of items.entries()) {
+    const { id, label, critical, source, result, notes } = item ?? {};
+
+    if (typeof label !== 'string' || label.trim() === '' || label.length > MAX_LABEL_LENGTH) {
+      return { error: `items[${index}].label must be a non-empty string of at most ${MAX_LABEL_LENGTH} characters` };
+    }
+    if (id !== undefined && typeof id !== 'string') {
+      return { error: `items[${index}].id must be a string` };
+    }
+    if (critical !== undefined && typeof critical !== 'boolean') {
+      return { error: `items[${index}].critical must be a boolean` };
+    }
+    if (source !== undefined && !INSPECTION_SOURCES.includes(source)) {
+      return { error: `items[${index}].source must be one of: ${INSPECTION_SOURCES.join(', ')}` };
+    }
+    if (result !== undefined && !INSPECTION_RESULTS.includes(result)) {
+      return { error: `items[${index}].result must be one of: ${INSPECTION_RESULTS.join(', ')}` };
+    }
+    if (!isOptionalText(notes, MAX_TEXT_LENGTH)) {
+      return { error: `items[${index}].notes must be a string of at most ${MAX_TEXT_LENGTH} characters` };
+    }
+
+    parsed.push({
+      ...(id ? { id } : {}),
+      label: label.trim(),
+      critical: critical ?? false,
+      source: source ?? 'manual',
+      result: result ?? 'pending',
+      notes: notes?.trim() || null,
+    });
+  }
+
+  return { items: parsed };
+}
+
+// GET /api/vehicles/:id/visits - Visits with their checklists, earliest appointment first
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const vehicleRepository = await ServiceRegistry.getVehicleRepository();
+    const vehicle = await findVehicleOr404(vehicleRepository, req, res);
+    if (!vehicle) {
+      return;
+    }
+
+    const response: VehicleVisitsResponse = {
+      vehicleId: vehicle.id,
+      visits: await vehicleRepository.getVisits(vehicle.id),
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error('Error fetching visits:', error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: 'Failed to fetch visits'
+    });
+  }
+});
+
+// POST /api/vehicles/:id/visits - Schedule a visit with a checklist from the mechanic report
+router.post('/', async (req: Request, res: Response) => {
+  try {
+    const parsed = parseVisitFields(req.body, true);
+    if ('error' in parsed) {
+      return res.status(400).json({
+        error: 'Bad request',
+        message: parsed.error
+      });
+    }
+
+    const vehicleRepository = await ServiceRegistry.getVehicleRepository();
+    const vehicle = await findVehicleOr404(vehicleRepository, req, res);
+    if (!vehicle) {
+      return;
+    }
+
+    const { scheduledAt, ...details } = parsed.fields;
+    const visit = await vehicleRepository.createVisit({
+      ...details,
+      vehicleId: vehicle.id,
+      scheduledAt: scheduledAt!,
+      checklist: new InspectionChecklistBuilder().build(vehicle.aiMechanicReport),
+    });
+
+    if (PRE_VISIT_STATUSES.includes(vehicle.status)) {
+      await vehicleRepository.updateVehicle(vehicle.id, { status: 'to_visit' });
+    }
+
+    res.status(201).json(visit);
+  } catch (error) {
+    console.error('Error scheduling visit:', error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: 'Failed to schedule visit'
+    });
+  }
+});
+
+// PATCH /api/vehicles/:id/visits/:visitId - Reschedule, edit contact details, complete or cancel
+router.patch('/:visitId', async (req: Request, res: Response) => {
+  try {
+    const parsed = parseVisitFields(req.body, false);
+    if ('error' in parsed) {
+      return res.status(400).json({
+        error: 'Bad request',
+        message: parsed.error
+      });
+    }
+    if (Object.keys(parsed.fields).length === 0) {
+      return res.status(400).json({
+        error: 'Bad request',
+        message: 'No visit fields provided'
+      });
+    }
+
+    const vehicleRepository = await ServiceRegistry.getVehicleRepository();
+    const vehicle = await findVehicleOr404(vehicleRepository, req, res);
+    if (!vehicle) {
+      return;
+    }
+    const visit = await findVisitOr404(vehicleRepository, vehicle, req, res);
+    if (!visit) {
+      return;
+    }
+
+    const updated = await vehicleRepository.updateVisit(visit.id, parsed.fields);
+
+    if (parsed.fields.status === 'completed' && vehicle.status === 'to_visit') {
+      await vehicleRepository.updateVehicle(vehicle.id, { status: 'visited' });
+    }
+
+    res.json(updated);
+  } catch (error) {
+    console.error('Error updating visit:', error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: 'Failed to update visit'
+    });
+  }
+});
+
+// PUT /api/vehicles/:id/visits/:visitId/checklist - Replace the checklist (edits and check-off results)
+router.put('/:visitId/checklist', async (req: Request, res: Response) => {
+  try {
+    const parsed = parseChecklist(req.body);
+    if ('error' in parsed) {
+      return res.status(400).json({
+        error: 'Bad request',
+        message: parsed.error
+      });
+    }
+
+    const vehicleRepository = await ServiceRegistry.getVehicleRepository();
+    const vehicle = await findVehicleOr404(vehicleRepository, req, res);
+    if (!vehicle) {
+      return;
+    }
+    const visit = await findVisitOr404(vehicleRepository, vehicle, req, res);
+    if (!visit) {
+      return;
+    }
+
+    res.json(await vehicleRepository.replaceVisitChecklist(visit.id, parsed.items));
+  } catch (error) {
+    console.error('Error saving visit checklist:', error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: 'Failed to save visit checklist'
+    });
+  }
+});
+
+export default router;
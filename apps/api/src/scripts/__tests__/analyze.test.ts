@@ -142,5 +142,19 @@ describe('analyze.ts', () => {
 
       expect(steps).toContain('fit_score');
     });
+
+    it('should check the fit score of the selected criteria profile', () => {
+      const vehicle = createMockVehicle({
+        personalFitScore: 8,
+        fitScores: { default: 8 },
+        aiDataSanityCheck: 'Complete',
+        aiMechanicReport: 'Report complete',
+        marketValueScore: 'good-deal',
+        aiPriorityRating: 9,
+      });
+
+      expect(getRequiredAnalysisSteps(vehicle, false, 'default')).toEqual([]);
+      expect(getRequiredAnalysisSteps(vehicle, false, 'family-van')).toEqual(['fit_score']);
+    });
   });
 });
@@ -0,0 +1,286 @@
+/**
+ * Ingestion replay tests - runs IngestionPipeline against an archive of saved Otomoto pages
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ServiceRegistry, MockVehicleRepository, WorkspaceUtils } from '@car-finder/services';
+import { Vehicle } from '@car-finder/types';
+import { IngestionPipeline, parseArgs } from '../ingest';
+import { ParserService } from '../../services/ParserService';
+import { PageArchive } from '../../services/PageArchive';
+import { ArchiveScraperService } from '../../services/ArchiveScraperService';
+import { OtomotoSourceAdapter, SourceRegistry, queryParamPagination } from '../../sources';
+
+// Mock the ServiceRegistry
+jest.mock('@car-finder/services', () => {
+  const actualServices = jest.requireActual('@car-finder/services');
+  return {
+    ...actualServices,
+    ServiceRegistry: {
+      getScraperService: jest.fn(),
+      getParserService: jest.fn(),
+      getVehicleRepository: jest.fn(),
+    },
+  };
+});
+
+const searchConfig = JSON.parse(fs.readFileSync(WorkspaceUtils.resolveConfigFile('search-config.json'), 'utf-8'));
+const searchUrls: string[] = searchConfig.searchUrls.otomoto.map((search: { url: string }) => search.url);
+const olxSearchUrls: string[] = searchConfig.searchUrls.olx.map((search: { url: string }) => search.url);
+
+// Saved OLX pages (parsed with the CSS selectors of parser-schema.json)
+const OLX_FIXTURES = path.join(WorkspaceUtils.resolveProjectFile('parser-samples'), 'olx');
+const OLX_ADVERTS = [
+  { url: 'https://www.olx.pl/d/oferta/renault-trafic-2-0-dci-l2h1-CID5-IDZtr01.html', fixture: 'detail-trafic.html' },
+  { url: 'https://www.olx.pl/d/oferta/opel-vivaro-2-5-cdti-CID5-IDZvv02.html', fixture: 'detail-vivaro.html' },
+];
+
+function olxFixture(name: string): string {
+  return fs.readFileSync(path.join(OLX_FIXTURES, name), 'utf-8');
+}
+
+const ADVERTS = [
+  { id: '6100001', title: 'Renault Trafic 2.0 dCi L2H1', price: 42900, year: '2012', mileage: '231 000 km' },
+  { id: '6100002', title: 'Opel Vivaro 2.5 CDTI', price: 37500, year: '2010', mileage: '265 000 km' },
+].map(advert => ({ ...advert, url: `https://www.otomoto.pl/osobowe/oferta/van-ID${advert.id}.html` }));
+
+function nextDataPage(pageProps: object): string {
+  return `<html><body><script id="__NEXT_DATA__">${JSON.stringify({ props: { pageProps } })}</script></body></html>`;
+}
+
+function searchPage(adverts: typeof ADVERTS): string {
+  const data = {
+    advertSearch: {
+      edges: adverts.map(advert => ({
+        node: { id: advert.id, url: advert.url, title: advert.title, createdAt: '2024-02-20T10:00:00Z' },
+      })),
+    },
+  };
+  return nextDataPage({ urqlState: { 'query-hash': { data: JSON.stringify(data) } } });
+}
+
+function detailPage(advert: (typeof ADVERTS)[number]): string {
+  return nextDataPage({
+    advert: {
+      id: advert.id,
+      title: advert.title,
+      url: advert.url,
+      createdAt: '2024-02-20T10:00:00Z',
+      price: { value: advert.price, currency: 'PLN' },
+      description: '<p>Zadbany bus, serwisowany w ASO.</p>',
+      seller: { name: 'Jan', id: '1915462', type: 'PRIVATE', location: { address: 'Wrocław' }, featuresBadges: [] },
+      details: [
+        { label: 'Marka pojazdu', value: advert.title.split(' ')[0] },
+        { label: 'Rok produkcji', value: advert.year },
+        { label: 'Przebieg', value: advert.mileage },
+      ],
+      equipment: [{ label: 'Komfort i dodatki', values: [{ label: 'Klimatyzacja manualna' }] }],
+      images: { photos: [{ url: `https://example.com/${advert.id}.jpg` }] },
+    },
+  });
+}
+
+/**
+ * Vehicle fields that come from the archived pages (IDs and run timestamps differ between runs)
+ */
+function scrapedFields(vehicle: Vehicle) {
+  const { id, scrapedAt, createdAt, updatedAt, lastSeenAt, ...fields } = vehicle;
+  return fields;
+}
+
+describe('IngestionPipeline archive replay', () => {
+  let archiveDir: string;
+  let repository: MockVehicleRepository;
+
+  beforeAll(() => {
+    archiveDir = fs.mkdtempSync(path.join(os.tmpdir(), 'ingest-archive-'));
+    const archive = new PageArchive(archiveDir);
+    const save = (url: string, html: string) => archive.save(url, { html, finalUrl: url, statusCode: 200 });
+
+    // The first search lists both adverts on page 1 and ends on page 2; the others are empty
+    searchUrls.forEach((url, index) => save(url, searchPage(index === 0 ? ADVERTS : [])));
+    save(`${searchUrls[0]}&page=2`, searchPage([]));
+    ADVERTS.forEach(advert => save(advert.url, detailPage(advert)));
+
+    olxSearchUrls.forEach((url, index) => save(url, olxFixture(index === 0 ? 'search.html' : 'search-empty.html')));
+    save(`${olxSearchUrls[0]}&page=2`, olxFixture('search-empty.html'));
+    OLX_ADVERTS.forEach(advert => save(advert.url, olxFixture(advert.fixture)));
+  });
+
+  afterAll(() => {
+    fs.rmSync(archiveDir, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    repository = new MockVehicleRepository();
+    (ServiceRegistry.getVehicleRepository as jest.Mock).mockResolvedValue(repository);
+    (ServiceRegistry.getParserService as jest.Mock).mockReturnValue(new ParserService());
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+    jest.restoreAllMocks();
+  });
+
+  it('should ingest the archived pages without the live scraper', async () => {
+    const stats = await new IngestionPipeline({ archiveDir }).run();
+
+    expect(stats).toMatchObject({ totalSearchUrls: searchUrls.length, totalVehicleUrls: 2, newVehicles: 2, failedScrapes: 0, errors: [] });
+    expect(ServiceRegistry.getScraperService).not.toHaveBeenCalled();
+
+    const vehicle = await repository.findVehicleByUrl(ADVERTS[0].url);
+    expect(vehicle).toMatchObject({
+      source: 'otomoto',
+      sourceId: '6100001',
+      sourceTitle: 'Renault Trafic 2.0 dCi L2H1',
+      pricePln: 42900,
+      year: 2012,
+      mileage: 231000,
+      status: 'new',
+    });
+    expect((await repository.getLatestVehiclePage(vehicle!.id))!.html).toBe(detailPage(ADVERTS[0]));
+  });
+
+  it('should produce the same vehicles on every replay', async () => {
+    await new IngestionPipeline({ archiveDir }).run();
+    const firstRun = await Promise.all(ADVERTS.map(advert => repository.findVehicleByUrl(advert.url)));
+
+    repository = new MockVehicleRepository();
+    (ServiceRegistry.getVehicleRepository as jest.Mock).mockResolvedValue(repository);
+    await new IngestionPipeline({ archiveDir }).run();
+    const secondRun = await Promise.all(ADVERTS.map(advert => repository.findVehicleByUrl(advert.url)));
+
+    expect(secondRun.map(vehicle => scrapedFields(vehicle!))).toEqual(firstRun.map(vehicle => scrapedFields(vehicle!)));
+  });
+
+  it('should re-scrape known listings on a stopped search and record their price changes', async () => {
+    await new IngestionPipeline({ archiveDir }).run();
+
+    const changedDir = fs.mkdtempSync(path.join(os.tmpdir(), 'ingest-archive-changed-'));
+    try {
+      // Same search results, but the first advert is now cheaper
+      const archive = new PageArchive(changedDir);
+      const save = (url: string, html: string) => archive.save(url, { html, finalUrl: url, statusCode: 200 });
+      searchUrls.forEach((url, index) => save(url, searchPage(index === 0 ? ADVERTS : [])));
+      save(ADVERTS[0].url, detailPage({ ...ADVERTS[0], price: 39900 }));
+      save(ADVERTS[1].url, detailPage(ADVERTS[1]));
+
+      // Every listing on page 1 is known, so smart pagination stops there
+      const stats = await new IngestionPipeline({ archiveDir: changedDir }).run();
+
+      expect(stats).toMatchObject({ totalVehicleUrls: 2, newVehicles: 0, changedVehicles: 1, priceChanges: 1, duplicateVehicles: 1, errors: [] });
+      const vehicle = await repository.findVehicleByUrl(ADVERTS[0].url);
+      expect(vehicle!.pricePln).toBe(39900);
+      expect((await repository.getVehicleSnapshots(vehicle!.id)).map(snapshot => snapshot.pricePln)).toEqual(
+        expect.arrayContaining([42900, 39900])
+      );
+    } finally {
+      fs.rmSync(changedDir, { recursive: true, force: true });
+    }
+  });
+
+  it('should register every source of the registry before storing vehicles', async () => {
+    const sources = new SourceRegistry();
+    sources.register(new OtomotoSourceAdapter());
+    sources.register({
+      key: 'autoscout24',
+      name: 'AutoScout24',
+      parserSchemaKey: 'autoscout24',
+      pagination: queryParamPagination(),
+      buildSearchUrl: criteria => `https://www.autoscout24.pl/lst/${criteria.make}/${criteria.model}`,
+      extractId: () => null,
+    });
+
+    const stats = await new IngestionPipeline({ archiveDir }, sources).run();
+
+    expect(stats).toMatchObject({ newVehicles: 2, errors: [] });
+    expect(await repository.getVehicleSources()).toContainEqual({ key: 'autoscout24', name: 'AutoScout24' });
+  });
+
+  it('should fail the run for enabled sources without an adapter', async () => {
+    const stats = await new IngestionPipeline({ archiveDir, sources: ['mobile-de'] }).run();
+
+    expect(stats.newVehicles).toBe(0);
+    expect(stats.errors).toEqual(["Pipeline failure: Source 'mobile-de' is not registered"]);
+  });
+
+  it('should report pages missing from the archive as failed scrapes', async () => {
+    const partialDir = fs.mkdtempSync(path.join(os.tmpdir(), 'ingest-archive-partial-'));
+    try {
+      const archive = new PageArchive(partialDir);
+      archive.save(searchUrls[0], { html: searchPage(ADVERTS.slice(0, 1)), finalUrl: searchUrls[0], statusCode: 200 });
+
+      const stats = await new IngestionPipeline({ archiveDir: partialDir }).run();
+
+      expect(stats.newVehicles).toBe(0);
+      expect(stats.failedScrapes).toBe(1);
+      expect(stats.errors).toContainEqual(expect.stringContaining(`No archived page for ${ADVERTS[0].url}`));
+    } finally {
+      fs.rmSync(partialDir, { recursive: true, force: true });
+    }
+  });
+
+  it('should abort the run when a site\'s pages stop parsing', async () => {
+    const redesignDir = fs.mkdtempSync(path.join(os.tmpdir(), 'ingest-archive-redesign-'));
+    try {
+      // Search pages still parse, detail pages no longer carry the advert
+      const adverts = Array.from({ length: 8 }, (_, index) => ({
+        ...ADVERTS[0],
+        id: `620000${index}`,
+        url: `https://www.otomoto.pl/osobowe/oferta/van-ID620000${index}.html`,
+      }));
+      const archive = new PageArchive(redesignDir);
+      const save = (url: string, html: string) => archive.save(url, { html, finalUrl: url, statusCode: 200 });
+      searchUrls.forEach((url, index) => save(url, searchPage(index === 0 ? adverts : [])));
+      save(`${searchUrls[0]}&page=2`, searchPage([]));
+      adverts.forEach(advert => save(advert.url, nextDataPage({ ad: { id: advert.id } })));
+
+      const stats = await new IngestionPipeline({ archiveDir: redesignDir }).run();
+
+      // One outcome per page: the search with results, three empty searches and eight adverts
+      // (each advert counts once although it was retried)
+      const abortReason = "Parser failure threshold exceeded for otomoto: 11/12 pages failed to parse (max 50%) - " +
+        "the site's layout may have changed, check parser-schema.json with pnpm parser:test";
+      expect(stats.newVehicles).toBe(0);
+      expect(stats.abortReason).toBe(abortReason);
+      expect(stats.errors).toContainEqual(`Pipeline failure: ${abortReason}`);
+    } finally {
+      fs.rmSync(redesignDir, { recursive: true, force: true });
+    }
+  });
+
+  it('should ingest saved OLX pages through the same search and detail flow', async () => {
+    const scrapeSpy = jest.spyOn(ArchiveScraperService.prototype, 'scrapeUrl');
+
+    const stats = await new IngestionPipeline({ archiveDir, sources: ['olx'] }).run();
+
+    expect(stats).toMatchObject({ totalSearchUrls: olxSearchUrls.length, totalVehicleUrls: 2, newVehicles: 2, failedScrapes: 0, errors: [] });
+    expect(await repository.findVehicleByUrl(ADVERTS[0].url)).toBeNull();
+
+    const vehicle = await repository.findVehicleByUrl(OLX_ADVERTS[0].url);
+    expect(vehicle).toMatchObject({
+      source: 'olx',
+      sourceId: '912345678',
+      sourceTitle: 'Renault Trafic 2.0 dCi L2H1 9 osób',
+      pricePln: 42900,
+      year: 2012,
+      mileage: 231000,
+      sellerInfo: { name: 'Jan', type: 'private', location: 'Wrocław, Krzyki' },
+      status: 'new',
+    });
+    expect((await repository.getLatestVehiclePage(vehicle!.id))!.html).toBe(olxFixture('detail-trafic.html'));
+
+    // Search pages are scrolled until every lazy-loaded listing is rendered, detail pages are not
+    expect(scrapeSpy).toHaveBeenCalledWith(olxSearchUrls[0], { scrollUntilStable: true });
+    expect(scrapeSpy).toHaveBeenCalledWith(OLX_ADVERTS[0].url);
+  });
+});
+
+describe('ingest parseArgs', () => {
+  it('should collect --source flags and reject unknown sources', () => {
+    expect(parseArgs(['--source', 'olx', '--source', 'otomoto'])).toEqual({ sources: ['olx', 'otomoto'] });
+    expect(() => parseArgs(['--source', 'allegro'])).toThrow('Unknown source "allegro" (expected one of otomoto, olx)');
+  });
+});
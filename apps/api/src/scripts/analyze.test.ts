@@ -108,6 +108,7 @@ describe('VehicleAnalyzer', () => {
       findVehiclesWithoutAnalysis: jest.fn().mockResolvedValue([mockVehicle]),
       findVehicleById: jest.fn().mockResolvedValue(mockVehicle),
       updateVehicleAnalysis: jest.fn().mockResolvedValue(undefined),
+      recordVehicleEvent: jest.fn().mockResolvedValue(undefined),
     } as any;
 
     (AIService as jest.MockedClass<typeof AIService>).mockImplementation(() => mockAIService);
@@ -361,6 +362,19 @@ describe('VehicleAnalyzer', () => {
       expect(options.skipMechanicReport).toBe(true);
     });
 
+    it('should parse market model arguments', () => {
+      process.argv = ['node', 'analyze.js', '--market-model', 'regression', '--evaluate-market-model', '--holdout', '0.3'];
+      const options = parseArgs();
+      expect(options.marketModel).toBe('regression');
+      expect(options.evaluateMarketModel).toBe(true);
+      expect(options.holdoutFraction).toBe(0.3);
+    });
+
+    it('should reject an unknown market model', () => {
+      process.argv = ['node', 'analyze.js', '--market-model', 'median'];
+      expect(() => parseArgs()).toThrow('Unknown market model "median"');
+    });
+
     it('should return empty options for no arguments', () => {
       process.argv = ['node', 'analyze.js'];
       const options = parseArgs();
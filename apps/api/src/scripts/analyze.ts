@@ -4,7 +4,7 @@
  * Vehicle Analysis Script
  *
  * Batch processes vehicles to generate AI-powered analysis including:
- * - Personal Fit Score (requires user criteria)
+ * - Personal Fit Score (per criteria profile, see analysisSettings.criteriaProfiles)
  * - AI Priority Rating
  * - Virtual Mechanic's Report
  * - Data Sanity Check
@@ -14,16 +14,29 @@
  *   pnpm --filter @car-finder/scripts analyze --vehicle-id <id>  # Analyze specific vehicle
  * pnpm analyze --vehicle-id c9c93b5f246e8f0ce4e5d937871e5210
  *   pnpm --filter @car-finder/scripts analyze --limit 10         # Analyze only first 10 vehicles
+ *   pnpm --filter @car-finder/scripts analyze --profile family-van  # Score against a named criteria profile
+ *   pnpm --filter @car-finder/scripts analyze --market-model regression  # Price against the regression model
+ *   pnpm --filter @car-finder/scripts analyze --evaluate-market-model    # Compare market value models on held-out listings
  *
  * Environment Variables:
  *   DATABASE_PATH    Optional. Path to database file (default: <root>/data/vehicles.db)
  *   GEMINI_API_KEY   Required. Your Gemini API key for AI analysis
  */
 
-import { AIService, UserCriteria } from '../services/AIService';
+import { AIService } from '../services/AIService';
 import { MarketValueService } from '../services/MarketValueService';
+import { MarketPriceModel } from '../services/MarketPriceModel';
+import { CriteriaProfileService, LEGACY_PROFILE_ID } from '../services/CriteriaProfileService';
 import { DatabaseService, VehicleRepository } from '@car-finder/db';
-import { Vehicle } from '@car-finder/types';
+import {
+  AnalysisRunLog,
+  AnalysisStep,
+  CriteriaProfile,
+  MarketModelEvaluation,
+  MarketValueAnalysis,
+  MarketValueModel,
+  Vehicle,
+} from '@car-finder/types';
 import { AIError, RateLimitError, ValidationError } from '@car-finder/ai';
 import { WorkspaceUtils } from '@car-finder/services';
 import * as fs from 'fs';
@@ -33,9 +46,6 @@ import * as crypto from 'crypto';
 // Load environment variables from the workspace root
 WorkspaceUtils.loadEnvFromRoot();
 
-// Analysis step types (translation removed - now handled by translate.ts)
-type AnalysisStep = 'sanity_check' | 'fit_score' | 'mechanic_report' | 'market_value' | 'priority_rating';
-
 interface AnalysisStats {
   totalVehicles: number;
   analyzed: number;
@@ -56,58 +66,43 @@ interface AnalysisOptions {
   retryFailed?: string;
   showLogs?: boolean;
   force?: boolean;
+  profile?: string; // Criteria profile ID (default: analysisSettings.defaultProfile)
+  marketModel?: MarketValueModel; // Default: weighted
+  evaluateMarketModel?: boolean;
+  holdoutFraction?: number; // Share of listings held out by --evaluate-market-model
 }
 
-interface AnalysisRunLog {
-  runId: string;
-  startTime: Date;
-  endTime?: Date;
-  vehiclesProcessed: number;
-  vehiclesCompleted: number;
-  vehiclesFailed: number;
-  failures: AnalysisFailure[];
-  summary?: {
-    byStep: Record<AnalysisStep, number>;
-    retryableCount: number;
-    permanentFailureCount: number;
-  };
-}
-
-interface AnalysisFailure {
-  vehicleId: string;
-  vehicleTitle: string;
-  vehicleUrl: string;
-  step: AnalysisStep;
-  error: string;
-  errorType: string;
-  timestamp: Date;
-  retryable: boolean;
-}
+const MARKET_MODELS: MarketValueModel[] = ['weighted', 'regression'];
+const DEFAULT_HOLDOUT_FRACTION = 0.2;
 
 /**
- * Load user criteria from search-config.json
+ * Load the criteria profile to score against from search-config.json
+ * Falls back to built-in criteria when the config has none, unless a profile was requested by ID
  */
-function loadUserCriteria(): UserCriteria {
+function loadCriteriaProfile(profileId?: string): { profile: CriteriaProfile; isDefault: boolean } {
   try {
-    const configPath = path.join(WorkspaceUtils.findWorkspaceRoot(), 'search-config.json');
-    const configContent = fs.readFileSync(configPath, 'utf-8');
-    const config = JSON.parse(configContent);
-
-    if (config.analysisSettings?.userCriteria) {
-      return config.analysisSettings.userCriteria;
+    const profiles = new CriteriaProfileService();
+    const profile = profiles.getProfile(profileId);
+    return { profile, isDefault: profile.id === profiles.getDefaultProfileId() };
+  } catch (error) {
+    if (profileId !== undefined) {
+      throw error;
     }
 
-    throw new Error('User criteria not found in search-config.json');
-  } catch (error) {
-    console.error('❌ Failed to load user criteria from config:', error);
+    console.error('❌ Failed to load criteria profiles from config:', error);
     console.error('   Using default criteria as fallback');
 
     // Fallback to default criteria
     return {
-      budgetEur: { min: 5000, max: 20000 },
-      preferredFeatures: ['air_conditioning', 'parking_sensors'],
-      useCase: 'daily commute',
-      priorityFactors: ['fuel_efficiency', 'reliability'],
+      profile: {
+        id: LEGACY_PROFILE_ID,
+        name: 'Default',
+        budgetEur: { min: 5000, max: 20000 },
+        preferredFeatures: ['air_conditioning', 'parking_sensors'],
+        useCase: 'daily commute',
+        priorityFactors: ['fuel_efficiency', 'reliability'],
+      },
+      isDefault: true,
     };
   }
 }
@@ -116,9 +111,10 @@ function loadUserCriteria(): UserCriteria {
  * Determine which analysis steps are required for a vehicle
  * based on which fields are already populated (not null)
  * Note: Translation is now handled separately by translate.ts
+ * @param profileId When given, the fit score is looked up in vehicle.fitScores for this criteria profile
  * @exported for testing
  */
-export function getRequiredAnalysisSteps(vehicle: Vehicle, force: boolean = false): AnalysisStep[] {
+export function getRequiredAnalysisSteps(vehicle: Vehicle, force: boolean = false, profileId?: string): AnalysisStep[] {
   const steps: AnalysisStep[] = [];
 
   // If force flag is set, re-analyze all steps
@@ -131,7 +127,8 @@ export function getRequiredAnalysisSteps(vehicle: Vehicle, force: boolean = fals
     steps.push('sanity_check');
   }
 
-  if (vehicle.personalFitScore === null || vehicle.personalFitScore === undefined) {
+  const fitScore = profileId !== undefined ? vehicle.fitScores?.[profileId] : vehicle.personalFitScore;
+  if (fitScore === null || fitScore === undefined) {
     steps.push('fit_score');
   }
 
@@ -186,8 +183,11 @@ function getErrorType(error: Error): string {
 export class VehicleAnalyzer {
   private aiService: AIService;
   private marketValueService!: MarketValueService;
+  private regressionModel: MarketPriceModel | null = null; // Trained per run with --market-model regression
+  private dbService!: DatabaseService;
   private vehicleRepository!: VehicleRepository;
-  private userCriteria: UserCriteria;
+  private profile!: CriteriaProfile;
+  private isDefaultProfile = true;
   private stats: AnalysisStats;
   private runLog: AnalysisRunLog;
 
@@ -195,9 +195,6 @@ export class VehicleAnalyzer {
     // AIService loads configuration from environment automatically
     this.aiService = new AIService();
 
-    // Load user criteria from config file
-    this.userCriteria = loadUserCriteria();
-
     this.stats = {
       totalVehicles: 0,
       analyzed: 0,
@@ -226,9 +223,9 @@ export class VehicleAnalyzer {
 
     // Initialize database service and repository
     // If no path provided, DatabaseService will use smart defaults (env var or project root)
-    const dbService = new DatabaseService(databasePath);
-    await dbService.initialize();
-    analyzer.vehicleRepository = new VehicleRepository(dbService.getDatabase());
+    analyzer.dbService = new DatabaseService(databasePath);
+    await analyzer.dbService.initialize();
+    analyzer.vehicleRepository = new VehicleRepository(analyzer.dbService.getDatabase());
 
     // Initialize market value service
     analyzer.marketValueService = new MarketValueService(analyzer.vehicleRepository);
@@ -236,24 +233,41 @@ export class VehicleAnalyzer {
     return analyzer;
   }
 
+  /**
+   * Close the database connection opened by create()
+   */
+  async close(): Promise<void> {
+    await this.dbService.close();
+  }
+
   /**
    * Run the analysis pipeline
+   * @returns The run log (also written to data/logs/analysis-runs)
    */
-  async run(options: AnalysisOptions = {}): Promise<void> {
+  async run(options: AnalysisOptions = {}): Promise<AnalysisRunLog> {
     console.log('🚀 Starting Vehicle Analysis Pipeline...\n');
 
+    // Load the criteria profile from config file (an unknown --profile is fatal)
+    ({ profile: this.profile, isDefault: this.isDefaultProfile } = loadCriteriaProfile(options.profile));
+    console.log(`🎯 Criteria profile: ${this.profile.name} (${this.profile.id})\n`);
+
     try {
       // Fetch vehicles to analyze
       const vehicles = await this.fetchVehiclesToAnalyze(options);
 
       if (vehicles.length === 0) {
         console.log('✅ No vehicles need analysis. All done!');
-        return;
+        this.runLog.endTime = new Date();
+        return this.runLog;
       }
 
       this.stats.totalVehicles = vehicles.length;
       console.log(`📊 Found ${vehicles.length} vehicle(s) to analyze\n`);
 
+      if (options.marketModel === 'regression') {
+        await this.trainRegressionModel();
+      }
+
       // Process vehicles with rate limiting (15 RPM = 4 seconds per vehicle)
       for (let i = 0; i < vehicles.length; i++) {
         const vehicle = vehicles[i];
@@ -292,6 +306,8 @@ export class VehicleAnalyzer {
 
       // Print summary
       this.printSummary();
+
+      return this.runLog;
     } catch (error) {
       console.error('❌ Fatal error in analysis pipeline:', error);
 
@@ -304,6 +320,21 @@ export class VehicleAnalyzer {
     }
   }
 
+  /**
+   * Train the regression market model on all listings
+   * Falls back to the weighted average when there are too few listings to train on
+   */
+  private async trainRegressionModel(): Promise<void> {
+    console.log('📈 Training regression market model...');
+    this.regressionModel = this.marketValueService.trainRegressionModel(await this.vehicleRepository.getAllVehicles());
+
+    if (!this.regressionModel) {
+      console.log('⚠️  Falling back to weighted average market values\n');
+      return;
+    }
+    console.log(`   Features: ${this.regressionModel.featureNames.join(', ')}\n`);
+  }
+
   /**
    * Fetch vehicles that need analysis
    */
@@ -324,12 +355,14 @@ export class VehicleAnalyzer {
         throw new Error(`Vehicle with ID ${options.vehicleId} not found in database`);
       }
 
+      await this.attachFitScores([vehicle]);
+
       // Check if this specific vehicle needs analysis (or force re-analysis)
-      const requiredSteps = getRequiredAnalysisSteps(vehicle, options.force);
+      const requiredSteps = getRequiredAnalysisSteps(vehicle, options.force, this.profile.id);
       if (requiredSteps.length === 0 && !options.force) {
         console.log(`\n✅ Vehicle ${options.vehicleId} already has complete AI analysis:`);
         console.log(`   🌐 Translation: ${vehicle.description ? '✓ Present' : '✗ Missing'}`);
-        console.log(`   📊 Personal Fit Score: ${vehicle.personalFitScore ?? 'N/A'}`);
+        console.log(`   📊 Personal Fit Score (${this.profile.name}): ${vehicle.fitScores?.[this.profile.id] ?? 'N/A'}`);
         console.log(`   ⭐ AI Priority Rating: ${vehicle.aiPriorityRating ?? 'N/A'}`);
         console.log(`   🔧 Mechanic Report: ${vehicle.aiMechanicReport ? '✓ Present' : '✗ Missing'}`);
         console.log(`   🔍 Data Sanity Check: ${vehicle.aiDataSanityCheck ? '✓ Present' : '✗ Missing'}`);
@@ -345,7 +378,8 @@ export class VehicleAnalyzer {
     // Use resume-aware query that finds vehicles with ANY missing analysis field
     // Note: Only analyze vehicles that have been translated (description is not null)
     console.log('🔍 Fetching vehicles needing analysis (resume-aware)...');
-    const allVehicles = await this.vehicleRepository.findVehiclesNeedingAnalysis();
+    const allVehicles = await this.vehicleRepository.findVehiclesNeedingAnalysis(this.profile.id);
+    await this.attachFitScores(allVehicles);
 
     // Filter to only include vehicles with description (pre-translated)
     const vehicles = options.force
@@ -364,6 +398,16 @@ export class VehicleAnalyzer {
     return vehicles;
   }
 
+  /**
+   * Attach stored fit scores so resume logic can check the selected profile
+   */
+  private async attachFitScores(vehicles: Vehicle[]): Promise<void> {
+    const fitScores = await this.vehicleRepository.getFitScores(vehicles.map(vehicle => vehicle.id));
+    for (const vehicle of vehicles) {
+      vehicle.fitScores = fitScores.get(vehicle.id) ?? {};
+    }
+  }
+
   /**
    * Analyze a single vehicle
    */
@@ -376,7 +420,7 @@ export class VehicleAnalyzer {
     }
 
     // Get required steps for this vehicle (resume logic or force re-analysis)
-    const requiredSteps = getRequiredAnalysisSteps(vehicle, options.force);
+    const requiredSteps = getRequiredAnalysisSteps(vehicle, options.force, this.profile.id);
 
     if (requiredSteps.length === 0) {
       this.stats.skipped++;
@@ -394,6 +438,10 @@ export class VehicleAnalyzer {
       aiMechanicReport?: string;
       aiDataSanityCheck?: string;
     } = {};
+    // Stored per profile; personalFitScore only mirrors the default profile's score
+    let fitScore: number | undefined;
+    // Comparables breakdown behind marketValueScore, stored in its own table
+    let marketValueAnalysis: MarketValueAnalysis | undefined;
 
     // 1. Generate Data Sanity Check (should be first to detect issues)
     if (requiredSteps.includes('sanity_check') && !options.skipSanityCheck) {
@@ -426,12 +474,12 @@ export class VehicleAnalyzer {
     // 2. Generate Personal Fit Score (if not already present)
     if (requiredSteps.includes('fit_score')) {
       try {
-        console.log('  💯 Generating Personal Fit Score...');
-        analysis.personalFitScore = await this.aiService.generatePersonalFitScore(
-          vehicle,
-          this.userCriteria
-        );
-        console.log(`  ✓ Personal Fit Score: ${analysis.personalFitScore}/10`);
+        console.log(`  💯 Generating Personal Fit Score (${this.profile.name})...`);
+        fitScore = await this.aiService.generatePersonalFitScore(vehicle, this.profile);
+        if (this.isDefaultProfile) {
+          analysis.personalFitScore = fitScore;
+        }
+        console.log(`  ✓ Personal Fit Score: ${fitScore}/10`);
       } catch (error) {
         const err = error as Error;
         console.error('  ❌ Failed to generate fit score:', err.message);
@@ -486,10 +534,17 @@ export class VehicleAnalyzer {
     if (requiredSteps.includes('market_value')) {
       try {
         console.log('  💰 Calculating Market Value Score...');
-        const marketValue = await this.marketValueService.calculateMarketValue(vehicle);
+        const marketValue = this.regressionModel
+          ? this.marketValueService.analyzeMarketValueWithRegression(vehicle, this.regressionModel)
+          : await this.marketValueService.analyzeMarketValue(vehicle);
         if (marketValue !== null) {
-          analysis.marketValueScore = marketValue;
-          console.log(`  ✓ Market Value: ${marketValue}`);
+          marketValueAnalysis = marketValue;
+          analysis.marketValueScore = marketValue.score;
+          if (marketValue.dealScore !== null) {
+            console.log(`  ✓ Market Value: ${marketValue.score} vs €${marketValue.marketPriceEur} predicted (deal score ${marketValue.dealScore.toFixed(2)}, ${marketValue.confidence} confidence)`);
+          } else {
+            console.log(`  ✓ Market Value: ${marketValue.score} (${marketValue.sampleSize} comparables, ${marketValue.confidence} confidence)`);
+          }
         } else {
           console.log('  ⚠️  Market Value: No comparables found (insufficient data)');
         }
@@ -554,9 +609,24 @@ export class VehicleAnalyzer {
     }
 
     // Save analysis to database
-    if (Object.keys(analysis).length > 0) {
+    if (fitScore !== undefined || Object.keys(analysis).length > 0) {
       console.log('  💾 Saving analysis to database...');
-      await this.vehicleRepository.updateVehicleAnalysis(vehicle.id, analysis);
+      if (fitScore !== undefined) {
+        await this.vehicleRepository.saveFitScore(vehicle.id, this.profile.id, fitScore);
+      }
+      if (Object.keys(analysis).length > 0) {
+        await this.vehicleRepository.updateVehicleAnalysis(vehicle.id, analysis);
+      }
+      if (marketValueAnalysis) {
+        await this.vehicleRepository.saveMarketValueAnalysis(marketValueAnalysis);
+      }
+      const fieldsWritten = [...Object.keys(analysis), ...(fitScore !== undefined ? [`fitScores.${this.profile.id}`] : [])];
+      await this.vehicleRepository.recordVehicleEvent({
+        vehicleId: vehicle.id,
+        type: 'analysis',
+        fromValue: null,
+        toValue: fieldsWritten.join(','),
+      });
       console.log('  ✓ Saved successfully');
 
       // Mark vehicle as completed in run log
@@ -700,6 +770,21 @@ function parseArgs(): AnalysisOptions {
     } else if (arg === '--retry-failed' && i + 1 < args.length) {
       options.retryFailed = args[i + 1];
       i++;
+    } else if (arg === '--profile' && i + 1 < args.length) {
+      options.profile = args[i + 1];
+      i++;
+    } else if (arg === '--market-model' && i + 1 < args.length) {
+      const marketModel = args[i + 1] as MarketValueModel;
+      if (!MARKET_MODELS.includes(marketModel)) {
+        throw new Error(`Unknown market model "${args[i + 1]}" (expected ${MARKET_MODELS.join(' or ')})`);
+      }
+      options.marketModel = marketModel;
+      i++;
+    } else if (arg === '--evaluate-market-model') {
+      options.evaluateMarketModel = true;
+    } else if (arg === '--holdout' && i + 1 < args.length) {
+      options.holdoutFraction = parseFloat(args[i + 1]);
+      i++;
     } else if (arg === '--show-logs') {
       options.showLogs = true;
     } else if (arg === '--help' || arg === '-h') {
@@ -729,14 +814,24 @@ Usage:
   pnpm analyze --vehicle-id <id>                                 # Analyze specific vehicle
   pnpm analyze --limit 10                                        # Analyze only first 10 vehicles
   pnpm analyze --force                                           # Force re-analysis of all steps
+  pnpm analyze --profile <id>                                    # Score fit against a named criteria profile
   pnpm analyze --skip-mechanic-report                            # Skip mechanic report generation
   pnpm analyze --skip-sanity-check                               # Skip sanity check generation
   pnpm analyze --skip-priority-rating                            # Skip priority rating generation
+  pnpm analyze --market-model regression                         # Price against the regression model
+  pnpm analyze --evaluate-market-model [--holdout 0.2]           # Compare market value models on held-out listings
   pnpm analyze --show-logs                                       # List available analysis run logs
   pnpm analyze --help                                            # Show this help message
 
 Flags:
   --force       Re-analyze all steps even if already complete
+  --profile     Criteria profile ID from analysisSettings.criteriaProfiles (default: analysisSettings.defaultProfile)
+  --market-model
+                weighted (default): mileage-weighted average of nearby comparable listings
+                regression: robust regression trained on all listings, with a residual-based deal score
+  --evaluate-market-model
+                Hold out a share of listings (--holdout, default 0.2), price them with both models
+                and report the errors (no AI calls, nothing is saved to the vehicles)
 
 Environment Variables:
   GEMINI_API_KEY       Required. Your Gemini API key for AI analysis
@@ -747,6 +842,7 @@ Examples:
   pnpm analyze --limit 5                                         # Analyze first 5 vehicles needing analysis
   pnpm analyze --vehicle-id abc123                               # Analyze specific vehicle
   pnpm analyze --force --vehicle-id abc123                       # Force re-analyze all steps
+  pnpm analyze --profile family-van                              # Add family van fit scores to analyzed vehicles
   pnpm analyze --show-logs                                       # View previous run logs
   `);
 }
@@ -799,6 +895,57 @@ function listAnalysisLogs(): void {
   }
 }
 
+/**
+ * Compare the weighted and regression market value models on held-out listings
+ * @returns The evaluation (also written to data/logs/market-model-evaluations)
+ */
+async function evaluateMarketModels(holdoutFraction: number = DEFAULT_HOLDOUT_FRACTION): Promise<MarketModelEvaluation> {
+  if (!(holdoutFraction > 0 && holdoutFraction < 1)) {
+    throw new Error(`Holdout fraction must be between 0 and 1, got ${holdoutFraction}`);
+  }
+
+  const dbService = new DatabaseService();
+  await dbService.initialize();
+
+  try {
+    const vehicleRepository = new VehicleRepository(dbService.getDatabase());
+    const marketValueService = new MarketValueService(vehicleRepository);
+
+    console.log(`🧪 Evaluating market value models (${Math.round(holdoutFraction * 100)}% holdout)...\n`);
+    const evaluation = await marketValueService.evaluateModels(await vehicleRepository.getAllVehicles(), holdoutFraction);
+
+    const formatMetric = (value: number | null, suffix: string) => (value === null ? 'N/A' : `${value.toFixed(1)}${suffix}`);
+
+    console.log('\n' + '='.repeat(60));
+    console.log('📊 Market Model Evaluation');
+    console.log('='.repeat(60));
+    console.log(`Training listings: ${evaluation.trainingSize}`);
+    console.log(`Holdout listings:  ${evaluation.holdoutSize}`);
+    for (const result of evaluation.results) {
+      console.log(`\n${result.model}:`);
+      console.log(`   Priced:         ${result.priced}/${evaluation.holdoutSize} (${(result.coverage * 100).toFixed(0)}% coverage)`);
+      console.log(`   Mean error:     ${result.meanAbsoluteErrorEur === null ? 'N/A' : `€${Math.round(result.meanAbsoluteErrorEur)}`}`);
+      console.log(`   Mean % error:   ${formatMetric(result.meanAbsolutePercentError, '%')}`);
+      console.log(`   Median % error: ${formatMetric(result.medianAbsolutePercentError, '%')}`);
+    }
+    console.log('='.repeat(60) + '\n');
+
+    try {
+      const logDir = path.join(WorkspaceUtils.findWorkspaceRoot(), 'data/logs/market-model-evaluations');
+      fs.mkdirSync(logDir, { recursive: true });
+      const logFilePath = path.join(logDir, `evaluation-${evaluation.evaluatedAt.toISOString().replace(/[:.]/g, '-')}.json`);
+      fs.writeFileSync(logFilePath, JSON.stringify(evaluation, null, 2), 'utf-8');
+      console.log(`📝 Evaluation report saved: ${logFilePath}`);
+    } catch (error) {
+      console.error('⚠️  Failed to write evaluation report:', error);
+    }
+
+    return evaluation;
+  } finally {
+    await dbService.close();
+  }
+}
+
 /**
  * Main execution
  */
@@ -812,6 +959,12 @@ async function main() {
       process.exit(0);
     }
 
+    // Handle evaluate-market-model option (no AI provider needed)
+    if (options.evaluateMarketModel) {
+      await evaluateMarketModels(options.holdoutFraction);
+      process.exit(0);
+    }
+
     // Handle retry-failed option
     if (options.retryFailed) {
       console.log(`\n⚠️  --retry-failed feature not yet implemented (run ID: ${options.retryFailed})`);
@@ -842,5 +995,6 @@ export {
   parseArgs,
   isRetryableError,
   getErrorType,
-  listAnalysisLogs
+  listAnalysisLogs,
+  evaluateMarketModels
 };
@@ -0,0 +1,112 @@
+#!/usr/bin/env node
+
+/**
+ * Attribute Backfill Script
+ *
+ * Normalizes the structured attributes (make, model, engine, power, fuel, gearbox, body type,
+ * seats, wheelbase, color, VIN) of stored vehicles from their sourceParameters. New listings
+ * are normalized at ingest time; run this once after migration 010 and again whenever the
+ * normalizer learns new parameter formats.
+ *
+ * Usage:
+ *   pnpm backfill-attributes              # Update vehicles whose attributes changed
+ *   pnpm backfill-attributes --dry-run    # Only report what would change
+ *
+ * Environment Variables:
+ *   DATABASE_PATH    Optional. Path to database file (default: <root>/data/vehicles.db)
+ */
+
+import { ServiceRegistry, WorkspaceUtils } from '@car-finder/services';
+import { VehicleAttributeNormalizer } from '../services/VehicleAttributeNormalizer';
+
+// Load environment variables from the workspace root
+WorkspaceUtils.loadEnvFromRoot();
+
+interface BackfillArgs {
+  dryRun: boolean;
+}
+
+/**
+ * Parse command-line arguments
+ */
+function parseArgs(args: string[] = process.argv.slice(2)): BackfillArgs {
+  const options: BackfillArgs = { dryRun: false };
+
+  for (const arg of args) {
+    if (arg === '--dry-run') {
+      options.dryRun = true;
+    } else if (arg === '--help' || arg === '-h') {
+      printHelp();
+      process.exit(0);
+    }
+  }
+
+  return options;
+}
+
+/**
+ * Print help message
+ */
+function printHelp(): void {
+  console.log(`
+Attribute Backfill Script
+
+Usage:
+  pnpm backfill-attributes [options]
+
+Options:
+  --dry-run    Report how many vehicles would change without updating them
+  --help, -h   Show this help message
+`);
+}
+
+/**
+ * Main execution
+ */
+async function main() {
+  try {
+    const args = parseArgs();
+    console.log(`🚀 Starting attribute backfill${args.dryRun ? ' (dry run)' : ''}`);
+
+    const vehicleRepository = await ServiceRegistry.getVehicleRepository();
+    const normalizer = new VehicleAttributeNormalizer();
+    const vehicles = await vehicleRepository.getAllVehicles();
+
+    let updated = 0;
+    let withoutMakeModel = 0;
+    for (const vehicle of vehicles) {
+      const attributes = normalizer.normalize(vehicle);
+      if (!attributes.make || !attributes.model) withoutMakeModel++;
+      if (JSON.stringify(attributes) === JSON.stringify(vehicle.attributes)) continue;
+
+      if (!args.dryRun) {
+        await vehicleRepository.updateVehicle(vehicle.id, { attributes });
+      }
+      updated++;
+    }
+
+    console.log('\n' + '='.repeat(60));
+    console.log('📊 ATTRIBUTE BACKFILL SUMMARY');
+    console.log('='.repeat(60));
+    console.log(`🚐 Vehicles checked: ${vehicles.length}`);
+    console.log(`✏️  Vehicles ${args.dryRun ? 'to update' : 'updated'}: ${updated}`);
+    console.log(`⚠️  Without make/model (excluded from market value): ${withoutMakeModel}`);
+    console.log('='.repeat(60));
+
+    process.exit(0);
+  } catch (error) {
+    console.error('\n❌ Fatal error:', error);
+    process.exit(1);
+  }
+}
+
+// Run if executed directly
+if (require.main === module) {
+  main();
+}
+
+// Export for testing
+export {
+  main,
+  parseArgs,
+};
@@ -0,0 +1,139 @@
+#!/usr/bin/env node
+
+/**
+ * Listing Liveness Check Script
+ *
+ * Re-fetches the detail pages of vehicles that have not appeared in search results
+ * recently and marks listings that were sold or removed from the marketplace.
+ *
+ * Usage:
+ *   pnpm check-liveness                      # Check vehicles not seen for livenessSettings.staleAfterDays
+ *   pnpm check-liveness --days 7             # Check vehicles not seen for 7 days
+ *   pnpm check-liveness --limit 20           # Fetch at most 20 detail pages
+ *
+ * Environment Variables:
+ *   DATABASE_PATH    Optional. Path to database file (default: <root>/data/vehicles.db)
+ */
+
+import * as fs from 'fs';
+import { ServiceRegistry, IScraperService, WorkspaceUtils } from '@car-finder/services';
+import { ListingLivenessService, LivenessCheckOptions } from '../services/ListingLivenessService';
+
+// Load environment variables from the workspace root
+WorkspaceUtils.loadEnvFromRoot();
+
+const DEFAULT_LIVENESS_SETTINGS: LivenessCheckOptions = {
+  staleAfterDays: 3,
+  limit: 50,
+};
+
+/**
+ * Load liveness settings from search-config.json, falling back to defaults
+ */
+function loadLivenessSettings(): LivenessCheckOptions {
+  try {
+    const configPath = WorkspaceUtils.resolveConfigFile('search-config.json');
+    const config = JSON.parse(fs.readFileSync(configPath, 'utf-8'));
+
+    return { ...DEFAULT_LIVENESS_SETTINGS, ...config.livenessSettings };
+  } catch (error) {
+    console.warn(`⚠️  Could not load livenessSettings, using defaults: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    return { ...DEFAULT_LIVENESS_SETTINGS };
+  }
+}
+
+/**
+ * Parse command-line arguments
+ */
+function parseArgs(args: string[] = process.argv.slice(2)): Partial<LivenessCheckOptions> {
+  const options: Partial<LivenessCheckOptions> = {};
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+
+    if (arg === '--days' && i + 1 < args.length) {
+      options.staleAfterDays = parseFloat(args[i + 1]);
+      i++;
+    } else if (arg === '--limit' && i + 1 < args.length) {
+      options.limit = parseInt(args[i + 1], 10);
+      i++;
+    } else if (arg === '--help' || arg === '-h') {
+      printHelp();
+      process.exit(0);
+    }
+  }
+
+  return options;
+}
+
+/**
+ * Print help message
+ */
+function printHelp(): void {
+  console.log(`
+Listing Liveness Check Script
+
+Usage:
+  pnpm check-liveness [options]
+
+Options:
+  --days <n>       Check vehicles not seen in search results for n days (default: 3)
+  --limit <n>      Maximum number of detail pages to fetch (default: 50)
+  --help, -h       Show this help message
+
+Defaults can be changed in search-config.json under livenessSettings.
+`);
+}
+
+/**
+ * Main execution
+ */
+async function main() {
+  let scraperService: IScraperService | undefined;
+
+  try {
+    const options = { ...loadLivenessSettings(), ...parseArgs() };
+    console.log('🚀 Starting listing liveness check');
+
+    scraperService = await ServiceRegistry.getScraperService();
+    const livenessService = new ListingLivenessService(
+      scraperService,
+      ServiceRegistry.getParserService(),
+      await ServiceRegistry.getVehicleRepository()
+    );
+
+    const summary = await livenessService.checkStaleVehicles(options);
+
+    console.log('\n' + '='.repeat(60));
+    console.log('📊 LIVENESS CHECK SUMMARY');
+    console.log('='.repeat(60));
+    console.log(`🔎 Listings checked: ${summary.checked}`);
+    console.log(`✅ Still active: ${summary.active}`);
+    console.log(`💸 Sold: ${summary.sold}`);
+    console.log(`🗑️  Removed: ${summary.removed}`);
+    console.log(`❌ Failed checks: ${summary.failed}`);
+    summary.errors.slice(0, 10).forEach((error, index) => {
+      console.log(`  ${index + 1}. ${error}`);
+    });
+    console.log('='.repeat(60));
+
+    await scraperService.close();
+    process.exit(0);
+  } catch (error) {
+    console.error('\n❌ Fatal error:', error);
+    await scraperService?.close();
+    process.exit(1);
+  }
+}
+
+// Run if executed directly
+if (require.main === module) {
+  main();
+}
+
+// Export for testing
+export {
+  main,
+  parseArgs,
+  loadLivenessSettings,
+};
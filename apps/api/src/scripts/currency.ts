@@ -0,0 +1,192 @@
+#!/usr/bin/env node
+
+/**
+ * Currency Script
+ *
+ * Imports PLN/EUR exchange rates into the exchange_rates table and re-denominates stored
+ * vehicles, whose priceEur is converted at the rate effective on the ad's creation date.
+ * Run --redenominate after importing rates for dates that vehicles were priced at with the
+ * flat fallback rate, or after correcting a rate.
+ *
+ * Usage:
+ *   pnpm currency --import data/rates/archiwum_tab_a_2024.csv   # Import an NBP table file
+ *   pnpm currency --fetch                                        # Fetch NBP rates since the latest stored one
+ *   pnpm currency --fetch --from 2023-01-01 --to 2023-12-31      # Fetch a date range
+ *   pnpm currency --set 2024-03-04=4.25                           # Override the rate for a day
+ *   pnpm currency --redenominate [--dry-run]                      # Recompute priceEur of stored vehicles
+ *
+ * Environment Variables:
+ *   DATABASE_PATH    Optional. Path to database file (default: <root>/data/vehicles.db)
+ */
+
+import * as path from 'path';
+import { ServiceRegistry, WorkspaceUtils } from '@car-finder/services';
+import { CurrencyService } from '../services/CurrencyService';
+import {
+  ExchangeRateSource,
+  ManualRateSource,
+  NbpApiSource,
+  NbpTableFileSource,
+  toDateString,
+} from '../services/ExchangeRateSources';
+
+// Load environment variables from the workspace root
+WorkspaceUtils.loadEnvFromRoot();
+
+// Whole range of a rate file
+const FIRST_DATE = '0000-01-01';
+const LAST_DATE = '9999-12-31';
+
+interface CurrencyArgs {
+  importFile?: string;
+  fetch: boolean;
+  from?: string;
+  to?: string;
+  manualRates: Record<string, number>;
+  redenominate: boolean;
+  dryRun: boolean;
+}
+
+function parseDate(value: string | undefined, flag: string): string {
+  if (!value || !/^\d{4}-\d{2}-\d{2}$/.test(value) || isNaN(new Date(value).getTime())) {
+    throw new Error(`${flag} expects a date as YYYY-MM-DD`);
+  }
+  return value;
+}
+
+/**
+ * Parse command-line arguments
+ */
+function parseArgs(args: string[] = process.argv.slice(2)): CurrencyArgs {
+  const options: CurrencyArgs = { fetch: false, manualRates: {}, redenominate: false, dryRun: false };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+
+    if (arg === '--import') {
+      if (!args[i + 1]) {
+        throw new Error('--import expects a file path');
+      }
+      options.importFile = args[++i];
+    } else if (arg === '--fetch') {
+      options.fetch = true;
+    } else if (arg === '--from') {
+      options.from = parseDate(args[++i], '--from');
+    } else if (arg === '--to') {
+      options.to = parseDate(args[++i], '--to');
+    } else if (arg === '--set') {
+      const [date, rate] = (args[++i] ?? '').split('=');
+      const ratePln = parseFloat(rate);
+      if (!(ratePln > 0)) {
+        throw new Error('--set expects <YYYY-MM-DD>=<PLN per EUR>, e.g. 2024-03-04=4.25');
+      }
+      options.manualRates[parseDate(date, '--set')] = ratePln;
+    } else if (arg === '--redenominate') {
+      options.redenominate = true;
+    } else if (arg === '--dry-run') {
+      options.dryRun = true;
+    } else if (arg === '--help' || arg === '-h') {
+      printHelp();
+      process.exit(0);
+    }
+  }
+
+  return options;
+}
+
+/**
+ * Print help message
+ */
+function printHelp(): void {
+  console.log(`
+Currency Script
+
+Usage:
+  pnpm currency [options]
+
+Options:
+  --import <file>        Import EUR rates from an NBP table file (API JSON or CSV archive)
+  --fetch                Fetch EUR rates from the NBP API (since the latest stored rate by default)
+  --from <YYYY-MM-DD>    First day to import or fetch
+  --to <YYYY-MM-DD>      Last day to import or fetch (default: today when fetching)
+  --set <date>=<rate>    Set the PLN per EUR rate for a day by hand (repeatable)
+  --redenominate         Recompute the EUR price of stored vehicles at the rates of their ad dates
+  --dry-run              With --redenominate, only report how many prices would change
+  --help, -h             Show this help message
+`);
+}
+
+/**
+ * Main execution
+ */
+async function main() {
+  try {
+    const args = parseArgs();
+    const hasManualRates = Object.keys(args.manualRates).length > 0;
+    if (!args.importFile && !args.fetch && !hasManualRates && !args.redenominate) {
+      printHelp();
+      process.exit(1);
+    }
+
+    const vehicleRepository = await ServiceRegistry.getVehicleRepository();
+    const currencyService = new CurrencyService(vehicleRepository);
+    const imports: [ExchangeRateSource, string, string][] = [];
+
+    if (args.importFile) {
+      const filePath = path.resolve(WorkspaceUtils.findWorkspaceRoot(), args.importFile);
+      imports.push([new NbpTableFileSource(filePath), args.from ?? FIRST_DATE, args.to ?? LAST_DATE]);
+    }
+    if (hasManualRates) {
+      imports.push([new ManualRateSource(args.manualRates), FIRST_DATE, LAST_DATE]);
+    }
+
+    for (const [source, from, to] of imports) {
+      await currencyService.importRates(source, from, to);
+    }
+
+    if (args.fetch) {
+      const source = new NbpApiSource(currencyService.getSettings().nbpApiUrl);
+      if (args.from) {
+        await currencyService.importRates(source, args.from, args.to ?? toDateString(new Date()));
+      } else {
+        await currencyService.refreshRates(source);
+      }
+    }
+
+    const currentRate = await currencyService.getRate(new Date());
+    console.log(currentRate !== null
+      ? `💱 Current EUR rate: ${currentRate} PLN`
+      : '⚠️  No EUR rate stored yet - vehicles are priced at the flat fallback rate');
+
+    if (args.redenominate) {
+      console.log(`🚀 Re-denominating vehicles${args.dryRun ? ' (dry run)' : ''}`);
+      const result = await currencyService.redenominateVehicles(args.dryRun);
+
+      console.log('\n' + '='.repeat(60));
+      console.log('📊 REDENOMINATION SUMMARY');
+      console.log('='.repeat(60));
+      console.log(`🚐 Vehicles checked: ${result.checked}`);
+      console.log(`💶 EUR prices ${args.dryRun ? 'to update' : 'updated'}: ${result.updated}`);
+      if (result.updated > 0 && !args.dryRun) {
+        console.log('💡 Run `pnpm analyze --force` to refresh market value scores');
+      }
+      console.log('='.repeat(60));
+    }
+
+    process.exit(0);
+  } catch (error) {
+    console.error('\n❌ Fatal error:', error);
+    process.exit(1);
+  }
+}
+
+// Run if executed directly
+if (require.main === module) {
+  main();
+}
+
+// Export for testing
+export {
+  main,
+  parseArgs,
+};
@@ -0,0 +1,155 @@
+#!/usr/bin/env node
+
+/**
+ * Duplicate Detection Script
+ *
+ * Finds listings of the same vehicle across Otomoto and OLX (or reposted on one site)
+ * and stores them as duplicate clusters, which the dashboard can collapse into one card.
+ *
+ * Usage:
+ *   pnpm detect-duplicates                       # Re-detect clusters from stored data
+ *   pnpm detect-duplicates --hash-photos         # Hash new listings' photos first (opens a browser)
+ *   pnpm detect-duplicates --hash-photos --limit 100
+ *
+ * Environment Variables:
+ *   DATABASE_PATH    Optional. Path to database file (default: <root>/data/vehicles.db)
+ */
+
+import * as fs from 'fs';
+import { ServiceRegistry, IScraperService, WorkspaceUtils } from '@car-finder/services';
+import {
+  DuplicateDetectionService,
+  DuplicateDetectionOptions,
+  DEFAULT_DUPLICATE_OPTIONS,
+} from '../services/DuplicateDetectionService';
+
+// Load environment variables from the workspace root
+WorkspaceUtils.loadEnvFromRoot();
+
+interface DetectDuplicatesArgs {
+  hashPhotos: boolean;
+  limit?: number; // Maximum number of vehicles to hash photos for
+}
+
+/**
+ * Load duplicate detection settings from search-config.json, falling back to defaults
+ */
+function loadDuplicateSettings(): DuplicateDetectionOptions {
+  try {
+    const configPath = WorkspaceUtils.resolveConfigFile('search-config.json');
+    const config = JSON.parse(fs.readFileSync(configPath, 'utf-8'));
+    const settings = config.duplicateSettings ?? {};
+
+    return {
+      ...DEFAULT_DUPLICATE_OPTIONS,
+      ...settings,
+      weights: { ...DEFAULT_DUPLICATE_OPTIONS.weights, ...settings.weights },
+    };
+  } catch (error) {
+    console.warn(`⚠️  Could not load duplicateSettings, using defaults: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    return { ...DEFAULT_DUPLICATE_OPTIONS };
+  }
+}
+
+/**
+ * Parse command-line arguments
+ */
+function parseArgs(args: string[] = process.argv.slice(2)): DetectDuplicatesArgs {
+  const options: DetectDuplicatesArgs = { hashPhotos: false };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+
+    if (arg === '--hash-photos') {
+      options.hashPhotos = true;
+    } else if (arg === '--limit' && i + 1 < args.length) {
+      options.limit = parseInt(args[i + 1], 10);
+      i++;
+    } else if (arg === '--help' || arg === '-h') {
+      printHelp();
+      process.exit(0);
+    }
+  }
+
+  return options;
+}
+
+/**
+ * Print help message
+ */
+function printHelp(): void {
+  console.log(`
+Duplicate Detection Script
+
+Usage:
+  pnpm detect-duplicates [options]
+
+Options:
+  --hash-photos    Hash photos of listings not hashed yet before detecting (opens a browser)
+  --limit <n>      Maximum number of vehicles to hash photos for
+  --help, -h       Show this help message
+
+Scoring weights and the match threshold can be changed in search-config.json under duplicateSettings.
+`);
+}
+
+/**
+ * Main execution
+ */
+async function main() {
+  let scraperService: IScraperService | undefined;
+
+  try {
+    const args = parseArgs();
+    const settings = loadDuplicateSettings();
+    console.log('🚀 Starting duplicate detection');
+
+    if (args.hashPhotos) {
+      scraperService = await ServiceRegistry.getScraperService();
+    }
+
+    const duplicateService = new DuplicateDetectionService(
+      await ServiceRegistry.getVehicleRepository(),
+      settings,
+      scraperService
+    );
+
+    if (args.hashPhotos) {
+      const photoSummary = await duplicateService.hashVehiclePhotos(args.limit);
+      console.log(`🖼️  Hashed photos of ${photoSummary.hashed} vehicle(s), ${photoSummary.failed} failed`);
+      photoSummary.errors.slice(0, 10).forEach((error, index) => {
+        console.log(`  ${index + 1}. ${error}`);
+      });
+    }
+
+    const summary = await duplicateService.detectDuplicates();
+
+    console.log('\n' + '='.repeat(60));
+    console.log('📊 DUPLICATE DETECTION SUMMARY');
+    console.log('='.repeat(60));
+    console.log(`🚐 Listings compared: ${summary.vehicles}`);
+    console.log(`🔗 Candidate pairs scored: ${summary.pairsCompared}`);
+    console.log(`🧩 Duplicate clusters: ${summary.clusters}`);
+    console.log(`🙈 Listings hidden when collapsed: ${summary.duplicates}`);
+    console.log('='.repeat(60));
+
+    await scraperService?.close();
+    process.exit(0);
+  } catch (error) {
+    console.error('\n❌ Fatal error:', error);
+    await scraperService?.close();
+    process.exit(1);
+  }
+}
+
+// Run if executed directly
+if (require.main === module) {
+  main();
+}
+
+// Export for testing
+export {
+  main,
+  parseArgs,
+  loadDuplicateSettings,
+};
@@ -4,21 +4,18 @@ import * as fs from 'fs';
 import * as path from 'path';
 import { ServiceRegistry, IScraperService, IParserService, IVehicleRepository, WorkspaceUtils } from '@car-finder/services';
 import { SearchResult, ParseResult } from '../services/ParserService';
-import { Vehicle, VehicleSource, SellerType } from '@car-finder/types';
+import { ListingHistoryService } from '../services/ListingHistoryService';
+import { VehicleAttributeNormalizer } from '../services/VehicleAttributeNormalizer';
+import { CurrencyService, CurrencySettings } from '../services/CurrencyService';
+import { NbpApiSource } from '../services/ExchangeRateSources';
+import { ArchiveScraperService } from '../services/ArchiveScraperService';
+import { ParserFailureMonitor, ParserFailureThresholdError, ParserFailureThreshold, DEFAULT_PARSER_FAILURE_THRESHOLD, missingRequiredFields } from '../services/ParserFailureMonitor';
+import { SearchCriteria, SourceAdapter, SourceRegistry, sourceRegistry } from '../sources';
+import { Vehicle, VehicleSource, IngestionStats } from '@car-finder/types';
 
 // Load environment variables from the workspace root
 WorkspaceUtils.loadEnvFromRoot();
 
-// Extended vehicle interface for ingestion (temporary fields during parsing)
-interface ExtendedVehicleData extends Partial<Vehicle> {
-  sellerName?: string;
-  sellerId?: string;
-  sellerType?: SellerType;
-  sellerLocation?: string;
-  memberSince?: string;
-  fuelType?: string;
-  transmission?: string;
-}
 import { v4 as uuidv4 } from 'uuid';
 
 // Configuration interfaces
@@ -28,51 +25,64 @@ interface SearchConfig {
   description: string;
 }
 
+// Marketplace-independent search, turned into a URL by each enabled source adapter
+interface SearchDefinition {
+  name: string;
+  description?: string;
+  criteria: SearchCriteria;
+}
+
 interface IngestionConfig {
-  searchUrls: {
-    otomoto: SearchConfig[];
-    olx: SearchConfig[];
-  };
+  searchUrls: Record<VehicleSource, SearchConfig[]>; // Per source key
+  searches?: SearchDefinition[];
   ingestionSettings: {
     maxPagesPerSearch: number;
     delayBetweenRequests: { min: number; max: number };
     retryAttempts: number;
     batchSize: number;
     enableDeduplication: boolean;
-    enabledSources: ('otomoto' | 'olx')[];
-  };
-  currencyConversion: {
-    plnToEurRate: number;
-    lastUpdated: string;
+    enabledSources: VehicleSource[];
+    parserFailureThreshold?: Partial<ParserFailureThreshold>; // Aborts the run when a site's pages stop parsing
   };
+  currencyConversion: CurrencySettings;
 }
 
-interface IngestionStats {
-  totalSearchUrls: number;
-  totalVehicleUrls: number;
-  newVehicles: number;
-  duplicateVehicles: number;
-  failedScrapes: number;
-  errors: string[];
-  startTime: Date;
-  endTime?: Date;
+export interface IngestionOptions {
+  archiveDir?: string; // Replay from pages captured earlier instead of scraping the marketplaces
+  captureDir?: string; // Archive every scraped page here so the run can be replayed
+  sources?: VehicleSource[]; // Only ingest these sources (default: enabledSources from search-config.json)
 }
 
 export class IngestionPipeline {
   private scraperService!: IScraperService;
   private parserService!: IParserService;
   private vehicleRepository!: IVehicleRepository;
+  private listingHistory!: ListingHistoryService;
+  private currencyService!: CurrencyService;
+  private attributeNormalizer = new VehicleAttributeNormalizer();
   private config: IngestionConfig;
   private stats: IngestionStats;
   private processedUrls: Set<string> = new Set();
+  private options: IngestionOptions;
+  private sources: SourceRegistry;
+  private parserFailures: ParserFailureMonitor;
 
-  constructor() {
+  constructor(options: IngestionOptions = {}, sources: SourceRegistry = sourceRegistry) {
     // Services will be initialized in run() method using ServiceRegistry
+    this.options = options;
+    this.sources = sources;
     this.config = this.loadConfiguration();
+    this.parserFailures = new ParserFailureMonitor({
+      ...DEFAULT_PARSER_FAILURE_THRESHOLD,
+      ...this.config.ingestionSettings.parserFailureThreshold,
+    });
     this.stats = {
       totalSearchUrls: 0,
       totalVehicleUrls: 0,
       newVehicles: 0,
+      changedVehicles: 0,
+      priceChanges: 0,
+      seenListings: 0,
       duplicateVehicles: 0,
       failedScrapes: 0,
       errors: [],
@@ -99,7 +109,8 @@ export class IngestionPipeline {
         throw new Error('Invalid configuration: missing required sections');
       }
 
-      console.log(`✅ Configuration loaded: ${config.searchUrls.otomoto.length + config.searchUrls.olx.length} search URLs`);
+      const searchUrlCount = Object.values(config.searchUrls).reduce((count, searches) => count + searches.length, 0);
+      console.log(`✅ Configuration loaded: ${searchUrlCount} search URLs, ${config.searches?.length ?? 0} shared searches`);
       return config;
     } catch (error) {
       throw new Error(`Failed to load configuration: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -109,20 +120,28 @@ export class IngestionPipeline {
   /**
    * Extract individual vehicle URLs from search results
    */
-  private async scrapeSearchResults(searchUrl: string, source: VehicleSource): Promise<string[]> {
+  private async scrapeSearchResults(searchUrl: string, adapter: SourceAdapter): Promise<string[]> {
     const vehicleUrls: string[] = [];
     let currentPage = 1;
     const maxPages = this.config.ingestionSettings.maxPagesPerSearch;
+    // Lazy-loaded result lists only render every listing once scrolled to the end
+    const { scrollUntilStable } = adapter.pagination;
 
-    console.log(`🔍 Scraping search results from ${source}: ${searchUrl}`);
+    console.log(`🔍 Scraping search results from ${adapter.key}: ${searchUrl}`);
 
     while (currentPage <= maxPages) {
       try {
-        const pageUrl = currentPage === 1 ? searchUrl : `${searchUrl}&page=${currentPage}`;
+        const pageUrl = currentPage === 1 ? searchUrl : adapter.pagination.pageUrl(searchUrl, currentPage);
         console.log(`  📄 Processing page ${currentPage}/${maxPages}`);
 
-        const scrapeResult = await this.scraperService.scrapeUrl(pageUrl);
-        const parseResult = await this.parserService.parseHtml(scrapeResult.html, source, 'search');
+        const scrapeResult = await this.scraperService.scrapeUrl(pageUrl, { scrollUntilStable });
+        let parseResult: ParseResult;
+        try {
+          parseResult = this.parserService.parseHtml(scrapeResult.html, adapter.parserSchemaKey, 'search');
+        } catch (error) {
+          this.parserFailures.record(adapter.key, true);
+          throw error;
+        }
 
         if (parseResult.pageType !== 'search') {
           console.log(`  ⚠️  Expected search page but got ${parseResult.pageType}, stopping pagination`);
@@ -131,12 +150,21 @@ export class IngestionPipeline {
 
         const searchResults = parseResult.data as SearchResult[];
         if (searchResults.length === 0) {
+          // Search selectors that no longer match show up as an empty first page
+          if (currentPage === 1) {
+            this.parserFailures.record(adapter.key, true);
+          }
           console.log(`  ℹ️  No more results found on page ${currentPage}, stopping pagination`);
           break;
         }
+        this.parserFailures.record(adapter.key, false);
 
         // Extract URLs and add to collection
+        // Known listings are queued too, so their re-scrape can track price and listing changes
         const pageUrls = searchResults.map(result => result.sourceUrl);
+        await this.markListingsSeen(pageUrls);
+        vehicleUrls.push(...pageUrls);
+        console.log(`  ✅ Found ${pageUrls.length} vehicle URLs on page ${currentPage}`);
         
         // Smart pagination: Check if we've hit mostly existing vehicles
         if (this.config.ingestionSettings.enableDeduplication && pageUrls.length > 0) {
@@ -159,13 +187,9 @@ export class IngestionPipeline {
           const existingRatio = existingCount / sampleSize;
           if (existingRatio >= 0.8) { // 80% or more already exist
             console.log(`  🛑 Smart pagination: ${existingCount}/${sampleSize} vehicles already exist, stopping pagination`);
-            console.log(`  📊 Found ${vehicleUrls.length} new vehicle URLs before hitting existing content`);
             break;
           }
         }
-        
-        vehicleUrls.push(...pageUrls);
-        console.log(`  ✅ Found ${pageUrls.length} vehicle URLs on page ${currentPage}`);
 
         // Respectful delay between pages
         await this.delay(
@@ -186,198 +210,23 @@ export class IngestionPipeline {
   }
 
   /**
-   * Scrape complete vehicle data from OLX search pages (search-only approach)
-   */
-  private async scrapeOlxSearchVehicles(searchUrl: string): Promise<ExtendedVehicleData[]> {
-    const allVehicles: ExtendedVehicleData[] = [];
-    let currentPage = 1;
-    const maxPages = this.config.ingestionSettings.maxPagesPerSearch;
-
-    console.log(`🔍 Scraping OLX vehicles from search pages: ${searchUrl}`);
-
-    while (currentPage <= maxPages) {
-      try {
-        const pageUrl = currentPage === 1 ? searchUrl : `${searchUrl}&page=${currentPage}`;
-        console.log(`  📄 Processing page ${currentPage}/${maxPages}`);
-
-        const scrapeResult = await this.scraperService.scrapeUrl(pageUrl);
-        
-        // Debug: Save the scraped HTML for manual inspection
-        try {
-          const fs = require('fs');
-          const path = require('path');
-          const workspaceRoot = WorkspaceUtils.findWorkspaceRoot();
-          const debugDir = path.join(workspaceRoot, 'docs', 'example-files');
-          const debugHtmlPath = path.join(debugDir, 'olx-search-page-scraped.html');
-          
-          // Ensure directory exists
-          if (!fs.existsSync(debugDir)) {
-            fs.mkdirSync(debugDir, { recursive: true });
-          }
-          
-          fs.writeFileSync(debugHtmlPath, scrapeResult.html, 'utf8');
-          console.log(`  🐛 Debug: Saved scraped HTML to docs/example-files/olx-search-page-scraped.html`);
-        } catch (error) {
-          console.warn(`  ⚠️  Could not save debug HTML: ${error instanceof Error ? error.message : 'Unknown error'}`);
-        }
-        
-        const parseResult = await this.parserService.parseHtml(scrapeResult.html, 'olx', 'search');
-
-        if (parseResult.pageType !== 'search') {
-          console.log(`  ⚠️  Expected search page but got ${parseResult.pageType}, stopping pagination`);
-          break;
-        }
-
-        const vehicles = parseResult.data as ExtendedVehicleData[];
-        console.log(`  ✅ Found ${vehicles.length} vehicles on page ${currentPage}`);
-
-        if (vehicles.length === 0) {
-          console.log(`  🛑 No vehicles found on page ${currentPage}, stopping pagination`);
-          break;
-        }
-
-        // Smart pagination: check if we've seen these vehicles before
-        if (this.config.ingestionSettings.enableDeduplication && vehicles.length > 0) {
-          let existingCount = 0;
-          const sampleSize = Math.min(5, vehicles.length);
-          
-          for (let i = 0; i < sampleSize; i++) {
-            const vehicle = vehicles[i];
-            if (vehicle.sourceUrl) {
-              try {
-                const existingVehicle = await this.vehicleRepository.findVehicleByUrl(vehicle.sourceUrl);
-                if (existingVehicle) {
-                  existingCount++;
-                }
-              } catch (error) {
-                // Continue on error - don't let DB issues stop pagination
-              }
-            }
-          }
-          
-          const existingRatio = existingCount / sampleSize;
-          if (existingRatio >= 0.8) {
-            console.log(`  🛑 Smart pagination: ${existingCount}/${sampleSize} vehicles already exist, stopping pagination`);
-            console.log(`  📊 Found ${allVehicles.length} new vehicles before hitting existing content`);
-            break;
-          }
-        }
-
-        allVehicles.push(...vehicles);
-        currentPage++;
-
-        // Add delay between requests
-        if (currentPage <= maxPages) {
-          const delay = Math.random() * (this.config.ingestionSettings.delayBetweenRequests.max - this.config.ingestionSettings.delayBetweenRequests.min) + this.config.ingestionSettings.delayBetweenRequests.min;
-          await new Promise(resolve => setTimeout(resolve, delay));
-        }
-
-      } catch (error) {
-        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-        console.error(`  ❌ Error scraping page ${currentPage}: ${errorMessage}`);
-        this.stats.errors.push(`OLX search page ${currentPage}: ${errorMessage}`);
-        break;
-      }
-    }
-
-    console.log(`✅ OLX search completed: ${allVehicles.length} vehicles found`);
-    return allVehicles;
-  }
-
-  /**
-   * Process and save a single vehicle
+   * Record that known listings are still present in search results
+   * Listings that stop appearing are picked up by the liveness checker
    */
-  private async processAndSaveVehicle(vehicleData: ExtendedVehicleData, source: VehicleSource): Promise<void> {
+  private async markListingsSeen(urls: string[]): Promise<void> {
     try {
-      // Check if vehicle already exists
-      if (vehicleData.sourceUrl) {
-        const existingVehicle = await this.vehicleRepository.findVehicleByUrl(vehicleData.sourceUrl);
-        if (existingVehicle) {
-          console.log(`  ⏭️  Vehicle already exists: ${vehicleData.sourceTitle || 'Unknown'}`);
-          this.stats.duplicateVehicles++;
-          return;
-        }
-      }
-
-      // Create complete vehicle object following the Vehicle interface
-      const now = new Date();
-      const sourceCreatedAt = vehicleData.sourceCreatedAt ? 
-        (typeof vehicleData.sourceCreatedAt === 'string' ? new Date(vehicleData.sourceCreatedAt) : vehicleData.sourceCreatedAt) : 
-        now;
-
-      // Build sourceParameters including additional fields like fuelType and transmission
-      const sourceParameters: Record<string, string> = {
-        ...(vehicleData.sourceParameters || {}),
-        ...(vehicleData.fuelType && { fuelType: vehicleData.fuelType }),
-        ...(vehicleData.transmission && { transmission: vehicleData.transmission })
-      };
-
-      const vehicle: Vehicle = {
-        id: uuidv4(),
-        source,
-        sourceId: vehicleData.sourceId || '',
-        sourceUrl: vehicleData.sourceUrl || '',
-        sourceCreatedAt,
-        
-        // Raw scraped data
-        sourceTitle: vehicleData.sourceTitle || 'Unknown Vehicle',
-        sourceDescriptionHtml: vehicleData.sourceDescriptionHtml || '',
-        sourceParameters,
-        sourceEquipment: vehicleData.sourceEquipment || {},
-        sourcePhotos: vehicleData.sourcePhotos || [],
-        
-        // Processed & normalized data
-        title: vehicleData.sourceTitle || 'Unknown Vehicle', // Use sourceTitle as initial title
-        description: '', // Leave empty - will be translated by analyze script
-        features: [], // Initially empty, to be translated by analyze script
-        pricePln: vehicleData.pricePln || 0,
-        priceEur: vehicleData.priceEur || 0,
-        year: vehicleData.year || 0,
-        mileage: vehicleData.mileage || 0,
-        sellerInfo: {
-          name: vehicleData.sellerName || null,
-          id: vehicleData.sellerId || null,
-          type: vehicleData.sellerType || null,
-          location: vehicleData.sellerLocation || null,
-          memberSince: vehicleData.memberSince || null
-        },
-        photos: vehicleData.sourcePhotos || [], // Use sourcePhotos as initial photos
-        
-        // AI generated data (initially null)
-        personalFitScore: null,
-        marketValueScore: null,
-        aiPriorityRating: null,
-        aiPrioritySummary: null,
-        aiMechanicReport: null,
-        aiDataSanityCheck: null,
-        
-        // User workflow data
-        status: 'new',
-        personalNotes: null,
-        
-        // Timestamps
-        scrapedAt: now,
-        createdAt: now,
-        updatedAt: now
-      };
-
-      await this.vehicleRepository.insertVehicle(vehicle);
-      console.log(`  ✅ Saved vehicle: ${vehicle.sourceTitle} (${vehicle.pricePln} PLN)`);
-      this.stats.newVehicles++;
-
+      this.stats.seenListings += await this.vehicleRepository.markVehiclesSeen(urls);
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-      console.error(`  ❌ Error saving vehicle: ${errorMessage}`);
-      this.stats.failedScrapes++;
-      this.stats.errors.push(`Save vehicle: ${errorMessage}`);
+      // Continue on error - a missed lastSeenAt update only causes an extra liveness check
+      console.warn(`  ⚠️  Could not record last-seen listings: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
   /**
    * Process individual vehicle URLs and save to database
    */
-  private async processVehicleUrls(vehicleUrls: string[], source: VehicleSource): Promise<void> {
-    console.log(`🚗 Processing ${vehicleUrls.length} vehicle URLs from ${source}`);
+  private async processVehicleUrls(vehicleUrls: string[], adapter: SourceAdapter): Promise<void> {
+    console.log(`🚗 Processing ${vehicleUrls.length} vehicle URLs from ${adapter.key}`);
     
     const batchSize = this.config.ingestionSettings.batchSize;
     
@@ -385,7 +234,8 @@ export class IngestionPipeline {
       const batch = vehicleUrls.slice(i, i + batchSize);
       console.log(`  📦 Processing batch ${Math.floor(i / batchSize) + 1}/${Math.ceil(vehicleUrls.length / batchSize)} (${batch.length} URLs)`);
 
-      await Promise.all(batch.map(url => this.processVehicleUrl(url, source)));
+      await Promise.all(batch.map(url => this.processVehicleUrl(url, adapter)));
+      this.parserFailures.assertHealthy(adapter.key);
 
       // Delay between batches
       if (i + batchSize < vehicleUrls.length) {
@@ -400,53 +250,52 @@ export class IngestionPipeline {
   /**
    * Process a single vehicle URL
    */
-  private async processVehicleUrl(url: string, source: VehicleSource): Promise<void> {
-    // Check for duplicates if deduplication is enabled
-    if (this.config.ingestionSettings.enableDeduplication) {
-      if (this.processedUrls.has(url)) {
-        this.stats.duplicateVehicles++;
-        return;
-      }
-
-      // Check if vehicle already exists in database
-      try {
-        const existingVehicle = await this.vehicleRepository.findVehicleByUrl(url);
-        if (existingVehicle) {
-          console.log(`  ⏭️  Vehicle already exists: ${url}`);
-          this.stats.duplicateVehicles++;
-          this.processedUrls.add(url);
-          return;
-        }
-      } catch (error) {
-        console.error(`  ⚠️  Error checking for existing vehicle: ${error instanceof Error ? error.message : 'Unknown error'}`);
-      }
+  private async processVehicleUrl(url: string, adapter: SourceAdapter): Promise<void> {
+    // Skip URLs already processed in this run if deduplication is enabled
+    // Vehicles already in the database are still re-scraped to track listing changes
+    if (this.config.ingestionSettings.enableDeduplication && this.processedUrls.has(url)) {
+      this.stats.duplicateVehicles++;
+      return;
     }
 
     let retryCount = 0;
     const maxRetries = this.config.ingestionSettings.retryAttempts;
+    // Whether the latest attempt failed to parse, null when it never got to parsing
+    // Recorded once per URL, so retries do not count the same page several times
+    let parseFailed: boolean | null = null;
 
     while (retryCount <= maxRetries) {
       try {
         console.log(`  🔍 Scraping vehicle: ${url} (attempt ${retryCount + 1})`);
+        parseFailed = null;
 
         // Scrape vehicle detail page
         const scrapeResult = await this.scraperService.scrapeUrl(url);
-        const parseResult = await this.parserService.parseHtml(scrapeResult.html, source, 'detail');
+        parseFailed = true;
+        const parseResult = this.parserService.parseHtml(scrapeResult.html, adapter.parserSchemaKey, 'detail');
 
         if (parseResult.pageType !== 'detail') {
           throw new Error(`Expected detail page but got ${parseResult.pageType}`);
         }
 
-        // Transform parsed data to Vehicle interface
+        // A changed layout often still parses but yields empty fields
         const vehicleData = parseResult.data as Partial<Vehicle>;
-        const vehicle = this.transformToVehicle(vehicleData, url, source);
+        const missingFields = missingRequiredFields(vehicleData);
+        if (missingFields.length > 0) {
+          console.warn(`  ⚠️  Parsed detail page is missing ${missingFields.join(', ')}`);
+        }
+        parseFailed = missingFields.length > 0;
 
-        // Save to database
-        await this.vehicleRepository.insertVehicle(vehicle);
+        // Transform parsed data to Vehicle interface
+        const vehicle = this.transformToVehicle(vehicleData, url, adapter);
 
-        console.log(`  ✅ Vehicle saved: ${vehicle.title} (${vehicle.year}, ${vehicle.pricePln} PLN)`);
-        this.stats.newVehicles++;
+        // Save new vehicles, record changes for known ones
+        const vehicleId = await this.saveOrTrackVehicle(vehicle);
+        if (vehicleId) {
+          await this.storeDetailPage(vehicleId, scrapeResult.html);
+        }
         this.processedUrls.add(url);
+        this.parserFailures.record(adapter.key, parseFailed);
         return;
 
       } catch (error) {
@@ -457,6 +306,10 @@ export class IngestionPipeline {
           console.error(`  ❌ Failed to process vehicle after ${maxRetries} retries: ${url} - ${errorMessage}`);
           this.stats.failedScrapes++;
           this.stats.errors.push(`Vehicle processing failed: ${url} - ${errorMessage}`);
+          // Scrape failures say nothing about the parser
+          if (parseFailed !== null) {
+            this.parserFailures.record(adapter.key, parseFailed);
+          }
           return;
         } else {
           console.log(`  ⚠️  Retry ${retryCount}/${maxRetries} for ${url}: ${errorMessage}`);
@@ -466,21 +319,73 @@ export class IngestionPipeline {
     }
   }
 
+  /**
+   * Keep the raw detail page so fields can be re-extracted later (`pnpm reparse`)
+   * A failure only loses the page, so it does not fail the vehicle
+   */
+  private async storeDetailPage(vehicleId: string, html: string): Promise<void> {
+    try {
+      await this.vehicleRepository.saveVehiclePage({ vehicleId, html, scrapedAt: new Date() });
+    } catch (error) {
+      console.warn(`  ⚠️  Could not store detail page: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Insert a newly found vehicle, or compare a known one against its listing history
+   * @returns ID of the stored vehicle, or null when the new vehicle could not be reloaded
+   */
+  private async saveOrTrackVehicle(scraped: Vehicle): Promise<string | null> {
+    // Price in EUR at the rate of the day the ad was created
+    const vehicle = await this.currencyService.denominate(scraped);
+    const existingVehicle = await this.vehicleRepository.findVehicleByUrl(vehicle.sourceUrl);
+
+    if (existingVehicle) {
+      const changedFields = await this.listingHistory.trackRescrape(existingVehicle, vehicle);
+
+      if (changedFields.length === 0) {
+        console.log(`  ⏭️  Vehicle unchanged: ${existingVehicle.sourceTitle}`);
+        this.stats.duplicateVehicles++;
+        return existingVehicle.id;
+      }
+
+      console.log(`  🔄 Listing changed (${changedFields.join(', ')}): ${existingVehicle.sourceTitle}`);
+      if (changedFields.includes('price')) {
+        console.log(`  💰 Price changed: ${existingVehicle.pricePln} → ${vehicle.pricePln} PLN`);
+        this.stats.priceChanges++;
+      }
+      this.stats.changedVehicles++;
+      return existingVehicle.id;
+    }
+
+    await this.vehicleRepository.insertVehicle(vehicle);
+
+    // The database assigns the ID, so reload before recording the first snapshot
+    const savedVehicle = await this.vehicleRepository.findVehicleByUrl(vehicle.sourceUrl);
+    if (savedVehicle) {
+      await this.listingHistory.recordInitialSnapshot(savedVehicle);
+    }
+
+    console.log(`  ✅ Vehicle saved: ${vehicle.title} (${vehicle.year}, ${vehicle.pricePln} PLN)`);
+    this.stats.newVehicles++;
+    return savedVehicle ? savedVehicle.id : null;
+  }
+
   /**
    * Transform parsed vehicle data to complete Vehicle interface
    */
-  private transformToVehicle(vehicleData: Partial<Vehicle>, url: string, source: VehicleSource): Vehicle {
+  private transformToVehicle(vehicleData: Partial<Vehicle>, url: string, adapter: SourceAdapter): Vehicle {
     const now = new Date();
     
-    // Convert PLN to EUR using configured rate
+    // Provisional EUR price at the flat rate - saveOrTrackVehicle reprices at the ad's date
     const pricePln = vehicleData.pricePln || 0;
     const priceEur = Math.round(pricePln * this.config.currencyConversion.plnToEurRate);
 
     return {
       // Generate unique ID
       id: uuidv4(),
-      source,
-      sourceId: vehicleData.sourceId || this.extractIdFromUrl(url, source),
+      source: adapter.key,
+      sourceId: vehicleData.sourceId || adapter.extractId(url) || url.split('/').pop() || url,
       sourceUrl: url,
       sourceCreatedAt: vehicleData.sourceCreatedAt || now,
 
@@ -507,6 +412,10 @@ export class IngestionPipeline {
         memberSince: null
       },
       photos: vehicleData.photos || [],
+      attributes: this.attributeNormalizer.normalize({
+        sourceParameters: vehicleData.sourceParameters || {},
+        sourceDescriptionHtml: vehicleData.sourceDescriptionHtml || '',
+      }),
 
       // AI generated data (initially null)
       personalFitScore: null,
@@ -523,37 +432,39 @@ export class IngestionPipeline {
       // Timestamps
       scrapedAt: now,
       createdAt: now,
-      updatedAt: now
+      updatedAt: now,
+
+      // Marketplace lifecycle
+      lastSeenAt: now,
+      listingState: 'active',
+      delistedAt: null
     };
   }
 
   /**
-   * Extract vehicle ID from URL for different sources
+   * Random delay between min and max milliseconds
    */
-  private extractIdFromUrl(url: string, source: VehicleSource): string {
-    try {
-      if (source === 'otomoto') {
-        // Otomoto URLs typically end with ID like: /ID12345678.html
-        const match = url.match(/ID(\d+)\.html/);
-        return match ? match[1] : url.split('/').pop() || url;
-      } else if (source === 'olx') {
-        // OLX URLs typically have ID in path like: /oferta/some-title-ID123456789
-        const match = url.match(/ID(\d+)/);
-        return match ? match[1] : url.split('/').pop() || url;
-      }
-    } catch (error) {
-      console.warn(`Could not extract ID from URL: ${url}`);
+  private async delay(min: number, max: number): Promise<void> {
+    // Replays never reach the marketplaces, so there is nobody to be respectful to
+    if (this.options.archiveDir) {
+      return;
     }
-    
-    return url.split('/').pop() || url;
+
+    const delayMs = Math.floor(Math.random() * (max - min + 1)) + min;
+    return new Promise(resolve => setTimeout(resolve, delayMs));
   }
 
   /**
-   * Random delay between min and max milliseconds
+   * Searches of a source: its own search URLs plus the shared searches built for it
    */
-  private async delay(min: number, max: number): Promise<void> {
-    const delayMs = Math.floor(Math.random() * (max - min + 1)) + min;
-    return new Promise(resolve => setTimeout(resolve, delayMs));
+  private getSearches(adapter: SourceAdapter): { name: string; url: string }[] {
+    const searchUrls = this.config.searchUrls[adapter.key] || [];
+    const sharedSearches = (this.config.searches || []).map(search => ({
+      name: search.name,
+      url: adapter.buildSearchUrl(search.criteria),
+    }));
+
+    return [...searchUrls, ...sharedSearches];
   }
 
   /**
@@ -596,9 +507,14 @@ export class IngestionPipeline {
     console.log(`🔍 Search URLs processed: ${this.stats.totalSearchUrls}`);
     console.log(`🔗 Vehicle URLs found: ${this.stats.totalVehicleUrls}`);
     console.log(`✅ New vehicles saved: ${this.stats.newVehicles}`);
-    console.log(`⏭️  Duplicate vehicles skipped: ${this.stats.duplicateVehicles}`);
+    console.log(`🔄 Changed listings: ${this.stats.changedVehicles} (${this.stats.priceChanges} price changes)`);
+    console.log(`👀 Known listings seen in search results: ${this.stats.seenListings}`);
+    console.log(`⏭️  Unchanged or duplicate vehicles: ${this.stats.duplicateVehicles}`);
     console.log(`❌ Failed scrapes: ${this.stats.failedScrapes}`);
     console.log(`⚠️  Total errors: ${this.stats.errors.length}`);
+    if (this.stats.abortReason) {
+      console.log(`🛑 Run aborted: ${this.stats.abortReason}`);
+    }
 
     if (this.stats.errors.length > 0) {
       console.log('\n🚨 ERRORS ENCOUNTERED:');
@@ -613,53 +529,83 @@ export class IngestionPipeline {
     console.log('='.repeat(60));
   }
 
+  /**
+   * Scraper for this run: the archive when replaying, a capturing scraper when capturing,
+   * otherwise the shared scraper from the ServiceRegistry
+   */
+  private async createScraperService(): Promise<IScraperService> {
+    if (this.options.archiveDir) {
+      console.log(`📼 Replaying from archive: ${this.options.archiveDir}`);
+      return new ArchiveScraperService(this.options.archiveDir);
+    }
+
+    if (this.options.captureDir) {
+      console.log(`💾 Capturing scraped pages to: ${this.options.captureDir}`);
+      // Dynamic import keeps Puppeteer out of replays and tests
+      const { ScraperService } = await import('../services/ScraperService');
+      return new ScraperService({
+        delayRange: this.config.ingestionSettings.delayBetweenRequests,
+        maxRetries: this.config.ingestionSettings.retryAttempts,
+        captureDir: this.options.captureDir,
+      });
+    }
+
+    return ServiceRegistry.getScraperService();
+  }
+
   /**
    * Main ingestion pipeline execution
+   * @returns Run statistics (failures are collected in errors rather than thrown)
    */
-  async run(): Promise<void> {
+  async run(): Promise<IngestionStats> {
     try {
       console.log('🚀 Starting Car Finder AI Data Ingestion Pipeline');
       console.log(`📅 Started at: ${this.stats.startTime.toISOString()}`);
 
       // Initialize services using ServiceRegistry
-      this.scraperService = await ServiceRegistry.getScraperService();
+      this.scraperService = await this.createScraperService();
+      if (!this.scraperService.getBrowserStats().isInitialized) {
+        // The shared scraper is closed at the end of every run (e.g. the previous scheduled run)
+        await this.scraperService.initialize();
+      }
       this.parserService = ServiceRegistry.getParserService();
       this.vehicleRepository = await ServiceRegistry.getVehicleRepository();
+      this.listingHistory = new ListingHistoryService(this.vehicleRepository);
+      this.currencyService = new CurrencyService(this.vehicleRepository, this.config.currencyConversion);
+
+      // Replays use the stored rates so the run does not depend on the NBP API
+      if (this.config.currencyConversion.autoFetchRates && !this.options.archiveDir) {
+        try {
+          await this.currencyService.refreshRates(new NbpApiSource(this.config.currencyConversion.nbpApiUrl));
+        } catch (error) {
+          // Missing rates only fall back to the flat rate - not worth failing the run
+          console.warn(`⚠️  Could not refresh exchange rates: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+      }
+
+      // Vehicles may only reference registered sources (vehicle_sources)
+      await this.vehicleRepository.registerVehicleSources(this.sources.toVehicleSources());
 
       // Collect all vehicle URLs from all search configurations
       const allVehicleUrls: { url: string; source: VehicleSource }[] = [];
 
       // Process enabled sources only
-      const enabledSources = this.config.ingestionSettings.enabledSources || ['otomoto', 'olx'];
+      const enabledSources = this.options.sources || this.config.ingestionSettings.enabledSources || this.sources.keys();
       console.log(`📋 Enabled sources: ${enabledSources.join(', ')}`);
+      const adapters = enabledSources.map(key => this.sources.get(key));
 
-      // Process Otomoto search URLs (if enabled)
-      if (enabledSources.includes('otomoto')) {
-        for (const searchConfig of this.config.searchUrls.otomoto) {
-          console.log(`\n🔍 Processing Otomoto search: ${searchConfig.name}`);
-          const urls = await this.scrapeSearchResults(searchConfig.url, 'otomoto');
-          allVehicleUrls.push(...urls.map(url => ({ url, source: 'otomoto' as VehicleSource })));
-          this.stats.totalSearchUrls++;
-        }
-      } else {
-        console.log(`⏭️  Skipping Otomoto (not in enabled sources)`);
-      }
+      this.sources.keys()
+        .filter(key => !enabledSources.includes(key))
+        .forEach(key => console.log(`⏭️  Skipping ${this.sources.get(key).name} (not in enabled sources)`));
 
-      // Process OLX search URLs (if enabled) - Search-only approach
-      if (enabledSources.includes('olx')) {
-        for (const searchConfig of this.config.searchUrls.olx) {
-          console.log(`\n🔍 Processing OLX search (search-only): ${searchConfig.name}`);
-          const vehicles = await this.scrapeOlxSearchVehicles(searchConfig.url);
-          
-          // Process vehicles directly from search page
-          for (const vehicle of vehicles) {
-            await this.processAndSaveVehicle(vehicle, 'olx');
-          }
-          
+      for (const adapter of adapters) {
+        for (const search of this.getSearches(adapter)) {
+          console.log(`\n🔍 Processing ${adapter.name} search: ${search.name}`);
+          const urls = await this.scrapeSearchResults(search.url, adapter);
+          allVehicleUrls.push(...urls.map(url => ({ url, source: adapter.key })));
           this.stats.totalSearchUrls++;
+          this.parserFailures.assertHealthy(adapter.key);
         }
-      } else {
-        console.log(`⏭️  Skipping OLX (not in enabled sources)`);
       }
 
       // Deduplicate URLs across sources
@@ -668,19 +614,13 @@ export class IngestionPipeline {
 
       console.log(`\n📊 Found ${this.stats.totalVehicleUrls} unique vehicle URLs across all sources`);
 
-      // Group URLs by source for processing
-      const otomotoUrls = deduplicatedUrls.filter(item => item.source === 'otomoto').map(item => item.url);
-      const olxUrls = deduplicatedUrls.filter(item => item.source === 'olx').map(item => item.url);
-
       // Process vehicle URLs by source
-      if (otomotoUrls.length > 0) {
-        console.log(`\n🚗 Processing ${otomotoUrls.length} Otomoto vehicles`);
-        await this.processVehicleUrls(otomotoUrls, 'otomoto');
-      }
-
-      if (olxUrls.length > 0) {
-        console.log(`\n🚗 Processing ${olxUrls.length} OLX vehicles`);
-        await this.processVehicleUrls(olxUrls, 'olx');
+      for (const adapter of adapters) {
+        const urls = deduplicatedUrls.filter(item => item.source === adapter.key).map(item => item.url);
+        if (urls.length > 0) {
+          console.log(`\n🚗 Processing ${urls.length} ${adapter.name} vehicles`);
+          await this.processVehicleUrls(urls, adapter);
+        }
       }
 
       console.log('\n✅ Ingestion pipeline completed successfully');
@@ -688,21 +628,91 @@ export class IngestionPipeline {
     } catch (error) {
       console.error('\n❌ Ingestion pipeline failed:', error instanceof Error ? error.message : 'Unknown error');
       this.stats.errors.push(`Pipeline failure: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      // Collected errors leave a run successful; an abort must fail the CLI and scheduled runs
+      if (error instanceof ParserFailureThresholdError) {
+        this.stats.abortReason = error.message;
+      }
     } finally {
       // Cleanup resources
-      await this.scraperService.close();
+      await this.scraperService?.close();
       this.generateReport();
     }
+
+    return this.stats;
   }
 }
 
+/**
+ * Parse command-line arguments
+ * Archive directories are relative to the workspace root, like the other data files
+ */
+function parseArgs(args: string[] = process.argv.slice(2)): IngestionOptions {
+  const options: IngestionOptions = {};
+  const resolveDir = (dir: string) => path.resolve(WorkspaceUtils.findWorkspaceRoot(), dir);
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+
+    if (arg === '--from-archive' && i + 1 < args.length) {
+      options.archiveDir = resolveDir(args[i + 1]);
+      i++;
+    } else if (arg === '--capture' && i + 1 < args.length) {
+      options.captureDir = resolveDir(args[i + 1]);
+      i++;
+    } else if (arg === '--source' && i + 1 < args.length) {
+      const source = args[i + 1];
+      if (!sourceRegistry.has(source)) {
+        throw new Error(`Unknown source "${source}" (expected one of ${sourceRegistry.keys().join(', ')})`);
+      }
+      options.sources = [...(options.sources ?? []), source];
+      i++;
+    } else if (arg === '--help' || arg === '-h') {
+      printHelp();
+      process.exit(0);
+    }
+  }
+
+  return options;
+}
+
+/**
+ * Print help message
+ */
+function printHelp(): void {
+  console.log(`
+Data Ingestion Pipeline
+
+Usage:
+  pnpm ingest [options]
+
+Options:
+  --capture <dir>        Archive every scraped page (HTML plus metadata) in <dir>
+  --from-archive <dir>   Replay a captured run from <dir> without a browser or network access
+                         (exchange rates are not refreshed; --capture is ignored)
+  --source <name>        Only ingest this source (${sourceRegistry.keys().join(', ')}; can be given
+                         several times); overrides enabledSources in search-config.json
+  --help, -h             Show this help message
+
+Archive directories are relative to the workspace root, e.g. data/archive/2024-03-01.
+`);
+}
+
 // CLI execution
 if (require.main === module) {
-  const pipeline = new IngestionPipeline();
-  pipeline.run().catch(error => {
-    console.error('Fatal error:', error);
-    process.exit(1);
-  });
+  const pipeline = new IngestionPipeline(parseArgs());
+  pipeline.run()
+    .then(stats => {
+      if (stats.abortReason) {
+        process.exit(1);
+      }
+    })
+    .catch(error => {
+      console.error('Fatal error:', error);
+      process.exit(1);
+    });
 }
 
+// Export for testing
+export { parseArgs };
+
 export default IngestionPipeline;
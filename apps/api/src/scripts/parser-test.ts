@@ -0,0 +1,152 @@
+#!/usr/bin/env node
+
+/**
+ * Parser Self-Test Script
+ *
+ * Parses the stored sample pages of every site and page type in parser-schema.json and
+ * reports the extraction success rate of each configured field. Run it after editing the
+ * schema, or when ingestion aborts because a site's pages stopped parsing.
+ *
+ * Usage:
+ *   pnpm parser:test                        # Test all sites against parser-samples/
+ *   pnpm parser:test --site olx             # Only test one site (repeatable)
+ *   pnpm parser:test --min-rate 0.8         # Fail when a field is extracted from < 80% of records
+ *   pnpm parser:test --samples <dir>        # Read sample pages from another directory
+ *
+ * Exits with 1 when a sample page fails to parse or a field is below --min-rate.
+ */
+
+import * as path from 'path';
+import { WorkspaceUtils } from '@car-finder/services';
+import { ParserService } from '../services/ParserService';
+import { ParserSelfTest, PageTypeReport } from '../services/ParserSelfTest';
+
+export interface ParserTestOptions {
+  samplesDir: string;
+  sites?: string[];
+  minRate: number; // 0-1
+}
+
+/**
+ * Parse command-line arguments
+ * The samples directory is relative to the workspace root, like the other data files
+ */
+function parseArgs(args: string[] = process.argv.slice(2)): ParserTestOptions {
+  const options: ParserTestOptions = {
+    samplesDir: WorkspaceUtils.resolveProjectFile('parser-samples'),
+    minRate: 0,
+  };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+
+    if (arg === '--samples' && i + 1 < args.length) {
+      options.samplesDir = path.resolve(WorkspaceUtils.findWorkspaceRoot(), args[i + 1]);
+      i++;
+    } else if (arg === '--site' && i + 1 < args.length) {
+      options.sites = [...(options.sites ?? []), args[i + 1]];
+      i++;
+    } else if (arg === '--min-rate' && i + 1 < args.length) {
+      const minRate = parseFloat(args[i + 1]);
+      if (isNaN(minRate) || minRate < 0 || minRate > 1) {
+        throw new Error(`Invalid --min-rate "${args[i + 1]}" (expected a number between 0 and 1)`);
+      }
+      options.minRate = minRate;
+      i++;
+    } else if (arg === '--help' || arg === '-h') {
+      printHelp();
+      process.exit(0);
+    }
+  }
+
+  return options;
+}
+
+/**
+ * Print help message
+ */
+function printHelp(): void {
+  console.log(`
+Parser Self-Test
+
+Usage:
+  pnpm parser:test [options]
+
+Options:
+  --samples <dir>    Sample page directory (default: parser-samples)
+  --site <key>       Only test this site (can be given several times)
+  --min-rate <0-1>   Fail when a field is extracted from fewer records (default: 0)
+  --help, -h         Show this help message
+
+Sample pages are stored as <dir>/<site>/<pageType>*.html, e.g. parser-samples/olx/detail-trafic.html.
+`);
+}
+
+/**
+ * Print the results of one site and page type
+ * @returns Whether the page type passed
+ */
+function printReport(report: PageTypeReport, minRate: number): boolean {
+  console.log(`\n📄 ${report.site} / ${report.pageType}: ${report.samples} sample pages, ${report.records} records`);
+
+  if (report.samples === 0) {
+    console.log('  ⚠️  No sample pages - add some to test this page type');
+    return true;
+  }
+
+  report.failures.forEach(failure => {
+    console.log(`  ❌ ${failure.file}: ${failure.error}`);
+  });
+
+  let passed = report.failures.length === 0;
+  report.fields.forEach(field => {
+    if (field.rate === null) {
+      console.log(`  ➖ ${field.field}: no records`);
+      return;
+    }
+
+    const belowMinRate = field.rate < minRate;
+    passed = passed && !belowMinRate;
+    const icon = belowMinRate ? '❌' : field.extracted === 0 ? '⚠️ ' : '✅';
+    console.log(`  ${icon} ${field.field}: ${Math.round(field.rate * 100)}% (${field.extracted}/${field.total})`);
+  });
+
+  return passed;
+}
+
+/**
+ * Main execution
+ */
+async function main() {
+  try {
+    const options = parseArgs();
+    console.log(`🚀 Testing parser-schema.json against ${options.samplesDir}`);
+
+    const reports = new ParserSelfTest(new ParserService(), options.samplesDir).run(options.sites);
+    const failed = reports.filter(report => !printReport(report, options.minRate));
+
+    console.log('\n' + '='.repeat(60));
+    if (failed.length > 0) {
+      console.log(`❌ ${failed.length}/${reports.length} page types failed: ${failed.map(report => `${report.site}/${report.pageType}`).join(', ')}`);
+    } else {
+      console.log(`✅ All ${reports.length} page types passed`);
+    }
+    console.log('='.repeat(60));
+
+    process.exit(failed.length > 0 ? 1 : 0);
+  } catch (error) {
+    console.error('\n❌ Fatal error:', error);
+    process.exit(1);
+  }
+}
+
+// Run if executed directly
+if (require.main === module) {
+  main();
+}
+
+// Export for testing
+export {
+  main,
+  parseArgs,
+};
@@ -0,0 +1,142 @@
+#!/usr/bin/env node
+
+/**
+ * Reparse Script
+ *
+ * Re-runs the ParserService with the current parser-schema.json against the detail-page
+ * HTML stored at ingestion, and reports which fields would change for each vehicle.
+ * Run it after fixing the parser schema; nothing is written until --write is given.
+ *
+ * Usage:
+ *   pnpm reparse                          # Report differences for all vehicles
+ *   pnpm reparse --vehicle-id <id>        # Only re-parse one vehicle (repeatable)
+ *   pnpm reparse --limit 20               # Re-parse at most 20 vehicles
+ *   pnpm reparse --write                  # Apply the differences
+ *
+ * Environment Variables:
+ *   DATABASE_PATH    Optional. Path to database file (default: <root>/data/vehicles.db)
+ */
+
+import { ServiceRegistry, WorkspaceUtils } from '@car-finder/services';
+import { ReparseOptions, ReparseService, VehicleReparseResult } from '../services/ReparseService';
+
+// Load environment variables from the workspace root
+WorkspaceUtils.loadEnvFromRoot();
+
+// Longer values are shortened in the report
+const MAX_VALUE_LENGTH = 80;
+
+/**
+ * Parse command-line arguments
+ */
+function parseArgs(args: string[] = process.argv.slice(2)): ReparseOptions {
+  const options: ReparseOptions = {};
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+
+    if (arg === '--vehicle-id' && i + 1 < args.length) {
+      options.vehicleIds = [...(options.vehicleIds ?? []), args[i + 1]];
+      i++;
+    } else if (arg === '--limit' && i + 1 < args.length) {
+      options.limit = parseInt(args[i + 1], 10);
+      i++;
+    } else if (arg === '--write') {
+      options.write = true;
+    } else if (arg === '--help' || arg === '-h') {
+      printHelp();
+      process.exit(0);
+    }
+  }
+
+  return options;
+}
+
+/**
+ * Print help message
+ */
+function printHelp(): void {
+  console.log(`
+Reparse Script
+
+Usage:
+  pnpm reparse [options]
+
+Options:
+  --vehicle-id <id>  Only re-parse this vehicle (can be given several times)
+  --limit <n>        Maximum number of vehicles to re-parse
+  --write            Apply the differences (default: report only)
+  --help, -h         Show this help message
+
+Only vehicles ingested since detail pages are stored can be re-parsed.
+`);
+}
+
+/**
+ * Format a field value for the diff report
+ */
+function formatValue(value: unknown): string {
+  const text = value instanceof Date ? value.toISOString() : JSON.stringify(value);
+  return text.length > MAX_VALUE_LENGTH ? `${text.slice(0, MAX_VALUE_LENGTH - 1)}…` : text;
+}
+
+/**
+ * Print the field-level differences of one vehicle
+ */
+function printResult(result: VehicleReparseResult): void {
+  console.log(`\n🚗 ${result.sourceUrl} (${result.vehicleId}, page from ${result.pageScrapedAt.toISOString()})`);
+  result.diffs.forEach(diff => {
+    console.log(`  ${diff.field}: ${formatValue(diff.before)} → ${formatValue(diff.after)}`);
+  });
+}
+
+/**
+ * Main execution
+ */
+async function main() {
+  try {
+    const options = parseArgs();
+    console.log(`🚀 Re-parsing stored detail pages${options.write ? '' : ' (dry run)'}`);
+
+    const reparseService = new ReparseService(
+      ServiceRegistry.getParserService(),
+      await ServiceRegistry.getVehicleRepository()
+    );
+
+    const summary = await reparseService.reparseVehicles(options);
+    summary.results.forEach(printResult);
+
+    console.log('\n' + '='.repeat(60));
+    console.log('📊 REPARSE SUMMARY');
+    console.log('='.repeat(60));
+    console.log(`🔎 Vehicles checked: ${summary.checked}`);
+    console.log(`🔄 Changed: ${summary.changed}`);
+    console.log(`✅ Unchanged: ${summary.unchanged}`);
+    console.log(`📭 Without stored page: ${summary.withoutPage}`);
+    console.log(`💾 Written: ${summary.written}`);
+    console.log(`❌ Failed: ${summary.failed}`);
+    summary.errors.slice(0, 10).forEach((error, index) => {
+      console.log(`  ${index + 1}. ${error}`);
+    });
+    if (!options.write && summary.changed > 0) {
+      console.log('\nRun again with --write to apply the differences.');
+    }
+    console.log('='.repeat(60));
+
+    process.exit(0);
+  } catch (error) {
+    console.error('\n❌ Fatal error:', error);
+    process.exit(1);
+  }
+}
+
+// Run if executed directly
+if (require.main === module) {
+  main();
+}
+
+// Export for testing
+export {
+  main,
+  parseArgs,
+};
@@ -0,0 +1,167 @@
+#!/usr/bin/env node
+
+/**
+ * Pipeline Scheduler Daemon
+ *
+ * Long-running process that runs ingest → translate → analyze on the cron schedules in
+ * search-config.json (schedulerSettings). Runs are stored in the database and listed by
+ * GET /api/pipeline/runs; a database lock prevents overlapping runs.
+ *
+ * Usage:
+ *   pnpm scheduler                 # Run the pipeline on schedule until stopped (Ctrl+C)
+ *   pnpm scheduler --once          # Run the pipeline once now and exit
+ *
+ * Environment Variables:
+ *   DATABASE_PATH    Optional. Path to database file (default: <root>/data/vehicles.db)
+ *   GEMINI_API_KEY   Required. Your Gemini API key for translation and analysis
+ */
+
+import * as fs from 'fs';
+import { ServiceRegistry, WorkspaceUtils } from '@car-finder/services';
+import {
+  PipelineScheduler,
+  PipelineSchedulerSettings,
+  PipelineStageRunners,
+  DEFAULT_SCHEDULER_SETTINGS,
+} from '../services/PipelineScheduler';
+import { IngestionPipeline } from './ingest';
+import { VehicleTranslator } from './translate';
+import { VehicleAnalyzer } from './analyze';
+
+// Load environment variables from the workspace root
+WorkspaceUtils.loadEnvFromRoot();
+
+interface SchedulerArgs {
+  once: boolean;
+}
+
+/**
+ * Load scheduler settings from search-config.json, falling back to defaults
+ */
+function loadSchedulerSettings(): PipelineSchedulerSettings {
+  try {
+    const configPath = WorkspaceUtils.resolveConfigFile('search-config.json');
+    const config = JSON.parse(fs.readFileSync(configPath, 'utf-8'));
+
+    return { ...DEFAULT_SCHEDULER_SETTINGS, ...config.schedulerSettings };
+  } catch (error) {
+    console.warn(`⚠️  Could not load schedulerSettings, using defaults: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    return { ...DEFAULT_SCHEDULER_SETTINGS };
+  }
+}
+
+/**
+ * Stage runners backed by the ingest, translate and analyze scripts
+ * Translation and analysis open their own database connection for the stage and close it afterwards
+ */
+function createStageRunners(): PipelineStageRunners {
+  return {
+    ingest: () => new IngestionPipeline().run(),
+
+    async translate() {
+      const translator = await VehicleTranslator.create();
+      try {
+        return await translator.run();
+      } finally {
+        await translator.close();
+      }
+    },
+
+    async analyze() {
+      const analyzer = await VehicleAnalyzer.create();
+      try {
+        return await analyzer.run();
+      } finally {
+        await analyzer.close();
+      }
+    },
+  };
+}
+
+/**
+ * Parse command-line arguments
+ */
+function parseArgs(args: string[] = process.argv.slice(2)): SchedulerArgs {
+  const options: SchedulerArgs = { once: false };
+
+  for (const arg of args) {
+    if (arg === '--once') {
+      options.once = true;
+    } else if (arg === '--help' || arg === '-h') {
+      printHelp();
+      process.exit(0);
+    }
+  }
+
+  return options;
+}
+
+/**
+ * Print help message
+ */
+function printHelp(): void {
+  console.log(`
+Pipeline Scheduler
+
+Usage:
+  pnpm scheduler [options]
+
+Options:
+  --once       Run the pipeline once now and exit (still respects the lock)
+  --help, -h   Show this help message
+
+Schedules, stages and the lock timeout are set in search-config.json under schedulerSettings:
+  "schedulerSettings": {
+    "schedules": ["0 6 * * *", "0 18 * * *"],   # minute hour day-of-month month day-of-week
+    "stages": ["ingest", "translate", "analyze"],
+    "lockTimeoutMinutes": 360
+  }
+`);
+}
+
+/**
+ * Main execution
+ */
+async function main() {
+  try {
+    const args = parseArgs();
+    const settings = loadSchedulerSettings();
+    const scheduler = new PipelineScheduler(
+      await ServiceRegistry.getVehicleRepository(),
+      createStageRunners(),
+      settings
+    );
+
+    if (args.once) {
+      const run = await scheduler.runPipeline('manual');
+      process.exit(run.status === 'failed' ? 1 : 0);
+    }
+
+    const shutdown = async () => {
+      console.log('\n🛑 Stopping pipeline scheduler...');
+      await scheduler.stop();
+      process.exit(0);
+    };
+    process.once('SIGINT', shutdown);
+    process.once('SIGTERM', shutdown);
+
+    console.log(`🚀 Pipeline scheduler started: ${settings.schedules.join(', ')} (${settings.stages.join(' → ')})`);
+    scheduler.start();
+  } catch (error) {
+    console.error('\n❌ Fatal error:', error);
+    process.exit(1);
+  }
+}
+
+// Run if executed directly
+if (require.main === module) {
+  main();
+}
+
+// Export for testing
+export {
+  main,
+  parseArgs,
+  loadSchedulerSettings,
+  createStageRunners,
+};
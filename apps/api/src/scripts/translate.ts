@@ -19,7 +19,7 @@
 
 import { AIService, TranslationResult } from '../services/AIService';
 import { DatabaseService, VehicleRepository } from '@car-finder/db';
-import { Vehicle } from '@car-finder/types';
+import { Vehicle, TranslationRunLog } from '@car-finder/types';
 import { AIError, RateLimitError, ValidationError } from '@car-finder/ai';
 import { WorkspaceUtils } from '@car-finder/services';
 import * as fs from 'fs';
@@ -35,27 +35,6 @@ interface TranslationOptions {
   force?: boolean;
 }
 
-interface TranslationRunLog {
-  runId: string;
-  startTime: Date;
-  endTime?: Date;
-  vehiclesProcessed: number;
-  vehiclesCompleted: number;
-  vehiclesFailed: number;
-  vehiclesFiltered: number;
-  failures: TranslationFailure[];
-}
-
-interface TranslationFailure {
-  vehicleId: string;
-  vehicleTitle: string;
-  vehicleUrl: string;
-  error: string;
-  errorType: string;
-  timestamp: Date;
-  retryable: boolean;
-}
-
 interface SearchConfig {
   translationModel?: string;
   requiredFeatures: string[];
@@ -153,6 +132,7 @@ function getErrorType(error: Error): string {
 
 export class VehicleTranslator {
   private aiService: AIService;
+  private dbService!: DatabaseService;
   private vehicleRepository!: VehicleRepository;
   private runLog: TranslationRunLog;
   private config: SearchConfig;
@@ -180,16 +160,24 @@ export class VehicleTranslator {
    */
   static async create(databasePath?: string): Promise<VehicleTranslator> {
     const translator = new VehicleTranslator();
-    const dbService = new DatabaseService(databasePath);
-    await dbService.initialize();
-    translator.vehicleRepository = new VehicleRepository(dbService.getDatabase());
+    translator.dbService = new DatabaseService(databasePath);
+    await translator.dbService.initialize();
+    translator.vehicleRepository = new VehicleRepository(translator.dbService.getDatabase());
     return translator;
   }
 
+  /**
+   * Close the database connection opened by create()
+   */
+  async close(): Promise<void> {
+    await this.dbService.close();
+  }
+
   /**
    * Run the translation pipeline
+   * @returns The run log (also written to data/logs/translation-runs)
    */
-  async run(options: TranslationOptions = {}): Promise<void> {
+  async run(options: TranslationOptions = {}): Promise<TranslationRunLog> {
     console.log('🌐 Starting Vehicle Translation Pipeline...\n');
 
     try {
@@ -197,7 +185,8 @@ export class VehicleTranslator {
 
       if (vehicles.length === 0) {
         console.log('✅ No vehicles need translation. All done!');
-        return;
+        this.runLog.endTime = new Date();
+        return this.runLog;
       }
 
       console.log(`📊 Found ${vehicles.length} vehicle(s) to translate\n`);
@@ -242,6 +231,7 @@ export class VehicleTranslator {
       this.runLog.endTime = new Date();
       this.writeRunLog();
       this.printSummary();
+      return this.runLog;
     } catch (error) {
       console.error('❌ Fatal error in translation pipeline:', error);
       this.runLog.endTime = new Date();
@@ -6,11 +6,23 @@
  * - Priority Rating (overall recommendation score)
  * - Virtual Mechanic's Report (model-specific inspection guidance)
  * - Data Sanity Check (consistency validation)
+ * - Conversational assistant grounded in vehicle records
+ * - Seller communication (Polish message drafts and reply translation)
+ * - Side-by-side comparison of shortlisted vehicles
  */
 
-import { AIProviderFactory, IAIProvider, PromptLoader, DictionaryLoader } from '@car-finder/ai';
+import { AIProviderFactory, IAIProvider, PromptLoader, PromptBuilder, DictionaryLoader, ParsedPrompt } from '@car-finder/ai';
 import { AIError, RateLimitError, ValidationError } from '@car-finder/ai';
-import { Vehicle } from '@car-finder/types';
+import {
+  ChatMessage,
+  ChatRequest,
+  DraftSellerMessageRequest,
+  SellerMessage,
+  SellerMessageDraft,
+  Vehicle,
+  VehicleComparison,
+  VehicleComparisonRecommendation,
+} from '@car-finder/types';
 
 /**
  * User criteria for Personal Fit Score analysis
@@ -63,6 +75,12 @@ export interface TranslationResult {
   features: string[];
 }
 
+/**
+ * Acknowledgement placed after the grounding message so the conversation
+ * keeps alternating user/model turns
+ */
+const CHAT_GROUNDING_ACK = 'Understood. I will answer using only the vehicle records provided.';
+
 /**
  * Helper type for extracting vehicle properties from sourceParameters
  */
@@ -369,6 +387,227 @@ export class AIService {
     }
   }
 
+  /**
+   * Continue a conversation with the AI assistant, grounded in the given vehicles
+   * @param request Chat request from the UI (context, history and new message)
+   * @param vehicles Vehicle records relevant to the request context
+   * @returns The assistant's reply in Markdown
+   */
+  async chat(request: ChatRequest, vehicles: Vehicle[]): Promise<string> {
+    try {
+      // Load prompt definition
+      const prompt = await PromptLoader.loadPrompt('vehicle-chat');
+
+      // Grounding goes first, followed by the client-side history and the new message
+      const messages: ChatMessage[] = [
+        { role: 'user', content: this._buildChatGrounding(prompt, request.context, vehicles) },
+        { role: 'model', content: CHAT_GROUNDING_ACK },
+        ...request.conversationHistory,
+        { role: 'user', content: request.userMessage },
+      ];
+
+      const response = await this.provider.chat(messages);
+
+      if (!response || response.trim() === '') {
+        throw new ValidationError('Empty chat response returned from AI provider');
+      }
+
+      return response;
+    } catch (error) {
+      console.error(`Error generating chat response (${request.context.view} view):`, error);
+      if (error instanceof AIError || error instanceof RateLimitError || error instanceof ValidationError) {
+        throw error;
+      }
+      throw new AIError(`Failed to generate chat response: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Draft the next message to a vehicle's seller in Polish, with an English version to check
+   * Questions are chosen from the vehicle's mechanic report and data sanity check
+   * @param vehicle Vehicle the message is about
+   * @param request Message type, plus the offer price and notes to include
+   * @param conversation Conversation so far, oldest message first
+   */
+  async draftSellerMessage(
+    vehicle: Vehicle,
+    request: DraftSellerMessageRequest,
+    conversation: SellerMessage[] = []
+  ): Promise<SellerMessageDraft> {
+    try {
+      // Load prompt definition
+      const prompt = await PromptLoader.loadPrompt('seller-message');
+      const { make, model, year, mileageKm } = this._extractVehicleData(vehicle);
+
+      // Build prompt on top of the communication assistant system prompt
+      const fullPrompt = PromptBuilder.forCommunication().build(
+        PromptLoader.buildPrompt(prompt, {
+          vehicle: {
+            title: vehicle.title || vehicle.sourceTitle,
+            make,
+            model,
+            year,
+            mileageKm,
+            priceEur: vehicle.priceEur,
+            pricePln: vehicle.pricePln,
+            sellerName: vehicle.sellerInfo?.name ?? null,
+          },
+          messageType: request.messageType,
+          mechanicReport: vehicle.aiMechanicReport,
+          dataSanityCheck: vehicle.aiDataSanityCheck,
+          offerPriceEur: request.offerPriceEur ?? null,
+          notes: request.notes ?? null,
+          conversation: this._summarizeSellerConversation(conversation),
+        })
+      );
+
+      // Call AI provider
+      const response = await this.provider.generateStructured<{
+        messagePl: string;
+        messageEn: string;
+        questions: string[];
+      }>(fullPrompt, prompt.outputFormat);
+
+      // Validate response
+      if (!response.messagePl?.trim() || !response.messageEn?.trim()) {
+        throw new ValidationError('Empty seller message returned from AI provider');
+      }
+
+      return {
+        messageType: request.messageType,
+        messagePl: response.messagePl.trim(),
+        messageEn: response.messageEn.trim(),
+        questions: Array.isArray(response.questions) ? response.questions : [],
+      };
+    } catch (error) {
+      console.error(`Error drafting seller message for vehicle ${vehicle.id}:`, error);
+      if (error instanceof AIError || error instanceof RateLimitError || error instanceof ValidationError) {
+        throw error;
+      }
+      throw new AIError(`Failed to draft seller message: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Translate a seller's reply (Polish, pasted from the marketplace chat) to English
+   * @param vehicle Vehicle the conversation is about
+   * @param reply The seller's reply
+   * @param conversation Conversation so far, oldest message first
+   * @returns English translation
+   */
+  async translateSellerReply(vehicle: Vehicle, reply: string, conversation: SellerMessage[] = []): Promise<string> {
+    try {
+      // Load prompt definition
+      const prompt = await PromptLoader.loadPrompt('seller-reply');
+      const { make, model, year } = this._extractVehicleData(vehicle);
+
+      // Build prompt on top of the communication assistant system prompt
+      const fullPrompt = PromptBuilder.forCommunication().build(
+        PromptLoader.buildPrompt(prompt, {
+          vehicle: {
+            title: vehicle.title || vehicle.sourceTitle,
+            make,
+            model,
+            year,
+          },
+          reply,
+          conversation: this._summarizeSellerConversation(conversation),
+        })
+      );
+
+      // Call AI provider
+      const response = await this.provider.generateStructured<{ translation: string }>(
+        fullPrompt,
+        prompt.outputFormat
+      );
+
+      // Validate response
+      if (!response.translation || response.translation.trim() === '') {
+        throw new ValidationError('Empty translation returned from AI provider');
+      }
+
+      return response.translation.trim();
+    } catch (error) {
+      console.error(`Error translating seller reply for vehicle ${vehicle.id}:`, error);
+      if (error instanceof AIError || error instanceof RateLimitError || error instanceof ValidationError) {
+        throw error;
+      }
+      throw new AIError(`Failed to translate seller reply: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Recommend which of 2-4 shortlisted vehicles to pursue first, with pros and cons of each
+   * @param vehicles Compared vehicles, in the comparison's order
+   * @param comparison Comparison table built for the vehicles (market value and sanity flags)
+   */
+  async compareVehicles(vehicles: Vehicle[], comparison: VehicleComparison): Promise<VehicleComparisonRecommendation> {
+    try {
+      // Load prompt definition
+      const prompt = await PromptLoader.loadPrompt('compare-vehicles');
+      const marketDifference = comparison.rows.find(row => row.key === 'marketDifferencePercent');
+
+      // Build prompt on top of the vehicle analysis system prompt
+      const fullPrompt = PromptBuilder.forVehicleAnalysis().build(
+        PromptLoader.buildPrompt(prompt, {
+          vehicles: vehicles.map((vehicle, index) => ({
+            id: vehicle.id,
+            title: vehicle.title || vehicle.sourceTitle,
+            make: vehicle.attributes.make,
+            model: vehicle.attributes.model,
+            year: vehicle.year,
+            mileageKm: vehicle.mileage,
+            priceEur: vehicle.priceEur,
+            features: vehicle.features,
+            personalFitScore: vehicle.personalFitScore,
+            aiPriorityRating: vehicle.aiPriorityRating,
+            marketDifferencePercent: marketDifference?.values[index] ?? null,
+            mechanicReport: vehicle.aiMechanicReport,
+            sanityFlags: comparison.sanityFlags[index] ?? [],
+            userNotes: vehicle.personalNotes,
+          })),
+        })
+      );
+
+      // Call AI provider
+      const response = await this.provider.generateStructured<VehicleComparisonRecommendation>(
+        fullPrompt,
+        prompt.outputFormat
+      );
+
+      // Validate response
+      if (!response.summary?.trim()) {
+        throw new ValidationError('Empty comparison summary returned from AI provider');
+      }
+
+      // Only keep recommendations for the vehicles that were compared
+      const ids = new Set(vehicles.map(vehicle => vehicle.id));
+      const toStrings = (items: unknown): string[] => (Array.isArray(items) ? items.filter(item => typeof item === 'string') : []);
+      return {
+        summary: response.summary.trim(),
+        recommendedVehicleId: response.recommendedVehicleId && ids.has(response.recommendedVehicleId)
+          ? response.recommendedVehicleId
+          : null,
+        vehicles: (Array.isArray(response.vehicles) ? response.vehicles : [])
+          .filter(entry => ids.has(entry?.vehicleId))
+          .map(entry => ({ vehicleId: entry.vehicleId, pros: toStrings(entry.pros), cons: toStrings(entry.cons) })),
+      };
+    } catch (error) {
+      console.error(`Error comparing vehicles ${vehicles.map(vehicle => vehicle.id).join(', ')}:`, error);
+      if (error instanceof AIError || error instanceof RateLimitError || error instanceof ValidationError) {
+        throw error;
+      }
+      throw new AIError(`Failed to compare vehicles: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Reduce the seller conversation to what the prompts need (English text keeps prompts short)
+   */
+  private _summarizeSellerConversation(conversation: SellerMessage[]): Array<Pick<SellerMessage, 'direction' | 'textEn'>> {
+    return conversation.map(({ direction, textEn }) => ({ direction, textEn }));
+  }
+
   /**
    * Extract vehicle data from Vehicle object for AI prompts
    */
@@ -400,6 +639,60 @@ export class AIService {
     };
   }
 
+  /**
+   * Build the grounding message for a chat conversation
+   * Detail view includes full records; dashboard view uses compact summaries
+   */
+  private _buildChatGrounding(
+    prompt: ParsedPrompt,
+    context: ChatRequest['context'],
+    vehicles: Vehicle[]
+  ): string {
+    const detailed = context.view === 'detail';
+
+    const vehicleRecords = vehicles.map((vehicle) => ({
+      id: vehicle.id,
+      title: vehicle.title,
+      source: vehicle.source,
+      sourceUrl: vehicle.sourceUrl,
+      priceEur: vehicle.priceEur,
+      pricePln: vehicle.pricePln,
+      year: vehicle.year,
+      mileage: vehicle.mileage,
+      status: vehicle.status,
+      features: detailed ? vehicle.features : vehicle.features.slice(0, 10),
+      personalFitScore: vehicle.personalFitScore,
+      marketValueScore: vehicle.marketValueScore,
+      aiPriorityRating: vehicle.aiPriorityRating,
+      aiPrioritySummary: vehicle.aiPrioritySummary,
+      ...(detailed && {
+        description: vehicle.description,
+        aiMechanicReport: vehicle.aiMechanicReport,
+        aiDataSanityCheck: vehicle.aiDataSanityCheck,
+        sellerInfo: vehicle.sellerInfo,
+        personalNotes: vehicle.personalNotes,
+      }),
+    }));
+
+    let grounding = `## Role\n${prompt.role}\n\n`;
+    grounding += `## Task\n${prompt.task}\n\n`;
+
+    if (prompt.instructions.length > 0) {
+      grounding += `## Instructions\n`;
+      prompt.instructions.forEach((instruction, idx) => {
+        grounding += `${idx + 1}. ${instruction}\n`;
+      });
+      grounding += '\n';
+    }
+
+    grounding += `## Context\n`;
+    grounding += '```json\n';
+    grounding += JSON.stringify({ context, vehicles: vehicleRecords }, null, 2);
+    grounding += '\n```';
+
+    return grounding;
+  }
+
   /**
    * Format sanity check result as human-readable text
    */
@@ -0,0 +1,49 @@
+/**
+ * ArchiveScraperService Unit Tests
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ArchiveScraperService } from './ArchiveScraperService';
+import { PageArchive } from './PageArchive';
+
+describe('ArchiveScraperService', () => {
+  const url = 'https://www.otomoto.pl/oferta/renault-trafic-ID6HG4T1.html';
+  let directory: string;
+  let scraper: ArchiveScraperService;
+
+  beforeEach(async () => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'archive-scraper-'));
+    new PageArchive(directory).save(url, { html: '<html>Trafic</html>', finalUrl: `${url}?redirected=1`, statusCode: 200 });
+
+    scraper = new ArchiveScraperService(directory);
+    await scraper.initialize();
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should serve archived pages as scrape results', async () => {
+    await expect(scraper.scrapeUrl('https://otomoto.pl/oferta/renault-trafic-ID6HG4T1.html/')).resolves.toEqual({
+      html: '<html>Trafic</html>',
+      finalUrl: `${url}?redirected=1`,
+      statusCode: 200,
+      scrapingTime: 0,
+    });
+    expect(scraper.getBrowserStats()).toMatchObject({ isInitialized: true, requestCount: 1 });
+  });
+
+  it('should fail for pages that were not captured', async () => {
+    await expect(scraper.scrapeUrl('https://www.otomoto.pl/oferta/missing.html'))
+      .rejects.toThrow('No archived page for https://www.otomoto.pl/oferta/missing.html');
+  });
+
+  it('should fail for images and before initialization', async () => {
+    await expect(scraper.getImageGrayscale('https://example.com/photo.jpg')).rejects.toThrow('images are not archived');
+
+    await scraper.close();
+    await expect(scraper.scrapeUrl(url)).rejects.toThrow('Browser not initialized');
+  });
+});
@@ -0,0 +1,73 @@
+/**
+ * ArchiveScraperService - Offline scraper that serves pages from a PageArchive directory
+ *
+ * Drop-in IScraperService for replaying ingestion runs deterministically: pages captured by
+ * the real scraper (captureDir) are returned as they were, without a browser, network access
+ * or respectful delays. URLs that were never captured fail like a failed scrape.
+ */
+
+import { BrowserStats, IScraperService, ScrapingResult } from '@car-finder/services';
+import { PageArchive } from './PageArchive';
+
+export class ArchiveScraperService implements IScraperService {
+  private readonly archive: PageArchive;
+  private initialized = false;
+  private requestCount = 0;
+  private lastRequestTime = 0;
+
+  constructor(directory: string) {
+    this.archive = new PageArchive(directory);
+  }
+
+  public async initialize(): Promise<void> {
+    this.initialized = true;
+  }
+
+  /**
+   * Returns the archived page for a URL
+   */
+  public async scrapeUrl(url: string): Promise<ScrapingResult> {
+    if (!this.initialized) {
+      throw new Error('Browser not initialized. Call initialize() first.');
+    }
+
+    this.requestCount++;
+    this.lastRequestTime = Date.now();
+
+    const page = this.archive.load(url);
+    if (!page) {
+      throw new Error(`No archived page for ${url}`);
+    }
+
+    return {
+      html: page.html,
+      finalUrl: page.finalUrl,
+      statusCode: page.statusCode,
+      scrapingTime: 0,
+    };
+  }
+
+  /**
+   * Images are not archived, so photo comparisons are unavailable during replays
+   */
+  public async getImageGrayscale(url: string): Promise<number[]> {
+    throw new Error(`Image load failed: images are not archived (${url})`);
+  }
+
+  public getBrowserStats(): BrowserStats {
+    return {
+      isInitialized: this.initialized,
+      requestCount: this.requestCount,
+      lastRequestTime: this.lastRequestTime,
+    };
+  }
+
+  public async close(): Promise<void> {
+    this.initialized = false;
+  }
+
+  public async restart(): Promise<void> {
+    await this.close();
+    await this.initialize();
+  }
+}
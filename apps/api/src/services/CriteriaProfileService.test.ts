@@ -0,0 +1,60 @@
+/**
+ * CriteriaProfileService Unit Tests
+ */
+
+import { CriteriaProfileService, LEGACY_PROFILE_ID } from './CriteriaProfileService';
+
+describe('CriteriaProfileService', () => {
+  const camper = {
+    budgetEur: { min: 1000, max: 20000 },
+    preferredFeatures: ['tailgate'],
+    useCase: 'camper conversion',
+    priorityFactors: ['passenger seats'],
+  };
+  const familyVan = {
+    budgetEur: { min: 5000, max: 25000 },
+    preferredFeatures: ['sliding door'],
+    useCase: 'family van',
+    priorityFactors: ['safety'],
+  };
+
+  it('should load named profiles in config order', () => {
+    const service = new CriteriaProfileService({
+      defaultProfile: 'family-van',
+      criteriaProfiles: {
+        camper: { ...camper, name: 'Camper conversion' },
+        'family-van': familyVan,
+      },
+    });
+
+    expect(service.getProfiles().map(profile => profile.id)).toEqual(['camper', 'family-van']);
+    expect(service.getProfile('camper')).toEqual({ ...camper, id: 'camper', name: 'Camper conversion' });
+    expect(service.getProfile('family-van').name).toBe('family-van');
+    expect(service.getProfile().id).toBe('family-van');
+  });
+
+  it('should default to the first profile', () => {
+    const service = new CriteriaProfileService({ criteriaProfiles: { camper, 'family-van': familyVan } });
+
+    expect(service.getDefaultProfileId()).toBe('camper');
+  });
+
+  it('should load legacy userCriteria as the default profile', () => {
+    const service = new CriteriaProfileService({ userCriteria: camper });
+
+    expect(service.getProfiles()).toEqual([{ ...camper, id: LEGACY_PROFILE_ID, name: 'Default' }]);
+    expect(service.getDefaultProfileId()).toBe(LEGACY_PROFILE_ID);
+  });
+
+  it('should reject unknown profiles', () => {
+    const service = new CriteriaProfileService({ criteriaProfiles: { camper } });
+
+    expect(() => service.getProfile('sports-car')).toThrow('Unknown criteria profile: sports-car. Available: camper');
+  });
+
+  it('should reject configs without profiles or with a missing default', () => {
+    expect(() => new CriteriaProfileService({})).toThrow('No criteria profiles found');
+    expect(() => new CriteriaProfileService({ defaultProfile: 'family-van', criteriaProfiles: { camper } }))
+      .toThrow('Default criteria profile not found: family-van');
+  });
+});
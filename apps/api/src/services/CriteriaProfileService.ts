@@ -0,0 +1,90 @@
+/**
+ * CriteriaProfileService - Named buyer criteria profiles
+ *
+ * The same vehicle pool can be evaluated for several buyers (e.g. a camper conversion
+ * and a family van). Each profile under analysisSettings.criteriaProfiles in
+ * search-config.json gets its own personal fit score, stored in vehicle_fit_scores.
+ *
+ * A config with only the older single analysisSettings.userCriteria is still accepted
+ * and loaded as the 'default' profile, the ID existing scores were migrated to.
+ */
+
+import { CriteriaProfile } from '@car-finder/types';
+import { WorkspaceUtils } from '@car-finder/services';
+import * as fs from 'fs';
+
+export const LEGACY_PROFILE_ID = 'default';
+
+type ProfileCriteria = Omit<CriteriaProfile, 'id' | 'name'>;
+
+/**
+ * Profile-related part of analysisSettings in search-config.json
+ */
+export interface CriteriaProfileSettings {
+  defaultProfile?: string;
+  criteriaProfiles?: Record<string, ProfileCriteria & { name?: string }>;
+  userCriteria?: ProfileCriteria;
+}
+
+export class CriteriaProfileService {
+  private profiles: CriteriaProfile[];
+  private defaultProfileId: string;
+
+  constructor(settings: CriteriaProfileSettings = CriteriaProfileService.loadSettings()) {
+    if (settings.criteriaProfiles && Object.keys(settings.criteriaProfiles).length > 0) {
+      this.profiles = Object.entries(settings.criteriaProfiles).map(([id, profile]) => ({
+        ...profile,
+        id,
+        name: profile.name ?? id,
+      }));
+    } else if (settings.userCriteria) {
+      this.profiles = [{ ...settings.userCriteria, id: LEGACY_PROFILE_ID, name: 'Default' }];
+    } else {
+      throw new Error('No criteria profiles found in search-config.json');
+    }
+
+    this.defaultProfileId = settings.defaultProfile ?? this.profiles[0].id;
+    if (!this.profiles.some(profile => profile.id === this.defaultProfileId)) {
+      throw new Error(`Default criteria profile not found: ${this.defaultProfileId}`);
+    }
+  }
+
+  /**
+   * Load analysisSettings from search-config.json
+   */
+  static loadSettings(): CriteriaProfileSettings {
+    const configPath = WorkspaceUtils.resolveConfigFile('search-config.json');
+    const config = JSON.parse(fs.readFileSync(configPath, 'utf-8'));
+
+    if (!config.analysisSettings) {
+      throw new Error('analysisSettings not found in search-config.json');
+    }
+
+    return config.analysisSettings;
+  }
+
+  /**
+   * All profiles, in config order
+   */
+  getProfiles(): CriteriaProfile[] {
+    return this.profiles;
+  }
+
+  getDefaultProfileId(): string {
+    return this.defaultProfileId;
+  }
+
+  /**
+   * Get a profile by ID, or the default profile when no ID is given
+   */
+  getProfile(id: string = this.defaultProfileId): CriteriaProfile {
+    const profile = this.profiles.find(candidate => candidate.id === id);
+    if (!profile) {
+      throw new Error(
+        `Unknown criteria profile: ${id}. Available: ${this.profiles.map(candidate => candidate.id).join(', ')}`
+      );
+    }
+
+    return profile;
+  }
+}
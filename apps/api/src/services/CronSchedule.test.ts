@@ -0,0 +1,62 @@
+/**
+ * CronSchedule Unit Tests
+ *
+ * Dates are built from local time components, as schedules run in server local time
+ */
+
+import { CronSchedule } from './CronSchedule';
+
+describe('CronSchedule', () => {
+  describe('parsing', () => {
+    it.each([
+      ['0 6 * *', 'expected 5 fields, got 4'],
+      ['60 6 * * *', 'bad minute value "60"'],
+      ['0 6 0 * *', 'bad day of month value "0"'],
+      ['*/0 * * * *', 'bad minute value "0"'],
+      ['0 18-6 * * *', 'bad hour value "6"'],
+      ['0 six * * *', 'bad hour value "six"'],
+    ])('should reject "%s"', (expression, message) => {
+      expect(() => new CronSchedule(expression)).toThrow(message);
+    });
+
+    it('should match lists, ranges and steps', () => {
+      const schedule = new CronSchedule('*/15 8-18/5 * * 1-5');
+
+      expect(schedule.matches(new Date(2024, 2, 4, 13, 45))).toBe(true); // Monday
+      expect(schedule.matches(new Date(2024, 2, 4, 14, 45))).toBe(false);
+      expect(schedule.matches(new Date(2024, 2, 4, 13, 50))).toBe(false);
+      expect(schedule.matches(new Date(2024, 2, 3, 13, 45))).toBe(false); // Sunday
+    });
+
+    it('should treat day of week 7 as Sunday', () => {
+      expect(new CronSchedule('0 9 * * 7').matches(new Date(2024, 2, 3, 9, 0))).toBe(true);
+    });
+
+    it('should fire on either day when day of month and day of week are both restricted', () => {
+      const schedule = new CronSchedule('0 9 1 * 1');
+
+      expect(schedule.matches(new Date(2024, 2, 1, 9, 0))).toBe(true); // Friday the 1st
+      expect(schedule.matches(new Date(2024, 2, 4, 9, 0))).toBe(true); // Monday
+      expect(schedule.matches(new Date(2024, 2, 5, 9, 0))).toBe(false);
+    });
+  });
+
+  describe('nextAfter', () => {
+    it('should return the next matching minute, not the current one', () => {
+      const schedule = new CronSchedule('0 6,18 * * *');
+
+      expect(schedule.nextAfter(new Date(2024, 2, 1, 5, 59, 30))).toEqual(new Date(2024, 2, 1, 6, 0));
+      expect(schedule.nextAfter(new Date(2024, 2, 1, 6, 0))).toEqual(new Date(2024, 2, 1, 18, 0));
+      expect(schedule.nextAfter(new Date(2024, 2, 1, 18, 0))).toEqual(new Date(2024, 2, 2, 6, 0));
+    });
+
+    it('should roll over months and years', () => {
+      expect(new CronSchedule('30 2 29 2 *').nextAfter(new Date(2024, 2, 1))).toEqual(new Date(2028, 1, 29, 2, 30));
+      expect(new CronSchedule('0 0 1 1 *').nextAfter(new Date(2024, 5, 15))).toEqual(new Date(2025, 0, 1, 0, 0));
+    });
+
+    it('should fail for a schedule that never fires', () => {
+      expect(() => new CronSchedule('0 0 30 2 *').nextAfter(new Date(2024, 0, 1))).toThrow('has no run');
+    });
+  });
+});
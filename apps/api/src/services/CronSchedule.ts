@@ -0,0 +1,144 @@
+/**
+ * CronSchedule - Five-field cron expressions for the pipeline scheduler
+ *
+ * Supports `*`, single values, ranges (`1-5`), lists (`6,18`) and steps (`*\/15`, `8-20/4`)
+ * in the fields minute, hour, day of month, month and day of week (0 or 7 is Sunday).
+ * Times are evaluated in the server's local timezone. As in standard cron, when both day of
+ * month and day of week are restricted a day matching either one fires.
+ */
+
+interface CronField {
+  name: string;
+  min: number;
+  max: number;
+}
+
+const FIELDS: CronField[] = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12 },
+  { name: 'day of week', min: 0, max: 7 },
+];
+
+// Stop searching for the next run after this many years (e.g. "0 0 30 2 *" never fires)
+const MAX_LOOKAHEAD_YEARS = 5;
+
+export class CronSchedule {
+  private readonly minutes: Set<number>;
+  private readonly hours: Set<number>;
+  private readonly daysOfMonth: Set<number>;
+  private readonly months: Set<number>;
+  private readonly daysOfWeek: Set<number>;
+  private readonly dayOfMonthRestricted: boolean;
+  private readonly dayOfWeekRestricted: boolean;
+
+  constructor(readonly expression: string) {
+    const parts = expression.trim().split(/\s+/);
+    if (parts.length !== FIELDS.length) {
+      throw new Error(`Invalid cron expression "${expression}": expected 5 fields, got ${parts.length}`);
+    }
+
+    [this.minutes, this.hours, this.daysOfMonth, this.months, this.daysOfWeek] = parts.map((part, index) =>
+      this.parseField(part, FIELDS[index])
+    );
+
+    // Sunday can be written as 0 or 7
+    if (this.daysOfWeek.delete(7)) {
+      this.daysOfWeek.add(0);
+    }
+
+    this.dayOfMonthRestricted = parts[2] !== '*';
+    this.dayOfWeekRestricted = parts[4] !== '*';
+  }
+
+  /**
+   * Whether the schedule fires in the minute containing the given date
+   */
+  matches(date: Date): boolean {
+    return this.minutes.has(date.getMinutes())
+      && this.hours.has(date.getHours())
+      && this.months.has(date.getMonth() + 1)
+      && this.matchesDay(date);
+  }
+
+  /**
+   * First minute strictly after the given date at which the schedule fires
+   */
+  nextAfter(after: Date): Date {
+    const next = new Date(after);
+    next.setSeconds(0, 0);
+    next.setMinutes(next.getMinutes() + 1);
+
+    const limit = new Date(after);
+    limit.setFullYear(limit.getFullYear() + MAX_LOOKAHEAD_YEARS);
+
+    // Skip whole months, days and hours that cannot match before stepping minute by minute
+    while (next < limit) {
+      if (!this.months.has(next.getMonth() + 1)) {
+        next.setMonth(next.getMonth() + 1, 1);
+        next.setHours(0, 0, 0, 0);
+      } else if (!this.matchesDay(next)) {
+        next.setDate(next.getDate() + 1);
+        next.setHours(0, 0, 0, 0);
+      } else if (!this.hours.has(next.getHours())) {
+        next.setHours(next.getHours() + 1, 0, 0, 0);
+      } else if (!this.minutes.has(next.getMinutes())) {
+        next.setMinutes(next.getMinutes() + 1, 0, 0);
+      } else {
+        return next;
+      }
+    }
+
+    throw new Error(`Cron expression "${this.expression}" has no run in the next ${MAX_LOOKAHEAD_YEARS} years`);
+  }
+
+  private matchesDay(date: Date): boolean {
+    const dayOfMonth = this.daysOfMonth.has(date.getDate());
+    const dayOfWeek = this.daysOfWeek.has(date.getDay());
+
+    if (this.dayOfMonthRestricted && this.dayOfWeekRestricted) {
+      return dayOfMonth || dayOfWeek;
+    }
+
+    return dayOfMonth && dayOfWeek;
+  }
+
+  /**
+   * Expand one field (e.g. "1-5", "*\/10", "6,18") into the values it allows
+   */
+  private parseField(value: string, field: CronField): Set<number> {
+    const values = new Set<number>();
+
+    for (const part of value.split(',')) {
+      const [range, stepText] = part.split('/');
+      const step = stepText === undefined ? 1 : this.parseNumber(stepText, field, 1, field.max);
+
+      let start = field.min;
+      let end = field.max;
+      if (range !== '*') {
+        const [startText, endText] = range.split('-');
+        start = this.parseNumber(startText, field, field.min, field.max);
+        // "5/15" means every 15 starting at 5
+        end = endText !== undefined
+          ? this.parseNumber(endText, field, start, field.max)
+          : stepText !== undefined ? field.max : start;
+      }
+
+      for (let current = start; current <= end; current += step) {
+        values.add(current);
+      }
+    }
+
+    return values;
+  }
+
+  private parseNumber(text: string, field: CronField, min: number, max: number): number {
+    const number = /^\d+$/.test(text) ? parseInt(text, 10) : NaN;
+    if (isNaN(number) || number < min || number > max) {
+      throw new Error(`Invalid cron expression "${this.expression}": bad ${field.name} value "${text}"`);
+    }
+
+    return number;
+  }
+}
@@ -0,0 +1,107 @@
+/**
+ * CurrencyService Unit Tests
+ */
+
+import { MockVehicleRepository } from '@car-finder/services';
+import { CurrencyService } from './CurrencyService';
+import { ManualRateSource } from './ExchangeRateSources';
+
+describe('CurrencyService', () => {
+  let repository: MockVehicleRepository;
+  let service: CurrencyService;
+
+  beforeEach(async () => {
+    repository = new MockVehicleRepository();
+    service = new CurrencyService(repository, { plnToEurRate: 0.23 });
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+    await repository.saveExchangeRates([
+      { currency: 'EUR', date: '2024-03-01', ratePln: 4.3191, source: 'nbp' },
+      { currency: 'EUR', date: '2024-03-04', ratePln: 4.3061, source: 'nbp' },
+    ]);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('convertPlnToEur', () => {
+    it('should convert at the rate effective on the date', async () => {
+      expect(await service.convertPlnToEur(50000, new Date('2024-03-04T10:00:00Z'))).toBe(11611);
+      // No table on Saturday - Friday's rate applies
+      expect(await service.convertPlnToEur(50000, new Date('2024-03-02T10:00:00Z'))).toBe(11576);
+    });
+
+    it('should fall back to the flat rate before the first stored rate', async () => {
+      expect(await service.convertPlnToEur(50000, new Date('2023-12-31T10:00:00Z'))).toBe(11500);
+      expect(console.warn).toHaveBeenCalledTimes(1);
+    });
+
+    it('should prefer a manual rate and pick up rates imported later', async () => {
+      const date = new Date('2024-03-04T10:00:00Z');
+      expect(await service.convertPlnToEur(42500, date)).toBe(9870);
+
+      await service.importRates(new ManualRateSource({ '2024-03-04': 4.25 }), '2024-03-04', '2024-03-04');
+
+      expect(await service.convertPlnToEur(42500, date)).toBe(10000);
+    });
+  });
+
+  describe('refreshRates', () => {
+    it('should fetch from the day after the latest stored rate', async () => {
+      const source = { name: 'nbp', fetchRates: jest.fn().mockResolvedValue([]) };
+
+      await service.refreshRates(source, new Date('2024-03-10T12:00:00Z'));
+
+      expect(source.fetchRates).toHaveBeenCalledWith('EUR', '2024-03-05', '2024-03-10');
+    });
+
+    it('should skip the fetch when rates are up to date', async () => {
+      const source = { name: 'nbp', fetchRates: jest.fn() };
+
+      expect(await service.refreshRates(source, new Date('2024-03-04T12:00:00Z'))).toBe(0);
+      expect(source.fetchRates).not.toHaveBeenCalled();
+    });
+
+    it('should wrap source errors', async () => {
+      const source = { name: 'nbp', fetchRates: jest.fn().mockRejectedValue(new Error('Network down')) };
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+
+      await expect(service.refreshRates(source, new Date('2024-03-10T12:00:00Z')))
+        .rejects.toThrow('Exchange rate import failed: Network down');
+    });
+  });
+
+  describe('redenominateVehicles', () => {
+    beforeEach(async () => {
+      await repository.insertVehicle(MockVehicleRepository.createTestVehicle({
+        id: 'flat-rate',
+        sourceUrl: 'https://otomoto.pl/flat-rate',
+        pricePln: 50000,
+        priceEur: 11500,
+        sourceCreatedAt: new Date('2024-03-04T08:00:00Z'),
+      }));
+      await repository.insertVehicle(MockVehicleRepository.createTestVehicle({
+        id: 'up-to-date',
+        sourceUrl: 'https://otomoto.pl/up-to-date',
+        pricePln: 50000,
+        priceEur: 11576,
+        sourceCreatedAt: new Date('2024-03-01T08:00:00Z'),
+      }));
+    });
+
+    it('should update vehicles whose EUR price changed', async () => {
+      expect(await service.redenominateVehicles()).toEqual({ checked: 2, updated: 1 });
+
+      expect((await repository.findVehicleById('flat-rate'))!.priceEur).toBe(11611);
+      expect((await repository.findVehicleById('up-to-date'))!.priceEur).toBe(11576);
+    });
+
+    it('should leave prices untouched on a dry run', async () => {
+      expect(await service.redenominateVehicles(true)).toEqual({ checked: 2, updated: 1 });
+
+      expect((await repository.findVehicleById('flat-rate'))!.priceEur).toBe(11500);
+    });
+  });
+});
@@ -0,0 +1,171 @@
+/**
+ * CurrencyService - PLN to EUR conversion at historical rates
+ *
+ * Listings are priced in PLN; the EUR price shown and compared everywhere is converted at
+ * the NBP mid rate effective on the day the ad was created (sourceCreatedAt), so a listing's
+ * EUR price does not drift with today's rate. Rates live in exchange_rates and come from an
+ * ExchangeRateSource (NBP file or API, manual overrides). When no rate is stored for a date
+ * yet, currencyConversion.plnToEurRate from search-config.json is used instead.
+ *
+ * After importing or correcting rates, `pnpm currency --redenominate` recomputes priceEur of
+ * stored vehicles.
+ */
+
+import * as fs from 'fs';
+import { Vehicle } from '@car-finder/types';
+import { IVehicleRepository, WorkspaceUtils } from '@car-finder/services';
+import { ExchangeRateSource, toDateString } from './ExchangeRateSources';
+
+// Flat rate for parsers, which price listings before CurrencyService applies the dated rate
+export const DEFAULT_PLN_TO_EUR_RATE = 0.23;
+// History fetched on the first automatic refresh, when no rates are stored yet
+const DEFAULT_HISTORY_DAYS = 365;
+const CURRENCY = 'EUR';
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * currencyConversion section of search-config.json
+ */
+export interface CurrencySettings {
+  plnToEurRate: number; // Fallback EUR per PLN for dates without a stored rate
+  lastUpdated?: string;
+  nbpApiUrl?: string;
+  autoFetchRates?: boolean; // Fetch missing NBP rates before each ingest
+}
+
+export interface RedenominationResult {
+  checked: number;
+  updated: number;
+}
+
+export class CurrencyService {
+  private vehicleRepository: IVehicleRepository;
+  private settings: CurrencySettings;
+  // PLN per EUR by date (null: no stored rate on or before the date)
+  private rateCache = new Map<string, number | null>();
+  private fallbackWarned = false;
+
+  constructor(
+    vehicleRepository: IVehicleRepository,
+    settings: CurrencySettings = CurrencyService.loadSettings()
+  ) {
+    this.vehicleRepository = vehicleRepository;
+    this.settings = settings;
+  }
+
+  /**
+   * Load currencyConversion from search-config.json
+   */
+  static loadSettings(): CurrencySettings {
+    const configPath = WorkspaceUtils.resolveConfigFile('search-config.json');
+    const config = JSON.parse(fs.readFileSync(configPath, 'utf-8'));
+
+    return config.currencyConversion ?? { plnToEurRate: DEFAULT_PLN_TO_EUR_RATE };
+  }
+
+  getSettings(): CurrencySettings {
+    return this.settings;
+  }
+
+  /**
+   * Fetch EUR rates from a source and store them
+   * @param from - YYYY-MM-DD, inclusive
+   * @param to - YYYY-MM-DD, inclusive
+   * @returns Number of rates stored
+   */
+  async importRates(source: ExchangeRateSource, from: string, to: string): Promise<number> {
+    try {
+      const rates = await source.fetchRates(CURRENCY, from, to);
+      const stored = await this.vehicleRepository.saveExchangeRates(rates);
+      this.rateCache.clear();
+
+      console.log(`💱 Imported ${stored} ${CURRENCY} rates from ${source.name} (${from} to ${to})`);
+      return stored;
+    } catch (error) {
+      console.error('❌ Failed to import exchange rates:', error);
+      throw new Error(`Exchange rate import failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Fetch the rates published since the latest stored one (or the last year when none is stored)
+   * @returns Number of rates stored
+   */
+  async refreshRates(source: ExchangeRateSource, today: Date = new Date()): Promise<number> {
+    const to = toDateString(today);
+    const latest = await this.vehicleRepository.getExchangeRate(CURRENCY, to);
+    const from = latest
+      ? toDateString(new Date(new Date(`${latest.date}T00:00:00Z`).getTime() + MS_PER_DAY))
+      : toDateString(new Date(today.getTime() - DEFAULT_HISTORY_DAYS * MS_PER_DAY));
+
+    if (from > to) {
+      console.log(`✅ ${CURRENCY} rates are up to date (${latest!.date})`);
+      return 0;
+    }
+
+    return this.importRates(source, from, to);
+  }
+
+  /**
+   * PLN per EUR effective on a date, or null when no rate is stored on or before it
+   */
+  async getRate(date: Date): Promise<number | null> {
+    const day = toDateString(date);
+    if (!this.rateCache.has(day)) {
+      const rate = await this.vehicleRepository.getExchangeRate(CURRENCY, day);
+      this.rateCache.set(day, rate ? rate.ratePln : null);
+    }
+
+    return this.rateCache.get(day)!;
+  }
+
+  /**
+   * Convert a PLN price at the rate effective on a date, rounded to whole euros
+   * Falls back to the configured flat rate when no dated rate is stored
+   */
+  async convertPlnToEur(pricePln: number, date: Date): Promise<number> {
+    const ratePln = await this.getRate(date);
+    if (ratePln !== null) {
+      return Math.round(pricePln / ratePln);
+    }
+
+    if (!this.fallbackWarned) {
+      console.warn(`⚠️  No ${CURRENCY} rate stored for ${toDateString(date)}, using flat rate ${this.settings.plnToEurRate}. Import rates with \`pnpm currency\`.`);
+      this.fallbackWarned = true;
+    }
+    return Math.round(pricePln * this.settings.plnToEurRate);
+  }
+
+  /**
+   * Price a vehicle in EUR at the rate effective when its ad was created
+   */
+  async denominate(vehicle: Vehicle): Promise<Vehicle> {
+    return { ...vehicle, priceEur: await this.convertPlnToEur(vehicle.pricePln, vehicle.sourceCreatedAt) };
+  }
+
+  /**
+   * Recompute priceEur of all stored vehicles after rates changed
+   * @param dryRun - Only count the vehicles whose price would change
+   */
+  async redenominateVehicles(dryRun: boolean = false): Promise<RedenominationResult> {
+    try {
+      const vehicles = await this.vehicleRepository.getAllVehicles();
+      let updated = 0;
+
+      for (const vehicle of vehicles) {
+        const { priceEur } = await this.denominate(vehicle);
+        if (priceEur === vehicle.priceEur) continue;
+
+        if (!dryRun) {
+          await this.vehicleRepository.updateVehicle(vehicle.id, { priceEur });
+        }
+        updated++;
+      }
+
+      return { checked: vehicles.length, updated };
+    } catch (error) {
+      console.error('❌ Failed to redenominate vehicles:', error);
+      throw new Error(`Vehicle redenomination failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+}
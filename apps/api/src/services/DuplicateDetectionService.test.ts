@@ -0,0 +1,207 @@
+/**
+ * DuplicateDetectionService Unit Tests
+ */
+
+import {
+  DuplicateDetectionService,
+  DEFAULT_DUPLICATE_OPTIONS,
+  computeDifferenceHash,
+  hammingDistance,
+} from './DuplicateDetectionService';
+import { VehicleAttributeNormalizer } from './VehicleAttributeNormalizer';
+import { MockScraperService, MockVehicleRepository } from '@car-finder/services';
+import { Vehicle } from '@car-finder/types';
+
+/**
+ * 9x8 grayscale image with a horizontal gradient, optionally inverted
+ */
+function gradientImage(inverted = false): number[] {
+  return Array.from({ length: 72 }, (_, index) => {
+    const value = (index % 9) * 30;
+    return inverted ? 255 - value : value;
+  });
+}
+
+describe('DuplicateDetectionService', () => {
+  let repository: MockVehicleRepository;
+  let scraper: MockScraperService;
+  let service: DuplicateDetectionService;
+  const normalizer = new VehicleAttributeNormalizer();
+
+  // Attributes (including the VIN) are normalized from the parameters as at ingest time
+  function createVehicle(id: string, overrides: Partial<Vehicle> = {}): Vehicle {
+    const vehicle = MockVehicleRepository.createTestVehicle({
+      id,
+      sourceUrl: `https://otomoto.pl/${id}`,
+      title: 'Fiat Ducato 2.3 MultiJet L2H2',
+      sourceDescriptionHtml: '<p>Zadbany</p>',
+      sourceParameters: {},
+      priceEur: 15000,
+      year: 2016,
+      mileage: 145000,
+      sellerInfo: { name: null, id: null, type: 'private', location: null, memberSince: null },
+      createdAt: new Date('2024-01-01T00:00:00Z'),
+      ...overrides,
+    });
+    return { ...vehicle, attributes: normalizer.normalize(vehicle) };
+  }
+
+  beforeEach(() => {
+    repository = new MockVehicleRepository();
+    scraper = new MockScraperService();
+    service = new DuplicateDetectionService(repository, DEFAULT_DUPLICATE_OPTIONS, scraper);
+  });
+
+  describe('photo hashing helpers', () => {
+    it('should hash a 9x8 image to 64 bits', () => {
+      expect(computeDifferenceHash(gradientImage())).toBe('ffffffffffffffff');
+      expect(computeDifferenceHash(gradientImage(true))).toBe('0000000000000000');
+    });
+
+    it('should reject images of the wrong size', () => {
+      expect(() => computeDifferenceHash([1, 2, 3])).toThrow('Expected 72 pixels');
+    });
+
+    it('should count differing bits', () => {
+      expect(hammingDistance('ffffffffffffffff', 'ffffffffffffffff')).toBe(0);
+      expect(hammingDistance('ffffffffffffffff', 'fffffffffffffff0')).toBe(4);
+      expect(hammingDistance('0000000000000000', 'ffffffffffffffff')).toBe(64);
+    });
+  });
+
+  describe('scorePair', () => {
+    it('should treat equal VINs as a definite duplicate', () => {
+      const otomoto = createVehicle('a', { sourceParameters: { 'VIN': 'ZFA25000002345678' }, year: 2010 });
+      const olx = createVehicle('b', { source: 'olx', sourceDescriptionHtml: 'VIN ZFA25000002345678' });
+
+      expect(service.scorePair(otomoto, olx)).toEqual({ score: 1, reasons: ['vin'] });
+    });
+
+    it('should never match different VINs', () => {
+      const a = createVehicle('a', { sourceParameters: { 'VIN': 'ZFA25000002345678' } });
+      const b = createVehicle('b', { sourceParameters: { 'VIN': 'ZFA25000002345679' } });
+
+      expect(service.scorePair(a, b)).toBeNull();
+    });
+
+    it('should skip pairs too many years apart', () => {
+      expect(service.scorePair(createVehicle('a'), createVehicle('b', { year: 2019 }))).toBeNull();
+    });
+
+    it('should score a cross-source listing of the same vehicle above the threshold', () => {
+      const otomoto = createVehicle('a');
+      const olx = createVehicle('b', {
+        source: 'olx',
+        title: 'Fiat Ducato 2.3 Multijet, L2H2 - zadbany',
+        priceEur: 15200,
+        mileage: 145500,
+      });
+
+      const match = service.scorePair(otomoto, olx, ['ffffffffffffffff'], ['fffffffffffffff7']);
+
+      expect(match!.score).toBeGreaterThanOrEqual(DEFAULT_DUPLICATE_OPTIONS.threshold);
+      expect(match!.reasons).toEqual(expect.arrayContaining(['year', 'mileage', 'price', 'photos']));
+    });
+
+    it('should keep similar vehicles with different photos below the threshold', () => {
+      const a = createVehicle('a');
+      const b = createVehicle('b', { source: 'olx', mileage: 152000, priceEur: 14000 });
+
+      const match = service.scorePair(a, b, ['ffffffffffffffff'], ['0000000000000000']);
+
+      expect(match!.score).toBeLessThan(DEFAULT_DUPLICATE_OPTIONS.threshold);
+      expect(match!.reasons).not.toContain('photos');
+    });
+
+    it('should only compare seller IDs within one source', () => {
+      const seller = { name: null, id: 'seller-1', type: 'company' as const, location: null, memberSince: null };
+      const a = createVehicle('a', { sellerInfo: seller });
+
+      expect(service.scorePair(a, createVehicle('b', { sellerInfo: seller }))!.reasons).toContain('seller');
+      expect(service.scorePair(a, createVehicle('c', { source: 'olx', sellerInfo: seller }))!.reasons)
+        .not.toContain('seller');
+    });
+  });
+
+  describe('detectDuplicates', () => {
+    beforeEach(async () => {
+      await repository.insertVehicle(createVehicle('otomoto-1', { createdAt: new Date('2024-01-01T00:00:00Z') }));
+      await repository.insertVehicle(createVehicle('olx-1', {
+        source: 'olx',
+        sourceUrl: 'https://olx.pl/olx-1',
+        createdAt: new Date('2024-01-05T00:00:00Z'),
+      }));
+      await repository.insertVehicle(createVehicle('other', {
+        title: 'Renault Trafic 2.0 dCi',
+        year: 2012,
+        mileage: 230000,
+        priceEur: 9000,
+      }));
+    });
+
+    it('should store clusters with the earliest listing as primary', async () => {
+      const summary = await service.detectDuplicates();
+
+      expect(summary).toEqual({ vehicles: 3, pairsCompared: 1, clusters: 1, duplicates: 1 });
+
+      const [cluster] = await repository.getDuplicateClusters();
+      expect(cluster.clusterId).toBe('otomoto-1');
+      expect(cluster.listings[0]).toMatchObject({ vehicleId: 'otomoto-1', isPrimary: true, matchScore: 1 });
+      expect(cluster.listings[1]).toMatchObject({ vehicleId: 'olx-1', source: 'olx', isPrimary: false });
+      expect(cluster.listings[1].matchScore).toBeGreaterThanOrEqual(DEFAULT_DUPLICATE_OPTIONS.threshold);
+    });
+
+    it('should merge clusters transitively', async () => {
+      await repository.insertVehicle(createVehicle('otomoto-repost', {
+        sourceUrl: 'https://otomoto.pl/otomoto-repost',
+        createdAt: new Date('2024-02-01T00:00:00Z'),
+      }));
+
+      await service.detectDuplicates();
+
+      const [cluster] = await repository.getDuplicateClusters();
+      expect(cluster.listings.map(listing => listing.vehicleId).sort())
+        .toEqual(['olx-1', 'otomoto-1', 'otomoto-repost']);
+    });
+
+    it('should ignore deleted vehicles', async () => {
+      await repository.updateVehicle('olx-1', { status: 'deleted' });
+
+      expect((await service.detectDuplicates()).clusters).toBe(0);
+    });
+  });
+
+  describe('hashVehiclePhotos', () => {
+    beforeEach(async () => {
+      await scraper.initialize();
+      scraper.setMockImage('https://example.com/1.jpg', gradientImage());
+      scraper.setMockImage('https://example.com/2.jpg', gradientImage(true));
+      scraper.setMockError('https://example.com/broken.jpg', new Error('Image load failed'));
+    });
+
+    it('should store hashes of the first photos', async () => {
+      await repository.insertVehicle(createVehicle('a', {
+        photos: ['https://example.com/1.jpg', 'https://example.com/2.jpg', 'https://example.com/broken.jpg', 'https://example.com/4.jpg'],
+      }));
+
+      const summary = await service.hashVehiclePhotos();
+
+      expect(summary).toMatchObject({ hashed: 1, failed: 0 });
+      expect(summary.errors).toEqual(['https://example.com/broken.jpg: Image load failed']);
+      expect((await repository.getPhotoHashes()).get('a')).toEqual(['ffffffffffffffff', '0000000000000000']);
+    });
+
+    it('should leave vehicles unhashed when no photo loads', async () => {
+      await repository.insertVehicle(createVehicle('a', { photos: ['https://example.com/broken.jpg'] }));
+
+      expect(await service.hashVehiclePhotos()).toMatchObject({ hashed: 0, failed: 1 });
+      expect(await repository.findVehiclesWithoutPhotoHashes()).toHaveLength(1);
+    });
+
+    it('should require a scraper service', async () => {
+      const withoutScraper = new DuplicateDetectionService(repository);
+
+      await expect(withoutScraper.hashVehiclePhotos()).rejects.toThrow('requires a scraper service');
+    });
+  });
+});
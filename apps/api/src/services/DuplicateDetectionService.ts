@@ -0,0 +1,385 @@
+/**
+ * DuplicateDetectionService - Finds listings of the same vehicle across sources
+ *
+ * Sellers often list one vehicle on both Otomoto and OLX, or repost it on the same site.
+ * Every pair of listings within the allowed year difference is scored on the signals
+ * below, and pairs above the threshold are merged into clusters (transitively):
+ * - VIN (normalized at ingest): equal VINs are always duplicates, different VINs never are
+ * - Seller ID: same marketplace account (only comparable within one source)
+ * - Year, mileage and price proximity
+ * - Title similarity (token overlap, ignoring diacritics)
+ * - Photo similarity via 64-bit difference hashes (dHash) of the first photos
+ *
+ * The earliest listing we scraped becomes the cluster's primary, so status and notes
+ * set on it stay on the card shown when duplicates are collapsed.
+ */
+
+import { Vehicle, DuplicateMatchReason, NewDuplicateClusterMember } from '@car-finder/types';
+import { IScraperService, IVehicleRepository } from '@car-finder/services';
+
+// dHash compares each pixel with its right neighbour: 9x8 pixels give 8x8 = 64 bits
+const HASH_WIDTH = 9;
+const HASH_HEIGHT = 8;
+
+type WeightedSignal = Exclude<DuplicateMatchReason, 'vin'>;
+
+export interface DuplicateDetectionOptions {
+  threshold: number; // Minimum pair score (0-1) to treat two listings as the same vehicle
+  maxYearDifference: number; // Pairs further apart are never compared
+  mileageTolerance: number; // Relative mileage difference at which the mileage signal drops to 0
+  priceTolerance: number; // Relative price difference at which the price signal drops to 0
+  maxPhotoDistance: number; // Hamming distance (of 64 bits) at which the photo signal drops to 0
+  photosPerVehicle: number; // Number of photos hashed per listing
+  weights: Record<WeightedSignal, number>;
+}
+
+export const DEFAULT_DUPLICATE_OPTIONS: DuplicateDetectionOptions = {
+  threshold: 0.8,
+  maxYearDifference: 1,
+  mileageTolerance: 0.05,
+  priceTolerance: 0.15,
+  maxPhotoDistance: 12,
+  photosPerVehicle: 3,
+  weights: {
+    seller: 2,
+    year: 1,
+    mileage: 2,
+    price: 1,
+    title: 1,
+    photos: 3,
+  },
+};
+
+// A signal counts as a match reason at or above this similarity
+const REASON_MIN_SIMILARITY = 0.8;
+
+export interface DuplicatePairScore {
+  score: number; // 0-1
+  reasons: DuplicateMatchReason[];
+}
+
+export interface DuplicateDetectionSummary {
+  vehicles: number;
+  pairsCompared: number;
+  clusters: number;
+  duplicates: number; // Non-primary listings hidden when collapsing
+}
+
+export interface PhotoHashSummary {
+  hashed: number;
+  failed: number;
+  errors: string[];
+}
+
+/**
+ * Compute a 64-bit difference hash from grayscale pixels (row-major, HASH_WIDTH x HASH_HEIGHT)
+ * @returns 16 hex characters
+ */
+export function computeDifferenceHash(pixels: number[]): string {
+  if (pixels.length !== HASH_WIDTH * HASH_HEIGHT) {
+    throw new Error(`Expected ${HASH_WIDTH * HASH_HEIGHT} pixels, got ${pixels.length}`);
+  }
+
+  let hash = '';
+  let nibble = 0;
+  let bits = 0;
+
+  for (let y = 0; y < HASH_HEIGHT; y++) {
+    for (let x = 0; x < HASH_WIDTH - 1; x++) {
+      const index = y * HASH_WIDTH + x;
+      nibble = (nibble << 1) | (pixels[index] < pixels[index + 1] ? 1 : 0);
+      bits++;
+
+      if (bits === 4) {
+        hash += nibble.toString(16);
+        nibble = 0;
+        bits = 0;
+      }
+    }
+  }
+
+  return hash;
+}
+
+/**
+ * Number of differing bits between two hex hashes of equal length
+ */
+export function hammingDistance(hashA: string, hashB: string): number {
+  if (hashA.length !== hashB.length) {
+    throw new Error(`Cannot compare hashes of different lengths (${hashA.length} and ${hashB.length})`);
+  }
+
+  let distance = 0;
+  for (let i = 0; i < hashA.length; i++) {
+    let diff = parseInt(hashA[i], 16) ^ parseInt(hashB[i], 16);
+    while (diff) {
+      distance += diff & 1;
+      diff >>= 1;
+    }
+  }
+
+  return distance;
+}
+
+/**
+ * DuplicateDetectionService - Scores listing pairs and stores duplicate clusters
+ */
+export class DuplicateDetectionService {
+  private vehicleRepository: IVehicleRepository;
+  private options: DuplicateDetectionOptions;
+  private scraperService?: IScraperService;
+
+  constructor(
+    vehicleRepository: IVehicleRepository,
+    options: DuplicateDetectionOptions = DEFAULT_DUPLICATE_OPTIONS,
+    scraperService?: IScraperService
+  ) {
+    this.vehicleRepository = vehicleRepository;
+    this.options = options;
+    this.scraperService = scraperService;
+  }
+
+  /**
+   * Score how likely two listings are the same vehicle
+   * The score is the weighted average of the signals available for both listings
+   * @returns null when the pair cannot be a duplicate (different VINs or years too far apart)
+   */
+  scorePair(
+    a: Vehicle,
+    b: Vehicle,
+    photoHashesA: string[] = [],
+    photoHashesB: string[] = []
+  ): DuplicatePairScore | null {
+    const vinA = a.attributes.vin;
+    const vinB = b.attributes.vin;
+    if (vinA && vinB) {
+      return vinA === vinB ? { score: 1, reasons: ['vin'] } : null;
+    }
+
+    const yearDifference = Math.abs(a.year - b.year);
+    if (yearDifference > this.options.maxYearDifference) {
+      return null;
+    }
+
+    const similarities: Partial<Record<WeightedSignal, number>> = {
+      year: 1 - yearDifference / (this.options.maxYearDifference + 1),
+      mileage: this.proximity(a.mileage, b.mileage, this.options.mileageTolerance),
+      price: this.proximity(a.priceEur, b.priceEur, this.options.priceTolerance),
+      title: this.titleSimilarity(a.title, b.title),
+    };
+
+    // Seller IDs are per marketplace account, so they only compare within one source
+    if (a.source === b.source && a.sellerInfo.id && b.sellerInfo.id) {
+      similarities.seller = a.sellerInfo.id === b.sellerInfo.id ? 1 : 0;
+    }
+
+    if (photoHashesA.length > 0 && photoHashesB.length > 0) {
+      similarities.photos = this.photoSimilarity(photoHashesA, photoHashesB);
+    }
+
+    let weightedSum = 0;
+    let totalWeight = 0;
+    const reasons: DuplicateMatchReason[] = [];
+
+    for (const [signal, similarity] of Object.entries(similarities) as [WeightedSignal, number][]) {
+      const weight = this.options.weights[signal];
+      weightedSum += weight * similarity;
+      totalWeight += weight;
+
+      if (similarity >= REASON_MIN_SIMILARITY) {
+        reasons.push(signal);
+      }
+    }
+
+    return {
+      score: totalWeight > 0 ? Math.round((weightedSum / totalWeight) * 1000) / 1000 : 0,
+      reasons,
+    };
+  }
+
+  /**
+   * Group listings into duplicate clusters
+   * Each member records the best-scoring pair that linked it into the cluster
+   */
+  findClusters(
+    vehicles: Vehicle[],
+    photoHashes: Map<string, string[]> = new Map()
+  ): { clusters: NewDuplicateClusterMember[][]; pairsCompared: number } {
+    const parent = new Map(vehicles.map(vehicle => [vehicle.id, vehicle.id]));
+    const bestMatch = new Map<string, DuplicatePairScore>();
+    let pairsCompared = 0;
+
+    const find = (id: string): string => {
+      let root = id;
+      while (parent.get(root) !== root) {
+        root = parent.get(root)!;
+      }
+      parent.set(id, root);
+      return root;
+    };
+
+    const recordMatch = (id: string, match: DuplicatePairScore) => {
+      const current = bestMatch.get(id);
+      if (!current || match.score > current.score) {
+        bestMatch.set(id, match);
+      }
+    };
+
+    // Sorted by year, so the inner loop stops once the year difference is too large
+    const sorted = [...vehicles].sort((a, b) => a.year - b.year);
+    for (let i = 0; i < sorted.length; i++) {
+      for (let j = i + 1; j < sorted.length; j++) {
+        if (sorted[j].year - sorted[i].year > this.options.maxYearDifference) break;
+
+        pairsCompared++;
+        const match = this.scorePair(
+          sorted[i],
+          sorted[j],
+          photoHashes.get(sorted[i].id),
+          photoHashes.get(sorted[j].id)
+        );
+
+        if (match && match.score >= this.options.threshold) {
+          parent.set(find(sorted[i].id), find(sorted[j].id));
+          recordMatch(sorted[i].id, match);
+          recordMatch(sorted[j].id, match);
+        }
+      }
+    }
+
+    const groups = new Map<string, Vehicle[]>();
+    for (const vehicle of vehicles) {
+      const root = find(vehicle.id);
+      groups.set(root, [...(groups.get(root) ?? []), vehicle]);
+    }
+
+    const clusters = Array.from(groups.values())
+      .filter(members => members.length > 1)
+      .map(members => {
+        const [primary] = [...members].sort((a, b) =>
+          a.createdAt.getTime() - b.createdAt.getTime() || a.id.localeCompare(b.id)
+        );
+
+        return members.map(member => member === primary
+          ? { vehicleId: member.id, isPrimary: true, matchScore: 1, matchReasons: [] }
+          : {
+              vehicleId: member.id,
+              isPrimary: false,
+              matchScore: bestMatch.get(member.id)!.score,
+              matchReasons: bestMatch.get(member.id)!.reasons,
+            }
+        );
+      });
+
+    return { clusters, pairsCompared };
+  }
+
+  /**
+   * Re-detect duplicates across all listed vehicles and replace the stored clusters
+   */
+  async detectDuplicates(): Promise<DuplicateDetectionSummary> {
+    try {
+      const vehicles = (await this.vehicleRepository.getAllVehicles())
+        .filter(vehicle => vehicle.status !== 'deleted');
+      const photoHashes = await this.vehicleRepository.getPhotoHashes();
+
+      console.log(`🔎 Comparing ${vehicles.length} listing(s) (${photoHashes.size} with photo hashes)`);
+
+      const { clusters, pairsCompared } = this.findClusters(vehicles, photoHashes);
+      await this.vehicleRepository.replaceDuplicateClusters(clusters);
+
+      return {
+        vehicles: vehicles.length,
+        pairsCompared,
+        clusters: clusters.length,
+        duplicates: clusters.reduce((sum, members) => sum + members.length - 1, 0),
+      };
+    } catch (error) {
+      console.error('❌ Failed to detect duplicates:', error);
+      throw new Error(`Duplicate detection failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Hash the first photos of every vehicle not hashed yet
+   * Vehicles whose photos all fail to load are left unhashed and retried on the next run
+   */
+  async hashVehiclePhotos(limit?: number): Promise<PhotoHashSummary> {
+    if (!this.scraperService) {
+      throw new Error('Photo hashing requires a scraper service');
+    }
+
+    const vehicles = await this.vehicleRepository.findVehiclesWithoutPhotoHashes(limit);
+    const summary: PhotoHashSummary = { hashed: 0, failed: 0, errors: [] };
+
+    console.log(`🖼️  Hashing photos of ${vehicles.length} vehicle(s)`);
+
+    for (const vehicle of vehicles) {
+      const hashes: string[] = [];
+      const photoUrls = vehicle.photos.slice(0, this.options.photosPerVehicle);
+
+      for (const url of photoUrls) {
+        try {
+          const pixels = await this.scraperService.getImageGrayscale(url, HASH_WIDTH, HASH_HEIGHT);
+          hashes.push(computeDifferenceHash(pixels));
+        } catch (error) {
+          summary.errors.push(`${url}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+      }
+
+      if (hashes.length === 0 && photoUrls.length > 0) {
+        summary.failed++;
+        continue;
+      }
+
+      await this.vehicleRepository.updateVehiclePhotoHashes(vehicle.id, hashes);
+      summary.hashed++;
+    }
+
+    return summary;
+  }
+
+  /**
+   * Similarity of two positive numbers: 1 when equal, 0 at the given relative difference
+   */
+  private proximity(valueA: number, valueB: number, tolerance: number): number {
+    const largest = Math.max(valueA, valueB);
+    if (largest <= 0) return valueA === valueB ? 1 : 0;
+
+    const relativeDifference = Math.abs(valueA - valueB) / largest;
+    return Math.max(0, 1 - relativeDifference / tolerance);
+  }
+
+  /**
+   * Dice coefficient over normalized title tokens (lowercase, no diacritics, no punctuation)
+   */
+  private titleSimilarity(titleA: string, titleB: string): number {
+    const tokenize = (title: string) => new Set(
+      title
+        .normalize('NFD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .replace(/ł/gi, 'l')
+        .toLowerCase()
+        .split(/[^a-z0-9.]+/)
+        .filter(token => token !== '')
+    );
+
+    const tokensA = tokenize(titleA);
+    const tokensB = tokenize(titleB);
+    if (tokensA.size === 0 || tokensB.size === 0) return 0;
+
+    const shared = [...tokensA].filter(token => tokensB.has(token)).length;
+    return (2 * shared) / (tokensA.size + tokensB.size);
+  }
+
+  /**
+   * Similarity of the closest photo pair: 1 for identical hashes, 0 at maxPhotoDistance
+   */
+  private photoSimilarity(hashesA: string[], hashesB: string[]): number {
+    const closest = Math.min(
+      ...hashesA.flatMap(hashA => hashesB.map(hashB => hammingDistance(hashA, hashB)))
+    );
+
+    return Math.max(0, 1 - closest / this.options.maxPhotoDistance);
+  }
+}
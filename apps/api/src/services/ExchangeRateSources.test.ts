@@ -0,0 +1,149 @@
+/**
+ * ExchangeRateSources Unit Tests
+ */
+
+import * as fs from 'fs';
+import * as http from 'http';
+import * as os from 'os';
+import * as path from 'path';
+import { AddressInfo } from 'net';
+import { ManualRateSource, NbpApiSource, NbpTableFileSource } from './ExchangeRateSources';
+
+describe('ExchangeRateSources', () => {
+  describe('NbpTableFileSource', () => {
+    let tempDir: string;
+
+    beforeEach(() => {
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'exchange-rates-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    function writeFile(name: string, content: string): string {
+      const filePath = path.join(tempDir, name);
+      fs.writeFileSync(filePath, content);
+      return filePath;
+    }
+
+    it('should read EUR rates from NBP tables JSON', async () => {
+      const filePath = writeFile('tables.json', JSON.stringify([
+        { table: 'A', no: '043/A/NBP/2024', effectiveDate: '2024-03-01', rates: [
+          { currency: 'dolar amerykański', code: 'USD', mid: 3.9866 },
+          { currency: 'euro', code: 'EUR', mid: 4.3191 },
+        ] },
+        { table: 'A', no: '044/A/NBP/2024', effectiveDate: '2024-03-04', rates: [
+          { currency: 'euro', code: 'EUR', mid: 4.3061 },
+        ] },
+      ]));
+
+      const rates = await new NbpTableFileSource(filePath).fetchRates('EUR', '2024-03-01', '2024-03-31');
+
+      expect(rates).toEqual([
+        { currency: 'EUR', date: '2024-03-01', ratePln: 4.3191, source: 'nbp' },
+        { currency: 'EUR', date: '2024-03-04', ratePln: 4.3061, source: 'nbp' },
+      ]);
+    });
+
+    it('should read a single-currency series and filter it by date', async () => {
+      const filePath = writeFile('eur.json', JSON.stringify({
+        table: 'A',
+        currency: 'euro',
+        code: 'EUR',
+        rates: [
+          { no: '043/A/NBP/2024', effectiveDate: '2024-03-01', mid: 4.3191 },
+          { no: '044/A/NBP/2024', effectiveDate: '2024-03-04', mid: 4.3061 },
+        ],
+      }));
+
+      const rates = await new NbpTableFileSource(filePath).fetchRates('eur', '2024-03-02', '2024-03-31');
+
+      expect(rates.map(rate => rate.date)).toEqual(['2024-03-04']);
+    });
+
+    it('should read the CSV archive with comma decimals and skip footer rows', async () => {
+      const filePath = writeFile('archiwum_tab_a_2024.csv', [
+        'data;1USD;1EUR;100HUF;nr tabeli;pełny numer tabeli',
+        '20240301;3,9866;4,3191;1,0957;43;043/A/NBP/2024',
+        '20240304;3,9685;4,3061;1,0878;44;044/A/NBP/2024',
+        '',
+        'kod ISO;USD;EUR;HUF;;',
+        'nazwa waluty;dolar amerykański;euro;forint (Węgry);;',
+      ].join('\r\n'));
+      const source = new NbpTableFileSource(filePath);
+
+      expect(await source.fetchRates('EUR', '2024-01-01', '2024-12-31')).toEqual([
+        { currency: 'EUR', date: '2024-03-01', ratePln: 4.3191, source: 'nbp' },
+        { currency: 'EUR', date: '2024-03-04', ratePln: 4.3061, source: 'nbp' },
+      ]);
+      // Rates quoted per 100 units are scaled to one unit
+      expect((await source.fetchRates('HUF', '2024-03-01', '2024-03-01'))[0].ratePln).toBeCloseTo(0.010957);
+    });
+
+    it('should throw for a missing file', async () => {
+      await expect(new NbpTableFileSource(path.join(tempDir, 'missing.json')).fetchRates('EUR', '2024-01-01', '2024-12-31'))
+        .rejects.toThrow('Rate table file not found');
+    });
+  });
+
+  describe('NbpApiSource', () => {
+    let server: http.Server;
+    let baseUrl: string;
+    let requests: string[];
+
+    beforeAll(async () => {
+      // Local stand-in for api.nbp.pl: one rate per requested range, 404 for ranges in 2023
+      server = http.createServer((req, res) => {
+        requests.push(req.url!);
+        const match = req.url!.match(/^\/api\/exchangerates\/rates\/A\/(\w+)\/([\d-]+)\/([\d-]+)\/\?format=json$/);
+        if (!match || match[2].startsWith('2023')) {
+          res.writeHead(404).end('404 NotFound - Not Found - Brak danych');
+          return;
+        }
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ table: 'A', code: match[1], rates: [{ no: '1/A/NBP', effectiveDate: match[2], mid: 4.3 }] }));
+      });
+      await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+      baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/`;
+    });
+
+    afterAll(async () => {
+      await new Promise(resolve => server.close(resolve));
+    });
+
+    beforeEach(() => {
+      requests = [];
+    });
+
+    it('should fetch mid rates for a range', async () => {
+      const rates = await new NbpApiSource(baseUrl).fetchRates('eur', '2024-03-01', '2024-03-31');
+
+      expect(requests).toEqual(['/api/exchangerates/rates/A/EUR/2024-03-01/2024-03-31/?format=json']);
+      expect(rates).toEqual([{ currency: 'EUR', date: '2024-03-01', ratePln: 4.3, source: 'nbp' }]);
+    });
+
+    it('should split long ranges and skip ranges without tables', async () => {
+      const rates = await new NbpApiSource(baseUrl).fetchRates('EUR', '2023-06-01', '2024-12-31');
+
+      expect(requests).toHaveLength(2);
+      expect(requests[1]).toContain('/2024-06-02/2024-12-31/');
+      expect(rates.map(rate => rate.date)).toEqual(['2024-06-02']);
+    });
+  });
+
+  describe('ManualRateSource', () => {
+    it('should return manual rates within the range', async () => {
+      const source = new ManualRateSource({ '2024-03-04': 4.25, '2024-05-01': 4.3 });
+
+      expect(await source.fetchRates('EUR', '2024-03-01', '2024-03-31')).toEqual([
+        { currency: 'EUR', date: '2024-03-04', ratePln: 4.25, source: 'manual' },
+      ]);
+    });
+
+    it('should reject invalid rates', async () => {
+      await expect(new ManualRateSource({ '2024-03-04': 0 }).fetchRates('EUR', '2024-01-01', '2024-12-31'))
+        .rejects.toThrow('Invalid manual rate');
+    });
+  });
+});
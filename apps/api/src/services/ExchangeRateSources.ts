@@ -0,0 +1,176 @@
+/**
+ * Exchange rate sources for CurrencyService
+ *
+ * Rates are PLN per unit of a foreign currency, as published in NBP table A ("kurs średni").
+ * A source returns the rates it has for one currency and date range; CurrencyService stores
+ * them in exchange_rates. Sources:
+ * - NbpTableFileSource: a file downloaded from NBP (API JSON or the yearly CSV archive)
+ * - NbpApiSource: the NBP web API, or a local server serving the same paths in tests
+ * - ManualRateSource: rates set by hand, which win over NBP rates for the same day
+ */
+
+import * as fs from 'fs';
+import { ExchangeRate } from '@car-finder/types';
+
+export const DEFAULT_NBP_API_URL = 'https://api.nbp.pl';
+// The NBP API rejects ranges longer than 367 days
+const NBP_MAX_RANGE_DAYS = 367;
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+export interface ExchangeRateSource {
+  readonly name: string;
+
+  /**
+   * Rates for a currency between two dates (YYYY-MM-DD, inclusive)
+   */
+  fetchRates(currency: string, from: string, to: string): Promise<ExchangeRate[]>;
+}
+
+/**
+ * Format a date as YYYY-MM-DD (UTC)
+ */
+export function toDateString(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function isInRange(date: string, from: string, to: string): boolean {
+  return date >= from && date <= to;
+}
+
+/**
+ * Rates from a file downloaded from NBP. Accepted formats:
+ * - JSON from /api/exchangerates/tables/A/...: [{ effectiveDate, rates: [{ code, mid }] }]
+ * - JSON from /api/exchangerates/rates/A/{code}/...: { code, rates: [{ effectiveDate, mid }] }
+ * - CSV archive (archiwum_tab_a_YYYY.csv): "data;1USD;1EUR;..." header, "20240102;3,9432;4,3434;..." rows
+ */
+export class NbpTableFileSource implements ExchangeRateSource {
+  readonly name = 'nbp';
+
+  constructor(private filePath: string) {}
+
+  async fetchRates(currency: string, from: string, to: string): Promise<ExchangeRate[]> {
+    if (!fs.existsSync(this.filePath)) {
+      throw new Error(`Rate table file not found: ${this.filePath}`);
+    }
+
+    const content = fs.readFileSync(this.filePath, 'utf-8').replace(/^\uFEFF/, '');
+    const code = currency.toUpperCase();
+    const rates = content.trimStart().match(/^[[{]/)
+      ? this.parseJson(JSON.parse(content), code)
+      : this.parseCsv(content, code);
+
+    return rates.filter(rate => isInRange(rate.date, from, to));
+  }
+
+  private parseJson(data: any, code: string): ExchangeRate[] {
+    // Single-currency series
+    if (!Array.isArray(data)) {
+      if (data?.code?.toUpperCase() !== code || !Array.isArray(data.rates)) {
+        return [];
+      }
+      return data.rates.map((rate: any) => this.createRate(code, rate.effectiveDate, rate.mid));
+    }
+
+    // Daily tables with every currency
+    return data.flatMap((table: any) => {
+      const rate = table.rates?.find((candidate: any) => candidate.code?.toUpperCase() === code);
+      return rate ? [this.createRate(code, table.effectiveDate, rate.mid)] : [];
+    });
+  }
+
+  private parseCsv(content: string, code: string): ExchangeRate[] {
+    const [header, ...rows] = content.split(/\r?\n/).map(line => line.split(';'));
+    // Columns are "1EUR", "100HUF", ...: the number of units the rate is quoted for
+    const column = header.findIndex(cell => cell.trim().replace(/^\d+/, '').toUpperCase() === code);
+    if (column === -1) {
+      return [];
+    }
+    const units = parseInt(header[column], 10) || 1;
+
+    // Footer rows (table numbers, currency names) have no YYYYMMDD date
+    return rows
+      .filter(cells => /^\d{8}$/.test(cells[0]?.trim() ?? '') && cells[column]?.trim())
+      .map(cells => {
+        const day = cells[0].trim();
+        const date = `${day.slice(0, 4)}-${day.slice(4, 6)}-${day.slice(6, 8)}`;
+        return this.createRate(code, date, parseFloat(cells[column].replace(',', '.')) / units);
+      });
+  }
+
+  private createRate(currency: string, date: string, mid: number): ExchangeRate {
+    if (typeof date !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(date) || !(mid > 0)) {
+      throw new Error(`Invalid rate in ${this.filePath}: ${date} ${mid}`);
+    }
+    return { currency, date, ratePln: mid, source: this.name };
+  }
+}
+
+/**
+ * Rates from the NBP web API (table A mid rates)
+ * Long ranges are split into requests of at most 367 days
+ */
+export class NbpApiSource implements ExchangeRateSource {
+  readonly name = 'nbp';
+
+  constructor(private baseUrl: string = DEFAULT_NBP_API_URL) {}
+
+  async fetchRates(currency: string, from: string, to: string): Promise<ExchangeRate[]> {
+    const code = currency.toUpperCase();
+    const rates: ExchangeRate[] = [];
+
+    for (const [start, end] of this.splitRange(from, to)) {
+      const url = `${this.baseUrl.replace(/\/$/, '')}/api/exchangerates/rates/A/${code}/${start}/${end}/?format=json`;
+      const response = await fetch(url, { headers: { Accept: 'application/json' } });
+
+      // NBP answers 404 when no table was published in the range (e.g. a weekend)
+      if (response.status === 404) {
+        continue;
+      }
+      if (!response.ok) {
+        throw new Error(`NBP API request failed with status ${response.status}: ${url}`);
+      }
+
+      const data = await response.json() as { rates: { effectiveDate: string; mid: number }[] };
+      rates.push(...data.rates.map(rate => ({
+        currency: code,
+        date: rate.effectiveDate,
+        ratePln: rate.mid,
+        source: this.name,
+      })));
+    }
+
+    return rates;
+  }
+
+  private splitRange(from: string, to: string): [string, string][] {
+    const ranges: [string, string][] = [];
+    const end = new Date(`${to}T00:00:00Z`).getTime();
+
+    for (let start = new Date(`${from}T00:00:00Z`).getTime(); start <= end; start += NBP_MAX_RANGE_DAYS * MS_PER_DAY) {
+      const rangeEnd = Math.min(start + (NBP_MAX_RANGE_DAYS - 1) * MS_PER_DAY, end);
+      ranges.push([toDateString(new Date(start)), toDateString(new Date(rangeEnd))]);
+    }
+
+    return ranges;
+  }
+}
+
+/**
+ * Rates set by hand, keyed by date (PLN per unit of the currency)
+ */
+export class ManualRateSource implements ExchangeRateSource {
+  readonly name = 'manual';
+
+  constructor(private rates: Record<string, number>) {}
+
+  async fetchRates(currency: string, from: string, to: string): Promise<ExchangeRate[]> {
+    return Object.entries(this.rates)
+      .filter(([date]) => isInRange(date, from, to))
+      .map(([date, ratePln]) => {
+        if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || !(ratePln > 0)) {
+          throw new Error(`Invalid manual rate: ${date}=${ratePln}`);
+        }
+        return { currency: currency.toUpperCase(), date, ratePln, source: this.name };
+      });
+  }
+}
@@ -0,0 +1,53 @@
+/**
+ * InspectionChecklistBuilder Unit Tests
+ */
+
+import { InspectionChecklistBuilder } from './InspectionChecklistBuilder';
+
+const REPORT = `
+## Known Model Issues
+- ⚠️ **CRITICAL – Timing Chain:** Known failure on the N20 engine.
+---
+## Critical Inspection Points
+1. **Timing Chain Noise:** Listen for rattling from engine at cold start (**CRITICAL** – indicates imminent failure).  
+2. **Oil Leaks:** Inspect valve cover, oil filter housing, and oil pan for leaks (very common).  
+
+3. **Service Records:** Demand proof of timing chain replacement.
+---
+## Red Flags to Watch For
+- **No Service History:** Very concerning.
+`;
+
+describe('InspectionChecklistBuilder', () => {
+  const builder = new InspectionChecklistBuilder();
+
+  it('should turn the inspection points into checklist items', () => {
+    expect(builder.build(REPORT)).toEqual([
+      {
+        label: 'Timing Chain Noise: Listen for rattling from engine at cold start (CRITICAL – indicates imminent failure).',
+        critical: true,
+        source: 'mechanic_report',
+      },
+      {
+        label: 'Oil Leaks: Inspect valve cover, oil filter housing, and oil pan for leaks (very common).',
+        critical: false,
+        source: 'mechanic_report',
+      },
+      { label: 'Service Records: Demand proof of timing chain replacement.', critical: false, source: 'mechanic_report' },
+    ]);
+  });
+
+  it('should accept bullet lists and stop at the next heading', () => {
+    const report = '### Inspection Points\n- ⚠️ Frame rust at the rear axle\n* Clutch bite point\n## Overall Assessment\n- Fine';
+
+    expect(builder.build(report)).toEqual([
+      { label: 'Frame rust at the rear axle', critical: true, source: 'mechanic_report' },
+      { label: 'Clutch bite point', critical: false, source: 'mechanic_report' },
+    ]);
+  });
+
+  it('should return no items without a report or inspection section', () => {
+    expect(builder.build(null)).toEqual([]);
+    expect(builder.build('## Known Model Issues\n- Rust')).toEqual([]);
+  });
+});
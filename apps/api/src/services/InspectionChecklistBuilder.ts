@@ -0,0 +1,62 @@
+/**
+ * InspectionChecklistBuilder - Visit checklist from the AI mechanic report
+ *
+ * The mechanic report prompt asks for a "## Critical Inspection Points" section with one
+ * numbered or bulleted item per thing to check. Each item becomes a checklist entry with its
+ * markdown emphasis removed; items the report marks **CRITICAL** or ⚠️ are flagged critical.
+ */
+
+import { NewInspectionItem } from '@car-finder/types';
+
+const SECTION_HEADING = /^#{1,6}\s+.*inspection points/i;
+const SECTION_END = /^(#{1,6}\s|---)/;
+const LIST_ITEM = /^(?:\d+[.)]|[-*•])\s+(.+)$/;
+const CRITICAL_MARKER = /\bCRITICAL\b|⚠️/;
+
+export class InspectionChecklistBuilder {
+  /**
+   * Build checklist items from a mechanic report (empty when there is no report or no inspection section)
+   */
+  build(mechanicReport: string | null): NewInspectionItem[] {
+    if (!mechanicReport) {
+      return [];
+    }
+
+    const items: NewInspectionItem[] = [];
+    let inSection = false;
+
+    for (const rawLine of mechanicReport.split(/\r?\n/)) {
+      const line = rawLine.trim();
+      if (SECTION_HEADING.test(line)) {
+        inSection = true;
+        continue;
+      }
+      if (!inSection) {
+        continue;
+      }
+      if (SECTION_END.test(line)) {
+        break;
+      }
+
+      const match = line.match(LIST_ITEM);
+      if (!match) {
+        continue;
+      }
+
+      const label = this.stripMarkdown(match[1]);
+      if (label) {
+        items.push({ label, critical: CRITICAL_MARKER.test(match[1]), source: 'mechanic_report' });
+      }
+    }
+
+    return items;
+  }
+
+  private stripMarkdown(text: string): string {
+    return text
+      .replace(/⚠️/g, '')
+      .replace(/\*\*|__/g, '')
+      .replace(/\s+/g, ' ')
+      .trim();
+  }
+}
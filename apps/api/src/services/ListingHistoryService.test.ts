@@ -0,0 +1,114 @@
+/**
+ * ListingHistoryService Unit Tests
+ */
+
+import { ListingHistoryService, detectListingChanges, mergeListing, createSnapshot } from './ListingHistoryService';
+import { MockVehicleRepository } from '@car-finder/services';
+
+describe('ListingHistoryService', () => {
+  let repository: MockVehicleRepository;
+  let service: ListingHistoryService;
+
+  const existing = MockVehicleRepository.createTestVehicle({
+    id: 'vehicle-1',
+    pricePln: 50000,
+    priceEur: 11500,
+    scrapedAt: new Date('2024-01-01T00:00:00Z'),
+  });
+
+  beforeEach(async () => {
+    repository = new MockVehicleRepository();
+    service = new ListingHistoryService(repository);
+
+    await repository.insertVehicle(existing);
+    await service.recordInitialSnapshot(existing);
+  });
+
+  it('should record the initial snapshot with no changed fields', async () => {
+    const snapshots = await repository.getVehicleSnapshots('vehicle-1');
+
+    expect(snapshots).toHaveLength(1);
+    expect(snapshots[0]).toMatchObject({
+      pricePln: 50000,
+      photoCount: 1,
+      changedFields: [],
+      capturedAt: new Date('2024-01-01T00:00:00Z'),
+    });
+  });
+
+  it('should not record a snapshot when the listing is unchanged', async () => {
+    const rescraped = { ...existing, scrapedAt: new Date('2024-02-01T00:00:00Z') };
+
+    const changes = await service.trackRescrape(existing, rescraped);
+
+    expect(changes).toEqual([]);
+    expect(await repository.getVehicleSnapshots('vehicle-1')).toHaveLength(1);
+  });
+
+  it('should record a price drop and update the vehicle', async () => {
+    const rescraped = {
+      ...existing,
+      pricePln: 45000,
+      priceEur: 10350,
+      scrapedAt: new Date('2024-02-01T00:00:00Z'),
+    };
+
+    const changes = await service.trackRescrape(existing, rescraped);
+
+    expect(changes).toEqual(['price']);
+    const snapshots = await repository.getVehicleSnapshots('vehicle-1');
+    expect(snapshots.map(s => s.pricePln)).toEqual([50000, 45000]);
+    expect(snapshots[1].changedFields).toEqual(['price']);
+
+    const updated = await repository.findVehicleById('vehicle-1');
+    expect(updated).toMatchObject({ pricePln: 45000, priceEur: 10350 });
+  });
+
+  it('should detect mileage, title, description and photo changes', async () => {
+    const rescraped = {
+      ...existing,
+      mileage: 52000,
+      sourceTitle: 'Test Vehicle Title - REDUCED',
+      sourceDescriptionHtml: '<p>New timing belt</p>',
+      sourcePhotos: ['https://example.com/1.jpg', 'https://example.com/2.jpg'],
+      scrapedAt: new Date('2024-02-01T00:00:00Z'),
+    };
+
+    const changes = await service.trackRescrape(existing, rescraped);
+
+    expect(changes).toEqual(['mileage', 'title', 'description', 'photoCount']);
+  });
+
+  it('should ignore fields missing from a partial scrape', async () => {
+    // OLX search pages carry no description and sometimes no mileage
+    const partial = { ...existing, mileage: 0, sourceDescriptionHtml: '', sourcePhotos: [], photos: [] };
+
+    expect(await service.trackRescrape(existing, partial)).toEqual([]);
+  });
+
+  it('should compare against the stored listing when a vehicle has no history', async () => {
+    const other = MockVehicleRepository.createTestVehicle({ id: 'vehicle-2', sourceUrl: 'https://otomoto.pl/other' });
+    await repository.insertVehicle(other);
+
+    const changes = await service.trackRescrape(other, { ...other, pricePln: 40000 });
+
+    expect(changes).toEqual(['price']);
+    expect(await repository.getVehicleSnapshots('vehicle-2')).toHaveLength(1);
+  });
+
+  describe('helpers', () => {
+    it('should keep the stored EUR price when the PLN price is unchanged', () => {
+      const merged = mergeListing(existing, { ...existing, priceEur: 99999 });
+      expect(merged.priceEur).toBe(11500);
+    });
+
+    it('should ignore whitespace-only description differences', () => {
+      const previous = createSnapshot('vehicle-1', existing);
+      const current = createSnapshot('vehicle-1', {
+        ...existing,
+        sourceDescriptionHtml: `  ${existing.sourceDescriptionHtml}\n`,
+      });
+      expect(detectListingChanges(previous, current)).toEqual([]);
+    });
+  });
+});
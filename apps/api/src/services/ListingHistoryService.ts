@@ -0,0 +1,126 @@
+/**
+ * ListingHistoryService - Price and listing change tracking
+ *
+ * Records a snapshot of each listing's tracked fields (price, mileage, title,
+ * description hash, photo count) when it is first ingested, and compares every
+ * re-scrape against the latest snapshot. A new snapshot is appended and the
+ * vehicle's listing data refreshed only when something actually changed.
+ */
+
+import {
+  Vehicle,
+  VehicleChangeField,
+  VehicleListingUpdate,
+  NewVehicleSnapshot,
+} from '@car-finder/types';
+import { IVehicleRepository } from '@car-finder/services';
+import { hashDescription } from '@car-finder/db';
+
+/**
+ * Build the snapshot for a vehicle's current listing data
+ */
+export function createSnapshot(
+  vehicleId: string,
+  listing: VehicleListingUpdate,
+  changedFields: VehicleChangeField[] = []
+): NewVehicleSnapshot {
+  return {
+    vehicleId,
+    pricePln: listing.pricePln,
+    priceEur: listing.priceEur,
+    mileage: listing.mileage,
+    title: listing.sourceTitle.trim(),
+    descriptionHash: hashDescription(listing.sourceDescriptionHtml),
+    photoCount: listing.sourcePhotos.length,
+    changedFields,
+    capturedAt: listing.scrapedAt,
+  };
+}
+
+/**
+ * Compare two snapshots and list the tracked fields that differ
+ */
+export function detectListingChanges(
+  previous: NewVehicleSnapshot,
+  current: NewVehicleSnapshot
+): VehicleChangeField[] {
+  const changes: VehicleChangeField[] = [];
+
+  if (previous.pricePln !== current.pricePln) changes.push('price');
+  if (previous.mileage !== current.mileage) changes.push('mileage');
+  if (previous.title !== current.title) changes.push('title');
+  if (previous.descriptionHash !== current.descriptionHash) changes.push('description');
+  if (previous.photoCount !== current.photoCount) changes.push('photoCount');
+
+  return changes;
+}
+
+/**
+ * Merge re-scraped listing data over the stored vehicle
+ * Fields missing from the scrape (e.g. no description on OLX search pages) keep their
+ * stored value, so a partial scrape is never mistaken for an edit
+ */
+export function mergeListing(existing: Vehicle, scraped: Vehicle): VehicleListingUpdate {
+  const priceChanged = scraped.pricePln > 0 && scraped.pricePln !== existing.pricePln;
+
+  return {
+    pricePln: priceChanged ? scraped.pricePln : existing.pricePln,
+    priceEur: priceChanged ? scraped.priceEur : existing.priceEur,
+    mileage: scraped.mileage > 0 ? scraped.mileage : existing.mileage,
+    sourceTitle: scraped.sourceTitle.trim() ? scraped.sourceTitle : existing.sourceTitle,
+    sourceDescriptionHtml: scraped.sourceDescriptionHtml.trim()
+      ? scraped.sourceDescriptionHtml
+      : existing.sourceDescriptionHtml,
+    sourcePhotos: scraped.sourcePhotos.length > 0 ? scraped.sourcePhotos : existing.sourcePhotos,
+    photos: scraped.photos.length > 0 ? scraped.photos : existing.photos,
+    scrapedAt: scraped.scrapedAt,
+  };
+}
+
+/**
+ * ListingHistoryService - Records listing snapshots across ingestion runs
+ */
+export class ListingHistoryService {
+  private vehicleRepository: IVehicleRepository;
+
+  constructor(vehicleRepository: IVehicleRepository) {
+    this.vehicleRepository = vehicleRepository;
+  }
+
+  /**
+   * Record the first snapshot of a newly ingested vehicle
+   */
+  async recordInitialSnapshot(vehicle: Vehicle): Promise<void> {
+    await this.vehicleRepository.recordVehicleSnapshot(createSnapshot(vehicle.id, vehicle));
+  }
+
+  /**
+   * Compare a re-scraped listing with its latest snapshot
+   * Appends a snapshot and updates the vehicle when tracked fields changed
+   *
+   * @returns The changed fields (empty when the listing is unchanged)
+   */
+  async trackRescrape(existing: Vehicle, scraped: Vehicle): Promise<VehicleChangeField[]> {
+    try {
+      const snapshots = await this.vehicleRepository.getVehicleSnapshots(existing.id);
+
+      // Vehicles without history are compared against their stored listing data
+      const previous = snapshots.length > 0
+        ? snapshots[snapshots.length - 1]
+        : createSnapshot(existing.id, existing);
+
+      const listing = mergeListing(existing, scraped);
+      const current = createSnapshot(existing.id, listing);
+      const changedFields = detectListingChanges(previous, current);
+
+      if (changedFields.length > 0) {
+        await this.vehicleRepository.recordVehicleSnapshot({ ...current, changedFields }, listing);
+      }
+
+      return changedFields;
+    } catch (error) {
+      console.error('❌ Failed to track listing changes:', error);
+      throw new Error(`Listing change tracking failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+}
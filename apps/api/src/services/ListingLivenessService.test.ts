@@ -0,0 +1,100 @@
+/**
+ * ListingLivenessService Unit Tests
+ */
+
+import { ListingLivenessService } from './ListingLivenessService';
+import { MockScraperService, MockParserService, MockVehicleRepository } from '@car-finder/services';
+
+describe('ListingLivenessService', () => {
+  let scraper: MockScraperService;
+  let parser: MockParserService;
+  let repository: MockVehicleRepository;
+  let service: ListingLivenessService;
+
+  const now = new Date('2024-02-01T00:00:00Z');
+  const publishedAt = new Date('2024-01-01T00:00:00Z');
+
+  function createVehicle(id: string, lastSeenAt: Date) {
+    return MockVehicleRepository.createTestVehicle({
+      id,
+      sourceUrl: `https://otomoto.pl/${id}`,
+      title: `Vehicle ${id}`,
+      sourceCreatedAt: publishedAt,
+      lastSeenAt,
+    });
+  }
+
+  beforeEach(async () => {
+    scraper = new MockScraperService();
+    parser = new MockParserService();
+    repository = new MockVehicleRepository();
+    service = new ListingLivenessService(scraper, parser, repository);
+
+    await repository.insertVehicle(createVehicle('sold', publishedAt));
+    await repository.insertVehicle(createVehicle('removed', publishedAt));
+    await repository.insertVehicle(createVehicle('active', publishedAt));
+    await repository.insertVehicle(createVehicle('recent', new Date('2024-01-31T00:00:00Z')));
+
+    await scraper.initialize();
+    scraper.setMockDelay(0);
+    scraper.setMockResponse('https://otomoto.pl/sold', { html: '<h2>Ogłoszenie nieaktualne</h2><p>Pojazd sprzedany</p>' });
+    scraper.setMockResponse('https://otomoto.pl/removed', { html: '<h1>Not found</h1>', statusCode: 404 });
+    scraper.setMockResponse('https://otomoto.pl/active', { html: '<h1>Fiat Ducato</h1>' });
+  });
+
+  it('should check only vehicles not seen within the stale window', async () => {
+    const summary = await service.checkStaleVehicles({ staleAfterDays: 3 }, now);
+
+    expect(summary).toEqual({ checked: 3, active: 1, sold: 1, removed: 1, failed: 0, errors: [] });
+  });
+
+  it('should mark sold and removed listings with the delisting date', async () => {
+    await service.checkStaleVehicles({ staleAfterDays: 3 }, now);
+
+    expect(await repository.findVehicleById('sold')).toMatchObject({ listingState: 'sold', delistedAt: expect.any(Date) });
+    expect(await repository.findVehicleById('removed')).toMatchObject({ listingState: 'removed' });
+    expect(await repository.findVehicleById('recent')).toMatchObject({ listingState: 'active', delistedAt: null });
+  });
+
+  it('should keep the workflow status of delisted vehicles', async () => {
+    await repository.updateVehicle('sold', { status: 'to_visit' });
+
+    await service.checkStaleVehicles({ staleAfterDays: 3 }, now);
+
+    expect(await repository.findVehicleById('sold')).toMatchObject({ status: 'to_visit', listingState: 'sold' });
+  });
+
+  it('should not check vehicles the user is not interested in', async () => {
+    await repository.updateVehicle('removed', { status: 'not_interested' });
+
+    const summary = await service.checkStaleVehicles({ staleAfterDays: 3 }, now);
+
+    expect(summary).toMatchObject({ checked: 2, removed: 0 });
+    expect(await repository.findVehicleById('removed')).toMatchObject({ listingState: 'active' });
+  });
+
+  it('should refresh lastSeenAt for listings that are still active', async () => {
+    await service.checkStaleVehicles({ staleAfterDays: 3 }, now);
+
+    const active = await repository.findVehicleById('active');
+    expect(active!.listingState).toBe('active');
+    expect(active!.lastSeenAt!.getTime()).toBeGreaterThan(publishedAt.getTime());
+  });
+
+  it('should respect the check limit', async () => {
+    const summary = await service.checkStaleVehicles({ staleAfterDays: 3, limit: 1 }, now);
+
+    expect(summary.checked).toBe(1);
+  });
+
+  it('should collect failures without stopping the run', async () => {
+    scraper.setMockError('https://otomoto.pl/sold', new Error('Timeout'));
+    scraper.setMockResponse('https://otomoto.pl/active', { html: '<h1>Bad gateway</h1>', statusCode: 502 });
+
+    const summary = await service.checkStaleVehicles({ staleAfterDays: 3 }, now);
+
+    expect(summary).toMatchObject({ checked: 3, removed: 1, failed: 2 });
+    expect(summary.errors[0]).toContain('https://otomoto.pl/sold');
+    expect(await repository.findVehicleById('active')).toMatchObject({ listingState: 'active', delistedAt: null });
+  });
+});
@@ -0,0 +1,107 @@
+/**
+ * ListingLivenessService - Detects listings that disappeared from the marketplace
+ *
+ * Vehicles that have not appeared in search results for a while are re-fetched from
+ * their detail page. The ParserService decides whether the page is still an active
+ * listing, was ended by the seller (sold) or no longer exists (removed).
+ */
+
+import { Vehicle, ListingState } from '@car-finder/types';
+import { IScraperService, IParserService, IVehicleRepository } from '@car-finder/services';
+import { sourceRegistry } from '../sources';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+export interface LivenessCheckOptions {
+  staleAfterDays: number; // Only check vehicles not seen in search results for this long
+  limit?: number; // Maximum number of detail pages to fetch
+}
+
+export interface LivenessCheckSummary {
+  checked: number;
+  active: number;
+  sold: number;
+  removed: number;
+  failed: number;
+  errors: string[];
+}
+
+/**
+ * ListingLivenessService - Re-checks stale listings and marks delisted vehicles
+ */
+export class ListingLivenessService {
+  private scraperService: IScraperService;
+  private parserService: IParserService;
+  private vehicleRepository: IVehicleRepository;
+
+  constructor(
+    scraperService: IScraperService,
+    parserService: IParserService,
+    vehicleRepository: IVehicleRepository
+  ) {
+    this.scraperService = scraperService;
+    this.parserService = parserService;
+    this.vehicleRepository = vehicleRepository;
+  }
+
+  /**
+   * Fetch a vehicle's detail page and record its listing state
+   * Active listings are marked as seen so they are not re-checked on the next run
+   */
+  async checkVehicle(vehicle: Vehicle): Promise<ListingState> {
+    try {
+      const result = await this.scraperService.scrapeUrl(vehicle.sourceUrl);
+
+      // Server errors say nothing about the listing itself
+      if (result.statusCode >= 500) {
+        throw new Error(`Unexpected status code ${result.statusCode}`);
+      }
+
+      const parserSchemaKey = sourceRegistry.get(vehicle.source).parserSchemaKey;
+      const state = this.parserService.detectListingState(result.html, parserSchemaKey, result.statusCode);
+
+      if (state === 'active') {
+        await this.vehicleRepository.markVehiclesSeen([vehicle.sourceUrl]);
+      } else {
+        await this.vehicleRepository.markVehicleDelisted(vehicle.id, state);
+      }
+
+      return state;
+    } catch (error) {
+      console.error(`❌ Failed to check listing ${vehicle.sourceUrl}:`, error);
+      throw new Error(`Listing liveness check failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Check every vehicle not seen in search results within the configured window
+   * Individual failures are collected so one broken page does not stop the run
+   */
+  async checkStaleVehicles(options: LivenessCheckOptions, now: Date = new Date()): Promise<LivenessCheckSummary> {
+    const seenBefore = new Date(now.getTime() - options.staleAfterDays * MS_PER_DAY);
+    const vehicles = await this.vehicleRepository.findStaleVehicles(seenBefore, options.limit);
+    const summary: LivenessCheckSummary = { checked: 0, active: 0, sold: 0, removed: 0, failed: 0, errors: [] };
+
+    console.log(`🔎 Checking ${vehicles.length} listing(s) not seen since ${seenBefore.toISOString()}`);
+
+    for (const vehicle of vehicles) {
+      summary.checked++;
+
+      try {
+        const state = await this.checkVehicle(vehicle);
+        summary[state]++;
+
+        if (state === 'active') {
+          console.log(`  ✅ Still listed: ${vehicle.title}`);
+        } else {
+          console.log(`  🏁 Marked as ${state}: ${vehicle.title}`);
+        }
+      } catch (error) {
+        summary.failed++;
+        summary.errors.push(`${vehicle.sourceUrl}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    }
+
+    return summary;
+  }
+}
@@ -0,0 +1,77 @@
+/**
+ * MarketPriceModel Unit Tests
+ */
+
+import { MarketPriceModel, PriceSample } from './MarketPriceModel';
+
+// Prices generated from log(price) = 9.5 + 0.08·(year - 2015) - 0.03·mileage_10k_km + 0.1·automatic
+function listing(year: number, mileage10k: number, automatic: number | null, noise = 0): PriceSample {
+  const logPrice = 9.5 + 0.08 * (year - 2015) - 0.03 * mileage10k + 0.1 * (automatic ?? 0) + noise;
+  return { features: { year, mileage_10k_km: mileage10k, automatic }, priceEur: Math.exp(logPrice) };
+}
+
+function trainingSet(): PriceSample[] {
+  const samples: PriceSample[] = [];
+  for (let year = 2010; year <= 2020; year++) {
+    for (const mileage10k of [8, 14, 20, 26]) {
+      samples.push(listing(year, mileage10k, (year + mileage10k) % 2, ((year * 7 + mileage10k) % 5 - 2) * 0.01));
+    }
+  }
+  return samples;
+}
+
+describe('MarketPriceModel', () => {
+  it('should recover prices of the underlying trend', () => {
+    const model = MarketPriceModel.fit(trainingSet());
+
+    expect(model.trainingSize).toBe(44);
+    expect(model.rSquared).toBeGreaterThan(0.95);
+    expect(model.predict({ year: 2016, mileage_10k_km: 18, automatic: 1 })).toBeCloseTo(listing(2016, 18, 1).priceEur, -2);
+  });
+
+  it('should downweight outliers instead of following them', () => {
+    const samples = trainingSet();
+    // Three listings with a misplaced digit (10x the price)
+    samples.push(
+      { ...listing(2014, 20, 0), priceEur: listing(2014, 20, 0).priceEur * 10 },
+      { ...listing(2018, 14, 1), priceEur: listing(2018, 14, 1).priceEur * 10 },
+      { ...listing(2012, 26, 0), priceEur: listing(2012, 26, 0).priceEur * 10 }
+    );
+
+    const model = MarketPriceModel.fit(samples);
+    const expected = listing(2016, 18, 1).priceEur;
+
+    expect(Math.abs(model.predict({ year: 2016, mileage_10k_km: 18, automatic: 1 }) - expected) / expected).toBeLessThan(0.05);
+    expect(model.effectiveTrainingSize).toBeLessThan(model.trainingSize);
+  });
+
+  it('should report cheap listings as negative residuals', () => {
+    const model = MarketPriceModel.fit(trainingSet());
+    const features = { year: 2016, mileage_10k_km: 18, automatic: 1 };
+    const fairPrice = listing(2016, 18, 1).priceEur;
+
+    expect(model.standardizedResidual(features, fairPrice * 0.8)).toBeLessThan(-2);
+    expect(model.standardizedResidual(features, fairPrice * 1.2)).toBeGreaterThan(2);
+  });
+
+  it('should impute unknown values and treat missing one-hot keys as 0', () => {
+    const samples = trainingSet().map((sample, i) => ({
+      ...sample,
+      features: { ...sample.features, ...(i % 2 === 0 ? { 'group:trafic': 1 } : {}) },
+    }));
+    const model = MarketPriceModel.fit(samples);
+
+    expect(model.featureNames).toEqual(['automatic', 'group:trafic', 'mileage_10k_km', 'year']);
+    expect(Number.isFinite(model.predict({ year: 2016, mileage_10k_km: 18, automatic: null }))).toBe(true);
+  });
+
+  it('should drop features without variance', () => {
+    const samples = trainingSet().map(sample => ({ ...sample, features: { ...sample.features, fuel_diesel: 1 } }));
+
+    expect(MarketPriceModel.fit(samples).featureNames).not.toContain('fuel_diesel');
+  });
+
+  it('should reject an empty training set', () => {
+    expect(() => MarketPriceModel.fit([])).toThrow('No priced listings');
+  });
+});
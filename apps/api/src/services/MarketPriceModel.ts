@@ -0,0 +1,228 @@
+/**
+ * MarketPriceModel - Robust linear regression of listing prices
+ *
+ * Fits log(priceEur) = β₀ + Σ βᵢ·xᵢ over all listings by iteratively reweighted least
+ * squares with Huber weights, so mispriced listings (typos, damaged vans, "golden finds")
+ * pull the fit less than in ordinary least squares. Modelling the log price makes the
+ * coefficients multiplicative (e.g. -4% per 10,000 km) and the residual a measure of how
+ * cheap a listing is relative to every other listing, not just its nearest comparables.
+ *
+ * Features are standardized before fitting and a small ridge penalty keeps rare categories
+ * stable. Feature extraction lives in MarketValueService; this class only sees named numbers.
+ */
+
+/**
+ * Named numeric features of one listing
+ * - null: the listing doesn't state the value (imputed with the training mean)
+ * - missing key: 0 (one-hot categories only list the category the listing belongs to)
+ */
+export type PriceFeatures = Record<string, number | null>;
+
+export interface PriceSample {
+  features: PriceFeatures;
+  priceEur: number;
+}
+
+export interface MarketPriceModelOptions {
+  huberDelta: number; // Residuals beyond this many robust standard deviations are downweighted
+  maxIterations: number;
+  ridge: number; // L2 penalty on the standardized coefficients
+}
+
+export const DEFAULT_MARKET_PRICE_MODEL_OPTIONS: MarketPriceModelOptions = {
+  huberDelta: 1.345,
+  maxIterations: 20,
+  ridge: 0.1,
+};
+
+const CONVERGENCE_TOLERANCE = 1e-6;
+const MAD_TO_STANDARD_DEVIATION = 1.4826;
+const MIN_RESIDUAL_SCALE = 1e-6;
+
+interface FeatureScaling {
+  name: string;
+  mean: number;
+  sd: number;
+}
+
+export class MarketPriceModel {
+  private constructor(
+    private readonly scaling: FeatureScaling[],
+    private readonly coefficients: number[], // Intercept first, then one per scaled feature
+    readonly residualScale: number, // Robust standard deviation of the log-price residuals
+    readonly trainingSize: number,
+    readonly effectiveTrainingSize: number, // Sum of the final Huber weights
+    readonly rSquared: number // On the log price
+  ) {}
+
+  /**
+   * Fit the model to listings with a positive price
+   * Features without variance in the training data are dropped
+   */
+  static fit(samples: PriceSample[], options: MarketPriceModelOptions = DEFAULT_MARKET_PRICE_MODEL_OPTIONS): MarketPriceModel {
+    const usable = samples.filter(sample => sample.priceEur > 0);
+    if (usable.length === 0) {
+      throw new Error('No priced listings to train the market price model on');
+    }
+
+    const names = [...new Set(usable.flatMap(sample => Object.keys(sample.features)))].sort();
+    const scaling: FeatureScaling[] = [];
+    for (const name of names) {
+      const values = usable
+        .map(sample => featureValue(sample.features, name))
+        .filter((value): value is number => value !== null);
+      if (values.length === 0) continue;
+
+      const mean = average(values);
+      const sd = Math.sqrt(average(values.map(value => (value - mean) ** 2)));
+      if (sd > 0) {
+        scaling.push({ name, mean, sd });
+      }
+    }
+
+    const rows = usable.map(sample => designRow(sample.features, scaling));
+    const targets = usable.map(sample => Math.log(sample.priceEur));
+    let weights = usable.map(() => 1);
+    let coefficients = solveWeightedRidge(rows, targets, weights, options.ridge);
+
+    for (let iteration = 0; iteration < options.maxIterations; iteration++) {
+      const residuals = targets.map((target, i) => target - dot(rows[i], coefficients));
+      const scale = robustScale(residuals);
+      weights = residuals.map(residual => {
+        const standardized = Math.abs(residual) / scale;
+        return standardized <= options.huberDelta ? 1 : options.huberDelta / standardized;
+      });
+
+      const next = solveWeightedRidge(rows, targets, weights, options.ridge);
+      const change = Math.max(...next.map((value, i) => Math.abs(value - coefficients[i])));
+      coefficients = next;
+      if (change < CONVERGENCE_TOLERANCE) break;
+    }
+
+    const residuals = targets.map((target, i) => target - dot(rows[i], coefficients));
+    const meanTarget = average(targets);
+    const totalSquares = targets.reduce((sum, target) => sum + (target - meanTarget) ** 2, 0);
+    const residualSquares = residuals.reduce((sum, residual) => sum + residual ** 2, 0);
+
+    return new MarketPriceModel(
+      scaling,
+      coefficients,
+      robustScale(residuals),
+      usable.length,
+      weights.reduce((sum, weight) => sum + weight, 0),
+      totalSquares === 0 ? 0 : 1 - residualSquares / totalSquares
+    );
+  }
+
+  /**
+   * Names of the features the model uses
+   */
+  get featureNames(): string[] {
+    return this.scaling.map(feature => feature.name);
+  }
+
+  /**
+   * Predicted market price in EUR
+   */
+  predict(features: PriceFeatures): number {
+    return Math.exp(this.predictLogPrice(features));
+  }
+
+  /**
+   * Residual of the asking price in robust standard deviations (negative = cheaper than predicted)
+   */
+  standardizedResidual(features: PriceFeatures, priceEur: number): number {
+    return (Math.log(priceEur) - this.predictLogPrice(features)) / this.residualScale;
+  }
+
+  private predictLogPrice(features: PriceFeatures): number {
+    return dot(designRow(features, this.scaling), this.coefficients);
+  }
+}
+
+function featureValue(features: PriceFeatures, name: string): number | null {
+  if (!(name in features)) return 0;
+  const value = features[name];
+  return value === null || !Number.isFinite(value) ? null : value;
+}
+
+/**
+ * Intercept followed by the standardized features (unknown values sit at the mean, i.e. 0)
+ */
+function designRow(features: PriceFeatures, scaling: FeatureScaling[]): number[] {
+  return [
+    1,
+    ...scaling.map(({ name, mean, sd }) => {
+      const value = featureValue(features, name);
+      return value === null ? 0 : (value - mean) / sd;
+    }),
+  ];
+}
+
+/**
+ * Solve (XᵀWX + λI)β = XᵀWy by Gaussian elimination; the intercept is not penalized
+ */
+function solveWeightedRidge(rows: number[][], targets: number[], weights: number[], ridge: number): number[] {
+  const size = rows[0].length;
+  const matrix = Array.from({ length: size }, () => new Array<number>(size + 1).fill(0));
+
+  rows.forEach((row, n) => {
+    for (let i = 0; i < size; i++) {
+      for (let j = 0; j < size; j++) {
+        matrix[i][j] += weights[n] * row[i] * row[j];
+      }
+      matrix[i][size] += weights[n] * row[i] * targets[n];
+    }
+  });
+  for (let i = 1; i < size; i++) {
+    matrix[i][i] += ridge;
+  }
+
+  for (let col = 0; col < size; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < size; row++) {
+      if (Math.abs(matrix[row][col]) > Math.abs(matrix[pivot][col])) pivot = row;
+    }
+    if (Math.abs(matrix[pivot][col]) < 1e-12) {
+      throw new Error('Market price model is singular - add a ridge penalty or more listings');
+    }
+    [matrix[col], matrix[pivot]] = [matrix[pivot], matrix[col]];
+
+    for (let row = 0; row < size; row++) {
+      if (row === col) continue;
+      const factor = matrix[row][col] / matrix[col][col];
+      for (let k = col; k <= size; k++) {
+        matrix[row][k] -= factor * matrix[col][k];
+      }
+    }
+  }
+
+  return matrix.map((row, i) => row[size] / row[i]);
+}
+
+/**
+ * Median absolute deviation scaled to a standard deviation, falling back to the RMS when
+ * most residuals are exactly zero
+ */
+function robustScale(residuals: number[]): number {
+  const center = median(residuals);
+  const mad = median(residuals.map(residual => Math.abs(residual - center))) * MAD_TO_STANDARD_DEVIATION;
+  if (mad > MIN_RESIDUAL_SCALE) return mad;
+
+  const rms = Math.sqrt(average(residuals.map(residual => residual ** 2)));
+  return Math.max(rms, MIN_RESIDUAL_SCALE);
+}
+
+function dot(a: number[], b: number[]): number {
+  return a.reduce((sum, value, i) => sum + value * b[i], 0);
+}
+
+function average(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+}
@@ -4,7 +4,7 @@
 
 import { MarketValueService } from './MarketValueService';
 import { VehicleRepository } from '@car-finder/db';
-import { Vehicle } from '@car-finder/types';
+import { Vehicle, VehicleAttributes } from '@car-finder/types';
 
 // Mock VehicleRepository
 jest.mock('@car-finder/db', () => ({
@@ -55,6 +55,19 @@ describe('MarketValueService', () => {
         memberSince: '2020',
       },
       photos: [],
+      attributes: {
+        make: 'Renault',
+        model: 'Trafic Passenger',
+        engineSizeCc: null,
+        horsepower: null,
+        fuelType: null,
+        transmission: null,
+        bodyType: null,
+        seats: null,
+        wheelbase: null,
+        color: null,
+        vin: null,
+      },
       personalFitScore: null,
       marketValueScore: null,
       aiPriorityRating: null,
@@ -66,6 +79,9 @@ describe('MarketValueService', () => {
       scrapedAt: new Date(),
       createdAt: new Date(),
       updatedAt: new Date(),
+      lastSeenAt: new Date(),
+      listingState: 'active',
+      delistedAt: null,
     };
   });
 
@@ -73,6 +89,10 @@ describe('MarketValueService', () => {
     jest.clearAllMocks();
   });
 
+  function withAttributes(vehicle: Vehicle, attributes: Partial<VehicleAttributes>): Vehicle {
+    return { ...vehicle, attributes: { ...vehicle.attributes, ...attributes } };
+  }
+
   describe('calculateMarketValue', () => {
     it('should return percentage below market average (good deal)', async () => {
       // Mock comparables: €11,000, €11,500, €12,000 (avg ~€11,500)
@@ -174,6 +194,27 @@ describe('MarketValueService', () => {
       expect(result).not.toBeNull();
     });
 
+    it('should weight comparables by listing status', async () => {
+      // Equal mileage, so only listing status weights differ (sold 1.5, removed 0.75)
+      // Unweighted average is ~€10,667; sold weighting pulls it to ~€10,286
+      const comparables: Vehicle[] = [
+        { ...mockVehicle, id: 'comp-1', priceEur: 8000, mileage: 180000, listingState: 'sold' },
+        { ...mockVehicle, id: 'comp-2', priceEur: 12000, mileage: 180000 },
+        { ...mockVehicle, id: 'comp-3', priceEur: 12000, mileage: 180000 },
+      ];
+
+      mockVehicleRepo.findComparableVehicles.mockResolvedValue(comparables);
+      expect(await marketValueService.calculateMarketValue(mockVehicle)).toBe('-3%');
+
+      // Removed listings count less: average rises to ~€10,909
+      comparables[0] = { ...comparables[0], listingState: 'removed' };
+      expect(await marketValueService.calculateMarketValue(mockVehicle)).toBe('-8%');
+
+      // A status the user set weighs the same as a liveness check result
+      comparables[0] = { ...comparables[0], listingState: 'active', status: 'removed' };
+      expect(await marketValueService.calculateMarketValue(mockVehicle)).toBe('-8%');
+    });
+
     it('should apply high mileage penalty (>200k km)', async () => {
       // Comparables with >200k km should get -10% price adjustment
       const comparables: Vehicle[] = [
@@ -248,11 +289,8 @@ describe('MarketValueService', () => {
       expect(result).not.toBeNull();
     });
 
-    it('should handle missing make/model in sourceParameters', async () => {
-      const vehicleNoMakeModel = {
-        ...mockVehicle,
-        sourceParameters: {},
-      };
+    it('should handle missing make/model attributes', async () => {
+      const vehicleNoMakeModel = withAttributes(mockVehicle, { make: null, model: null });
 
       const result = await marketValueService.calculateMarketValue(vehicleNoMakeModel);
 
@@ -301,14 +339,9 @@ describe('MarketValueService', () => {
       expect(result).toBe('market_avg');
     });
 
-    it('should handle sourceParameters as JSON string', async () => {
-      const vehicleWithStringParams = {
-        ...mockVehicle,
-        sourceParameters: JSON.stringify({
-          'Marka pojazdu': 'Renault',
-          'Model pojazdu': 'Trafic Passenger',
-        }),
-      };
+    it('should look up comparables by the normalized make and model', async () => {
+      // Attributes are normalized at ingest; the raw parameters are not read again
+      const vehicle = { ...withAttributes(mockVehicle, { make: 'Opel', model: 'Vivaro' }), sourceParameters: {} };
 
       const comparables: Vehicle[] = [
         { ...mockVehicle, id: 'comp-1', priceEur: 10000, mileage: 180000 },
@@ -318,41 +351,13 @@ describe('MarketValueService', () => {
 
       mockVehicleRepo.findComparableVehicles.mockResolvedValue(comparables);
 
-      const result = await marketValueService.calculateMarketValue(vehicleWithStringParams);
-
-      expect(result).toBe('market_avg');
-      expect(mockVehicleRepo.findComparableVehicles).toHaveBeenCalledWith(
-        expect.objectContaining({
-          make: 'Renault',
-          model: 'Trafic Passenger',
-        })
-      );
-    });
-
-    it('should support alternative sourceParameter keys (lowercase)', async () => {
-      const vehicleWithAltKeys = {
-        ...mockVehicle,
-        sourceParameters: {
-          make: 'Renault',
-          model: 'Trafic Passenger',
-        },
-      };
-
-      const comparables: Vehicle[] = [
-        { ...mockVehicle, id: 'comp-1', priceEur: 10000, mileage: 180000 },
-        { ...mockVehicle, id: 'comp-2', priceEur: 10000, mileage: 180000 },
-        { ...mockVehicle, id: 'comp-3', priceEur: 10000, mileage: 180000 },
-      ];
-
-      mockVehicleRepo.findComparableVehicles.mockResolvedValue(comparables);
-
-      const result = await marketValueService.calculateMarketValue(vehicleWithAltKeys);
+      const result = await marketValueService.calculateMarketValue(vehicle);
 
       expect(result).toBe('market_avg');
       expect(mockVehicleRepo.findComparableVehicles).toHaveBeenCalledWith(
         expect.objectContaining({
-          make: 'Renault',
-          model: 'Trafic Passenger',
+          make: 'Opel',
+          model: 'Vivaro',
         })
       );
     });
@@ -437,6 +442,166 @@ describe('MarketValueService', () => {
     });
   });
 
+  describe('analyzeMarketValue', () => {
+    it('should explain the score with the weighted comparables', async () => {
+      const target = withAttributes(mockVehicle, { transmission: 'manual', engineSizeCc: 1995 });
+      const comparables: Vehicle[] = [
+        { ...withAttributes(target, { transmission: 'automatic' }), id: 'comp-1', title: 'Trafic automat', priceEur: 12000, mileage: 180000 },
+        { ...target, id: 'comp-2', priceEur: 11000, mileage: 180000 },
+        { ...target, id: 'comp-3', priceEur: 11000, mileage: 190000, listingState: 'sold' },
+      ];
+
+      mockVehicleRepo.findComparableVehicles.mockResolvedValue(comparables);
+
+      const analysis = await marketValueService.analyzeMarketValue(target);
+
+      expect(analysis).toMatchObject({
+        vehicleId: target.id,
+        model: 'weighted',
+        priceEur: 10000,
+        dealScore: null,
+        sampleSize: 3,
+        confidence: 'low', // Uneven weights bring the effective sample size below minComparables
+      });
+      expect(analysis!.comparables.map(comp => comp.vehicleId)).toEqual(['comp-2', 'comp-1', 'comp-3']);
+
+      const automatic = analysis!.comparables.find(comp => comp.vehicleId === 'comp-1')!;
+      expect(automatic.penalties).toEqual([
+        { attribute: 'transmission', targetValue: 'manual', comparableValue: 'automatic', factor: 0.9 },
+      ]);
+      expect(automatic.attributeWeight).toBeCloseTo(0.9);
+      expect(automatic.weight).toBeCloseTo(0.9);
+
+      const sold = analysis!.comparables.find(comp => comp.vehicleId === 'comp-3')!;
+      expect(sold).toMatchObject({ status: 'sold', statusWeight: 1.5, mileageWeight: 0.5, penalties: [] });
+
+      // (12000 * 0.9 + 11000 * 1 + 11000 * 0.75) / 2.65 = 11340
+      expect(analysis!.marketPriceEur).toBe(11340);
+      expect(analysis!.percentDifference).toBeCloseTo(-11.8, 1);
+      expect(analysis!.score).toBe('-12%');
+      expect(analysis!.effectiveSampleSize).toBeLessThan(3);
+    });
+
+    it('should rate confidence from the effective sample size', async () => {
+      const comparables: Vehicle[] = Array.from({ length: 9 }, (_, i) => (
+        { ...mockVehicle, id: `comp-${i}`, priceEur: 10000, mileage: 180000 }
+      ));
+
+      mockVehicleRepo.findComparableVehicles.mockResolvedValue(comparables);
+
+      const analysis = await marketValueService.analyzeMarketValue(mockVehicle);
+
+      expect(analysis!.effectiveSampleSize).toBeCloseTo(9);
+      expect(analysis!.confidence).toBe('high');
+    });
+
+    it('should return null when there are not enough comparables', async () => {
+      mockVehicleRepo.findComparableVehicles.mockResolvedValue([
+        { ...mockVehicle, id: 'comp-1', priceEur: 10000, mileage: 180000 },
+      ]);
+
+      expect(await marketValueService.analyzeMarketValue(mockVehicle)).toBeNull();
+    });
+  });
+
+  describe('regression model', () => {
+    // Trafic listings priced as €9,000 · 1.08^(year - 2010) · 0.97^(mileage in 10k km over 180k)
+    function pricedListings(count: number): Vehicle[] {
+      return Array.from({ length: count }, (_, i) => {
+        const year = 2008 + (i % 8);
+        const mileage = 120000 + ((i * 37) % 12) * 10000;
+        const priceEur = Math.round(9000 * Math.pow(1.08, year - 2010) * Math.pow(0.97, (mileage - 180000) / 10000));
+        return { ...mockVehicle, id: `listing-${i}`, year, mileage, priceEur };
+      });
+    }
+
+    it('should not train on fewer listings than regressionModel.minTrainingSize', () => {
+      const consoleLogSpy = jest.spyOn(console, 'log').mockImplementation();
+
+      expect(marketValueService.trainRegressionModel(pricedListings(10))).toBeNull();
+      expect(consoleLogSpy).toHaveBeenCalledWith(expect.stringContaining('Insufficient listings to train regression model (10/30)'));
+
+      consoleLogSpy.mockRestore();
+    });
+
+    it('should score a vehicle against the predicted price with a deal score', () => {
+      const model = marketValueService.trainRegressionModel(pricedListings(40))!;
+      const fairPrice = Math.round(9000 * Math.pow(1.08, 2012 - 2010));
+      const cheapVehicle = { ...mockVehicle, year: 2012, mileage: 180000, priceEur: Math.round(fairPrice * 0.85) };
+
+      const analysis = marketValueService.analyzeMarketValueWithRegression(cheapVehicle, model);
+
+      expect(analysis).toMatchObject({ model: 'regression', score: '-15%', sampleSize: 40, comparables: [] });
+      expect(analysis.marketPriceEur).toBeGreaterThan(fairPrice * 0.98);
+      expect(analysis.marketPriceEur).toBeLessThan(fairPrice * 1.02);
+      expect(analysis.dealScore).toBeLessThan(-2);
+    });
+
+    it('should one-hot encode fuel type and equivalency group', () => {
+      const features = marketValueService.buildPriceFeatures(withAttributes(mockVehicle, {
+        make: 'Opel',
+        model: 'Vivaro',
+        fuelType: 'diesel',
+        transmission: 'manual',
+        engineSizeCc: 1995,
+      }));
+
+      expect(features).toEqual({
+        year: 2010,
+        mileage_10k_km: 18,
+        engine_size_l: 1.995,
+        horsepower: null,
+        automatic: 0,
+        fuel_diesel: 1,
+        fuel_petrol: 0,
+        fuel_lpg: 0,
+        fuel_electric: 0,
+        fuel_hybrid: 0,
+        'group:Renault-Nissan Alliance Platform': 1,
+      });
+    });
+
+    it('should compare both models on held-out listings', async () => {
+      jest.spyOn(console, 'log').mockImplementation();
+      const listings = pricedListings(60);
+      mockVehicleRepo.findComparableVehicles.mockImplementation(async ({ excludeId }) =>
+        listings.filter(listing => listing.id !== excludeId)
+      );
+
+      const evaluation = await marketValueService.evaluateModels(listings, 0.25);
+
+      expect(evaluation.trainingSize + evaluation.holdoutSize).toBe(60);
+      expect(evaluation.holdoutSize).toBeGreaterThan(0);
+      expect(evaluation.results.map(result => result.model)).toEqual(['weighted', 'regression']);
+
+      const regression = evaluation.results.find(result => result.model === 'regression')!;
+      expect(regression.coverage).toBe(1);
+      expect(regression.medianAbsolutePercentError).toBeLessThan(2);
+
+      const weighted = evaluation.results.find(result => result.model === 'weighted')!;
+      expect(weighted.priced).toBe(evaluation.holdoutSize);
+      (console.log as jest.Mock).mockRestore();
+    });
+
+    it('should hide holdout listings from the weighted comparables', async () => {
+      jest.spyOn(console, 'log').mockImplementation();
+      const listings = pricedListings(60);
+      mockVehicleRepo.findComparableVehicles.mockResolvedValue(listings);
+      const analyzeSpy = jest.spyOn(MarketValueService.prototype, 'analyzeMarketValue');
+
+      const evaluation = await marketValueService.evaluateModels(listings, 0.25);
+
+      const results = await Promise.all(analyzeSpy.mock.results.map(result => result.value));
+      const comparableIds = results.flatMap(result => result.comparables.map((comp: { vehicleId: string }) => comp.vehicleId));
+      const holdoutIds = analyzeSpy.mock.calls.map(([vehicle]) => vehicle.id);
+      expect(holdoutIds).toHaveLength(evaluation.holdoutSize);
+      expect(comparableIds.some(id => holdoutIds.includes(id))).toBe(false);
+
+      analyzeSpy.mockRestore();
+      (console.log as jest.Mock).mockRestore();
+    });
+  });
+
   describe('error handling', () => {
     it('should log errors and return null on exception', async () => {
       const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation();
@@ -452,18 +617,20 @@ describe('MarketValueService', () => {
       consoleErrorSpy.mockRestore();
     });
 
-    it('should handle malformed sourceParameters gracefully', async () => {
-      const consoleWarnSpy = jest.spyOn(console, 'warn').mockImplementation();
+    it('should not depend on the raw sourceParameters', async () => {
       const vehicleBadParams = {
         ...mockVehicle,
         sourceParameters: 'invalid json' as any,
       };
+      mockVehicleRepo.findComparableVehicles.mockResolvedValue([
+        { ...mockVehicle, id: 'comp-1', priceEur: 10000, mileage: 180000 },
+        { ...mockVehicle, id: 'comp-2', priceEur: 10000, mileage: 180000 },
+        { ...mockVehicle, id: 'comp-3', priceEur: 10000, mileage: 180000 },
+      ]);
 
       const result = await marketValueService.calculateMarketValue(vehicleBadParams);
 
-      expect(result).toBeNull();
-
-      consoleWarnSpy.mockRestore();
+      expect(result).toBe('market_avg');
     });
   });
 });
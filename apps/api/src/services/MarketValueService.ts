@@ -7,17 +7,41 @@
  *
  * Supports vehicle equivalency groups (platform twins like Trafic/Vivaro/Primastar)
  * and attribute-based weighting (engine size, horsepower, transmission, fuel type).
+ * Make, model and the compared attributes come from the vehicle's normalized attributes.
+ *
+ * analyzeMarketValue() returns the full breakdown (each comparable with its weights and
+ * attribute penalties, sample size and confidence) so the score can be explained.
+ *
+ * Alternatively a robust regression trained on all listings (MarketPriceModel) prices the
+ * vehicle from year, mileage, engine, power, gearbox, fuel and equivalency group; it still
+ * works when fewer than minComparables nearby listings exist. evaluateModels() compares both
+ * approaches on held-out listings.
  *
  * Configuration loaded from search-config.json:
  * - Vehicle equivalency groups with weights
  * - Attribute comparison tolerances and penalties
  * - Matching criteria (year range, mileage range, min comparables)
+ * - Optional listing status weights (e.g. sold listings count more than live asking prices)
+ * - Optional regression model settings (minimum training size, Huber delta, ridge penalty)
  */
 
-import { Vehicle } from '@car-finder/types';
+import {
+  MarketModelEvaluation,
+  MarketModelMetrics,
+  MarketValueAnalysis,
+  MarketValueComparable,
+  MarketValueConfidence,
+  MarketValueModel,
+  MarketValuePenalty,
+  Vehicle,
+  VehicleFuelType,
+  VehicleStatus,
+} from '@car-finder/types';
 import { VehicleRepository } from '@car-finder/db';
 import { WorkspaceUtils } from '@car-finder/services';
+import * as crypto from 'crypto';
 import * as fs from 'fs';
+import { DEFAULT_MARKET_PRICE_MODEL_OPTIONS, MarketPriceModel, PriceFeatures } from './MarketPriceModel';
 
 interface VehicleEquivalent {
   make: string;
@@ -48,21 +72,84 @@ interface MarketValueConfig {
     mileageRange_km: number;
     minComparables: number;
   };
+  // Weight multiplier per comparable status; statuses not listed weigh 1.0
+  listingStatusWeights?: Partial<Record<VehicleStatus, number>>;
+  regressionModel?: {
+    minTrainingSize: number;
+    huberDelta?: number;
+    ridge?: number;
+  };
 }
 
+// Only findComparableVehicles is needed, so evaluation can hide holdout listings from it
+type ComparableVehicleSource = Pick<VehicleRepository, 'findComparableVehicles'>;
+
 interface ComparableVehicle extends Vehicle {
   equivalencyWeight: number;
   attributeWeight: number;
+  penalties: MarketValuePenalty[];
+}
+
+// Confidence thresholds as multiples of minComparables, applied to the effective sample size
+const HIGH_CONFIDENCE_SAMPLE_FACTOR = 3;
+const MEDIUM_CONFIDENCE_SAMPLE_FACTOR = 1;
+// Regression confidence also needs the model to explain enough of the price variation (log scale)
+const HIGH_CONFIDENCE_R_SQUARED = 0.7;
+const MEDIUM_CONFIDENCE_R_SQUARED = 0.4;
+const DEFAULT_MIN_TRAINING_SIZE = 30;
+const FUEL_TYPES: VehicleFuelType[] = ['diesel', 'petrol', 'lpg', 'electric', 'hybrid'];
+
+/**
+ * Deterministically assign a listing to the holdout set (stable across runs)
+ */
+function isHoldout(vehicleId: string, holdoutFraction: number): boolean {
+  const hash = crypto.createHash('sha1').update(vehicleId).digest();
+  return hash.readUInt32BE(0) / 0xffffffff < holdoutFraction;
+}
+
+/**
+ * Accuracy of one model's predictions for the holdout listings it could price
+ */
+function summarizePredictions(
+  model: MarketValueModel,
+  predictions: Array<{ actual: number; predicted: number }>,
+  holdoutSize: number
+): MarketModelMetrics {
+  if (predictions.length === 0) {
+    return {
+      model,
+      priced: 0,
+      coverage: 0,
+      meanAbsoluteErrorEur: null,
+      meanAbsolutePercentError: null,
+      medianAbsolutePercentError: null,
+    };
+  }
+
+  const absoluteErrors = predictions.map(p => Math.abs(p.predicted - p.actual));
+  const percentErrors = predictions.map(p => (Math.abs(p.predicted - p.actual) / p.actual) * 100).sort((a, b) => a - b);
+  const middle = Math.floor(percentErrors.length / 2);
+
+  return {
+    model,
+    priced: predictions.length,
+    coverage: holdoutSize === 0 ? 0 : predictions.length / holdoutSize,
+    meanAbsoluteErrorEur: absoluteErrors.reduce((sum, error) => sum + error, 0) / predictions.length,
+    meanAbsolutePercentError: percentErrors.reduce((sum, error) => sum + error, 0) / percentErrors.length,
+    medianAbsolutePercentError: percentErrors.length % 2 === 0
+      ? (percentErrors[middle - 1] + percentErrors[middle]) / 2
+      : percentErrors[middle],
+  };
 }
 
 /**
  * MarketValueService - Main service for market value calculations
  */
 export class MarketValueService {
-  private vehicleRepo: VehicleRepository;
+  private vehicleRepo: ComparableVehicleSource;
   private config: MarketValueConfig;
 
-  constructor(vehicleRepo: VehicleRepository) {
+  constructor(vehicleRepo: ComparableVehicleSource) {
     this.vehicleRepo = vehicleRepo;
     this.config = this.loadConfig();
   }
@@ -90,6 +177,18 @@ export class MarketValueService {
    * @returns Percentage difference string (e.g., "-5%", "+10%", "market_avg") or null if insufficient data
    */
   async calculateMarketValue(vehicle: Vehicle): Promise<string | null> {
+    const analysis = await this.analyzeMarketValue(vehicle);
+    return analysis ? analysis.score : null;
+  }
+
+  /**
+   * Calculate the market value score together with the comparables behind it
+   *
+   * @param vehicle - Vehicle to evaluate
+   * @returns Score, weighted average, sample size, confidence and the weighted comparables,
+   *          or null if insufficient data
+   */
+  async analyzeMarketValue(vehicle: Vehicle): Promise<MarketValueAnalysis | null> {
     try {
       // 1. Find comparable vehicles (including platform twins and equivalents)
       const comparables = await this.findComparableVehiclesWithEquivalency(vehicle);
@@ -104,11 +203,28 @@ export class MarketValueService {
       console.log(`  ✓ Found ${comparables.length} comparable vehicles for ${vehicle.id}`);
 
       // 3. Calculate weighted average price (mileage + equivalency + attributes)
-      const weightedAvg = this.calculateWeightedAverageWithAttributes(vehicle, comparables);
+      const weighted = comparables.map(comp => this.weighComparable(vehicle, comp));
+      const weightedAvg = this.calculateWeightedAverage(weighted);
       console.log(`  ✓ Weighted average price: €${weightedAvg.toFixed(0)}`);
 
       // 4. Calculate percentage difference
-      return this.formatPercentageDifference(vehicle.priceEur, weightedAvg);
+      const percentDifference = weightedAvg === 0 ? 0 : ((vehicle.priceEur - weightedAvg) / weightedAvg) * 100;
+      const effectiveSampleSize = this.calculateEffectiveSampleSize(weighted);
+
+      return {
+        vehicleId: vehicle.id,
+        model: 'weighted',
+        score: this.formatPercentageDifference(vehicle.priceEur, weightedAvg),
+        priceEur: vehicle.priceEur,
+        marketPriceEur: Math.round(weightedAvg),
+        percentDifference,
+        dealScore: null,
+        sampleSize: weighted.length,
+        effectiveSampleSize,
+        confidence: this.rateConfidence(effectiveSampleSize),
+        comparables: weighted.sort((a, b) => b.weight - a.weight),
+        calculatedAt: new Date(),
+      };
     } catch (error) {
       console.error(`❌ Error calculating market value for vehicle ${vehicle.id}:`, error);
       // Don't throw - return null to allow batch processing to continue
@@ -116,6 +232,132 @@ export class MarketValueService {
     }
   }
 
+  /**
+   * Train the regression model on all priced, non-deleted listings
+   *
+   * @returns The model, or null if fewer than regressionModel.minTrainingSize listings are available
+   */
+  trainRegressionModel(vehicles: Vehicle[]): MarketPriceModel | null {
+    const settings = this.config.regressionModel;
+    const minTrainingSize = settings?.minTrainingSize ?? DEFAULT_MIN_TRAINING_SIZE;
+    const samples = vehicles
+      .filter(vehicle => vehicle.status !== 'deleted' && vehicle.priceEur > 0)
+      .map(vehicle => ({ features: this.buildPriceFeatures(vehicle), priceEur: vehicle.priceEur }));
+
+    if (samples.length < minTrainingSize) {
+      console.log(`  ⚠️ Insufficient listings to train regression model (${samples.length}/${minTrainingSize})`);
+      return null;
+    }
+
+    const model = MarketPriceModel.fit(samples, {
+      ...DEFAULT_MARKET_PRICE_MODEL_OPTIONS,
+      huberDelta: settings?.huberDelta ?? DEFAULT_MARKET_PRICE_MODEL_OPTIONS.huberDelta,
+      ridge: settings?.ridge ?? DEFAULT_MARKET_PRICE_MODEL_OPTIONS.ridge,
+    });
+    console.log(`  ✓ Trained regression model on ${samples.length} listings (R² ${model.rSquared.toFixed(2)})`);
+
+    return model;
+  }
+
+  /**
+   * Score a vehicle against the regression model's predicted price
+   * The deal score is the residual in robust standard deviations (e.g. -1.5 = unusually cheap)
+   */
+  analyzeMarketValueWithRegression(vehicle: Vehicle, model: MarketPriceModel): MarketValueAnalysis {
+    const features = this.buildPriceFeatures(vehicle);
+    const predicted = model.predict(features);
+
+    return {
+      vehicleId: vehicle.id,
+      model: 'regression',
+      score: this.formatPercentageDifference(vehicle.priceEur, predicted),
+      priceEur: vehicle.priceEur,
+      marketPriceEur: Math.round(predicted),
+      percentDifference: ((vehicle.priceEur - predicted) / predicted) * 100,
+      dealScore: model.standardizedResidual(features, vehicle.priceEur),
+      sampleSize: model.trainingSize,
+      effectiveSampleSize: model.effectiveTrainingSize,
+      confidence: this.rateRegressionConfidence(model),
+      comparables: [],
+      calculatedAt: new Date(),
+    };
+  }
+
+  /**
+   * Compare the weighted average and regression models on held-out listings
+   * Holdout listings are hidden from both: the regression is trained without them and they
+   * are removed from the comparables of the weighted average
+   *
+   * @param vehicles - All listings (deleted and unpriced ones are ignored)
+   * @param holdoutFraction - Share of listings held out, assigned by a hash of the vehicle ID
+   */
+  async evaluateModels(vehicles: Vehicle[], holdoutFraction: number): Promise<MarketModelEvaluation> {
+    const eligible = vehicles.filter(vehicle => vehicle.status !== 'deleted' && vehicle.priceEur > 0);
+    const holdout = eligible.filter(vehicle => isHoldout(vehicle.id, holdoutFraction));
+    const holdoutIds = new Set(holdout.map(vehicle => vehicle.id));
+    const training = eligible.filter(vehicle => !holdoutIds.has(vehicle.id));
+
+    const weightedService = new MarketValueService({
+      findComparableVehicles: async params =>
+        (await this.vehicleRepo.findComparableVehicles(params)).filter(comp => !holdoutIds.has(comp.id)),
+    });
+    const regressionModel = this.trainRegressionModel(training);
+
+    const predictions: Record<MarketValueModel, Array<{ actual: number; predicted: number }>> = {
+      weighted: [],
+      regression: [],
+    };
+
+    for (const vehicle of holdout) {
+      const weighted = await weightedService.analyzeMarketValue(vehicle);
+      if (weighted) {
+        predictions.weighted.push({ actual: vehicle.priceEur, predicted: weighted.marketPriceEur });
+      }
+      if (regressionModel) {
+        predictions.regression.push({ actual: vehicle.priceEur, predicted: regressionModel.predict(this.buildPriceFeatures(vehicle)) });
+      }
+    }
+
+    return {
+      holdoutFraction,
+      trainingSize: training.length,
+      holdoutSize: holdout.length,
+      results: [
+        summarizePredictions('weighted', predictions.weighted, holdout.length),
+        summarizePredictions('regression', predictions.regression, holdout.length),
+      ],
+      evaluatedAt: new Date(),
+    };
+  }
+
+  /**
+   * Regression features of a vehicle (null when the listing doesn't state the attribute)
+   * Fuel type and equivalency group (or make/model outside the groups) are one-hot encoded
+   */
+  buildPriceFeatures(vehicle: Vehicle): PriceFeatures {
+    const { make, model, engineSizeCc, horsepower, transmission, fuelType } = vehicle.attributes;
+
+    const features: PriceFeatures = {
+      year: vehicle.year || null,
+      mileage_10k_km: vehicle.mileage / 10000,
+      engine_size_l: engineSizeCc ? engineSizeCc / 1000 : null,
+      horsepower,
+      automatic: transmission ? Number(transmission === 'automatic') : null,
+    };
+    for (const fuel of FUEL_TYPES) {
+      features[`fuel_${fuel}`] = fuelType ? Number(fuelType === fuel) : null;
+    }
+
+    if (make && model) {
+      const group = this.config.vehicleEquivalency.groups.find(g => g.vehicles.some(
+        v => v.make.toLowerCase() === make.toLowerCase() && v.model.toLowerCase() === model.toLowerCase()
+      ));
+      features[`group:${group ? group.name : `${make} ${model}`.toLowerCase()}`] = 1;
+    }
+
+    return features;
+  }
+
   /**
    * Find equivalent vehicle makes/models based on equivalency groups
    * Returns array of {make, model, weight} for all equivalent vehicles
@@ -151,13 +393,7 @@ export class MarketValueService {
    */
   private async findComparableVehiclesWithEquivalency(vehicle: Vehicle): Promise<ComparableVehicle[]> {
     try {
-      // Extract make/model from sourceParameters
-      const sourceParams = typeof vehicle.sourceParameters === 'string'
-        ? JSON.parse(vehicle.sourceParameters)
-        : vehicle.sourceParameters;
-
-      const make = sourceParams['Marka pojazdu'] || sourceParams['make'] || sourceParams['Make'];
-      const model = sourceParams['Model pojazdu'] || sourceParams['model'] || sourceParams['Model'];
+      const { make, model } = vehicle.attributes;
 
       if (!make || !model) {
         console.warn(`  ⚠️ Missing make/model for vehicle ${vehicle.id}`);
@@ -181,13 +417,14 @@ export class MarketValueService {
           excludeId: vehicle.id,
         });
 
-        // Add equivalency weight and calculate attribute weight
+        // Add equivalency weight and calculate attribute penalties
         for (const comp of comparables) {
-          const attributeWeight = this.calculateAttributeWeight(vehicle, comp);
+          const penalties = this.calculateAttributePenalties(vehicle, comp);
           allComparables.push({
             ...comp,
             equivalencyWeight: equiv.weight,
-            attributeWeight,
+            attributeWeight: penalties.reduce((weight, penalty) => weight * penalty.factor, 1.0),
+            penalties,
           });
         }
       }
@@ -201,204 +438,197 @@ export class MarketValueService {
   }
 
   /**
-   * Calculate attribute-based weight for a comparable vehicle
+   * Calculate attribute-based penalties for a comparable vehicle
    * Compares engine size, horsepower, transmission, fuel type, wheelbase
-   * Returns weight multiplier (1.0 = perfect match, <1.0 = penalties applied)
+   * The comparable's attribute weight is the product of the penalty factors (none = perfect match)
    */
-  private calculateAttributeWeight(target: Vehicle, comparable: Vehicle): number {
-    let weight = 1.0;
-
-    try {
-      const targetParams = typeof target.sourceParameters === 'string'
-        ? JSON.parse(target.sourceParameters)
-        : target.sourceParameters;
-      const compParams = typeof comparable.sourceParameters === 'string'
-        ? JSON.parse(comparable.sourceParameters)
-        : comparable.sourceParameters;
-
-      // 1. Engine size comparison (extract from "Pojemność skokowa" field)
-      const targetEngineSize = this.extractEngineSize(targetParams);
-      const compEngineSize = this.extractEngineSize(compParams);
-
-      if (targetEngineSize && compEngineSize) {
-        const engineDiff = Math.abs(targetEngineSize - compEngineSize);
-        const tolerance = this.config.attributeWeights.engineSize_tolerance_cc;
-        if (engineDiff > tolerance) {
-          const steps = Math.floor((engineDiff - tolerance) / tolerance);
-          weight *= Math.pow(1 - this.config.attributeWeights.engineSize_penalty, steps);
-        }
-      }
-
-      // 2. Horsepower comparison (extract from "Moc" field)
-      const targetHP = this.extractHorsepower(targetParams);
-      const compHP = this.extractHorsepower(compParams);
-
-      if (targetHP && compHP) {
-        const hpDiff = Math.abs(targetHP - compHP);
-        const tolerance = this.config.attributeWeights.horsepower_tolerance_hp;
-        if (hpDiff > tolerance) {
-          const steps = Math.floor((hpDiff - tolerance) / tolerance);
-          weight *= Math.pow(1 - this.config.attributeWeights.horsepower_penalty, steps);
-        }
-      }
-
-      // 3. Transmission comparison (extract from "Skrzynia biegów")
-      const targetTransmission = this.extractTransmission(targetParams);
-      const compTransmission = this.extractTransmission(compParams);
-
-      if (targetTransmission && compTransmission && targetTransmission !== compTransmission) {
-        weight *= (1 - this.config.attributeWeights.transmission_mismatch_penalty);
+  private calculateAttributePenalties(target: Vehicle, comparable: Vehicle): MarketValuePenalty[] {
+    const penalties: MarketValuePenalty[] = [];
+    const weights = this.config.attributeWeights;
+    const targetAttributes = target.attributes;
+    const compAttributes = comparable.attributes;
+
+    // 1. Engine size comparison
+    const targetEngineSize = targetAttributes.engineSizeCc;
+    const compEngineSize = compAttributes.engineSizeCc;
+
+    if (targetEngineSize && compEngineSize) {
+      const engineDiff = Math.abs(targetEngineSize - compEngineSize);
+      const tolerance = weights.engineSize_tolerance_cc;
+      const steps = engineDiff > tolerance ? Math.floor((engineDiff - tolerance) / tolerance) : 0;
+      if (steps > 0) {
+        penalties.push({
+          attribute: 'engineSize',
+          targetValue: `${targetEngineSize} cm3`,
+          comparableValue: `${compEngineSize} cm3`,
+          factor: Math.pow(1 - weights.engineSize_penalty, steps),
+        });
       }
+    }
 
-      // 4. Fuel type comparison (extract from "Rodzaj paliwa")
-      const targetFuel = this.extractFuelType(targetParams);
-      const compFuel = this.extractFuelType(compParams);
-
-      if (targetFuel && compFuel && targetFuel !== compFuel) {
-        weight *= (1 - this.config.attributeWeights.fuelType_mismatch_penalty);
+    // 2. Horsepower comparison
+    const targetHP = targetAttributes.horsepower;
+    const compHP = compAttributes.horsepower;
+
+    if (targetHP && compHP) {
+      const hpDiff = Math.abs(targetHP - compHP);
+      const tolerance = weights.horsepower_tolerance_hp;
+      const steps = hpDiff > tolerance ? Math.floor((hpDiff - tolerance) / tolerance) : 0;
+      if (steps > 0) {
+        penalties.push({
+          attribute: 'horsepower',
+          targetValue: `${targetHP} HP`,
+          comparableValue: `${compHP} HP`,
+          factor: Math.pow(1 - weights.horsepower_penalty, steps),
+        });
       }
+    }
 
-      // 5. Wheelbase comparison (extract from "Wersja" - look for L1/L2/L3)
-      const targetWheelbase = this.extractWheelbase(targetParams);
-      const compWheelbase = this.extractWheelbase(compParams);
+    // 3. Transmission comparison
+    const targetTransmission = targetAttributes.transmission;
+    const compTransmission = compAttributes.transmission;
+
+    if (targetTransmission && compTransmission && targetTransmission !== compTransmission) {
+      penalties.push({
+        attribute: 'transmission',
+        targetValue: targetTransmission,
+        comparableValue: compTransmission,
+        factor: 1 - weights.transmission_mismatch_penalty,
+      });
+    }
 
-      if (targetWheelbase && compWheelbase && targetWheelbase !== compWheelbase) {
-        weight *= (1 - this.config.attributeWeights.wheelbase_mismatch_penalty);
-      }
+    // 4. Fuel type comparison
+    const targetFuel = targetAttributes.fuelType;
+    const compFuel = compAttributes.fuelType;
+
+    if (targetFuel && compFuel && targetFuel !== compFuel) {
+      penalties.push({
+        attribute: 'fuelType',
+        targetValue: targetFuel,
+        comparableValue: compFuel,
+        factor: 1 - weights.fuelType_mismatch_penalty,
+      });
+    }
 
-    } catch (error) {
-      console.warn(`  ⚠️ Error calculating attribute weight:`, error);
-      // Return 1.0 on error - don't penalize for parsing issues
+    // 5. Wheelbase comparison (L1/L2/L3 from the listed version)
+    const targetWheelbase = targetAttributes.wheelbase;
+    const compWheelbase = compAttributes.wheelbase;
+
+    if (targetWheelbase && compWheelbase && targetWheelbase !== compWheelbase) {
+      penalties.push({
+        attribute: 'wheelbase',
+        targetValue: targetWheelbase,
+        comparableValue: compWheelbase,
+        factor: 1 - weights.wheelbase_mismatch_penalty,
+      });
     }
 
-    return weight;
+    return penalties;
   }
 
   /**
-   * Extract engine size in cc from sourceParameters
-   * Handles formats like "1 995 cm3", "1995 cm3", "2.0"
+   * Weigh a comparable by mileage proximity, equivalency, attributes and listing status
+   * Vehicles with closer mileage to target get higher weight
+   * Apply mileage condition adjustments (high/low mileage bonuses/penalties) to its price
    */
-  private extractEngineSize(params: Record<string, any>): number | null {
-    const field = params['Pojemność skokowa'] || params['Engine size'] || params['engineSize'];
-    if (!field) return null;
-
-    const match = field.toString().match(/(\d[\d\s]*)\s*(cm3|cc)/);
-    if (match) {
-      return parseInt(match[1].replace(/\s/g, ''));
+  private weighComparable(target: Vehicle, comp: ComparableVehicle): MarketValueComparable {
+    // 1. Calculate mileage proximity weight
+    const mileageDiff = Math.abs(comp.mileage - target.mileage);
+    const mileageWeight = 1 / (1 + mileageDiff / 10000); // Closer mileage = higher weight
+
+    // 2. Apply equivalency, attribute and listing status weights
+    // A listing the liveness check found sold or removed weighs by that state, otherwise by the user's status
+    const status = comp.listingState === 'active' ? comp.status : comp.listingState;
+    const statusWeight = this.config.listingStatusWeights?.[status] ?? 1.0;
+    const weight = mileageWeight * comp.equivalencyWeight * comp.attributeWeight * statusWeight;
+
+    // 3. Apply mileage condition adjustments to price
+    let adjustedPrice = comp.priceEur;
+
+    // High mileage penalty
+    if (comp.mileage > 200000) {
+      adjustedPrice *= 0.90; // -10% for >200k km
+    }
+    if (comp.mileage > 250000) {
+      adjustedPrice *= 0.90; // Additional -10% for >250k km (total -19%)
     }
-    return null;
-  }
-
-  /**
-   * Extract horsepower from sourceParameters
-   * Handles formats like "115 KM", "115HP"
-   */
-  private extractHorsepower(params: Record<string, any>): number | null {
-    const field = params['Moc'] || params['Power'] || params['horsepower'];
-    if (!field) return null;
 
-    const match = field.toString().match(/(\d+)\s*(KM|HP|hp)/);
-    if (match) {
-      return parseInt(match[1]);
+    // Low mileage bonus (for old vans)
+    const vehicleAge = new Date().getFullYear() - comp.year;
+    if (comp.mileage < 120000 && vehicleAge > 10) {
+      adjustedPrice *= 1.10; // +10% bonus for low-mileage old vans (golden find!)
     }
-    return null;
+
+    return {
+      vehicleId: comp.id,
+      title: comp.title,
+      sourceUrl: comp.sourceUrl,
+      status,
+      year: comp.year,
+      mileage: comp.mileage,
+      priceEur: comp.priceEur,
+      adjustedPriceEur: adjustedPrice,
+      mileageWeight,
+      equivalencyWeight: comp.equivalencyWeight,
+      attributeWeight: comp.attributeWeight,
+      statusWeight,
+      weight,
+      penalties: comp.penalties,
+    };
   }
 
   /**
-   * Extract transmission type from sourceParameters
-   * Normalizes to "manual" or "automatic"
+   * Calculate the weighted average of the comparables' adjusted prices
    */
-  private extractTransmission(params: Record<string, any>): string | null {
-    const field = params['Skrzynia biegów'] || params['Transmission'] || params['transmission'];
-    if (!field) return null;
+  private calculateWeightedAverage(comparables: MarketValueComparable[]): number {
+    let totalWeightedPrice = 0;
+    let totalWeight = 0;
 
-    const normalized = field.toString().toLowerCase();
-    if (normalized.includes('manual') || normalized.includes('manualna')) {
-      return 'manual';
+    for (const comp of comparables) {
+      totalWeightedPrice += comp.adjustedPriceEur * comp.weight;
+      totalWeight += comp.weight;
     }
-    if (normalized.includes('automatic') || normalized.includes('automatyczna')) {
-      return 'automatic';
+
+    // Handle edge case: avoid division by zero
+    if (totalWeight === 0) {
+      console.warn(`  ⚠️ Total weight is zero, falling back to simple average`);
+      return comparables.reduce((sum, v) => sum + v.priceEur, 0) / comparables.length;
     }
-    return null;
+
+    return totalWeightedPrice / totalWeight;
   }
 
   /**
-   * Extract fuel type from sourceParameters
-   * Normalizes to "diesel", "petrol", "lpg", etc.
+   * Kish effective sample size: (Σw)² / Σw²
+   * Equals the sample size when all weights are equal and shrinks as a few comparables dominate
    */
-  private extractFuelType(params: Record<string, any>): string | null {
-    const field = params['Rodzaj paliwa'] || params['Fuel type'] || params['fuelType'];
-    if (!field) return null;
-
-    const normalized = field.toString().toLowerCase();
-    if (normalized.includes('diesel')) return 'diesel';
-    if (normalized.includes('petrol') || normalized.includes('benzyna')) return 'petrol';
-    if (normalized.includes('lpg')) return 'lpg';
-    if (normalized.includes('electric')) return 'electric';
-    return null;
+  private calculateEffectiveSampleSize(comparables: MarketValueComparable[]): number {
+    const totalWeight = comparables.reduce((sum, comp) => sum + comp.weight, 0);
+    const totalSquaredWeight = comparables.reduce((sum, comp) => sum + comp.weight * comp.weight, 0);
+
+    return totalSquaredWeight === 0 ? 0 : (totalWeight * totalWeight) / totalSquaredWeight;
   }
 
   /**
-   * Extract wheelbase from "Wersja" field
-   * Looks for L1/L2/L3 patterns (short/medium/long wheelbase)
+   * Rate confidence from the effective sample size relative to the minimum comparables
    */
-  private extractWheelbase(params: Record<string, any>): string | null {
-    const field = params['Wersja'] || params['Version'] || params['version'];
-    if (!field) return null;
-
-    const match = field.toString().match(/L([123])/);
-    if (match) {
-      return `L${match[1]}`;
-    }
-    return null;
+  private rateConfidence(effectiveSampleSize: number): MarketValueConfidence {
+    const minRequired = this.config.matchingCriteria.minComparables;
+    if (effectiveSampleSize >= minRequired * HIGH_CONFIDENCE_SAMPLE_FACTOR) return 'high';
+    if (effectiveSampleSize >= minRequired * MEDIUM_CONFIDENCE_SAMPLE_FACTOR) return 'medium';
+    return 'low';
   }
 
   /**
-   * Calculate mileage-weighted average price with equivalency and attribute weights
-   * Vehicles with closer mileage to target get higher weight
-   * Apply mileage condition adjustments (high/low mileage bonuses/penalties)
+   * Rate regression confidence from the (outlier-discounted) training size and fit quality
    */
-  private calculateWeightedAverageWithAttributes(target: Vehicle, comparables: ComparableVehicle[]): number {
-    let totalWeightedPrice = 0;
-    let totalWeight = 0;
-
-    for (const comp of comparables) {
-      // 1. Calculate mileage proximity weight
-      const mileageDiff = Math.abs(comp.mileage - target.mileage);
-      const mileageWeight = 1 / (1 + mileageDiff / 10000); // Closer mileage = higher weight
-
-      // 2. Apply equivalency and attribute weights
-      const combinedWeight = mileageWeight * comp.equivalencyWeight * comp.attributeWeight;
-
-      // 3. Apply mileage condition adjustments to price
-      let adjustedPrice = comp.priceEur;
-
-      // High mileage penalty
-      if (comp.mileage > 200000) {
-        adjustedPrice *= 0.90; // -10% for >200k km
-      }
-      if (comp.mileage > 250000) {
-        adjustedPrice *= 0.90; // Additional -10% for >250k km (total -19%)
-      }
-
-      // Low mileage bonus (for old vans)
-      const vehicleAge = new Date().getFullYear() - comp.year;
-      if (comp.mileage < 120000 && vehicleAge > 10) {
-        adjustedPrice *= 1.10; // +10% bonus for low-mileage old vans (golden find!)
-      }
-
-      // 4. Add to weighted sum
-      totalWeightedPrice += adjustedPrice * combinedWeight;
-      totalWeight += combinedWeight;
-    }
-
-    // Handle edge case: avoid division by zero
-    if (totalWeight === 0) {
-      console.warn(`  ⚠️ Total weight is zero, falling back to simple average`);
-      return comparables.reduce((sum, v) => sum + v.priceEur, 0) / comparables.length;
+  private rateRegressionConfidence(model: MarketPriceModel): MarketValueConfidence {
+    const minTrainingSize = this.config.regressionModel?.minTrainingSize ?? DEFAULT_MIN_TRAINING_SIZE;
+    if (model.effectiveTrainingSize >= minTrainingSize * HIGH_CONFIDENCE_SAMPLE_FACTOR && model.rSquared >= HIGH_CONFIDENCE_R_SQUARED) {
+      return 'high';
     }
-
-    return totalWeightedPrice / totalWeight;
+    if (model.rSquared >= MEDIUM_CONFIDENCE_R_SQUARED) return 'medium';
+    return 'low';
   }
 
   /**
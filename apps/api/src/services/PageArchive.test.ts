@@ -0,0 +1,82 @@
+/**
+ * PageArchive Unit Tests
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { PageArchive, normalizeArchiveUrl } from './PageArchive';
+
+describe('PageArchive', () => {
+  let directory: string;
+  let archive: PageArchive;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'page-archive-'));
+    archive = new PageArchive(path.join(directory, 'run'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  describe('normalizeArchiveUrl', () => {
+    it('should ignore scheme, www, fragments, trailing slashes and tracking parameters', () => {
+      expect(normalizeArchiveUrl('http://WWW.Otomoto.pl/osobowe/renault/trafic/?utm_source=mail&page=2#gallery'))
+        .toBe('https://otomoto.pl/osobowe/renault/trafic?page=2');
+    });
+
+    it('should sort query parameters', () => {
+      expect(normalizeArchiveUrl('https://www.otomoto.pl/osobowe?search%5Bdist%5D=300&page=2'))
+        .toBe(normalizeArchiveUrl('https://otomoto.pl/osobowe?page=2&search[dist]=300'));
+    });
+
+    it('should keep the path case and the root path', () => {
+      expect(normalizeArchiveUrl('https://www.otomoto.pl/oferta/Renault-ID6HG4T1.html'))
+        .toBe('https://otomoto.pl/oferta/Renault-ID6HG4T1.html');
+      expect(normalizeArchiveUrl('https://olx.pl/')).toBe('https://olx.pl/');
+    });
+
+    it('should reject invalid URLs', () => {
+      expect(() => normalizeArchiveUrl('/oferta/relative.html')).toThrow('Invalid URL');
+    });
+  });
+
+  it('should save and load pages by normalized URL', () => {
+    const url = 'https://www.otomoto.pl/oferta/renault-trafic-ID6HG4T1.html';
+    const metadata = archive.save(
+      url,
+      { html: '<html>Trafic</html>', finalUrl: url, statusCode: 200 },
+      new Date('2024-03-01T10:00:00Z')
+    );
+
+    expect(metadata).toEqual({
+      url,
+      normalizedUrl: 'https://otomoto.pl/oferta/renault-trafic-ID6HG4T1.html',
+      finalUrl: url,
+      statusCode: 200,
+      capturedAt: '2024-03-01T10:00:00.000Z',
+      htmlFile: expect.stringMatching(/^otomoto-pl-[0-9a-f]{16}\.html$/),
+    });
+    expect(archive.load('http://otomoto.pl/oferta/renault-trafic-ID6HG4T1.html?utm_medium=feed')).toEqual({
+      ...metadata,
+      html: '<html>Trafic</html>',
+    });
+  });
+
+  it('should return null for pages that were never captured', () => {
+    expect(archive.load('https://www.otomoto.pl/oferta/missing.html')).toBeNull();
+  });
+
+  it('should replace earlier captures and list pages oldest first', () => {
+    archive.save('https://olx.pl/b', { html: 'b', finalUrl: 'https://olx.pl/b', statusCode: 200 }, new Date('2024-03-02T00:00:00Z'));
+    archive.save('https://olx.pl/a', { html: 'old', finalUrl: 'https://olx.pl/a', statusCode: 200 }, new Date('2024-03-01T00:00:00Z'));
+    archive.save('https://olx.pl/a', { html: 'new', finalUrl: 'https://olx.pl/a', statusCode: 410 }, new Date('2024-03-03T00:00:00Z'));
+
+    expect(archive.list().map(page => [page.url, page.statusCode])).toEqual([
+      ['https://olx.pl/b', 200],
+      ['https://olx.pl/a', 410],
+    ]);
+    expect(archive.load('https://olx.pl/a')?.html).toBe('new');
+  });
+});
@@ -0,0 +1,131 @@
+/**
+ * PageArchive - Directory of saved marketplace pages, keyed by normalized URL
+ *
+ * Each page is stored as <key>.html with a <key>.json metadata file next to it. The key is a
+ * hash of the normalized URL, so the same listing is found again regardless of tracking
+ * parameters, query parameter order, "www." or a trailing slash. Written by the scraper's
+ * capture mode and read by ArchiveScraperService to replay ingestion runs offline.
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { ScrapingResult } from '@car-finder/services';
+
+/**
+ * Metadata stored next to each archived page
+ */
+export interface ArchivedPageMetadata {
+  url: string; // URL as requested
+  normalizedUrl: string;
+  finalUrl: string; // After redirects
+  statusCode: number;
+  capturedAt: string; // ISO timestamp
+  htmlFile: string; // File name within the archive directory
+}
+
+export interface ArchivedPage extends ArchivedPageMetadata {
+  html: string;
+}
+
+// Query parameters that only track the visitor and never change the page content
+const TRACKING_PARAMS = /^(utm_.*|fbclid|gclid|ref|reason)$/i;
+
+/**
+ * Normalize a URL so the same page always maps to the same archive entry
+ * Lowercases the host, drops "www.", the fragment, tracking parameters and a trailing slash,
+ * sorts the query parameters and treats http and https as the same page
+ */
+export function normalizeArchiveUrl(url: string): string {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new Error(`Invalid URL: ${url}`);
+  }
+
+  const params = Array.from(parsed.searchParams.entries())
+    .filter(([name]) => !TRACKING_PARAMS.test(name))
+    .sort(([a, aValue], [b, bValue]) => (a === b ? aValue.localeCompare(bValue) : a.localeCompare(b)));
+  const query = new URLSearchParams(params).toString();
+
+  const host = parsed.host.toLowerCase().replace(/^www\./, '');
+  const pathname = parsed.pathname.length > 1 ? parsed.pathname.replace(/\/+$/, '') : parsed.pathname;
+
+  return `https://${host}${pathname}${query ? `?${query}` : ''}`;
+}
+
+export class PageArchive {
+  constructor(private readonly directory: string) {}
+
+  /**
+   * File name stem of the archive entry for a URL
+   */
+  static keyFor(url: string): string {
+    const normalizedUrl = normalizeArchiveUrl(url);
+    const host = new URL(normalizedUrl).host.replace(/[^a-z0-9]+/g, '-');
+    const hash = crypto.createHash('sha256').update(normalizedUrl).digest('hex').slice(0, 16);
+    return `${host}-${hash}`;
+  }
+
+  /**
+   * Archive a scraped page, replacing any earlier capture of the same URL
+   */
+  save(url: string, result: Pick<ScrapingResult, 'html' | 'finalUrl' | 'statusCode'>, capturedAt: Date = new Date()): ArchivedPageMetadata {
+    try {
+      fs.mkdirSync(this.directory, { recursive: true });
+
+      const key = PageArchive.keyFor(url);
+      const metadata: ArchivedPageMetadata = {
+        url,
+        normalizedUrl: normalizeArchiveUrl(url),
+        finalUrl: result.finalUrl,
+        statusCode: result.statusCode,
+        capturedAt: capturedAt.toISOString(),
+        htmlFile: `${key}.html`,
+      };
+
+      fs.writeFileSync(path.join(this.directory, metadata.htmlFile), result.html, 'utf-8');
+      fs.writeFileSync(path.join(this.directory, `${key}.json`), JSON.stringify(metadata, null, 2), 'utf-8');
+
+      return metadata;
+    } catch (error) {
+      console.error(`❌ Failed to archive page ${url}:`, error);
+      throw new Error(`Page archive failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Load the archived page for a URL
+   * @returns The page, or null when the URL was never captured
+   */
+  load(url: string): ArchivedPage | null {
+    const metadataPath = path.join(this.directory, `${PageArchive.keyFor(url)}.json`);
+    if (!fs.existsSync(metadataPath)) {
+      return null;
+    }
+
+    try {
+      const metadata = JSON.parse(fs.readFileSync(metadataPath, 'utf-8')) as ArchivedPageMetadata;
+      const html = fs.readFileSync(path.join(this.directory, metadata.htmlFile), 'utf-8');
+      return { ...metadata, html };
+    } catch (error) {
+      console.error(`❌ Failed to read archived page ${url}:`, error);
+      throw new Error(`Page archive read failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Metadata of every archived page, oldest capture first
+   */
+  list(): ArchivedPageMetadata[] {
+    if (!fs.existsSync(this.directory)) {
+      return [];
+    }
+
+    return fs.readdirSync(this.directory)
+      .filter(file => file.endsWith('.json'))
+      .map(file => JSON.parse(fs.readFileSync(path.join(this.directory, file), 'utf-8')) as ArchivedPageMetadata)
+      .sort((a, b) => a.capturedAt.localeCompare(b.capturedAt));
+  }
+}
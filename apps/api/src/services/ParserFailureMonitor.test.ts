@@ -0,0 +1,54 @@
+/**
+ * ParserFailureMonitor Unit Tests
+ */
+
+import { ParserFailureMonitor, missingRequiredFields } from './ParserFailureMonitor';
+
+function recordPages(monitor: ParserFailureMonitor, source: string, pages: number, failures: number): void {
+  for (let i = 0; i < pages; i++) {
+    monitor.record(source, i < failures);
+  }
+}
+
+describe('ParserFailureMonitor', () => {
+  it('should abort once enough pages were parsed and too many failed', () => {
+    const monitor = new ParserFailureMonitor({ maxFailureRate: 0.5, minPages: 10 });
+    recordPages(monitor, 'olx', 10, 6);
+
+    expect(() => monitor.assertHealthy('olx')).toThrow(
+      "Parser failure threshold exceeded for olx: 6/10 pages failed to parse (max 50%) - the site's layout may have changed"
+    );
+  });
+
+  it('should not judge a source before minPages pages were parsed', () => {
+    const monitor = new ParserFailureMonitor({ maxFailureRate: 0.5, minPages: 10 });
+    recordPages(monitor, 'olx', 9, 9);
+
+    expect(() => monitor.assertHealthy('olx')).not.toThrow();
+    expect(() => monitor.assertHealthy('otomoto')).not.toThrow();
+  });
+
+  it('should allow failure rates up to the threshold', () => {
+    const monitor = new ParserFailureMonitor({ maxFailureRate: 0.5, minPages: 10 });
+    recordPages(monitor, 'olx', 10, 5);
+
+    expect(() => monitor.assertHealthy('olx')).not.toThrow();
+  });
+
+  it('should count every source separately', () => {
+    const monitor = new ParserFailureMonitor({ maxFailureRate: 0.2, minPages: 5 });
+    recordPages(monitor, 'otomoto', 20, 0);
+    recordPages(monitor, 'olx', 5, 5);
+
+    expect(() => monitor.assertHealthy('otomoto')).not.toThrow();
+    expect(() => monitor.assertHealthy('olx')).toThrow('Parser failure threshold exceeded for olx: 5/5 pages');
+  });
+});
+
+describe('missingRequiredFields', () => {
+  it('should list the essentials a parsed detail page lacks', () => {
+    expect(missingRequiredFields({ sourceTitle: 'Renault Trafic', pricePln: 42900 })).toEqual([]);
+    expect(missingRequiredFields({ sourceTitle: '', pricePln: 0 })).toEqual(['sourceTitle', 'pricePln']);
+    expect(missingRequiredFields({ sourceTitle: 'Renault Trafic' })).toEqual(['pricePln']);
+  });
+});
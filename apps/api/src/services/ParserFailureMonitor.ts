@@ -0,0 +1,73 @@
+/**
+ * ParserFailureMonitor - Aborts ingestion when a site's pages stop parsing
+ *
+ * When a marketplace changes its layout, every page either fails to parse or comes back
+ * without the essentials, and ingestion would fill the database with empty vehicles.
+ * Ingestion records the parse outcome of every page per source; once enough pages were
+ * seen and the failure rate is above the threshold, the run is aborted.
+ */
+
+import { Vehicle, VehicleSource } from '@car-finder/types';
+
+export interface ParserFailureThreshold {
+  maxFailureRate: number; // 0-1, e.g. 0.5 aborts when more than half the pages fail
+  minPages: number; // Pages parsed before the rate is trusted
+}
+
+export const DEFAULT_PARSER_FAILURE_THRESHOLD: ParserFailureThreshold = {
+  maxFailureRate: 0.5,
+  minPages: 10,
+};
+
+// A detail page without these was not really parsed
+const REQUIRED_DETAIL_FIELDS = ['sourceTitle', 'pricePln'] as const;
+
+/**
+ * Required fields a parsed detail page is missing
+ */
+export function missingRequiredFields(data: Partial<Vehicle>): string[] {
+  return REQUIRED_DETAIL_FIELDS.filter(field => !data[field]);
+}
+
+/**
+ * Thrown when a source's failure rate is above the threshold; ingestion stops the run on it
+ */
+export class ParserFailureThresholdError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ParserFailureThresholdError';
+  }
+}
+
+export class ParserFailureMonitor {
+  private counts = new Map<VehicleSource, { pages: number; failures: number }>();
+
+  constructor(private readonly threshold: ParserFailureThreshold = DEFAULT_PARSER_FAILURE_THRESHOLD) {}
+
+  /**
+   * Record the outcome of parsing one page
+   */
+  record(source: VehicleSource, failed: boolean): void {
+    const counts = this.counts.get(source) || { pages: 0, failures: 0 };
+    counts.pages++;
+    if (failed) counts.failures++;
+    this.counts.set(source, counts);
+  }
+
+  /**
+   * @throws Error when the source has parsed at least minPages pages and too many failed
+   */
+  assertHealthy(source: VehicleSource): void {
+    const counts = this.counts.get(source);
+    if (!counts || counts.pages < this.threshold.minPages) {
+      return;
+    }
+
+    if (counts.failures / counts.pages > this.threshold.maxFailureRate) {
+      throw new ParserFailureThresholdError(
+        `Parser failure threshold exceeded for ${source}: ${counts.failures}/${counts.pages} pages failed to parse ` +
+        `(max ${Math.round(this.threshold.maxFailureRate * 100)}%) - the site's layout may have changed, check parser-schema.json with pnpm parser:test`
+      );
+    }
+  }
+}
@@ -0,0 +1,134 @@
+/**
+ * ParserSchema Unit Tests
+ */
+
+import * as fs from 'fs';
+import { WorkspaceUtils } from '@car-finder/services';
+import { configuredFields, validateParserSchema } from './ParserSchema';
+
+function jsonSite(detailFields: Record<string, string> = { sourceTitle: 'title' }) {
+  return {
+    method: 'json',
+    autoDetection: { searchPageIndicator: 'props.pageProps.urqlState', detailPageIndicator: 'props.pageProps.advert' },
+    pageTypes: {
+      search: {
+        basePath: 'props.pageProps.urqlState',
+        dataPath: 'data',
+        listPath: 'advertSearch.edges',
+        fields: { sourceUrl: 'node.url', sourceTitle: 'node.title' },
+      },
+      detail: { basePath: 'props.pageProps.advert', fields: detailFields },
+    },
+  };
+}
+
+function cssSite(searchSelectors: Record<string, string> = { listItems: '.card', sourceUrl: 'a[href]', sourceTitle: 'h4' }) {
+  return {
+    method: 'css',
+    baseUrl: 'https://www.olx.pl',
+    autoDetection: { searchPageIndicator: '[data-testid="listing-grid"]', detailPageIndicator: '[data-testid="ad_title"]' },
+    pageTypes: {
+      search: { selectors: searchSelectors },
+      detail: { selectors: { sourceTitle: 'h4', sourceParameters: 'p' }, parameterMapping: { year: 'Rok produkcji' } },
+    },
+  };
+}
+
+describe('validateParserSchema', () => {
+  it('should accept the workspace parser-schema.json', () => {
+    const schema = JSON.parse(fs.readFileSync(WorkspaceUtils.resolveSchemaFile('parser-schema.json'), 'utf-8'));
+
+    expect(() => validateParserSchema(schema)).not.toThrow();
+  });
+
+  it('should accept json and css sites', () => {
+    const schema = validateParserSchema({ sites: { otomoto: jsonSite(), olx: cssSite() } });
+
+    expect(schema.sites.otomoto.method).toBe('json');
+    expect(schema.sites.olx.method).toBe('css');
+  });
+
+  it.each([
+    ['details[label=Przebieg.value', "invalid path 'details[label=Przebieg.value'"],
+    ['details[label=Przebieg]value', "invalid path 'details[label=Przebieg]value'"],
+    ['price..value', "invalid path 'price..value'"],
+    ['', 'must be a non-empty JSON path'],
+  ])('should reject the field path "%s"', (path, message) => {
+    expect(() => validateParserSchema({ sites: { otomoto: jsonSite({ mileage: path }) } }))
+      .toThrow(`sites.otomoto.pageTypes.detail.fields.mileage: ${message}`);
+  });
+
+  it('should accept array lookups in field paths', () => {
+    const site = jsonSite({ year: 'details[label=Rok produkcji].value', memberSince: 'seller.featuresBadges[code=registration-date].label' });
+
+    expect(() => validateParserSchema({ sites: { otomoto: site } })).not.toThrow();
+  });
+
+  it('should reject unknown field names', () => {
+    expect(() => validateParserSchema({ sites: { otomoto: jsonSite({ milage: 'details[label=Przebieg].value' }) } }))
+      .toThrow('sites.otomoto.pageTypes.detail.fields.milage: unknown field');
+  });
+
+  it('should reject malformed CSS selectors', () => {
+    const site = cssSite({ listItems: '[data-cy="l-card"', sourceUrl: 'a[href]', sourceTitle: 'h4' });
+
+    expect(() => validateParserSchema({ sites: { olx: site } }))
+      .toThrow(`sites.olx.pageTypes.search.selectors.listItems: invalid CSS selector '[data-cy="l-card"'`);
+  });
+
+  it('should require list item, link and title selectors on CSS search pages', () => {
+    expect(() => validateParserSchema({ sites: { olx: cssSite({ sourceUrl: 'a[href]' }) } }))
+      .toThrow(/listItems: required for search pages; .*sourceTitle: required for search pages/);
+  });
+
+  it('should require auto-detection for json sites', () => {
+    const { autoDetection, ...site } = jsonSite();
+
+    expect(() => validateParserSchema({ sites: { otomoto: site } }))
+      .toThrow('sites.otomoto.autoDetection: required for the json method');
+  });
+
+  it('should require listing state indicators to be lists of strings', () => {
+    const site = { ...jsonSite(), listingState: { inactiveIndicators: ['ogłoszenie nieaktualne'], soldIndicators: 'sprzedany' } };
+
+    expect(() => validateParserSchema({ sites: { otomoto: site } }))
+      .toThrow('sites.otomoto.listingState.soldIndicators: must be a list of strings');
+  });
+
+  it('should reject unknown page types and parameter mappings', () => {
+    const site = cssSite();
+    const schema = {
+      sites: {
+        olx: {
+          ...site,
+          pageTypes: { ...site.pageTypes, listing: { selectors: { sourceTitle: 'h4' } }, detail: { selectors: { sourceTitle: 'h4' }, parameterMapping: { milage: 'Przebieg' } } },
+        },
+      },
+    };
+
+    expect(() => validateParserSchema(schema)).toThrow('sites.olx.pageTypes.listing: unknown page type');
+    expect(() => validateParserSchema(schema)).toThrow('sites.olx.pageTypes.detail.parameterMapping.milage: unknown field');
+  });
+
+  it('should report every problem at once', () => {
+    const schema = { sites: { otomoto: jsonSite({ mileage: 'a[b' }), olx: { ...cssSite(), baseUrl: 'olx.pl', method: 'css' } } };
+
+    expect(() => validateParserSchema(schema))
+      .toThrow("Invalid schema: sites.otomoto.pageTypes.detail.fields.mileage: invalid path 'a[b'; sites.olx.baseUrl: must be an absolute URL");
+  });
+});
+
+describe('configuredFields', () => {
+  it('should list the configured fields without the list item selector, plus mapped parameters', () => {
+    const schema = validateParserSchema({ sites: { olx: cssSite() } });
+
+    expect(configuredFields(schema.sites.olx, 'search')).toEqual(['sourceUrl', 'sourceTitle']);
+    expect(configuredFields(schema.sites.olx, 'detail')).toEqual(['sourceTitle', 'sourceParameters', 'year']);
+  });
+
+  it('should return no fields for page types the site does not configure', () => {
+    const schema = validateParserSchema({ sites: { olx: { method: 'css', pageTypes: { detail: { selectors: { sourceTitle: 'h4' } } } } } });
+
+    expect(configuredFields(schema.sites.olx, 'search')).toEqual([]);
+  });
+});
@@ -0,0 +1,331 @@
+/**
+ * ParserSchema - Typed definition and validation of parser-schema.json
+ *
+ * Every site is parsed either from embedded JSON ('json', field paths such as
+ * "details[label=Przebieg].value") or with CSS selectors ('css'). The schema is validated
+ * when it is loaded, so a typo in a path, selector or field name fails immediately
+ * instead of silently extracting nulls from every page.
+ */
+
+import * as cheerio from 'cheerio';
+import type { PageType } from './ParserService';
+
+export const PAGE_TYPES: readonly PageType[] = ['search', 'detail'];
+
+// Fields of a search result (SearchResult)
+export const SEARCH_FIELDS = ['sourceId', 'sourceUrl', 'sourceTitle', 'sourceCreatedAt'] as const;
+
+// Fields the parser extracts from a detail page; seller fields end up in sellerInfo
+export const DETAIL_FIELDS = [
+  'sourceId',
+  'sourceUrl',
+  'sourceTitle',
+  'sourceCreatedAt',
+  'sourceDescriptionHtml',
+  'sourceParameters',
+  'sourceEquipment',
+  'sourcePhotos',
+  'title',
+  'description',
+  'pricePln',
+  'priceCurrency',
+  'year',
+  'mileage',
+  'sellerName',
+  'sellerId',
+  'sellerType',
+  'sellerLocation',
+  'memberSince',
+] as const;
+
+// Vehicle fields that parameterMapping can fill from a listing parameter such as "Rok produkcji"
+export const PARAMETER_FIELDS = ['year', 'mileage', 'fuelType', 'transmission'] as const;
+
+// CSS search pages: selector of one listing card, the other selectors are relative to it
+const LIST_ITEMS_SELECTOR = 'listItems';
+
+// Legacy OLX extraction from the window.__PRERENDERED_STATE__ script
+export const PRERENDERED_STATE = 'window.__PRERENDERED_STATE__';
+
+export interface AutoDetectionSchema {
+  searchPageIndicator: string; // JSON path (json) or CSS selector (css)
+  detailPageIndicator: string;
+}
+
+export interface ListingStateSchema {
+  removedStatusCodes?: number[];
+  inactiveIndicators?: string[]; // Generic expiry notices; the listing ended for an unknown reason
+  soldIndicators?: string[]; // Notices that explicitly say the vehicle was sold
+}
+
+export interface JsonPageSchema {
+  basePath: string;
+  dataPath?: string; // Search pages: key holding the serialized search data
+  listPath?: string; // Search pages: path of the result list within it
+  fields: Record<string, string>; // Field name -> JSON path
+  parameterMapping?: Record<string, string>;
+}
+
+export interface CssPageSchema {
+  selectors: Record<string, string>; // Field name -> CSS selector
+  parameterMapping?: Record<string, string>; // Vehicle field -> parameter label
+}
+
+export interface JsonSiteSchema {
+  method: 'json';
+  scriptSelector?: string;
+  dataExtraction?: typeof PRERENDERED_STATE;
+  autoDetection: AutoDetectionSchema;
+  listingState?: ListingStateSchema;
+  pageTypes: Partial<Record<PageType, JsonPageSchema>>;
+}
+
+export interface CssSiteSchema {
+  method: 'css';
+  baseUrl?: string; // Resolves relative links; links to other sites are skipped
+  autoDetection?: AutoDetectionSchema;
+  listingState?: ListingStateSchema;
+  pageTypes: Partial<Record<PageType, CssPageSchema>>;
+}
+
+export type SiteSchema = JsonSiteSchema | CssSiteSchema;
+
+export interface ParserSchema {
+  sites: Record<string, SiteSchema>;
+}
+
+/**
+ * Field names configured for a page type, in schema order
+ * CSS search pages leave out the listItems selector; parameterMapping fields are included
+ */
+export function configuredFields(site: SiteSchema, pageType: PageType): string[] {
+  const page = site.pageTypes[pageType];
+  if (!page) return [];
+
+  const fields = 'selectors' in page
+    ? Object.keys(page.selectors).filter(field => field !== LIST_ITEMS_SELECTOR)
+    : Object.keys(page.fields);
+  const mapped = Object.keys(page.parameterMapping || {}).filter(field => !fields.includes(field));
+
+  return [...fields, ...mapped];
+}
+
+/**
+ * Check a parsed parser-schema.json and return it typed
+ * @throws Error listing every problem found, e.g.
+ *   "Invalid schema: sites.otomoto.pageTypes.detail.fields.mileage: invalid path 'details[label=Przebieg.value'"
+ */
+export function validateParserSchema(raw: unknown): ParserSchema {
+  if (!isObject(raw) || !isObject(raw.sites)) {
+    throw new Error('Invalid schema: missing or invalid sites configuration');
+  }
+
+  const errors: string[] = [];
+  for (const [siteKey, site] of Object.entries(raw.sites)) {
+    validateSite(site, `sites.${siteKey}`, errors);
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid schema: ${errors.join('; ')}`);
+  }
+
+  return raw as unknown as ParserSchema;
+}
+
+function validateSite(site: unknown, at: string, errors: string[]): void {
+  if (!isObject(site)) {
+    errors.push(`${at}: must be an object`);
+    return;
+  }
+
+  if (site.method !== 'json' && site.method !== 'css') {
+    errors.push(`${at}.method: unsupported parsing method '${String(site.method)}' (expected json or css)`);
+    return;
+  }
+
+  const isJson = site.method === 'json';
+  const isPrerendered = site.dataExtraction === PRERENDERED_STATE;
+  if (site.dataExtraction !== undefined && !isPrerendered) {
+    errors.push(`${at}.dataExtraction: unsupported value '${String(site.dataExtraction)}'`);
+  }
+  if (site.scriptSelector !== undefined) {
+    checkSelector(site.scriptSelector, `${at}.scriptSelector`, errors);
+  }
+  if (site.baseUrl !== undefined && !isAbsoluteUrl(site.baseUrl)) {
+    errors.push(`${at}.baseUrl: must be an absolute URL`);
+  }
+
+  if (site.autoDetection !== undefined) {
+    const check = isJson ? checkPath : checkSelector;
+    if (!isObject(site.autoDetection)) {
+      errors.push(`${at}.autoDetection: must be an object`);
+    } else {
+      check(site.autoDetection.searchPageIndicator, `${at}.autoDetection.searchPageIndicator`, errors);
+      check(site.autoDetection.detailPageIndicator, `${at}.autoDetection.detailPageIndicator`, errors);
+    }
+  } else if (isJson) {
+    errors.push(`${at}.autoDetection: required for the json method`);
+  }
+
+  if (site.listingState !== undefined) {
+    validateListingState(site.listingState, `${at}.listingState`, errors);
+  }
+
+  if (!isObject(site.pageTypes) || Object.keys(site.pageTypes).length === 0) {
+    errors.push(`${at}.pageTypes: must configure at least one page type`);
+    return;
+  }
+
+  for (const [pageType, page] of Object.entries(site.pageTypes)) {
+    const pageAt = `${at}.pageTypes.${pageType}`;
+    if (!PAGE_TYPES.includes(pageType as PageType)) {
+      errors.push(`${pageAt}: unknown page type (expected ${PAGE_TYPES.join(' or ')})`);
+    } else if (!isObject(page)) {
+      errors.push(`${pageAt}: must be an object`);
+    } else if (isJson) {
+      validateJsonPage(page, pageType as PageType, isPrerendered, pageAt, errors);
+    } else {
+      validateCssPage(page, pageType as PageType, pageAt, errors);
+    }
+  }
+}
+
+function validateJsonPage(
+  page: Record<string, unknown>,
+  pageType: PageType,
+  isPrerendered: boolean,
+  at: string,
+  errors: string[]
+): void {
+  checkPath(page.basePath, `${at}.basePath`, errors);
+
+  // Otomoto search results sit in a serialized JSON string below basePath
+  if (pageType === 'search' && !isPrerendered) {
+    if (typeof page.dataPath !== 'string' || page.dataPath === '') {
+      errors.push(`${at}.dataPath: must be a non-empty string`);
+    }
+    checkPath(page.listPath, `${at}.listPath`, errors);
+  }
+
+  // Prerendered-state search pages carry complete adverts
+  const allowedFields: readonly string[] = pageType === 'search' && !isPrerendered ? SEARCH_FIELDS : DETAIL_FIELDS;
+  validateFields(page.fields, 'fields', allowedFields, checkPath, at, errors);
+  validateParameterMapping(page.parameterMapping, at, errors);
+}
+
+function validateCssPage(page: Record<string, unknown>, pageType: PageType, at: string, errors: string[]): void {
+  const allowedFields: readonly string[] = pageType === 'search' ? [LIST_ITEMS_SELECTOR, ...SEARCH_FIELDS] : DETAIL_FIELDS;
+  validateFields(page.selectors, 'selectors', allowedFields, checkSelector, at, errors);
+
+  // Search results are only kept with a link and a title
+  if (pageType === 'search' && isObject(page.selectors)) {
+    for (const required of [LIST_ITEMS_SELECTOR, 'sourceUrl', 'sourceTitle']) {
+      if (page.selectors[required] === undefined) {
+        errors.push(`${at}.selectors.${required}: required for search pages`);
+      }
+    }
+  }
+
+  validateParameterMapping(page.parameterMapping, at, errors);
+}
+
+function validateFields(
+  fields: unknown,
+  name: string,
+  allowedFields: readonly string[],
+  check: (value: unknown, at: string, errors: string[]) => void,
+  at: string,
+  errors: string[]
+): void {
+  if (!isObject(fields) || Object.keys(fields).length === 0) {
+    errors.push(`${at}.${name}: must map at least one field`);
+    return;
+  }
+
+  for (const [field, value] of Object.entries(fields)) {
+    if (!allowedFields.includes(field)) {
+      errors.push(`${at}.${name}.${field}: unknown field (expected one of ${allowedFields.join(', ')})`);
+    } else {
+      check(value, `${at}.${name}.${field}`, errors);
+    }
+  }
+}
+
+function validateParameterMapping(mapping: unknown, at: string, errors: string[]): void {
+  if (mapping === undefined) return;
+  if (!isObject(mapping)) {
+    errors.push(`${at}.parameterMapping: must be an object`);
+    return;
+  }
+
+  for (const [field, label] of Object.entries(mapping)) {
+    if (!(PARAMETER_FIELDS as readonly string[]).includes(field)) {
+      errors.push(`${at}.parameterMapping.${field}: unknown field (expected one of ${PARAMETER_FIELDS.join(', ')})`);
+    } else if (typeof label !== 'string' || label.trim() === '') {
+      errors.push(`${at}.parameterMapping.${field}: must be a non-empty parameter label`);
+    }
+  }
+}
+
+function validateListingState(listingState: unknown, at: string, errors: string[]): void {
+  if (!isObject(listingState)) {
+    errors.push(`${at}: must be an object`);
+    return;
+  }
+
+  const { removedStatusCodes, inactiveIndicators, soldIndicators } = listingState;
+  if (removedStatusCodes !== undefined &&
+      !(Array.isArray(removedStatusCodes) && removedStatusCodes.every(code => Number.isInteger(code)))) {
+    errors.push(`${at}.removedStatusCodes: must be a list of HTTP status codes`);
+  }
+  Object.entries({ inactiveIndicators, soldIndicators }).forEach(([key, indicators]) => {
+    if (indicators !== undefined &&
+        !(Array.isArray(indicators) && indicators.every(indicator => typeof indicator === 'string'))) {
+      errors.push(`${at}.${key}: must be a list of strings`);
+    }
+  });
+}
+
+/**
+ * JSON path in the syntax ParserService.getNestedValue understands:
+ * dot-separated keys, each optionally an array lookup such as details[label=Rok produkcji]
+ */
+function checkPath(value: unknown, at: string, errors: string[]): void {
+  if (typeof value !== 'string' || value === '') {
+    errors.push(`${at}: must be a non-empty JSON path`);
+    return;
+  }
+
+  const validSegment = /^(?:[\w$-]+|\w+\[\w+=[^\].[]+\])$/;
+  if (!value.split('.').every(segment => validSegment.test(segment))) {
+    errors.push(`${at}: invalid path '${value}'`);
+  }
+}
+
+function checkSelector(value: unknown, at: string, errors: string[]): void {
+  if (typeof value !== 'string' || value.trim() === '') {
+    errors.push(`${at}: must be a non-empty CSS selector`);
+    return;
+  }
+
+  try {
+    // Compiling the selector against an empty document reports syntax errors
+    cheerio.load('')(value);
+  } catch {
+    errors.push(`${at}: invalid CSS selector '${value}'`);
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isAbsoluteUrl(value: unknown): boolean {
+  if (typeof value !== 'string') return false;
+  try {
+    new URL(value);
+    return true;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,91 @@
+/**
+ * ParserSelfTest Unit Tests - runs against the stored parser-samples pages
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { WorkspaceUtils } from '@car-finder/services';
+import { ParserService } from './ParserService';
+import { ParserSelfTest, PageTypeReport } from './ParserSelfTest';
+
+const SAMPLES_DIR = WorkspaceUtils.resolveProjectFile('parser-samples');
+
+function rates(report: PageTypeReport): Record<string, number | null> {
+  return Object.fromEntries(report.fields.map(field => [field.field, field.rate]));
+}
+
+describe('ParserSelfTest', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'parser-self-test-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should extract every configured field from the stored sample pages', () => {
+    const reports = new ParserSelfTest(new ParserService(), SAMPLES_DIR).run();
+
+    expect(reports.map(report => `${report.site}/${report.pageType}`)).toEqual([
+      'otomoto/search',
+      'otomoto/detail',
+      'olx/search',
+      'olx/detail',
+    ]);
+    reports.forEach(report => {
+      expect(report.samples).toBeGreaterThan(0);
+      expect(report.failures).toEqual([]);
+      report.fields.forEach(field => expect(field.rate).toBe(1));
+    });
+  });
+
+  it('should count search results as records', () => {
+    const [report] = new ParserSelfTest(new ParserService(), SAMPLES_DIR).run(['olx']);
+
+    expect(report).toMatchObject({ site: 'olx', pageType: 'search', samples: 2, records: 2 });
+  });
+
+  it('should report fields a changed selector no longer extracts', () => {
+    const schema = JSON.parse(fs.readFileSync(WorkspaceUtils.resolveSchemaFile('parser-schema.json'), 'utf-8'));
+    schema.sites.olx.pageTypes.detail.selectors.pricePln = '[data-testid="ad-price"] h3';
+    const schemaPath = path.join(tempDir, 'parser-schema.json');
+    fs.writeFileSync(schemaPath, JSON.stringify(schema));
+
+    const reports = new ParserSelfTest(new ParserService(schemaPath), SAMPLES_DIR).run(['olx']);
+    const detail = reports.find(report => report.pageType === 'detail')!;
+
+    expect(rates(detail)).toMatchObject({ pricePln: 0, sourceTitle: 1, year: 1 });
+    expect(detail.fields.find(field => field.field === 'pricePln')).toEqual({ field: 'pricePln', extracted: 0, total: 2, rate: 0 });
+  });
+
+  it('should report sample pages that fail to parse', () => {
+    fs.mkdirSync(path.join(tempDir, 'olx'));
+    fs.copyFileSync(path.join(SAMPLES_DIR, 'olx', 'detail-trafic.html'), path.join(tempDir, 'olx', 'detail-trafic.html'));
+    fs.writeFileSync(path.join(tempDir, 'olx', 'detail-redesign.html'), '<html><body><h1>Nowy wygląd</h1></body></html>');
+
+    const reports = new ParserSelfTest(new ParserService(), tempDir).run(['olx']);
+    const detail = reports.find(report => report.pageType === 'detail')!;
+
+    expect(detail).toMatchObject({ samples: 2, records: 1 });
+    expect(detail.failures).toEqual([
+      { file: 'detail-redesign.html', error: 'Unknown page type - neither search nor detail indicators found' },
+    ]);
+  });
+
+  it('should report page types without sample pages', () => {
+    const reports = new ParserSelfTest(new ParserService(), tempDir).run(['otomoto']);
+
+    reports.forEach(report => {
+      expect(report).toMatchObject({ samples: 0, records: 0, failures: [] });
+      report.fields.forEach(field => expect(field.rate).toBeNull());
+    });
+  });
+
+  it('should reject sites missing from the schema', () => {
+    expect(() => new ParserSelfTest(new ParserService(), SAMPLES_DIR).run(['mobile-de']))
+      .toThrow('No configuration found for site: mobile-de');
+  });
+});
@@ -0,0 +1,137 @@
+/**
+ * ParserSelfTest - Runs every site and page type of the parser schema against sample pages
+ *
+ * Sample pages are stored as <samplesDir>/<siteKey>/<pageType>*.html, e.g.
+ * parser-samples/olx/detail-trafic.html. Each page is parsed as its page type and every
+ * configured field is counted as extracted or missing (per search result on search pages),
+ * giving a success rate per field. A field that no sample yields usually means a path or
+ * selector no longer matches the site's layout.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { SellerInfo, Vehicle } from '@car-finder/types';
+import { ParserService, PageType, SearchResult } from './ParserService';
+import { PAGE_TYPES, configuredFields } from './ParserSchema';
+
+// Schema fields stored in sellerInfo after parsing
+const SELLER_FIELDS: Record<string, keyof SellerInfo> = {
+  sellerName: 'name',
+  sellerId: 'id',
+  sellerType: 'type',
+  sellerLocation: 'location',
+  memberSince: 'memberSince',
+};
+
+export interface FieldExtractionRate {
+  field: string;
+  extracted: number;
+  total: number; // Parsed records (detail pages, or search results)
+  rate: number | null; // extracted / total, null without records
+}
+
+export interface SampleFailure {
+  file: string;
+  error: string;
+}
+
+export interface PageTypeReport {
+  site: string;
+  pageType: PageType;
+  samples: number; // Sample pages found
+  records: number; // Detail pages or search results parsed
+  failures: SampleFailure[];
+  fields: FieldExtractionRate[];
+}
+
+export class ParserSelfTest {
+  constructor(
+    private readonly parser: ParserService,
+    private readonly samplesDir: string
+  ) {}
+
+  /**
+   * Test every page type of the given sites (default: all sites in the schema)
+   */
+  run(sites: string[] = Object.keys(this.parser.getSchema().sites)): PageTypeReport[] {
+    const schema = this.parser.getSchema();
+
+    return sites.flatMap(site => {
+      const siteSchema = schema.sites[site];
+      if (!siteSchema) {
+        throw new Error(`No configuration found for site: ${site}`);
+      }
+
+      return PAGE_TYPES
+        .filter(pageType => siteSchema.pageTypes[pageType])
+        .map(pageType => this.testPageType(site, pageType, configuredFields(siteSchema, pageType)));
+    });
+  }
+
+  private testPageType(site: string, pageType: PageType, fields: string[]): PageTypeReport {
+    const files = this.sampleFiles(site, pageType);
+    const failures: SampleFailure[] = [];
+    const records: Record<string, unknown>[] = [];
+
+    for (const file of files) {
+      try {
+        const html = fs.readFileSync(path.join(this.samplesDir, site, file), 'utf-8');
+        const result = this.parser.parseHtml(html, site, pageType);
+        if (pageType === 'search') {
+          records.push(...(result.data as SearchResult[]).map(item => ({ ...item })));
+        } else {
+          records.push(result.data as Partial<Vehicle>);
+        }
+      } catch (error) {
+        failures.push({ file, error: error instanceof Error ? error.message : 'Unknown error' });
+      }
+    }
+
+    return {
+      site,
+      pageType,
+      samples: files.length,
+      records: records.length,
+      failures,
+      fields: fields.map(field => {
+        const extracted = records.filter(record => hasValue(fieldValue(record, field))).length;
+        return { field, extracted, total: records.length, rate: records.length > 0 ? extracted / records.length : null };
+      }),
+    };
+  }
+
+  /**
+   * Sample pages of a page type, sorted by name
+   */
+  private sampleFiles(site: string, pageType: PageType): string[] {
+    const siteDir = path.join(this.samplesDir, site);
+    if (!fs.existsSync(siteDir)) {
+      return [];
+    }
+
+    return fs.readdirSync(siteDir)
+      .filter(file => file.startsWith(pageType) && file.endsWith('.html'))
+      .sort();
+  }
+}
+
+function fieldValue(record: Record<string, unknown>, field: string): unknown {
+  const sellerField = SELLER_FIELDS[field];
+  if (sellerField) {
+    const sellerInfo = record.sellerInfo as SellerInfo | undefined;
+    return sellerInfo?.[sellerField];
+  }
+  return record[field];
+}
+
+/**
+ * Whether a field was extracted - parsers fall back to empty strings, 0 and empty lists
+ */
+function hasValue(value: unknown): boolean {
+  if (value === undefined || value === null || value === '' || value === 0) return false;
+  if (typeof value === 'number') return !isNaN(value);
+  if (value instanceof Date) return !isNaN(value.getTime());
+  if (Array.isArray(value)) return value.length > 0;
+  if (typeof value === 'object') return Object.keys(value).length > 0;
+  return true;
+}
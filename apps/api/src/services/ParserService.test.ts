@@ -19,6 +19,11 @@ describe('ParserService', () => {
           searchPageIndicator: 'props.pageProps.urqlState',
           detailPageIndicator: 'props.pageProps.advert'
         },
+        listingState: {
+          removedStatusCodes: [404, 410],
+          inactiveIndicators: ['Ogłoszenie nieaktualne'],
+          soldIndicators: ['Pojazd został sprzedany']
+        },
         pageTypes: {
           search: {
             basePath: 'props.pageProps.urqlState',
@@ -48,7 +53,7 @@ describe('ParserService', () => {
           detail: {
             selectors: {
               title: 'h1[data-cy="ad_title"]',
-              price: '[data-testid="ad-price-container"]'
+              pricePln: '[data-testid="ad-price-container"]'
             }
           }
         }
@@ -88,6 +93,16 @@ describe('ParserService', () => {
       
       expect(() => new ParserService(mockSchemaPath)).toThrow('Invalid schema: missing or invalid sites configuration');
     });
+
+    it('should throw error when a field path is malformed', () => {
+      const schema = JSON.parse(JSON.stringify(mockSchema));
+      schema.sites.otomoto.pageTypes.detail.fields.mileage = 'details[label=Przebieg.value';
+      mockFs.readFileSync.mockReturnValue(JSON.stringify(schema));
+
+      expect(() => new ParserService(mockSchemaPath)).toThrow(
+        "Invalid schema: sites.otomoto.pageTypes.detail.fields.mileage: invalid path 'details[label=Przebieg.value'"
+      );
+    });
   });
 
   describe('parseHtml Method', () => {
@@ -101,7 +116,7 @@ describe('ParserService', () => {
       expect(() => parserService.parseHtml(html, 'unknown')).toThrow('No configuration found for site: unknown');
     });
 
-    it('should throw error for unsupported parsing method', () => {
+    it('should reject an unsupported parsing method when the schema is loaded', () => {
       const invalidSchema = {
         sites: {
           test: {
@@ -110,9 +125,8 @@ describe('ParserService', () => {
         }
       };
       mockFs.readFileSync.mockReturnValue(JSON.stringify(invalidSchema));
-      parserService = new ParserService(mockSchemaPath);
       
-      expect(() => parserService.parseHtml('<html></html>', 'test')).toThrow('Unsupported parsing method: invalid');
+      expect(() => new ParserService(mockSchemaPath)).toThrow("sites.test.method: unsupported parsing method 'invalid'");
     });
   });
 
@@ -308,6 +322,45 @@ describe('ParserService', () => {
     });
   });
 
+  describe('Listing State Detection', () => {
+    beforeEach(() => {
+      parserService = new ParserService(mockSchemaPath);
+    });
+
+    it('should report missing pages as removed', () => {
+      expect(parserService.detectListingState('<html></html>', 'otomoto', 404)).toBe('removed');
+      expect(parserService.detectListingState('<html></html>', 'otomoto', 410)).toBe('removed');
+    });
+
+    it('should report pages with a generic expiry notice as removed', () => {
+      const html = '<html><body><h2>OGŁOSZENIE   NIEAKTUALNE</h2></body></html>';
+
+      expect(parserService.detectListingState(html, 'otomoto', 200)).toBe('removed');
+    });
+
+    it('should only report pages with an explicit sold notice as sold', () => {
+      const html = '<html><body><h2>Ogłoszenie nieaktualne</h2><p>Pojazd został sprzedany</p></body></html>';
+
+      expect(parserService.detectListingState(html, 'otomoto', 200)).toBe('sold');
+    });
+
+    it('should ignore indicators that only appear inside scripts', () => {
+      const html = '<html><body><script>var t = "ogłoszenie nieaktualne";</script><h1>Fiat Ducato</h1></body></html>';
+
+      expect(parserService.detectListingState(html, 'otomoto', 200)).toBe('active');
+    });
+
+    it('should fall back to default status codes for sites without listing state config', () => {
+      expect(parserService.detectListingState('<html></html>', 'olx', 404)).toBe('removed');
+      expect(parserService.detectListingState('<html><body>Ogłoszenie nieaktualne</body></html>', 'olx', 200)).toBe('active');
+    });
+
+    it('should throw error for unknown site key', () => {
+      expect(() => parserService.detectListingState('<html></html>', 'unknown', 200))
+        .toThrow('No configuration found for site: unknown');
+    });
+  });
+
   describe('Schema Reload', () => {
     it('should reload schema successfully', () => {
       parserService = new ParserService(mockSchemaPath);
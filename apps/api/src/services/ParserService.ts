@@ -1,8 +1,10 @@
 import * as cheerio from 'cheerio';
 import * as fs from 'fs';
 import * as path from 'path';
-import { Vehicle, VehicleSource, SellerInfo, SellerType } from '@car-finder/types';
+import { Vehicle, VehicleSource, SellerInfo, SellerType, ListingState } from '@car-finder/types';
 import { WorkspaceUtils } from '@car-finder/services';
+import { DEFAULT_PLN_TO_EUR_RATE } from './CurrencyService';
+import { ParserSchema, JsonSiteSchema, CssSiteSchema, JsonPageSchema, CssPageSchema, PRERENDERED_STATE, validateParserSchema } from './ParserSchema';
 
 // Parser-specific types
 export type PageType = 'search' | 'detail';
@@ -19,27 +21,8 @@ export interface ParseResult {
   data: SearchResult[] | Partial<Vehicle> | any[];
 }
 
-interface ParserSchema {
-  sites: {
-    [siteKey: string]: {
-      method: 'json' | 'css';
-      scriptSelector?: string;
-      autoDetection?: {
-        searchPageIndicator: string;
-        detailPageIndicator: string;
-      };
-      pageTypes: {
-        [pageType: string]: {
-          basePath?: string;
-          dataPath?: string;
-          listPath?: string;
-          fields?: Record<string, string>;
-          selectors?: Record<string, string>;
-        };
-      };
-    };
-  };
-}
+// HTTP status codes meaning the listing page no longer exists, unless a site overrides them
+const DEFAULT_REMOVED_STATUS_CODES = [404, 410];
 
 export class ParserService {
   private schema!: ParserSchema; // Definite assignment assertion - initialized in loadSchema()
@@ -60,12 +43,7 @@ export class ParserService {
       }
 
       const schemaContent = fs.readFileSync(this.schemaPath, 'utf-8');
-      this.schema = JSON.parse(schemaContent);
-
-      // Basic validation
-      if (!this.schema.sites || typeof this.schema.sites !== 'object') {
-        throw new Error('Invalid schema: missing or invalid sites configuration');
-      }
+      this.schema = validateParserSchema(JSON.parse(schemaContent));
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       throw new Error(`Failed to load parser schema: ${errorMessage}`);
@@ -75,31 +53,72 @@ export class ParserService {
   /**
    * Parse HTML content and return structured data with auto-detected page type
    */
-  public parseHtml(html: string, siteKey: string, expectedType?: PageType): ParseResult {
+  public parseHtml(html: string, siteKey: string, expectedType?: PageType, fetchedAt: Date = new Date()): ParseResult {
     const siteConfig = this.schema.sites[siteKey];
     if (!siteConfig) {
       throw new Error(`No configuration found for site: ${siteKey}`);
     }
 
     if (siteConfig.method === 'json') {
-      return this.parseWithJson(html, siteConfig, expectedType);
+      return this.parseWithJson(html, siteConfig, expectedType, fetchedAt);
     } else if (siteConfig.method === 'css') {
-      return this.parseWithCss(html, siteConfig, expectedType);
+      return this.parseWithCss(html, siteConfig, expectedType, fetchedAt);
     } else {
-      throw new Error(`Unsupported parsing method: ${siteConfig.method}`);
+      throw new Error(`Unsupported parsing method: ${(siteConfig as { method: string }).method}`);
+    }
+  }
+
+  /**
+   * The loaded schema (validated), e.g. to find the configured fields of each page type
+   */
+  public getSchema(): ParserSchema {
+    return this.schema;
+  }
+
+  /**
+   * Detect whether a fetched detail page is still an active listing
+   * Pages with an explicit sold notice are 'sold'. Missing pages and generic expiry notices
+   * such as "ogłoszenie nieaktualne" are 'removed' - the listing may have ended for any reason
+   */
+  public detectListingState(html: string, siteKey: string, statusCode: number): ListingState {
+    const siteConfig = this.schema.sites[siteKey];
+    if (!siteConfig) {
+      throw new Error(`No configuration found for site: ${siteKey}`);
+    }
+
+    const removedStatusCodes = siteConfig.listingState?.removedStatusCodes ?? DEFAULT_REMOVED_STATUS_CODES;
+    if (removedStatusCodes.includes(statusCode)) {
+      return 'removed';
     }
+
+    const soldIndicators = siteConfig.listingState?.soldIndicators ?? [];
+    const inactiveIndicators = siteConfig.listingState?.inactiveIndicators ?? [];
+    if (soldIndicators.length === 0 && inactiveIndicators.length === 0) {
+      return 'active';
+    }
+
+    // Match against visible text only - embedded JSON may contain the phrases in unrelated strings
+    const $ = cheerio.load(html);
+    $('script, style, noscript').remove();
+    const pageText = $('body').text().replace(/\s+/g, ' ').toLowerCase();
+    const shows = (indicators: string[]) => indicators.some(indicator => pageText.includes(indicator.toLowerCase()));
+
+    if (shows(soldIndicators)) {
+      return 'sold';
+    }
+    return shows(inactiveIndicators) ? 'removed' : 'active';
   }
 
   /**
    * Parse HTML using JSON extraction method (for Otomoto)
    */
-  private parseWithJson(html: string, siteConfig: any, expectedType?: PageType): ParseResult {
+  private parseWithJson(html: string, siteConfig: JsonSiteSchema, expectedType: PageType | undefined, fetchedAt: Date): ParseResult {
     const $ = cheerio.load(html);
     
     let nextData: any;
     
     // Handle different JSON extraction methods
-    if (siteConfig.dataExtraction === 'window.__PRERENDERED_STATE__') {
+    if (siteConfig.dataExtraction === PRERENDERED_STATE) {
       // OLX: Extract from window.__PRERENDERED_STATE__
       // Try multiple patterns to find the JSON data
       let match = html.match(/window\.__PRERENDERED_STATE__\s*=\s*"(.+?)";/s);
@@ -167,10 +186,10 @@ export class ParserService {
 
     if (pageType === 'search') {
       // For OLX, extract complete vehicle data from search page
-      if (siteConfig.dataExtraction === 'window.__PRERENDERED_STATE__') {
+      if (siteConfig.dataExtraction === PRERENDERED_STATE) {
         return {
           pageType,
-          data: this.extractOlxSearchVehicles(nextData, pageConfig)
+          data: this.extractOlxSearchVehicles(nextData, pageConfig, fetchedAt)
         };
       } else {
         // For Otomoto, extract search results (URLs only)
@@ -191,11 +210,19 @@ export class ParserService {
   /**
    * Parse HTML using CSS selectors method (for OLX and fallback)
    */
-  private parseWithCss(html: string, siteConfig: any, expectedType?: PageType): ParseResult {
+  private parseWithCss(html: string, siteConfig: CssSiteSchema, expectedType: PageType | undefined, fetchedAt: Date): ParseResult {
     const $ = cheerio.load(html);
     
-    // For CSS method, we assume detail page unless specified
-    const pageType: PageType = expectedType || 'detail';
+    // Without auto-detection selectors, we assume detail page unless specified
+    const pageType: PageType = siteConfig.autoDetection
+      ? this.detectCssPageType($, siteConfig)
+      : expectedType || 'detail';
+
+    // Validate against expected type if provided
+    if (expectedType && pageType !== expectedType) {
+      throw new Error(`Page type mismatch: expected ${expectedType}, detected ${pageType}`);
+    }
+
     const pageConfig = siteConfig.pageTypes[pageType];
     
     if (!pageConfig || !pageConfig.selectors) {
@@ -204,18 +231,40 @@ export class ParserService {
 
     // Handle search pages differently from detail pages
     if (pageType === 'search') {
-      return this.parseSearchPageWithCss($, pageConfig);
+      return this.parseSearchPageWithCss($, pageConfig, siteConfig.baseUrl, fetchedAt);
     } else {
-      return this.parseDetailPageWithCss($, pageConfig, pageType);
+      return this.parseDetailPageWithCss($, pageConfig, pageType, fetchedAt);
+    }
+  }
+
+  /**
+   * Auto-detect page type from the elements present on the page
+   */
+  private detectCssPageType($: cheerio.CheerioAPI, siteConfig: CssSiteSchema): PageType {
+    const { searchPageIndicator, detailPageIndicator } = siteConfig.autoDetection!;
+
+    if (searchPageIndicator && $(searchPageIndicator).length > 0) {
+      return 'search';
     }
+    if (detailPageIndicator && $(detailPageIndicator).length > 0) {
+      return 'detail';
+    }
+
+    throw new Error('Unknown page type - neither search nor detail indicators found');
   }
 
   /**
    * Parse search page using CSS selectors to extract multiple vehicle URLs
    */
-  private parseSearchPageWithCss($: cheerio.CheerioAPI, pageConfig: any): ParseResult {
+  private parseSearchPageWithCss(
+    $: cheerio.CheerioAPI,
+    pageConfig: CssPageSchema,
+    baseUrl: string | undefined,
+    fetchedAt: Date
+  ): ParseResult {
     const selectors = pageConfig.selectors;
     const searchResults: SearchResult[] = [];
+    const seenUrls = new Set<string>();
 
     // Find all listing items
     const listItems = $(selectors.listItems);
@@ -225,22 +274,17 @@ export class ParserService {
         const $item = $(listItem);
         
         // Extract URL - look for link within this item
-        const linkElement = $item.find(selectors.sourceUrl);
-        let sourceUrl = linkElement.attr('href') || '';
-        
-        // Convert relative URLs to absolute URLs for OLX
-        if (sourceUrl && sourceUrl.startsWith('/d/oferta/')) {
-          sourceUrl = `https://www.olx.pl${sourceUrl}`;
-        }
+        const linkElement = $item.find(selectors.sourceUrl).first();
+        const sourceUrl = this.resolveListingUrl(linkElement.attr('href') || '', baseUrl);
         
         // Extract title
-        const titleElement = $item.find(selectors.sourceTitle);
+        const titleElement = $item.find(selectors.sourceTitle).first();
         const sourceTitle = titleElement.text().trim() || '';
         
-        // Extract ID from the list item or URL
+        // Extract ID from an attribute of the list item or from the URL
         let sourceId = '';
         if (selectors.sourceId) {
-          sourceId = $item.attr('id') || '';
+          sourceId = $item.attr(selectors.sourceId) || '';
         }
         if (!sourceId && sourceUrl) {
           // Extract ID from URL pattern like /d/oferta/title-CID5-ID17J4yI.html
@@ -248,13 +292,17 @@ export class ParserService {
           sourceId = idMatch ? idMatch[1] : '';
         }
 
-        // Only add if we have essential data
-        if (sourceUrl && sourceTitle) {
+        // Listing date, e.g. "Wrocław - 12 marca 2024"
+        const dateText = selectors.sourceCreatedAt ? $item.find(selectors.sourceCreatedAt).first().text() : '';
+
+        // Only add if we have essential data - promoted ads repeat listings further down
+        if (sourceUrl && sourceTitle && !seenUrls.has(sourceUrl)) {
+          seenUrls.add(sourceUrl);
           searchResults.push({
             sourceId: sourceId || sourceUrl,
             sourceUrl,
             sourceTitle,
-            sourceCreatedAt: new Date().toISOString() // Default to current time
+            sourceCreatedAt: this.normalizeDateString(dateText, fetchedAt) ?? fetchedAt.toISOString() // Defaults to the fetch time
           });
         }
       } catch (error) {
@@ -269,39 +317,97 @@ export class ParserService {
     };
   }
 
+  /**
+   * Resolve a listing link against the site's base URL
+   * Tracking parameters are dropped so the URL identifies the listing, and links to
+   * other sites (e.g. Otomoto ads shown in OLX results) are skipped
+   * @returns Absolute URL, or empty string when the link is skipped
+   */
+  private resolveListingUrl(href: string, baseUrl?: string): string {
+    if (!href) return '';
+    if (!baseUrl) return href;
+
+    try {
+      const url = new URL(href, baseUrl);
+      const base = new URL(baseUrl);
+      if (url.hostname.replace(/^www\./, '') !== base.hostname.replace(/^www\./, '')) {
+        return '';
+      }
+
+      url.search = '';
+      url.hash = '';
+      return url.toString();
+    } catch {
+      return '';
+    }
+  }
+
   /**
    * Parse detail page using CSS selectors to extract single vehicle data
    */
-  private parseDetailPageWithCss($: cheerio.CheerioAPI, pageConfig: any, pageType: PageType): ParseResult {
+  private parseDetailPageWithCss($: cheerio.CheerioAPI, pageConfig: CssPageSchema, pageType: PageType, fetchedAt: Date): ParseResult {
     const data: Partial<Vehicle> = {};
+    const sellerData: Partial<SellerInfo> = {};
     
     // Extract data using CSS selectors
     for (const [field, selector] of Object.entries(pageConfig.selectors)) {
       try {
-        const element = $(selector as string);
-        if (element.length > 0) {
-          if (field === 'sourcePhotos') {
-            // Handle multiple images
-            const photos: string[] = [];
-            element.each((_, el) => {
-              const src = $(el).attr('src') || $(el).attr('data-src');
-              if (src) photos.push(src);
-            });
-            (data as any)[field] = photos;
-          } else {
-            // Handle single values
-            let value = element.text().trim();
-            if (!value && (element.attr('href') || element.attr('content'))) {
-              value = element.attr('href') || element.attr('content') || '';
-            }
-            
-            // Apply special normalization for date fields
-            if (field === 'sourceCreatedAt' && value) {
-              value = this.normalizeDateString(value);
-            }
-            
-            (data as any)[field] = value;
-          }
+        const element = $(selector);
+        if (element.length === 0) {
+          continue;
+        }
+
+        if (field === 'sourcePhotos') {
+          // Handle multiple images
+          const photos: string[] = [];
+          element.each((_, el) => {
+            const src = $(el).attr('src') || $(el).attr('data-src');
+            if (src) photos.push(src);
+          });
+          (data as any)[field] = photos;
+          continue;
+        }
+
+        if (field === 'sourceParameters') {
+          data.sourceParameters = this.extractCssParameters($, element);
+          continue;
+        }
+
+        if (field === 'sourceDescriptionHtml') {
+          // Keep the markup - line breaks matter for translation
+          data.sourceDescriptionHtml = (element.first().html() || '').trim();
+          continue;
+        }
+
+        // Handle single values
+        const first = element.first();
+        let value = first.text().trim();
+        if (!value && (first.attr('href') || first.attr('content'))) {
+          value = first.attr('href') || first.attr('content') || '';
+        }
+        
+        // Apply special normalization for date fields
+        if (field === 'sourceCreatedAt' && value) {
+          // An unreadable date is left out rather than guessed, so callers can tell it was not found
+          const date = this.normalizeDateString(value, fetchedAt);
+          if (!date) continue;
+          value = date;
+        } else if (field === 'sourceId') {
+          // "ID: 912345678"
+          value = value.replace(/^ID:?\s*/i, '');
+        }
+
+        // Handle seller-related fields
+        if (field === 'sellerName') {
+          sellerData.name = value || null;
+        } else if (field === 'sellerType') {
+          sellerData.type = this.normalizeSellerType(value);
+        } else if (field === 'sellerLocation') {
+          sellerData.location = value || null;
+        } else if (field === 'memberSince') {
+          sellerData.memberSince = value || null;
+        } else {
+          (data as any)[field] = value;
         }
       } catch (error) {
         const errorMessage = error instanceof Error ? error.message : 'Unknown error';
@@ -309,23 +415,71 @@ export class ParserService {
       }
     }
 
+    // Map parameters such as "Rok produkcji" to vehicle fields
+    const parameterMapping: Record<string, string> = pageConfig.parameterMapping || {};
+    const parameters = data.sourceParameters || {};
+    if (parameterMapping.year && parameters[parameterMapping.year]) {
+      const year = parseInt(String(parameters[parameterMapping.year]), 10);
+      if (!isNaN(year)) data.year = year;
+    }
+    if (parameterMapping.mileage && parameters[parameterMapping.mileage]) {
+      const mileage = parseInt(String(parameters[parameterMapping.mileage]).replace(/\D/g, ''), 10);
+      if (!isNaN(mileage)) data.mileage = mileage;
+    }
+
+    if (Object.keys(sellerData).length > 0) {
+      data.sellerInfo = this.toSellerInfo(sellerData);
+    }
+
     return {
       pageType,
       data: this.normalizeVehicleData(data)
     };
   }
 
+  /**
+   * Convert "Label: value" parameter elements to a key-value object
+   * Elements without a label (e.g. "Prywatne") are skipped
+   */
+  private extractCssParameters($: cheerio.CheerioAPI, elements: cheerio.Cheerio<any>): Record<string, string> {
+    const parameters: Record<string, string> = {};
+
+    elements.each((_, el) => {
+      const text = $(el).text().replace(/\s+/g, ' ').trim();
+      const separator = text.indexOf(':');
+      if (separator > 0) {
+        const label = text.slice(0, separator).trim();
+        const value = text.slice(separator + 1).trim();
+        if (label && value) {
+          parameters[label] = value;
+        }
+      }
+    });
+
+    return parameters;
+  }
+
+  /**
+   * Map a seller label such as "Prywatne" or "Firmowe" to a SellerType
+   */
+  private normalizeSellerType(label: string): SellerType {
+    const text = label.toLowerCase();
+    if (text.includes('prywat') || text.includes('private')) return 'private';
+    if (text.includes('firm') || text.includes('business') || text.includes('company')) return 'company';
+    return null;
+  }
+
   /**
    * Auto-detect page type based on JSON structure
    */
-  private detectPageType(nextData: any, siteConfig: any): PageType {
+  private detectPageType(nextData: any, siteConfig: JsonSiteSchema): PageType {
     const { autoDetection } = siteConfig;
     if (!autoDetection) {
       throw new Error('Auto-detection configuration missing');
     }
 
     // Handle OLX structure (different from Otomoto)
-    if (siteConfig.dataExtraction === 'window.__PRERENDERED_STATE__') {
+    if (siteConfig.dataExtraction === PRERENDERED_STATE) {
       // For OLX, check for listing.ads (search) or ad.ad (detail)
       if (autoDetection.searchPageIndicator === 'listing.ads' && this.getNestedValue(nextData, 'listing.ads')) {
         return 'search';
@@ -358,7 +512,7 @@ export class ParserService {
   /**
    * Extract complete vehicle data from OLX search page
    */
-  private extractOlxSearchVehicles(nextData: any, pageConfig: any): any[] {
+  private extractOlxSearchVehicles(nextData: any, pageConfig: JsonPageSchema, fetchedAt: Date): any[] {
     const basePath = pageConfig.basePath;
     const ads = this.getNestedValue(nextData, basePath);
     
@@ -375,10 +529,10 @@ export class ParserService {
       
       // Extract basic fields
       for (const [vehicleField, jsonPath] of Object.entries(fields)) {
-        const value = this.getNestedValue(ad, jsonPath as string);
+        const value = this.getNestedValue(ad, jsonPath);
         if (value !== undefined && value !== null) {
           if (vehicleField === 'sourceCreatedAt' && typeof value === 'string') {
-            vehicle[vehicleField] = this.normalizeDateString(value);
+            vehicle[vehicleField] = this.normalizeDateString(value, fetchedAt) ?? fetchedAt.toISOString();
           } else if (vehicleField === 'sourcePhotos' && Array.isArray(value)) {
             vehicle[vehicleField] = value.map((photo: any) => photo.url || photo).filter(Boolean);
           } else if (vehicleField === 'sourceParameters' && Array.isArray(value)) {
@@ -395,7 +549,7 @@ export class ParserService {
 
       // Convert price to EUR if PLN
       if (vehicle.pricePln && typeof vehicle.pricePln === 'number') {
-        vehicle.priceEur = Math.round(vehicle.pricePln * 0.23); // Use configured rate
+        vehicle.priceEur = Math.round(vehicle.pricePln * DEFAULT_PLN_TO_EUR_RATE); // Repriced at the ad's date on ingest
       }
 
       vehicles.push(vehicle);
@@ -453,10 +607,10 @@ export class ParserService {
   /**
    * Extract search results from JSON data (Otomoto)
    */
-  private extractSearchResults(nextData: any, pageConfig: any): SearchResult[] {
+  private extractSearchResults(nextData: any, pageConfig: JsonPageSchema): SearchResult[] {
     const basePath = pageConfig.basePath;
-    const dataPath = pageConfig.dataPath;
-    const listPath = pageConfig.listPath;
+    const dataPath = pageConfig.dataPath || '';
+    const listPath = pageConfig.listPath || '';
     
     // Navigate to urqlState
     const urqlState = this.getNestedValue(nextData, basePath);
@@ -501,7 +655,7 @@ export class ParserService {
       };
 
       for (const [field, path] of Object.entries(pageConfig.fields)) {
-        const value = this.getNestedValue(item, path as string);
+        const value = this.getNestedValue(item, path);
         if (value !== undefined) {
           (result as any)[field] = String(value);
         }
@@ -514,7 +668,7 @@ export class ParserService {
   /**
    * Extract detailed vehicle data from JSON
    */
-  private extractDetailData(nextData: any, pageConfig: any): Partial<Vehicle> {
+  private extractDetailData(nextData: any, pageConfig: JsonPageSchema): Partial<Vehicle> {
     const basePath = pageConfig.basePath;
     const advertData = this.getNestedValue(nextData, basePath);
     
@@ -591,18 +745,25 @@ export class ParserService {
 
     // Construct SellerInfo object if we have any seller data
     if (Object.keys(sellerData).length > 0) {
-      result.sellerInfo = {
-        name: sellerData.name || null,
-        id: sellerData.id || null,
-        type: sellerData.type || null,
-        location: sellerData.location || null,
-        memberSince: sellerData.memberSince || null
-      };
+      result.sellerInfo = this.toSellerInfo(sellerData);
     }
 
     return result;
   }
 
+  /**
+   * Complete partial seller data, missing fields become null
+   */
+  private toSellerInfo(sellerData: Partial<SellerInfo>): SellerInfo {
+    return {
+      name: sellerData.name || null,
+      id: sellerData.id || null,
+      type: sellerData.type || null,
+      location: sellerData.location || null,
+      memberSince: sellerData.memberSince || null
+    };
+  }
+
   /**
    * Get nested value from object using dot notation path
    * Supports array selectors like: details[label=Rok produkcji].value
@@ -659,8 +820,8 @@ export class ParserService {
     }
 
     // Simple PLN to EUR conversion (should be updated with real exchange rate)
-    const PLN_TO_EUR_RATE = 0.23; // Approximate rate - should be fetched from API
-    const priceEur = Math.round(numericPrice * PLN_TO_EUR_RATE * 100) / 100;
+    // Provisional - ingest reprices at the rate of the ad's creation date (CurrencyService)
+    const priceEur = Math.round(numericPrice * DEFAULT_PLN_TO_EUR_RATE * 100) / 100;
 
     return {
       pricePln: numericPrice,
@@ -695,12 +856,14 @@ export class ParserService {
 
   /**
    * Normalize date strings from various formats to ISO string
+   * Relative dates ("Dzisiaj o 07:18", "3 dni temu") are resolved against the time the page was fetched
+   * @returns null when the date cannot be read
    */
-  private normalizeDateString(dateText: string): string {
-    if (!dateText) return new Date().toISOString();
+  private normalizeDateString(dateText: string, fetchedAt: Date): string | null {
+    if (!dateText) return null;
     
     const cleanText = this.normalizeTextContent(dateText).toLowerCase();
-    const now = new Date();
+    const now = fetchedAt;
     
     // Handle Polish relative dates from OLX
     if (cleanText.includes('dzisiaj') || cleanText.includes('today')) {
@@ -708,7 +871,7 @@ export class ParserService {
       const timeMatch = cleanText.match(/(\d{1,2}):(\d{2})/);
       if (timeMatch) {
         const [, hours, minutes] = timeMatch;
-        const date = new Date();
+        const date = new Date(now);
         date.setHours(parseInt(hours, 10), parseInt(minutes, 10), 0, 0);
         return date.toISOString();
       }
@@ -751,7 +914,7 @@ export class ParserService {
       'lipca': 6, 'sierpnia': 7, 'września': 8, 'października': 9, 'listopada': 10, 'grudnia': 11
     };
     
-    const polishDateMatch = cleanText.match(/(\d{1,2})\s+(\w+)\s+(\d{4})/);
+    const polishDateMatch = cleanText.match(/(\d{1,2})\s+(\p{L}+)\s+(\d{4})/u);
     if (polishDateMatch) {
       const [, day, monthName, year] = polishDateMatch;
       const monthIndex = polishMonths[monthName.toLowerCase()];
@@ -769,9 +932,8 @@ export class ParserService {
       return parsedDate.toISOString();
     }
     
-    // Fallback to current date if parsing fails
-    console.warn(`Could not parse date: "${dateText}", using current date`);
-    return now.toISOString();
+    console.warn(`Could not parse date: "${dateText}"`);
+    return null;
   }
 
   /**
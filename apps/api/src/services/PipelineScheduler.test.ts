@@ -0,0 +1,226 @@
+/**
+ * PipelineScheduler Unit Tests
+ */
+
+import { MockVehicleRepository } from '@car-finder/services';
+import { AnalysisRunLog, IngestionStats, TranslationRunLog } from '@car-finder/types';
+import { PipelineScheduler, PipelineStageRunners, DEFAULT_SCHEDULER_SETTINGS } from './PipelineScheduler';
+
+describe('PipelineScheduler', () => {
+  let repository: MockVehicleRepository;
+  let runners: jest.Mocked<PipelineStageRunners>;
+  let calls: string[];
+
+  const startTime = new Date('2024-03-01T06:00:00Z');
+  const ingestion: IngestionStats = {
+    totalSearchUrls: 2,
+    totalVehicleUrls: 10,
+    newVehicles: 3,
+    changedVehicles: 1,
+    priceChanges: 1,
+    seenListings: 6,
+    duplicateVehicles: 0,
+    failedScrapes: 0,
+    errors: [],
+    startTime,
+  };
+  const translation: TranslationRunLog = {
+    runId: 'translation-1',
+    startTime,
+    vehiclesProcessed: 3,
+    vehiclesCompleted: 3,
+    vehiclesFailed: 0,
+    vehiclesFiltered: 1,
+    failures: [],
+  };
+  const analysis: AnalysisRunLog = {
+    runId: 'analysis-1',
+    startTime,
+    vehiclesProcessed: 2,
+    vehiclesCompleted: 2,
+    vehiclesFailed: 0,
+    failures: [],
+  };
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation();
+    jest.spyOn(console, 'error').mockImplementation();
+
+    repository = new MockVehicleRepository();
+    calls = [];
+    runners = {
+      ingest: jest.fn(async () => { calls.push('ingest'); return ingestion; }),
+      translate: jest.fn(async () => { calls.push('translate'); return translation; }),
+      analyze: jest.fn(async () => { calls.push('analyze'); return analysis; }),
+    };
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    jest.useRealTimers();
+  });
+
+  describe('constructor', () => {
+    it('should reject unknown stages and invalid schedules', () => {
+      expect(() => new PipelineScheduler(repository, runners, {
+        ...DEFAULT_SCHEDULER_SETTINGS,
+        stages: ['ingest', 'scrape' as any],
+      })).toThrow('Unknown pipeline stage: scrape');
+      expect(() => new PipelineScheduler(repository, runners, {
+        ...DEFAULT_SCHEDULER_SETTINGS,
+        schedules: ['every morning'],
+      })).toThrow('Invalid cron expression');
+    });
+  });
+
+  describe('runPipeline', () => {
+    it('should run the stages in order and store their run logs', async () => {
+      const scheduler = new PipelineScheduler(repository, runners);
+
+      const run = await scheduler.runPipeline('schedule', '0 6 * * *');
+
+      expect(calls).toEqual(['ingest', 'translate', 'analyze']);
+      expect(run).toMatchObject({ trigger: 'schedule', schedule: '0 6 * * *', status: 'completed', error: null });
+      expect(await repository.getPipelineRuns()).toEqual([
+        expect.objectContaining({ id: run.id, status: 'completed', ingestion, translation, analysis }),
+      ]);
+      expect(await repository.acquirePipelineLock('other', new Date(Date.now() + 60000))).toBe(true);
+    });
+
+    it('should only run configured stages, in pipeline order', async () => {
+      const scheduler = new PipelineScheduler(repository, runners, {
+        ...DEFAULT_SCHEDULER_SETTINGS,
+        stages: ['analyze', 'translate'],
+      });
+
+      const run = await scheduler.runPipeline();
+
+      expect(calls).toEqual(['translate', 'analyze']);
+      expect(run).toMatchObject({ trigger: 'manual', stages: ['translate', 'analyze'], ingestion: null });
+    });
+
+    it('should stop at a failing stage and release the lock', async () => {
+      runners.translate.mockRejectedValue(new Error('GEMINI_API_KEY is not set'));
+      const scheduler = new PipelineScheduler(repository, runners);
+
+      const run = await scheduler.runPipeline();
+
+      expect(calls).toEqual(['ingest']);
+      expect(run).toMatchObject({
+        status: 'failed',
+        ingestion,
+        translation: null,
+        error: 'translate stage failed: GEMINI_API_KEY is not set',
+      });
+      expect(run.finishedAt).toBeInstanceOf(Date);
+      expect(await repository.acquirePipelineLock('other', new Date(Date.now() + 60000))).toBe(true);
+    });
+
+    it('should fail the run without translating when ingestion aborts on parser failures', async () => {
+      const abortReason = 'Parser failure threshold exceeded for olx: 9/12 pages failed to parse (max 50%)';
+      const aborted = { ...ingestion, errors: [`Pipeline failure: ${abortReason}`], abortReason };
+      runners.ingest.mockImplementation(async () => { calls.push('ingest'); return aborted; });
+      const scheduler = new PipelineScheduler(repository, runners);
+
+      const run = await scheduler.runPipeline('schedule', '0 6 * * *');
+
+      expect(calls).toEqual(['ingest']);
+      expect(run).toMatchObject({
+        status: 'failed',
+        ingestion: aborted,
+        translation: null,
+        error: `ingest stage failed: Ingestion aborted: ${abortReason}`,
+      });
+      expect((await repository.getPipelineRuns())[0]).toMatchObject({ status: 'failed', ingestion: aborted });
+    });
+
+    it('should skip the run while another process holds the lock', async () => {
+      await repository.acquirePipelineLock('other-scheduler', new Date(Date.now() + 60000));
+      const scheduler = new PipelineScheduler(repository, runners);
+
+      const run = await scheduler.runPipeline('schedule', '0 6 * * *');
+
+      expect(calls).toEqual([]);
+      expect(run).toMatchObject({ status: 'skipped', error: 'Another pipeline run is in progress' });
+      expect((await repository.getPipelineRuns())[0].status).toBe('skipped');
+    });
+
+    it('should fail runs left running by a stopped scheduler', async () => {
+      await repository.savePipelineRun({
+        id: 'crashed',
+        trigger: 'schedule',
+        schedule: '0 6 * * *',
+        status: 'running',
+        stages: ['ingest'],
+        startedAt: new Date('2024-02-29T06:00:00Z'),
+        finishedAt: null,
+        ingestion: null,
+        translation: null,
+        analysis: null,
+        error: null,
+      });
+
+      await new PipelineScheduler(repository, runners).runPipeline();
+
+      const crashed = (await repository.getPipelineRuns()).find(run => run.id === 'crashed');
+      expect(crashed).toMatchObject({ status: 'failed' });
+      expect(crashed!.error).toContain('Interrupted');
+    });
+  });
+
+  describe('scheduling', () => {
+    it('should pick the earliest of several schedules', () => {
+      const scheduler = new PipelineScheduler(repository, runners, {
+        ...DEFAULT_SCHEDULER_SETTINGS,
+        schedules: ['0 18 * * *', '30 7 * * *'],
+      });
+
+      expect(scheduler.getNextRun(new Date(2024, 2, 1, 12, 0))).toEqual({
+        at: new Date(2024, 2, 1, 18, 0),
+        schedule: '0 18 * * *',
+      });
+      expect(scheduler.getNextRun(new Date(2024, 2, 1, 19, 0))).toEqual({
+        at: new Date(2024, 2, 2, 7, 30),
+        schedule: '30 7 * * *',
+      });
+    });
+
+    it('should run the pipeline when a schedule fires, then wait for the next one', async () => {
+      jest.useFakeTimers({ now: new Date(2024, 2, 1, 5, 59) });
+      const scheduler = new PipelineScheduler(repository, runners);
+
+      scheduler.start();
+      await jest.advanceTimersByTimeAsync(30 * 1000);
+      expect(runners.ingest).not.toHaveBeenCalled();
+
+      await jest.advanceTimersByTimeAsync(30 * 1000);
+      expect(calls).toEqual(['ingest', 'translate', 'analyze']);
+      expect(await repository.getPipelineRuns()).toEqual([
+        expect.objectContaining({ trigger: 'schedule', schedule: '0 6 * * *', status: 'completed' }),
+      ]);
+      expect(scheduler.getNextRun()!.at).toEqual(new Date(2024, 2, 2, 6, 0));
+
+      await scheduler.stop();
+      await jest.advanceTimersByTimeAsync(24 * 60 * 60 * 1000);
+      expect(runners.ingest).toHaveBeenCalledTimes(1);
+    });
+
+    it('should record a run in progress as interrupted when stopped', async () => {
+      let finishIngest: (stats: IngestionStats) => void = () => undefined;
+      runners.ingest.mockReturnValue(new Promise(resolve => { finishIngest = resolve; }));
+      const scheduler = new PipelineScheduler(repository, runners);
+
+      const running = scheduler.runPipeline();
+      await new Promise(resolve => setImmediate(resolve));
+      await scheduler.stop();
+      finishIngest(ingestion);
+      const run = await running;
+
+      expect(runners.translate).not.toHaveBeenCalled();
+      expect(await repository.getPipelineRuns()).toEqual([
+        expect.objectContaining({ id: run.id, status: 'failed', error: expect.stringContaining('Interrupted') }),
+      ]);
+      expect(await repository.acquirePipelineLock('other', new Date(Date.now() + 60000))).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,242 @@
+/**
+ * PipelineScheduler - Runs ingest → translate → analyze on cron schedules
+ *
+ * Stages run one after another; a failing stage fails the run and skips the rest. A lock in
+ * the database keeps two scheduler processes (or a scheduled and a manual run) from running
+ * the pipeline at the same time, and every run is stored in pipeline_runs with the stage
+ * run logs, saved after each stage so progress is visible while a run is in progress.
+ */
+
+import * as crypto from 'crypto';
+import { IVehicleRepository } from '@car-finder/services';
+import {
+  AnalysisRunLog,
+  IngestionStats,
+  PipelineRun,
+  PipelineStage,
+  TranslationRunLog,
+} from '@car-finder/types';
+import { CronSchedule } from './CronSchedule';
+
+export interface PipelineSchedulerSettings {
+  schedules: string[]; // Cron expressions, server local time
+  stages: PipelineStage[]; // Run in pipeline order regardless of the order given
+  lockTimeoutMinutes: number; // A lock older than this is treated as left by a crashed process
+}
+
+export const DEFAULT_SCHEDULER_SETTINGS: PipelineSchedulerSettings = {
+  schedules: ['0 6 * * *'],
+  stages: ['ingest', 'translate', 'analyze'],
+  lockTimeoutMinutes: 360,
+};
+
+export const PIPELINE_STAGES: PipelineStage[] = ['ingest', 'translate', 'analyze'];
+
+/**
+ * Runs one pipeline stage to completion and returns its run log
+ */
+export interface PipelineStageRunners {
+  ingest(): Promise<IngestionStats>;
+  translate(): Promise<TranslationRunLog>;
+  analyze(): Promise<AnalysisRunLog>;
+}
+
+// setTimeout cannot wait longer than ~24.8 days; longer waits are split
+const MAX_TIMER_DELAY_MS = 2 ** 31 - 1;
+
+export class PipelineScheduler {
+  private readonly owner = crypto.randomUUID();
+  private readonly schedules: CronSchedule[];
+  private readonly stages: PipelineStage[];
+  private started = false;
+  private timer: NodeJS.Timeout | null = null;
+  private activeRun: PipelineRun | null = null;
+
+  constructor(
+    private repository: IVehicleRepository,
+    private runners: PipelineStageRunners,
+    private settings: PipelineSchedulerSettings = DEFAULT_SCHEDULER_SETTINGS
+  ) {
+    const unknownStages = settings.stages.filter(stage => !PIPELINE_STAGES.includes(stage));
+    if (unknownStages.length > 0) {
+      throw new Error(`Unknown pipeline stage: ${unknownStages.join(', ')}. Available: ${PIPELINE_STAGES.join(', ')}`);
+    }
+    if (settings.stages.length === 0) {
+      throw new Error('No pipeline stages configured');
+    }
+
+    this.schedules = settings.schedules.map(expression => new CronSchedule(expression));
+    this.stages = PIPELINE_STAGES.filter(stage => settings.stages.includes(stage));
+  }
+
+  /**
+   * Next scheduled run after the given date, or null when no schedules are configured
+   */
+  getNextRun(after: Date = new Date()): { at: Date; schedule: string } | null {
+    let next: { at: Date; schedule: string } | null = null;
+
+    for (const schedule of this.schedules) {
+      const at = schedule.nextAfter(after);
+      if (!next || at < next.at) {
+        next = { at, schedule: schedule.expression };
+      }
+    }
+
+    return next;
+  }
+
+  /**
+   * Start waiting for scheduled runs. A run still in progress at the next scheduled time
+   * delays that run rather than overlapping it.
+   */
+  start(): void {
+    if (this.schedules.length === 0) {
+      throw new Error('No pipeline schedules configured');
+    }
+
+    this.started = true;
+    this.scheduleNext();
+  }
+
+  /**
+   * Stop scheduling. A run in progress is recorded as interrupted and the lock released,
+   * so the next scheduler process does not have to wait for the lock to expire.
+   */
+  async stop(): Promise<void> {
+    this.started = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    const run = this.activeRun;
+    if (!run) {
+      return;
+    }
+
+    this.activeRun = null;
+    await this.repository.savePipelineRun({
+      ...run,
+      status: 'failed',
+      finishedAt: new Date(),
+      error: 'Interrupted: the scheduler stopped before the run finished',
+    });
+    await this.repository.releasePipelineLock(this.owner);
+  }
+
+  /**
+   * Run the configured stages once, unless another run holds the pipeline lock
+   * @returns The stored run; status 'skipped' when the lock was held elsewhere
+   */
+  async runPipeline(trigger: PipelineRun['trigger'] = 'manual', schedule: string | null = null): Promise<PipelineRun> {
+    const run: PipelineRun = {
+      id: crypto.randomUUID(),
+      trigger,
+      schedule,
+      status: 'running',
+      stages: [...this.stages],
+      startedAt: new Date(),
+      finishedAt: null,
+      ingestion: null,
+      translation: null,
+      analysis: null,
+      error: null,
+    };
+
+    const lockExpiresAt = new Date(run.startedAt.getTime() + this.settings.lockTimeoutMinutes * 60 * 1000);
+    if (!(await this.repository.acquirePipelineLock(this.owner, lockExpiresAt, run.startedAt))) {
+      console.log('⏭️  Another pipeline run is in progress, skipping this run');
+      const skipped: PipelineRun = {
+        ...run,
+        status: 'skipped',
+        finishedAt: new Date(),
+        error: 'Another pipeline run is in progress',
+      };
+      await this.repository.savePipelineRun(skipped);
+      return skipped;
+    }
+
+    this.activeRun = run;
+    let currentStage: PipelineStage | null = null;
+
+    try {
+      const interrupted = await this.repository.failInterruptedPipelineRuns(run.startedAt);
+      if (interrupted > 0) {
+        console.log(`⚠️  Marked ${interrupted} interrupted pipeline run(s) as failed`);
+      }
+
+      console.log(`🚀 Starting pipeline run ${run.id} (${run.stages.join(' → ')})`);
+      await this.repository.savePipelineRun(run);
+
+      for (const stage of run.stages) {
+        currentStage = stage;
+        console.log(`\n▶️  Pipeline stage: ${stage}`);
+
+        if (stage === 'ingest') {
+          run.ingestion = await this.runners.ingest();
+          if (run.ingestion.abortReason) {
+            // Translating and analyzing a half-ingested run would hide the abort
+            throw new Error(`Ingestion aborted: ${run.ingestion.abortReason}`);
+          }
+        } else if (stage === 'translate') {
+          run.translation = await this.runners.translate();
+        } else {
+          run.analysis = await this.runners.analyze();
+        }
+
+        if (this.activeRun !== run) {
+          return run; // Stopped during the stage - stop() has recorded the run
+        }
+        await this.repository.savePipelineRun(run);
+      }
+
+      run.status = 'completed';
+      console.log(`\n✅ Pipeline run ${run.id} completed`);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error(`\n❌ Pipeline run ${run.id} failed${currentStage ? ` in ${currentStage} stage` : ''}:`, errorMessage);
+      run.status = 'failed';
+      run.error = currentStage ? `${currentStage} stage failed: ${errorMessage}` : errorMessage;
+    }
+
+    if (this.activeRun !== run) {
+      return run;
+    }
+
+    this.activeRun = null;
+    run.finishedAt = new Date();
+
+    try {
+      await this.repository.savePipelineRun(run);
+    } finally {
+      await this.repository.releasePipelineLock(this.owner);
+    }
+
+    return run;
+  }
+
+  private scheduleNext(): void {
+    const next = this.getNextRun()!;
+    console.log(`⏰ Next pipeline run at ${next.at.toLocaleString()} (${next.schedule})`);
+
+    const delay = Math.max(0, next.at.getTime() - Date.now());
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      void this.onTimer(next);
+    }, Math.min(delay, MAX_TIMER_DELAY_MS));
+  }
+
+  private async onTimer(next: { at: Date; schedule: string }): Promise<void> {
+    if (Date.now() >= next.at.getTime()) {
+      try {
+        await this.runPipeline('schedule', next.schedule);
+      } catch (error) {
+        console.error('❌ Failed to record pipeline run:', error);
+      }
+    }
+
+    if (this.started) {
+      this.scheduleNext();
+    }
+  }
+}
@@ -0,0 +1,141 @@
+/**
+ * ReparseService Unit Tests
+ */
+
+import { MockVehicleRepository } from '@car-finder/services';
+import { ReparseService } from './ReparseService';
+import { ParserService } from './ParserService';
+import { CurrencyService } from './CurrencyService';
+
+describe('ReparseService', () => {
+  let repository: MockVehicleRepository;
+  let service: ReparseService;
+
+  const url = 'https://www.otomoto.pl/osobowe/oferta/renault-trafic-ID6100001.html';
+
+  function detailPage(details: { label: string; value: string }[]): string {
+    const advert = {
+      id: '6100001',
+      title: 'Renault Trafic 2.0 dCi L2H1',
+      url,
+      createdAt: '2024-02-20T10:00:00Z',
+      price: { value: 42900, currency: 'PLN' },
+      description: '<p>Zadbany bus.</p>',
+      seller: { name: 'Jan', id: '1915462', type: 'PRIVATE', location: { address: 'Wrocław' }, featuresBadges: [] },
+      details,
+      equipment: [],
+      images: { photos: [{ url: 'https://example.com/6100001.jpg' }] },
+    };
+    return `<html><body><script id="__NEXT_DATA__">${JSON.stringify({ props: { pageProps: { advert } } })}</script></body></html>`;
+  }
+
+  beforeEach(async () => {
+    repository = new MockVehicleRepository();
+    service = new ReparseService(new ParserService(), repository, new CurrencyService(repository, { plnToEurRate: 0.25 }));
+
+    await repository.insertVehicle(MockVehicleRepository.createTestVehicle({ id: 'trafic', sourceUrl: url }));
+    await repository.insertVehicle(MockVehicleRepository.createTestVehicle({ id: 'no-page', sourceUrl: 'https://otomoto.pl/no-page' }));
+
+    // The page was stored when the schema did not yet read the mileage
+    await repository.saveVehiclePage({
+      vehicleId: 'trafic',
+      html: detailPage([
+        { label: 'Rok produkcji', value: '2012' },
+        { label: 'Przebieg', value: '231 000 km' },
+      ]),
+      scrapedAt: new Date('2024-03-01T10:00:00Z'),
+    });
+    await repository.updateVehicle('trafic', { mileage: 0 });
+  });
+
+  it('should report field-level differences without writing them by default', async () => {
+    const summary = await service.reparseVehicles();
+
+    expect(summary).toMatchObject({ checked: 2, changed: 1, unchanged: 0, withoutPage: 1, written: 0, failed: 0 });
+    const [result] = summary.results;
+    expect(result).toMatchObject({ vehicleId: 'trafic', pageScrapedAt: new Date('2024-03-01T10:00:00Z'), written: false });
+    expect(result.diffs).toContainEqual({ field: 'mileage', before: 0, after: 231000 });
+    expect(result.diffs).toContainEqual({ field: 'sourceTitle', before: 'Test Vehicle Title', after: 'Renault Trafic 2.0 dCi L2H1' });
+    expect(result.diffs).toContainEqual({ field: 'priceEur', before: expect.any(Number), after: Math.round(42900 * 0.25) });
+
+    expect((await repository.findVehicleById('trafic'))!.mileage).toBe(0);
+  });
+
+  it('should write the differences when requested and find nothing to change afterwards', async () => {
+    const summary = await service.reparseVehicles({ vehicleIds: ['trafic'], write: true });
+
+    expect(summary).toMatchObject({ checked: 1, changed: 1, written: 1 });
+    expect(await repository.findVehicleById('trafic')).toMatchObject({
+      sourceTitle: 'Renault Trafic 2.0 dCi L2H1',
+      pricePln: 42900,
+      year: 2012,
+      mileage: 231000,
+      sourceCreatedAt: new Date('2024-02-20T10:00:00Z'),
+      title: 'Test Vehicle Title', // Processed fields are left alone
+    });
+
+    expect(await service.reparseVehicles({ vehicleIds: ['trafic'] })).toMatchObject({ changed: 0, unchanged: 1 });
+  });
+
+  it('should keep fields the current schema no longer extracts', async () => {
+    await service.reparseVehicles({ vehicleIds: ['trafic'], write: true });
+    await repository.saveVehiclePage({ vehicleId: 'trafic', html: detailPage([]), scrapedAt: new Date('2024-03-02T10:00:00Z') });
+
+    const summary = await service.reparseVehicles({ vehicleIds: ['trafic'] });
+
+    expect(summary.results.flatMap(result => result.diffs.map(diff => diff.field))).not.toContain('mileage');
+  });
+
+  it('should collect failures for unknown vehicles and pages that no longer parse', async () => {
+    await repository.saveVehiclePage({ vehicleId: 'no-page', html: '<html><body>Captcha</body></html>', scrapedAt: new Date() });
+
+    const summary = await service.reparseVehicles({ vehicleIds: ['missing', 'no-page'] });
+
+    expect(summary).toMatchObject({ checked: 1, failed: 2 });
+    expect(summary.errors).toEqual([
+      'missing: Vehicle not found',
+      expect.stringContaining('https://otomoto.pl/no-page: Vehicle re-parse failed'),
+    ]);
+  });
+
+  it('should limit the number of vehicles', async () => {
+    expect(await service.reparseVehicles({ limit: 1 })).toMatchObject({ checked: 1 });
+  });
+
+  describe('relative posting dates', () => {
+    const olxUrl = 'https://www.olx.pl/d/oferta/renault-trafic-CID5-IDZtr01.html';
+    const scrapedAt = new Date('2024-03-01T10:00:00Z');
+
+    function olxDetailPage(postingTime: string): string {
+      return `<html><body>
+        <div data-testid="ad_title"><h4>Renault Trafic 2.0 dCi</h4></div>
+        <span data-cy="ad-posting-time">${postingTime}</span>
+      </body></html>`;
+    }
+
+    beforeEach(async () => {
+      await repository.insertVehicle(MockVehicleRepository.createTestVehicle({ id: 'olx-trafic', source: 'olx', sourceUrl: olxUrl }));
+    });
+
+    it('should resolve relative dates against the time the page was scraped', async () => {
+      await repository.saveVehiclePage({ vehicleId: 'olx-trafic', html: olxDetailPage('3 dni temu'), scrapedAt });
+
+      const summary = await service.reparseVehicles({ vehicleIds: ['olx-trafic'] });
+
+      const expected = new Date(scrapedAt);
+      expected.setDate(expected.getDate() - 3);
+      expect(summary.results[0].diffs).toContainEqual({ field: 'sourceCreatedAt', before: expect.any(Date), after: expected });
+    });
+
+    it('should leave the posting date and EUR price alone when the date cannot be read', async () => {
+      await repository.saveVehiclePage({ vehicleId: 'olx-trafic', html: olxDetailPage('Odświeżono'), scrapedAt });
+
+      const summary = await service.reparseVehicles({ vehicleIds: ['olx-trafic'] });
+
+      const fields = summary.results[0].diffs.map(diff => diff.field);
+      expect(fields).toContain('sourceTitle');
+      expect(fields).not.toContain('sourceCreatedAt');
+      expect(fields).not.toContain('priceEur');
+    });
+  });
+});
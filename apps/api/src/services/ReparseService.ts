@@ -0,0 +1,236 @@
+/**
+ * ReparseService - Re-extracts listing fields from stored detail-page HTML
+ *
+ * Ingestion keeps the raw detail page of every scrape (vehicle_pages). After a fix to
+ * parser-schema.json, the latest stored page of each vehicle is parsed again with the
+ * current schema and compared field by field against the stored vehicle. Differences are
+ * reported first and only written back when requested, so a schema change can be
+ * reviewed before it touches the database.
+ *
+ * Fields the parser does not extract from the stored page are left alone rather than
+ * cleared, so a schema regression shows up as unchanged instead of wiping data.
+ */
+
+import { Vehicle } from '@car-finder/types';
+import { IParserService, IVehicleRepository } from '@car-finder/services';
+import { CurrencyService } from './CurrencyService';
+import { VehicleAttributeNormalizer } from './VehicleAttributeNormalizer';
+import { sourceRegistry } from '../sources';
+
+// Vehicle fields taken from the detail page, in report order
+export const REPARSED_FIELDS = [
+  'sourceTitle',
+  'sourceDescriptionHtml',
+  'sourceParameters',
+  'sourceEquipment',
+  'sourceCreatedAt',
+  'sourcePhotos',
+  'photos',
+  'pricePln',
+  'priceEur',
+  'year',
+  'mileage',
+  'sellerInfo',
+  'attributes',
+] as const;
+
+export type ReparsedField = (typeof REPARSED_FIELDS)[number];
+
+export interface ReparseFieldDiff {
+  field: ReparsedField;
+  before: unknown;
+  after: unknown;
+}
+
+export interface VehicleReparseResult {
+  vehicleId: string;
+  sourceUrl: string;
+  pageScrapedAt: Date; // Scrape time of the page that was re-parsed
+  diffs: ReparseFieldDiff[];
+  written: boolean;
+}
+
+export interface ReparseOptions {
+  vehicleIds?: string[]; // Only re-parse these vehicles (default: all vehicles)
+  limit?: number; // Maximum number of vehicles to re-parse
+  write?: boolean; // Apply the differences (default: report only)
+}
+
+export interface ReparseSummary {
+  checked: number;
+  changed: number;
+  unchanged: number;
+  withoutPage: number; // Vehicles scraped before pages were stored
+  written: number;
+  failed: number;
+  results: VehicleReparseResult[]; // Changed vehicles only
+  errors: string[];
+}
+
+/**
+ * ReparseService - Parses stored pages again and diffs the result against stored vehicles
+ */
+export class ReparseService {
+  private parserService: IParserService;
+  private vehicleRepository: IVehicleRepository;
+  private currencyService: CurrencyService;
+  private attributeNormalizer = new VehicleAttributeNormalizer();
+
+  constructor(
+    parserService: IParserService,
+    vehicleRepository: IVehicleRepository,
+    currencyService: CurrencyService = new CurrencyService(vehicleRepository)
+  ) {
+    this.parserService = parserService;
+    this.vehicleRepository = vehicleRepository;
+    this.currencyService = currencyService;
+  }
+
+  /**
+   * Re-parse the latest stored page of a vehicle
+   * @param write - Apply the differences to the vehicle
+   * @returns null when no page is stored for the vehicle
+   */
+  async reparseVehicle(vehicle: Vehicle, write: boolean = false): Promise<VehicleReparseResult | null> {
+    try {
+      const page = await this.vehicleRepository.getLatestVehiclePage(vehicle.id);
+      if (!page) {
+        return null;
+      }
+
+      const parserSchemaKey = sourceRegistry.get(vehicle.source).parserSchemaKey;
+      const parseResult = this.parserService.parseHtml(page.html, parserSchemaKey, 'detail', page.scrapedAt);
+      if (parseResult.pageType !== 'detail') {
+        throw new Error(`Expected detail page but got ${parseResult.pageType}`);
+      }
+
+      const reparsed = await this.extractFields(vehicle, parseResult.data as Partial<Vehicle>);
+      const diffs = REPARSED_FIELDS
+        .filter(field => reparsed[field] !== undefined && !isSameValue(vehicle[field], reparsed[field]))
+        .map(field => ({ field, before: vehicle[field], after: reparsed[field] }));
+
+      if (write && diffs.length > 0) {
+        const updates: Partial<Vehicle> = Object.fromEntries(diffs.map(diff => [diff.field, diff.after]));
+        await this.vehicleRepository.updateVehicle(vehicle.id, updates);
+      }
+
+      return {
+        vehicleId: vehicle.id,
+        sourceUrl: vehicle.sourceUrl,
+        pageScrapedAt: page.scrapedAt,
+        diffs,
+        written: write && diffs.length > 0,
+      };
+    } catch (error) {
+      console.error(`❌ Failed to re-parse vehicle ${vehicle.sourceUrl}:`, error);
+      throw new Error(`Vehicle re-parse failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Re-parse the stored pages of several vehicles
+   * Individual failures are collected so one broken page does not stop the run
+   */
+  async reparseVehicles(options: ReparseOptions = {}): Promise<ReparseSummary> {
+    const summary: ReparseSummary = {
+      checked: 0,
+      changed: 0,
+      unchanged: 0,
+      withoutPage: 0,
+      written: 0,
+      failed: 0,
+      results: [],
+      errors: [],
+    };
+
+    let vehicles = await this.loadVehicles(options.vehicleIds, summary);
+    if (options.limit !== undefined) {
+      vehicles = vehicles.slice(0, options.limit);
+    }
+
+    for (const vehicle of vehicles) {
+      summary.checked++;
+      try {
+        const result = await this.reparseVehicle(vehicle, options.write);
+
+        if (!result) {
+          summary.withoutPage++;
+        } else if (result.diffs.length === 0) {
+          summary.unchanged++;
+        } else {
+          summary.changed++;
+          summary.results.push(result);
+          if (result.written) summary.written++;
+        }
+      } catch (error) {
+        summary.failed++;
+        summary.errors.push(`${vehicle.sourceUrl}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    }
+
+    return summary;
+  }
+
+  /**
+   * Requested vehicles, or every stored vehicle; unknown IDs are reported as failures
+   */
+  private async loadVehicles(vehicleIds: string[] | undefined, summary: ReparseSummary): Promise<Vehicle[]> {
+    if (!vehicleIds) {
+      return this.vehicleRepository.getAllVehicles();
+    }
+
+    const vehicles: Vehicle[] = [];
+    for (const id of vehicleIds) {
+      const vehicle = await this.vehicleRepository.findVehicleById(id);
+      if (vehicle) {
+        vehicles.push(vehicle);
+      } else {
+        summary.failed++;
+        summary.errors.push(`${id}: Vehicle not found`);
+      }
+    }
+    return vehicles;
+  }
+
+  /**
+   * Map parsed page data onto vehicle fields the way ingestion does
+   * Fields missing from the page are left undefined
+   */
+  private async extractFields(vehicle: Vehicle, data: Partial<Vehicle>): Promise<Partial<Pick<Vehicle, ReparsedField>>> {
+    const fields: Partial<Pick<Vehicle, ReparsedField>> = {};
+
+    if (data.sourceTitle) fields.sourceTitle = data.sourceTitle;
+    if (data.sourceDescriptionHtml) fields.sourceDescriptionHtml = data.sourceDescriptionHtml;
+    if (hasEntries(data.sourceParameters)) fields.sourceParameters = data.sourceParameters;
+    if (hasEntries(data.sourceEquipment)) fields.sourceEquipment = data.sourceEquipment;
+    if (data.sourceCreatedAt instanceof Date && !isNaN(data.sourceCreatedAt.getTime())) {
+      fields.sourceCreatedAt = data.sourceCreatedAt;
+    }
+    if (data.sourcePhotos?.length) fields.sourcePhotos = data.sourcePhotos;
+    if (data.photos?.length) fields.photos = data.photos;
+    if (data.pricePln) fields.pricePln = data.pricePln;
+    if (data.year) fields.year = data.year;
+    if (data.mileage) fields.mileage = data.mileage;
+    if (data.sellerInfo) fields.sellerInfo = data.sellerInfo;
+
+    // Derived fields follow the re-extracted source fields
+    const merged = { ...vehicle, ...fields };
+    fields.attributes = this.attributeNormalizer.normalize(merged);
+    if (fields.pricePln !== undefined || fields.sourceCreatedAt !== undefined) {
+      fields.priceEur = (await this.currencyService.denominate(merged)).priceEur;
+    }
+
+    return fields;
+  }
+}
+
+function hasEntries(value: object | undefined): value is object {
+  return value !== undefined && value !== null && Object.keys(value).length > 0;
+}
+
+/**
+ * Compare field values by content (dates by time, objects and arrays by JSON)
+ */
+function isSameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
@@ -1,4 +1,4 @@
-import { ScraperService, ScraperConfig } from './ScraperService';
+import { ScraperService, ScraperConfig, scrollUntilStable } from './ScraperService';
 import { createMockScraperConfig } from '../__tests__/setup';
 
 describe('ScraperService', () => {
@@ -178,4 +178,25 @@ describe('ScraperService', () => {
       expect(scraper).toBeInstanceOf(ScraperService);
     });
   });
+
+  describe('scrollUntilStable', () => {
+    const options = { maxScrolls: 10, settleMs: 0, stableChecks: 2 };
+
+    function pageWithHeights(heights: number[]) {
+      let call = 0;
+      return { evaluate: jest.fn(async () => heights[Math.min(call++, heights.length - 1)]) } as any;
+    }
+
+    it('should keep scrolling while lazy-loaded items grow the page', async () => {
+      const page = pageWithHeights([1000, 2000, 3000, 3000, 3000]);
+
+      expect(await scrollUntilStable(page, options)).toBe(5);
+    });
+
+    it('should stop at the scroll limit for endless feeds', async () => {
+      const page = pageWithHeights(Array.from({ length: 20 }, (_, index) => (index + 1) * 1000));
+
+      expect(await scrollUntilStable(page, options)).toBe(10);
+    });
+  });
 });
@@ -1,4 +1,5 @@
 import puppeteer, { Browser, Page, PuppeteerLaunchOptions } from 'puppeteer';
+import { PageArchive } from './PageArchive';
 
 export interface ScraperConfig {
   /** Delay between requests in milliseconds (default: 1000-3000ms random) */
@@ -11,8 +12,27 @@ export interface ScraperConfig {
   stealthMode: boolean;
   /** Custom user agents to rotate through */
   userAgents?: string[];
+  /** Archive every fetched page (HTML plus metadata) in this directory for offline replays */
+  captureDir?: string;
 }
 
+export interface ScrapeOptions {
+  /** Scroll to the bottom until the page height stops growing, for lazy-loaded lists */
+  scrollUntilStable?: boolean;
+}
+
+export interface ScrollOptions {
+  maxScrolls: number; // Upper bound for endless feeds
+  settleMs: number; // Wait after each scroll for new items to load
+  stableChecks: number; // Consecutive scrolls without growth before the list counts as complete
+}
+
+const DEFAULT_SCROLL_OPTIONS: ScrollOptions = {
+  maxScrolls: 30,
+  settleMs: 1500,
+  stableChecks: 2,
+};
+
 export interface ScrapingResult {
   /** The scraped HTML content */
   html: string;
@@ -24,11 +44,43 @@ export interface ScrapingResult {
   scrapingTime: number;
 }
 
+/**
+ * Scrolls a page to the bottom until its height stops growing, so lazy-loaded items are rendered
+ * @returns Number of scrolls performed
+ */
+export async function scrollUntilStable(
+  page: Pick<Page, 'evaluate'>,
+  options: ScrollOptions = DEFAULT_SCROLL_OPTIONS
+): Promise<number> {
+  let previousHeight = -1;
+  let stableCount = 0;
+  let scrolls = 0;
+
+  while (scrolls < options.maxScrolls) {
+    const height = await page.evaluate(() => {
+      window.scrollTo(0, document.body.scrollHeight);
+      return document.body.scrollHeight;
+    });
+    scrolls++;
+
+    stableCount = height === previousHeight ? stableCount + 1 : 0;
+    if (stableCount >= options.stableChecks) {
+      break;
+    }
+    previousHeight = height;
+
+    await new Promise(resolve => setTimeout(resolve, options.settleMs));
+  }
+
+  return scrolls;
+}
+
 export class ScraperService {
   private browser: Browser | null = null;
   private config: ScraperConfig;
   private lastRequestTime: number = 0;
   private requestCount: number = 0;
+  private captureArchive: PageArchive | null;
 
   private readonly defaultUserAgents = [
     'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
@@ -45,6 +97,7 @@ export class ScraperService {
       stealthMode: true,
       ...config
     };
+    this.captureArchive = this.config.captureDir ? new PageArchive(this.config.captureDir) : null;
   }
 
   /**
@@ -167,7 +220,7 @@ export class ScraperService {
   /**
    * Scrapes a URL and returns the HTML content with retry logic
    */
-  public async scrapeUrl(url: string): Promise<ScrapingResult> {
+  public async scrapeUrl(url: string, options: ScrapeOptions = {}): Promise<ScrapingResult> {
     if (!this.browser) {
       throw new Error('Browser not initialized. Call initialize() first.');
     }
@@ -198,12 +251,10 @@ export class ScraperService {
           // For OLX pages, wait for dynamic content to load
           if (url.includes('olx.pl')) {
             try {
-              // Wait for either __PRERENDERED_STATE__ or visible content
+              // Wait for visible content - OLX pages are parsed with CSS selectors
               await Promise.race([
-                // Wait for the JSON data to be available
-                page.waitForFunction(() => (window as any).__PRERENDERED_STATE__ !== undefined, { timeout: 10000 }),
-                // Or wait for visible vehicle listings
-                page.waitForSelector('[data-cy="l-card"], .css-1sw7q4x', { timeout: 10000 }),
+                // Wait for vehicle listings or the ad title
+                page.waitForSelector('[data-cy="l-card"], [data-testid="ad_title"], [data-testid="offer_title"]', { timeout: 10000 }),
                 // Or fallback timeout
                 new Promise(resolve => setTimeout(resolve, 8000))
               ]);
@@ -219,6 +270,11 @@ export class ScraperService {
             await new Promise(resolve => setTimeout(resolve, 2000));
           }
 
+          if (options.scrollUntilStable) {
+            const scrolls = await scrollUntilStable(page);
+            console.log(`📜 Scrolled ${scrolls} times to load lazy content`);
+          }
+
           // Get the HTML content and final URL
           const html = await page.content();
           const finalUrl = page.url();
@@ -227,6 +283,10 @@ export class ScraperService {
 
           console.log(`✅ Successfully scraped ${url} (${statusCode}) in ${scrapingTime}ms`);
 
+          if (this.captureArchive) {
+            this.capturePage(url, { html, finalUrl, statusCode });
+          }
+
           return {
             html,
             finalUrl,
@@ -256,6 +316,69 @@ export class ScraperService {
     throw new Error(`Failed to scrape ${url} after ${this.config.maxRetries} attempts. Last error: ${lastError?.message}`);
   }
 
+  /**
+   * Archives a fetched page for offline replays
+   * A failed capture only loses the page from the archive, so it never fails the scrape
+   */
+  private capturePage(url: string, result: Pick<ScrapingResult, 'html' | 'finalUrl' | 'statusCode'>): void {
+    try {
+      const metadata = this.captureArchive!.save(url, result);
+      console.log(`💾 Captured ${url} as ${metadata.htmlFile}`);
+    } catch (error) {
+      console.warn(`⚠️ Could not capture ${url}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Loads an image and returns its grayscale pixels (0-255, row-major) resized to width x height
+   * The browser decodes the image, so any format it can display is supported. Images come from
+   * the marketplaces' CDNs, so no respectful delay is applied.
+   */
+  public async getImageGrayscale(url: string, width: number, height: number): Promise<number[]> {
+    if (!this.browser) {
+      throw new Error('Browser not initialized. Call initialize() first.');
+    }
+
+    // A plain page: stealth pages block image requests
+    const page = await this.browser.newPage();
+
+    try {
+      const response = await page.goto(url, { waitUntil: 'load', timeout: this.config.timeout });
+
+      if (!response || !response.ok()) {
+        throw new Error(`Unexpected status code ${response?.status() ?? 'none'}`);
+      }
+
+      // Navigating to the image itself keeps it same-origin, so the canvas is readable
+      return await page.evaluate(async (targetWidth: number, targetHeight: number) => {
+        const image = document.querySelector('img');
+        if (!image) {
+          throw new Error('Response is not an image');
+        }
+        await image.decode();
+
+        const canvas = document.createElement('canvas');
+        canvas.width = targetWidth;
+        canvas.height = targetHeight;
+        const context = canvas.getContext('2d')!;
+        context.drawImage(image, 0, 0, targetWidth, targetHeight);
+
+        const { data } = context.getImageData(0, 0, targetWidth, targetHeight);
+        const pixels: number[] = [];
+        for (let i = 0; i < data.length; i += 4) {
+          // ITU-R BT.601 luma
+          pixels.push(Math.round(0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2]));
+        }
+        return pixels;
+      }, width, height);
+    } catch (error) {
+      console.error(`❌ Failed to load image ${url}:`, error);
+      throw new Error(`Image load failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      await page.close();
+    }
+  }
+
   /**
    * Gets browser statistics
    */
@@ -0,0 +1,104 @@
+/**
+ * VehicleAttributeNormalizer Unit Tests
+ */
+
+import { VehicleAttributeNormalizer } from './VehicleAttributeNormalizer';
+
+describe('VehicleAttributeNormalizer', () => {
+  const normalizer = new VehicleAttributeNormalizer();
+
+  function normalize(sourceParameters: Record<string, string>, sourceDescriptionHtml = '<p>Zadbany</p>') {
+    return normalizer.normalize({ sourceParameters, sourceDescriptionHtml });
+  }
+
+  it('should normalize Otomoto parameters', () => {
+    expect(normalize({
+      'Marka pojazdu': 'Renault',
+      'Model pojazdu': 'Trafic',
+      'Wersja': '1.6 dCi L2H1 Grand Passenger',
+      'Pojemność skokowa': '1 598 cm3',
+      'Moc': '125 KM',
+      'Rodzaj paliwa': 'Diesel',
+      'Skrzynia biegów': 'Manualna',
+      'Typ nadwozia': 'Minibus',
+      'Liczba miejsc': '9',
+      'Kolor': 'Biały',
+      'VIN': 'vf1 fl000123456789',
+    })).toEqual({
+      make: 'Renault',
+      model: 'Trafic',
+      engineSizeCc: 1598,
+      horsepower: 125,
+      fuelType: 'diesel',
+      transmission: 'manual',
+      bodyType: 'Minibus',
+      seats: 9,
+      wheelbase: 'L2',
+      color: 'Biały',
+      vin: 'VF1FL000123456789',
+    });
+  });
+
+  it('should normalize OLX parameter slugs and English keys', () => {
+    const attributes = normalize({
+      make: 'Opel',
+      model: 'Vivaro',
+      'pojemnosc-skokowa': '1995 cm³',
+      'moc-silnika': '145 HP',
+      fuelType: 'Benzyna+LPG',
+      transmission: 'Automatyczna',
+      kolor: 'Srebrny',
+    });
+
+    expect(attributes).toMatchObject({
+      make: 'Opel',
+      model: 'Vivaro',
+      engineSizeCc: 1995,
+      horsepower: 145,
+      fuelType: 'petrol',
+      transmission: 'automatic',
+      color: 'Srebrny',
+    });
+  });
+
+  it('should leave attributes the listing does not state as null', () => {
+    expect(normalize({ 'Marka pojazdu': 'Fiat', 'Pojemność skokowa': '1800', 'Moc': ' ' })).toEqual({
+      make: 'Fiat',
+      model: null,
+      engineSizeCc: null,
+      horsepower: null,
+      fuelType: null,
+      transmission: null,
+      bodyType: null,
+      seats: null,
+      wheelbase: null,
+      color: null,
+      vin: null,
+    });
+  });
+
+  it('should read parameters stored as a JSON string and ignore unreadable ones', () => {
+    const fromString = normalizer.normalize({
+      sourceParameters: JSON.stringify({ 'Marka pojazdu': 'Renault', 'Model pojazdu': 'Trafic Passenger' }) as any,
+      sourceDescriptionHtml: '',
+    });
+    const fromInvalid = normalizer.normalize({ sourceParameters: 'invalid json' as any, sourceDescriptionHtml: '' });
+
+    expect(fromString).toMatchObject({ make: 'Renault', model: 'Trafic Passenger' });
+    expect(fromInvalid.make).toBeNull();
+  });
+
+  describe('vin', () => {
+    it('should read the VIN parameter', () => {
+      expect(normalize({ 'VIN': 'zfa 25000002345678' }).vin).toBe('ZFA25000002345678');
+    });
+
+    it('should fall back to a VIN in the description', () => {
+      expect(normalize({}, '<p>Numer VIN: ZFA25000002345678, tel. 600700800</p>').vin).toBe('ZFA25000002345678');
+    });
+
+    it('should ignore 17-character tokens without both letters and digits', () => {
+      expect(normalize({}, '<p>12345678901234567 ABCDEFGHJKLMNPRST</p>').vin).toBeNull();
+    });
+  });
+});
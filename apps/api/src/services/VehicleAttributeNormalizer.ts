@@ -0,0 +1,127 @@
+/**
+ * VehicleAttributeNormalizer - Structured attributes from listing parameters
+ *
+ * Otomoto lists parameters under Polish labels ("Marka pojazdu", "Pojemność skokowa"), OLX
+ * under slugs ("pojemnosc-skokowa") and the ingest script adds English keys for values it
+ * reads elsewhere on the page. The normalizer takes the first key present for each attribute
+ * and converts its value to the units and enums shared by both sources, once at ingest time.
+ * Existing rows are normalized with `pnpm backfill-attributes`.
+ */
+
+import { Vehicle, VehicleAttributes, VehicleFuelType, VehicleTransmission } from '@car-finder/types';
+
+// Parameter keys per attribute, in order of preference (VIN keys are matched by pattern)
+const PARAMETER_KEYS: Record<Exclude<keyof VehicleAttributes, 'vin'>, string[]> = {
+  make: ['Marka pojazdu', 'make', 'Make'],
+  model: ['Model pojazdu', 'model', 'Model'],
+  engineSizeCc: ['Pojemność skokowa', 'pojemnosc-skokowa', 'Engine size', 'engineSize'],
+  horsepower: ['Moc', 'moc-silnika', 'Power', 'horsepower'],
+  fuelType: ['Rodzaj paliwa', 'rodzaj-paliwa', 'Fuel type', 'fuelType'],
+  transmission: ['Skrzynia biegów', 'skrzynia-biegow', 'Transmission', 'transmission'],
+  bodyType: ['Typ nadwozia', 'typ-nadwozia', 'Body type', 'bodyType'],
+  seats: ['Liczba miejsc', 'liczba-miejsc', 'Seats', 'seats'],
+  wheelbase: ['Wersja', 'Version', 'version'],
+  color: ['Kolor', 'kolor', 'Color', 'color'],
+};
+
+const VIN_PATTERN = /\b[A-HJ-NPR-Z0-9]{17}\b/g;
+
+export class VehicleAttributeNormalizer {
+  /**
+   * Normalize the attributes of a listing
+   * Parameters stored as a JSON string are parsed; unreadable parameters yield only a description VIN
+   */
+  normalize(vehicle: Pick<Vehicle, 'sourceParameters' | 'sourceDescriptionHtml'>): VehicleAttributes {
+    const params = this.readParameters(vehicle.sourceParameters);
+    const value = (attribute: keyof typeof PARAMETER_KEYS): string | null => {
+      const key = PARAMETER_KEYS[attribute].find(candidate => params[candidate]?.toString().trim());
+      return key ? params[key].toString().trim() : null;
+    };
+
+    return {
+      make: value('make'),
+      model: value('model'),
+      engineSizeCc: this.parseEngineSize(value('engineSizeCc')),
+      horsepower: this.parseHorsepower(value('horsepower')),
+      fuelType: this.parseFuelType(value('fuelType')),
+      transmission: this.parseTransmission(value('transmission')),
+      bodyType: value('bodyType'),
+      seats: this.parseSeats(value('seats')),
+      wheelbase: this.parseWheelbase(value('wheelbase')),
+      color: value('color'),
+      vin: this.extractVin(params, vehicle.sourceDescriptionHtml ?? ''),
+    };
+  }
+
+  private readParameters(sourceParameters: unknown): Record<string, any> {
+    try {
+      const params = typeof sourceParameters === 'string' ? JSON.parse(sourceParameters) : sourceParameters;
+      return params && typeof params === 'object' ? params : {};
+    } catch {
+      return {};
+    }
+  }
+
+  /**
+   * Engine size in cc from formats like "1 995 cm3" or "1995 cc"
+   */
+  private parseEngineSize(value: string | null): number | null {
+    const match = value?.match(/(\d[\d\s]*)\s*(cm3|cm³|cc)/i);
+    return match ? parseInt(match[1].replace(/\s/g, ''), 10) : null;
+  }
+
+  /**
+   * Horsepower from formats like "115 KM" or "115HP"
+   */
+  private parseHorsepower(value: string | null): number | null {
+    const match = value?.match(/(\d+)\s*(KM|HP)/i);
+    return match ? parseInt(match[1], 10) : null;
+  }
+
+  private parseFuelType(value: string | null): VehicleFuelType | null {
+    const normalized = value?.toLowerCase() ?? '';
+    if (normalized.includes('hybr')) return 'hybrid';
+    if (normalized.includes('diesel')) return 'diesel';
+    if (normalized.includes('petrol') || normalized.includes('benzyna') || normalized.includes('gasoline')) return 'petrol';
+    if (normalized.includes('lpg')) return 'lpg';
+    if (normalized.includes('electric') || normalized.includes('elektr')) return 'electric';
+    return null;
+  }
+
+  private parseTransmission(value: string | null): VehicleTransmission | null {
+    const normalized = value?.toLowerCase() ?? '';
+    if (normalized.includes('manual')) return 'manual';
+    if (normalized.includes('automat')) return 'automatic';
+    return null;
+  }
+
+  private parseSeats(value: string | null): number | null {
+    const match = value?.match(/\d+/);
+    return match ? parseInt(match[0], 10) : null;
+  }
+
+  /**
+   * Wheelbase from the version, e.g. "2.0 dCi L2H1" (short/medium/long/extra long)
+   */
+  private parseWheelbase(value: string | null): string | null {
+    const match = value?.match(/L([1-4])/);
+    return match ? `L${match[1]}` : null;
+  }
+
+  /**
+   * VIN from the listing parameters, falling back to the description
+   * 17-character candidates must mix letters and digits to avoid matching phone numbers or words
+   */
+  private extractVin(params: Record<string, any>, descriptionHtml: string): string | null {
+    const parameterVin = Object.entries(params).find(([key]) => /\bvin\b/i.test(key))?.[1];
+
+    const candidates = [
+      ...(parameterVin ? [parameterVin.toString().replace(/\s/g, '').toUpperCase()] : []),
+      ...(descriptionHtml.toUpperCase().match(VIN_PATTERN) ?? []),
+    ];
+
+    return candidates.find(candidate =>
+      /^[A-HJ-NPR-Z0-9]{17}$/.test(candidate) && /[A-Z]/.test(candidate) && /\d/.test(candidate)
+    ) ?? null;
+  }
+}
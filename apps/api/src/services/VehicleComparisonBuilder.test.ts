@@ -0,0 +1,134 @@
+/**
+ * VehicleComparisonBuilder Unit Tests
+ */
+
+import { VehicleComparisonBuilder } from './VehicleComparisonBuilder';
+import { MockVehicleRepository } from '@car-finder/services';
+import { MarketValueAnalysis, Vehicle } from '@car-finder/types';
+
+function createVehicle(id: string, overrides: Partial<Vehicle> = {}): Vehicle {
+  return MockVehicleRepository.createTestVehicle({ id, title: `Renault Trafic ${id}`, ...overrides });
+}
+
+function createMarketValue(vehicleId: string, percentDifference: number, dealScore: number | null): MarketValueAnalysis {
+  return {
+    vehicleId,
+    model: dealScore === null ? 'weighted' : 'regression',
+    score: `${Math.round(percentDifference)}%`,
+    priceEur: 11500,
+    marketPriceEur: 12000,
+    percentDifference,
+    dealScore,
+    sampleSize: 40,
+    effectiveSampleSize: 30,
+    confidence: 'medium',
+    comparables: [],
+    calculatedAt: new Date('2024-01-01T00:00:00Z'),
+  };
+}
+
+describe('VehicleComparisonBuilder', () => {
+  const builder = new VehicleComparisonBuilder();
+
+  it('should align values per vehicle and mark the best and worst of ranked rows', () => {
+    const vehicles = [
+      createVehicle('a', { pricePln: 60000, year: 2018, mileage: 150000 }),
+      createVehicle('b', { pricePln: 50000, year: 2020, mileage: 150000 }),
+      createVehicle('c', { pricePln: 55000, year: 2020, mileage: 90000 }),
+    ];
+
+    const rows = new Map(builder.build(vehicles).rows.map(row => [row.key, row]));
+
+    expect(rows.get('pricePln')).toEqual({
+      key: 'pricePln',
+      label: 'Price (PLN)',
+      values: [60000, 50000, 55000],
+      better: 'lower',
+      best: [1],
+      worst: [0],
+    });
+    expect(rows.get('year')).toMatchObject({ best: [1, 2], worst: [0] });
+    expect(rows.get('mileage')).toMatchObject({ best: [2], worst: [0, 1] });
+  });
+
+  it('should not rank equal values, unranked attributes or rows with a single value', () => {
+    const vehicles = [
+      createVehicle('a', { personalFitScore: 8, attributes: { ...createVehicle('a').attributes, fuelType: 'diesel' } }),
+      createVehicle('b', { attributes: { ...createVehicle('b').attributes, fuelType: 'petrol' } }),
+    ];
+
+    const rows = new Map(builder.build(vehicles).rows.map(row => [row.key, row]));
+
+    expect(rows.get('priceEur')).toMatchObject({ values: [11500, 11500], best: [], worst: [] });
+    expect(rows.get('fuelType')).toMatchObject({ values: ['diesel', 'petrol'], better: null, best: [], worst: [] });
+    expect(rows.get('personalFitScore')).toMatchObject({ values: [8, null], best: [], worst: [] });
+    expect(rows.has('horsepower')).toBe(false);
+  });
+
+  it('should prefer the market value analysis over the stored score', () => {
+    const vehicles = [
+      createVehicle('a', { marketValueScore: '+10%' }),
+      createVehicle('b', { marketValueScore: 'market_avg' }),
+      createVehicle('c', { marketValueScore: '-5%' }),
+    ];
+    const marketValues = new Map([['a', createMarketValue('a', -12.34, -1.5)]]);
+
+    const rows = new Map(builder.build(vehicles, marketValues).rows.map(row => [row.key, row]));
+
+    expect(rows.get('marketDifferencePercent')).toMatchObject({ values: [-12.3, 0, -5], best: [0], worst: [1] });
+    expect(rows.get('dealScore')).toMatchObject({ values: [-1.5, null, null] });
+  });
+
+  it('should list features that differ before shared ones', () => {
+    const vehicles = [
+      createVehicle('a', { features: ['safety_abs', 'comfort_air_conditioning', 'towbar'] }),
+      createVehicle('b', { features: ['comfort_air_conditioning', 'safety_abs'] }),
+    ];
+
+    expect(builder.build(vehicles).features).toEqual([
+      { feature: 'towbar', present: [true, false] },
+      { feature: 'comfort_air_conditioning', present: [true, true] },
+      { feature: 'safety_abs', present: [true, true] },
+    ]);
+  });
+
+  it('should read consistency scores and flags from the sanity checks', () => {
+    const vehicles = [
+      createVehicle('a', {
+        aiDataSanityCheck: 'Consistency Score: 6/10\nTrust Level: MEDIUM\n\nMostly consistent.\n\nWARNINGS:\n- Mileage low for the year\n\nFLAGS:\n- Photos show a different color',
+      }),
+      createVehicle('b', { aiDataSanityCheck: '**Consistency Score:** 9/10\n\n**Flags:**\n- None significant\n\nLooks fine.' }),
+      createVehicle('c'),
+    ];
+
+    const comparison = builder.build(vehicles);
+
+    expect(comparison.rows.find(row => row.key === 'consistencyScore')).toMatchObject({
+      values: [6, 9, null],
+      best: [1],
+      worst: [0],
+    });
+    expect(comparison.sanityFlags).toEqual([
+      ['Mileage low for the year', 'Photos show a different color'],
+      ['None significant'],
+      [],
+    ]);
+  });
+
+  it('should summarize the compared vehicles without a recommendation', () => {
+    const comparison = builder.build([createVehicle('a', { photos: [] }), createVehicle('b')]);
+
+    expect(comparison.vehicles).toEqual([
+      { id: 'a', title: 'Renault Trafic a', source: 'otomoto', sourceUrl: expect.any(String), status: 'new', photo: null },
+      {
+        id: 'b',
+        title: 'Renault Trafic b',
+        source: 'otomoto',
+        sourceUrl: expect.any(String),
+        status: 'new',
+        photo: 'https://example.com/photo.jpg',
+      },
+    ]);
+    expect(comparison.recommendation).toBeNull();
+  });
+});
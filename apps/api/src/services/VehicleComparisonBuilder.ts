@@ -0,0 +1,162 @@
+/**
+ * VehicleComparisonBuilder - Side-by-side comparison table of shortlisted vehicles
+ *
+ * Aligns prices, age, mileage, engine, scores, market value and data consistency into rows
+ * with one value per vehicle, and marks the best and worst value of each ranked row. Features
+ * are listed as present/missing per vehicle, with the ones that tell the vehicles apart first.
+ * Data sanity check flags are read back from the text stored by the analyze script.
+ */
+
+import {
+  MarketValueAnalysis,
+  Vehicle,
+  VehicleComparison,
+  VehicleComparisonFeature,
+  VehicleComparisonRow,
+} from '@car-finder/types';
+
+interface RowDefinition {
+  key: string;
+  label: string;
+  better: VehicleComparisonRow['better'];
+  value: (vehicle: Vehicle, marketValue: MarketValueAnalysis | undefined) => number | string | null;
+}
+
+const CONSISTENCY_SCORE = /Consistency Score:?\**\s*(\d+(?:\.\d+)?)\s*\/\s*10/i;
+const SANITY_LIST_HEADING = /^\**(flags|warnings):?\**:?$/i;
+const LIST_ITEM = /^[-*•]\s+(.+)$/;
+
+const ROWS: RowDefinition[] = [
+  { key: 'pricePln', label: 'Price (PLN)', better: 'lower', value: vehicle => vehicle.pricePln },
+  { key: 'priceEur', label: 'Price (EUR)', better: 'lower', value: vehicle => vehicle.priceEur },
+  { key: 'year', label: 'Year', better: 'higher', value: vehicle => vehicle.year },
+  { key: 'mileage', label: 'Mileage (km)', better: 'lower', value: vehicle => vehicle.mileage },
+  { key: 'engineSizeCc', label: 'Engine (cc)', better: null, value: vehicle => vehicle.attributes.engineSizeCc },
+  { key: 'horsepower', label: 'Power (HP)', better: 'higher', value: vehicle => vehicle.attributes.horsepower },
+  { key: 'fuelType', label: 'Fuel', better: null, value: vehicle => vehicle.attributes.fuelType },
+  { key: 'transmission', label: 'Transmission', better: null, value: vehicle => vehicle.attributes.transmission },
+  { key: 'personalFitScore', label: 'Personal fit', better: 'higher', value: vehicle => vehicle.personalFitScore },
+  { key: 'aiPriorityRating', label: 'AI priority', better: 'higher', value: vehicle => vehicle.aiPriorityRating },
+  {
+    key: 'marketDifferencePercent',
+    label: 'vs. market (%)',
+    better: 'lower',
+    value: (vehicle, marketValue) => marketValue
+      ? Math.round(marketValue.percentDifference * 10) / 10
+      : parseMarketValueScore(vehicle.marketValueScore),
+  },
+  { key: 'dealScore', label: 'Deal score (σ)', better: 'lower', value: (_vehicle, marketValue) => marketValue?.dealScore ?? null },
+  { key: 'consistencyScore', label: 'Data consistency', better: 'higher', value: vehicle => parseConsistencyScore(vehicle.aiDataSanityCheck) },
+  { key: 'featureCount', label: 'Features', better: 'higher', value: vehicle => vehicle.features.length },
+];
+
+/**
+ * Percent difference from a stored market value score ("-5%", "+10%", "market_avg")
+ */
+function parseMarketValueScore(score: string | null): number | null {
+  if (score === 'market_avg') {
+    return 0;
+  }
+  const match = score?.match(/^([+-]?\d+(?:\.\d+)?)%$/);
+  return match ? parseFloat(match[1]) : null;
+}
+
+function parseConsistencyScore(sanityCheck: string | null): number | null {
+  const match = sanityCheck?.match(CONSISTENCY_SCORE);
+  return match ? parseFloat(match[1]) : null;
+}
+
+export class VehicleComparisonBuilder {
+  /**
+   * Build the comparison table (without the AI recommendation)
+   * @param vehicles Vehicles in display order
+   * @param marketValues Latest market value analysis per vehicle ID, where calculated
+   */
+  build(vehicles: Vehicle[], marketValues: Map<string, MarketValueAnalysis> = new Map()): VehicleComparison {
+    const rows = ROWS
+      .map(row => this.buildRow(row, vehicles.map(vehicle => row.value(vehicle, marketValues.get(vehicle.id)))))
+      .filter(row => row.values.some(value => value !== null));
+
+    return {
+      vehicles: vehicles.map(vehicle => ({
+        id: vehicle.id,
+        title: vehicle.title,
+        source: vehicle.source,
+        sourceUrl: vehicle.sourceUrl,
+        status: vehicle.status,
+        photo: vehicle.photos[0] ?? null,
+      })),
+      rows,
+      features: this.compareFeatures(vehicles),
+      sanityFlags: vehicles.map(vehicle => this.extractSanityFlags(vehicle.aiDataSanityCheck)),
+      recommendation: null,
+      recommendationError: null,
+    };
+  }
+
+  /**
+   * Flags and warnings listed in a stored data sanity check
+   * Reads both the analyze script's "FLAGS:" format and the markdown "**Flags:**" format
+   */
+  extractSanityFlags(sanityCheck: string | null): string[] {
+    if (!sanityCheck) {
+      return [];
+    }
+
+    const flags: string[] = [];
+    let inList = false;
+    for (const rawLine of sanityCheck.split(/\r?\n/)) {
+      const line = rawLine.trim();
+      if (SANITY_LIST_HEADING.test(line)) {
+        inList = true;
+        continue;
+      }
+      const match = line.match(LIST_ITEM);
+      if (inList && match) {
+        flags.push(match[1].trim());
+      } else if (line !== '') {
+        inList = false;
+      }
+    }
+
+    return flags;
+  }
+
+  private buildRow(definition: RowDefinition, values: Array<number | string | null>): VehicleComparisonRow {
+    const row: VehicleComparisonRow = {
+      key: definition.key,
+      label: definition.label,
+      values,
+      better: definition.better,
+      best: [],
+      worst: [],
+    };
+
+    const ranked = values.filter((value): value is number => typeof value === 'number');
+    if (!definition.better || ranked.length < 2) {
+      return row;
+    }
+
+    const [lowest, highest] = [Math.min(...ranked), Math.max(...ranked)];
+    if (lowest === highest) {
+      return row;
+    }
+
+    const [bestValue, worstValue] = definition.better === 'higher' ? [highest, lowest] : [lowest, highest];
+    row.best = values.flatMap((value, index) => (value === bestValue ? [index] : []));
+    row.worst = values.flatMap((value, index) => (value === worstValue ? [index] : []));
+    return row;
+  }
+
+  private compareFeatures(vehicles: Vehicle[]): VehicleComparisonFeature[] {
+    const allFeatures = Array.from(new Set(vehicles.flatMap(vehicle => vehicle.features))).sort();
+    const features = allFeatures.map(feature => ({
+      feature,
+      present: vehicles.map(vehicle => vehicle.features.includes(feature)),
+    }));
+
+    // Features that tell the vehicles apart first, then the ones they all share
+    const isShared = (feature: VehicleComparisonFeature) => feature.present.every(Boolean);
+    return [...features.filter(feature => !isShared(feature)), ...features.filter(isShared)];
+  }
+}
@@ -0,0 +1,78 @@
+/**
+ * VisitCalendar Unit Tests
+ */
+
+import { Visit } from '@car-finder/types';
+import { VisitCalendar } from './VisitCalendar';
+
+function createVisit(overrides: Partial<Visit> = {}): Visit {
+  return {
+    id: 'visit-1',
+    vehicleId: 'vehicle-1',
+    scheduledAt: new Date('2024-03-09T10:00:00Z'),
+    durationMinutes: 90,
+    location: 'Poznań, ul. Głogowska 1',
+    contactName: 'Jan',
+    contactPhone: '+48 600 100 200',
+    notes: null,
+    status: 'scheduled',
+    checklist: [],
+    createdAt: new Date('2024-03-01T10:00:00Z'),
+    updatedAt: new Date('2024-03-01T10:00:00Z'),
+    ...overrides,
+  };
+}
+
+const vehicle = { title: 'Fiat Ducato Maxi', sourceUrl: 'https://otomoto.pl/ducato' };
+
+describe('VisitCalendar', () => {
+  const calendar = new VisitCalendar();
+
+  it('should write one event per visit with UTC times and CRLF line endings', () => {
+    const ics = calendar.build([{ visit: createVisit(), vehicle }], new Date('2024-03-02T08:30:00Z'));
+    const lines = ics.split('\r\n');
+
+    expect(lines[0]).toBe('BEGIN:VCALENDAR');
+    expect(lines).toEqual(expect.arrayContaining([
+      'UID:visit-1@car-finder-ai',
+      'DTSTAMP:20240302T083000Z',
+      'DTSTART:20240309T100000Z',
+      'DTEND:20240309T113000Z',
+      'SUMMARY:Visit: Fiat Ducato Maxi',
+      'LOCATION:Poznań\\, ul. Głogowska 1',
+      'URL:https://otomoto.pl/ducato',
+    ]));
+    expect(lines.filter(line => line === 'BEGIN:VEVENT')).toHaveLength(1);
+    expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+    expect(ics.replace(/\r\n/g, '')).not.toContain('\n');
+  });
+
+  it('should escape text values and fold lines longer than 75 octets', () => {
+    const notes = 'Bring cash; ask about the timing chain, clutch and rust.\nSeller prefers Saturday mornings – call ahead (Łódź).';
+    const visit = createVisit({
+      notes,
+      checklist: [{ id: 'item-1', label: 'Rust', critical: false, source: 'manual', result: 'pending', notes: null }],
+    });
+
+    const ics = calendar.build([{ visit, vehicle }]);
+    const lines = ics.split('\r\n');
+
+    for (const line of lines) {
+      expect(Buffer.byteLength(line, 'utf8')).toBeLessThanOrEqual(75);
+    }
+
+    const unfolded = ics.replace(/\r\n /g, '');
+    expect(unfolded).toContain(
+      'DESCRIPTION:Contact: Jan\\nPhone: +48 600 100 200\\nListing: https://otomoto.pl/ducato\\n'
+      + 'Inspection checklist: 1 item\\nBring cash\\; ask about the timing chain\\, clutch and rust.\\n'
+      + 'Seller prefers Saturday mornings – call ahead (Łódź).'
+    );
+  });
+
+  it('should write an empty calendar without visits', () => {
+    const ics = calendar.build([]);
+
+    expect(ics).not.toContain('BEGIN:VEVENT');
+    expect(ics).toContain('END:VCALENDAR');
+  });
+});
@@ -0,0 +1,105 @@
+/**
+ * VisitCalendar - iCalendar (RFC 5545) export of scheduled visits
+ *
+ * Each visit becomes a VEVENT with a stable UID, so re-importing the feed updates the
+ * existing calendar entries instead of duplicating them. Times are written in UTC, text
+ * values are escaped and lines longer than 75 octets are folded as the RFC requires.
+ */
+
+import { Vehicle, Visit } from '@car-finder/types';
+
+const CRLF = '\r\n';
+const MAX_LINE_OCTETS = 75;
+const UID_DOMAIN = 'car-finder-ai';
+
+export interface CalendarVisit {
+  visit: Visit;
+  vehicle: Pick<Vehicle, 'title' | 'sourceUrl'>;
+}
+
+export class VisitCalendar {
+  /**
+   * Build a VCALENDAR document with one event per visit
+   * @param generatedAt - DTSTAMP of the events
+   */
+  build(entries: CalendarVisit[], generatedAt: Date = new Date()): string {
+    const lines = [
+      'BEGIN:VCALENDAR',
+      'VERSION:2.0',
+      `PRODID:-//${UID_DOMAIN}//Vehicle Visits//EN`,
+      'CALSCALE:GREGORIAN',
+      'METHOD:PUBLISH',
+      'X-WR-CALNAME:Vehicle visits',
+      ...entries.flatMap(entry => this.buildEvent(entry, generatedAt)),
+      'END:VCALENDAR',
+    ];
+
+    return lines.map(line => this.foldLine(line)).join(CRLF) + CRLF;
+  }
+
+  private buildEvent({ visit, vehicle }: CalendarVisit, generatedAt: Date): string[] {
+    const end = new Date(visit.scheduledAt.getTime() + visit.durationMinutes * 60 * 1000);
+    const description = [
+      visit.contactName && `Contact: ${visit.contactName}`,
+      visit.contactPhone && `Phone: ${visit.contactPhone}`,
+      `Listing: ${vehicle.sourceUrl}`,
+      visit.checklist.length > 0 && `Inspection checklist: ${visit.checklist.length} item${visit.checklist.length === 1 ? '' : 's'}`,
+      visit.notes,
+    ].filter(Boolean).join('\n');
+
+    return [
+      'BEGIN:VEVENT',
+      `UID:${visit.id}@${UID_DOMAIN}`,
+      `DTSTAMP:${this.formatDate(generatedAt)}`,
+      `DTSTART:${this.formatDate(visit.scheduledAt)}`,
+      `DTEND:${this.formatDate(end)}`,
+      `SUMMARY:${this.escapeText(`Visit: ${vehicle.title}`)}`,
+      ...(visit.location ? [`LOCATION:${this.escapeText(visit.location)}`] : []),
+      `DESCRIPTION:${this.escapeText(description)}`,
+      `URL:${vehicle.sourceUrl}`,
+      'STATUS:CONFIRMED',
+      'END:VEVENT',
+    ];
+  }
+
+  /**
+   * UTC date-time, e.g. 20240309T100000Z
+   */
+  private formatDate(date: Date): string {
+    return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+  }
+
+  private escapeText(text: string): string {
+    return text
+      .replace(/\\/g, '\\\\')
+      .replace(/;/g, '\\;')
+      .replace(/,/g, '\\,')
+      .replace(/\r?\n/g, '\\n');
+  }
+
+  /**
+   * Split a content line into 75-octet chunks, continuation lines starting with a space
+   * Splits between characters so multi-byte UTF-8 sequences stay intact
+   */
+  private foldLine(line: string): string {
+    const chunks: string[] = [];
+    let chunk = '';
+    let octets = 0;
+
+    for (const char of line) {
+      const charOctets = Buffer.byteLength(char, 'utf8');
+      // Continuation lines lose one octet to the leading space
+      const limit = chunks.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+      if (octets + charOctets > limit) {
+        chunks.push(chunk);
+        chunk = '';
+        octets = 0;
+      }
+      chunk += char;
+      octets += charOctets;
+    }
+    chunks.push(chunk);
+
+    return chunks.join(`${CRLF} `);
+  }
+}
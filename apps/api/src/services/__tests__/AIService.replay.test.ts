@@ -0,0 +1,131 @@
+/**
+ * AIService regression tests against recorded AI responses
+ *
+ * Runs the real prompt loading and building pipeline with the replay provider, so any
+ * change to a prompt or to the data sent to the model shows up as a missing fixture.
+ * Re-record with: AI_PROVIDER=replay AI_REPLAY_MODE=record AI_REPLAY_DIR=<this dir>/fixtures/ai-replay
+ */
+
+import * as path from 'path';
+import { AIService, UserCriteria } from '../AIService';
+import { Vehicle } from '@car-finder/types';
+
+const FIXTURES_DIR = path.join(__dirname, 'fixtures', 'ai-replay');
+
+describe('AIService - Replay Regression', () => {
+  const originalEnv = process.env;
+  let aiService: AIService;
+
+  const vehicle: Vehicle = {
+    id: 'replay-vehicle-1',
+    source: 'otomoto',
+    sourceId: 'ID6Gx1Yz',
+    sourceUrl: 'https://www.otomoto.pl/osobowe/oferta/fiat-ducato-ID6Gx1Yz.html',
+    sourceCreatedAt: new Date('2024-03-01T10:00:00Z'),
+    sourceTitle: 'Fiat Ducato 2.3 MultiJet Kamper',
+    sourceDescriptionHtml: '<p>Zadbany kamper, serwisowany w ASO. Nowy rozrząd.</p>',
+    sourceParameters: {
+      'Marka pojazdu': 'Fiat',
+      'Model pojazdu': 'Ducato',
+      'Rodzaj paliwa': 'Diesel',
+      'Skrzynia biegów': 'Manualna',
+      'Moc': '130 KM',
+      'Pojemność skokowa': '2 287 cm3',
+    },
+    sourceEquipment: {},
+    sourcePhotos: [],
+    title: 'Fiat Ducato 2.3 MultiJet Camper',
+    description: null,
+    features: [],
+    pricePln: 129000,
+    priceEur: 30000,
+    year: 2016,
+    mileage: 145000,
+    sellerInfo: { name: 'Jan', id: null, type: 'private', location: 'Kraków', memberSince: null },
+    photos: [],
+    personalFitScore: null,
+    marketValueScore: null,
+    aiPriorityRating: null,
+    aiPrioritySummary: null,
+    aiMechanicReport: null,
+    aiDataSanityCheck: null,
+    status: 'new',
+    personalNotes: null,
+    scrapedAt: new Date('2024-03-02T10:00:00Z'),
+    createdAt: new Date('2024-03-02T10:00:00Z'),
+    updatedAt: new Date('2024-03-02T10:00:00Z'),
+    lastSeenAt: new Date('2024-03-02T10:00:00Z'),
+    listingState: 'active',
+    delistedAt: null,
+  };
+
+  const criteria: UserCriteria = {
+    budgetEur: { min: 20000, max: 35000 },
+    preferredFeatures: ['solar_panel', 'bike_rack'],
+    useCase: 'weekend trips for two',
+    priorityFactors: ['reliability', 'low_mileage'],
+  };
+
+  beforeEach(() => {
+    process.env = {
+      ...originalEnv,
+      AI_PROVIDER: 'replay',
+      AI_REPLAY_MODE: 'replay',
+      AI_REPLAY_DIR: FIXTURES_DIR,
+    };
+
+    aiService = new AIService();
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  it('should translate the description from the recorded response', async () => {
+    const result = await aiService.translateVehicleContent(vehicle);
+
+    expect(result).toEqual({
+      description: 'Well-kept camper, serviced at an authorized dealer. New timing belt.',
+      features: [],
+    });
+  });
+
+  it('should run the full analysis from recorded responses', async () => {
+    const sanityCheck = await aiService.generateDataSanityCheck(vehicle);
+    const fitScore = await aiService.generatePersonalFitScore(vehicle, criteria);
+    const mechanicReport = await aiService.generateMechanicReport(vehicle);
+    const priority = await aiService.generatePriorityRating({
+      ...vehicle,
+      personalFitScore: fitScore,
+      aiDataSanityCheck: sanityCheck,
+    });
+
+    expect(sanityCheck).toContain('Consistency Score: 9/10');
+    expect(sanityCheck).toContain('Trust Level: HIGH');
+    expect(fitScore).toBe(7.5);
+    expect(mechanicReport).toContain('2.3 MultiJet');
+    expect(priority).toEqual({
+      rating: 7.8,
+      summary: 'Well-maintained camper within budget; confirm timing belt invoice before buying.',
+    });
+  });
+
+  it('should answer chat from the recorded conversation', async () => {
+    const reply = await aiService.chat(
+      {
+        context: { view: 'detail', vehicleId: vehicle.id },
+        conversationHistory: [],
+        userMessage: 'Is the mileage reasonable for the price?',
+      },
+      [vehicle]
+    );
+
+    expect(reply).toContain('145,000 km');
+  });
+
+  it('should fail loudly when a prompt has no recording', async () => {
+    await expect(aiService.generateMechanicReport({ ...vehicle, mileage: 999999 })).rejects.toThrow(
+      'No replay fixture'
+    );
+  });
+});
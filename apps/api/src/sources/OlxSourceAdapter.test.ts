@@ -0,0 +1,39 @@
+/**
+ * OlxSourceAdapter Unit Tests
+ */
+
+import * as fs from 'fs';
+import { WorkspaceUtils } from '@car-finder/services';
+import { OlxSourceAdapter } from './OlxSourceAdapter';
+
+describe('OlxSourceAdapter', () => {
+  const adapter = new OlxSourceAdapter();
+
+  it('should build the search URLs used in search-config.json', () => {
+    const config = JSON.parse(fs.readFileSync(WorkspaceUtils.resolveConfigFile('search-config.json'), 'utf-8'));
+    const trafic = config.searchUrls.olx.find((search: { name: string }) => search.name.startsWith('Renault Trafic'));
+
+    expect(adapter.buildSearchUrl({
+      make: 'renault',
+      model: 'trafic',
+      location: 'wroclaw',
+      radiusKm: 100,
+      maxPricePln: 60000,
+      maxYear: 2014,
+    })).toBe(trafic.url);
+  });
+
+  it('should search the whole country without a location', () => {
+    expect(adapter.buildSearchUrl({ make: 'opel', model: 'vivaro', radiusKm: 100, maxYear: 2014 }))
+      .toBe('https://www.olx.pl/motoryzacja/samochody/opel/q-vivaro/?search%5Bfilter_float_year%3Ato%5D=2014&search%5Border%5D=created_at%3Adesc');
+  });
+
+  it('should extract alphanumeric listing IDs from advert URLs', () => {
+    expect(adapter.extractId('https://www.olx.pl/d/oferta/renault-trafic-2-0-dci-l2h1-CID5-IDZtr01.html')).toBe('Ztr01');
+    expect(adapter.extractId('https://www.olx.pl/motoryzacja/samochody/renault/')).toBeNull();
+  });
+
+  it('should scroll lazy-loaded search pages', () => {
+    expect(adapter.pagination.scrollUntilStable).toBe(true);
+  });
+});
@@ -0,0 +1,40 @@
+/**
+ * OLX (olx.pl) - pages are parsed with CSS selectors; search results load while scrolling
+ */
+
+import { SourceAdapter, SearchCriteria, buildQueryString, queryParamPagination } from './SourceAdapter';
+
+const BASE_URL = 'https://www.olx.pl';
+
+export class OlxSourceAdapter implements SourceAdapter {
+  readonly key = 'olx';
+  readonly name = 'OLX';
+  readonly parserSchemaKey = 'olx';
+  readonly pagination = queryParamPagination({ scrollUntilStable: true });
+
+  /**
+   * e.g. /motoryzacja/samochody/renault/wroclaw/q-trafic/?search[dist]=100
+   * OLX has no model categories for vans, so the model is a search phrase
+   */
+  buildSearchUrl(criteria: SearchCriteria): string {
+    const path = ['motoryzacja', 'samochody', criteria.make, criteria.location, `q-${criteria.model}`]
+      .filter(Boolean)
+      .join('/');
+    const query = buildQueryString({
+      'search[dist]': criteria.location ? criteria.radiusKm : undefined,
+      'search[filter_float_price:to]': criteria.maxPricePln,
+      'search[filter_float_year:to]': criteria.maxYear,
+      'search[order]': 'created_at:desc',
+    });
+
+    return `${BASE_URL}/${path}/?${query}`;
+  }
+
+  /**
+   * e.g. /d/oferta/renault-trafic-CID5-IDZtr01.html -> Ztr01
+   */
+  extractId(url: string): string | null {
+    const match = url.match(/-ID([A-Za-z0-9]+)\.html/);
+    return match ? match[1] : null;
+  }
+}
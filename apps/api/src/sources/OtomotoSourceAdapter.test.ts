@@ -0,0 +1,41 @@
+/**
+ * OtomotoSourceAdapter Unit Tests
+ */
+
+import * as fs from 'fs';
+import { WorkspaceUtils } from '@car-finder/services';
+import { OtomotoSourceAdapter } from './OtomotoSourceAdapter';
+
+describe('OtomotoSourceAdapter', () => {
+  const adapter = new OtomotoSourceAdapter();
+
+  it('should build the search URLs used in search-config.json', () => {
+    const config = JSON.parse(fs.readFileSync(WorkspaceUtils.resolveConfigFile('search-config.json'), 'utf-8'));
+    const trafic = config.searchUrls.otomoto.find((search: { name: string }) => search.name.startsWith('Renault Trafic'));
+
+    expect(adapter.buildSearchUrl({
+      make: 'renault',
+      model: 'trafic',
+      location: 'wroclaw',
+      radiusKm: 300,
+      maxPricePln: 60000,
+      maxYear: 2014,
+    })).toBe(trafic.url);
+  });
+
+  it('should leave out criteria that are not set', () => {
+    expect(adapter.buildSearchUrl({ make: 'ford', model: 'transit', radiusKm: 100 }))
+      .toBe('https://www.otomoto.pl/osobowe/ford/transit?search%5Border%5D=created_at_first%3Adesc');
+  });
+
+  it('should extract listing IDs from advert URLs', () => {
+    expect(adapter.extractId('https://www.otomoto.pl/osobowe/oferta/renault-trafic-ID6HG4T1.html')).toBe('6HG4T1');
+    expect(adapter.extractId('https://www.otomoto.pl/osobowe/renault/trafic')).toBeNull();
+  });
+
+  it('should paginate by page number without scrolling', () => {
+    expect(adapter.pagination.pageUrl('https://www.otomoto.pl/osobowe/renault/trafic?search%5Bdist%5D=300', 2))
+      .toBe('https://www.otomoto.pl/osobowe/renault/trafic?search%5Bdist%5D=300&page=2');
+    expect(adapter.pagination.scrollUntilStable).toBe(false);
+  });
+});
@@ -0,0 +1,37 @@
+/**
+ * Otomoto (otomoto.pl) - pages carry their data in the __NEXT_DATA__ JSON script
+ */
+
+import { SourceAdapter, SearchCriteria, buildQueryString, queryParamPagination } from './SourceAdapter';
+
+const BASE_URL = 'https://www.otomoto.pl';
+
+export class OtomotoSourceAdapter implements SourceAdapter {
+  readonly key = 'otomoto';
+  readonly name = 'Otomoto';
+  readonly parserSchemaKey = 'otomoto';
+  readonly pagination = queryParamPagination();
+
+  /**
+   * e.g. /osobowe/renault/trafic/wroclaw?search[dist]=300&search[filter_float_price:to]=60000
+   */
+  buildSearchUrl(criteria: SearchCriteria): string {
+    const path = ['osobowe', criteria.make, criteria.model, criteria.location].filter(Boolean).join('/');
+    const query = buildQueryString({
+      'search[dist]': criteria.location ? criteria.radiusKm : undefined,
+      'search[filter_float_price:to]': criteria.maxPricePln,
+      'search[filter_float_year:to]': criteria.maxYear,
+      'search[order]': 'created_at_first:desc',
+    });
+
+    return `${BASE_URL}/${path}?${query}`;
+  }
+
+  /**
+   * e.g. /osobowe/oferta/renault-trafic-2-0-dci-ID6HG4T1.html -> 6HG4T1
+   */
+  extractId(url: string): string | null {
+    const match = url.match(/-ID([A-Za-z0-9]+)\.html/);
+    return match ? match[1] : null;
+  }
+}
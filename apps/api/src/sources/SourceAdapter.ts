@@ -0,0 +1,77 @@
+/**
+ * Marketplace source adapters for ingestion
+ *
+ * Everything the ingestion pipeline needs to know about a marketplace lives in its
+ * adapter: how to build a search URL, how to reach later result pages, how to read the
+ * listing ID from a URL and which parser-schema.json entry parses its pages. A new
+ * marketplace is an adapter module registered in sources/index.ts plus a
+ * parser-schema.json entry; the pipeline itself is source-agnostic.
+ */
+
+import { VehicleSource } from '@car-finder/types';
+
+/**
+ * Marketplace-independent description of a search (search-config.json `searches`)
+ * Make, model and location are the URL slugs the marketplaces share, e.g. 'renault'
+ */
+export interface SearchCriteria {
+  make: string;
+  model: string;
+  location?: string; // City slug, e.g. 'wroclaw'
+  radiusKm?: number; // Distance from the location
+  maxPricePln?: number;
+  maxYear?: number;
+}
+
+/**
+ * How to reach every listing of a search
+ */
+export interface PaginationStrategy {
+  /**
+   * URL of a later results page (page >= 2)
+   */
+  pageUrl(searchUrl: string, page: number): string;
+
+  // Results load while scrolling, so pages are scrolled to the end before parsing
+  scrollUntilStable: boolean;
+}
+
+export interface SourceAdapter {
+  readonly key: VehicleSource; // Stored in vehicles.source and vehicle_sources
+  readonly name: string; // Display name, e.g. 'Otomoto'
+  readonly parserSchemaKey: string; // Site key in parser-schema.json
+  readonly pagination: PaginationStrategy;
+
+  /**
+   * Search URL for the given criteria, newest listings first
+   */
+  buildSearchUrl(criteria: SearchCriteria): string;
+
+  /**
+   * Listing ID from a listing URL, null when the URL has none
+   */
+  extractId(url: string): string | null;
+}
+
+/**
+ * Pagination by a page number query parameter (?page=2)
+ */
+export function queryParamPagination(options: { param?: string; scrollUntilStable?: boolean } = {}): PaginationStrategy {
+  const param = options.param ?? 'page';
+
+  return {
+    pageUrl: (searchUrl, page) => `${searchUrl}${searchUrl.includes('?') ? '&' : '?'}${param}=${page}`,
+    scrollUntilStable: options.scrollUntilStable ?? false,
+  };
+}
+
+/**
+ * Encode query parameters, skipping undefined values
+ * Keys are encoded too, so "search[dist]" becomes "search%5Bdist%5D" as the marketplaces expect
+ */
+export function buildQueryString(params: Record<string, string | number | undefined>): string {
+  return Object.entries(params)
+    .filter((entry): entry is [string, string | number] => entry[1] !== undefined)
+    .map(([key, value]) => `${encodeURIComponent(key)}=${encodeURIComponent(String(value))}`)
+    .join('&');
+}
@@ -0,0 +1,63 @@
+/**
+ * SourceRegistry Unit Tests
+ */
+
+import { SourceRegistry } from './SourceRegistry';
+import { SourceAdapter, queryParamPagination } from './SourceAdapter';
+import { OtomotoSourceAdapter } from './OtomotoSourceAdapter';
+import { sourceRegistry } from './index';
+
+function createAdapter(key: string, name: string): SourceAdapter {
+  return {
+    key,
+    name,
+    parserSchemaKey: key,
+    pagination: queryParamPagination(),
+    buildSearchUrl: criteria => `https://${key}.example/${criteria.make}/${criteria.model}`,
+    extractId: () => null,
+  };
+}
+
+describe('SourceRegistry', () => {
+  let registry: SourceRegistry;
+
+  beforeEach(() => {
+    registry = new SourceRegistry();
+    registry.register(new OtomotoSourceAdapter());
+    registry.register(createAdapter('autoscout24', 'AutoScout24'));
+  });
+
+  it('should resolve registered adapters in registration order', () => {
+    expect(registry.keys()).toEqual(['otomoto', 'autoscout24']);
+    expect(registry.get('autoscout24').name).toBe('AutoScout24');
+    expect(registry.has('otomoto')).toBe(true);
+    expect(registry.has('mobile-de')).toBe(false);
+    expect(registry.toVehicleSources()).toEqual([
+      { key: 'otomoto', name: 'Otomoto' },
+      { key: 'autoscout24', name: 'AutoScout24' },
+    ]);
+  });
+
+  it('should reject unknown, duplicate and malformed keys', () => {
+    expect(() => registry.get('mobile-de')).toThrow("Source 'mobile-de' is not registered");
+    expect(() => registry.register(createAdapter('otomoto', 'Otomoto 2'))).toThrow("Source 'otomoto' is already registered");
+    expect(() => registry.register(createAdapter('Mobile.de', 'mobile.de'))).toThrow("Invalid source key 'Mobile.de'");
+  });
+
+  it('should register the built-in marketplaces by default', () => {
+    expect(sourceRegistry.keys()).toEqual(['otomoto', 'olx']);
+  });
+});
+
+describe('queryParamPagination', () => {
+  it('should append the page number to the search query', () => {
+    const pagination = queryParamPagination();
+
+    expect(pagination.pageUrl('https://www.otomoto.pl/osobowe/renault?search%5Bdist%5D=300', 2))
+      .toBe('https://www.otomoto.pl/osobowe/renault?search%5Bdist%5D=300&page=2');
+    expect(pagination.pageUrl('https://www.otomoto.pl/osobowe/renault', 3)).toBe('https://www.otomoto.pl/osobowe/renault?page=3');
+    expect(pagination.scrollUntilStable).toBe(false);
+    expect(queryParamPagination({ param: 'p', scrollUntilStable: true })).toMatchObject({ scrollUntilStable: true });
+    expect(queryParamPagination({ param: 'p' }).pageUrl('https://example.com/?q=van', 2)).toBe('https://example.com/?q=van&p=2');
+  });
+});
@@ -0,0 +1,63 @@
+/**
+ * SourceRegistry - Marketplace source adapters by key
+ *
+ * The registered keys are what vehicles.source may hold: ingestion writes them to
+ * vehicle_sources, which the vehicles table references.
+ */
+
+import { VehicleSource, VehicleSourceInfo } from '@car-finder/types';
+import { SourceAdapter } from './SourceAdapter';
+
+export class SourceRegistry {
+  private adapters = new Map<VehicleSource, SourceAdapter>();
+
+  /**
+   * Register an adapter under its key
+   */
+  register(adapter: SourceAdapter): void {
+    if (!/^[a-z0-9_-]+$/.test(adapter.key)) {
+      throw new Error(`Invalid source key '${adapter.key}' (use lowercase letters, digits, '-' and '_')`);
+    }
+    if (this.adapters.has(adapter.key)) {
+      throw new Error(`Source '${adapter.key}' is already registered`);
+    }
+
+    this.adapters.set(adapter.key, adapter);
+  }
+
+  /**
+   * Adapter for a source key
+   */
+  get(key: VehicleSource): SourceAdapter {
+    const adapter = this.adapters.get(key);
+    if (!adapter) {
+      throw new Error(`Source '${key}' is not registered`);
+    }
+    return adapter;
+  }
+
+  has(key: string): boolean {
+    return this.adapters.has(key);
+  }
+
+  /**
+   * Registered source keys, in registration order
+   */
+  keys(): VehicleSource[] {
+    return Array.from(this.adapters.keys());
+  }
+
+  /**
+   * Registered adapters, in registration order
+   */
+  list(): SourceAdapter[] {
+    return Array.from(this.adapters.values());
+  }
+
+  /**
+   * Registered sources as stored in vehicle_sources
+   */
+  toVehicleSources(): VehicleSourceInfo[] {
+    return this.list().map(adapter => ({ key: adapter.key, name: adapter.name }));
+  }
+}
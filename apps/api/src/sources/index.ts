@@ -0,0 +1,22 @@
+/**
+ * Marketplace sources
+ *
+ * To add a marketplace: implement SourceAdapter in a module next to this one, register it
+ * below, add its site entry to parser-schema.json and sample pages to parser-samples/<site>/
+ * (checked with pnpm parser:test). Its searches go in search-config.json
+ * (`searchUrls.<key>`, or built from the shared `searches` criteria) and it is ingested once
+ * its key is in `enabledSources`.
+ */
+
+import { SourceRegistry } from './SourceRegistry';
+import { OtomotoSourceAdapter } from './OtomotoSourceAdapter';
+import { OlxSourceAdapter } from './OlxSourceAdapter';
+
+export * from './SourceAdapter';
+export { SourceRegistry } from './SourceRegistry';
+export { OtomotoSourceAdapter } from './OtomotoSourceAdapter';
+export { OlxSourceAdapter } from './OlxSourceAdapter';
+
+export const sourceRegistry = new SourceRegistry();
+sourceRegistry.register(new OtomotoSourceAdapter());
+sourceRegistry.register(new OlxSourceAdapter());
@@ -1,4 +1,25 @@
-import { fetchVehicles, checkApiHealth, ApiError } from '@/lib/api';
+import {
+  fetchVehicles,
+  fetchVehicleHistory,
+  fetchVehicleEvents,
+  fetchMarketValue,
+  fetchTimeOnMarketStats,
+  fetchVehicleComparison,
+  fetchCriteriaProfiles,
+  fetchSellerMessages,
+  draftSellerMessage,
+  translateSellerReply,
+  translateVehicle,
+  analyzeVehicle,
+  bulkUpdateVehicles,
+  undoBulkOperation,
+  scheduleVisit,
+  saveVisitChecklist,
+  getVisitCalendarUrl,
+  checkApiHealth,
+  ApiError,
+  buildVehicleQueryString,
+} from '@/lib/api';
 
 // Mock fetch globally
 global.fetch = jest.fn();
@@ -10,25 +31,30 @@ describe('API Client', () => {
 
   describe('fetchVehicles', () => {
     it('should fetch vehicles successfully', async () => {
-      const mockVehicles = [
-        {
-          id: '1',
-          title: 'Test Vehicle',
-          source: 'otomoto',
-          pricePln: 50000,
-          priceEur: 12000,
-          year: 2020,
-          mileage: 50000,
-        },
-      ];
+      const mockPage = {
+        data: [
+          {
+            id: '1',
+            title: 'Test Vehicle',
+            source: 'otomoto',
+            pricePln: 50000,
+            priceEur: 12000,
+            year: 2020,
+            mileage: 50000,
+          },
+        ],
+        total: 1,
+        page: 1,
+        limit: 20,
+      };
 
       (fetch as jest.Mock).mockResolvedValueOnce({
         ok: true,
-        json: async () => mockVehicles,
+        json: async () => mockPage,
       });
 
       const result = await fetchVehicles();
-      expect(result).toEqual(mockVehicles);
+      expect(result).toEqual(mockPage);
       expect(fetch).toHaveBeenCalledWith(
         'http://localhost:3000/api/vehicles',
         expect.objectContaining({
@@ -39,6 +65,20 @@ describe('API Client', () => {
       );
     });
 
+    it('should send filters, sorting and pagination as query parameters', async () => {
+      (fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ data: [], total: 0, page: 2, limit: 10 }),
+      });
+
+      await fetchVehicles({ status: ['new', 'contacted'], search: 'ducato', sortBy: 'priceEur', sortDirection: 'asc', page: 2, limit: 10 });
+
+      expect(fetch).toHaveBeenCalledWith(
+        'http://localhost:3000/api/vehicles?status=new%2Ccontacted&search=ducato&sortBy=priceEur&sortDirection=asc&page=2&limit=10',
+        expect.any(Object)
+      );
+    });
+
     it('should handle API errors', async () => {
       (fetch as jest.Mock).mockResolvedValueOnce({
         ok: false,
@@ -57,6 +97,282 @@ describe('API Client', () => {
     });
   });
 
+  describe('buildVehicleQueryString', () => {
+    it('should omit empty values', () => {
+      expect(buildVehicleQueryString({})).toBe('');
+      expect(buildVehicleQueryString({ status: [], search: '', minYear: undefined })).toBe('');
+    });
+
+    it('should serialize the collapse duplicates flag either way', () => {
+      expect(buildVehicleQueryString({ collapseDuplicates: true })).toBe('?collapseDuplicates=true');
+      expect(buildVehicleQueryString({ collapseDuplicates: false })).toBe('?collapseDuplicates=false');
+    });
+  });
+
+  describe('fetchVehicleHistory', () => {
+    it('should fetch the listing history for a vehicle', async () => {
+      const mockHistory = {
+        vehicleId: 'vehicle-1',
+        snapshots: [{ id: 's1', vehicleId: 'vehicle-1', pricePln: 50000, changedFields: [] }],
+      };
+
+      (fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        json: async () => mockHistory,
+      });
+
+      const result = await fetchVehicleHistory('vehicle-1');
+      expect(result).toEqual(mockHistory);
+      expect(fetch).toHaveBeenCalledWith(
+        'http://localhost:3000/api/vehicles/vehicle-1/history',
+        expect.any(Object)
+      );
+    });
+  });
+
+  describe('fetchVehicleEvents', () => {
+    it('should fetch the audit log for a vehicle', async () => {
+      const mockEvents = {
+        vehicleId: 'vehicle-1',
+        events: [
+          { id: 'e1', vehicleId: 'vehicle-1', type: 'status_change', fromValue: 'new', toValue: 'to_contact', createdAt: '2024-01-01T00:00:00.000Z' },
+        ],
+      };
+      (fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        json: async () => mockEvents,
+      });
+
+      const result = await fetchVehicleEvents('vehicle-1');
+
+      expect(result).toEqual(mockEvents);
+      expect(fetch).toHaveBeenCalledWith('http://localhost:3000/api/vehicles/vehicle-1/events', expect.any(Object));
+    });
+  });
+
+  describe('fetchVehicleComparison', () => {
+    it('should request the comparison, with the AI recommendation only when asked', async () => {
+      const comparison = { vehicles: [], rows: [], features: [], sanityFlags: [], recommendation: null, recommendationError: null };
+      const response = { ok: true, json: async () => comparison };
+      (fetch as jest.Mock).mockResolvedValueOnce(response).mockResolvedValueOnce(response);
+
+      await expect(fetchVehicleComparison(['vehicle-1', 'vehicle-2'])).resolves.toEqual(comparison);
+      await fetchVehicleComparison(['vehicle-1', 'vehicle-2'], true);
+
+      expect(fetch).toHaveBeenNthCalledWith(1, 'http://localhost:3000/api/vehicles/compare?ids=vehicle-1%2Cvehicle-2', expect.any(Object));
+      expect(fetch).toHaveBeenNthCalledWith(2, 'http://localhost:3000/api/vehicles/compare?ids=vehicle-1%2Cvehicle-2&recommend=true', expect.any(Object));
+    });
+  });
+
+  describe('fetchMarketValue', () => {
+    it('should fetch the market value breakdown', async () => {
+      const analysis = { vehicleId: 'vehicle-1', score: '-5%', comparables: [] };
+
+      (fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        json: async () => analysis,
+      });
+
+      expect(await fetchMarketValue('vehicle-1')).toEqual(analysis);
+      expect(fetch).toHaveBeenCalledWith(
+        'http://localhost:3000/api/vehicles/vehicle-1/market-value',
+        expect.any(Object)
+      );
+    });
+
+    it('should resolve to null when the market value has not been calculated', async () => {
+      (fetch as jest.Mock).mockResolvedValueOnce({
+        ok: false,
+        status: 404,
+        statusText: 'Not Found',
+        json: async () => ({ error: 'Market value not found' }),
+      });
+
+      expect(await fetchMarketValue('vehicle-1')).toBeNull();
+    });
+  });
+
+  describe('fetchTimeOnMarketStats', () => {
+    it('should unwrap the time-on-market stats', async () => {
+      const stats = [{ status: 'sold', count: 2, averageDays: 20, medianDays: 20, minDays: 10, maxDays: 30 }];
+
+      (fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ stats }),
+      });
+
+      expect(await fetchTimeOnMarketStats()).toEqual(stats);
+      expect(fetch).toHaveBeenCalledWith(
+        'http://localhost:3000/api/vehicles/stats/time-on-market',
+        expect.any(Object)
+      );
+    });
+  });
+
+  describe('fetchCriteriaProfiles', () => {
+    it('should fetch the criteria profiles', async () => {
+      const response = {
+        profiles: [{
+          id: 'family-van',
+          name: 'Family van',
+          budgetEur: { min: 5000, max: 25000 },
+          preferredFeatures: [],
+          useCase: 'school runs',
+          priorityFactors: [],
+        }],
+        defaultProfileId: 'family-van',
+      };
+
+      (fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        json: async () => response,
+      });
+
+      expect(await fetchCriteriaProfiles()).toEqual(response);
+      expect(fetch).toHaveBeenCalledWith('http://localhost:3000/api/profiles', expect.any(Object));
+    });
+  });
+
+  describe('seller messages', () => {
+    it('should fetch the conversation with the seller', async () => {
+      const conversation = { vehicleId: 'vehicle-1', messages: [] };
+
+      (fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        json: async () => conversation,
+      });
+
+      expect(await fetchSellerMessages('vehicle-1')).toEqual(conversation);
+      expect(fetch).toHaveBeenCalledWith(
+        'http://localhost:3000/api/vehicles/vehicle-1/messages',
+        expect.any(Object)
+      );
+    });
+
+    it('should post the draft request', async () => {
+      const draft = { messageType: 'negotiation', messagePl: 'Czy 120 000 zł?', messageEn: '120,000 PLN?', questions: [] };
+
+      (fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        json: async () => draft,
+      });
+
+      expect(await draftSellerMessage('vehicle-1', { messageType: 'negotiation', offerPriceEur: 28000 })).toEqual(draft);
+      expect(fetch).toHaveBeenCalledWith(
+        'http://localhost:3000/api/vehicles/vehicle-1/messages/draft',
+        expect.objectContaining({
+          method: 'POST',
+          body: JSON.stringify({ messageType: 'negotiation', offerPriceEur: 28000 }),
+        })
+      );
+    });
+
+    it('should post a pasted reply for translation', async () => {
+      (fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ id: 'm1', direction: 'incoming', textPl: 'Tak', textEn: 'Yes' }),
+      });
+
+      await translateSellerReply('vehicle-1', 'Tak');
+      expect(fetch).toHaveBeenCalledWith(
+        'http://localhost:3000/api/vehicles/vehicle-1/messages/reply',
+        expect.objectContaining({ method: 'POST', body: JSON.stringify({ textPl: 'Tak' }) })
+      );
+    });
+  });
+
+  describe('vehicle processing', () => {
+    it('should force a re-translation', async () => {
+      (fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ message: 'Vehicle translated successfully', vehicle: { id: 'vehicle-1' } }),
+      });
+
+      await translateVehicle('vehicle-1', true);
+      expect(fetch).toHaveBeenCalledWith(
+        'http://localhost:3000/api/vehicles/vehicle-1/translate?force=true',
+        expect.objectContaining({ method: 'POST' })
+      );
+    });
+
+    it('should pass analysis options as query parameters', async () => {
+      (fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ message: 'Vehicle analyzed successfully', vehicle: { id: 'vehicle-1' } }),
+      });
+
+      await analyzeVehicle('vehicle-1', { force: true, profile: 'family' });
+      expect(fetch).toHaveBeenCalledWith(
+        'http://localhost:3000/api/vehicles/vehicle-1/analyze?force=true&profile=family',
+        expect.objectContaining({ method: 'POST' })
+      );
+    });
+  });
+
+  describe('bulk operations', () => {
+    it('should post the bulk action', async () => {
+      (fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ operationId: 'op-1', action: 'set_status', affected: 2 }),
+      });
+
+      await bulkUpdateVehicles({ vehicleIds: ['vehicle-1', 'vehicle-2'], action: 'set_status', status: 'to_contact' });
+      expect(fetch).toHaveBeenCalledWith(
+        'http://localhost:3000/api/vehicles/bulk',
+        expect.objectContaining({
+          method: 'POST',
+          body: JSON.stringify({ vehicleIds: ['vehicle-1', 'vehicle-2'], action: 'set_status', status: 'to_contact' }),
+        })
+      );
+    });
+
+    it('should surface an expired undo as an API error', async () => {
+      (fetch as jest.Mock).mockResolvedValueOnce({
+        ok: false,
+        status: 410,
+        json: async () => ({ error: 'Undo expired', message: 'Bulk operation could only be undone until 2024-01-01T00:10:00.000Z' }),
+      });
+
+      await expect(undoBulkOperation('op-1')).rejects.toThrow('Bulk operation could only be undone');
+      expect(fetch).toHaveBeenCalledWith(
+        'http://localhost:3000/api/vehicles/bulk/op-1/undo',
+        expect.objectContaining({ method: 'POST' })
+      );
+    });
+  });
+
+  describe('visits', () => {
+    it('should post a new visit', async () => {
+      (fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ id: 'visit-1', vehicleId: 'vehicle-1', status: 'scheduled', checklist: [] }),
+      });
+
+      await scheduleVisit('vehicle-1', { scheduledAt: '2024-03-09T10:00:00.000Z', location: 'Poznań' });
+      expect(fetch).toHaveBeenCalledWith(
+        'http://localhost:3000/api/vehicles/vehicle-1/visits',
+        expect.objectContaining({
+          method: 'POST',
+          body: JSON.stringify({ scheduledAt: '2024-03-09T10:00:00.000Z', location: 'Poznań' }),
+        })
+      );
+    });
+
+    it('should replace the checklist and link the calendar feed', async () => {
+      (fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ id: 'visit-1', checklist: [] }),
+      });
+
+      await saveVisitChecklist('vehicle-1', 'visit-1', [{ label: 'Spare key', result: 'ok' }]);
+      expect(fetch).toHaveBeenCalledWith(
+        'http://localhost:3000/api/vehicles/vehicle-1/visits/visit-1/checklist',
+        expect.objectContaining({ method: 'PUT', body: JSON.stringify({ items: [{ label: 'Spare key', result: 'ok' }] }) })
+      );
+      expect(getVisitCalendarUrl()).toBe('http://localhost:3000/api/calendar/visits.ics');
+    });
+  });
+
   describe('checkApiHealth', () => {
     it('should check API health successfully', async () => {
       const mockHealth = {
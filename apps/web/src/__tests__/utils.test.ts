@@ -0,0 +1,83 @@
+import { parseMarkdown } from '@/lib/markdown';
+import {
+  estimateMarketPriceEur,
+  formatTimeOnMarket,
+  groupSourceParameters,
+  htmlToText,
+  parseMarketValueScore,
+} from '@/lib/utils';
+
+describe('Detail page helpers', () => {
+  describe('parseMarketValueScore', () => {
+    it('should parse signed percentages and the market average marker', () => {
+      expect(parseMarketValueScore('-5%')).toBe(-5);
+      expect(parseMarketValueScore('+10%')).toBe(10);
+      expect(parseMarketValueScore('market_avg')).toBe(0);
+    });
+
+    it('should return null when the score is missing or unreadable', () => {
+      expect(parseMarketValueScore(null)).toBeNull();
+      expect(parseMarketValueScore('n/a')).toBeNull();
+    });
+  });
+
+  describe('estimateMarketPriceEur', () => {
+    it('should derive the market price from the asking price', () => {
+      expect(estimateMarketPriceEur(9500, -5)).toBe(10000);
+      expect(estimateMarketPriceEur(11000, 10)).toBe(10000);
+    });
+  });
+
+  describe('formatTimeOnMarket', () => {
+    it('should summarize the count, median and range of days', () => {
+      expect(formatTimeOnMarket({ status: 'sold', count: 12, averageDays: 11.2, medianDays: 9, minDays: 3, maxDays: 40 }))
+        .toBe('12 sold · median 9 days (3–40)');
+      expect(formatTimeOnMarket({ status: 'removed', count: 1, averageDays: 1, medianDays: 1, minDays: 1, maxDays: 1 }))
+        .toBe('1 removed · median 1 day (1–1)');
+    });
+  });
+
+  describe('htmlToText', () => {
+    it('should keep line breaks and list items and decode entities', () => {
+      const html = '<p>Auto w dobrym stanie&nbsp;&amp; zadbane</p><ul><li>ASO</li><li>Hak</li></ul>Linia 1<br/>Linia 2';
+
+      expect(htmlToText(html)).toBe('Auto w dobrym stanie & zadbane\n• ASO\n• Hak\nLinia 1\nLinia 2');
+    });
+  });
+
+  describe('groupSourceParameters', () => {
+    it('should group known labels in order and put the rest under Other', () => {
+      const groups = groupSourceParameters({
+        'Rodzaj paliwa': 'Diesel',
+        'Marka pojazdu': 'Skoda',
+        'Rok produkcji': '2021',
+        'Faktura VAT': 'Tak',
+      });
+
+      expect(groups).toEqual([
+        { name: 'Basics', entries: [['Marka pojazdu', 'Skoda'], ['Rok produkcji', '2021']] },
+        { name: 'Engine & Drivetrain', entries: [['Rodzaj paliwa', 'Diesel']] },
+        { name: 'Other', entries: [['Faktura VAT', 'Tak']] },
+      ]);
+    });
+  });
+
+  describe('parseMarkdown', () => {
+    it('should parse headings, lists and inline emphasis', () => {
+      const blocks = parseMarkdown('## Engine\n- **Timing belt** due\n- Check `DPF`\n\nOverall *fine*.');
+
+      expect(blocks).toEqual([
+        { type: 'heading', level: 2, content: [{ text: 'Engine' }] },
+        {
+          type: 'list',
+          ordered: false,
+          items: [
+            [{ text: 'Timing belt', bold: true }, { text: ' due' }],
+            [{ text: 'Check ' }, { text: 'DPF', code: true }],
+          ],
+        },
+        { type: 'paragraph', content: [{ text: 'Overall ' }, { text: 'fine', italic: true }, { text: '.' }] },
+      ]);
+    });
+  });
+});
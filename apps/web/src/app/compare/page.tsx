@@ -0,0 +1,246 @@
+'use client';
+
+import Link from 'next/link';
+import { useSearchParams } from 'next/navigation';
+import { Suspense, useEffect, useState } from 'react';
+import { VehicleComparison, VehicleComparisonRow } from '@car-finder/types';
+import { fetchVehicleComparison } from '@/lib/api';
+import { formatMileage, getStatusColor, getStatusLabel } from '@/lib/utils';
+
+function formatValue(row: VehicleComparisonRow, value: number | string | null): string {
+  if (value === null) return '–';
+  if (typeof value === 'string') return value.charAt(0).toUpperCase() + value.slice(1);
+
+  switch (row.key) {
+    case 'pricePln':
+      return `${value.toLocaleString('pl-PL')} PLN`;
+    case 'priceEur':
+      return `€${value.toLocaleString('de-DE')}`;
+    case 'mileage':
+      return formatMileage(value);
+    case 'marketDifferencePercent':
+      return value === 0 ? 'Market average' : `${value > 0 ? '+' : ''}${value}%`;
+    case 'dealScore':
+      return `${value > 0 ? '+' : ''}${value.toFixed(2)}σ`;
+    case 'personalFitScore':
+    case 'aiPriorityRating':
+    case 'consistencyScore':
+      return `${value}/10`;
+    default:
+      return String(value);
+  }
+}
+
+function cellColor(row: VehicleComparisonRow, index: number): string {
+  if (row.best.includes(index)) return 'bg-green-50 text-green-800 font-semibold';
+  if (row.worst.includes(index)) return 'bg-red-50 text-red-800';
+  return 'text-gray-900';
+}
+
+function ComparisonView() {
+  const searchParams = useSearchParams();
+  const ids = (searchParams.get('ids') ?? '').split(',').map(id => id.trim()).filter(Boolean);
+  const idsKey = ids.join(',');
+
+  const [comparison, setComparison] = useState<VehicleComparison | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [isRecommending, setIsRecommending] = useState(false);
+  const [recommendError, setRecommendError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    setIsLoading(true);
+    fetchVehicleComparison(idsKey.split(','))
+      .then(result => {
+        if (!cancelled) {
+          setComparison(result);
+          setError(null);
+        }
+      })
+      .catch(err => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load comparison');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [idsKey]);
+
+  const handleRecommend = async () => {
+    setIsRecommending(true);
+    setRecommendError(null);
+    try {
+      const result = await fetchVehicleComparison(idsKey.split(','), true);
+      // Keep the current recommendation when a new one could not be generated
+      if (result.recommendationError) {
+        setRecommendError(result.recommendationError);
+      } else {
+        setComparison(result);
+      }
+    } catch (err) {
+      setRecommendError(err instanceof Error ? err.message : 'Failed to generate recommendation');
+    } finally {
+      setIsRecommending(false);
+    }
+  };
+
+  if (isLoading) {
+    return <div className="h-96 bg-white rounded-lg shadow animate-pulse" />;
+  }
+
+  if (error || !comparison) {
+    return (
+      <div className="bg-white rounded-lg shadow p-6">
+        <h1 className="text-2xl font-bold text-gray-900 mb-2">Could not compare vehicles</h1>
+        <p className="text-gray-600">{error}</p>
+      </div>
+    );
+  }
+
+  const { vehicles, rows, features, sanityFlags, recommendation } = comparison;
+  const columns = `minmax(10rem, 1fr) repeat(${vehicles.length}, minmax(12rem, 1fr))`;
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-lg shadow overflow-x-auto">
+        <div className="grid min-w-max" style={{ gridTemplateColumns: columns }}>
+          {/* Vehicle headers */}
+          <div className="p-4 border-b border-gray-200" />
+          {vehicles.map(vehicle => (
+            <div key={vehicle.id} className="p-4 border-b border-gray-200 space-y-2">
+              {vehicle.photo && (
+                <img src={vehicle.photo} alt={vehicle.title} className="w-full h-32 object-cover rounded" />
+              )}
+              <Link href={`/vehicle/${vehicle.id}`} className="block font-semibold text-gray-900 hover:text-blue-600">
+                {vehicle.title}
+              </Link>
+              <div className="flex items-center gap-2 text-xs">
+                <span className={`px-2 py-0.5 rounded-full font-medium ${getStatusColor(vehicle.status)}`}>
+                  {getStatusLabel(vehicle.status)}
+                </span>
+                <a href={vehicle.sourceUrl} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:text-blue-800 capitalize">
+                  {vehicle.source}
+                </a>
+              </div>
+            </div>
+          ))}
+
+          {/* Attribute rows */}
+          {rows.map(row => (
+            <div key={row.key} className="contents text-sm">
+              <div className="px-4 py-2 border-b border-gray-100 text-gray-500">{row.label}</div>
+              {row.values.map((value, index) => (
+                <div key={vehicles[index].id} className={`px-4 py-2 border-b border-gray-100 ${cellColor(row, index)}`}>
+                  {formatValue(row, value)}
+                </div>
+              ))}
+            </div>
+          ))}
+
+          {/* Sanity check flags */}
+          <div className="px-4 py-2 text-sm text-gray-500">Data flags</div>
+          {sanityFlags.map((flags, index) => (
+            <div key={vehicles[index].id} className="px-4 py-2 text-sm">
+              {flags.length === 0 ? (
+                <span className="text-gray-400">None</span>
+              ) : (
+                <ul className="list-disc list-inside text-amber-800 space-y-1">
+                  {flags.map(flag => <li key={flag}>{flag}</li>)}
+                </ul>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {features.length > 0 && (
+        <div className="bg-white rounded-lg shadow overflow-x-auto">
+          <h2 className="text-lg font-semibold text-gray-900 p-4 pb-2">Features</h2>
+          <div className="grid min-w-max text-sm" style={{ gridTemplateColumns: columns }}>
+            {features.map(({ feature, present }) => (
+              <div key={feature} className="contents">
+                <div className="px-4 py-1.5 border-b border-gray-100 text-gray-700">{feature.replace(/_/g, ' ')}</div>
+                {present.map((has, index) => (
+                  <div
+                    key={vehicles[index].id}
+                    className={`px-4 py-1.5 border-b border-gray-100 ${has ? 'text-green-700' : 'text-red-600 bg-red-50'}`}
+                  >
+                    {has ? '✓ Present' : '✗ Missing'}
+                  </div>
+                ))}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className="bg-white rounded-lg shadow p-6">
+        <div className="flex items-center justify-between gap-4 mb-4">
+          <h2 className="text-lg font-semibold text-gray-900">AI Recommendation</h2>
+          <button
+            onClick={handleRecommend}
+            disabled={isRecommending}
+            className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white text-sm rounded-lg disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isRecommending ? 'Comparing…' : recommendation ? 'Regenerate' : 'Get AI recommendation'}
+          </button>
+        </div>
+
+        {recommendError && <p className="text-sm text-red-600 mb-4">{recommendError}</p>}
+
+        {recommendation ? (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-700 whitespace-pre-line">{recommendation.summary}</p>
+            <div className="grid gap-4" style={{ gridTemplateColumns: `repeat(${vehicles.length}, minmax(0, 1fr))` }}>
+              {vehicles.map(vehicle => {
+                const entry = recommendation.vehicles.find(item => item.vehicleId === vehicle.id);
+                const isRecommended = recommendation.recommendedVehicleId === vehicle.id;
+                return (
+                  <div
+                    key={vehicle.id}
+                    className={`rounded-lg border p-4 text-sm ${isRecommended ? 'border-green-500 bg-green-50' : 'border-gray-200'}`}
+                  >
+                    <div className="font-medium text-gray-900 mb-2">
+                      {isRecommended && <span className="text-green-700">★ </span>}
+                      {vehicle.title}
+                    </div>
+                    <ul className="space-y-1">
+                      {entry?.pros.map(pro => <li key={pro} className="text-green-700">+ {pro}</li>)}
+                      {entry?.cons.map(con => <li key={con} className="text-red-700">− {con}</li>)}
+                    </ul>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        ) : (
+          <p className="text-sm text-gray-500">
+            Ask the AI to weigh these vehicles against each other, including their mechanic reports and data flags.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default function ComparePage() {
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <Link href="/" className="inline-block text-sm text-blue-600 hover:text-blue-800 mb-4">
+          ← Back to dashboard
+        </Link>
+        <h1 className="text-2xl font-bold text-gray-900 mb-6">Compare vehicles</h1>
+        {/* useSearchParams needs a Suspense boundary for the static build */}
+        <Suspense fallback={<div className="h-96 bg-white rounded-lg shadow animate-pulse" />}>
+          <ComparisonView />
+        </Suspense>
+      </div>
+    </div>
+  );
+}
@@ -4,8 +4,11 @@ import { VehicleDashboard } from '@/components/VehicleDashboard';
 import { AIChatSidebar } from '@/components/AIChatSidebar';
 import { Header } from '@/components/Header';
 import { SearchAndFilters } from '@/components/SearchAndFilters';
+import { TimeOnMarketSummary } from '@/components/TimeOnMarketSummary';
 import { useVehicles } from '@/hooks/useVehicles';
-import { useState } from 'react';
+import { fetchCriteriaProfiles } from '@/lib/api';
+import { CriteriaProfilesResponse } from '@car-finder/types';
+import { useEffect, useState } from 'react';
 
 // Fallback icon if Heroicons are not available
 const ChatBubbleLeftRightIcon = ({ className }: { className?: string }) => (
@@ -17,7 +20,24 @@ const ChatBubbleLeftRightIcon = ({ className }: { className?: string }) => (
 export default function DashboardPage() {
   const [isChatOpen, setIsChatOpen] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
-  const { vehicles, loading, error, refetch } = useVehicles();
+  const [criteriaProfiles, setCriteriaProfiles] = useState<CriteriaProfilesResponse | null>(null);
+  const { total, query, updateQuery, refetch } = useVehicles();
+
+  // Profiles only feed the switcher, so a failed load just hides it
+  useEffect(() => {
+    fetchCriteriaProfiles()
+      .then(setCriteriaProfiles)
+      .catch(error => console.error('Failed to load criteria profiles:', error));
+  }, []);
+
+  // Debounce free-text search so typing doesn't fire a request per keystroke
+  useEffect(() => {
+    const search = searchQuery.trim() || undefined;
+    if (search === query.search) return;
+
+    const timeout = setTimeout(() => updateQuery({ search }), 300);
+    return () => clearTimeout(timeout);
+  }, [searchQuery, query.search, updateQuery]);
 
   const handleRefresh = () => {
     refetch();
@@ -45,7 +65,7 @@ export default function DashboardPage() {
     <div className="min-h-screen bg-gray-50">
       {/* Header */}
       <Header
-        vehicleCount={vehicles.length}
+        vehicleCount={total}
         lastUpdated={`Today at ${lastUpdated.split(', ')[1]}`}
         onRefresh={handleRefresh}
         onSettings={handleSettings}
@@ -57,12 +77,17 @@ export default function DashboardPage() {
         <SearchAndFilters
           searchQuery={searchQuery}
           onSearchChange={setSearchQuery}
+          query={query}
+          onQueryChange={updateQuery}
           onScrapeNew={handleScrapeNew}
-          vehicleCount={vehicles.length}
+          vehicleCount={total}
+          profiles={criteriaProfiles?.profiles}
+          defaultProfileId={criteriaProfiles?.defaultProfileId}
         />
 
         {/* Vehicle Dashboard */}
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          <TimeOnMarketSummary />
           <VehicleDashboard />
         </div>
       </div>
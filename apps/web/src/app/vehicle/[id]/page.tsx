@@ -1,8 +1,20 @@
 'use client';
 
-import { notFound } from 'next/navigation';
+import Link from 'next/link';
+import { ReactNode, useEffect, useState } from 'react';
+import { Vehicle } from '@car-finder/types';
 import { AIChatSidebar } from '@/components/AIChatSidebar';
-import { useState } from 'react';
+import { MarkdownText } from '@/components/MarkdownText';
+import { MarketValueBreakdown } from '@/components/MarketValueBreakdown';
+import { PhotoGallery } from '@/components/PhotoGallery';
+import { PriceHistory } from '@/components/PriceHistory';
+import { VehicleTimeline } from '@/components/VehicleTimeline';
+import { VehicleVisits } from '@/components/VehicleVisits';
+import { SellerConversation } from '@/components/SellerConversation';
+import { VehicleParameters } from '@/components/VehicleParameters';
+import { VehicleWorkflowPanel } from '@/components/VehicleWorkflowPanel';
+import { ApiError, fetchVehicleById } from '@/lib/api';
+import { formatMileage, formatPrice, formatYear, getStatusColor, getStatusLabel, htmlToText } from '@/lib/utils';
 // Fallback icon if Heroicons are not available
 const ChatBubbleLeftRightIcon = ({ className }: { className?: string }) => (
   <svg className={className} fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor">
@@ -10,33 +22,274 @@ const ChatBubbleLeftRightIcon = ({ className }: { className?: string }) => (
   </svg>
 );
 
+const ArrowTopRightOnSquareIcon = ({ className }: { className?: string }) => (
+  <svg className={className} fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor">
+    <path strokeLinecap="round" strokeLinejoin="round" d="M13.5 6H5.25A2.25 2.25 0 003 8.25v10.5A2.25 2.25 0 005.25 21h10.5A2.25 2.25 0 0018 18.75V10.5m-10.5 6L21 3m0 0h-5.25M21 3v5.25" />
+  </svg>
+);
+
 interface VehicleDetailPageProps {
   params: {
     id: string;
   };
 }
 
+function formatDate(value: Date | string | null): string {
+  return value ? new Date(value).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' }) : 'N/A';
+}
+
+function Section({ title, children }: { title: string; children: ReactNode }) {
+  return (
+    <div className="bg-white rounded-lg shadow p-6">
+      <h2 className="text-lg font-semibold text-gray-900 mb-4">{title}</h2>
+      {children}
+    </div>
+  );
+}
+
 export default function VehicleDetailPage({ params }: VehicleDetailPageProps) {
   const [isChatOpen, setIsChatOpen] = useState(false);
+  const [vehicle, setVehicle] = useState<Vehicle | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<{ message: string; notFound: boolean } | null>(null);
+  const [timelineVersion, setTimelineVersion] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    setIsLoading(true);
+    fetchVehicleById(params.id)
+      .then(result => {
+        if (!cancelled) setVehicle(result);
+      })
+      .catch(err => {
+        if (!cancelled) {
+          setError({
+            message: err instanceof Error ? err.message : 'Failed to load vehicle',
+            notFound: err instanceof ApiError && err.status === 404,
+          });
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [params.id]);
+
+  const handleVehicleChange = (changes: Partial<Vehicle>) => {
+    setVehicle(current => (current ? { ...current, ...changes } : current));
+    setTimelineVersion(version => version + 1);
+  };
+
+  const renderContent = () => {
+    if (isLoading) {
+      return (
+        <div className="space-y-6">
+          <div className="h-24 bg-white rounded-lg shadow animate-pulse" />
+          <div className="h-96 bg-white rounded-lg shadow animate-pulse" />
+        </div>
+      );
+    }
+
+    if (error || !vehicle) {
+      return (
+        <div className="bg-white rounded-lg shadow p-6">
+          <h1 className="text-2xl font-bold text-gray-900 mb-2">
+            {error?.notFound ? 'Vehicle not found' : 'Could not load vehicle'}
+          </h1>
+          <p className="text-gray-600">{error?.notFound ? `No vehicle found with ID: ${params.id}` : error?.message}</p>
+        </div>
+      );
+    }
+
+    const originalDescription = htmlToText(vehicle.sourceDescriptionHtml ?? '');
+    const fitScores = Object.entries(vehicle.fitScores ?? {});
+
+    return (
+      <>
+        {/* Header */}
+        <div className="bg-white rounded-lg shadow p-6 mb-6">
+          <div className="flex flex-col md:flex-row md:justify-between md:items-start gap-4">
+            <div>
+              <div className="flex items-center gap-2 mb-2">
+                <span className={`px-2 py-1 rounded-full text-xs font-medium ${getStatusColor(vehicle.status)}`}>
+                  {getStatusLabel(vehicle.status)}
+                </span>
+                <a
+                  href={vehicle.sourceUrl}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="flex items-center gap-1 text-sm text-blue-600 hover:text-blue-800"
+                >
+                  <ArrowTopRightOnSquareIcon className="w-4 h-4" />
+                  <span className="capitalize">{vehicle.source}</span>
+                </a>
+              </div>
+              <h1 className="text-2xl font-bold text-gray-900">{vehicle.title}</h1>
+              {vehicle.sourceTitle && vehicle.sourceTitle !== vehicle.title && (
+                <p className="text-sm text-gray-500 mt-1">{vehicle.sourceTitle}</p>
+              )}
+              <div className="flex flex-wrap items-center gap-6 text-sm text-gray-600 mt-3">
+                <span>📅 {formatYear(vehicle.year)}</span>
+                <span>🛣️ {formatMileage(vehicle.mileage)}</span>
+                <span>📍 {vehicle.sellerInfo?.location || 'N/A'}</span>
+                <span>🗓️ Listed {formatDate(vehicle.sourceCreatedAt)}</span>
+              </div>
+            </div>
+            <div className="md:text-right">
+              <div className="text-2xl font-bold text-blue-600">{formatPrice(vehicle.pricePln, vehicle.priceEur)}</div>
+              {vehicle.listingState !== 'active' && vehicle.delistedAt && (
+                <div className="text-sm text-gray-500">Listing {vehicle.listingState} {formatDate(vehicle.delistedAt)}</div>
+              )}
+            </div>
+          </div>
+
+          {vehicle.duplicateListings && vehicle.duplicateListings.length > 0 && (
+            <div className="flex flex-wrap items-center gap-2 text-sm mt-4">
+              <span className="text-gray-500">Also listed on:</span>
+              {vehicle.duplicateListings.map(listing => (
+                <a
+                  key={listing.vehicleId}
+                  href={listing.sourceUrl}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="flex items-center gap-1 bg-gray-100 hover:bg-gray-200 text-blue-600 px-2 py-1 rounded transition-colors"
+                >
+                  <span className="capitalize">{listing.source}</span>
+                  <span className="text-gray-600">€{listing.priceEur.toLocaleString('de-DE')}</span>
+                </a>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          {/* Main Column */}
+          <div className="lg:col-span-2 space-y-6">
+            <PhotoGallery photos={vehicle.photos} title={vehicle.title} />
+
+            <Section title="Description">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                <div>
+                  <h3 className="text-sm font-medium text-gray-900 mb-2">English (translated)</h3>
+                  <p className="text-sm text-gray-700 whitespace-pre-line">
+                    {vehicle.description || 'Not translated yet.'}
+                  </p>
+                </div>
+                <div>
+                  <h3 className="text-sm font-medium text-gray-900 mb-2">Original (Polish)</h3>
+                  <p className="text-sm text-gray-500 whitespace-pre-line">
+                    {originalDescription || 'No description provided by seller.'}
+                  </p>
+                </div>
+              </div>
+            </Section>
+
+            <VehicleParameters parameters={vehicle.sourceParameters} equipment={vehicle.sourceEquipment} />
+
+            <Section title="Virtual Mechanic's Report">
+              {vehicle.aiMechanicReport ? (
+                <MarkdownText markdown={vehicle.aiMechanicReport} />
+              ) : (
+                <p className="text-sm text-gray-500">Not generated yet. Run the analysis to create it.</p>
+              )}
+            </Section>
+
+            <Section title="Data Sanity Check">
+              {vehicle.aiDataSanityCheck ? (
+                <MarkdownText markdown={vehicle.aiDataSanityCheck} />
+              ) : (
+                <p className="text-sm text-gray-500">Not generated yet. Run the analysis to create it.</p>
+              )}
+            </Section>
+          </div>
+
+          {/* Side Column */}
+          <div className="space-y-6">
+            <Section title="AI Assessment">
+              <div className="flex gap-4 mb-4">
+                <div className="bg-green-50 border border-green-200 rounded-lg p-4 text-center flex-1">
+                  <div className="text-2xl font-bold text-green-600">{vehicle.aiPriorityRating ?? '–'}</div>
+                  <div className="text-xs text-green-700 font-medium">AI Priority</div>
+                </div>
+                <div className="bg-green-50 border border-green-200 rounded-lg p-4 text-center flex-1">
+                  <div className="text-2xl font-bold text-green-600">{vehicle.personalFitScore ?? '–'}</div>
+                  <div className="text-xs text-green-700 font-medium">Personal Fit</div>
+                </div>
+              </div>
+              {vehicle.aiPrioritySummary && (
+                <div className="bg-blue-50 border border-blue-200 rounded-lg p-3 mb-4">
+                  <p className="text-sm text-blue-800">{vehicle.aiPrioritySummary}</p>
+                </div>
+              )}
+              {fitScores.length > 1 && (
+                <dl className="text-sm mb-4">
+                  {fitScores.map(([profileId, score]) => (
+                    <div key={profileId} className="flex justify-between py-1">
+                      <dt className="text-gray-500">Fit ({profileId})</dt>
+                      <dd className="text-gray-900">{score}</dd>
+                    </div>
+                  ))}
+                </dl>
+              )}
+              <MarketValueBreakdown
+                vehicleId={vehicle.id}
+                priceEur={vehicle.priceEur}
+                marketValueScore={vehicle.marketValueScore}
+              />
+            </Section>
+
+            <Section title="Seller">
+              <dl className="divide-y divide-gray-100 text-sm">
+                {[
+                  ['Name', vehicle.sellerInfo?.name],
+                  ['Type', vehicle.sellerInfo?.type],
+                  ['Location', vehicle.sellerInfo?.location],
+                  ['Member since', vehicle.sellerInfo?.memberSince],
+                ].map(([label, value]) => (
+                  <div key={label} className="flex justify-between gap-4 py-1.5">
+                    <dt className="text-gray-500">{label}</dt>
+                    <dd className="text-gray-900 text-right capitalize">{value || 'N/A'}</dd>
+                  </div>
+                ))}
+              </dl>
+            </Section>
+
+            <VehicleWorkflowPanel vehicle={vehicle} onVehicleChange={handleVehicleChange} />
+          </div>
+        </div>
+
+        <div className="mt-6">
+          <PriceHistory vehicleId={vehicle.id} />
+        </div>
+
+        <div className="mt-6">
+          <VehicleTimeline vehicleId={vehicle.id} refreshKey={timelineVersion} />
+        </div>
+
+        <div className="mt-6">
+          <SellerConversation vehicleId={vehicle.id} />
+        </div>
+
+        <div className="mt-6">
+          <VehicleVisits vehicleId={vehicle.id} onVehicleChange={handleVehicleChange} />
+        </div>
+      </>
+    );
+  };
 
-  // For now, this is a placeholder implementation
-  // In future stories, this will show detailed vehicle information
   return (
     <div className="min-h-screen bg-gray-50">
       {/* Main Content */}
       <div className={`transition-all duration-300 ${isChatOpen ? 'mr-96' : 'mr-0'}`}>
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
-          <div className="bg-white rounded-lg shadow p-6">
-            <h1 className="text-2xl font-bold text-gray-900 mb-4">
-              Vehicle Details
-            </h1>
-            <p className="text-gray-600">
-              Vehicle ID: {params.id}
-            </p>
-            <p className="text-sm text-gray-500 mt-4">
-              Detailed vehicle view will be implemented in future stories.
-            </p>
-          </div>
+          <Link href="/" className="inline-block text-sm text-blue-600 hover:text-blue-800 mb-4">
+            ← Back to dashboard
+          </Link>
+          {renderContent()}
         </div>
       </div>
 
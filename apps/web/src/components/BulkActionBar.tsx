@@ -0,0 +1,203 @@
+'use client';
+
+import Link from 'next/link';
+import { useEffect, useState } from 'react';
+import { BulkOperationResponse, BulkVehicleRequest, VehicleStatus } from '@car-finder/types';
+import { bulkUpdateVehicles, undoBulkOperation, ApiError } from '@/lib/api';
+import { getStatusLabel } from '@/lib/utils';
+
+interface BulkActionBarProps {
+  selectedIds: string[];
+  pageIds: string[];
+  onSelectionChange: (ids: string[]) => void;
+  lastOperation: BulkOperationResponse | null; // Owned by the dashboard so undo survives the reload after an action
+  onLastOperationChange: (operation: BulkOperationResponse | null) => void;
+  onComplete: () => void;
+}
+
+const BULK_STATUSES: VehicleStatus[] = [
+  'new',
+  'to_contact',
+  'contacted',
+  'to_visit',
+  'visited',
+  'not_interested',
+  'sold',
+  'removed',
+];
+
+// Matches the range accepted by GET /api/vehicles/compare
+const MIN_COMPARED = 2;
+const MAX_COMPARED = 4;
+
+const ACTION_LABELS: Record<BulkVehicleRequest['action'], string> = {
+  set_status: 'Status updated',
+  append_note: 'Note added',
+  reanalyze: 'Queued for re-analysis',
+  delete: 'Deleted',
+};
+
+export function BulkActionBar({
+  selectedIds,
+  pageIds,
+  onSelectionChange,
+  lastOperation,
+  onLastOperationChange: setLastOperation,
+  onComplete,
+}: BulkActionBarProps) {
+  const [note, setNote] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Hide the undo button once the server would refuse it
+  useEffect(() => {
+    if (!lastOperation) return;
+    const remaining = new Date(lastOperation.undoExpiresAt).getTime() - Date.now();
+    const timer = setTimeout(() => setLastOperation(null), Math.max(0, remaining));
+    return () => clearTimeout(timer);
+  }, [lastOperation, setLastOperation]);
+
+  const allPageSelected = pageIds.length > 0 && pageIds.every(id => selectedIds.includes(id));
+
+  const run = async (request: Omit<BulkVehicleRequest, 'vehicleIds'>) => {
+    if (request.action === 'delete' && !confirm(`Delete ${selectedIds.length} vehicle(s)?`)) {
+      return;
+    }
+
+    setBusy(true);
+    setError(null);
+    try {
+      const operation = await bulkUpdateVehicles({ ...request, vehicleIds: selectedIds });
+      setLastOperation(operation);
+      setNote('');
+      onSelectionChange([]);
+      onComplete();
+    } catch (err) {
+      setError(err instanceof ApiError ? err.message : 'Bulk update failed');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const undo = async () => {
+    if (!lastOperation) return;
+
+    setBusy(true);
+    setError(null);
+    try {
+      await undoBulkOperation(lastOperation.operationId);
+      setLastOperation(null);
+      onComplete();
+    } catch (err) {
+      setError(err instanceof ApiError ? err.message : 'Undo failed');
+      setLastOperation(null);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (selectedIds.length === 0 && !lastOperation && !error) {
+    return (
+      <div className="flex justify-end">
+        <button
+          onClick={() => onSelectionChange(pageIds)}
+          disabled={pageIds.length === 0}
+          className="text-sm text-blue-600 hover:text-blue-500 disabled:opacity-50"
+        >
+          Select all on page
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="sticky top-0 z-10 bg-white border border-gray-200 rounded-lg shadow-sm p-3 space-y-2">
+      <div className="flex flex-wrap items-center gap-3">
+        <span className="text-sm font-medium text-gray-900">{selectedIds.length} selected</span>
+        <button
+          onClick={() => onSelectionChange(allPageSelected ? [] : pageIds)}
+          className="text-sm text-blue-600 hover:text-blue-500"
+        >
+          {allPageSelected ? 'Clear selection' : 'Select all on page'}
+        </button>
+
+        {selectedIds.length > 0 && (
+          <>
+            <select
+              value=""
+              onChange={(e) => e.target.value && run({ action: 'set_status', status: e.target.value as VehicleStatus })}
+              disabled={busy}
+              className="px-2 py-1 border border-gray-300 rounded-lg text-sm text-gray-700"
+            >
+              <option value="">Set status…</option>
+              {BULK_STATUSES.map(status => (
+                <option key={status} value={status}>{getStatusLabel(status)}</option>
+              ))}
+            </select>
+            <input
+              type="text"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder="Note to append"
+              disabled={busy}
+              className="px-2 py-1 border border-gray-300 rounded-lg text-sm flex-1 min-w-40"
+            />
+            <button
+              onClick={() => run({ action: 'append_note', note })}
+              disabled={busy || note.trim() === ''}
+              className="px-3 py-1 border border-gray-300 rounded-lg text-sm text-gray-700 hover:bg-gray-100 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Append note
+            </button>
+            <button
+              onClick={() => run({ action: 'reanalyze' })}
+              disabled={busy}
+              className="px-3 py-1 border border-gray-300 rounded-lg text-sm text-gray-700 hover:bg-gray-100 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Re-analyze
+            </button>
+            {selectedIds.length >= MIN_COMPARED && selectedIds.length <= MAX_COMPARED && (
+              <Link
+                href={`/compare?ids=${selectedIds.map(encodeURIComponent).join(',')}`}
+                className="px-3 py-1 border border-blue-300 rounded-lg text-sm text-blue-700 hover:bg-blue-50"
+              >
+                Compare
+              </Link>
+            )}
+            <button
+              onClick={() => run({ action: 'delete' })}
+              disabled={busy}
+              className="px-3 py-1 border border-red-300 rounded-lg text-sm text-red-700 hover:bg-red-50 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Delete
+            </button>
+          </>
+        )}
+      </div>
+
+      {lastOperation && (
+        <div className="flex items-center gap-3 text-sm text-gray-700">
+          <span>
+            {ACTION_LABELS[lastOperation.action]}: {lastOperation.affected} vehicle(s)
+            {lastOperation.rejectedVehicleIds.length > 0 &&
+              ` (${lastOperation.rejectedVehicleIds.length} skipped: status change not allowed)`}
+          </span>
+          <button
+            onClick={undo}
+            disabled={busy}
+            className="text-blue-600 hover:text-blue-500 underline disabled:opacity-50"
+          >
+            Undo
+          </button>
+        </div>
+      )}
+
+      {error && (
+        <div className="flex items-center gap-3 text-sm text-red-700">
+          <span>{error}</span>
+          <button onClick={() => setError(null)} className="underline">Dismiss</button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,60 @@
+import { MarkdownInline, parseMarkdown } from '@/lib/markdown';
+
+interface MarkdownTextProps {
+  markdown: string;
+}
+
+const HEADING_CLASSES = ['text-lg font-semibold', 'text-base font-semibold', 'text-sm font-semibold'];
+
+function InlineText({ content }: { content: MarkdownInline[] }) {
+  return (
+    <>
+      {content.map((part, index) => {
+        if (part.bold) return <strong key={index}>{part.text}</strong>;
+        if (part.italic) return <em key={index}>{part.text}</em>;
+        if (part.code) return <code key={index} className="bg-gray-100 px-1 rounded text-xs">{part.text}</code>;
+        return <span key={index}>{part.text}</span>;
+      })}
+    </>
+  );
+}
+
+/**
+ * Renders AI-generated Markdown (mechanic report, sanity check) without injecting HTML
+ */
+export function MarkdownText({ markdown }: MarkdownTextProps) {
+  return (
+    <div className="space-y-3 text-sm text-gray-800">
+      {parseMarkdown(markdown).map((block, index) => {
+        switch (block.type) {
+          case 'heading':
+            return (
+              <h3 key={index} className={`${HEADING_CLASSES[Math.min(block.level, 3) - 1]} text-gray-900 pt-2`}>
+                <InlineText content={block.content} />
+              </h3>
+            );
+          case 'list': {
+            const ListTag = block.ordered ? 'ol' : 'ul';
+            return (
+              <ListTag key={index} className={`${block.ordered ? 'list-decimal' : 'list-disc'} pl-5 space-y-1`}>
+                {block.items.map((item, itemIndex) => (
+                  <li key={itemIndex}>
+                    <InlineText content={item} />
+                  </li>
+                ))}
+              </ListTag>
+            );
+          }
+          case 'rule':
+            return <hr key={index} className="border-gray-200" />;
+          default:
+            return (
+              <p key={index} className="whitespace-pre-line">
+                <InlineText content={block.content} />
+              </p>
+            );
+        }
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,207 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { MarketValueAnalysis, MarketValueAttribute, MarketValueConfidence } from '@car-finder/types';
+import { fetchMarketValue } from '@/lib/api';
+import { estimateMarketPriceEur, formatMileage, parseMarketValueScore } from '@/lib/utils';
+
+interface MarketValueBreakdownProps {
+  vehicleId: string;
+  priceEur: number;
+  marketValueScore: string | null;
+}
+
+const ATTRIBUTE_LABELS: Record<MarketValueAttribute, string> = {
+  engineSize: 'Engine',
+  horsepower: 'Power',
+  transmission: 'Gearbox',
+  fuelType: 'Fuel',
+  wheelbase: 'Wheelbase',
+};
+
+const CONFIDENCE_COLORS: Record<MarketValueConfidence, string> = {
+  low: 'bg-red-100 text-red-800',
+  medium: 'bg-yellow-100 text-yellow-800',
+  high: 'bg-green-100 text-green-800',
+};
+
+function formatEur(value: number): string {
+  return `€${Math.round(value).toLocaleString('de-DE')}`;
+}
+
+/**
+ * Asking price against the market price, with the comparable listings or regression fit it was calculated from
+ * Falls back to the market price implied by the score when no breakdown is stored
+ */
+export function MarketValueBreakdown({ vehicleId, priceEur, marketValueScore }: MarketValueBreakdownProps) {
+  const [analysis, setAnalysis] = useState<MarketValueAnalysis | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    setIsLoading(true);
+    setError(null);
+    fetchMarketValue(vehicleId)
+      .then(result => {
+        if (!cancelled) setAnalysis(result);
+      })
+      .catch(err => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load market value');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+    // Re-analysis changes the score, so reload the breakdown with it
+  }, [vehicleId, marketValueScore]);
+
+  const percent = analysis ? analysis.percentDifference : parseMarketValueScore(marketValueScore);
+  const score = analysis ? analysis.score : marketValueScore;
+
+  if (isLoading) {
+    return (
+      <div>
+        <h3 className="text-sm font-medium text-gray-900 mb-2">Market Value</h3>
+        <div className="h-24 bg-gray-100 rounded animate-pulse" />
+      </div>
+    );
+  }
+
+  if (percent === null || score === null) {
+    return (
+      <div>
+        <h3 className="text-sm font-medium text-gray-900 mb-2">Market Value</h3>
+        <p className="text-sm text-gray-500">
+          Not calculated yet. Run the analysis once enough comparable listings have been collected.
+        </p>
+        {error && <p className="text-sm text-red-600 mt-2">{error}</p>}
+      </div>
+    );
+  }
+
+  const marketPriceEur = analysis ? analysis.marketPriceEur : estimateMarketPriceEur(priceEur, percent);
+  const askingPriceEur = analysis ? analysis.priceEur : priceEur;
+  const differenceEur = askingPriceEur - marketPriceEur;
+  const atMarket = score === 'market_avg';
+  const verdict = atMarket ? 'At market price' : percent < 0 ? 'Below market' : 'Above market';
+  const verdictColor = atMarket ? 'text-gray-700' : percent < 0 ? 'text-green-700' : 'text-red-700';
+  const totalWeight = analysis ? analysis.comparables.reduce((sum, comp) => sum + comp.weight, 0) : 0;
+  const marketPriceLabel = !analysis
+    ? 'Estimated market price'
+    : analysis.model === 'regression'
+      ? 'Predicted market price'
+      : 'Weighted market price';
+
+  return (
+    <div>
+      <h3 className="text-sm font-medium text-gray-900 mb-2">Market Value</h3>
+      <dl className="divide-y divide-gray-100 text-sm">
+        <div className="flex justify-between py-1.5">
+          <dt className="text-gray-500">Asking price</dt>
+          <dd className="text-gray-900">{formatEur(askingPriceEur)}</dd>
+        </div>
+        <div className="flex justify-between py-1.5">
+          <dt className="text-gray-500">{marketPriceLabel}</dt>
+          <dd className="text-gray-900">{formatEur(marketPriceEur)}</dd>
+        </div>
+        <div className="flex justify-between py-1.5">
+          <dt className="text-gray-500">Difference</dt>
+          <dd className={`font-medium ${verdictColor}`}>
+            {atMarket
+              ? 'Within ±2%'
+              : `${differenceEur > 0 ? '+' : '−'}${formatEur(Math.abs(differenceEur))} (${score})`}
+          </dd>
+        </div>
+        {analysis?.dealScore != null && (
+          <div className="flex justify-between py-1.5">
+            <dt className="text-gray-500">Deal score</dt>
+            <dd className={analysis.dealScore < 0 ? 'text-green-700' : 'text-gray-900'}>
+              {analysis.dealScore > 0 ? '+' : ''}
+              {analysis.dealScore.toFixed(2)}σ
+            </dd>
+          </div>
+        )}
+      </dl>
+      <div className="flex items-center justify-between mt-2">
+        <p className={`text-sm font-medium ${verdictColor}`}>{verdict}</p>
+        {analysis && (
+          <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${CONFIDENCE_COLORS[analysis.confidence]}`}>
+            {analysis.confidence} confidence
+          </span>
+        )}
+      </div>
+
+      {analysis?.model === 'regression' ? (
+        <p className="text-xs text-gray-500 mt-2">
+          Predicted from a robust regression on year, mileage, engine, power, gearbox, fuel and model, trained on{' '}
+          {analysis.sampleSize} listings (effective {analysis.effectiveSampleSize.toFixed(1)}). The deal score is how
+          many standard deviations the asking price sits from the prediction; negative is cheaper.
+        </p>
+      ) : analysis ? (
+        <div className="mt-4">
+          <h4 className="text-xs font-medium text-gray-700 mb-2">
+            {analysis.sampleSize} comparable listings (effective sample {analysis.effectiveSampleSize.toFixed(1)})
+          </h4>
+          <ul className="space-y-2">
+            {analysis.comparables.map(comp => (
+              <li key={comp.vehicleId} className="border border-gray-100 rounded p-2 text-xs">
+                <div className="flex justify-between gap-2">
+                  <a
+                    href={comp.sourceUrl}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="text-blue-600 hover:text-blue-800 truncate"
+                    title={comp.title}
+                  >
+                    {comp.title}
+                  </a>
+                  <span className="text-gray-900 font-medium whitespace-nowrap">
+                    {totalWeight > 0 ? Math.round((comp.weight / totalWeight) * 100) : 0}% weight
+                  </span>
+                </div>
+                <div className="flex justify-between gap-2 text-gray-500 mt-1">
+                  <span>
+                    {comp.year} · {formatMileage(comp.mileage)}
+                    {comp.status === 'sold' || comp.status === 'removed' ? ` · ${comp.status}` : ''}
+                  </span>
+                  <span>
+                    {formatEur(comp.priceEur)}
+                    {Math.round(comp.adjustedPriceEur) !== comp.priceEur && ` → ${formatEur(comp.adjustedPriceEur)}`}
+                  </span>
+                </div>
+                <div className="text-gray-500 mt-1">
+                  Mileage ×{comp.mileageWeight.toFixed(2)} · Model ×{comp.equivalencyWeight.toFixed(2)} · Attributes ×
+                  {comp.attributeWeight.toFixed(2)} · Status ×{comp.statusWeight.toFixed(2)}
+                </div>
+                {comp.penalties.length > 0 && (
+                  <div className="flex flex-wrap gap-1 mt-1">
+                    {comp.penalties.map(penalty => (
+                      <span key={penalty.attribute} className="bg-orange-100 text-orange-800 px-1.5 py-0.5 rounded">
+                        {ATTRIBUTE_LABELS[penalty.attribute]}: {penalty.comparableValue} vs {penalty.targetValue} ×
+                        {penalty.factor.toFixed(2)}
+                      </span>
+                    ))}
+                  </div>
+                )}
+              </li>
+            ))}
+          </ul>
+          <p className="text-xs text-gray-500 mt-2">
+            Calculated {new Date(analysis.calculatedAt).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}.
+            Prices above 200k km are adjusted down, low-mileage older vans up.
+          </p>
+        </div>
+      ) : (
+        <p className="text-xs text-gray-500 mt-1">
+          Based on the mileage- and equipment-weighted average price of comparable listings.
+          Re-run the analysis to see the comparables.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,85 @@
+'use client';
+
+import { useState } from 'react';
+// Fallback icons if Heroicons are not available
+const ChevronLeftIcon = ({ className }: { className?: string }) => (
+  <svg className={className} fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor">
+    <path strokeLinecap="round" strokeLinejoin="round" d="M15.75 19.5L8.25 12l7.5-7.5" />
+  </svg>
+);
+
+const ChevronRightIcon = ({ className }: { className?: string }) => (
+  <svg className={className} fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor">
+    <path strokeLinecap="round" strokeLinejoin="round" d="M8.25 4.5l7.5 7.5-7.5 7.5" />
+  </svg>
+);
+
+interface PhotoGalleryProps {
+  photos: string[];
+  title: string;
+}
+
+export function PhotoGallery({ photos, title }: PhotoGalleryProps) {
+  const [currentIndex, setCurrentIndex] = useState(0);
+
+  if (photos.length === 0) {
+    return (
+      <div className="bg-white rounded-lg shadow aspect-video flex items-center justify-center text-gray-500">
+        No Image Available
+      </div>
+    );
+  }
+
+  const showPrevious = () => setCurrentIndex(prev => (prev - 1 + photos.length) % photos.length);
+  const showNext = () => setCurrentIndex(prev => (prev + 1) % photos.length);
+
+  return (
+    <div className="bg-white rounded-lg shadow overflow-hidden">
+      <div className="aspect-video bg-gray-200 relative">
+        <img
+          src={photos[currentIndex]}
+          alt={`${title} - photo ${currentIndex + 1}`}
+          className="w-full h-full object-contain bg-black"
+        />
+
+        {photos.length > 1 && (
+          <>
+            <button
+              onClick={showPrevious}
+              className="absolute left-3 top-1/2 transform -translate-y-1/2 bg-black bg-opacity-50 hover:bg-opacity-70 text-white p-2 rounded-full transition-all"
+              title="Previous photo"
+            >
+              <ChevronLeftIcon className="w-6 h-6" />
+            </button>
+            <button
+              onClick={showNext}
+              className="absolute right-3 top-1/2 transform -translate-y-1/2 bg-black bg-opacity-50 hover:bg-opacity-70 text-white p-2 rounded-full transition-all"
+              title="Next photo"
+            >
+              <ChevronRightIcon className="w-6 h-6" />
+            </button>
+            <div className="absolute bottom-3 right-3 bg-black bg-opacity-70 text-white px-2 py-1 rounded text-xs font-medium">
+              {currentIndex + 1}/{photos.length}
+            </div>
+          </>
+        )}
+      </div>
+
+      {photos.length > 1 && (
+        <div className="flex gap-2 p-3 overflow-x-auto">
+          {photos.map((photo, index) => (
+            <button
+              key={photo}
+              onClick={() => setCurrentIndex(index)}
+              className={`flex-shrink-0 w-20 h-14 rounded overflow-hidden border-2 ${
+                index === currentIndex ? 'border-blue-600' : 'border-transparent opacity-70 hover:opacity-100'
+              }`}
+            >
+              <img src={photo} alt={`${title} - thumbnail ${index + 1}`} className="w-full h-full object-cover" />
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
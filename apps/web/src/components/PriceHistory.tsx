@@ -0,0 +1,163 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { VehicleSnapshot, VehicleChangeField } from '@car-finder/types';
+import { fetchVehicleHistory } from '@/lib/api';
+import { formatPrice, formatMileage } from '@/lib/utils';
+
+interface PriceHistoryProps {
+  vehicleId: string;
+}
+
+const CHART_WIDTH = 600;
+const CHART_HEIGHT = 160;
+const CHART_PADDING = 12;
+
+const CHANGE_LABELS: Record<VehicleChangeField, string> = {
+  price: 'Price',
+  mileage: 'Mileage',
+  title: 'Title',
+  description: 'Description',
+  photoCount: 'Photos',
+};
+
+function formatDate(value: Date | string): string {
+  return new Date(value).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+}
+
+/**
+ * Build the SVG path for a stepped price line (price holds until the next change)
+ */
+function buildStepPath(snapshots: VehicleSnapshot[]): string {
+  const times = snapshots.map(s => new Date(s.capturedAt).getTime());
+  const prices = snapshots.map(s => s.pricePln);
+  const [minTime, maxTime] = [Math.min(...times), Math.max(...times)];
+  const [minPrice, maxPrice] = [Math.min(...prices), Math.max(...prices)];
+
+  const x = (time: number) =>
+    maxTime === minTime
+      ? CHART_WIDTH - CHART_PADDING
+      : CHART_PADDING + ((time - minTime) / (maxTime - minTime)) * (CHART_WIDTH - 2 * CHART_PADDING);
+  const y = (price: number) =>
+    maxPrice === minPrice
+      ? CHART_HEIGHT / 2
+      : CHART_PADDING + ((maxPrice - price) / (maxPrice - minPrice)) * (CHART_HEIGHT - 2 * CHART_PADDING);
+
+  return snapshots
+    .map((snapshot, index) => {
+      const point = `${x(times[index])},${y(snapshot.pricePln)}`;
+      if (index === 0) return `M${CHART_PADDING},${y(snapshot.pricePln)} L${point}`;
+      return `H${x(times[index])} V${y(snapshot.pricePln)}`;
+    })
+    .join(' ');
+}
+
+export function PriceHistory({ vehicleId }: PriceHistoryProps) {
+  const [snapshots, setSnapshots] = useState<VehicleSnapshot[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    setIsLoading(true);
+    fetchVehicleHistory(vehicleId)
+      .then(history => {
+        if (!cancelled) setSnapshots(history.snapshots);
+      })
+      .catch(err => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load price history');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [vehicleId]);
+
+  if (isLoading) {
+    return (
+      <div className="bg-white rounded-lg shadow p-6">
+        <div className="h-40 bg-gray-100 rounded animate-pulse" />
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="bg-white rounded-lg shadow p-6">
+        <p className="text-sm text-red-600">Could not load price history: {error}</p>
+      </div>
+    );
+  }
+
+  const first = snapshots[0];
+  const latest = snapshots[snapshots.length - 1];
+  const priceDelta = first && latest ? latest.pricePln - first.pricePln : 0;
+  const changes = snapshots.filter(snapshot => snapshot.changedFields.length > 0).reverse();
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6">
+      <div className="flex justify-between items-start mb-4">
+        <h2 className="text-lg font-semibold text-gray-900">Price History</h2>
+        {priceDelta !== 0 && (
+          <span
+            className={`px-2 py-1 rounded-full text-xs font-medium ${
+              priceDelta < 0 ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'
+            }`}
+          >
+            {priceDelta < 0 ? '▼' : '▲'} {Math.abs(priceDelta).toLocaleString('pl-PL')} PLN since first seen
+          </span>
+        )}
+      </div>
+
+      {snapshots.length === 0 ? (
+        <p className="text-sm text-gray-500">No history recorded yet. It will appear after the next ingestion run.</p>
+      ) : (
+        <>
+          <svg
+            viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+            className="w-full h-40 bg-gray-50 rounded"
+            preserveAspectRatio="none"
+            role="img"
+            aria-label="Price timeline"
+          >
+            <path d={buildStepPath(snapshots)} fill="none" stroke="#2563eb" strokeWidth={2} />
+          </svg>
+          <div className="flex justify-between text-xs text-gray-500 mt-1 mb-4">
+            <span>{formatDate(first.capturedAt)}</span>
+            <span>{formatDate(latest.capturedAt)}</span>
+          </div>
+
+          {changes.length === 0 ? (
+            <p className="text-sm text-gray-500">
+              No changes since first seen on {formatDate(first.capturedAt)}.
+            </p>
+          ) : (
+            <ul className="divide-y divide-gray-100">
+              {changes.map(snapshot => (
+                <li key={snapshot.id} className="py-2 flex justify-between items-center text-sm">
+                  <div>
+                    <div className="font-medium text-gray-900">{formatPrice(snapshot.pricePln, snapshot.priceEur)}</div>
+                    <div className="text-gray-500">
+                      {formatDate(snapshot.capturedAt)} · {formatMileage(snapshot.mileage)}
+                    </div>
+                  </div>
+                  <div className="flex gap-1 flex-wrap justify-end">
+                    {snapshot.changedFields.map(field => (
+                      <span key={field} className="px-2 py-1 rounded-full text-xs font-medium bg-gray-100 text-gray-800">
+                        {CHANGE_LABELS[field]}
+                      </span>
+                    ))}
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
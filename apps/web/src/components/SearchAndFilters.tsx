@@ -1,6 +1,6 @@
 'use client';
 
-import { useState } from 'react';
+import { CriteriaProfile, ListingState, VehicleQuery, VehicleSortField, SortDirection, VehicleStatus } from '@car-finder/types';
 
 // Icons
 const SearchIcon = ({ className }: { className?: string }) => (
@@ -27,21 +27,69 @@ const PlusIcon = ({ className }: { className?: string }) => (
   </svg>
 );
 
+const SORT_OPTIONS: Array<{ value: string; label: string }> = [
+  { value: 'createdAt:desc', label: 'Newest first' },
+  { value: 'aiPriorityRating:desc', label: 'AI Priority' },
+  { value: 'personalFitScore:desc', label: 'Personal Fit' },
+  { value: 'priceEur:asc', label: 'Price: low to high' },
+  { value: 'priceEur:desc', label: 'Price: high to low' },
+  { value: 'mileage:asc', label: 'Lowest mileage' },
+  { value: 'year:desc', label: 'Newest year' },
+];
+
 interface SearchAndFiltersProps {
   searchQuery?: string;
   onSearchChange?: (query: string) => void;
+  query?: VehicleQuery;
+  onQueryChange?: (changes: VehicleQuery) => void;
   onScrapeNew?: () => void;
   vehicleCount?: number;
+  profiles?: CriteriaProfile[];
+  defaultProfileId?: string;
 }
 
 export function SearchAndFilters({ 
   searchQuery = '', 
   onSearchChange, 
+  query = {},
+  onQueryChange,
   onScrapeNew,
-  vehicleCount = 0 
+  vehicleCount = 0,
+  profiles = [],
+  defaultProfileId,
 }: SearchAndFiltersProps) {
-  const [aiPriority, setAiPriority] = useState('all');
-  const [status, setStatus] = useState('all');
+  const aiPriority = query.minAiPriorityRating !== undefined ? String(query.minAiPriorityRating) : 'all';
+  const status = query.status && query.status.length === 1 ? query.status[0] : 'all';
+  const listingState = query.listingState && query.listingState.length > 0 ? query.listingState.join(',') : 'all';
+  const sort = `${query.sortBy ?? 'createdAt'}:${query.sortDirection ?? 'desc'}`;
+  const collapseDuplicates = query.collapseDuplicates ?? false;
+  const profileId = query.profileId ?? defaultProfileId ?? '';
+
+  const handlePriorityChange = (value: string) => {
+    onQueryChange?.({ minAiPriorityRating: value === 'all' ? undefined : Number(value) });
+  };
+
+  const handleStatusChange = (value: string) => {
+    onQueryChange?.({ status: value === 'all' ? undefined : [value as VehicleStatus] });
+  };
+
+  // Option values are comma-separated states ("sold,removed" for any delisted listing)
+  const handleListingStateChange = (value: string) => {
+    onQueryChange?.({ listingState: value === 'all' ? undefined : value.split(',') as ListingState[] });
+  };
+
+  const handleSortChange = (value: string) => {
+    const [sortBy, sortDirection] = value.split(':');
+    onQueryChange?.({
+      sortBy: sortBy as VehicleSortField,
+      sortDirection: sortDirection as SortDirection,
+    });
+  };
+
+  // Switching profile re-sorts by that profile's fit score
+  const handleProfileChange = (value: string) => {
+    onQueryChange?.({ profileId: value, sortBy: 'personalFitScore', sortDirection: 'desc' });
+  };
 
   return (
     <div className="bg-white shadow-sm border-b border-gray-200">
@@ -78,17 +126,34 @@ export function SearchAndFilters({
 
           {/* Filters */}
           <div className="flex gap-3">
+            {/* Criteria Profile Switcher */}
+            {profiles.length > 1 && (
+              <div className="relative">
+                <select
+                  value={profileId}
+                  onChange={(e) => handleProfileChange(e.target.value)}
+                  title="Criteria profile used for Personal Fit"
+                  className="appearance-none bg-white border border-gray-300 rounded-lg px-4 py-3 pr-8 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  {profiles.map(profile => (
+                    <option key={profile.id} value={profile.id}>{profile.name}</option>
+                  ))}
+                </select>
+                <ChevronDownIcon className="absolute right-2 top-1/2 transform -translate-y-1/2 w-4 h-4 text-gray-400 pointer-events-none" />
+              </div>
+            )}
+
             {/* AI Priority Filter */}
             <div className="relative">
               <select
                 value={aiPriority}
-                onChange={(e) => setAiPriority(e.target.value)}
+                onChange={(e) => handlePriorityChange(e.target.value)}
                 className="appearance-none bg-white border border-gray-300 rounded-lg px-4 py-3 pr-8 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
               >
                 <option value="all">AI Priority</option>
-                <option value="high">High Priority</option>
-                <option value="medium">Medium Priority</option>
-                <option value="low">Low Priority</option>
+                <option value="8">High Priority (8+)</option>
+                <option value="6">Medium Priority (6+)</option>
+                <option value="4">Low Priority (4+)</option>
               </select>
               <ChevronDownIcon className="absolute right-2 top-1/2 transform -translate-y-1/2 w-4 h-4 text-gray-400 pointer-events-none" />
             </div>
@@ -97,7 +162,7 @@ export function SearchAndFilters({
             <div className="relative">
               <select
                 value={status}
-                onChange={(e) => setStatus(e.target.value)}
+                onChange={(e) => handleStatusChange(e.target.value)}
                 className="appearance-none bg-white border border-gray-300 rounded-lg px-4 py-3 pr-8 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
               >
                 <option value="all">All Status</option>
@@ -106,10 +171,55 @@ export function SearchAndFilters({
                 <option value="contacted">Contacted</option>
                 <option value="to_visit">To Visit</option>
                 <option value="visited">Visited</option>
+                <option value="not_interested">Not Interested</option>
+                <option value="sold">Sold</option>
+                <option value="removed">Removed</option>
+              </select>
+              <ChevronDownIcon className="absolute right-2 top-1/2 transform -translate-y-1/2 w-4 h-4 text-gray-400 pointer-events-none" />
+            </div>
+
+            {/* Listing State Filter */}
+            <div className="relative">
+              <select
+                value={listingState}
+                onChange={(e) => handleListingStateChange(e.target.value)}
+                title="Whether the listing is still live on the marketplace"
+                className="appearance-none bg-white border border-gray-300 rounded-lg px-4 py-3 pr-8 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                <option value="all">All Listings</option>
+                <option value="active">Active</option>
+                <option value="sold,removed">Delisted</option>
+                <option value="sold">Sold</option>
+                <option value="removed">Removed</option>
+              </select>
+              <ChevronDownIcon className="absolute right-2 top-1/2 transform -translate-y-1/2 w-4 h-4 text-gray-400 pointer-events-none" />
+            </div>
+
+            {/* Sort Order */}
+            <div className="relative">
+              <select
+                value={sort}
+                onChange={(e) => handleSortChange(e.target.value)}
+                className="appearance-none bg-white border border-gray-300 rounded-lg px-4 py-3 pr-8 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                {SORT_OPTIONS.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
               </select>
               <ChevronDownIcon className="absolute right-2 top-1/2 transform -translate-y-1/2 w-4 h-4 text-gray-400 pointer-events-none" />
             </div>
 
+            {/* Collapse Duplicates Toggle */}
+            <label className="flex items-center gap-2 bg-white border border-gray-300 rounded-lg px-4 py-3 text-sm text-gray-700 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={collapseDuplicates}
+                onChange={(e) => onQueryChange?.({ collapseDuplicates: e.target.checked })}
+                className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+              />
+              <span className="whitespace-nowrap">Collapse duplicates</span>
+            </label>
+
             {/* Advanced Filters Button */}
             <button className="bg-gray-100 hover:bg-gray-200 text-gray-700 px-4 py-3 rounded-lg flex items-center space-x-2 transition-colors">
               <FilterIcon className="w-4 h-4" />
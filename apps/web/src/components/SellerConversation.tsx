@@ -0,0 +1,254 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { SellerMessage, SellerMessageDraft, SellerMessageType } from '@car-finder/types';
+import { draftSellerMessage, fetchSellerMessages, logSellerMessage, translateSellerReply } from '@/lib/api';
+
+interface SellerConversationProps {
+  vehicleId: string;
+}
+
+const MESSAGE_TYPE_LABELS: Record<SellerMessageType, string> = {
+  inquiry: 'Inquiry',
+  negotiation: 'Negotiation',
+};
+
+function formatDateTime(value: Date | string): string {
+  return new Date(value).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+function errorMessage(err: unknown, fallback: string): string {
+  return err instanceof Error ? err.message : fallback;
+}
+
+/**
+ * Conversation with the seller: drafts Polish messages with the communication assistant,
+ * logs the ones sent and translates pasted replies
+ */
+export function SellerConversation({ vehicleId }: SellerConversationProps) {
+  const [messages, setMessages] = useState<SellerMessage[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const [messageType, setMessageType] = useState<SellerMessageType>('inquiry');
+  const [offerPriceEur, setOfferPriceEur] = useState('');
+  const [notes, setNotes] = useState('');
+  const [draft, setDraft] = useState<SellerMessageDraft | null>(null);
+  const [draftTextPl, setDraftTextPl] = useState('');
+  const [reply, setReply] = useState('');
+  const [busyAction, setBusyAction] = useState<'draft' | 'log' | 'reply' | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    setIsLoading(true);
+    fetchSellerMessages(vehicleId)
+      .then(conversation => {
+        if (!cancelled) setMessages(conversation.messages);
+      })
+      .catch(err => {
+        if (!cancelled) setError(errorMessage(err, 'Failed to load conversation'));
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [vehicleId]);
+
+  const runAction = async (action: 'draft' | 'log' | 'reply', fallback: string, task: () => Promise<void>) => {
+    setBusyAction(action);
+    setActionError(null);
+    try {
+      await task();
+    } catch (err) {
+      setActionError(errorMessage(err, fallback));
+    } finally {
+      setBusyAction(null);
+    }
+  };
+
+  const handleDraft = () =>
+    runAction('draft', 'Failed to draft message', async () => {
+      const offer = Number(offerPriceEur);
+      const result = await draftSellerMessage(vehicleId, {
+        messageType,
+        ...(messageType === 'negotiation' && offer > 0 ? { offerPriceEur: offer } : {}),
+        ...(notes.trim() ? { notes: notes.trim() } : {}),
+      });
+      setDraft(result);
+      setDraftTextPl(result.messagePl);
+    });
+
+  const handleLogSent = () =>
+    runAction('log', 'Failed to log message', async () => {
+      if (!draft) return;
+      const message = await logSellerMessage(vehicleId, {
+        messageType: draft.messageType,
+        textPl: draftTextPl,
+        textEn: draft.messageEn,
+      });
+      setMessages(current => [...current, message]);
+      setDraft(null);
+      setNotes('');
+    });
+
+  const handleTranslateReply = () =>
+    runAction('reply', 'Failed to translate reply', async () => {
+      const message = await translateSellerReply(vehicleId, reply);
+      setMessages(current => [...current, message]);
+      setReply('');
+    });
+
+  if (isLoading) {
+    return (
+      <div className="bg-white rounded-lg shadow p-6">
+        <div className="h-40 bg-gray-100 rounded animate-pulse" />
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="bg-white rounded-lg shadow p-6">
+        <p className="text-sm text-red-600">Could not load seller conversation: {error}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6">
+      <h2 className="text-lg font-semibold text-gray-900 mb-4">Seller Conversation</h2>
+
+      {messages.length === 0 ? (
+        <p className="text-sm text-gray-500 mb-6">No messages yet. Draft an inquiry below to contact the seller.</p>
+      ) : (
+        <ul className="space-y-3 mb-6">
+          {messages.map(message => (
+            <li
+              key={message.id}
+              className={`flex ${message.direction === 'outgoing' ? 'justify-end' : 'justify-start'}`}
+            >
+              <div
+                className={`max-w-[80%] rounded-lg p-3 text-sm ${
+                  message.direction === 'outgoing' ? 'bg-blue-50 text-gray-900' : 'bg-gray-100 text-gray-900'
+                }`}
+              >
+                <p className="whitespace-pre-wrap">{message.textEn}</p>
+                <p className="whitespace-pre-wrap text-xs text-gray-500 mt-2 italic">{message.textPl}</p>
+                <p className="text-xs text-gray-400 mt-2">
+                  {message.direction === 'outgoing' ? 'You' : 'Seller'}
+                  {message.messageType && ` · ${MESSAGE_TYPE_LABELS[message.messageType]}`}
+                  {' · '}
+                  {formatDateTime(message.createdAt)}
+                </p>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {actionError && <p className="text-sm text-red-600 mb-4">{actionError}</p>}
+
+      <div className="border-t border-gray-100 pt-4">
+        <h3 className="text-sm font-medium text-gray-900 mb-2">Draft a message</h3>
+        <div className="flex flex-wrap gap-2 mb-2">
+          <select
+            value={messageType}
+            onChange={e => setMessageType(e.target.value as SellerMessageType)}
+            className="border border-gray-300 rounded-md px-3 py-2 text-sm"
+          >
+            {Object.entries(MESSAGE_TYPE_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+          {messageType === 'negotiation' && (
+            <input
+              type="number"
+              min={1}
+              value={offerPriceEur}
+              onChange={e => setOfferPriceEur(e.target.value)}
+              placeholder="Offer (EUR)"
+              className="border border-gray-300 rounded-md px-3 py-2 text-sm w-36"
+            />
+          )}
+          <input
+            type="text"
+            value={notes}
+            onChange={e => setNotes(e.target.value)}
+            placeholder="Anything else to ask or mention (optional)"
+            className="border border-gray-300 rounded-md px-3 py-2 text-sm flex-1 min-w-[12rem]"
+          />
+          <button
+            onClick={handleDraft}
+            disabled={busyAction !== null}
+            className="bg-blue-600 hover:bg-blue-700 disabled:bg-blue-300 text-white px-4 py-2 rounded-md text-sm"
+          >
+            {busyAction === 'draft' ? 'Drafting...' : 'Draft message'}
+          </button>
+        </div>
+
+        {draft && (
+          <div className="bg-gray-50 rounded-md p-3 mb-2">
+            <label className="block text-xs font-medium text-gray-500 mb-1">Polish (edit before sending)</label>
+            <textarea
+              value={draftTextPl}
+              onChange={e => setDraftTextPl(e.target.value)}
+              rows={6}
+              className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm"
+            />
+            <label className="block text-xs font-medium text-gray-500 mt-2 mb-1">English</label>
+            <p className="text-sm text-gray-700 whitespace-pre-wrap">{draft.messageEn}</p>
+            <div className="flex gap-2 mt-3">
+              <button
+                onClick={() => navigator.clipboard.writeText(draftTextPl)}
+                className="border border-gray-300 hover:bg-gray-100 px-3 py-1.5 rounded-md text-sm"
+              >
+                Copy Polish
+              </button>
+              <button
+                onClick={handleLogSent}
+                disabled={busyAction !== null || draftTextPl.trim() === ''}
+                className="bg-green-600 hover:bg-green-700 disabled:bg-green-300 text-white px-3 py-1.5 rounded-md text-sm"
+              >
+                {busyAction === 'log' ? 'Saving...' : 'Mark as sent'}
+              </button>
+              <button
+                onClick={() => setDraft(null)}
+                className="text-gray-500 hover:text-gray-700 px-3 py-1.5 text-sm"
+              >
+                Discard
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+
+      <div className="border-t border-gray-100 pt-4 mt-4">
+        <h3 className="text-sm font-medium text-gray-900 mb-2">Add the seller&apos;s reply</h3>
+        <textarea
+          value={reply}
+          onChange={e => setReply(e.target.value)}
+          rows={3}
+          placeholder="Paste the seller's reply in Polish"
+          className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm"
+        />
+        <button
+          onClick={handleTranslateReply}
+          disabled={busyAction !== null || reply.trim() === ''}
+          className="mt-2 bg-blue-600 hover:bg-blue-700 disabled:bg-blue-300 text-white px-4 py-2 rounded-md text-sm"
+        >
+          {busyAction === 'reply' ? 'Translating...' : 'Translate & add'}
+        </button>
+      </div>
+    </div>
+  );
+}
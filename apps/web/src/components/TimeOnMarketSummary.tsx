@@ -0,0 +1,39 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { TimeOnMarketStats } from '@car-finder/types';
+import { fetchTimeOnMarketStats } from '@/lib/api';
+import { formatTimeOnMarket, getStatusColor } from '@/lib/utils';
+
+/**
+ * How long sold and removed listings stayed on the market, as a hint for how fast to act
+ */
+export function TimeOnMarketSummary() {
+  const [stats, setStats] = useState<TimeOnMarketStats[]>([]);
+
+  // The summary is only a hint, so a failed load just hides it
+  useEffect(() => {
+    fetchTimeOnMarketStats()
+      .then(setStats)
+      .catch(error => console.error('Failed to load time-on-market stats:', error));
+  }, []);
+
+  if (stats.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 mb-4 text-sm text-gray-600">
+      <span>Time on market:</span>
+      {stats.map(entry => (
+        <span
+          key={entry.status}
+          title={`Average ${entry.averageDays} days`}
+          className={`px-2 py-1 rounded-full text-xs font-medium ${getStatusColor(entry.status)}`}
+        >
+          {formatTimeOnMarket(entry)}
+        </span>
+      ))}
+    </div>
+  );
+}
@@ -25,11 +25,15 @@ const ArrowTopRightOnSquareIcon = ({ className }: { className?: string }) => (
 
 interface VehicleCardProps {
   vehicle: Vehicle;
+  profileId?: string; // Criteria profile whose fit score is shown (default: personalFitScore)
+  selected?: boolean;
+  onSelectChange?: (selected: boolean) => void; // Shows a selection checkbox for bulk actions
 }
 
-export function VehicleCard({ vehicle }: VehicleCardProps) {
+export function VehicleCard({ vehicle, profileId, selected = false, onSelectChange }: VehicleCardProps) {
   const [currentImageIndex, setCurrentImageIndex] = useState(0);
   const photos = vehicle.photos.length > 0 ? vehicle.photos : [];
+  const fitScore = profileId ? vehicle.fitScores?.[profileId] : vehicle.personalFitScore;
 
   const nextImage = (e: React.MouseEvent) => {
     e.preventDefault();
@@ -95,10 +99,24 @@ export function VehicleCard({ vehicle }: VehicleCardProps) {
             )}
             
             {/* Status Badge */}
-            <div className="absolute top-2 left-2">
+            <div className="absolute top-2 left-2 flex items-center gap-2">
+              {onSelectChange && (
+                <input
+                  type="checkbox"
+                  checked={selected}
+                  onChange={(e) => onSelectChange(e.target.checked)}
+                  aria-label={`Select ${vehicle.title}`}
+                  className="h-5 w-5 rounded border-gray-300 text-blue-600 cursor-pointer"
+                />
+              )}
               <span className={`px-2 py-1 rounded-full text-xs font-medium ${getStatusColor(vehicle.status)}`}>
                 {getStatusLabel(vehicle.status)}
               </span>
+              {vehicle.listingState !== 'active' && (
+                <span className={`px-2 py-1 rounded-full text-xs font-medium ${getStatusColor(vehicle.listingState)}`}>
+                  Listing {getStatusLabel(vehicle.listingState).toLowerCase()}
+                </span>
+              )}
             </div>
           </div>
         </div>
@@ -162,12 +180,33 @@ export function VehicleCard({ vehicle }: VehicleCardProps) {
             </button>
           </div>
 
+          {/* Same vehicle listed elsewhere */}
+          {vehicle.duplicateListings && vehicle.duplicateListings.length > 0 && (
+            <div className="flex flex-wrap items-center gap-2 text-sm mb-4">
+              <span className="text-gray-500">Also listed on:</span>
+              {vehicle.duplicateListings.map(listing => (
+                <a
+                  key={listing.vehicleId}
+                  href={listing.sourceUrl}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="flex items-center gap-1 bg-gray-100 hover:bg-gray-200 text-blue-600 px-2 py-1 rounded transition-colors"
+                  title={`${listing.title} (match ${Math.round(listing.matchScore * 100)}%)`}
+                >
+                  <ArrowTopRightOnSquareIcon className="w-3 h-3" />
+                  <span className="capitalize">{listing.source}</span>
+                  <span className="text-gray-600">€{listing.priceEur.toLocaleString('de-DE')}</span>
+                </a>
+              ))}
+            </div>
+          )}
+
           {/* AI Scores Row */}
           <div className="flex gap-4 mb-4">
             {/* AI Priority Score */}
             <div className="bg-green-50 border border-green-200 rounded-lg p-4 text-center min-w-[80px]">
               <div className="text-2xl font-bold text-green-600">
-                {vehicle.personalFitScore || 96}
+                {vehicle.aiPriorityRating || 94}
               </div>
               <div className="text-xs text-green-700 font-medium">AI Priority</div>
             </div>
@@ -175,7 +214,7 @@ export function VehicleCard({ vehicle }: VehicleCardProps) {
             {/* Personal Fit Score */}
             <div className="bg-green-50 border border-green-200 rounded-lg p-4 text-center min-w-[80px]">
               <div className="text-2xl font-bold text-green-600">
-                {vehicle.aiPriorityRating || 94}
+                {fitScore ?? '–'}
               </div>
               <div className="text-xs text-green-700 font-medium">Personal Fit</div>
             </div>
@@ -232,6 +271,8 @@ export function VehicleCard({ vehicle }: VehicleCardProps) {
                 <option value="contacted">Contacted</option>
                 <option value="to_visit">To Visit</option>
                 <option value="visited">Visited</option>
+                <option value="sold">Sold</option>
+                <option value="removed">Removed</option>
               </select>
             </div>
           </div>
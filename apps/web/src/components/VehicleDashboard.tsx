@@ -1,10 +1,19 @@
 'use client';
 
+import { useState } from 'react';
 import { useVehicles } from '@/hooks/useVehicles';
 import { VehicleCard } from './VehicleCard';
+import { BulkActionBar } from './BulkActionBar';
+import { BulkOperationResponse, VehicleQuery } from '@car-finder/types';
 
 export function VehicleDashboard() {
-  const { vehicles, loading, error, clearError } = useVehicles();
+  // The dashboard page owns loading; this component only renders the current page
+  const { vehicles, total, query, loading, error, clearError, setPage, refetch } = useVehicles({ autoLoad: false });
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [lastBulkOperation, setLastBulkOperation] = useState<BulkOperationResponse | null>(null);
+  const page = query.page ?? 1;
+  const limit = query.limit ?? 20;
+  const totalPages = Math.max(1, Math.ceil(total / limit));
 
   if (loading) {
     return (
@@ -49,7 +58,9 @@ export function VehicleDashboard() {
         </svg>
         <h3 className="mt-2 text-sm font-medium text-gray-900">No vehicles found</h3>
         <p className="mt-1 text-sm text-gray-500">
-          No vehicles have been scraped yet. Run the ingestion script to populate the database.
+          {hasActiveFilters(query)
+            ? 'No vehicles match the current filters.'
+            : 'No vehicles have been scraped yet. Run the ingestion script to populate the database.'}
         </p>
       </div>
     );
@@ -57,10 +68,64 @@ export function VehicleDashboard() {
 
   return (
     <div className="space-y-4">
+      <BulkActionBar
+        selectedIds={selectedIds}
+        pageIds={vehicles.map(vehicle => vehicle.id)}
+        onSelectionChange={setSelectedIds}
+        lastOperation={lastBulkOperation}
+        onLastOperationChange={setLastBulkOperation}
+        onComplete={refetch}
+      />
+
       {/* Vehicle List - Horizontal Cards */}
       {vehicles.map((vehicle) => (
-        <VehicleCard key={vehicle.id} vehicle={vehicle} />
+        <VehicleCard
+          key={vehicle.id}
+          vehicle={vehicle}
+          profileId={query.profileId}
+          selected={selectedIds.includes(vehicle.id)}
+          onSelectChange={(selected) => setSelectedIds(ids =>
+            selected ? [...ids, vehicle.id] : ids.filter(id => id !== vehicle.id)
+          )}
+        />
       ))}
+
+      {/* Pagination */}
+      {totalPages > 1 && (
+        <div className="flex items-center justify-between pt-4">
+          <p className="text-sm text-gray-600">
+            Showing {(page - 1) * limit + 1}–{Math.min(page * limit, total)} of {total} vehicles
+          </p>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => setPage(page - 1)}
+              disabled={page <= 1}
+              className="px-3 py-1 border border-gray-300 rounded-lg text-sm text-gray-700 hover:bg-gray-100 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              Previous
+            </button>
+            <span className="text-sm text-gray-600">
+              Page {page} of {totalPages}
+            </span>
+            <button
+              onClick={() => setPage(page + 1)}
+              disabled={page >= totalPages}
+              className="px-3 py-1 border border-gray-300 rounded-lg text-sm text-gray-700 hover:bg-gray-100 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              Next
+            </button>
+          </div>
+        </div>
+      )}
     </div>
   );
 }
+
+function hasActiveFilters(query: VehicleQuery): boolean {
+  return Boolean(
+    query.search ||
+    (query.status && query.status.length > 0) ||
+    (query.listingState && query.listingState.length > 0) ||
+    query.minAiPriorityRating !== undefined
+  );
+}
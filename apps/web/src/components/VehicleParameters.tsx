@@ -0,0 +1,61 @@
+import { groupSourceParameters } from '@/lib/utils';
+
+interface VehicleParametersProps {
+  parameters: Record<string, string>;
+  equipment: Record<string, string[]>;
+}
+
+/**
+ * Listing parameters grouped into sections, followed by the equipment list by category
+ * Labels are shown as listed on the marketplace (Polish)
+ */
+export function VehicleParameters({ parameters, equipment }: VehicleParametersProps) {
+  const groups = groupSourceParameters(parameters ?? {});
+  const equipmentCategories = Object.entries(equipment ?? {}).filter(([, items]) => items.length > 0);
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6">
+      <h2 className="text-lg font-semibold text-gray-900 mb-4">Parameters</h2>
+
+      {groups.length === 0 ? (
+        <p className="text-sm text-gray-500">No parameters listed.</p>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          {groups.map(group => (
+            <div key={group.name}>
+              <h3 className="text-sm font-medium text-gray-900 mb-2">{group.name}</h3>
+              <dl className="divide-y divide-gray-100 text-sm">
+                {group.entries.map(([label, value]) => (
+                  <div key={label} className="flex justify-between gap-4 py-1.5">
+                    <dt className="text-gray-500">{label}</dt>
+                    <dd className="text-gray-900 text-right">{value}</dd>
+                  </div>
+                ))}
+              </dl>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {equipmentCategories.length > 0 && (
+        <>
+          <h2 className="text-lg font-semibold text-gray-900 mt-6 mb-4">Equipment</h2>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            {equipmentCategories.map(([category, items]) => (
+              <div key={category}>
+                <h3 className="text-sm font-medium text-gray-900 mb-2">{category}</h3>
+                <div className="flex flex-wrap gap-2">
+                  {items.map(item => (
+                    <span key={item} className="bg-orange-100 text-orange-800 px-2 py-1 rounded text-xs font-medium">
+                      {item}
+                    </span>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
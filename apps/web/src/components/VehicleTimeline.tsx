@@ -0,0 +1,156 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { VehicleEvent, VehicleEventType } from '@car-finder/types';
+import { fetchVehicleEvents } from '@/lib/api';
+import { getStatusColor, getStatusLabel } from '@/lib/utils';
+
+interface VehicleTimelineProps {
+  vehicleId: string;
+  refreshKey?: number; // Bump to reload after the vehicle was changed on the page
+}
+
+const EVENT_LABELS: Record<VehicleEventType, string> = {
+  status_change: 'Status changed',
+  note_edit: 'Notes edited',
+  price_change: 'Price changed',
+  analysis: 'AI analysis',
+};
+
+const EVENT_DOT_COLORS: Record<VehicleEventType, string> = {
+  status_change: 'bg-blue-500',
+  note_edit: 'bg-gray-400',
+  price_change: 'bg-green-500',
+  analysis: 'bg-purple-500',
+};
+
+const ANALYSIS_FIELD_LABELS: Record<string, string> = {
+  personalFitScore: 'fit score',
+  marketValueScore: 'market value',
+  aiPriorityRating: 'priority rating',
+  aiPrioritySummary: 'priority summary',
+  aiMechanicReport: 'mechanic report',
+  aiDataSanityCheck: 'sanity check',
+};
+
+function formatDateTime(value: Date | string): string {
+  return new Date(value).toLocaleString('en-US', { month: 'short', day: 'numeric', year: 'numeric', hour: 'numeric', minute: '2-digit' });
+}
+
+function formatPln(value: string | null): string {
+  return value === null ? '–' : `${Number(value).toLocaleString('pl-PL')} PLN`;
+}
+
+function EventDetails({ event }: { event: VehicleEvent }) {
+  switch (event.type) {
+    case 'status_change':
+      return (
+        <div className="flex items-center gap-2">
+          {event.fromValue && (
+            <>
+              <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${getStatusColor(event.fromValue)}`}>
+                {getStatusLabel(event.fromValue)}
+              </span>
+              <span className="text-gray-400">→</span>
+            </>
+          )}
+          <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${getStatusColor(event.toValue ?? '')}`}>
+            {getStatusLabel(event.toValue ?? '')}
+          </span>
+        </div>
+      );
+    case 'price_change': {
+      const delta = Number(event.toValue) - Number(event.fromValue);
+      return (
+        <span className="text-gray-700">
+          {formatPln(event.fromValue)} → {formatPln(event.toValue)}
+          {event.fromValue !== null && (
+            <span className={`ml-2 ${delta < 0 ? 'text-green-700' : 'text-red-700'}`}>
+              {delta < 0 ? '▼' : '▲'} {Math.abs(delta).toLocaleString('pl-PL')}
+            </span>
+          )}
+        </span>
+      );
+    }
+    case 'note_edit':
+      return event.toValue
+        ? <p className="text-gray-700 whitespace-pre-line line-clamp-3">{event.toValue}</p>
+        : <span className="text-gray-500 italic">Notes cleared</span>;
+    case 'analysis': {
+      const fields = (event.toValue ?? '').split(',').filter(Boolean).map(field =>
+        field.startsWith('fitScores.') ? `fit score (${field.slice('fitScores.'.length)})` : ANALYSIS_FIELD_LABELS[field] ?? field
+      );
+      return <span className="text-gray-700">{fields.length > 0 ? `Updated ${fields.join(', ')}` : 'No fields updated'}</span>;
+    }
+  }
+}
+
+export function VehicleTimeline({ vehicleId, refreshKey = 0 }: VehicleTimelineProps) {
+  const [events, setEvents] = useState<VehicleEvent[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    fetchVehicleEvents(vehicleId)
+      .then(response => {
+        if (!cancelled) {
+          setEvents(response.events);
+          setError(null);
+        }
+      })
+      .catch(err => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load timeline');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [vehicleId, refreshKey]);
+
+  if (isLoading) {
+    return (
+      <div className="bg-white rounded-lg shadow p-6">
+        <div className="h-32 bg-gray-100 rounded animate-pulse" />
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="bg-white rounded-lg shadow p-6">
+        <p className="text-sm text-red-600">Could not load timeline: {error}</p>
+      </div>
+    );
+  }
+
+  // Newest first, like an activity feed
+  const timeline = [...events].reverse();
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6">
+      <h2 className="text-lg font-semibold text-gray-900 mb-4">Timeline</h2>
+
+      {timeline.length === 0 ? (
+        <p className="text-sm text-gray-500">No activity recorded yet.</p>
+      ) : (
+        <ol className="relative border-l border-gray-200 ml-1.5 space-y-4">
+          {timeline.map(event => (
+            <li key={event.id} className="ml-4 text-sm">
+              <span className={`absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border-2 border-white ${EVENT_DOT_COLORS[event.type]}`} />
+              <div className="flex justify-between gap-4 mb-1">
+                <span className="font-medium text-gray-900">{EVENT_LABELS[event.type]}</span>
+                <time className="text-gray-500 whitespace-nowrap">{formatDateTime(event.createdAt)}</time>
+              </div>
+              <EventDetails event={event} />
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
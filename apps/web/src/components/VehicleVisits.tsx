@@ -0,0 +1,369 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { InspectionItem, InspectionItemInput, InspectionResult, Vehicle, Visit, VisitStatus } from '@car-finder/types';
+import {
+  fetchVehicleById,
+  fetchVisits,
+  getVisitCalendarUrl,
+  saveVisitChecklist,
+  scheduleVisit,
+  updateVisit,
+} from '@/lib/api';
+
+interface VehicleVisitsProps {
+  vehicleId: string;
+  onVehicleChange: (changes: Partial<Vehicle>) => void; // Scheduling and completing visits move the vehicle's status
+}
+
+const VISIT_STATUS_STYLES: Record<VisitStatus, string> = {
+  scheduled: 'bg-blue-100 text-blue-800',
+  completed: 'bg-green-100 text-green-800',
+  cancelled: 'bg-gray-100 text-gray-600',
+};
+
+const RESULT_OPTIONS: { result: InspectionResult; label: string; activeClass: string }[] = [
+  { result: 'ok', label: 'OK', activeClass: 'bg-green-600 text-white border-green-600' },
+  { result: 'issue', label: 'Issue', activeClass: 'bg-red-600 text-white border-red-600' },
+  { result: 'skipped', label: 'Skip', activeClass: 'bg-gray-500 text-white border-gray-500' },
+];
+
+function formatDateTime(value: Date | string): string {
+  return new Date(value).toLocaleString('en-US', {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+function errorMessage(err: unknown, fallback: string): string {
+  return err instanceof Error ? err.message : fallback;
+}
+
+function VisitChecklist({
+  visit,
+  disabled,
+  onSave,
+}: {
+  visit: Visit;
+  disabled: boolean;
+  onSave: (items: InspectionItemInput[]) => void;
+}) {
+  const [newLabel, setNewLabel] = useState('');
+  const [notesDrafts, setNotesDrafts] = useState<Record<string, string>>({});
+
+  const saveItem = (id: string, changes: Partial<InspectionItem>) =>
+    onSave(visit.checklist.map(item => (item.id === id ? { ...item, ...changes } : item)));
+
+  const saveNotes = (item: InspectionItem) => {
+    const notes = notesDrafts[item.id];
+    if (notes !== undefined && notes !== (item.notes ?? '')) {
+      saveItem(item.id, { notes: notes.trim() || null });
+    }
+  };
+
+  const addItem = () => {
+    onSave([...visit.checklist, { label: newLabel.trim(), source: 'manual' }]);
+    setNewLabel('');
+  };
+
+  const checked = visit.checklist.filter(item => item.result !== 'pending').length;
+
+  return (
+    <div className="mt-3">
+      <div className="flex justify-between items-center mb-2">
+        <h4 className="text-sm font-medium text-gray-900">Inspection checklist</h4>
+        <span className="text-xs text-gray-500">{checked}/{visit.checklist.length} checked</span>
+      </div>
+
+      {visit.checklist.length === 0 && (
+        <p className="text-sm text-gray-500 mb-2">No inspection points in the mechanic report. Add your own below.</p>
+      )}
+
+      <ul className="space-y-2">
+        {visit.checklist.map(item => (
+          <li key={item.id} className="border border-gray-100 rounded-lg p-2 text-sm">
+            <div className="flex items-start justify-between gap-3">
+              <span className={item.result === 'skipped' ? 'text-gray-400 line-through' : 'text-gray-800'}>
+                {item.critical && <span className="mr-1 text-xs font-semibold text-red-700">CRITICAL</span>}
+                {item.label}
+              </span>
+              <div className="flex items-center gap-1 shrink-0">
+                {RESULT_OPTIONS.map(option => (
+                  <button
+                    key={option.result}
+                    onClick={() => saveItem(item.id, { result: item.result === option.result ? 'pending' : option.result })}
+                    disabled={disabled}
+                    className={`px-2 py-0.5 border rounded text-xs disabled:opacity-50 ${
+                      item.result === option.result ? option.activeClass : 'border-gray-300 text-gray-700 hover:bg-gray-100'
+                    }`}
+                  >
+                    {option.label}
+                  </button>
+                ))}
+                <button
+                  onClick={() => onSave(visit.checklist.filter(other => other.id !== item.id))}
+                  disabled={disabled}
+                  title="Remove item"
+                  className="px-1 text-gray-400 hover:text-red-600 disabled:opacity-50"
+                >
+                  ×
+                </button>
+              </div>
+            </div>
+            {(item.result === 'issue' || item.notes) && (
+              <input
+                type="text"
+                value={notesDrafts[item.id] ?? item.notes ?? ''}
+                onChange={(e) => setNotesDrafts(drafts => ({ ...drafts, [item.id]: e.target.value }))}
+                onBlur={() => saveNotes(item)}
+                placeholder="What did you find? Which photos show it?"
+                disabled={disabled}
+                className="mt-2 w-full px-2 py-1 border border-gray-300 rounded text-sm"
+              />
+            )}
+          </li>
+        ))}
+      </ul>
+
+      <div className="flex gap-2 mt-2">
+        <input
+          type="text"
+          value={newLabel}
+          onChange={(e) => setNewLabel(e.target.value)}
+          placeholder="Add something to check"
+          disabled={disabled}
+          className="flex-1 px-2 py-1 border border-gray-300 rounded-lg text-sm"
+        />
+        <button
+          onClick={addItem}
+          disabled={disabled || newLabel.trim() === ''}
+          className="px-3 py-1 border border-gray-300 rounded-lg text-sm text-gray-700 hover:bg-gray-100 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Add
+        </button>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Visits to see the vehicle: schedules appointments, checks off the inspection checklist
+ * generated from the mechanic report and links the calendar feed of upcoming visits
+ */
+export function VehicleVisits({ vehicleId, onVehicleChange }: VehicleVisitsProps) {
+  const [visits, setVisits] = useState<Visit[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const [scheduledAt, setScheduledAt] = useState('');
+  const [durationMinutes, setDurationMinutes] = useState('60');
+  const [location, setLocation] = useState('');
+  const [contactName, setContactName] = useState('');
+  const [contactPhone, setContactPhone] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    setIsLoading(true);
+    fetchVisits(vehicleId)
+      .then(response => {
+        if (!cancelled) setVisits(response.visits);
+      })
+      .catch(err => {
+        if (!cancelled) setError(errorMessage(err, 'Failed to load visits'));
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [vehicleId]);
+
+  const runAction = async (fallback: string, task: () => Promise<void>) => {
+    setBusy(true);
+    setActionError(null);
+    try {
+      await task();
+    } catch (err) {
+      setActionError(errorMessage(err, fallback));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  // The API moves the vehicle along the workflow; pick up its new status
+  const refreshVehicleStatus = async () => {
+    const vehicle = await fetchVehicleById(vehicleId);
+    onVehicleChange({ status: vehicle.status });
+  };
+
+  const replaceVisit = (updated: Visit) =>
+    setVisits(current => current.map(visit => (visit.id === updated.id ? updated : visit)));
+
+  const handleSchedule = () =>
+    runAction('Failed to schedule visit', async () => {
+      const visit = await scheduleVisit(vehicleId, {
+        scheduledAt: new Date(scheduledAt).toISOString(),
+        durationMinutes: Number(durationMinutes),
+        location: location || null,
+        contactName: contactName || null,
+        contactPhone: contactPhone || null,
+      });
+      setVisits(current =>
+        [...current, visit].sort((a, b) => new Date(a.scheduledAt).getTime() - new Date(b.scheduledAt).getTime())
+      );
+      setScheduledAt('');
+      setLocation('');
+      await refreshVehicleStatus();
+    });
+
+  const handleStatusChange = (visit: Visit, status: VisitStatus) =>
+    runAction('Failed to update visit', async () => {
+      replaceVisit(await updateVisit(vehicleId, visit.id, { status }));
+      if (status === 'completed') {
+        await refreshVehicleStatus();
+      }
+    });
+
+  const handleChecklistSave = (visit: Visit, items: InspectionItemInput[]) =>
+    runAction('Failed to save checklist', async () => {
+      replaceVisit(await saveVisitChecklist(vehicleId, visit.id, items));
+    });
+
+  if (isLoading) {
+    return (
+      <div className="bg-white rounded-lg shadow p-6">
+        <div className="h-32 bg-gray-100 rounded animate-pulse" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-lg font-semibold text-gray-900">Visits</h2>
+        <a href={getVisitCalendarUrl()} className="text-sm text-blue-600 hover:text-blue-800">
+          📅 Export upcoming visits (.ics)
+        </a>
+      </div>
+
+      {error && <p className="text-sm text-red-600 mb-4">Could not load visits: {error}</p>}
+
+      {visits.length === 0 && !error && (
+        <p className="text-sm text-gray-500 mb-4">No visits scheduled yet.</p>
+      )}
+
+      <div className="space-y-4 mb-6">
+        {visits.map(visit => (
+          <div key={visit.id} className="border border-gray-200 rounded-lg p-4">
+            <div className="flex flex-col md:flex-row md:justify-between md:items-start gap-2">
+              <div className="text-sm">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium text-gray-900">{formatDateTime(visit.scheduledAt)}</span>
+                  <span className="text-gray-500">({visit.durationMinutes} min)</span>
+                  <span className={`px-2 py-0.5 rounded-full text-xs font-medium capitalize ${VISIT_STATUS_STYLES[visit.status]}`}>
+                    {visit.status}
+                  </span>
+                </div>
+                {visit.location && <div className="text-gray-600 mt-1">📍 {visit.location}</div>}
+                {(visit.contactName || visit.contactPhone) && (
+                  <div className="text-gray-600 mt-1">
+                    👤 {[visit.contactName, visit.contactPhone].filter(Boolean).join(' · ')}
+                  </div>
+                )}
+                {visit.notes && <p className="text-gray-600 mt-1 whitespace-pre-line">{visit.notes}</p>}
+              </div>
+              {visit.status === 'scheduled' && (
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => handleStatusChange(visit, 'completed')}
+                    disabled={busy}
+                    className="px-3 py-1 bg-green-600 text-white rounded-lg text-sm hover:bg-green-700 disabled:opacity-50"
+                  >
+                    Mark visited
+                  </button>
+                  <button
+                    onClick={() => handleStatusChange(visit, 'cancelled')}
+                    disabled={busy}
+                    className="px-3 py-1 border border-gray-300 rounded-lg text-sm text-gray-700 hover:bg-gray-100 disabled:opacity-50"
+                  >
+                    Cancel
+                  </button>
+                </div>
+              )}
+            </div>
+
+            {visit.status !== 'cancelled' && (
+              <VisitChecklist
+                visit={visit}
+                disabled={busy}
+                onSave={(items) => handleChecklistSave(visit, items)}
+              />
+            )}
+          </div>
+        ))}
+      </div>
+
+      <div className="border-t border-gray-200 pt-4">
+        <h3 className="text-sm font-medium text-gray-900 mb-3">Schedule a visit</h3>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          <input
+            type="datetime-local"
+            value={scheduledAt}
+            onChange={(e) => setScheduledAt(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+          />
+          <select
+            value={durationMinutes}
+            onChange={(e) => setDurationMinutes(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-700"
+          >
+            {['30', '60', '90', '120'].map(minutes => (
+              <option key={minutes} value={minutes}>{minutes} min</option>
+            ))}
+          </select>
+          <input
+            type="text"
+            value={location}
+            onChange={(e) => setLocation(e.target.value)}
+            placeholder="Address"
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm md:col-span-2"
+          />
+          <input
+            type="text"
+            value={contactName}
+            onChange={(e) => setContactName(e.target.value)}
+            placeholder="Contact name"
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+          />
+          <input
+            type="tel"
+            value={contactPhone}
+            onChange={(e) => setContactPhone(e.target.value)}
+            placeholder="Phone"
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+          />
+        </div>
+        <div className="flex items-center justify-between gap-3 mt-3">
+          <p className="text-xs text-gray-500">The checklist is generated from the mechanic report&apos;s inspection points.</p>
+          <button
+            onClick={handleSchedule}
+            disabled={busy || scheduledAt === ''}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg text-sm hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Schedule visit
+          </button>
+        </div>
+      </div>
+
+      {actionError && <p className="text-sm text-red-600 mt-3">{actionError}</p>}
+    </div>
+  );
+}
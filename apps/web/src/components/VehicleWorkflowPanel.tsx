@@ -0,0 +1,143 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Vehicle, VehicleStatus } from '@car-finder/types';
+import { analyzeVehicle, translateVehicle, updateVehicle } from '@/lib/api';
+import { getStatusLabel } from '@/lib/utils';
+
+interface VehicleWorkflowPanelProps {
+  vehicle: Vehicle;
+  onVehicleChange: (changes: Partial<Vehicle>) => void;
+}
+
+// Statuses the user can set; sold/removed record what the seller said, the liveness check sets listingState
+const EDITABLE_STATUSES: VehicleStatus[] = [
+  'new',
+  'to_contact',
+  'contacted',
+  'to_visit',
+  'visited',
+  'not_interested',
+  'sold',
+  'removed',
+];
+
+type WorkflowAction = 'status' | 'notes' | 'translate' | 'analyze';
+
+export function VehicleWorkflowPanel({ vehicle, onVehicleChange }: VehicleWorkflowPanelProps) {
+  const [notes, setNotes] = useState(vehicle.personalNotes ?? '');
+  const [busyAction, setBusyAction] = useState<WorkflowAction | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  useEffect(() => {
+    setNotes(vehicle.personalNotes ?? '');
+  }, [vehicle.id, vehicle.personalNotes]);
+
+  const runAction = async (action: WorkflowAction, task: () => Promise<string | null>) => {
+    setBusyAction(action);
+    setError(null);
+    setNotice(null);
+    try {
+      setNotice(await task());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Request failed');
+    } finally {
+      setBusyAction(null);
+    }
+  };
+
+  const handleStatusChange = (status: VehicleStatus) =>
+    runAction('status', async () => {
+      const updated = await updateVehicle(vehicle.id, { status });
+      onVehicleChange({ status: updated.status });
+      return null;
+    });
+
+  const handleSaveNotes = () =>
+    runAction('notes', async () => {
+      const updated = await updateVehicle(vehicle.id, { personalNotes: notes });
+      onVehicleChange({ personalNotes: updated.personalNotes });
+      return 'Notes saved';
+    });
+
+  const handleTranslate = () =>
+    runAction('translate', async () => {
+      const response = await translateVehicle(vehicle.id, true);
+      onVehicleChange(response.vehicle);
+      return response.message;
+    });
+
+  const handleAnalyze = () =>
+    runAction('analyze', async () => {
+      const response = await analyzeVehicle(vehicle.id, { force: true });
+      onVehicleChange(response.vehicle);
+      return response.message;
+    });
+
+  const notesChanged = notes !== (vehicle.personalNotes ?? '');
+  const canAnalyze = Boolean(vehicle.description && vehicle.description.trim() !== '');
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6 space-y-4">
+      <div>
+        <label htmlFor="vehicle-status" className="block text-sm font-medium text-gray-900 mb-1">Status</label>
+        <select
+          id="vehicle-status"
+          value={vehicle.status}
+          onChange={e => handleStatusChange(e.target.value as VehicleStatus)}
+          disabled={busyAction !== null}
+          className="w-full bg-white border border-gray-300 rounded px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+        >
+          {EDITABLE_STATUSES.map(status => (
+            <option key={status} value={status}>{getStatusLabel(status)}</option>
+          ))}
+        </select>
+      </div>
+
+      <div>
+        <label htmlFor="vehicle-notes" className="block text-sm font-medium text-gray-900 mb-1">Personal notes</label>
+        <textarea
+          id="vehicle-notes"
+          value={notes}
+          onChange={e => setNotes(e.target.value)}
+          rows={4}
+          placeholder="Anything to remember about this vehicle"
+          className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm"
+        />
+        <button
+          onClick={handleSaveNotes}
+          disabled={busyAction !== null || !notesChanged}
+          className="mt-2 bg-blue-600 hover:bg-blue-700 disabled:bg-blue-300 text-white px-4 py-2 rounded-md text-sm"
+        >
+          {busyAction === 'notes' ? 'Saving...' : 'Save notes'}
+        </button>
+      </div>
+
+      <div className="border-t border-gray-100 pt-4">
+        <h3 className="text-sm font-medium text-gray-900 mb-2">AI processing</h3>
+        <div className="flex flex-wrap gap-2">
+          <button
+            onClick={handleTranslate}
+            disabled={busyAction !== null}
+            className="border border-gray-300 hover:bg-gray-100 disabled:opacity-50 px-3 py-1.5 rounded-md text-sm"
+          >
+            {busyAction === 'translate' ? 'Translating...' : 'Re-translate'}
+          </button>
+          <button
+            onClick={handleAnalyze}
+            disabled={busyAction !== null || !canAnalyze}
+            title={canAnalyze ? undefined : 'Translate the vehicle before analyzing it'}
+            className="border border-gray-300 hover:bg-gray-100 disabled:opacity-50 px-3 py-1.5 rounded-md text-sm"
+          >
+            {busyAction === 'analyze' ? 'Analyzing...' : 'Re-analyze'}
+          </button>
+        </div>
+        <p className="text-xs text-gray-500 mt-2">Both run against the AI provider and can take a minute.</p>
+      </div>
+
+      {notice && <p className="text-sm text-green-700">{notice}</p>}
+      {error && <p className="text-sm text-red-600">{error}</p>}
+    </div>
+  );
+}
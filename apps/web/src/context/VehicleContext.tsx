@@ -1,10 +1,20 @@
 'use client';
 
 import React, { createContext, useContext, useReducer, useCallback, ReactNode } from 'react';
-import { Vehicle } from '@car-finder/types';
+import { Vehicle, VehicleQuery, PaginatedResponse } from '@car-finder/types';
+
+export const DEFAULT_VEHICLE_QUERY: VehicleQuery = {
+  sortBy: 'createdAt',
+  sortDirection: 'desc',
+  page: 1,
+  limit: 20,
+  collapseDuplicates: true,
+};
 
 interface VehicleState {
   vehicles: Vehicle[];
+  total: number;
+  query: VehicleQuery;
   loading: boolean;
   error: string | null;
   selectedVehicle: Vehicle | null;
@@ -12,7 +22,8 @@ interface VehicleState {
 
 type VehicleAction =
   | { type: 'SET_LOADING'; payload: boolean }
-  | { type: 'SET_VEHICLES'; payload: Vehicle[] }
+  | { type: 'SET_VEHICLES'; payload: PaginatedResponse<Vehicle> }
+  | { type: 'SET_QUERY'; payload: VehicleQuery }
   | { type: 'SET_ERROR'; payload: string | null }
   | { type: 'SET_SELECTED_VEHICLE'; payload: Vehicle | null }
   | { type: 'UPDATE_VEHICLE'; payload: Vehicle }
@@ -21,7 +32,8 @@ type VehicleAction =
 interface VehicleContextType {
   state: VehicleState;
   setLoading: (loading: boolean) => void;
-  setVehicles: (vehicles: Vehicle[]) => void;
+  setVehicles: (result: PaginatedResponse<Vehicle>) => void;
+  setQuery: (query: VehicleQuery) => void;
   setError: (error: string | null) => void;
   setSelectedVehicle: (vehicle: Vehicle | null) => void;
   updateVehicle: (vehicle: Vehicle) => void;
@@ -32,6 +44,8 @@ const VehicleContext = createContext<VehicleContextType | undefined>(undefined);
 
 const initialState: VehicleState = {
   vehicles: [],
+  total: 0,
+  query: DEFAULT_VEHICLE_QUERY,
   loading: false,
   error: null,
   selectedVehicle: null,
@@ -42,7 +56,9 @@ function vehicleReducer(state: VehicleState, action: VehicleAction): VehicleStat
     case 'SET_LOADING':
       return { ...state, loading: action.payload };
     case 'SET_VEHICLES':
-      return { ...state, vehicles: action.payload, loading: false, error: null };
+      return { ...state, vehicles: action.payload.data, total: action.payload.total, loading: false, error: null };
+    case 'SET_QUERY':
+      return { ...state, query: action.payload };
     case 'SET_ERROR':
       return { ...state, error: action.payload, loading: false };
     case 'SET_SELECTED_VEHICLE':
@@ -71,8 +87,12 @@ export function VehicleProvider({ children }: { children: ReactNode }) {
     dispatch({ type: 'SET_LOADING', payload: loading });
   }, []);
 
-  const setVehicles = useCallback((vehicles: Vehicle[]) => {
-    dispatch({ type: 'SET_VEHICLES', payload: vehicles });
+  const setVehicles = useCallback((result: PaginatedResponse<Vehicle>) => {
+    dispatch({ type: 'SET_VEHICLES', payload: result });
+  }, []);
+
+  const setQuery = useCallback((query: VehicleQuery) => {
+    dispatch({ type: 'SET_QUERY', payload: query });
   }, []);
 
   const setError = useCallback((error: string | null) => {
@@ -95,6 +115,7 @@ export function VehicleProvider({ children }: { children: ReactNode }) {
     state,
     setLoading,
     setVehicles,
+    setQuery,
     setError,
     setSelectedVehicle,
     updateVehicle,
@@ -3,17 +3,23 @@
 import { useCallback, useEffect } from 'react';
 import { useVehicleContext } from '@/context/VehicleContext';
 import { fetchVehicles, fetchVehicleById, updateVehicle as updateVehicleApi, ApiError } from '@/lib/api';
-import { Vehicle } from '@car-finder/types';
+import { Vehicle, VehicleQuery } from '@car-finder/types';
 
-export function useVehicles() {
-  const { state, setLoading, setVehicles, setError, clearError } = useVehicleContext();
+interface UseVehiclesOptions {
+  /** Fetch the current page whenever the query changes (default: true) */
+  autoLoad?: boolean;
+}
+
+export function useVehicles({ autoLoad = true }: UseVehiclesOptions = {}) {
+  const { state, setLoading, setVehicles, setQuery, setError, clearError } = useVehicleContext();
+  const { query } = state;
 
   const loadVehicles = useCallback(async () => {
     try {
       setLoading(true);
       clearError();
-      const vehicles = await fetchVehicles();
-      setVehicles(vehicles);
+      const result = await fetchVehicles(query);
+      setVehicles(result);
     } catch (error) {
       if (error instanceof ApiError) {
         setError(`Failed to load vehicles: ${error.message}`);
@@ -21,7 +27,18 @@ export function useVehicles() {
         setError('Failed to load vehicles: Unknown error occurred');
       }
     }
-  }, [setLoading, setVehicles, setError, clearError]);
+  }, [query, setLoading, setVehicles, setError, clearError]);
+
+  /**
+   * Merge filter/sort changes into the query and go back to the first page
+   */
+  const updateQuery = useCallback((changes: VehicleQuery) => {
+    setQuery({ ...query, ...changes, page: 1 });
+  }, [query, setQuery]);
+
+  const setPage = useCallback((page: number) => {
+    setQuery({ ...query, page });
+  }, [query, setQuery]);
 
   const loadVehicleById = useCallback(async (id: string): Promise<Vehicle | null> => {
     try {
@@ -63,17 +80,23 @@ export function useVehicles() {
     }
   }, [setLoading, setError, clearError]);
 
-  // Auto-load vehicles on mount
+  // Auto-load vehicles on mount and whenever the query changes
   useEffect(() => {
-    loadVehicles();
-  }, [loadVehicles]);
+    if (autoLoad) {
+      loadVehicles();
+    }
+  }, [autoLoad, loadVehicles]);
 
   return {
     vehicles: state.vehicles,
+    total: state.total,
+    query,
     loading: state.loading,
     error: state.error,
     selectedVehicle: state.selectedVehicle,
     loadVehicles,
+    updateQuery,
+    setPage,
     loadVehicleById,
     updateVehicle,
     clearError,
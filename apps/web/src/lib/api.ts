@@ -1,4 +1,28 @@
-import { Vehicle } from '@car-finder/types';
+import {
+  Vehicle,
+  VehicleQuery,
+  PaginatedResponse,
+  VehicleHistoryResponse,
+  VehicleEventsResponse,
+  TimeOnMarketStats,
+  CriteriaProfilesResponse,
+  SellerConversationResponse,
+  SellerMessage,
+  SellerMessageDraft,
+  DraftSellerMessageRequest,
+  LogSellerMessageRequest,
+  TranslateVehicleResponse,
+  AnalyzeVehicleResponse,
+  MarketValueAnalysis,
+  BulkVehicleRequest,
+  BulkOperationResponse,
+  Visit,
+  VehicleVisitsResponse,
+  ScheduleVisitRequest,
+  UpdateVisitRequest,
+  InspectionItemInput,
+  VehicleComparison,
+} from '@car-finder/types';
 
 const API_BASE_URL = process.env.NEXT_PUBLIC_API_BASE_URL || 'http://localhost:3000';
 
@@ -53,15 +77,131 @@ async function apiRequest<T>(
   }
 }
 
+/**
+ * Serialize a vehicle query into URL search params (list values are comma-separated)
+ */
+export function buildVehicleQueryString(query: VehicleQuery): string {
+  const params = new URLSearchParams();
+
+  Object.entries(query).forEach(([key, value]) => {
+    if (value === undefined || value === null || value === '') return;
+    if (Array.isArray(value)) {
+      if (value.length > 0) params.set(key, value.join(','));
+    } else {
+      params.set(key, String(value));
+    }
+  });
+
+  const queryString = params.toString();
+  return queryString ? `?${queryString}` : '';
+}
+
 // Vehicle API functions
-export async function fetchVehicles(): Promise<Vehicle[]> {
-  return apiRequest<Vehicle[]>('/api/vehicles');
+export async function fetchVehicles(query: VehicleQuery = {}): Promise<PaginatedResponse<Vehicle>> {
+  return apiRequest<PaginatedResponse<Vehicle>>(`/api/vehicles${buildVehicleQueryString(query)}`);
 }
 
 export async function fetchVehicleById(id: string): Promise<Vehicle> {
   return apiRequest<Vehicle>(`/api/vehicles/${id}`);
 }
 
+export async function fetchVehicleHistory(id: string): Promise<VehicleHistoryResponse> {
+  return apiRequest<VehicleHistoryResponse>(`/api/vehicles/${id}/history`);
+}
+
+export async function fetchVehicleEvents(id: string): Promise<VehicleEventsResponse> {
+  return apiRequest<VehicleEventsResponse>(`/api/vehicles/${id}/events`);
+}
+
+// Resolves to null while the market value has not been calculated
+export async function fetchMarketValue(id: string): Promise<MarketValueAnalysis | null> {
+  try {
+    return await apiRequest<MarketValueAnalysis>(`/api/vehicles/${id}/market-value`);
+  } catch (error) {
+    if (error instanceof ApiError && error.status === 404) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+export async function fetchTimeOnMarketStats(): Promise<TimeOnMarketStats[]> {
+  const response = await apiRequest<{ stats: TimeOnMarketStats[] }>('/api/vehicles/stats/time-on-market');
+  return response.stats;
+}
+
+// The AI recommendation is only generated (and the request only slow) when asked for
+export async function fetchVehicleComparison(ids: string[], recommend = false): Promise<VehicleComparison> {
+  const params = new URLSearchParams({ ids: ids.join(',') });
+  if (recommend) params.set('recommend', 'true');
+  return apiRequest<VehicleComparison>(`/api/vehicles/compare?${params.toString()}`);
+}
+
+export async function fetchCriteriaProfiles(): Promise<CriteriaProfilesResponse> {
+  return apiRequest<CriteriaProfilesResponse>('/api/profiles');
+}
+
+export async function fetchSellerMessages(vehicleId: string): Promise<SellerConversationResponse> {
+  return apiRequest<SellerConversationResponse>(`/api/vehicles/${vehicleId}/messages`);
+}
+
+export async function draftSellerMessage(
+  vehicleId: string,
+  request: DraftSellerMessageRequest
+): Promise<SellerMessageDraft> {
+  return apiRequest<SellerMessageDraft>(`/api/vehicles/${vehicleId}/messages/draft`, {
+    method: 'POST',
+    body: JSON.stringify(request),
+  });
+}
+
+export async function logSellerMessage(
+  vehicleId: string,
+  message: LogSellerMessageRequest
+): Promise<SellerMessage> {
+  return apiRequest<SellerMessage>(`/api/vehicles/${vehicleId}/messages`, {
+    method: 'POST',
+    body: JSON.stringify(message),
+  });
+}
+
+export async function translateSellerReply(vehicleId: string, textPl: string): Promise<SellerMessage> {
+  return apiRequest<SellerMessage>(`/api/vehicles/${vehicleId}/messages/reply`, {
+    method: 'POST',
+    body: JSON.stringify({ textPl }),
+  });
+}
+
+export async function fetchVisits(vehicleId: string): Promise<VehicleVisitsResponse> {
+  return apiRequest<VehicleVisitsResponse>(`/api/vehicles/${vehicleId}/visits`);
+}
+
+export async function scheduleVisit(vehicleId: string, visit: ScheduleVisitRequest): Promise<Visit> {
+  return apiRequest<Visit>(`/api/vehicles/${vehicleId}/visits`, {
+    method: 'POST',
+    body: JSON.stringify(visit),
+  });
+}
+
+export async function updateVisit(vehicleId: string, visitId: string, updates: UpdateVisitRequest): Promise<Visit> {
+  return apiRequest<Visit>(`/api/vehicles/${vehicleId}/visits/${visitId}`, {
+    method: 'PATCH',
+    body: JSON.stringify(updates),
+  });
+}
+
+export async function saveVisitChecklist(vehicleId: string, visitId: string, items: InspectionItemInput[]): Promise<Visit> {
+  return apiRequest<Visit>(`/api/vehicles/${vehicleId}/visits/${visitId}/checklist`, {
+    method: 'PUT',
+    body: JSON.stringify({ items }),
+  });
+}
+
+// iCalendar feed of upcoming visits, for download links and calendar subscriptions
+export function getVisitCalendarUrl(): string {
+  return `${API_BASE_URL}/api/calendar/visits.ics`;
+}
+
 export async function updateVehicle(
   id: string, 
   updates: { status?: string; personalNotes?: string }
@@ -72,6 +212,39 @@ export async function updateVehicle(
   });
 }
 
+export async function bulkUpdateVehicles(request: BulkVehicleRequest): Promise<BulkOperationResponse> {
+  return apiRequest<BulkOperationResponse>('/api/vehicles/bulk', {
+    method: 'POST',
+    body: JSON.stringify(request),
+  });
+}
+
+export async function undoBulkOperation(operationId: string): Promise<BulkOperationResponse> {
+  return apiRequest<BulkOperationResponse>(`/api/vehicles/bulk/${operationId}/undo`, {
+    method: 'POST',
+  });
+}
+
+export async function translateVehicle(id: string, force = false): Promise<TranslateVehicleResponse> {
+  return apiRequest<TranslateVehicleResponse>(`/api/vehicles/${id}/translate${force ? '?force=true' : ''}`, {
+    method: 'POST',
+  });
+}
+
+export async function analyzeVehicle(
+  id: string,
+  options: { force?: boolean; profile?: string } = {}
+): Promise<AnalyzeVehicleResponse> {
+  const params = new URLSearchParams();
+  if (options.force) params.set('force', 'true');
+  if (options.profile) params.set('profile', options.profile);
+  const queryString = params.toString();
+
+  return apiRequest<AnalyzeVehicleResponse>(`/api/vehicles/${id}/analyze${queryString ? `?${queryString}` : ''}`, {
+    method: 'POST',
+  });
+}
+
 // Health check
 export async function checkApiHealth(): Promise<{ status: string; message: string; timestamp: string }> {
   return apiRequest<{ status: string; message: string; timestamp: string }>('/health');
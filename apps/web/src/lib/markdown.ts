@@ -0,0 +1,93 @@
+// Minimal Markdown parsing for AI-generated reports (headings, lists, rules, bold/italic/code)
+
+export interface MarkdownInline {
+  text: string;
+  bold?: boolean;
+  italic?: boolean;
+  code?: boolean;
+}
+
+export type MarkdownBlock =
+  | { type: 'heading'; level: number; content: MarkdownInline[] }
+  | { type: 'paragraph'; content: MarkdownInline[] }
+  | { type: 'list'; ordered: boolean; items: MarkdownInline[][] }
+  | { type: 'rule' };
+
+const HEADING = /^(#{1,6})\s+(.*)$/;
+const RULE = /^(-{3,}|\*{3,}|_{3,})$/;
+const UNORDERED_ITEM = /^[-*+]\s+(.*)$/;
+const ORDERED_ITEM = /^\d+[.)]\s+(.*)$/;
+const INLINE_TOKEN = /(\*\*[^*]+\*\*|`[^`]+`|\*[^*\s][^*]*\*)/;
+
+/**
+ * Split a line into plain, bold, italic and code runs
+ */
+export function parseInline(text: string): MarkdownInline[] {
+  return text
+    .split(INLINE_TOKEN)
+    .filter(part => part !== '')
+    .map(part => {
+      if (part.startsWith('**') && part.endsWith('**') && part.length > 4) {
+        return { text: part.slice(2, -2), bold: true };
+      }
+      if (part.startsWith('`') && part.endsWith('`') && part.length > 2) {
+        return { text: part.slice(1, -1), code: true };
+      }
+      if (part.startsWith('*') && part.endsWith('*') && part.length > 2) {
+        return { text: part.slice(1, -1), italic: true };
+      }
+      return { text: part };
+    });
+}
+
+/**
+ * Parse Markdown text into blocks; anything unrecognised is kept as paragraph text
+ */
+export function parseMarkdown(markdown: string): MarkdownBlock[] {
+  const blocks: MarkdownBlock[] = [];
+  let paragraph: string[] = [];
+  let list: { ordered: boolean; items: MarkdownInline[][] } | null = null;
+
+  const flush = () => {
+    if (paragraph.length > 0) {
+      blocks.push({ type: 'paragraph', content: parseInline(paragraph.join('\n')) });
+      paragraph = [];
+    }
+    if (list) {
+      blocks.push({ type: 'list', ...list });
+      list = null;
+    }
+  };
+
+  for (const rawLine of markdown.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    const unordered = line.match(UNORDERED_ITEM);
+    const ordered = line.match(ORDERED_ITEM);
+    const heading = line.match(HEADING);
+
+    if (line === '') {
+      flush();
+    } else if (RULE.test(line)) {
+      flush();
+      blocks.push({ type: 'rule' });
+    } else if (heading) {
+      flush();
+      blocks.push({ type: 'heading', level: heading[1].length, content: parseInline(heading[2]) });
+    } else if (unordered || ordered) {
+      const isOrdered = !unordered;
+      if (paragraph.length > 0 || (list && list.ordered !== isOrdered)) {
+        flush();
+      }
+      list = list ?? { ordered: isOrdered, items: [] };
+      list.items.push(parseInline((unordered ?? ordered)![1]));
+    } else {
+      if (list) {
+        flush();
+      }
+      paragraph.push(line);
+    }
+  }
+
+  flush();
+  return blocks;
+}
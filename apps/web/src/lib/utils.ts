@@ -1,5 +1,6 @@
 import { type ClassValue, clsx } from "clsx";
 import { twMerge } from "tailwind-merge";
+import { TimeOnMarketStats } from "@car-finder/types";
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
@@ -29,8 +30,14 @@ export function getStatusColor(status: string): string {
       return 'bg-purple-100 text-purple-800';
     case 'visited':
       return 'bg-green-100 text-green-800';
+    case 'not_interested':
+      return 'bg-gray-100 text-gray-600';
     case 'deleted':
       return 'bg-red-100 text-red-800';
+    case 'sold':
+      return 'bg-slate-200 text-slate-700';
+    case 'removed':
+      return 'bg-gray-200 text-gray-600';
     default:
       return 'bg-gray-100 text-gray-800';
   }
@@ -48,9 +55,118 @@ export function getStatusLabel(status: string): string {
       return 'To Visit';
     case 'visited':
       return 'Visited';
+    case 'not_interested':
+      return 'Not Interested';
     case 'deleted':
       return 'Deleted';
+    case 'sold':
+      return 'Sold';
+    case 'removed':
+      return 'Removed';
     default:
       return status;
   }
 }
+
+/**
+ * Summarize how long delisted vehicles stayed on the market ("12 sold · median 9 days (3–40)")
+ */
+export function formatTimeOnMarket(stats: TimeOnMarketStats): string {
+  const days = (value: number) => `${value} ${value === 1 ? 'day' : 'days'}`;
+  return `${stats.count} ${getStatusLabel(stats.status).toLowerCase()} · median ${days(stats.medianDays)} (${stats.minDays}–${stats.maxDays})`;
+}
+
+/**
+ * Parse a market value score ("-5%", "+10%", "market_avg") into a percentage vs the market
+ * @returns Percent above (positive) or below (negative) the market, or null when not calculated
+ */
+export function parseMarketValueScore(score: string | null): number | null {
+  if (!score) return null;
+  if (score === 'market_avg') return 0;
+
+  const percent = parseFloat(score.replace('%', ''));
+  return isNaN(percent) ? null : percent;
+}
+
+/**
+ * Market price implied by the asking price and its percentage vs the market
+ */
+export function estimateMarketPriceEur(priceEur: number, percentVsMarket: number): number {
+  return Math.round(priceEur / (1 + percentVsMarket / 100));
+}
+
+const HTML_ENTITIES: Record<string, string> = {
+  '&nbsp;': ' ',
+  '&amp;': '&',
+  '&lt;': '<',
+  '&gt;': '>',
+  '&quot;': '"',
+  '&#39;': "'",
+};
+
+/**
+ * Convert scraped description HTML to plain text, keeping paragraphs and line breaks
+ */
+export function htmlToText(html: string): string {
+  return html
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|li|h[1-6])>/gi, '\n')
+    .replace(/<li[^>]*>/gi, '• ')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&(nbsp|amp|lt|gt|quot|#39);/g, entity => HTML_ENTITIES[entity])
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+// Otomoto/OLX parameter labels by section of the detail page; other parameters go under "Other"
+const PARAMETER_GROUPS: Array<{ name: string; keys: string[] }> = [
+  {
+    name: 'Basics',
+    keys: ['Marka pojazdu', 'Model pojazdu', 'Wersja', 'Generacja', 'Rok produkcji', 'Przebieg', 'Stan', 'VIN'],
+  },
+  {
+    name: 'Engine & Drivetrain',
+    keys: ['Rodzaj paliwa', 'Pojemność skokowa', 'Moc', 'Skrzynia biegów', 'Napęd', 'Emisja CO2', 'Spalanie W Mieście', 'Spalanie Poza Miastem'],
+  },
+  {
+    name: 'Body',
+    keys: ['Typ nadwozia', 'Liczba drzwi', 'Liczba miejsc', 'Kolor', 'Rodzaj koloru', 'Dopuszczalna masa całkowita', 'Ładowność'],
+  },
+  {
+    name: 'History & Registration',
+    keys: [
+      'Kraj pochodzenia',
+      'Data pierwszej rejestracji w historii pojazdu',
+      'Zarejestrowany w Polsce',
+      'Pierwszy właściciel (od nowości)',
+      'Bezwypadkowy',
+      'Uszkodzony',
+      'Serwisowany w ASO',
+      'Numer rejestracyjny pojazdu',
+    ],
+  },
+];
+
+/**
+ * Group listing parameters into detail page sections, in config order, dropping empty groups
+ */
+export function groupSourceParameters(parameters: Record<string, string>): Array<{ name: string; entries: Array<[string, string]> }> {
+  const grouped = PARAMETER_GROUPS.map(group => ({
+    name: group.name,
+    entries: group.keys
+      .filter(key => parameters[key] !== undefined)
+      .map((key): [string, string] => [key, parameters[key]]),
+  }));
+
+  const knownKeys = new Set(PARAMETER_GROUPS.flatMap(group => group.keys));
+  grouped.push({
+    name: 'Other',
+    entries: Object.entries(parameters)
+      // Some scrapes carry nested values (e.g. an equipment list) - those are shown elsewhere
+      .filter(([key, value]) => !knownKeys.has(key) && typeof value !== 'object')
+      .map(([key, value]): [string, string] => [key, String(value)]),
+  });
+
+  return grouped.filter(group => group.entries.length > 0);
+}
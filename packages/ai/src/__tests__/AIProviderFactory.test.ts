@@ -4,14 +4,18 @@
 
 import { AIProviderFactory, EnhancedAIProvider } from '../factory/AIProviderFactory';
 import { GeminiProvider } from '../providers/GeminiProvider';
+import { OpenAICompatibleProvider } from '../providers/OpenAICompatibleProvider';
+import { ReplayProvider } from '../providers/ReplayProvider';
 import { 
   AIProviderConfig, 
   ValidationError, 
   AuthenticationError 
 } from '../interfaces';
 
-// Mock the GeminiProvider
+// Mock the providers
 jest.mock('../providers/GeminiProvider');
+jest.mock('../providers/OpenAICompatibleProvider');
+jest.mock('../providers/ReplayProvider');
 
 describe('AIProviderFactory', () => {
   let mockGeminiProvider: jest.Mocked<GeminiProvider>;
@@ -41,6 +45,11 @@ describe('AIProviderFactory', () => {
     } as any;
 
     (GeminiProvider as jest.MockedClass<typeof GeminiProvider>).mockImplementation(() => mockGeminiProvider);
+
+    // The factory relies on the real API key rule of the mocked provider
+    (OpenAICompatibleProvider.requiresApiKey as jest.Mock).mockImplementation(
+      jest.requireActual('../providers/OpenAICompatibleProvider').OpenAICompatibleProvider.requiresApiKey
+    );
   });
 
   describe('createProvider', () => {
@@ -57,6 +66,20 @@ describe('AIProviderFactory', () => {
       expect(GeminiProvider).toHaveBeenCalledWith(config);
     });
 
+    it('should create OpenAI-compatible provider with a custom base URL', () => {
+      const config: AIProviderConfig = {
+        provider: 'openai',
+        apiKey: 'local',
+        model: 'llama3.1',
+        baseUrl: 'http://localhost:11434/v1'
+      };
+
+      const provider = AIProviderFactory.createProvider(config);
+
+      expect(provider).toBeInstanceOf(OpenAICompatibleProvider);
+      expect(OpenAICompatibleProvider).toHaveBeenCalledWith(config);
+    });
+
     it('should throw ValidationError for missing provider', () => {
       const config = {
         apiKey: 'test-api-key'
@@ -159,6 +182,113 @@ describe('AIProviderFactory', () => {
       expect(() => AIProviderFactory.createFromEnvironment()).toThrow('API key not found for provider');
     });
 
+    it('should pass AI_BASE_URL to the OpenAI-compatible provider', () => {
+      process.env.AI_PROVIDER = 'openai';
+      process.env.OPENAI_API_KEY = 'local';
+      process.env.AI_BASE_URL = 'http://localhost:8080/v1';
+
+      AIProviderFactory.createFromEnvironment('qwen2.5-7b-instruct');
+
+      expect(OpenAICompatibleProvider).toHaveBeenCalledWith(
+        expect.objectContaining({
+          provider: 'openai',
+          apiKey: 'local',
+          model: 'qwen2.5-7b-instruct',
+          baseUrl: 'http://localhost:8080/v1'
+        })
+      );
+    });
+
+    it('should allow a local OpenAI-compatible server without an API key', () => {
+      delete process.env.OPENAI_API_KEY;
+      process.env.AI_PROVIDER = 'openai';
+      process.env.AI_BASE_URL = 'http://localhost:8080/v1';
+
+      AIProviderFactory.createFromEnvironment();
+
+      expect(OpenAICompatibleProvider).toHaveBeenCalledWith(
+        expect.objectContaining({ provider: 'openai', apiKey: '', baseUrl: 'http://localhost:8080/v1' })
+      );
+    });
+
+    it('should require OPENAI_API_KEY for the OpenAI endpoint', () => {
+      delete process.env.OPENAI_API_KEY;
+      process.env.AI_PROVIDER = 'openai';
+      process.env.AI_BASE_URL = 'https://api.openai.com/v1/';
+
+      expect(() => AIProviderFactory.createFromEnvironment()).toThrow('API key not found for provider');
+
+      delete process.env.AI_BASE_URL;
+      expect(() => AIProviderFactory.createFromEnvironment()).toThrow('API key not found for provider');
+    });
+
+    it('should pass AI_BASE_URL to the openai provider only', () => {
+      process.env.AI_PROVIDER = 'gemini';
+      process.env.GEMINI_API_KEY = 'env-api-key';
+      process.env.AI_BASE_URL = 'http://localhost:8080/v1';
+
+      AIProviderFactory.createFromEnvironment();
+
+      expect(GeminiProvider).toHaveBeenCalledWith(expect.not.objectContaining({ baseUrl: expect.anything() }));
+    });
+
+    it('should create replay provider without an API key', () => {
+      delete process.env.GEMINI_API_KEY;
+      process.env.AI_PROVIDER = 'replay';
+      process.env.AI_REPLAY_DIR = '/tmp/ai-replay';
+
+      AIProviderFactory.createFromEnvironment();
+
+      expect(ReplayProvider).toHaveBeenCalledWith(
+        expect.objectContaining({
+          provider: 'replay',
+          replay: { mode: 'replay', fixturesDir: '/tmp/ai-replay', upstream: undefined }
+        }),
+        undefined
+      );
+    });
+
+    it('should wrap the upstream provider in replay record mode', () => {
+      process.env.AI_PROVIDER = 'replay';
+      process.env.AI_REPLAY_MODE = 'record';
+      process.env.AI_REPLAY_DIR = '/tmp/ai-replay';
+      process.env.GEMINI_API_KEY = 'env-api-key';
+
+      AIProviderFactory.createFromEnvironment('gemini-2.5-flash');
+
+      expect(GeminiProvider).toHaveBeenCalledWith(
+        expect.objectContaining({ provider: 'gemini', apiKey: 'env-api-key', model: 'gemini-2.5-flash' })
+      );
+      expect(ReplayProvider).toHaveBeenCalledWith(
+        expect.objectContaining({ replay: expect.objectContaining({ mode: 'record' }) }),
+        mockGeminiProvider
+      );
+    });
+
+    it('should record from a keyless local OpenAI-compatible server', () => {
+      delete process.env.OPENAI_API_KEY;
+      process.env.AI_PROVIDER = 'replay';
+      process.env.AI_REPLAY_MODE = 'record';
+      process.env.AI_REPLAY_DIR = '/tmp/ai-replay';
+      process.env.AI_REPLAY_UPSTREAM = 'openai';
+      process.env.AI_BASE_URL = 'http://localhost:8080/v1';
+
+      AIProviderFactory.createFromEnvironment();
+
+      expect(OpenAICompatibleProvider).toHaveBeenCalledWith(
+        expect.objectContaining({ provider: 'openai', apiKey: '', baseUrl: 'http://localhost:8080/v1' })
+      );
+    });
+
+    it('should require the upstream API key in replay record mode', () => {
+      delete process.env.GEMINI_API_KEY;
+      process.env.AI_PROVIDER = 'replay';
+      process.env.AI_REPLAY_MODE = 'record';
+      process.env.AI_REPLAY_DIR = '/tmp/ai-replay';
+
+      expect(() => AIProviderFactory.createFromEnvironment()).toThrow('API key not found for provider');
+    });
+
     it('should parse numeric environment variables', () => {
       process.env.GEMINI_API_KEY = 'env-api-key';
       process.env.AI_RATE_LIMIT_RPM = '120';
@@ -185,6 +315,8 @@ describe('AIProviderFactory', () => {
     it('should list available providers', () => {
       const providers = AIProviderFactory.getAvailableProviders();
       expect(providers).toContain('gemini');
+      expect(providers).toContain('openai');
+      expect(providers).toContain('replay');
     });
 
     it('should get provider information', () => {
@@ -213,6 +345,20 @@ describe('AIProviderFactory', () => {
           factory: expect.any(Function),
           description: expect.any(String),
           supportedFeatures: expect.any(Array)
+        },
+        {
+          id: 'openai',
+          name: 'OpenAI-compatible',
+          factory: expect.any(Function),
+          description: expect.any(String),
+          supportedFeatures: expect.any(Array)
+        },
+        {
+          id: 'replay',
+          name: 'Record/Replay',
+          factory: expect.any(Function),
+          description: expect.any(String),
+          supportedFeatures: expect.any(Array)
         }
       ]);
     });
@@ -288,6 +434,26 @@ describe('AIProviderFactory', () => {
       expect(result.errors).toContain('API key is required');
     });
 
+    it('should not require an API key for a local OpenAI-compatible server', () => {
+      const local = AIProviderFactory.validateConfig({ provider: 'openai', apiKey: '', baseUrl: 'http://localhost:11434/v1' });
+      const openai = AIProviderFactory.validateConfig({ provider: 'openai', apiKey: '' });
+
+      expect(local.isValid).toBe(true);
+      expect(openai.errors).toContain('API key is required');
+    });
+
+    it('should not require an API key for the replay provider', () => {
+      const config: AIProviderConfig = {
+        provider: 'replay',
+        apiKey: '',
+        replay: { mode: 'replay', fixturesDir: '/tmp/ai-replay' }
+      };
+
+      const result = AIProviderFactory.validateConfig(config);
+
+      expect(result.isValid).toBe(true);
+    });
+
     it('should validate timeout', () => {
       const config: AIProviderConfig = {
         provider: 'gemini',
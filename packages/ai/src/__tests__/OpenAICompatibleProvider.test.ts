@@ -0,0 +1,285 @@
+/**
+ * Tests for OpenAICompatibleProvider
+ */
+
+import { OpenAICompatibleProvider } from '../providers/OpenAICompatibleProvider';
+import {
+  AIProviderConfig,
+  AuthenticationError,
+  NetworkError,
+  RateLimitError,
+  TimeoutError,
+  ValidationError,
+  ChatMessage
+} from '../interfaces';
+
+/**
+ * Build a fetch Response-like object for a Chat Completions reply
+ */
+function completionResponse(content: string | null, extra: Record<string, unknown> = {}) {
+  return {
+    ok: true,
+    status: 200,
+    statusText: 'OK',
+    headers: new Headers(),
+    json: async () => ({
+      model: 'llama3.1',
+      choices: [{ message: { content }, finish_reason: 'stop' }],
+      ...extra
+    }),
+    text: async () => ''
+  };
+}
+
+/**
+ * Build a fetch Response-like object for an HTTP error
+ */
+function errorResponse(status: number, body: string, headers: Record<string, string> = {}) {
+  return {
+    ok: false,
+    status,
+    statusText: 'Error',
+    headers: new Headers(headers),
+    json: async () => JSON.parse(body),
+    text: async () => body
+  };
+}
+
+describe('OpenAICompatibleProvider', () => {
+  let provider: OpenAICompatibleProvider;
+  let config: AIProviderConfig;
+  let mockFetch: jest.Mock;
+  const originalFetch = global.fetch;
+
+  beforeEach(() => {
+    config = {
+      provider: 'openai',
+      apiKey: 'local',
+      model: 'llama3.1',
+      baseUrl: 'http://localhost:11434/v1/'
+    };
+
+    mockFetch = jest.fn();
+    global.fetch = mockFetch as unknown as typeof fetch;
+
+    provider = new OpenAICompatibleProvider(config);
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  /**
+   * Parse the JSON body of the nth fetch call
+   */
+  function requestBody(call: number = 0): any {
+    return JSON.parse(mockFetch.mock.calls[call][1].body);
+  }
+
+  describe('constructor', () => {
+    it('should create provider with valid config', () => {
+      expect(provider).toBeInstanceOf(OpenAICompatibleProvider);
+      expect(provider.getProviderName()).toBe('openai');
+      expect(provider.getModelInfo().name).toBe('llama3.1');
+    });
+
+    it('should throw ValidationError with empty API key for the OpenAI endpoint', () => {
+      expect(() => new OpenAICompatibleProvider({ ...config, apiKey: '', baseUrl: undefined })).toThrow(ValidationError);
+      expect(() => new OpenAICompatibleProvider({ ...config, apiKey: '', baseUrl: 'https://api.openai.com/v1/' }))
+        .toThrow(ValidationError);
+    });
+
+    it('should allow an empty API key for a local server', async () => {
+      const keyless = new OpenAICompatibleProvider({ ...config, apiKey: '' });
+
+      await expect(keyless.isReady()).resolves.toBe(true);
+    });
+
+    it('should default to the OpenAI endpoint and model', () => {
+      const defaultProvider = new OpenAICompatibleProvider({ provider: 'openai', apiKey: 'sk-test' });
+
+      expect(defaultProvider.getBaseUrl()).toBe('https://api.openai.com/v1');
+      expect(defaultProvider.getModelInfo().name).toBe('gpt-4o-mini');
+    });
+  });
+
+  describe('generateText', () => {
+    it('should post a chat completion to the configured base URL', async () => {
+      mockFetch.mockResolvedValue(completionResponse('Generated text response'));
+
+      const result = await provider.generateText('Test prompt', { temperature: 0.2, maxTokens: 100, topK: 40 });
+
+      expect(result).toBe('Generated text response');
+      expect(mockFetch).toHaveBeenCalledWith(
+        'http://localhost:11434/v1/chat/completions',
+        expect.objectContaining({
+          method: 'POST',
+          headers: expect.objectContaining({ Authorization: 'Bearer local' })
+        })
+      );
+      expect(requestBody()).toEqual({
+        model: 'llama3.1',
+        messages: [{ role: 'user', content: 'Test prompt' }],
+        temperature: 0.2,
+        max_tokens: 100,
+        top_k: 40
+      });
+    });
+
+    it('should not send an Authorization header without an API key', async () => {
+      mockFetch.mockResolvedValue(completionResponse('Generated text response'));
+      const keyless = new OpenAICompatibleProvider({ ...config, apiKey: '' });
+
+      await keyless.generateText('Test prompt');
+
+      expect(mockFetch.mock.calls[0][1].headers).toEqual({ 'Content-Type': 'application/json' });
+    });
+
+    it('should throw ValidationError for empty prompt', async () => {
+      await expect(provider.generateText('')).rejects.toThrow(ValidationError);
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it('should handle empty response', async () => {
+      mockFetch.mockResolvedValue(completionResponse(null));
+
+      await expect(provider.generateText('Test prompt')).rejects.toThrow('Empty response from OpenAI-compatible API');
+    });
+  });
+
+  describe('chat', () => {
+    it('should map model messages to the assistant role', async () => {
+      mockFetch.mockResolvedValue(completionResponse('Chat response'));
+
+      const messages: ChatMessage[] = [
+        { role: 'user', content: 'Hello' },
+        { role: 'model', content: 'Hi there!' },
+        { role: 'user', content: 'How are you?' }
+      ];
+
+      const result = await provider.chat(messages);
+
+      expect(result).toBe('Chat response');
+      expect(requestBody().messages).toEqual([
+        { role: 'user', content: 'Hello' },
+        { role: 'assistant', content: 'Hi there!' },
+        { role: 'user', content: 'How are you?' }
+      ]);
+    });
+
+    it('should throw ValidationError for empty messages', async () => {
+      await expect(provider.chat([])).rejects.toThrow(ValidationError);
+    });
+  });
+
+  describe('generateStructured', () => {
+    const schema = {
+      type: 'object' as const,
+      properties: {
+        name: { type: 'string' as const },
+        age: { type: 'number' as const }
+      }
+    };
+
+    it('should request JSON mode and parse the response', async () => {
+      mockFetch.mockResolvedValue(completionResponse('{"name": "John", "age": 30}'));
+
+      const result = await provider.generateStructured<{ name: string; age: number }>('Generate person data', schema);
+
+      expect(result).toEqual({ name: 'John', age: 30 });
+      expect(requestBody().response_format).toEqual({ type: 'json_object' });
+      expect(requestBody().messages[0].content).toContain('valid JSON');
+    });
+
+    it('should handle JSON in markdown code blocks', async () => {
+      mockFetch.mockResolvedValue(completionResponse('```json\n{"name": "Jane", "age": 25}\n```'));
+
+      const result = await provider.generateStructured('Generate person data', schema);
+
+      expect(result).toEqual({ name: 'Jane', age: 25 });
+    });
+
+    it('should throw ValidationError for invalid JSON', async () => {
+      mockFetch.mockResolvedValue(completionResponse('Not JSON'));
+
+      await expect(provider.generateStructured('Test', schema)).rejects.toThrow(ValidationError);
+    });
+  });
+
+  describe('generateResponse', () => {
+    it('should return token usage and metadata', async () => {
+      mockFetch.mockResolvedValue(completionResponse('Full response text', {
+        choices: [{ message: { content: 'Full response text' }, finish_reason: 'length' }],
+        usage: { prompt_tokens: 10, completion_tokens: 20, total_tokens: 30 }
+      }));
+
+      const result = await provider.generateResponse('Test prompt');
+
+      expect(result).toMatchObject({
+        content: 'Full response text',
+        model: 'llama3.1',
+        usage: {
+          promptTokens: 10,
+          completionTokens: 20,
+          totalTokens: 30
+        },
+        finishReason: 'length',
+        metadata: {
+          provider: 'openai',
+          baseUrl: 'http://localhost:11434/v1'
+        }
+      });
+    });
+
+    it('should handle response without usage', async () => {
+      mockFetch.mockResolvedValue(completionResponse('Response without usage'));
+
+      const result = await provider.generateResponse('Test prompt');
+
+      expect(result.usage).toBeUndefined();
+      expect(result.finishReason).toBe('stop');
+    });
+  });
+
+  describe('error handling', () => {
+    it('should map 401 to AuthenticationError', async () => {
+      mockFetch.mockResolvedValue(errorResponse(401, '{"error": {"message": "Incorrect API key"}}'));
+
+      await expect(provider.generateText('Test')).rejects.toThrow(AuthenticationError);
+      await expect(provider.generateText('Test')).rejects.toThrow('Incorrect API key');
+    });
+
+    it('should map 429 to RateLimitError with retry-after', async () => {
+      mockFetch.mockResolvedValue(errorResponse(429, '{"error": {"message": "Slow down"}}', { 'retry-after': '12' }));
+
+      const error = await provider.generateText('Test').catch(e => e);
+
+      expect(error).toBeInstanceOf(RateLimitError);
+      expect(error.retryAfter).toBe(12);
+    });
+
+    it('should map server errors and unreachable servers to NetworkError', async () => {
+      mockFetch.mockResolvedValueOnce(errorResponse(503, 'Service Unavailable'));
+      await expect(provider.generateText('Test')).rejects.toThrow(NetworkError);
+
+      mockFetch.mockRejectedValueOnce(new TypeError('fetch failed'));
+      await expect(provider.generateText('Test')).rejects.toThrow(NetworkError);
+    });
+
+    it('should map aborted requests to TimeoutError', async () => {
+      const abortError = new Error('The operation was aborted');
+      abortError.name = 'AbortError';
+      mockFetch.mockRejectedValue(abortError);
+
+      await expect(provider.generateText('Test')).rejects.toThrow(TimeoutError);
+    });
+  });
+
+  describe('testConnection', () => {
+    it('should return false when the server is unreachable', async () => {
+      mockFetch.mockRejectedValue(new TypeError('fetch failed'));
+
+      expect(await provider.testConnection()).toBe(false);
+    });
+  });
+});
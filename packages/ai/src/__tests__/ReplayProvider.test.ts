@@ -0,0 +1,173 @@
+/**
+ * Tests for ReplayProvider
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ReplayProvider } from '../providers/ReplayProvider';
+import {
+  IAIProvider,
+  AIProviderConfig,
+  AIError,
+  ValidationError,
+  ChatMessage
+} from '../interfaces';
+
+describe('ReplayProvider', () => {
+  let fixturesDir: string;
+  let upstream: jest.Mocked<IAIProvider>;
+
+  const schema = {
+    type: 'object' as const,
+    properties: {
+      score: { type: 'number' as const }
+    }
+  };
+
+  function createConfig(mode: 'record' | 'replay'): AIProviderConfig {
+    return {
+      provider: 'replay',
+      apiKey: '',
+      replay: { mode, fixturesDir }
+    };
+  }
+
+  beforeEach(() => {
+    fixturesDir = fs.mkdtempSync(path.join(os.tmpdir(), 'ai-replay-'));
+
+    upstream = {
+      generateText: jest.fn(),
+      chat: jest.fn(),
+      generateStructured: jest.fn().mockResolvedValue({ score: 7.5 }),
+      generateResponse: jest.fn().mockResolvedValue({
+        content: 'Recorded text',
+        model: 'gemini-pro',
+        usage: { promptTokens: 10, completionTokens: 5, totalTokens: 15 },
+        finishReason: 'stop',
+        metadata: { timestamp: '2024-01-01T00:00:00.000Z' }
+      }),
+      chatResponse: jest.fn().mockResolvedValue({
+        content: 'Recorded chat',
+        model: 'gemini-pro'
+      }),
+      countTokens: jest.fn(),
+      getProviderName: jest.fn().mockReturnValue('gemini'),
+      getModelInfo: jest.fn().mockReturnValue({ name: 'gemini-pro', provider: 'gemini', supportedFeatures: [] }),
+      isReady: jest.fn().mockResolvedValue(true),
+      testConnection: jest.fn().mockResolvedValue(true)
+    };
+  });
+
+  afterEach(() => {
+    fs.rmSync(fixturesDir, { recursive: true, force: true });
+  });
+
+  describe('constructor', () => {
+    it('should not require an API key', () => {
+      const provider = new ReplayProvider(createConfig('replay'));
+
+      expect(provider.getProviderName()).toBe('replay');
+      expect(provider.getMode()).toBe('replay');
+    });
+
+    it('should throw ValidationError without replay configuration', () => {
+      expect(() => new ReplayProvider({ provider: 'replay', apiKey: '' })).toThrow(ValidationError);
+    });
+
+    it('should throw ValidationError in record mode without an upstream provider', () => {
+      expect(() => new ReplayProvider(createConfig('record'))).toThrow('Record mode requires an upstream provider');
+    });
+  });
+
+  describe('record mode', () => {
+    it('should forward to the upstream provider and write a fixture', async () => {
+      const provider = new ReplayProvider(createConfig('record'), upstream);
+
+      const result = await provider.generateText('Built prompt');
+
+      expect(result).toBe('Recorded text');
+      expect(upstream.generateResponse).toHaveBeenCalledWith('Built prompt', undefined);
+
+      const files = fs.readdirSync(fixturesDir);
+      expect(files).toHaveLength(1);
+      expect(files[0]).toMatch(/^text-[0-9a-f]{16}\.json$/);
+
+      const fixture = JSON.parse(fs.readFileSync(path.join(fixturesDir, files[0]), 'utf-8'));
+      expect(fixture).toEqual({
+        key: ReplayProvider.computeKey('text', { prompt: 'Built prompt' }),
+        kind: 'text',
+        request: { prompt: 'Built prompt' },
+        response: {
+          content: 'Recorded text',
+          model: 'gemini-pro',
+          usage: { promptTokens: 10, completionTokens: 5, totalTokens: 15 },
+          finishReason: 'stop'
+        }
+      });
+    });
+  });
+
+  describe('replay mode', () => {
+    it('should serve recorded responses without calling the upstream', async () => {
+      const recorder = new ReplayProvider(createConfig('record'), upstream);
+      const messages: ChatMessage[] = [{ role: 'user', content: 'Hello' }];
+      await recorder.generateText('Built prompt');
+      await recorder.chat(messages);
+      await recorder.generateStructured('Score this vehicle', schema);
+      jest.clearAllMocks();
+
+      const provider = new ReplayProvider(createConfig('replay'));
+
+      expect(await provider.generateText('Built prompt')).toBe('Recorded text');
+      expect(await provider.chat(messages)).toBe('Recorded chat');
+      expect(await provider.generateStructured('Score this vehicle', schema)).toEqual({ score: 7.5 });
+      expect(upstream.generateResponse).not.toHaveBeenCalled();
+    });
+
+    it('should serve generateResponse with usage and fixture metadata', async () => {
+      await new ReplayProvider(createConfig('record'), upstream).generateText('Built prompt');
+
+      const response = await new ReplayProvider(createConfig('replay')).generateResponse('Built prompt');
+
+      expect(response).toMatchObject({
+        content: 'Recorded text',
+        usage: { totalTokens: 15 },
+        metadata: { provider: 'replay', mode: 'replay', fixture: expect.stringMatching(/^text-/) }
+      });
+    });
+
+    it('should ignore generation options when matching fixtures', async () => {
+      await new ReplayProvider(createConfig('record'), upstream).generateText('Built prompt', { temperature: 0.2 });
+
+      const result = await new ReplayProvider(createConfig('replay')).generateText('Built prompt', { temperature: 0.9 });
+
+      expect(result).toBe('Recorded text');
+    });
+
+    it('should fail loudly when no fixture matches the prompt', async () => {
+      const provider = new ReplayProvider(createConfig('replay'));
+
+      await expect(provider.generateText('Unrecorded prompt')).rejects.toThrow(AIError);
+      await expect(provider.generateText('Unrecorded prompt')).rejects.toThrow('AI_REPLAY_MODE=record');
+    });
+
+    it('should key structured requests by schema as well as prompt', async () => {
+      await new ReplayProvider(createConfig('record'), upstream).generateStructured('Score this vehicle', schema);
+
+      const provider = new ReplayProvider(createConfig('replay'));
+      const otherSchema = { type: 'object' as const, properties: { rating: { type: 'number' as const } } };
+
+      await expect(provider.generateStructured('Score this vehicle', otherSchema)).rejects.toThrow('No replay fixture');
+    });
+  });
+
+  describe('isReady', () => {
+    it('should check the fixtures directory in replay mode', async () => {
+      expect(await new ReplayProvider(createConfig('replay')).isReady()).toBe(true);
+
+      fs.rmSync(fixturesDir, { recursive: true, force: true });
+      expect(await new ReplayProvider(createConfig('replay')).isReady()).toBe(false);
+    });
+  });
+});
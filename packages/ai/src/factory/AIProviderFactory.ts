@@ -2,13 +2,15 @@
  * AI Provider Factory for creating and managing AI provider instances
  */
 
+import * as path from 'path';
 import {
   IAIProvider,
   AIProviderConfig,
+  ReplayMode,
   ValidationError,
   AuthenticationError
 } from '../interfaces';
-import { GeminiProvider } from '../providers';
+import { GeminiProvider, OpenAICompatibleProvider, ReplayProvider } from '../providers';
 
 /**
  * Provider registry entry
@@ -43,6 +45,37 @@ export class AIProviderFactory {
         'token-counting'
       ]
     });
+
+    // Register OpenAI-compatible provider (OpenAI, llama.cpp, Ollama via baseUrl)
+    AIProviderFactory.registerProvider('openai', {
+      name: 'OpenAI-compatible',
+      factory: (config: AIProviderConfig) => new OpenAICompatibleProvider(config),
+      description: 'OpenAI Chat Completions API, or a local llama.cpp/Ollama server via baseUrl',
+      supportedFeatures: [
+        'text-generation',
+        'chat',
+        'structured-output',
+        'usage-reporting'
+      ]
+    });
+
+    // Register record/replay provider (wraps an upstream provider when recording)
+    AIProviderFactory.registerProvider('replay', {
+      name: 'Record/Replay',
+      factory: (config: AIProviderConfig) => new ReplayProvider(
+        config,
+        config.replay?.mode === 'record' && config.replay.upstream
+          ? AIProviderFactory.createProvider(config.replay.upstream)
+          : undefined
+      ),
+      description: 'Serves recorded prompt/response fixtures for deterministic offline runs and tests',
+      supportedFeatures: [
+        'text-generation',
+        'chat',
+        'structured-output',
+        'record-replay'
+      ]
+    });
   }
 
   /**
@@ -91,13 +124,20 @@ export class AIProviderFactory {
    */
   public static createFromEnvironment(modelName?: string): IAIProvider {
     const provider = process.env.AI_PROVIDER || this.defaultProvider;
-    const apiKey = this.getApiKeyFromEnvironment(provider);
+
+    if (provider === 'replay') {
+      return this.createProvider(this.getReplayConfigFromEnvironment(modelName));
+    }
+
+    const baseUrl = this.getBaseUrlFromEnvironment(provider);
+    const apiKey = this.getApiKeyFromEnvironment(provider, baseUrl);
     const model = modelName || process.env.AI_MODEL;
 
     const config: AIProviderConfig = {
       provider: provider as AIProviderConfig['provider'],
       apiKey,
       model,
+      baseUrl,
       rateLimitConfig: {
         requestsPerMinute: parseInt(process.env.AI_RATE_LIMIT_RPM || '60'),
         retryAttempts: parseInt(process.env.AI_MAX_RETRIES || '3'),
@@ -109,10 +149,62 @@ export class AIProviderFactory {
     return this.createProvider(config);
   }
 
+  /**
+   * Build replay provider configuration from environment variables
+   * AI_REPLAY_MODE selects record/replay, AI_REPLAY_DIR the fixture directory and
+   * AI_REPLAY_UPSTREAM the provider to record from (its API key is only needed when recording)
+   */
+  private static getReplayConfigFromEnvironment(modelName?: string): AIProviderConfig {
+    const mode = (process.env.AI_REPLAY_MODE || 'replay') as ReplayMode;
+    const fixturesDir = this.resolveReplayDir(process.env.AI_REPLAY_DIR || path.join('data', 'ai-replay'));
+    const model = modelName || process.env.AI_MODEL;
+
+    let upstream: AIProviderConfig | undefined;
+    if (mode === 'record') {
+      const upstreamProvider = process.env.AI_REPLAY_UPSTREAM || this.defaultProvider;
+      const baseUrl = this.getBaseUrlFromEnvironment(upstreamProvider);
+      upstream = {
+        provider: upstreamProvider as AIProviderConfig['provider'],
+        apiKey: this.getApiKeyFromEnvironment(upstreamProvider, baseUrl),
+        model,
+        baseUrl,
+        timeout: parseInt(process.env.AI_TIMEOUT_MS || '30000')
+      };
+    }
+
+    return {
+      provider: 'replay',
+      apiKey: '',
+      model,
+      replay: { mode, fixturesDir, upstream }
+    };
+  }
+
+  /**
+   * Resolve the replay fixtures directory, relative paths being relative to the workspace root
+   */
+  private static resolveReplayDir(dir: string): string {
+    if (path.isAbsolute(dir)) {
+      return dir;
+    }
+
+    const { WorkspaceUtils } = require('@car-finder/services');
+    return path.join(WorkspaceUtils.findWorkspaceRoot(), dir);
+  }
+
+  /**
+   * Get the base URL from environment - AI_BASE_URL only points the openai provider at
+   * another OpenAI-compatible server, other providers use their own endpoints
+   */
+  private static getBaseUrlFromEnvironment(provider: string): string | undefined {
+    return provider === 'openai' ? process.env.AI_BASE_URL || undefined : undefined;
+  }
+
   /**
    * Get API key from environment for specific provider
+   * A local OpenAI-compatible server (non-default baseUrl) may run without one
    */
-  private static getApiKeyFromEnvironment(provider: string): string {
+  private static getApiKeyFromEnvironment(provider: string, baseUrl?: string): string {
     let apiKey: string | undefined;
 
     switch (provider) {
@@ -129,6 +221,10 @@ export class AIProviderFactory {
         apiKey = process.env.AI_API_KEY;
     }
 
+    if (!apiKey && provider === 'openai' && !OpenAICompatibleProvider.requiresApiKey(baseUrl)) {
+      return '';
+    }
+
     if (!apiKey) {
       throw new AuthenticationError(
         `API key not found for provider '${provider}'. Please set the appropriate environment variable.`,
@@ -210,7 +306,15 @@ export class AIProviderFactory {
       errors.push(`Unknown provider: ${config.provider}`);
     }
 
-    if (!config.apiKey || config.apiKey.trim() === '') {
+    // Replaying fixtures needs no API key; the upstream is validated when recording
+    if (config.provider === 'replay') {
+      if (!config.replay?.fixturesDir) {
+        errors.push('Replay fixtures directory is required');
+      }
+    } else if (
+      (!config.apiKey || config.apiKey.trim() === '') &&
+      !(config.provider === 'openai' && !OpenAICompatibleProvider.requiresApiKey(config.baseUrl))
+    ) {
       errors.push('API key is required');
     }
 
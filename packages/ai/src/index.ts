@@ -20,6 +20,8 @@ export * from './utils';
 // Re-export commonly used items for convenience
 export type { IAIProvider } from './interfaces/IAIProvider';
 export { GeminiProvider } from './providers/GeminiProvider';
+export { OpenAICompatibleProvider } from './providers/OpenAICompatibleProvider';
+export { ReplayProvider } from './providers/ReplayProvider';
 export { AIProviderFactory } from './factory/AIProviderFactory';
 export { PromptBuilder, SystemMessageType } from './utils/PromptBuilder';
 export { PromptLoader } from './utils/PromptLoader';
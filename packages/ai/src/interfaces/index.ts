@@ -12,6 +12,8 @@ export type {
   ModelInfo,
   RateLimitConfig,
   AIProviderConfig,
+  ReplayMode,
+  ReplayConfig,
   AIRequest,
   AIResponse,
   GenerationSchema,
@@ -46,12 +46,29 @@ export interface RateLimitConfig {
  * AI provider configuration
  */
 export interface AIProviderConfig {
-  provider: 'gemini' | 'openai' | 'anthropic'; // Future extensibility
+  provider: 'gemini' | 'openai' | 'anthropic' | 'replay'; // Future extensibility
   apiKey: string;
   model?: string;
   rateLimitConfig?: RateLimitConfig;
   baseUrl?: string; // For custom endpoints
   timeout?: number; // Request timeout in milliseconds
+  replay?: ReplayConfig; // Required when provider is 'replay'
+}
+
+/**
+ * Record/replay mode for the replay provider
+ * - record: call the upstream provider and write each response to a fixture file
+ * - replay: serve responses from fixture files only, failing on a missing fixture
+ */
+export type ReplayMode = 'record' | 'replay';
+
+/**
+ * Replay provider configuration
+ */
+export interface ReplayConfig {
+  mode: ReplayMode;
+  fixturesDir: string; // Directory holding one JSON fixture per prompt
+  upstream?: AIProviderConfig; // Provider to record from (record mode only)
 }
 
 /**
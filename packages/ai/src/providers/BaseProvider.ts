@@ -29,7 +29,7 @@ export abstract class BaseProvider implements IAIProvider {
    * Validate provider configuration
    */
   protected validateConfig(config: AIProviderConfig): void {
-    if (!config.apiKey || config.apiKey.trim() === '') {
+    if (this.isApiKeyRequired(config) && (!config.apiKey || config.apiKey.trim() === '')) {
       throw new ValidationError('API key is required', 'apiKey');
     }
 
@@ -42,6 +42,13 @@ export abstract class BaseProvider implements IAIProvider {
     }
   }
 
+  /**
+   * Whether the configuration needs an API key - overridden by providers that can run without one
+   */
+  protected isApiKeyRequired(_config: AIProviderConfig): boolean {
+    return true;
+  }
+
   /**
    * Validate generation options
    */
@@ -137,6 +144,9 @@ export abstract class BaseProvider implements IAIProvider {
    * Check if provider is ready - to be overridden by subclasses
    */
   public async isReady(): Promise<boolean> {
+    if (!this.isApiKeyRequired(this.config)) {
+      return true;
+    }
     return this.config.apiKey !== undefined && this.config.apiKey.trim() !== '';
   }
 
@@ -0,0 +1,414 @@
+/**
+ * OpenAI-compatible AI provider implementation
+ *
+ * Talks to any server exposing the OpenAI Chat Completions API (OpenAI, llama.cpp server,
+ * Ollama, LM Studio, vLLM) through a configurable baseUrl, so analysis can run offline
+ * against a local model.
+ */
+
+import { BaseProvider } from './BaseProvider';
+import {
+  ChatMessage,
+  GenerationOptions,
+  ModelInfo,
+  AIProviderConfig,
+  AIResponse,
+  GenerationSchema,
+  AIError,
+  AuthenticationError,
+  RateLimitError,
+  NetworkError,
+  TimeoutError,
+  ValidationError
+} from '../interfaces';
+
+const DEFAULT_BASE_URL = 'https://api.openai.com/v1';
+const DEFAULT_MODEL = 'gpt-4o-mini';
+const DEFAULT_TIMEOUT_MS = 60000;
+
+/**
+ * Chat Completions request message
+ */
+interface OpenAIMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+/**
+ * Subset of the Chat Completions response used by the provider
+ */
+interface OpenAIChatCompletion {
+  model?: string;
+  choices?: Array<{
+    message?: { content?: string | null };
+    finish_reason?: string | null;
+  }>;
+  usage?: {
+    prompt_tokens?: number;
+    completion_tokens?: number;
+    total_tokens?: number;
+  };
+}
+
+/**
+ * HTTP error returned by the Chat Completions endpoint
+ */
+interface OpenAIHttpError {
+  status: number;
+  message: string;
+  retryAfter?: number;
+}
+
+/**
+ * OpenAI-compatible provider implementation
+ */
+export class OpenAICompatibleProvider extends BaseProvider {
+  private baseUrl: string;
+  private defaultModel: string;
+
+  constructor(config: AIProviderConfig) {
+    super(config);
+    this.baseUrl = (config.baseUrl || DEFAULT_BASE_URL).replace(/\/+$/, '');
+    this.defaultModel = config.model || DEFAULT_MODEL;
+  }
+
+  /**
+   * Whether a server needs an API key: OpenAI itself does, local servers behind a custom
+   * baseUrl usually don't
+   */
+  public static requiresApiKey(baseUrl?: string): boolean {
+    return !baseUrl || baseUrl.replace(/\/+$/, '') === DEFAULT_BASE_URL;
+  }
+
+  protected isApiKeyRequired(config: AIProviderConfig): boolean {
+    return OpenAICompatibleProvider.requiresApiKey(config.baseUrl);
+  }
+
+  /**
+   * Initialize model information (runs in the base constructor, before defaultModel is set)
+   */
+  protected initializeModelInfo(): ModelInfo {
+    return {
+      name: this.config.model || DEFAULT_MODEL,
+      provider: 'openai',
+      version: 'v1',
+      supportedFeatures: [
+        'text-generation',
+        'chat',
+        'structured-output',
+        'usage-reporting'
+      ]
+    };
+  }
+
+  /**
+   * Get the Chat Completions base URL in use
+   */
+  public getBaseUrl(): string {
+    return this.baseUrl;
+  }
+
+  /**
+   * Convert generation options to Chat Completions parameters
+   * topK is not part of the OpenAI API but is accepted by llama.cpp and Ollama
+   */
+  private convertGenerationOptions(options?: GenerationOptions): Record<string, unknown> {
+    if (!options) return {};
+
+    const params: Record<string, unknown> = {};
+
+    if (options.temperature !== undefined) {
+      params.temperature = options.temperature;
+    }
+
+    if (options.maxTokens !== undefined) {
+      params.max_tokens = options.maxTokens;
+    }
+
+    if (options.topP !== undefined) {
+      params.top_p = options.topP;
+    }
+
+    if (options.topK !== undefined) {
+      params.top_k = options.topK;
+    }
+
+    if (options.stopSequences !== undefined) {
+      params.stop = options.stopSequences;
+    }
+
+    return params;
+  }
+
+  /**
+   * Convert our ChatMessage format to Chat Completions messages
+   */
+  private convertMessages(messages: ChatMessage[]): OpenAIMessage[] {
+    return messages.map(msg => ({
+      role: msg.role === 'model' ? 'assistant' : 'user',
+      content: msg.content
+    }));
+  }
+
+  /**
+   * Handle API errors and convert to our error types
+   */
+  private handleOpenAIError(error: any): never {
+    if (error instanceof AIError) {
+      throw error;
+    }
+
+    // Request aborted by our timeout
+    if (error?.name === 'AbortError') {
+      const timeoutMs = this.config.timeout || DEFAULT_TIMEOUT_MS;
+      throw new TimeoutError(
+        `OpenAI-compatible request timed out after ${timeoutMs}ms`,
+        timeoutMs,
+        'OPENAI_TIMEOUT'
+      );
+    }
+
+    const message = error?.message || 'Unknown OpenAI-compatible API error';
+    const status: number | undefined = error?.status;
+
+    // fetch rejects without a status when the server cannot be reached
+    if (status === undefined) {
+      throw new NetworkError(
+        `OpenAI-compatible network error (${this.baseUrl}): ${message}`,
+        'OPENAI_NETWORK_ERROR'
+      );
+    }
+
+    // Authentication errors
+    if (status === 401 || status === 403) {
+      throw new AuthenticationError(
+        `OpenAI-compatible authentication failed: ${message}`,
+        'OPENAI_AUTH_ERROR'
+      );
+    }
+
+    // Rate limiting errors
+    if (status === 429) {
+      throw new RateLimitError(
+        `OpenAI-compatible rate limit exceeded: ${message}`,
+        error?.retryAfter || 60, // Default to 60 seconds
+        'OPENAI_RATE_LIMIT'
+      );
+    }
+
+    // Server errors
+    if (status >= 500) {
+      throw new NetworkError(
+        `OpenAI-compatible server error: ${message}`,
+        'OPENAI_NETWORK_ERROR'
+      );
+    }
+
+    // Validation errors
+    if (status === 400 || status === 404 || status === 422) {
+      throw new ValidationError(
+        `OpenAI-compatible validation error: ${message}`,
+        undefined,
+        'OPENAI_VALIDATION_ERROR'
+      );
+    }
+
+    // Generic AI error
+    throw new AIError(
+      `OpenAI-compatible API error: ${message}`,
+      undefined,
+      'OPENAI_API_ERROR',
+      status,
+      false
+    );
+  }
+
+  /**
+   * POST a Chat Completions request with the configured timeout
+   */
+  private async createChatCompletion(
+    messages: OpenAIMessage[],
+    options?: GenerationOptions,
+    extraParams: Record<string, unknown> = {}
+  ): Promise<OpenAIChatCompletion> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.config.timeout || DEFAULT_TIMEOUT_MS);
+
+    try {
+      const response = await fetch(`${this.baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          // Keyless local servers get no Authorization header rather than an empty bearer token
+          ...(this.config.apiKey ? { Authorization: `Bearer ${this.config.apiKey}` } : {})
+        },
+        body: JSON.stringify({
+          model: this.defaultModel,
+          messages,
+          ...this.convertGenerationOptions(options),
+          ...extraParams
+        }),
+        signal: controller.signal
+      });
+
+      if (!response.ok) {
+        const body = await response.text();
+        let message = body || response.statusText;
+
+        try {
+          message = JSON.parse(body)?.error?.message || message;
+        } catch {
+          // Non-JSON error body (e.g. proxy error page) - keep the raw text
+        }
+
+        const retryAfter = parseInt(response.headers.get('retry-after') || '', 10);
+        const httpError: OpenAIHttpError = {
+          status: response.status,
+          message,
+          retryAfter: isNaN(retryAfter) ? undefined : retryAfter
+        };
+        throw httpError;
+      }
+
+      return (await response.json()) as OpenAIChatCompletion;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Send messages and build the full AI response
+   */
+  private async completeMessages(
+    messages: OpenAIMessage[],
+    options?: GenerationOptions,
+    extraParams?: Record<string, unknown>
+  ): Promise<AIResponse> {
+    try {
+      const completion = await this.createChatCompletion(messages, options, extraParams);
+      const choice = completion.choices?.[0];
+      const text = choice?.message?.content;
+
+      if (!text) {
+        throw new AIError('Empty response from OpenAI-compatible API', undefined, 'EMPTY_RESPONSE');
+      }
+
+      // Extract usage information if available
+      const usage = completion.usage ? {
+        promptTokens: completion.usage.prompt_tokens,
+        completionTokens: completion.usage.completion_tokens,
+        totalTokens: completion.usage.total_tokens
+      } : undefined;
+
+      return {
+        content: text,
+        model: completion.model || this.defaultModel,
+        usage,
+        finishReason: this.mapFinishReason(choice?.finish_reason),
+        metadata: {
+          provider: 'openai',
+          baseUrl: this.baseUrl,
+          timestamp: new Date().toISOString(),
+          conversationLength: messages.length
+        }
+      };
+    } catch (error) {
+      this.handleOpenAIError(error);
+    }
+  }
+
+  /**
+   * Single-turn text generation
+   */
+  public async generateText(prompt: string, options?: GenerationOptions): Promise<string> {
+    const response = await this.generateResponse(prompt, options);
+    return response.content;
+  }
+
+  /**
+   * Multi-turn conversation
+   */
+  public async chat(messages: ChatMessage[], options?: GenerationOptions): Promise<string> {
+    const response = await this.chatResponse(messages, options);
+    return response.content;
+  }
+
+  /**
+   * Structured data generation (JSON mode)
+   */
+  public async generateStructured<T>(
+    prompt: string,
+    schema: GenerationSchema,
+    options?: GenerationOptions
+  ): Promise<T> {
+    this.validatePrompt(prompt);
+    this.validateGenerationOptions(options);
+
+    // JSON mode requires the word "JSON" in the conversation, and the schema is not enforced by it
+    const structuredPrompt = `${prompt}\n\nPlease respond with valid JSON that matches this schema:\n${JSON.stringify(schema, null, 2)}\n\nResponse:`;
+
+    const response = await this.completeMessages(
+      [{ role: 'user', content: structuredPrompt }],
+      options,
+      { response_format: { type: 'json_object' } }
+    );
+
+    // Local models sometimes wrap JSON in markdown code blocks despite JSON mode
+    let jsonText = response.content.trim();
+    if (jsonText.startsWith('```json')) {
+      jsonText = jsonText.replace(/^```json\s*/, '').replace(/\s*```$/, '');
+    } else if (jsonText.startsWith('```')) {
+      jsonText = jsonText.replace(/^```\s*/, '').replace(/\s*```$/, '');
+    }
+
+    try {
+      return JSON.parse(jsonText) as T;
+    } catch (parseError) {
+      throw new ValidationError(
+        `Failed to parse JSON response: ${parseError instanceof Error ? parseError.message : 'Invalid JSON'}`,
+        'response',
+        'JSON_PARSE_ERROR'
+      );
+    }
+  }
+
+  /**
+   * Advanced response with metadata
+   */
+  public async generateResponse(prompt: string, options?: GenerationOptions): Promise<AIResponse> {
+    this.validatePrompt(prompt);
+    this.validateGenerationOptions(options);
+
+    return this.completeMessages([{ role: 'user', content: prompt }], options);
+  }
+
+  /**
+   * Multi-turn conversation with full response metadata
+   */
+  public async chatResponse(messages: ChatMessage[], options?: GenerationOptions): Promise<AIResponse> {
+    if (!messages || messages.length === 0) {
+      throw new ValidationError('Messages array cannot be empty', 'messages');
+    }
+
+    this.validateGenerationOptions(options);
+
+    return this.completeMessages(this.convertMessages(messages), options);
+  }
+
+  /**
+   * Map Chat Completions finish reason to our standard format
+   */
+  private mapFinishReason(reason?: string | null): AIResponse['finishReason'] {
+    switch (reason) {
+      case 'length':
+        return 'length';
+      case 'content_filter':
+        return 'content_filter';
+      case 'tool_calls':
+      case 'function_call':
+        return 'function_call';
+      default:
+        return 'stop';
+    }
+  }
+}
@@ -0,0 +1,258 @@
+/**
+ * Record/replay AI provider implementation
+ *
+ * In record mode every request is forwarded to an upstream provider and the response is
+ * written to a JSON fixture keyed by a hash of the built prompt. In replay mode responses
+ * are served from those fixtures only, so AI pipelines can run deterministically in tests
+ * and CI without network access or API keys.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { BaseProvider } from './BaseProvider';
+import {
+  IAIProvider,
+  ChatMessage,
+  GenerationOptions,
+  ModelInfo,
+  AIProviderConfig,
+  AIResponse,
+  GenerationSchema,
+  ReplayConfig,
+  AIError,
+  ValidationError
+} from '../interfaces';
+
+/**
+ * Request kinds that share a fixture (generateText and generateResponse return the same data)
+ */
+type ReplayRequestKind = 'text' | 'chat' | 'structured';
+
+/**
+ * Fixture file stored for each recorded prompt
+ */
+export interface ReplayFixture {
+  key: string;
+  kind: ReplayRequestKind;
+  request: {
+    prompt?: string;
+    messages?: ChatMessage[];
+    schema?: GenerationSchema;
+  };
+  response: Omit<AIResponse, 'metadata'>;
+}
+
+/**
+ * Replay provider implementation
+ */
+export class ReplayProvider extends BaseProvider {
+  private replayConfig: ReplayConfig;
+  private upstream?: IAIProvider;
+
+  constructor(config: AIProviderConfig, upstream?: IAIProvider) {
+    super(config);
+    this.replayConfig = config.replay!;
+    this.upstream = upstream;
+
+    if (this.replayConfig.mode === 'record' && !this.upstream) {
+      throw new ValidationError('Record mode requires an upstream provider', 'replay.upstream');
+    }
+  }
+
+  /**
+   * Validate replay configuration (no API key is needed to replay fixtures)
+   */
+  protected validateConfig(config: AIProviderConfig): void {
+    if (!config.replay) {
+      throw new ValidationError('Replay configuration is required', 'replay');
+    }
+
+    if (config.replay.mode !== 'record' && config.replay.mode !== 'replay') {
+      throw new ValidationError(`Invalid replay mode: ${config.replay.mode}`, 'replay.mode');
+    }
+
+    if (!config.replay.fixturesDir || config.replay.fixturesDir.trim() === '') {
+      throw new ValidationError('Replay fixtures directory is required', 'replay.fixturesDir');
+    }
+  }
+
+  /**
+   * Initialize model information
+   */
+  protected initializeModelInfo(): ModelInfo {
+    return {
+      name: this.config.model || this.config.replay?.upstream?.model || 'replay',
+      provider: 'replay',
+      supportedFeatures: [
+        'text-generation',
+        'chat',
+        'structured-output',
+        'record-replay'
+      ]
+    };
+  }
+
+  /**
+   * Get the current record/replay mode
+   */
+  public getMode(): ReplayConfig['mode'] {
+    return this.replayConfig.mode;
+  }
+
+  /**
+   * Compute the fixture key for a request
+   * Generation options are left out so tuning temperature does not invalidate recordings
+   */
+  public static computeKey(kind: ReplayRequestKind, request: ReplayFixture['request']): string {
+    return crypto
+      .createHash('sha256')
+      .update(JSON.stringify({ kind, ...request }))
+      .digest('hex');
+  }
+
+  /**
+   * Get the fixture file path for a key
+   */
+  private getFixturePath(kind: ReplayRequestKind, key: string): string {
+    return path.join(this.replayConfig.fixturesDir, `${kind}-${key.slice(0, 16)}.json`);
+  }
+
+  /**
+   * Drop upstream metadata (timestamps) so re-recording an unchanged response gives an identical fixture
+   */
+  private toFixtureResponse(response: AIResponse): ReplayFixture['response'] {
+    return {
+      content: response.content,
+      model: response.model,
+      usage: response.usage,
+      finishReason: response.finishReason
+    };
+  }
+
+  /**
+   * Serve a request from its fixture, or record it from the upstream provider
+   */
+  private async resolve(
+    kind: ReplayRequestKind,
+    request: ReplayFixture['request'],
+    record: (upstream: IAIProvider) => Promise<Omit<AIResponse, 'metadata'>>
+  ): Promise<AIResponse> {
+    const key = ReplayProvider.computeKey(kind, request);
+    const fixturePath = this.getFixturePath(kind, key);
+
+    let fixture: ReplayFixture;
+
+    if (this.replayConfig.mode === 'record') {
+      fixture = { key, kind, request, response: await record(this.upstream!) };
+
+      fs.mkdirSync(this.replayConfig.fixturesDir, { recursive: true });
+      fs.writeFileSync(fixturePath, JSON.stringify(fixture, null, 2) + '\n', 'utf-8');
+    } else {
+      if (!fs.existsSync(fixturePath)) {
+        throw new AIError(
+          `No replay fixture for ${kind} request ${key.slice(0, 16)} (expected ${fixturePath}). ` +
+            'The prompt changed or was never recorded - re-run with AI_REPLAY_MODE=record to capture it.',
+          undefined,
+          'REPLAY_FIXTURE_MISSING'
+        );
+      }
+
+      fixture = JSON.parse(fs.readFileSync(fixturePath, 'utf-8')) as ReplayFixture;
+    }
+
+    return {
+      ...fixture.response,
+      metadata: {
+        provider: 'replay',
+        mode: this.replayConfig.mode,
+        fixture: path.basename(fixturePath)
+      }
+    };
+  }
+
+  /**
+   * Single-turn text generation
+   */
+  public async generateText(prompt: string, options?: GenerationOptions): Promise<string> {
+    const response = await this.generateResponse(prompt, options);
+    return response.content;
+  }
+
+  /**
+   * Multi-turn conversation
+   */
+  public async chat(messages: ChatMessage[], options?: GenerationOptions): Promise<string> {
+    const response = await this.chatResponse(messages, options);
+    return response.content;
+  }
+
+  /**
+   * Structured data generation (JSON)
+   * The parsed upstream result is stored as JSON text in the fixture content
+   */
+  public async generateStructured<T>(
+    prompt: string,
+    schema: GenerationSchema,
+    options?: GenerationOptions
+  ): Promise<T> {
+    this.validatePrompt(prompt);
+    this.validateGenerationOptions(options);
+
+    const response = await this.resolve('structured', { prompt, schema }, async upstream => {
+      const result = await upstream.generateStructured<T>(prompt, schema, options);
+      return {
+        content: JSON.stringify(result),
+        model: upstream.getModelInfo().name
+      };
+    });
+
+    return JSON.parse(response.content) as T;
+  }
+
+  /**
+   * Advanced response with metadata
+   */
+  public async generateResponse(prompt: string, options?: GenerationOptions): Promise<AIResponse> {
+    this.validatePrompt(prompt);
+    this.validateGenerationOptions(options);
+
+    return this.resolve('text', { prompt }, async upstream =>
+      this.toFixtureResponse(await upstream.generateResponse(prompt, options))
+    );
+  }
+
+  /**
+   * Multi-turn conversation with full response metadata
+   */
+  public async chatResponse(messages: ChatMessage[], options?: GenerationOptions): Promise<AIResponse> {
+    if (!messages || messages.length === 0) {
+      throw new ValidationError('Messages array cannot be empty', 'messages');
+    }
+
+    this.validateGenerationOptions(options);
+
+    return this.resolve('chat', { messages }, async upstream =>
+      this.toFixtureResponse(await upstream.chatResponse(messages, options))
+    );
+  }
+
+  /**
+   * Test the provider connection
+   * Replay mode never touches the network, so only the upstream is tested when recording
+   */
+  public async testConnection(): Promise<boolean> {
+    return this.upstream ? this.upstream.testConnection() : true;
+  }
+
+  /**
+   * Check if provider is ready
+   */
+  public async isReady(): Promise<boolean> {
+    if (this.replayConfig.mode === 'record') {
+      return this.upstream!.isReady();
+    }
+
+    return fs.existsSync(this.replayConfig.fixturesDir);
+  }
+}
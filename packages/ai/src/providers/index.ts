@@ -4,9 +4,14 @@
 
 export { BaseProvider } from './BaseProvider';
 export { GeminiProvider } from './GeminiProvider';
+export { OpenAICompatibleProvider } from './OpenAICompatibleProvider';
+export { ReplayProvider } from './ReplayProvider';
+export type { ReplayFixture } from './ReplayProvider';
 
 // Default export for CommonJS compatibility
 export default {
   BaseProvider: require('./BaseProvider').BaseProvider,
-  GeminiProvider: require('./GeminiProvider').GeminiProvider
+  GeminiProvider: require('./GeminiProvider').GeminiProvider,
+  OpenAICompatibleProvider: require('./OpenAICompatibleProvider').OpenAICompatibleProvider,
+  ReplayProvider: require('./ReplayProvider').ReplayProvider
 };
@@ -0,0 +1,350 @@
+/**
+ * Migration tests
+ *
+ * Runs every migration up and down against an in-memory SQLite database
+ */
+
+import { createClient, type Client } from '@libsql/client';
+import { Kysely, sql } from 'kysely';
+import { LibsqlDialect } from 'kysely-libsql';
+import { MigrationRunner } from '../migrator';
+import { MIGRATIONS, Migration } from '../migrations';
+import { DatabaseService, IN_MEMORY_DB_PATH } from '../database';
+import { parseArgs } from '../scripts/migrate';
+
+async function listSchemaObjects(db: Kysely<any>): Promise<string[]> {
+  const result = await sql<{ name: string }>`
+    SELECT name FROM sqlite_master
+    WHERE type IN ('table', 'index', 'trigger') AND name NOT LIKE 'sqlite_%'
+    ORDER BY name
+  `.execute(db);
+  return result.rows.map(row => row.name);
+}
+
+describe('MigrationRunner', () => {
+  let client: Client;
+  let db: Kysely<any>;
+
+  beforeEach(() => {
+    client = createClient({ url: IN_MEMORY_DB_PATH });
+    db = new Kysely<any>({ dialect: new LibsqlDialect({ client }) });
+  });
+
+  afterEach(async () => {
+    await db.destroy();
+    client.close();
+  });
+
+  it('should have sequential migration versions starting at 1', () => {
+    expect(MIGRATIONS.map(migration => migration.version))
+      .toEqual(MIGRATIONS.map((_, index) => index + 1));
+  });
+
+  it('should apply every migration and record it in schema_migrations', async () => {
+    const runner = new MigrationRunner(db);
+
+    const applied = await runner.migrate();
+
+    expect(applied).toHaveLength(MIGRATIONS.length);
+    expect(await runner.getCurrentVersion()).toBe(MIGRATIONS[MIGRATIONS.length - 1].version);
+    expect(await listSchemaObjects(db)).toEqual(expect.arrayContaining([
+      'schema_migrations', 'vehicles', 'vehicles_updated_at', 'idx_vehicles_status',
+    ]));
+
+    const statuses = await runner.status();
+    expect(statuses.every(status => status.applied && status.appliedAt)).toBe(true);
+  });
+
+  it('should be idempotent when re-run', async () => {
+    const runner = new MigrationRunner(db);
+    await runner.migrate();
+
+    expect(await runner.migrate()).toHaveLength(0);
+  });
+
+  it('should roll every migration back down to an empty schema and re-apply it', async () => {
+    const runner = new MigrationRunner(db);
+    await runner.migrate();
+
+    // Step down one migration at a time so each down() is exercised on its own
+    for (let version = MIGRATIONS.length; version > 0; version--) {
+      const [reverted] = await runner.rollback();
+      expect(reverted.version).toBe(version);
+      expect(await runner.getCurrentVersion()).toBe(version - 1);
+    }
+
+    expect(await listSchemaObjects(db)).toEqual(['schema_migrations']);
+    expect(await runner.rollback()).toHaveLength(0);
+
+    await runner.migrate();
+    expect(await runner.getCurrentVersion()).toBe(MIGRATIONS.length);
+  });
+
+  it('should migrate up to a target version', async () => {
+    const runner = new MigrationRunner(db);
+
+    await runner.migrate(1);
+
+    expect(await runner.getCurrentVersion()).toBe(1);
+    expect((await runner.status()).filter(status => !status.applied))
+      .toHaveLength(MIGRATIONS.length - 1);
+  });
+
+  it('should leave the schema untouched when a migration fails', async () => {
+    const failing: Migration = {
+      version: MIGRATIONS.length + 1,
+      name: 'failing',
+      async up(db) {
+        await sql`CREATE TABLE half_done (id INTEGER)`.execute(db);
+        await sql`INSERT INTO missing_table VALUES (1)`.execute(db);
+      },
+      async down() {},
+    };
+    const runner = new MigrationRunner(db, [...MIGRATIONS, failing]);
+
+    await expect(runner.migrate()).rejects.toThrow(/failing up failed/);
+
+    expect(await runner.getCurrentVersion()).toBe(MIGRATIONS.length);
+    expect(await listSchemaObjects(db)).not.toContain('half_done');
+  });
+
+  it('should reject duplicate migration versions', () => {
+    expect(() => new MigrationRunner(db, [MIGRATIONS[0], MIGRATIONS[0]]))
+      .toThrow('Duplicate migration version: 1');
+  });
+
+  it('should adopt a database created before versioned migrations', async () => {
+    await MIGRATIONS[0].up(db);
+    await sql`
+      INSERT INTO vehicles (source, sourceId, sourceUrl, sourceCreatedAt, sourceTitle, sourceDescriptionHtml,
+        title, pricePln, priceEur, year, mileage, scrapedAt)
+      VALUES ('otomoto', '1', 'https://otomoto.pl/1', '2024-01-01', 'Van', '<p></p>',
+        'Van', 50000, 11500, 2018, 150000, '2024-01-01')
+    `.execute(db);
+
+    await new MigrationRunner(db).migrate();
+
+    const rows = await db.selectFrom('vehicles').select('sourceUrl').execute();
+    expect(rows).toEqual([{ sourceUrl: 'https://otomoto.pl/1' }]);
+
+    // Migration 002 records a baseline snapshot for existing vehicles
+    const snapshots = await db.selectFrom('vehicle_snapshots').select(['pricePln', 'photoCount', 'capturedAt']).execute();
+    expect(snapshots).toEqual([{ pricePln: 50000, photoCount: 0, capturedAt: '2024-01-01' }]);
+  });
+
+  it('should keep vehicles and their snapshots when rebuilding the vehicles table', async () => {
+    const runner = new MigrationRunner(db);
+    await runner.migrate(2);
+    await sql`
+      INSERT INTO vehicles (id, source, sourceId, sourceUrl, sourceCreatedAt, sourceTitle, sourceDescriptionHtml,
+        title, pricePln, priceEur, year, mileage, scrapedAt)
+      VALUES ('v1', 'otomoto', '1', 'https://otomoto.pl/1', '2024-01-01', 'Van', '<p></p>',
+        'Van', 50000, 11500, 2018, 150000, '2024-01-05')
+    `.execute(db);
+    await sql`
+      INSERT INTO vehicle_snapshots (vehicleId, pricePln, priceEur, mileage, title, descriptionHash, photoCount, capturedAt)
+      VALUES ('v1', 50000, 11500, 150000, 'Van', 'hash', 0, '2024-01-05')
+    `.execute(db);
+
+    await runner.migrate(3);
+
+    // Migration 003 backfills lastSeenAt and accepts the lifecycle statuses
+    const vehicle = await db.selectFrom('vehicles').select(['lastSeenAt', 'delistedAt']).executeTakeFirst();
+    expect(vehicle).toEqual({ lastSeenAt: '2024-01-05', delistedAt: null });
+    await sql`UPDATE vehicles SET status = 'sold' WHERE id = 'v1'`.execute(db);
+    expect(await db.selectFrom('vehicle_snapshots').select('vehicleId').execute()).toEqual([{ vehicleId: 'v1' }]);
+    expect((await sql<{ foreign_keys: number }>`PRAGMA foreign_keys`.execute(db)).rows[0].foreign_keys).toBe(1);
+
+    // Rolling back maps delisted statuses to not_interested
+    await runner.rollback();
+    const rolledBack = await db.selectFrom('vehicles').select('status').executeTakeFirst();
+    expect(rolledBack).toEqual({ status: 'not_interested' });
+    expect(await db.selectFrom('vehicle_snapshots').select('vehicleId').execute()).toEqual([{ vehicleId: 'v1' }]);
+  });
+
+  it('should add duplicate clusters that cascade with their vehicles', async () => {
+    const runner = new MigrationRunner(db);
+    await runner.migrate(4);
+    await sql`
+      INSERT INTO vehicles (id, source, sourceId, sourceUrl, sourceCreatedAt, sourceTitle, sourceDescriptionHtml,
+        title, pricePln, priceEur, year, mileage, scrapedAt)
+      VALUES ('v1', 'otomoto', '1', 'https://otomoto.pl/1', '2024-01-01', 'Van', '<p></p>',
+        'Van', 50000, 11500, 2018, 150000, '2024-01-05')
+    `.execute(db);
+    await sql`
+      INSERT INTO vehicle_duplicates (vehicleId, clusterId, isPrimary, matchScore, detectedAt)
+      VALUES ('v1', 'v1', 1, 1, '2024-01-06')
+    `.execute(db);
+
+    // Migration 004 leaves photo hashes unset until the photos are hashed
+    expect(await db.selectFrom('vehicles').select('photoHashes').executeTakeFirst()).toEqual({ photoHashes: null });
+
+    await sql`DELETE FROM vehicles WHERE id = 'v1'`.execute(db);
+    expect(await db.selectFrom('vehicle_duplicates').selectAll().execute()).toEqual([]);
+
+    await runner.rollback();
+    expect(await listSchemaObjects(db)).not.toContain('vehicle_duplicates');
+  });
+
+  it('should copy existing fit scores to the default criteria profile', async () => {
+    const runner = new MigrationRunner(db);
+    await runner.migrate(4);
+    await sql`
+      INSERT INTO vehicles (id, source, sourceId, sourceUrl, sourceCreatedAt, sourceTitle, sourceDescriptionHtml,
+        title, pricePln, priceEur, year, mileage, personalFitScore, scrapedAt, updatedAt)
+      VALUES
+        ('v1', 'otomoto', '1', 'https://otomoto.pl/1', '2024-01-01', 'Van', '<p></p>',
+          'Van', 50000, 11500, 2018, 150000, 7.5, '2024-01-05', '2024-01-06'),
+        ('v2', 'otomoto', '2', 'https://otomoto.pl/2', '2024-01-01', 'Van', '<p></p>',
+          'Van', 50000, 11500, 2018, 150000, NULL, '2024-01-05', '2024-01-06')
+    `.execute(db);
+
+    await runner.migrate(5);
+
+    expect(await db.selectFrom('vehicle_fit_scores').selectAll().execute()).toEqual([
+      { vehicleId: 'v1', profileId: 'default', score: 7.5, scoredAt: '2024-01-06' },
+    ]);
+
+    await sql`DELETE FROM vehicles WHERE id = 'v1'`.execute(db);
+    expect(await db.selectFrom('vehicle_fit_scores').selectAll().execute()).toEqual([]);
+
+    await runner.rollback();
+    expect(await listSchemaObjects(db)).not.toContain('vehicle_fit_scores');
+  });
+
+  it('should backfill price changes from snapshots and log later changes by trigger', async () => {
+    const runner = new MigrationRunner(db);
+    await runner.migrate(12);
+    await sql`
+      INSERT INTO vehicles (id, source, sourceId, sourceUrl, sourceCreatedAt, sourceTitle, sourceDescriptionHtml,
+        title, pricePln, priceEur, year, mileage, scrapedAt)
+      VALUES ('v1', 'otomoto', '1', 'https://otomoto.pl/1', '2024-01-01', 'Van', '<p></p>',
+        'Van', 48000, 11040, 2018, 150000, '2024-02-05')
+    `.execute(db);
+    await sql`
+      INSERT INTO vehicle_snapshots (vehicleId, pricePln, priceEur, mileage, title, descriptionHash, photoCount, capturedAt)
+      VALUES
+        ('v1', 50000, 11500, 150000, 'Van', 'hash', 0, '2024-01-05'),
+        ('v1', 50000, 11500, 151000, 'Van', 'hash', 0, '2024-01-20'),
+        ('v1', 48000, 11040, 151000, 'Van', 'hash', 0, '2024-02-05')
+    `.execute(db);
+
+    await runner.migrate(13);
+
+    const events = () => db.selectFrom('vehicle_events').select(['type', 'fromValue', 'toValue']).orderBy(sql`rowid`).execute();
+    expect(await events()).toEqual([{ type: 'price_change', fromValue: '50000', toValue: '48000' }]);
+
+    // Unchanged values and the updatedAt trigger do not add events
+    await sql`UPDATE vehicles SET status = 'to_contact', mileage = 152000 WHERE id = 'v1'`.execute(db);
+    await sql`UPDATE vehicles SET status = 'to_contact', personalNotes = 'Call Monday' WHERE id = 'v1'`.execute(db);
+    expect((await events()).slice(1)).toEqual([
+      { type: 'status_change', fromValue: 'new', toValue: 'to_contact' },
+      { type: 'note_edit', fromValue: null, toValue: 'Call Monday' },
+    ]);
+
+    await expect(sql`UPDATE vehicle_events SET toValue = 'sold'`.execute(db)).rejects.toThrow('append-only');
+
+    await runner.rollback();
+    expect(await listSchemaObjects(db)).not.toContain('vehicle_events');
+    expect(await listSchemaObjects(db)).not.toContain('vehicle_events_status');
+  });
+
+  it('should replace the source CHECK with a reference to registered vehicle sources', async () => {
+    const runner = new MigrationRunner(db);
+    await runner.migrate(15);
+    await sql`
+      INSERT INTO vehicles (id, source, sourceId, sourceUrl, sourceCreatedAt, sourceTitle, sourceDescriptionHtml,
+        title, pricePln, priceEur, year, mileage, scrapedAt, make)
+      VALUES ('v1', 'olx', '1', 'https://olx.pl/1', '2024-01-01', 'Van', '<p></p>',
+        'Van', 50000, 11500, 2018, 150000, '2024-01-05', 'Renault')
+    `.execute(db);
+    const schemaBefore = await listSchemaObjects(db);
+
+    await runner.migrate(16);
+
+    // Columns added after 003, indexes and triggers survive the rebuild
+    expect(await db.selectFrom('vehicles').select(['id', 'make']).execute()).toEqual([{ id: 'v1', make: 'Renault' }]);
+    expect(await listSchemaObjects(db)).toEqual([...schemaBefore, 'vehicle_sources'].sort());
+    expect(await db.selectFrom('vehicle_sources').select(['key', 'name']).orderBy('key').execute())
+      .toEqual([{ key: 'olx', name: 'OLX' }, { key: 'otomoto', name: 'Otomoto' }]);
+    await sql`UPDATE vehicles SET status = 'to_contact' WHERE id = 'v1'`.execute(db);
+    expect(await db.selectFrom('vehicle_events').select('type').execute()).toEqual([{ type: 'status_change' }]);
+
+    const insertVehicle = (source: string) => sql`
+      INSERT INTO vehicles (source, sourceId, sourceUrl, sourceCreatedAt, sourceTitle, sourceDescriptionHtml,
+        title, pricePln, priceEur, year, mileage, scrapedAt)
+      VALUES (${source}, '2', ${`https://${source}.example/2`}, '2024-01-01', 'Van', '<p></p>',
+        'Van', 50000, 11500, 2018, 150000, '2024-01-05')
+    `.execute(db);
+    await expect(insertVehicle('autoscout24')).rejects.toThrow(/FOREIGN KEY/);
+    await sql`INSERT INTO vehicle_sources (key, name) VALUES ('autoscout24', 'AutoScout24')`.execute(db);
+    await insertVehicle('autoscout24');
+
+    // The old CHECK cannot hold vehicles from added sources
+    await expect(runner.rollback()).rejects.toThrow('Vehicles from added sources exist: autoscout24');
+    await sql`DELETE FROM vehicles WHERE source = 'autoscout24'`.execute(db);
+    await runner.rollback();
+    expect(await listSchemaObjects(db)).toEqual(schemaBefore);
+    await expect(insertVehicle('autoscout24')).rejects.toThrow(/CHECK/);
+  });
+
+  it('should move vehicles delisted by the liveness check to their listing state', async () => {
+    const runner = new MigrationRunner(db);
+    await runner.migrate(16);
+    await sql`
+      INSERT INTO vehicles (id, source, sourceId, sourceUrl, sourceCreatedAt, sourceTitle, sourceDescriptionHtml,
+        title, pricePln, priceEur, year, mileage, scrapedAt, status, delistedAt)
+      VALUES
+        ('v1', 'otomoto', '1', 'https://otomoto.pl/1', '2024-01-01', 'Van', '<p></p>',
+          'Van', 50000, 11500, 2018, 150000, '2024-01-05', 'sold', '2024-02-01'),
+        ('v2', 'otomoto', '2', 'https://otomoto.pl/2', '2024-01-01', 'Van', '<p></p>',
+          'Van', 50000, 11500, 2018, 150000, '2024-01-05', 'sold', NULL),
+        ('v3', 'otomoto', '3', 'https://otomoto.pl/3', '2024-01-01', 'Van', '<p></p>',
+          'Van', 50000, 11500, 2018, 150000, '2024-01-05', 'to_visit', NULL)
+    `.execute(db);
+
+    await runner.migrate(17);
+
+    // Only liveness delistings (with delistedAt) move; a status the user set stays a workflow status
+    expect(await db.selectFrom('vehicles').select(['id', 'status', 'listingState']).orderBy('id').execute()).toEqual([
+      { id: 'v1', status: 'sold', listingState: 'sold' },
+      { id: 'v2', status: 'sold', listingState: 'active' },
+      { id: 'v3', status: 'to_visit', listingState: 'active' },
+    ]);
+    await expect(sql`UPDATE vehicles SET listingState = 'to_visit' WHERE id = 'v3'`.execute(db)).rejects.toThrow(/CHECK/);
+
+    await runner.rollback();
+    expect(await db.selectFrom('vehicles').select(['id', 'status']).orderBy('id').execute()).toEqual([
+      { id: 'v1', status: 'sold' },
+      { id: 'v2', status: 'sold' },
+      { id: 'v3', status: 'to_visit' },
+    ]);
+  });
+});
+
+describe('DatabaseService migrations', () => {
+  it('should migrate an in-memory database to the latest version on initialize', async () => {
+    const dbService = new DatabaseService(IN_MEMORY_DB_PATH);
+    await dbService.initialize();
+
+    const runner = new MigrationRunner(dbService.getDatabase());
+    expect(await runner.getCurrentVersion()).toBe(MIGRATIONS.length);
+
+    await dbService.close();
+  });
+});
+
+describe('migrate script arguments', () => {
+  it('should default to migrating', () => {
+    expect(parseArgs([])).toEqual({ command: 'migrate', steps: 1 });
+  });
+
+  it('should parse rollback steps and target versions', () => {
+    expect(parseArgs(['rollback', '--steps', '2'])).toEqual({ command: 'rollback', steps: 2 });
+    expect(parseArgs(['--to', '1'])).toEqual({ command: 'migrate', to: 1, steps: 1 });
+  });
+
+  it('should reject unknown arguments', () => {
+    expect(() => parseArgs(['sideways'])).toThrow('Unknown argument: sideways');
+  });
+});
@@ -1,10 +1,14 @@
 import { createClient, type Client } from '@libsql/client';
-import { Kysely, sql } from 'kysely';
-import { LibsqlDialect } from 'kysely-libsql';
-import { Database as DatabaseSchema, SCHEMA_STATEMENTS } from './schema';
+import { Kysely } from 'kysely';
+import { Database as DatabaseSchema } from './schema';
+import { MigrationRunner } from './migrator';
+import { SerializedLibsqlDialect } from './dialect';
 import path from 'path';
 import fs from 'fs';
 
+// Special path for a throwaway in-memory database (used by tests)
+export const IN_MEMORY_DB_PATH = ':memory:';
+
 export class DatabaseService {
   private db: Kysely<DatabaseSchema> | null = null;
   private sqliteDb: Client | null = null;
@@ -43,30 +47,32 @@ export class DatabaseService {
   }
 
   /**
-   * Initialize the database connection and create schema if needed
+   * Initialize the database connection and apply pending migrations
    */
   async initialize(): Promise<void> {
     try {
+      const inMemory = this.dbPath === IN_MEMORY_DB_PATH;
+
       // Ensure the directory exists
       const dbDir = path.dirname(this.dbPath);
-      if (!fs.existsSync(dbDir)) {
+      if (!inMemory && !fs.existsSync(dbDir)) {
         fs.mkdirSync(dbDir, { recursive: true });
       }
 
       // Create LibSQL database connection
       this.sqliteDb = createClient({
-        url: `file:${this.dbPath}`
+        url: inMemory ? IN_MEMORY_DB_PATH : `file:${this.dbPath}`
       });
       
-      // Create Kysely instance with official LibSQL dialect
+      // Create Kysely instance with the LibSQL dialect, one query or transaction at a time
       this.db = new Kysely<DatabaseSchema>({
-        dialect: new LibsqlDialect({
+        dialect: new SerializedLibsqlDialect({
           client: this.sqliteDb,
         }),
       });
 
-      // Create schema (tables, indexes, triggers)
-      await this.createSchema();
+      // Bring the schema up to the latest version
+      await this.migrate();
       
       console.log(`✅ Database initialized successfully at: ${this.dbPath}`);
     } catch (error) {
@@ -76,21 +82,19 @@ export class DatabaseService {
   }
 
   /**
-   * Create database schema (tables, indexes, triggers)
+   * Apply all pending schema migrations
    */
-  private async createSchema(): Promise<void> {
+  private async migrate(): Promise<void> {
     if (!this.db) {
       throw new Error('Database not initialized. Call initialize() first.');
     }
 
     try {
-      for (const statement of SCHEMA_STATEMENTS) {
-        await sql`${sql.raw(statement)}`.execute(this.db);
-      }
-      console.log('✅ Database schema created successfully');
+      const applied = await new MigrationRunner(this.db).migrate();
+      console.log(`✅ Database schema up to date (${applied.length} migration(s) applied)`);
     } catch (error) {
-      console.error('❌ Failed to create database schema:', error);
-      throw new Error(`Schema creation failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      console.error('❌ Failed to migrate database schema:', error);
+      throw new Error(`Schema migration failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
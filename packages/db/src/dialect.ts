@@ -0,0 +1,83 @@
+import { CompiledQuery, DatabaseConnection, Driver, TransactionSettings } from 'kysely';
+import { LibsqlDialect } from 'kysely-libsql';
+
+/**
+ * LibSQL dialect that hands the connection to one query or transaction at a time
+ *
+ * Every API request shares one libsql client. kysely-libsql runs a transaction on a connection
+ * of its own, so a write from another request while it is open fails with SQLITE_BUSY, and a raw
+ * BEGIN on the shared connection would pull that write into the transaction. Like Kysely's
+ * SqliteDriver, this driver queues connection use behind a mutex instead: a transaction runs
+ * alone with BEGIN/COMMIT on the shared connection and other queries wait until it is done.
+ */
+export class SerializedLibsqlDialect extends LibsqlDialect {
+  createDriver(): Driver {
+    return new SerializedDriver(super.createDriver());
+  }
+}
+
+class SerializedDriver implements Driver {
+  private readonly mutex = new ConnectionMutex();
+
+  constructor(private readonly driver: Driver) {}
+
+  async init(): Promise<void> {
+    await this.driver.init();
+  }
+
+  async acquireConnection(): Promise<DatabaseConnection> {
+    await this.mutex.lock();
+    try {
+      return await this.driver.acquireConnection();
+    } catch (error) {
+      this.mutex.unlock();
+      throw error;
+    }
+  }
+
+  async beginTransaction(connection: DatabaseConnection, _settings: TransactionSettings): Promise<void> {
+    await connection.executeQuery(CompiledQuery.raw('BEGIN IMMEDIATE'));
+  }
+
+  async commitTransaction(connection: DatabaseConnection): Promise<void> {
+    await connection.executeQuery(CompiledQuery.raw('COMMIT'));
+  }
+
+  async rollbackTransaction(connection: DatabaseConnection): Promise<void> {
+    await connection.executeQuery(CompiledQuery.raw('ROLLBACK'));
+  }
+
+  async releaseConnection(connection: DatabaseConnection): Promise<void> {
+    try {
+      await this.driver.releaseConnection(connection);
+    } finally {
+      this.mutex.unlock();
+    }
+  }
+
+  async destroy(): Promise<void> {
+    await this.driver.destroy();
+  }
+}
+
+class ConnectionMutex {
+  private locked?: Promise<void>;
+  private release?: () => void;
+
+  async lock(): Promise<void> {
+    while (this.locked) {
+      await this.locked;
+    }
+
+    this.locked = new Promise(resolve => {
+      this.release = resolve;
+    });
+  }
+
+  unlock(): void {
+    const release = this.release;
+    this.locked = undefined;
+    this.release = undefined;
+    release?.();
+  }
+}
@@ -1,7 +1,11 @@
 // Main exports for the database package
-export { DatabaseService } from './database';
+export { DatabaseService, IN_MEMORY_DB_PATH } from './database';
+export { MigrationRunner, SCHEMA_MIGRATIONS_TABLE } from './migrator';
+export { MIGRATIONS } from './migrations';
+export type { Migration, MigrationStatus } from './migrations';
 export { VehicleRepository } from './repositories/vehicleRepository';
 export * from './schema';
+export { hashDescription } from './snapshots';
 
 // Re-export types for convenience
 export type { Vehicle as VehicleType } from '@car-finder/types';
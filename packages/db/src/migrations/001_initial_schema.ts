@@ -0,0 +1,93 @@
+import { Kysely, sql } from 'kysely';
+import { Migration } from './types';
+
+/**
+ * Migration 001 - Initial schema
+ *
+ * Creates the vehicles table, its indexes and the updatedAt trigger. Statements use
+ * IF NOT EXISTS so databases created before versioned migrations adopt it as-is.
+ */
+
+const CREATE_VEHICLES_TABLE = `
+  CREATE TABLE IF NOT EXISTS vehicles (
+    id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+    
+    -- Source information
+    source TEXT NOT NULL CHECK (source IN ('otomoto', 'olx')),
+    sourceId TEXT NOT NULL,
+    sourceUrl TEXT NOT NULL UNIQUE,
+    sourceCreatedAt TEXT NOT NULL,
+    
+    -- Raw scraped data
+    sourceTitle TEXT NOT NULL,
+    sourceDescriptionHtml TEXT NOT NULL,
+    sourceParameters TEXT NOT NULL DEFAULT '{}',
+    sourceEquipment TEXT NOT NULL DEFAULT '{}',
+    sourcePhotos TEXT NOT NULL DEFAULT '[]',
+    
+    -- Processed & normalized data
+    title TEXT NOT NULL,
+    description TEXT, -- Nullable - translated by analyze script
+    features TEXT NOT NULL DEFAULT '[]',
+    pricePln REAL NOT NULL,
+    priceEur REAL NOT NULL,
+    year INTEGER NOT NULL,
+    mileage INTEGER NOT NULL,
+    
+    -- Seller information
+    sellerInfo TEXT NOT NULL DEFAULT '{}',
+    photos TEXT NOT NULL DEFAULT '[]',
+    
+    -- AI generated data (nullable)
+    personalFitScore REAL,
+    marketValueScore TEXT,
+    aiPriorityRating REAL,
+    aiPrioritySummary TEXT,
+    aiMechanicReport TEXT,
+    aiDataSanityCheck TEXT,
+    
+    -- User workflow data
+    status TEXT NOT NULL DEFAULT 'new' CHECK (status IN ('new', 'to_contact', 'contacted', 'to_visit', 'visited', 'not_interested', 'deleted')),
+    personalNotes TEXT,
+    
+    -- Timestamps
+    scrapedAt TEXT NOT NULL,
+    createdAt TEXT NOT NULL DEFAULT (datetime('now')),
+    updatedAt TEXT NOT NULL DEFAULT (datetime('now'))
+  )
+`;
+
+// Indexes for performance
+const CREATE_INDEXES = [
+  'CREATE INDEX IF NOT EXISTS idx_vehicles_source_url ON vehicles(sourceUrl)',
+  'CREATE INDEX IF NOT EXISTS idx_vehicles_status ON vehicles(status)',
+  'CREATE INDEX IF NOT EXISTS idx_vehicles_created_at ON vehicles(createdAt)',
+  'CREATE INDEX IF NOT EXISTS idx_vehicles_source ON vehicles(source)',
+  'CREATE INDEX IF NOT EXISTS idx_vehicles_price_eur ON vehicles(priceEur)',
+];
+
+// Trigger for auto-updating updatedAt timestamp
+const CREATE_UPDATE_TRIGGER = `
+  CREATE TRIGGER IF NOT EXISTS vehicles_updated_at
+  AFTER UPDATE ON vehicles
+  FOR EACH ROW
+  BEGIN
+    UPDATE vehicles SET updatedAt = datetime('now') WHERE id = NEW.id;
+  END
+`;
+
+export const migration001InitialSchema: Migration = {
+  version: 1,
+  name: 'initial_schema',
+
+  async up(db: Kysely<any>): Promise<void> {
+    for (const statement of [CREATE_VEHICLES_TABLE, ...CREATE_INDEXES, CREATE_UPDATE_TRIGGER]) {
+      await sql`${sql.raw(statement)}`.execute(db);
+    }
+  },
+
+  async down(db: Kysely<any>): Promise<void> {
+    await sql`DROP TRIGGER IF EXISTS vehicles_updated_at`.execute(db);
+    await sql`DROP TABLE IF EXISTS vehicles`.execute(db);
+  },
+};
@@ -0,0 +1,59 @@
+import { Kysely, sql } from 'kysely';
+import { Migration } from './types';
+import { hashDescription } from '../snapshots';
+
+/**
+ * Migration 002 - Vehicle snapshots
+ *
+ * Adds the vehicle_snapshots table used for price and listing history, and records
+ * a baseline snapshot for every existing vehicle from its current listing data.
+ */
+export const migration002VehicleSnapshots: Migration = {
+  version: 2,
+  name: 'vehicle_snapshots',
+
+  async up(db: Kysely<any>): Promise<void> {
+    await sql`
+      CREATE TABLE vehicle_snapshots (
+        id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+        vehicleId TEXT NOT NULL REFERENCES vehicles(id) ON DELETE CASCADE,
+        pricePln REAL NOT NULL,
+        priceEur REAL NOT NULL,
+        mileage INTEGER NOT NULL,
+        title TEXT NOT NULL,
+        descriptionHash TEXT NOT NULL,
+        photoCount INTEGER NOT NULL,
+        changedFields TEXT NOT NULL DEFAULT '[]',
+        capturedAt TEXT NOT NULL
+      )
+    `.execute(db);
+    await sql`CREATE INDEX idx_vehicle_snapshots_vehicle ON vehicle_snapshots(vehicleId, capturedAt)`.execute(db);
+
+    // Baseline snapshot per existing vehicle so history starts at the first scrape
+    const vehicles = await db
+      .selectFrom('vehicles')
+      .select(['id', 'pricePln', 'priceEur', 'mileage', 'sourceTitle', 'sourceDescriptionHtml', 'sourcePhotos', 'scrapedAt'])
+      .execute();
+
+    for (const vehicle of vehicles) {
+      await db
+        .insertInto('vehicle_snapshots')
+        .values({
+          vehicleId: vehicle.id,
+          pricePln: vehicle.pricePln,
+          priceEur: vehicle.priceEur,
+          mileage: vehicle.mileage,
+          title: vehicle.sourceTitle,
+          descriptionHash: hashDescription(vehicle.sourceDescriptionHtml),
+          photoCount: JSON.parse(vehicle.sourcePhotos).length,
+          changedFields: '[]',
+          capturedAt: vehicle.scrapedAt,
+        })
+        .execute();
+    }
+  },
+
+  async down(db: Kysely<any>): Promise<void> {
+    await sql`DROP TABLE IF EXISTS vehicle_snapshots`.execute(db);
+  },
+};
@@ -0,0 +1,155 @@
+import { Kysely, sql } from 'kysely';
+import { Migration } from './types';
+
+/**
+ * Migration 003 - Listing lifecycle
+ *
+ * Adds the 'sold' and 'removed' statuses plus the lastSeenAt/delistedAt columns used
+ * to detect listings that disappeared from the marketplace. SQLite cannot alter a CHECK
+ * constraint, so the vehicles table is rebuilt (create, copy, drop, rename) with foreign
+ * keys disabled to keep vehicle_snapshots intact.
+ */
+
+const BASE_STATUSES = ['new', 'to_contact', 'contacted', 'to_visit', 'visited', 'not_interested', 'deleted'];
+const LIFECYCLE_STATUSES = [...BASE_STATUSES, 'sold', 'removed'];
+
+// Columns shared by both versions of the table, in their original order
+const VEHICLE_COLUMNS = [
+  'id', 'source', 'sourceId', 'sourceUrl', 'sourceCreatedAt',
+  'sourceTitle', 'sourceDescriptionHtml', 'sourceParameters', 'sourceEquipment', 'sourcePhotos',
+  'title', 'description', 'features', 'pricePln', 'priceEur', 'year', 'mileage',
+  'sellerInfo', 'photos',
+  'personalFitScore', 'marketValueScore', 'aiPriorityRating', 'aiPrioritySummary', 'aiMechanicReport', 'aiDataSanityCheck',
+  'status', 'personalNotes',
+  'scrapedAt', 'createdAt', 'updatedAt',
+];
+
+function createVehiclesTable(tableName: string, statuses: string[], withLifecycle: boolean): string {
+  const statusList = statuses.map(status => `'${status}'`).join(', ');
+
+  return `
+    CREATE TABLE ${tableName} (
+      id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+
+      -- Source information
+      source TEXT NOT NULL CHECK (source IN ('otomoto', 'olx')),
+      sourceId TEXT NOT NULL,
+      sourceUrl TEXT NOT NULL UNIQUE,
+      sourceCreatedAt TEXT NOT NULL,
+
+      -- Raw scraped data
+      sourceTitle TEXT NOT NULL,
+      sourceDescriptionHtml TEXT NOT NULL,
+      sourceParameters TEXT NOT NULL DEFAULT '{}',
+      sourceEquipment TEXT NOT NULL DEFAULT '{}',
+      sourcePhotos TEXT NOT NULL DEFAULT '[]',
+
+      -- Processed & normalized data
+      title TEXT NOT NULL,
+      description TEXT, -- Nullable - translated by analyze script
+      features TEXT NOT NULL DEFAULT '[]',
+      pricePln REAL NOT NULL,
+      priceEur REAL NOT NULL,
+      year INTEGER NOT NULL,
+      mileage INTEGER NOT NULL,
+
+      -- Seller information
+      sellerInfo TEXT NOT NULL DEFAULT '{}',
+      photos TEXT NOT NULL DEFAULT '[]',
+
+      -- AI generated data (nullable)
+      personalFitScore REAL,
+      marketValueScore TEXT,
+      aiPriorityRating REAL,
+      aiPrioritySummary TEXT,
+      aiMechanicReport TEXT,
+      aiDataSanityCheck TEXT,
+
+      -- User workflow data
+      status TEXT NOT NULL DEFAULT 'new' CHECK (status IN (${statusList})),
+      personalNotes TEXT,
+
+      -- Timestamps
+      scrapedAt TEXT NOT NULL,
+      createdAt TEXT NOT NULL DEFAULT (datetime('now')),
+      updatedAt TEXT NOT NULL DEFAULT (datetime('now'))${withLifecycle ? `,
+
+      -- Marketplace lifecycle
+      lastSeenAt TEXT, -- Last time the listing appeared in search results
+      delistedAt TEXT -- When the liveness check found the listing sold or removed` : ''}
+    )
+  `;
+}
+
+const CREATE_INDEXES = [
+  'CREATE INDEX idx_vehicles_source_url ON vehicles(sourceUrl)',
+  'CREATE INDEX idx_vehicles_status ON vehicles(status)',
+  'CREATE INDEX idx_vehicles_created_at ON vehicles(createdAt)',
+  'CREATE INDEX idx_vehicles_source ON vehicles(source)',
+  'CREATE INDEX idx_vehicles_price_eur ON vehicles(priceEur)',
+];
+
+const CREATE_LAST_SEEN_INDEX = 'CREATE INDEX idx_vehicles_last_seen_at ON vehicles(lastSeenAt)';
+
+const CREATE_UPDATE_TRIGGER = `
+  CREATE TRIGGER vehicles_updated_at
+  AFTER UPDATE ON vehicles
+  FOR EACH ROW
+  BEGIN
+    UPDATE vehicles SET updatedAt = datetime('now') WHERE id = NEW.id;
+  END
+`;
+
+/**
+ * Rebuild the vehicles table from a SELECT over the current one
+ */
+async function rebuildVehiclesTable(
+  db: Kysely<any>,
+  createStatement: string,
+  columns: string[],
+  selectExpressions: string[],
+  extraStatements: string[]
+): Promise<void> {
+  await sql`${sql.raw(createStatement)}`.execute(db);
+  await sql`${sql.raw(
+    `INSERT INTO vehicles_rebuild (${columns.join(', ')}) SELECT ${selectExpressions.join(', ')} FROM vehicles`
+  )}`.execute(db);
+  await sql`DROP TABLE vehicles`.execute(db);
+  await sql`ALTER TABLE vehicles_rebuild RENAME TO vehicles`.execute(db);
+
+  for (const statement of [...CREATE_INDEXES, ...extraStatements, CREATE_UPDATE_TRIGGER]) {
+    await sql`${sql.raw(statement)}`.execute(db);
+  }
+}
+
+export const migration003ListingLifecycle: Migration = {
+  version: 3,
+  name: 'listing_lifecycle',
+  disableForeignKeys: true,
+
+  async up(db: Kysely<any>): Promise<void> {
+    // Every existing vehicle was last seen at its most recent scrape
+    await rebuildVehiclesTable(
+      db,
+      createVehiclesTable('vehicles_rebuild', LIFECYCLE_STATUSES, true),
+      [...VEHICLE_COLUMNS, 'lastSeenAt'],
+      [...VEHICLE_COLUMNS, 'scrapedAt'],
+      [CREATE_LAST_SEEN_INDEX]
+    );
+  },
+
+  async down(db: Kysely<any>): Promise<void> {
+    // Delisted vehicles fall back to not_interested, the closest pre-lifecycle status
+    await rebuildVehiclesTable(
+      db,
+      createVehiclesTable('vehicles_rebuild', BASE_STATUSES, false),
+      VEHICLE_COLUMNS,
+      VEHICLE_COLUMNS.map(column =>
+        column === 'status'
+          ? `CASE WHEN status IN ('sold', 'removed') THEN 'not_interested' ELSE status END`
+          : column
+      ),
+      []
+    );
+  },
+};
@@ -0,0 +1,36 @@
+import { Kysely, sql } from 'kysely';
+import { Migration } from './types';
+
+/**
+ * Migration 004 - Vehicle duplicates
+ *
+ * Adds the vehicle_duplicates table holding clusters of listings detected as the same
+ * vehicle (usually one car listed on both Otomoto and OLX), plus the photoHashes column
+ * caching perceptual hashes of each listing's photos for duplicate detection.
+ */
+export const migration004VehicleDuplicates: Migration = {
+  version: 4,
+  name: 'vehicle_duplicates',
+
+  async up(db: Kysely<any>): Promise<void> {
+    await sql`
+      CREATE TABLE vehicle_duplicates (
+        vehicleId TEXT PRIMARY KEY REFERENCES vehicles(id) ON DELETE CASCADE,
+        clusterId TEXT NOT NULL, -- ID of the cluster's primary vehicle
+        isPrimary INTEGER NOT NULL DEFAULT 0,
+        matchScore REAL NOT NULL,
+        matchReasons TEXT NOT NULL DEFAULT '[]',
+        detectedAt TEXT NOT NULL
+      )
+    `.execute(db);
+    await sql`CREATE INDEX idx_vehicle_duplicates_cluster ON vehicle_duplicates(clusterId)`.execute(db);
+
+    // NULL until the listing's photos have been hashed
+    await sql`ALTER TABLE vehicles ADD COLUMN photoHashes TEXT`.execute(db);
+  },
+
+  async down(db: Kysely<any>): Promise<void> {
+    await sql`ALTER TABLE vehicles DROP COLUMN photoHashes`.execute(db);
+    await sql`DROP TABLE IF EXISTS vehicle_duplicates`.execute(db);
+  },
+};
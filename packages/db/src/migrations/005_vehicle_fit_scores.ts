@@ -0,0 +1,37 @@
+import { Kysely, sql } from 'kysely';
+import { Migration } from './types';
+
+/**
+ * Migration 005 - Vehicle fit scores
+ *
+ * Adds the vehicle_fit_scores table holding one personal fit score per vehicle and
+ * criteria profile. Existing personalFitScore values were generated from the single
+ * analysisSettings.userCriteria, which is loaded as the 'default' profile, so they are
+ * copied under that profile ID.
+ */
+export const migration005VehicleFitScores: Migration = {
+  version: 5,
+  name: 'vehicle_fit_scores',
+
+  async up(db: Kysely<any>): Promise<void> {
+    await sql`
+      CREATE TABLE vehicle_fit_scores (
+        vehicleId TEXT NOT NULL REFERENCES vehicles(id) ON DELETE CASCADE,
+        profileId TEXT NOT NULL,
+        score REAL NOT NULL,
+        scoredAt TEXT NOT NULL,
+        PRIMARY KEY (vehicleId, profileId)
+      )
+    `.execute(db);
+    await sql`CREATE INDEX idx_vehicle_fit_scores_profile ON vehicle_fit_scores(profileId, score)`.execute(db);
+
+    await sql`
+      INSERT INTO vehicle_fit_scores (vehicleId, profileId, score, scoredAt)
+      SELECT id, 'default', personalFitScore, updatedAt FROM vehicles WHERE personalFitScore IS NOT NULL
+    `.execute(db);
+  },
+
+  async down(db: Kysely<any>): Promise<void> {
+    await sql`DROP TABLE IF EXISTS vehicle_fit_scores`.execute(db);
+  },
+};
@@ -0,0 +1,47 @@
+import { Kysely, sql } from 'kysely';
+import { Migration } from './types';
+
+/**
+ * Migration 006 - Pipeline runs
+ *
+ * Adds the pipeline_runs table holding the history of scheduled ingest → translate → analyze
+ * runs, and pipeline_locks, which keeps two scheduler processes from running the pipeline
+ * at the same time. A lock past its expiresAt is treated as left behind by a crashed process.
+ */
+export const migration006PipelineRuns: Migration = {
+  version: 6,
+  name: 'pipeline_runs',
+
+  async up(db: Kysely<any>): Promise<void> {
+    await sql`
+      CREATE TABLE pipeline_runs (
+        id TEXT PRIMARY KEY,
+        trigger TEXT NOT NULL CHECK (trigger IN ('schedule', 'manual')),
+        schedule TEXT,
+        status TEXT NOT NULL CHECK (status IN ('running', 'completed', 'failed', 'skipped')),
+        stages TEXT NOT NULL,
+        startedAt TEXT NOT NULL,
+        finishedAt TEXT,
+        ingestion TEXT,
+        translation TEXT,
+        analysis TEXT,
+        error TEXT
+      )
+    `.execute(db);
+    await sql`CREATE INDEX idx_pipeline_runs_started_at ON pipeline_runs(startedAt)`.execute(db);
+
+    await sql`
+      CREATE TABLE pipeline_locks (
+        name TEXT PRIMARY KEY,
+        owner TEXT NOT NULL,
+        acquiredAt TEXT NOT NULL,
+        expiresAt TEXT NOT NULL
+      )
+    `.execute(db);
+  },
+
+  async down(db: Kysely<any>): Promise<void> {
+    await sql`DROP TABLE IF EXISTS pipeline_locks`.execute(db);
+    await sql`DROP TABLE IF EXISTS pipeline_runs`.execute(db);
+  },
+};
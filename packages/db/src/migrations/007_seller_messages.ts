@@ -0,0 +1,33 @@
+import { Kysely, sql } from 'kysely';
+import { Migration } from './types';
+
+/**
+ * Migration 007 - Seller messages
+ *
+ * Adds the seller_messages table holding the conversation log with each vehicle's seller:
+ * messages sent from the communication assistant and the seller's replies, each stored in
+ * Polish alongside its English translation.
+ */
+export const migration007SellerMessages: Migration = {
+  version: 7,
+  name: 'seller_messages',
+
+  async up(db: Kysely<any>): Promise<void> {
+    await sql`
+      CREATE TABLE seller_messages (
+        id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+        vehicleId TEXT NOT NULL REFERENCES vehicles(id) ON DELETE CASCADE,
+        direction TEXT NOT NULL CHECK (direction IN ('outgoing', 'incoming')),
+        messageType TEXT CHECK (messageType IN ('inquiry', 'negotiation')),
+        textPl TEXT NOT NULL,
+        textEn TEXT NOT NULL,
+        createdAt TEXT NOT NULL
+      )
+    `.execute(db);
+    await sql`CREATE INDEX idx_seller_messages_vehicle ON seller_messages(vehicleId, createdAt)`.execute(db);
+  },
+
+  async down(db: Kysely<any>): Promise<void> {
+    await sql`DROP TABLE IF EXISTS seller_messages`.execute(db);
+  },
+};
@@ -0,0 +1,35 @@
+import { Kysely, sql } from 'kysely';
+import { Migration } from './types';
+
+/**
+ * Migration 008 - Market value analyses
+ *
+ * Adds the market_value_analyses table holding the latest market value calculation for each
+ * vehicle: the weighted average price, sample size and confidence, and the comparable listings
+ * used with their individual weights and attribute penalties.
+ */
+export const migration008MarketValueAnalyses: Migration = {
+  version: 8,
+  name: 'market_value_analyses',
+
+  async up(db: Kysely<any>): Promise<void> {
+    await sql`
+      CREATE TABLE market_value_analyses (
+        vehicleId TEXT PRIMARY KEY REFERENCES vehicles(id) ON DELETE CASCADE,
+        score TEXT NOT NULL,
+        priceEur REAL NOT NULL,
+        weightedAveragePriceEur REAL NOT NULL,
+        percentDifference REAL NOT NULL,
+        sampleSize INTEGER NOT NULL,
+        effectiveSampleSize REAL NOT NULL,
+        confidence TEXT NOT NULL CHECK (confidence IN ('low', 'medium', 'high')),
+        comparables TEXT NOT NULL,
+        calculatedAt TEXT NOT NULL
+      )
+    `.execute(db);
+  },
+
+  async down(db: Kysely<any>): Promise<void> {
+    await sql`DROP TABLE IF EXISTS market_value_analyses`.execute(db);
+  },
+};
@@ -0,0 +1,30 @@
+import { Kysely, sql } from 'kysely';
+import { Migration } from './types';
+
+/**
+ * Migration 009 - Market value models
+ *
+ * Market value can now come from the comparables' weighted average or from a regression
+ * model trained on all listings. Records which model produced each analysis, adds the
+ * regression's residual-based deal score and renames weightedAveragePriceEur to the
+ * model-neutral marketPriceEur.
+ */
+export const migration009MarketValueModels: Migration = {
+  version: 9,
+  name: 'market_value_models',
+
+  async up(db: Kysely<any>): Promise<void> {
+    await sql`ALTER TABLE market_value_analyses RENAME COLUMN weightedAveragePriceEur TO marketPriceEur`.execute(db);
+    await sql`
+      ALTER TABLE market_value_analyses
+      ADD COLUMN model TEXT NOT NULL DEFAULT 'weighted' CHECK (model IN ('weighted', 'regression'))
+    `.execute(db);
+    await sql`ALTER TABLE market_value_analyses ADD COLUMN dealScore REAL`.execute(db);
+  },
+
+  async down(db: Kysely<any>): Promise<void> {
+    await sql`ALTER TABLE market_value_analyses DROP COLUMN dealScore`.execute(db);
+    await sql`ALTER TABLE market_value_analyses DROP COLUMN model`.execute(db);
+    await sql`ALTER TABLE market_value_analyses RENAME COLUMN marketPriceEur TO weightedAveragePriceEur`.execute(db);
+  },
+};
@@ -0,0 +1,46 @@
+import { Kysely, sql } from 'kysely';
+import { Migration } from './types';
+
+/**
+ * Migration 010 - Vehicle attributes
+ *
+ * Adds columns for the structured attributes normalized from sourceParameters at ingest
+ * time, so comparable lookups no longer pattern-match the parameters JSON. Make and model
+ * compare case-insensitively like the LIKE queries they replace. Existing rows keep NULLs
+ * until `pnpm backfill-attributes` runs.
+ */
+
+const ATTRIBUTE_COLUMNS: [name: string, definition: string][] = [
+  ['make', 'TEXT COLLATE NOCASE'],
+  ['model', 'TEXT COLLATE NOCASE'],
+  ['engineSizeCc', 'INTEGER'],
+  ['horsepower', 'INTEGER'],
+  ['fuelType', 'TEXT'],
+  ['transmission', 'TEXT'],
+  ['bodyType', 'TEXT'],
+  ['seats', 'INTEGER'],
+  ['wheelbase', 'TEXT'],
+  ['color', 'TEXT'],
+  ['vin', 'TEXT'],
+];
+
+export const migration010VehicleAttributes: Migration = {
+  version: 10,
+  name: 'vehicle_attributes',
+
+  async up(db: Kysely<any>): Promise<void> {
+    for (const [name, definition] of ATTRIBUTE_COLUMNS) {
+      await sql`${sql.raw(`ALTER TABLE vehicles ADD COLUMN ${name} ${definition}`)}`.execute(db);
+    }
+    await sql`CREATE INDEX idx_vehicles_make_model ON vehicles(make, model)`.execute(db);
+    await sql`CREATE INDEX idx_vehicles_vin ON vehicles(vin)`.execute(db);
+  },
+
+  async down(db: Kysely<any>): Promise<void> {
+    await sql`DROP INDEX IF EXISTS idx_vehicles_vin`.execute(db);
+    await sql`DROP INDEX IF EXISTS idx_vehicles_make_model`.execute(db);
+    for (const [name] of [...ATTRIBUTE_COLUMNS].reverse()) {
+      await sql`${sql.raw(`ALTER TABLE vehicles DROP COLUMN ${name}`)}`.execute(db);
+    }
+  },
+};
@@ -0,0 +1,31 @@
+import { Kysely, sql } from 'kysely';
+import { Migration } from './types';
+
+/**
+ * Migration 011 - Exchange rates
+ *
+ * Adds the exchange_rates table holding dated PLN rates per currency, imported from NBP
+ * tables or set by hand. Vehicle EUR prices are converted at the rate effective on the
+ * listing's creation date; a manual rate wins over an imported one for the same day.
+ */
+export const migration011ExchangeRates: Migration = {
+  version: 11,
+  name: 'exchange_rates',
+
+  async up(db: Kysely<any>): Promise<void> {
+    await sql`
+      CREATE TABLE exchange_rates (
+        currency TEXT NOT NULL,
+        date TEXT NOT NULL,
+        ratePln REAL NOT NULL CHECK (ratePln > 0),
+        source TEXT NOT NULL,
+        importedAt TEXT NOT NULL,
+        PRIMARY KEY (currency, date, source)
+      )
+    `.execute(db);
+  },
+
+  async down(db: Kysely<any>): Promise<void> {
+    await sql`DROP TABLE IF EXISTS exchange_rates`.execute(db);
+  },
+};
@@ -0,0 +1,35 @@
+import { Kysely, sql } from 'kysely';
+import { Migration } from './types';
+
+/**
+ * Migration 012 - Bulk operations
+ *
+ * Adds the bulk_operations table recording each bulk status/notes/re-analyze/delete action
+ * from the dashboard together with the previous values of the fields it changed, so the
+ * operation can be undone until undoExpiresAt.
+ */
+export const migration012BulkOperations: Migration = {
+  version: 12,
+  name: 'bulk_operations',
+
+  async up(db: Kysely<any>): Promise<void> {
+    await sql`
+      CREATE TABLE bulk_operations (
+        id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+        action TEXT NOT NULL CHECK (action IN ('set_status', 'append_note', 'reanalyze', 'delete')),
+        vehicleIds TEXT NOT NULL,
+        status TEXT,
+        note TEXT,
+        previousValues TEXT NOT NULL,
+        createdAt TEXT NOT NULL,
+        undoExpiresAt TEXT NOT NULL,
+        undoneAt TEXT
+      )
+    `.execute(db);
+    await sql`CREATE INDEX idx_bulk_operations_undo_expires_at ON bulk_operations(undoExpiresAt)`.execute(db);
+  },
+
+  async down(db: Kysely<any>): Promise<void> {
+    await sql`DROP TABLE IF EXISTS bulk_operations`.execute(db);
+  },
+};
@@ -0,0 +1,89 @@
+import { Kysely, sql } from 'kysely';
+import { Migration } from './types';
+
+// PLN prices are stored as REAL; record whole amounts without the trailing ".0"
+function priceText(column: string): string {
+  return `CASE WHEN ${column} = CAST(${column} AS INTEGER) THEN CAST(CAST(${column} AS INTEGER) AS TEXT) ELSE CAST(${column} AS TEXT) END`;
+}
+
+const NOW = `strftime('%Y-%m-%dT%H:%M:%fZ', 'now')`;
+
+// Field changes are recorded by triggers so every writer (API, bulk operations, ingest,
+// liveness checks, translation filtering) is covered without each having to log them
+const CREATE_TRIGGERS = [
+  `CREATE TRIGGER vehicle_events_status
+  AFTER UPDATE OF status ON vehicles
+  FOR EACH ROW WHEN OLD.status IS NOT NEW.status
+  BEGIN
+    INSERT INTO vehicle_events (vehicleId, type, fromValue, toValue, createdAt)
+    VALUES (NEW.id, 'status_change', OLD.status, NEW.status, ${NOW});
+  END`,
+  `CREATE TRIGGER vehicle_events_notes
+  AFTER UPDATE OF personalNotes ON vehicles
+  FOR EACH ROW WHEN OLD.personalNotes IS NOT NEW.personalNotes
+  BEGIN
+    INSERT INTO vehicle_events (vehicleId, type, fromValue, toValue, createdAt)
+    VALUES (NEW.id, 'note_edit', OLD.personalNotes, NEW.personalNotes, ${NOW});
+  END`,
+  `CREATE TRIGGER vehicle_events_price
+  AFTER UPDATE OF pricePln ON vehicles
+  FOR EACH ROW WHEN OLD.pricePln IS NOT NEW.pricePln
+  BEGIN
+    INSERT INTO vehicle_events (vehicleId, type, fromValue, toValue, createdAt)
+    VALUES (NEW.id, 'price_change', ${priceText('OLD.pricePln')}, ${priceText('NEW.pricePln')}, ${NOW});
+  END`,
+  `CREATE TRIGGER vehicle_events_append_only
+  BEFORE UPDATE ON vehicle_events
+  BEGIN
+    SELECT RAISE(ABORT, 'vehicle_events is append-only');
+  END`,
+];
+
+/**
+ * Migration 013 - Vehicle events
+ *
+ * Adds the append-only vehicle_events audit log of status changes, note edits, price
+ * changes and analysis runs. Price changes are backfilled from vehicle_snapshots; status
+ * and note history before this migration was overwritten and cannot be recovered.
+ */
+export const migration013VehicleEvents: Migration = {
+  version: 13,
+  name: 'vehicle_events',
+
+  async up(db: Kysely<any>): Promise<void> {
+    await sql`
+      CREATE TABLE vehicle_events (
+        id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+        vehicleId TEXT NOT NULL REFERENCES vehicles(id) ON DELETE CASCADE,
+        type TEXT NOT NULL CHECK (type IN ('status_change', 'note_edit', 'price_change', 'analysis')),
+        fromValue TEXT,
+        toValue TEXT,
+        createdAt TEXT NOT NULL
+      )
+    `.execute(db);
+    await sql`CREATE INDEX idx_vehicle_events_vehicle ON vehicle_events(vehicleId, createdAt)`.execute(db);
+
+    await sql`
+      INSERT INTO vehicle_events (vehicleId, type, fromValue, toValue, createdAt)
+      SELECT vehicleId, 'price_change', ${sql.raw(priceText('previousPricePln'))}, ${sql.raw(priceText('pricePln'))}, capturedAt
+      FROM (
+        SELECT vehicleId, pricePln, capturedAt,
+          LAG(pricePln) OVER (PARTITION BY vehicleId ORDER BY capturedAt, rowid) AS previousPricePln
+        FROM vehicle_snapshots
+      )
+      WHERE previousPricePln IS NOT NULL AND previousPricePln != pricePln
+      ORDER BY capturedAt
+    `.execute(db);
+
+    for (const statement of CREATE_TRIGGERS) {
+      await sql`${sql.raw(statement)}`.execute(db);
+    }
+  },
+
+  async down(db: Kysely<any>): Promise<void> {
+    for (const trigger of ['vehicle_events_append_only', 'vehicle_events_price', 'vehicle_events_notes', 'vehicle_events_status']) {
+      await sql`DROP TRIGGER IF EXISTS ${sql.raw(trigger)}`.execute(db);
+    }
+    await sql`DROP TABLE IF EXISTS vehicle_events`.execute(db);
+  },
+};
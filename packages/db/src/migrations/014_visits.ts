@@ -0,0 +1,53 @@
+import { Kysely, sql } from 'kysely';
+import { Migration } from './types';
+
+/**
+ * Migration 014 - Visits
+ *
+ * Adds the visits table for appointments to see a vehicle (date, location, seller contact)
+ * and visit_checklist_items for the inspection checklist of each visit, seeded from the
+ * mechanic report's inspection points and checked off during the visit.
+ */
+export const migration014Visits: Migration = {
+  version: 14,
+  name: 'visits',
+
+  async up(db: Kysely<any>): Promise<void> {
+    await sql`
+      CREATE TABLE visits (
+        id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+        vehicleId TEXT NOT NULL REFERENCES vehicles(id) ON DELETE CASCADE,
+        scheduledAt TEXT NOT NULL,
+        durationMinutes INTEGER NOT NULL DEFAULT 60 CHECK (durationMinutes > 0),
+        location TEXT,
+        contactName TEXT,
+        contactPhone TEXT,
+        notes TEXT,
+        status TEXT NOT NULL DEFAULT 'scheduled' CHECK (status IN ('scheduled', 'completed', 'cancelled')),
+        createdAt TEXT NOT NULL,
+        updatedAt TEXT NOT NULL
+      )
+    `.execute(db);
+    await sql`CREATE INDEX idx_visits_vehicle ON visits(vehicleId, scheduledAt)`.execute(db);
+    await sql`CREATE INDEX idx_visits_status ON visits(status, scheduledAt)`.execute(db);
+
+    await sql`
+      CREATE TABLE visit_checklist_items (
+        id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+        visitId TEXT NOT NULL REFERENCES visits(id) ON DELETE CASCADE,
+        position INTEGER NOT NULL,
+        label TEXT NOT NULL,
+        critical INTEGER NOT NULL DEFAULT 0,
+        source TEXT NOT NULL CHECK (source IN ('mechanic_report', 'manual')),
+        result TEXT NOT NULL DEFAULT 'pending' CHECK (result IN ('pending', 'ok', 'issue', 'skipped')),
+        notes TEXT
+      )
+    `.execute(db);
+    await sql`CREATE INDEX idx_visit_checklist_items_visit ON visit_checklist_items(visitId, position)`.execute(db);
+  },
+
+  async down(db: Kysely<any>): Promise<void> {
+    await sql`DROP TABLE IF EXISTS visit_checklist_items`.execute(db);
+    await sql`DROP TABLE IF EXISTS visits`.execute(db);
+  },
+};
@@ -0,0 +1,32 @@
+import { Kysely, sql } from 'kysely';
+import { Migration } from './types';
+
+/**
+ * Migration 015 - Vehicle pages
+ *
+ * Adds vehicle_pages for the raw detail-page HTML of each scrape, gzip-compressed, so
+ * listing fields can be re-extracted with a fixed parser schema (`pnpm reparse`).
+ * Identical HTML is stored once; only the latest pages of each vehicle are kept.
+ */
+export const migration015VehiclePages: Migration = {
+  version: 15,
+  name: 'vehicle_pages',
+
+  async up(db: Kysely<any>): Promise<void> {
+    await sql`
+      CREATE TABLE vehicle_pages (
+        id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+        vehicleId TEXT NOT NULL REFERENCES vehicles(id) ON DELETE CASCADE,
+        htmlGzip BLOB NOT NULL,
+        htmlBytes INTEGER NOT NULL,
+        contentHash TEXT NOT NULL,
+        scrapedAt TEXT NOT NULL
+      )
+    `.execute(db);
+    await sql`CREATE INDEX idx_vehicle_pages_vehicle ON vehicle_pages(vehicleId, scrapedAt)`.execute(db);
+  },
+
+  async down(db: Kysely<any>): Promise<void> {
+    await sql`DROP TABLE IF EXISTS vehicle_pages`.execute(db);
+  },
+};
@@ -0,0 +1,87 @@
+import { Kysely, sql } from 'kysely';
+import { Migration } from './types';
+
+/**
+ * Migration 016 - Vehicle sources
+ *
+ * Replaces the fixed CHECK (source IN ('otomoto', 'olx')) on vehicles with a foreign key
+ * to vehicle_sources, which ingestion fills from its registry of source adapters. A new
+ * marketplace then needs no migration of its own.
+ *
+ * SQLite cannot alter a constraint, so the vehicles table is rebuilt from its current
+ * definition (every column added since 003 is kept) with foreign keys disabled. Indexes
+ * and triggers on vehicles are dropped with the table and re-created from sqlite_master.
+ */
+
+const BUILT_IN_SOURCES = [
+  { key: 'otomoto', name: 'Otomoto' },
+  { key: 'olx', name: 'OLX' },
+];
+
+const SOURCE_CHECK = `source TEXT NOT NULL CHECK (source IN ('otomoto', 'olx'))`;
+const SOURCE_REFERENCE = 'source TEXT NOT NULL REFERENCES vehicle_sources(key)';
+
+/**
+ * Rebuild the vehicles table with one column definition replaced
+ */
+async function rebuildVehiclesTable(db: Kysely<any>, fromDefinition: string, toDefinition: string): Promise<void> {
+  const schema = await sql<{ type: string; sql: string }>`
+    SELECT type, sql FROM sqlite_master
+    WHERE tbl_name = 'vehicles' AND sql IS NOT NULL
+    ORDER BY type DESC
+  `.execute(db);
+
+  const createTable = schema.rows.find(row => row.type === 'table');
+  if (!createTable || !createTable.sql.includes(fromDefinition)) {
+    throw new Error(`vehicles table does not define: ${fromDefinition}`);
+  }
+  const dependents = schema.rows.filter(row => row.type !== 'table').map(row => row.sql);
+
+  const createStatement = createTable.sql
+    .replace(/^CREATE TABLE "?vehicles"?/, 'CREATE TABLE vehicles_rebuild')
+    .replace(fromDefinition, toDefinition);
+
+  await sql`${sql.raw(createStatement)}`.execute(db);
+  await sql`INSERT INTO vehicles_rebuild SELECT * FROM vehicles`.execute(db);
+  await sql`DROP TABLE vehicles`.execute(db);
+  await sql`ALTER TABLE vehicles_rebuild RENAME TO vehicles`.execute(db);
+
+  for (const statement of dependents) {
+    await sql`${sql.raw(statement)}`.execute(db);
+  }
+}
+
+export const migration016VehicleSources: Migration = {
+  version: 16,
+  name: 'vehicle_sources',
+  disableForeignKeys: true,
+
+  async up(db: Kysely<any>): Promise<void> {
+    await sql`
+      CREATE TABLE vehicle_sources (
+        key TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        registeredAt TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+      )
+    `.execute(db);
+
+    for (const source of BUILT_IN_SOURCES) {
+      await sql`INSERT INTO vehicle_sources (key, name) VALUES (${source.key}, ${source.name})`.execute(db);
+    }
+
+    await rebuildVehiclesTable(db, SOURCE_CHECK, SOURCE_REFERENCE);
+  },
+
+  async down(db: Kysely<any>): Promise<void> {
+    // Vehicles from added sources cannot be represented by the old CHECK constraint
+    const added = await sql<{ source: string }>`
+      SELECT DISTINCT source FROM vehicles WHERE source NOT IN ('otomoto', 'olx')
+    `.execute(db);
+    if (added.rows.length > 0) {
+      throw new Error(`Vehicles from added sources exist: ${added.rows.map(row => row.source).join(', ')}`);
+    }
+
+    await rebuildVehiclesTable(db, SOURCE_REFERENCE, SOURCE_CHECK);
+    await sql`DROP TABLE IF EXISTS vehicle_sources`.execute(db);
+  },
+};
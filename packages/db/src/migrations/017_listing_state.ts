@@ -0,0 +1,32 @@
+import { Kysely, sql } from 'kysely';
+import { Migration } from './types';
+
+/**
+ * Migration 017 - Listing state
+ *
+ * Moves the marketplace lifecycle out of the workflow status: the liveness check now sets
+ * listingState/delistedAt and leaves the user's status alone, so relisting no longer resets
+ * it. Vehicles the liveness check already delisted (status sold/removed with delistedAt)
+ * keep that status, as their previous one is lost, and get the matching listingState.
+ */
+export const migration017ListingState: Migration = {
+  version: 17,
+  name: 'listing_state',
+
+  async up(db: Kysely<any>): Promise<void> {
+    await sql`
+      ALTER TABLE vehicles ADD COLUMN listingState TEXT NOT NULL DEFAULT 'active'
+        CHECK (listingState IN ('active', 'sold', 'removed'))
+    `.execute(db);
+    await sql`
+      UPDATE vehicles SET listingState = status
+      WHERE status IN ('sold', 'removed') AND delistedAt IS NOT NULL
+    `.execute(db);
+    await sql`CREATE INDEX idx_vehicles_listing_state ON vehicles(listingState)`.execute(db);
+  },
+
+  async down(db: Kysely<any>): Promise<void> {
+    await sql`DROP INDEX IF EXISTS idx_vehicles_listing_state`.execute(db);
+    await sql`ALTER TABLE vehicles DROP COLUMN listingState`.execute(db);
+  },
+};
@@ -0,0 +1,41 @@
+import { Migration } from './types';
+import { migration001InitialSchema } from './001_initial_schema';
+import { migration002VehicleSnapshots } from './002_vehicle_snapshots';
+import { migration003ListingLifecycle } from './003_listing_lifecycle';
+import { migration004VehicleDuplicates } from './004_vehicle_duplicates';
+import { migration005VehicleFitScores } from './005_vehicle_fit_scores';
+import { migration006PipelineRuns } from './006_pipeline_runs';
+import { migration007SellerMessages } from './007_seller_messages';
+import { migration008MarketValueAnalyses } from './008_market_value_analyses';
+import { migration009MarketValueModels } from './009_market_value_models';
+import { migration010VehicleAttributes } from './010_vehicle_attributes';
+import { migration011ExchangeRates } from './011_exchange_rates';
+import { migration012BulkOperations } from './012_bulk_operations';
+import { migration013VehicleEvents } from './013_vehicle_events';
+import { migration014Visits } from './014_visits';
+import { migration015VehiclePages } from './015_vehicle_pages';
+import { migration016VehicleSources } from './016_vehicle_sources';
+import { migration017ListingState } from './017_listing_state';
+
+export type { Migration, MigrationStatus } from './types';
+
+// All migrations in version order. Never edit a migration once released - add a new one.
+export const MIGRATIONS: Migration[] = [
+  migration001InitialSchema,
+  migration002VehicleSnapshots,
+  migration003ListingLifecycle,
+  migration004VehicleDuplicates,
+  migration005VehicleFitScores,
+  migration006PipelineRuns,
+  migration007SellerMessages,
+  migration008MarketValueAnalyses,
+  migration009MarketValueModels,
+  migration010VehicleAttributes,
+  migration011ExchangeRates,
+  migration012BulkOperations,
+  migration013VehicleEvents,
+  migration014Visits,
+  migration015VehiclePages,
+  migration016VehicleSources,
+  migration017ListingState,
+];
@@ -0,0 +1,24 @@
+import { Kysely } from 'kysely';
+
+/**
+ * A versioned, reversible schema change
+ */
+export interface Migration {
+  // Sequential version number, also used as the file prefix (001, 002, ...)
+  version: number;
+  name: string;
+  // Run with foreign key enforcement off, for migrations that rebuild a referenced table
+  disableForeignKeys?: boolean;
+  up(db: Kysely<any>): Promise<void>;
+  down(db: Kysely<any>): Promise<void>;
+}
+
+/**
+ * Applied/pending state of a single migration
+ */
+export interface MigrationStatus {
+  version: number;
+  name: string;
+  applied: boolean;
+  appliedAt: string | null;
+}
@@ -0,0 +1,195 @@
+import { Kysely, sql } from 'kysely';
+import { MIGRATIONS, Migration, MigrationStatus } from './migrations';
+
+// Table recording which migrations have been applied
+export const SCHEMA_MIGRATIONS_TABLE = 'schema_migrations';
+
+/**
+ * Applies and reverts versioned schema migrations, tracking progress in schema_migrations.
+ *
+ * Each migration runs inside its own transaction together with its bookkeeping row,
+ * so a failing migration leaves the database at the previous version.
+ */
+export class MigrationRunner {
+  private db: Kysely<any>;
+  private migrations: Migration[];
+
+  constructor(db: Kysely<any>, migrations: Migration[] = MIGRATIONS) {
+    this.db = db;
+    this.migrations = [...migrations].sort((a, b) => a.version - b.version);
+    this.validateMigrations();
+  }
+
+  /**
+   * Apply all pending migrations up to targetVersion (latest by default)
+   * Returns the migrations that were applied
+   */
+  async migrate(targetVersion?: number): Promise<Migration[]> {
+    const appliedVersions = await this.getAppliedVersions();
+    const pending = this.migrations.filter(migration =>
+      !appliedVersions.has(migration.version) &&
+      (targetVersion === undefined || migration.version <= targetVersion)
+    );
+
+    for (const migration of pending) {
+      await this.runInTransaction(migration, 'up', async () => {
+        await migration.up(this.db);
+        await this.db
+          .insertInto(SCHEMA_MIGRATIONS_TABLE)
+          .values({
+            version: migration.version,
+            name: migration.name,
+            appliedAt: new Date().toISOString(),
+          })
+          .execute();
+      });
+      console.log(`✅ Applied migration ${this.formatMigration(migration)}`);
+    }
+
+    return pending;
+  }
+
+  /**
+   * Revert the most recently applied migrations
+   * Returns the migrations that were reverted
+   */
+  async rollback(steps: number = 1): Promise<Migration[]> {
+    if (!Number.isInteger(steps) || steps < 1) {
+      throw new Error(`Invalid rollback steps: ${steps}`);
+    }
+
+    const appliedVersions = await this.getAppliedVersions();
+    const toRevert = this.migrations
+      .filter(migration => appliedVersions.has(migration.version))
+      .reverse()
+      .slice(0, steps);
+
+    for (const migration of toRevert) {
+      await this.runInTransaction(migration, 'down', async () => {
+        await migration.down(this.db);
+        await this.db
+          .deleteFrom(SCHEMA_MIGRATIONS_TABLE)
+          .where('version', '=', migration.version)
+          .execute();
+      });
+      console.log(`↩️  Reverted migration ${this.formatMigration(migration)}`);
+    }
+
+    return toRevert;
+  }
+
+  /**
+   * List every known migration with its applied state
+   */
+  async status(): Promise<MigrationStatus[]> {
+    await this.ensureMigrationsTable();
+
+    const rows = await this.db
+      .selectFrom(SCHEMA_MIGRATIONS_TABLE)
+      .select(['version', 'appliedAt'])
+      .execute();
+    const appliedAt = new Map<number, string>(rows.map(row => [Number(row.version), row.appliedAt]));
+
+    return this.migrations.map(migration => ({
+      version: migration.version,
+      name: migration.name,
+      applied: appliedAt.has(migration.version),
+      appliedAt: appliedAt.get(migration.version) ?? null,
+    }));
+  }
+
+  /**
+   * Get the highest applied migration version (0 for an empty database)
+   */
+  async getCurrentVersion(): Promise<number> {
+    const appliedVersions = await this.getAppliedVersions();
+    return appliedVersions.size > 0 ? Math.max(...appliedVersions) : 0;
+  }
+
+  /**
+   * Create the schema_migrations bookkeeping table if needed
+   */
+  private async ensureMigrationsTable(): Promise<void> {
+    await sql`
+      CREATE TABLE IF NOT EXISTS schema_migrations (
+        version INTEGER PRIMARY KEY,
+        name TEXT NOT NULL,
+        appliedAt TEXT NOT NULL
+      )
+    `.execute(this.db);
+  }
+
+  private async getAppliedVersions(): Promise<Set<number>> {
+    await this.ensureMigrationsTable();
+
+    const rows = await this.db
+      .selectFrom(SCHEMA_MIGRATIONS_TABLE)
+      .select('version')
+      .execute();
+    return new Set(rows.map(row => Number(row.version)));
+  }
+
+  /**
+   * Run a migration step in an explicit transaction.
+   * BEGIN/COMMIT are issued directly because libsql transactions detach
+   * the client connection, which discards in-memory databases.
+   * Migrations flagged with disableForeignKeys follow SQLite's table-rebuild procedure:
+   * enforcement is switched off outside the transaction and integrity is re-checked
+   * before committing.
+   */
+  private async runInTransaction(
+    migration: Migration,
+    direction: 'up' | 'down',
+    work: () => Promise<void>
+  ): Promise<void> {
+    if (migration.disableForeignKeys) {
+      await sql`PRAGMA foreign_keys = OFF`.execute(this.db);
+    }
+
+    await sql`BEGIN`.execute(this.db);
+    try {
+      await work();
+      if (migration.disableForeignKeys) {
+        await this.assertForeignKeys();
+      }
+      await sql`COMMIT`.execute(this.db);
+    } catch (error) {
+      await sql`ROLLBACK`.execute(this.db);
+      console.error(`❌ Migration ${this.formatMigration(migration)} (${direction}) failed:`, error);
+      throw new Error(
+        `Migration ${this.formatMigration(migration)} ${direction} failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    } finally {
+      if (migration.disableForeignKeys) {
+        await sql`PRAGMA foreign_keys = ON`.execute(this.db);
+      }
+    }
+  }
+
+  /**
+   * Fail if any row references a missing parent
+   */
+  private async assertForeignKeys(): Promise<void> {
+    const violations = await sql<{ table: string }>`PRAGMA foreign_key_check`.execute(this.db);
+    if (violations.rows.length > 0) {
+      throw new Error(`Foreign key check failed for table ${violations.rows[0].table}`);
+    }
+  }
+
+  private validateMigrations(): void {
+    const seen = new Set<number>();
+    for (const migration of this.migrations) {
+      if (!Number.isInteger(migration.version) || migration.version < 1) {
+        throw new Error(`Invalid migration version: ${migration.version}`);
+      }
+      if (seen.has(migration.version)) {
+        throw new Error(`Duplicate migration version: ${migration.version}`);
+      }
+      seen.add(migration.version);
+    }
+  }
+
+  private formatMigration(migration: Migration): string {
+    return `${String(migration.version).padStart(3, '0')}_${migration.name}`;
+  }
+}
@@ -73,6 +73,19 @@ describe('VehicleRepository', () => {
         memberSince: '2020',
       },
       photos: [],
+      attributes: {
+        make: 'Toyota',
+        model: 'Corolla',
+        engineSizeCc: null,
+        horsepower: null,
+        fuelType: null,
+        transmission: null,
+        bodyType: null,
+        seats: null,
+        wheelbase: null,
+        color: null,
+        vin: null,
+      },
       personalFitScore: null,
       marketValueScore: null,
       aiPriorityRating: null,
@@ -84,6 +97,9 @@ describe('VehicleRepository', () => {
       scrapedAt: new Date('2024-01-01'),
       createdAt: new Date('2024-01-01'),
       updatedAt: new Date('2024-01-01'),
+      lastSeenAt: null,
+      listingState: 'active',
+      delistedAt: null,
     };
   });
 
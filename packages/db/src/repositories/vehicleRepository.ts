@@ -1,6 +1,81 @@
-import { Kysely } from 'kysely';
-import { Vehicle as VehicleType, SellerInfo } from '@car-finder/types';
-import { Database as DatabaseSchema, Vehicle, NewVehicle, VehicleUpdate } from '../schema';
+import crypto from 'crypto';
+import zlib from 'zlib';
+import { ExpressionBuilder, Expression, Kysely, SqlBool, Transaction, sql } from 'kysely';
+import {
+  Vehicle as VehicleType,
+  SellerInfo,
+  VehicleQuery,
+  PaginatedResponse,
+  VehicleSnapshot,
+  NewVehicleSnapshot,
+  VehicleListingUpdate,
+  VehiclePage,
+  NewVehiclePage,
+  VehicleSourceInfo,
+  DelistedStatus,
+  TimeOnMarketStats,
+  DuplicateCluster,
+  DuplicateListing,
+  NewDuplicateClusterMember,
+  PipelineRun,
+  SellerMessage,
+  NewSellerMessage,
+  MarketValueAnalysis,
+  VehicleAttributes,
+  ExchangeRate,
+  BulkOperation,
+  NewBulkOperation,
+  BulkVehicleAction,
+  VehicleEvent,
+  NewVehicleEvent,
+  Visit,
+  NewVisit,
+  VisitUpdate,
+  InspectionItem,
+  NewInspectionItem,
+} from '@car-finder/types';
+import {
+  Database as DatabaseSchema,
+  Vehicle,
+  NewVehicle,
+  VehicleUpdate,
+  VehicleSnapshotRow,
+  VehiclePageRow,
+  PipelineRunRow,
+  SellerMessageRow,
+  MarketValueAnalysisRow,
+  ExchangeRateRow,
+  BulkOperationRow,
+  VehicleEventRow,
+  VisitRow,
+  VisitChecklistItemRow,
+  VehicleFitScoreTable,
+} from '../schema';
+
+const DEFAULT_PAGE_SIZE = 20;
+const DELISTED_STATUSES: DelistedStatus[] = ['sold', 'removed'];
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+const PIPELINE_LOCK_NAME = 'pipeline';
+const DEFAULT_PIPELINE_RUN_LIMIT = 20;
+const DEFAULT_VISIT_DURATION_MINUTES = 60;
+// Detail pages kept per vehicle, older scrapes are pruned when a new page is stored
+const VEHICLE_PAGES_KEPT = 3;
+// Date fields inside stored run logs, revived when a pipeline run is read back
+const RUN_LOG_DATE_FIELDS = new Set(['startTime', 'endTime', 'timestamp']);
+// Vehicle columns each bulk action changes, restored when the operation is undone
+const BULK_ACTION_FIELDS: Record<BulkVehicleAction, (keyof Vehicle)[]> = {
+  set_status: ['status'],
+  delete: ['status'],
+  append_note: ['personalNotes'],
+  reanalyze: ['personalFitScore', 'marketValueScore', 'aiPriorityRating', 'aiPrioritySummary', 'aiMechanicReport', 'aiDataSanityCheck'],
+};
+
+// Values a bulk operation replaced on one vehicle (fit scores and market value analysis only for reanalyze)
+interface BulkPreviousValues {
+  values: VehicleUpdate;
+  fitScores?: VehicleFitScoreTable[];
+  marketValueAnalysis?: MarketValueAnalysisRow | null;
+}
 
 export class VehicleRepository {
   constructor(private db: Kysely<DatabaseSchema>) {}
@@ -37,6 +112,9 @@ export class VehicleRepository {
         // Seller information
         sellerInfo: JSON.stringify(vehicle.sellerInfo),
         photos: JSON.stringify(vehicle.photos),
+
+        // Structured attributes
+        ...this.mapAttributesToDb(vehicle.attributes),
         
         // AI generated data
         personalFitScore: vehicle.personalFitScore,
@@ -53,6 +131,11 @@ export class VehicleRepository {
         // Timestamps
         scrapedAt: vehicle.scrapedAt.toISOString(),
         // createdAt and updatedAt will be auto-generated
+
+        // Marketplace lifecycle - a freshly scraped listing was just seen
+        lastSeenAt: (vehicle.lastSeenAt ?? vehicle.scrapedAt).toISOString(),
+        listingState: vehicle.listingState,
+        delistedAt: vehicle.delistedAt ? vehicle.delistedAt.toISOString() : null,
       };
 
       await this.db
@@ -68,137 +151,1415 @@ export class VehicleRepository {
   }
 
   /**
-   * Find a vehicle by its source URL (for deduplication)
+   * Find a vehicle by its source URL (for deduplication)
+   */
+  async findVehicleByUrl(sourceUrl: string): Promise<VehicleType | null> {
+    try {
+      const result = await this.db
+        .selectFrom('vehicles')
+        .selectAll()
+        .where('sourceUrl', '=', sourceUrl)
+        .executeTakeFirst();
+
+      return result ? this.mapDbVehicleToType(result) : null;
+    } catch (error) {
+      console.error('❌ Failed to find vehicle by URL:', error);
+      throw new Error(`Vehicle lookup failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Find a vehicle by its ID
+   */
+  async findVehicleById(id: string): Promise<VehicleType | null> {
+    try {
+      const result = await this.db
+        .selectFrom('vehicles')
+        .selectAll()
+        .where('id', '=', id)
+        .executeTakeFirst();
+
+      return result ? this.mapDbVehicleToType(result) : null;
+    } catch (error) {
+      console.error('❌ Failed to find vehicle by ID:', error);
+      throw new Error(`Vehicle lookup failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Update a vehicle's data
+   */
+  async updateVehicle(id: string, updates: Partial<VehicleType>): Promise<void> {
+    try {
+      const dbUpdates: VehicleUpdate = {};
+
+      // Map only the fields that are being updated
+      if (updates.priceEur !== undefined) dbUpdates.priceEur = updates.priceEur;
+      if (updates.description !== undefined) dbUpdates.description = updates.description;
+      if (updates.features !== undefined) dbUpdates.features = JSON.stringify(updates.features);
+      if (updates.status !== undefined) dbUpdates.status = updates.status;
+      if (updates.personalNotes !== undefined) dbUpdates.personalNotes = updates.personalNotes;
+      if (updates.personalFitScore !== undefined) dbUpdates.personalFitScore = updates.personalFitScore;
+      if (updates.marketValueScore !== undefined) dbUpdates.marketValueScore = updates.marketValueScore;
+      if (updates.aiPriorityRating !== undefined) dbUpdates.aiPriorityRating = updates.aiPriorityRating;
+      if (updates.aiPrioritySummary !== undefined) dbUpdates.aiPrioritySummary = updates.aiPrioritySummary;
+      if (updates.aiMechanicReport !== undefined) dbUpdates.aiMechanicReport = updates.aiMechanicReport;
+      if (updates.aiDataSanityCheck !== undefined) dbUpdates.aiDataSanityCheck = updates.aiDataSanityCheck;
+      if (updates.attributes !== undefined) Object.assign(dbUpdates, this.mapAttributesToDb(updates.attributes));
+
+      // Listing fields, re-extracted from stored pages by the reparse script
+      if (updates.sourceTitle !== undefined) dbUpdates.sourceTitle = updates.sourceTitle;
+      if (updates.sourceDescriptionHtml !== undefined) dbUpdates.sourceDescriptionHtml = updates.sourceDescriptionHtml;
+      if (updates.sourceParameters !== undefined) dbUpdates.sourceParameters = JSON.stringify(updates.sourceParameters);
+      if (updates.sourceEquipment !== undefined) dbUpdates.sourceEquipment = JSON.stringify(updates.sourceEquipment);
+      if (updates.sourceCreatedAt !== undefined) dbUpdates.sourceCreatedAt = updates.sourceCreatedAt.toISOString();
+      if (updates.sourcePhotos !== undefined) dbUpdates.sourcePhotos = JSON.stringify(updates.sourcePhotos);
+      if (updates.photos !== undefined) {
+        dbUpdates.photos = JSON.stringify(updates.photos);
+        // New photos need re-hashing before the next duplicate detection run
+        dbUpdates.photoHashes = null;
+      }
+      if (updates.pricePln !== undefined) dbUpdates.pricePln = updates.pricePln;
+      if (updates.year !== undefined) dbUpdates.year = updates.year;
+      if (updates.mileage !== undefined) dbUpdates.mileage = updates.mileage;
+      if (updates.sellerInfo !== undefined) dbUpdates.sellerInfo = JSON.stringify(updates.sellerInfo);
+
+      if (Object.keys(dbUpdates).length === 0) {
+        console.log('⚠️ No valid updates provided for vehicle:', id);
+        return;
+      }
+
+      const result = await this.db
+        .updateTable('vehicles')
+        .set(dbUpdates)
+        .where('id', '=', id)
+        .execute();
+
+      if (result.length === 0) {
+        throw new Error(`Vehicle with ID ${id} not found`);
+      }
+
+      console.log(`✅ Vehicle updated successfully: ${id}`);
+    } catch (error) {
+      console.error('❌ Failed to update vehicle:', error);
+      throw new Error(`Vehicle update failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Get all vehicles (for dashboard display)
+   */
+  async getAllVehicles(): Promise<VehicleType[]> {
+    try {
+      const results = await this.db
+        .selectFrom('vehicles')
+        .selectAll()
+        .orderBy('createdAt', 'desc')
+        .execute();
+
+      return results.map(vehicle => this.mapDbVehicleToType(vehicle));
+    } catch (error) {
+      console.error('❌ Failed to get all vehicles:', error);
+      throw new Error(`Vehicle retrieval failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Query vehicles with filtering, sorting and pagination (for dashboard display)
+   */
+  async queryVehicles(query: VehicleQuery = {}): Promise<PaginatedResponse<VehicleType>> {
+    try {
+      const page = Math.max(1, Math.floor(query.page ?? 1));
+      const limit = Math.max(1, Math.floor(query.limit ?? DEFAULT_PAGE_SIZE));
+      const sortBy = query.sortBy ?? 'createdAt';
+      const sortDirection = query.sortDirection ?? 'desc';
+
+      const countResult = await this.db
+        .selectFrom('vehicles')
+        .select((eb) => eb.fn.countAll<number>().as('count'))
+        .where((eb) => this.buildVehicleFilter(eb, query))
+        .executeTakeFirst();
+
+      const results = await this.db
+        .selectFrom('vehicles')
+        .selectAll()
+        .where((eb) => this.buildVehicleFilter(eb, query))
+        .orderBy(
+          (eb) => sortBy === 'personalFitScore' && query.profileId !== undefined
+            ? this.fitScoreOf(eb, query.profileId)
+            : eb.ref(sortBy),
+          sortDirection
+        )
+        .orderBy('id', 'asc') // Stable ordering for ties across pages
+        .limit(limit)
+        .offset((page - 1) * limit)
+        .execute();
+
+      return {
+        data: results.map(vehicle => this.mapDbVehicleToType(vehicle)),
+        total: Number(countResult?.count ?? 0),
+        page,
+        limit,
+      };
+    } catch (error) {
+      console.error('❌ Failed to query vehicles:', error);
+      throw new Error(`Vehicle query failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Get vehicles by status (for filtering)
+   */
+  async getVehiclesByStatus(status: VehicleType['status']): Promise<VehicleType[]> {
+    try {
+      const results = await this.db
+        .selectFrom('vehicles')
+        .selectAll()
+        .where('status', '=', status)
+        .orderBy('createdAt', 'desc')
+        .execute();
+
+      return results.map(vehicle => this.mapDbVehicleToType(vehicle));
+    } catch (error) {
+      console.error('❌ Failed to get vehicles by status:', error);
+      throw new Error(`Vehicle retrieval failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Delete a vehicle by ID (including its listing history, duplicate cluster membership, fit scores,
+   * seller conversation and market value analysis)
+   */
+  async deleteVehicle(id: string): Promise<void> {
+    try {
+      await this.db
+        .deleteFrom('vehicle_snapshots')
+        .where('vehicleId', '=', id)
+        .execute();
+
+      await this.db
+        .deleteFrom('vehicle_pages')
+        .where('vehicleId', '=', id)
+        .execute();
+
+      await this.db
+        .deleteFrom('vehicle_duplicates')
+        .where('vehicleId', '=', id)
+        .execute();
+
+      await this.db
+        .deleteFrom('vehicle_fit_scores')
+        .where('vehicleId', '=', id)
+        .execute();
+
+      await this.db
+        .deleteFrom('seller_messages')
+        .where('vehicleId', '=', id)
+        .execute();
+
+      await this.db
+        .deleteFrom('market_value_analyses')
+        .where('vehicleId', '=', id)
+        .execute();
+
+      await this.db
+        .deleteFrom('visit_checklist_items')
+        .where('visitId', 'in', eb => eb.selectFrom('visits').select('id').where('vehicleId', '=', id))
+        .execute();
+
+      await this.db
+        .deleteFrom('visits')
+        .where('vehicleId', '=', id)
+        .execute();
+
+      const result = await this.db
+        .deleteFrom('vehicles')
+        .where('id', '=', id)
+        .execute();
+
+      if (result.length === 0) {
+        throw new Error(`Vehicle with ID ${id} not found`);
+      }
+
+      console.log(`✅ Vehicle deleted successfully: ${id}`);
+    } catch (error) {
+      console.error('❌ Failed to delete vehicle:', error);
+      throw new Error(`Vehicle deletion failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Get the listing history of a vehicle, oldest snapshot first
+   */
+  async getVehicleSnapshots(vehicleId: string): Promise<VehicleSnapshot[]> {
+    try {
+      const results = await this.db
+        .selectFrom('vehicle_snapshots')
+        .selectAll()
+        .where('vehicleId', '=', vehicleId)
+        .orderBy('capturedAt', 'asc')
+        .orderBy('id', 'asc')
+        .execute();
+
+      return results.map(snapshot => this.mapDbSnapshotToType(snapshot));
+    } catch (error) {
+      console.error('❌ Failed to get vehicle snapshots:', error);
+      throw new Error(`Vehicle snapshot retrieval failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Append a listing snapshot
+   * When listingUpdate is given, the re-scraped listing fields are written to the vehicle first.
+   * No transaction is used because ingestion records snapshots concurrently; if the snapshot
+   * insert fails, the next re-scrape still differs from the latest snapshot and is recorded then
+   */
+  async recordVehicleSnapshot(snapshot: NewVehicleSnapshot, listingUpdate?: VehicleListingUpdate): Promise<void> {
+    try {
+      if (listingUpdate) {
+        await this.db
+          .updateTable('vehicles')
+          .set({
+            pricePln: listingUpdate.pricePln,
+            priceEur: listingUpdate.priceEur,
+            mileage: listingUpdate.mileage,
+            sourceTitle: listingUpdate.sourceTitle,
+            sourceDescriptionHtml: listingUpdate.sourceDescriptionHtml,
+            sourcePhotos: JSON.stringify(listingUpdate.sourcePhotos),
+            photos: JSON.stringify(listingUpdate.photos),
+            scrapedAt: listingUpdate.scrapedAt.toISOString(),
+            // New photos need re-hashing before the next duplicate detection run
+            ...(snapshot.changedFields.includes('photoCount') ? { photoHashes: null } : {}),
+          })
+          .where('id', '=', snapshot.vehicleId)
+          .execute();
+      }
+
+      await this.db
+        .insertInto('vehicle_snapshots')
+        .values({
+          vehicleId: snapshot.vehicleId,
+          pricePln: snapshot.pricePln,
+          priceEur: snapshot.priceEur,
+          mileage: snapshot.mileage,
+          title: snapshot.title,
+          descriptionHash: snapshot.descriptionHash,
+          photoCount: snapshot.photoCount,
+          changedFields: JSON.stringify(snapshot.changedFields),
+          capturedAt: snapshot.capturedAt.toISOString(),
+        })
+        .execute();
+
+      console.log(`✅ Vehicle snapshot recorded: ${snapshot.vehicleId}`);
+    } catch (error) {
+      console.error('❌ Failed to record vehicle snapshot:', error);
+      throw new Error(`Vehicle snapshot recording failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Store the raw detail-page HTML of a scrape, gzip-compressed
+   * Pages identical to the latest stored one are skipped, and only the latest
+   * VEHICLE_PAGES_KEPT pages of the vehicle are kept. No transaction is used because
+   * ingestion stores pages concurrently
+   * @returns true when the page was stored
+   */
+  async saveVehiclePage(page: NewVehiclePage): Promise<boolean> {
+    try {
+      const contentHash = crypto.createHash('sha256').update(page.html).digest('hex');
+
+      const latest = await this.db
+        .selectFrom('vehicle_pages')
+        .select('contentHash')
+        .where('vehicleId', '=', page.vehicleId)
+        .orderBy('scrapedAt', 'desc')
+        .limit(1)
+        .executeTakeFirst();
+
+      if (latest?.contentHash === contentHash) {
+        return false;
+      }
+
+      await this.db
+        .insertInto('vehicle_pages')
+        .values({
+          vehicleId: page.vehicleId,
+          htmlGzip: zlib.gzipSync(page.html),
+          htmlBytes: Buffer.byteLength(page.html),
+          contentHash,
+          scrapedAt: page.scrapedAt.toISOString(),
+        })
+        .execute();
+
+      await this.db
+        .deleteFrom('vehicle_pages')
+        .where('vehicleId', '=', page.vehicleId)
+        .where('id', 'not in', eb => eb
+          .selectFrom('vehicle_pages')
+          .select('id')
+          .where('vehicleId', '=', page.vehicleId)
+          .orderBy('scrapedAt', 'desc')
+          .limit(VEHICLE_PAGES_KEPT))
+        .execute();
+
+      return true;
+    } catch (error) {
+      console.error('❌ Failed to save vehicle page:', error);
+      throw new Error(`Vehicle page save failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Get the most recently scraped detail page of a vehicle
+   */
+  async getLatestVehiclePage(vehicleId: string): Promise<VehiclePage | null> {
+    try {
+      const result = await this.db
+        .selectFrom('vehicle_pages')
+        .selectAll()
+        .where('vehicleId', '=', vehicleId)
+        .orderBy('scrapedAt', 'desc')
+        .limit(1)
+        .executeTakeFirst();
+
+      return result ? this.mapDbVehiclePageToType(result) : null;
+    } catch (error) {
+      console.error('❌ Failed to get vehicle page:', error);
+      throw new Error(`Vehicle page retrieval failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Register marketplace sources so vehicles can reference them
+   * Known sources keep their key; their display name is updated
+   */
+  async registerVehicleSources(sources: VehicleSourceInfo[]): Promise<void> {
+    try {
+      for (const source of sources) {
+        await this.db
+          .insertInto('vehicle_sources')
+          .values({ key: source.key, name: source.name })
+          .onConflict((oc) => oc.column('key').doUpdateSet({ name: source.name }))
+          .execute();
+      }
+    } catch (error) {
+      console.error('❌ Failed to register vehicle sources:', error);
+      throw new Error(`Vehicle source registration failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Get the registered marketplace sources, ordered by key
+   */
+  async getVehicleSources(): Promise<VehicleSourceInfo[]> {
+    try {
+      const results = await this.db
+        .selectFrom('vehicle_sources')
+        .select(['key', 'name'])
+        .orderBy('key')
+        .execute();
+
+      return results.map(row => ({ key: row.key, name: row.name }));
+    } catch (error) {
+      console.error('❌ Failed to get vehicle sources:', error);
+      throw new Error(`Vehicle source retrieval failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Get the audit log of a vehicle, oldest event first
+   */
+  async getVehicleEvents(vehicleId: string): Promise<VehicleEvent[]> {
+    try {
+      const results = await this.db
+        .selectFrom('vehicle_events')
+        .selectAll()
+        .where('vehicleId', '=', vehicleId)
+        .orderBy('createdAt', 'asc')
+        .orderBy(sql`rowid`, 'asc')
+        .execute();
+
+      return results.map(event => this.mapDbVehicleEventToType(event));
+    } catch (error) {
+      console.error('❌ Failed to get vehicle events:', error);
+      throw new Error(`Vehicle event retrieval failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Append an event to a vehicle's audit log
+   * Status, note and price changes are recorded by database triggers; this is for events
+   * that are not a column change, such as analysis runs
+   */
+  async recordVehicleEvent(event: NewVehicleEvent, createdAt: Date = new Date()): Promise<void> {
+    try {
+      await this.db
+        .insertInto('vehicle_events')
+        .values({
+          vehicleId: event.vehicleId,
+          type: event.type,
+          fromValue: event.fromValue,
+          toValue: event.toValue,
+          createdAt: createdAt.toISOString(),
+        })
+        .execute();
+    } catch (error) {
+      console.error('❌ Failed to record vehicle event:', error);
+      throw new Error(`Vehicle event recording failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Record that listings were found in search results
+   * Delisted vehicles that reappear are active again; their workflow status is kept
+   * @returns Number of vehicles whose lastSeenAt was updated
+   */
+  async markVehiclesSeen(sourceUrls: string[], seenAt: Date = new Date()): Promise<number> {
+    if (sourceUrls.length === 0) {
+      return 0;
+    }
+
+    try {
+      const relisted = await this.db
+        .updateTable('vehicles')
+        .set({ listingState: 'active', delistedAt: null })
+        .where('sourceUrl', 'in', sourceUrls)
+        .where('listingState', 'in', DELISTED_STATUSES)
+        .execute();
+
+      const relistedCount = relisted.length > 0 ? Number(relisted[0].numUpdatedRows) : 0;
+      if (relistedCount > 0) {
+        console.log(`♻️  ${relistedCount} delisted vehicle(s) reappeared in search results`);
+      }
+
+      const result = await this.db
+        .updateTable('vehicles')
+        .set({ lastSeenAt: seenAt.toISOString() })
+        .where('sourceUrl', 'in', sourceUrls)
+        .execute();
+
+      return result.length > 0 ? Number(result[0].numUpdatedRows) : 0;
+    } catch (error) {
+      console.error('❌ Failed to mark vehicles as seen:', error);
+      throw new Error(`Vehicle last-seen update failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Find listed vehicles not seen in search results since the given date (for liveness checks)
+   * Deleted, not interesting and already delisted vehicles are skipped; least recently seen first
+   */
+  async findStaleVehicles(seenBefore: Date, limit?: number): Promise<VehicleType[]> {
+    try {
+      let query = this.db
+        .selectFrom('vehicles')
+        .selectAll()
+        .where('status', 'not in', ['deleted', 'not_interested'])
+        .where('listingState', '=', 'active')
+        .where((eb) =>
+          eb.or([
+            eb('lastSeenAt', 'is', null),
+            eb('lastSeenAt', '<', seenBefore.toISOString()),
+          ])
+        )
+        .orderBy('lastSeenAt', 'asc')
+        .orderBy('id', 'asc');
+
+      if (limit !== undefined) {
+        query = query.limit(limit);
+      }
+
+      const results = await query.execute();
+      return results.map(vehicle => this.mapDbVehicleToType(vehicle));
+    } catch (error) {
+      console.error('❌ Failed to find stale vehicles:', error);
+      throw new Error(`Vehicle retrieval failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Mark a vehicle as sold or removed from the marketplace
+   * Only the listing state changes; the user's workflow status is kept
+   */
+  async markVehicleDelisted(id: string, state: DelistedStatus, delistedAt: Date = new Date()): Promise<void> {
+    try {
+      const result = await this.db
+        .updateTable('vehicles')
+        .set({ listingState: state, delistedAt: delistedAt.toISOString() })
+        .where('id', '=', id)
+        .executeTakeFirst();
+
+      if (Number(result.numUpdatedRows) === 0) {
+        throw new Error(`Vehicle with ID ${id} not found`);
+      }
+
+      console.log(`✅ Vehicle listing marked as ${state}: ${id}`);
+    } catch (error) {
+      console.error('❌ Failed to mark vehicle as delisted:', error);
+      throw new Error(`Vehicle delisting failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Time-on-market statistics for delisted vehicles
+   * Measured from the listing's publication date to the date it was detected as delisted
+   */
+  async getTimeOnMarketStats(): Promise<TimeOnMarketStats[]> {
+    try {
+      const results = await this.db
+        .selectFrom('vehicles')
+        .select(['listingState', 'sourceCreatedAt', 'delistedAt'])
+        .where('listingState', 'in', DELISTED_STATUSES)
+        .where('delistedAt', 'is not', null)
+        .execute();
+
+      return DELISTED_STATUSES.map(status => {
+        const days = results
+          .filter(row => row.listingState === status)
+          .map(row => Math.max(0, (Date.parse(row.delistedAt!) - Date.parse(row.sourceCreatedAt)) / MS_PER_DAY))
+          .sort((a, b) => a - b);
+
+        return this.summarizeDays(status, days);
+      });
+    } catch (error) {
+      console.error('❌ Failed to get time-on-market stats:', error);
+      throw new Error(`Time-on-market stats failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Find listed vehicles with photos that have not been perceptually hashed yet
+   */
+  async findVehiclesWithoutPhotoHashes(limit?: number): Promise<VehicleType[]> {
+    try {
+      let query = this.db
+        .selectFrom('vehicles')
+        .selectAll()
+        .where('photoHashes', 'is', null)
+        .where('photos', '!=', '[]')
+        .where('status', '!=', 'deleted')
+        .orderBy('createdAt', 'asc')
+        .orderBy('id', 'asc');
+
+      if (limit !== undefined) {
+        query = query.limit(limit);
+      }
+
+      const results = await query.execute();
+      return results.map(vehicle => this.mapDbVehicleToType(vehicle));
+    } catch (error) {
+      console.error('❌ Failed to find vehicles without photo hashes:', error);
+      throw new Error(`Vehicle retrieval failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Store the perceptual hashes of a vehicle's photos (hex strings, in photo order)
+   */
+  async updateVehiclePhotoHashes(id: string, hashes: string[]): Promise<void> {
+    try {
+      const result = await this.db
+        .updateTable('vehicles')
+        .set({ photoHashes: JSON.stringify(hashes) })
+        .where('id', '=', id)
+        .executeTakeFirst();
+
+      if (Number(result.numUpdatedRows) === 0) {
+        throw new Error(`Vehicle with ID ${id} not found`);
+      }
+    } catch (error) {
+      console.error('❌ Failed to update vehicle photo hashes:', error);
+      throw new Error(`Photo hash update failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Get stored photo hashes by vehicle ID (vehicles not hashed yet are omitted)
+   */
+  async getPhotoHashes(): Promise<Map<string, string[]>> {
+    try {
+      const results = await this.db
+        .selectFrom('vehicles')
+        .select(['id', 'photoHashes'])
+        .where('photoHashes', 'is not', null)
+        .execute();
+
+      return new Map(results.map(row => [row.id, JSON.parse(row.photoHashes!) as string[]]));
+    } catch (error) {
+      console.error('❌ Failed to get photo hashes:', error);
+      throw new Error(`Photo hash retrieval failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Replace all duplicate clusters with the result of a detection run
+   * Each cluster lists its members with exactly one primary; its ID is the primary's vehicle ID
+   * @returns Number of clusters stored
+   */
+  async replaceDuplicateClusters(
+    clusters: NewDuplicateClusterMember[][],
+    detectedAt: Date = new Date()
+  ): Promise<number> {
+    try {
+      const rows = clusters.flatMap(members => {
+        const primary = members.find(member => member.isPrimary);
+        if (!primary) {
+          throw new Error(`Duplicate cluster has no primary listing: ${members.map(member => member.vehicleId).join(', ')}`);
+        }
+
+        return members.map(member => ({
+          vehicleId: member.vehicleId,
+          clusterId: primary.vehicleId,
+          isPrimary: member.isPrimary ? 1 : 0,
+          matchScore: member.matchScore,
+          matchReasons: JSON.stringify(member.matchReasons),
+          detectedAt: detectedAt.toISOString(),
+        }));
+      });
+
+      await this.db.deleteFrom('vehicle_duplicates').execute();
+
+      if (rows.length > 0) {
+        await this.db.insertInto('vehicle_duplicates').values(rows).execute();
+      }
+
+      console.log(`✅ Duplicate clusters stored: ${clusters.length}`);
+      return clusters.length;
+    } catch (error) {
+      console.error('❌ Failed to replace duplicate clusters:', error);
+      throw new Error(`Duplicate cluster update failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Get duplicate clusters, primary listing first
+   * When vehicleIds is given, only clusters containing one of those vehicles are returned
+   */
+  async getDuplicateClusters(vehicleIds?: string[]): Promise<DuplicateCluster[]> {
+    if (vehicleIds && vehicleIds.length === 0) {
+      return [];
+    }
+
+    try {
+      let query = this.db
+        .selectFrom('vehicle_duplicates')
+        .innerJoin('vehicles', 'vehicles.id', 'vehicle_duplicates.vehicleId')
+        .select([
+          'vehicle_duplicates.vehicleId',
+          'vehicle_duplicates.clusterId',
+          'vehicle_duplicates.isPrimary',
+          'vehicle_duplicates.matchScore',
+          'vehicle_duplicates.matchReasons',
+          'vehicles.source',
+          'vehicles.sourceUrl',
+          'vehicles.title',
+          'vehicles.priceEur',
+          'vehicles.status',
+        ])
+        .orderBy('vehicle_duplicates.clusterId', 'asc')
+        .orderBy('vehicle_duplicates.isPrimary', 'desc')
+        .orderBy('vehicle_duplicates.vehicleId', 'asc');
+
+      if (vehicleIds) {
+        query = query.where('vehicle_duplicates.clusterId', 'in', (eb) =>
+          eb.selectFrom('vehicle_duplicates').select('clusterId').where('vehicleId', 'in', vehicleIds)
+        );
+      }
+
+      const clusters = new Map<string, DuplicateListing[]>();
+      for (const row of await query.execute()) {
+        const listings = clusters.get(row.clusterId) ?? [];
+        listings.push({
+          vehicleId: row.vehicleId,
+          source: row.source,
+          sourceUrl: row.sourceUrl,
+          title: row.title,
+          priceEur: row.priceEur,
+          status: row.status,
+          isPrimary: row.isPrimary === 1,
+          matchScore: row.matchScore,
+          matchReasons: JSON.parse(row.matchReasons),
+        });
+        clusters.set(row.clusterId, listings);
+      }
+
+      return Array.from(clusters, ([clusterId, listings]) => ({ clusterId, listings }));
+    } catch (error) {
+      console.error('❌ Failed to get duplicate clusters:', error);
+      throw new Error(`Duplicate cluster retrieval failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Store a vehicle's personal fit score for a criteria profile, replacing any previous score
+   */
+  async saveFitScore(vehicleId: string, profileId: string, score: number, scoredAt: Date = new Date()): Promise<void> {
+    try {
+      await this.db
+        .insertInto('vehicle_fit_scores')
+        .values({ vehicleId, profileId, score, scoredAt: scoredAt.toISOString() })
+        .onConflict((oc) =>
+          oc.columns(['vehicleId', 'profileId']).doUpdateSet({ score, scoredAt: scoredAt.toISOString() })
+        )
+        .execute();
+    } catch (error) {
+      console.error('❌ Failed to save fit score:', error);
+      throw new Error(`Fit score update failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Get fit scores by vehicle ID, keyed by criteria profile ID (vehicles without scores are omitted)
+   */
+  async getFitScores(vehicleIds: string[]): Promise<Map<string, Record<string, number>>> {
+    const fitScores = new Map<string, Record<string, number>>();
+    if (vehicleIds.length === 0) {
+      return fitScores;
+    }
+
+    try {
+      const results = await this.db
+        .selectFrom('vehicle_fit_scores')
+        .select(['vehicleId', 'profileId', 'score'])
+        .where('vehicleId', 'in', vehicleIds)
+        .execute();
+
+      for (const row of results) {
+        fitScores.set(row.vehicleId, { ...fitScores.get(row.vehicleId), [row.profileId]: row.score });
+      }
+
+      return fitScores;
+    } catch (error) {
+      console.error('❌ Failed to get fit scores:', error);
+      throw new Error(`Fit score retrieval failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Take the pipeline lock for a scheduler process
+   * An expired lock is treated as left behind by a crashed process and replaced
+   * @returns Whether the owner now holds the lock
+   */
+  async acquirePipelineLock(owner: string, expiresAt: Date, now: Date = new Date()): Promise<boolean> {
+    try {
+      await this.db
+        .deleteFrom('pipeline_locks')
+        .where('name', '=', PIPELINE_LOCK_NAME)
+        .where('expiresAt', '<=', now.toISOString())
+        .execute();
+
+      await this.db
+        .insertInto('pipeline_locks')
+        .values({
+          name: PIPELINE_LOCK_NAME,
+          owner,
+          acquiredAt: now.toISOString(),
+          expiresAt: expiresAt.toISOString(),
+        })
+        .onConflict((oc) => oc.column('name').doNothing())
+        .execute();
+
+      const lock = await this.db
+        .selectFrom('pipeline_locks')
+        .select('owner')
+        .where('name', '=', PIPELINE_LOCK_NAME)
+        .executeTakeFirst();
+
+      return lock?.owner === owner;
+    } catch (error) {
+      console.error('❌ Failed to acquire pipeline lock:', error);
+      throw new Error(`Pipeline lock acquisition failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Release the pipeline lock if it is still held by the given owner
+   */
+  async releasePipelineLock(owner: string): Promise<void> {
+    try {
+      await this.db
+        .deleteFrom('pipeline_locks')
+        .where('name', '=', PIPELINE_LOCK_NAME)
+        .where('owner', '=', owner)
+        .execute();
+    } catch (error) {
+      console.error('❌ Failed to release pipeline lock:', error);
+      throw new Error(`Pipeline lock release failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Insert or update a pipeline run (saved after each stage so progress is visible)
+   */
+  async savePipelineRun(run: PipelineRun): Promise<void> {
+    const row = {
+      trigger: run.trigger,
+      schedule: run.schedule,
+      status: run.status,
+      stages: JSON.stringify(run.stages),
+      startedAt: run.startedAt.toISOString(),
+      finishedAt: run.finishedAt ? run.finishedAt.toISOString() : null,
+      ingestion: run.ingestion ? JSON.stringify(run.ingestion) : null,
+      translation: run.translation ? JSON.stringify(run.translation) : null,
+      analysis: run.analysis ? JSON.stringify(run.analysis) : null,
+      error: run.error,
+    };
+
+    try {
+      await this.db
+        .insertInto('pipeline_runs')
+        .values({ id: run.id, ...row })
+        .onConflict((oc) => oc.column('id').doUpdateSet(row))
+        .execute();
+    } catch (error) {
+      console.error('❌ Failed to save pipeline run:', error);
+      throw new Error(`Pipeline run update failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Get pipeline runs, most recent first
+   */
+  async getPipelineRuns(limit: number = DEFAULT_PIPELINE_RUN_LIMIT): Promise<PipelineRun[]> {
+    try {
+      const results = await this.db
+        .selectFrom('pipeline_runs')
+        .selectAll()
+        .orderBy('startedAt', 'desc')
+        .limit(limit)
+        .execute();
+
+      return results.map(row => this.mapDbPipelineRunToType(row));
+    } catch (error) {
+      console.error('❌ Failed to get pipeline runs:', error);
+      throw new Error(`Pipeline run retrieval failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Mark runs still 'running' as failed, for use once the pipeline lock is held
+   * (any such run belongs to a scheduler process that stopped mid-run)
+   * @returns Number of runs updated
+   */
+  async failInterruptedPipelineRuns(finishedAt: Date = new Date()): Promise<number> {
+    try {
+      const result = await this.db
+        .updateTable('pipeline_runs')
+        .set({
+          status: 'failed',
+          finishedAt: finishedAt.toISOString(),
+          error: 'Interrupted: the scheduler stopped before the run finished',
+        })
+        .where('status', '=', 'running')
+        .executeTakeFirst();
+
+      return Number(result.numUpdatedRows);
+    } catch (error) {
+      console.error('❌ Failed to update interrupted pipeline runs:', error);
+      throw new Error(`Pipeline run update failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Get the conversation log with a vehicle's seller, oldest message first
+   */
+  async getSellerMessages(vehicleId: string): Promise<SellerMessage[]> {
+    try {
+      const results = await this.db
+        .selectFrom('seller_messages')
+        .selectAll()
+        .where('vehicleId', '=', vehicleId)
+        .orderBy('createdAt', 'asc')
+        .orderBy('id', 'asc')
+        .execute();
+
+      return results.map(row => this.mapDbSellerMessageToType(row));
+    } catch (error) {
+      console.error('❌ Failed to get seller messages:', error);
+      throw new Error(`Seller message retrieval failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Append a message to the conversation log with a vehicle's seller
+   */
+  async addSellerMessage(message: NewSellerMessage): Promise<SellerMessage> {
+    try {
+      const result = await this.db
+        .insertInto('seller_messages')
+        .values({
+          vehicleId: message.vehicleId,
+          direction: message.direction,
+          messageType: message.messageType,
+          textPl: message.textPl,
+          textEn: message.textEn,
+          createdAt: (message.createdAt ?? new Date()).toISOString(),
+        })
+        .returningAll()
+        .executeTakeFirstOrThrow();
+
+      console.log(`✅ Seller message logged: ${message.vehicleId} (${message.direction})`);
+      return this.mapDbSellerMessageToType(result);
+    } catch (error) {
+      console.error('❌ Failed to add seller message:', error);
+      throw new Error(`Seller message creation failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Store a vehicle's market value analysis, replacing the previous one
+   */
+  async saveMarketValueAnalysis(analysis: MarketValueAnalysis): Promise<void> {
+    const row = {
+      model: analysis.model,
+      score: analysis.score,
+      priceEur: analysis.priceEur,
+      marketPriceEur: analysis.marketPriceEur,
+      percentDifference: analysis.percentDifference,
+      dealScore: analysis.dealScore,
+      sampleSize: analysis.sampleSize,
+      effectiveSampleSize: analysis.effectiveSampleSize,
+      confidence: analysis.confidence,
+      comparables: JSON.stringify(analysis.comparables),
+      calculatedAt: analysis.calculatedAt.toISOString(),
+    };
+
+    try {
+      await this.db
+        .insertInto('market_value_analyses')
+        .values({ vehicleId: analysis.vehicleId, ...row })
+        .onConflict((oc) => oc.column('vehicleId').doUpdateSet(row))
+        .execute();
+    } catch (error) {
+      console.error('❌ Failed to save market value analysis:', error);
+      throw new Error(`Market value analysis update failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Get the latest market value analysis of a vehicle (null if never calculated)
+   */
+  async getMarketValueAnalysis(vehicleId: string): Promise<MarketValueAnalysis | null> {
+    try {
+      const result = await this.db
+        .selectFrom('market_value_analyses')
+        .selectAll()
+        .where('vehicleId', '=', vehicleId)
+        .executeTakeFirst();
+
+      return result ? this.mapDbMarketValueAnalysisToType(result) : null;
+    } catch (error) {
+      console.error('❌ Failed to get market value analysis:', error);
+      throw new Error(`Market value analysis retrieval failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Store exchange rates, replacing any rate already stored for the same currency, date and source
+   * @returns Number of rates stored
+   */
+  async saveExchangeRates(rates: ExchangeRate[], importedAt: Date = new Date()): Promise<number> {
+    if (rates.length === 0) {
+      return 0;
+    }
+
+    try {
+      const rows = rates.map(rate => ({
+        currency: rate.currency.toUpperCase(),
+        date: rate.date,
+        ratePln: rate.ratePln,
+        source: rate.source,
+        importedAt: importedAt.toISOString(),
+      }));
+
+      await this.db
+        .insertInto('exchange_rates')
+        .values(rows)
+        .onConflict((oc) =>
+          oc.columns(['currency', 'date', 'source']).doUpdateSet((eb) => ({
+            ratePln: eb.ref('excluded.ratePln'),
+            importedAt: eb.ref('excluded.importedAt'),
+          }))
+        )
+        .execute();
+
+      console.log(`✅ Exchange rates stored: ${rows.length}`);
+      return rows.length;
+    } catch (error) {
+      console.error('❌ Failed to save exchange rates:', error);
+      throw new Error(`Exchange rate update failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Get the exchange rate effective on a date: the latest rate on or before it (NBP publishes
+   * no tables on weekends and holidays). A manual rate wins over an imported one for the same day.
+   * @param date - YYYY-MM-DD
+   * @returns The rate, or null if none is stored on or before the date
+   */
+  async getExchangeRate(currency: string, date: string): Promise<ExchangeRate | null> {
+    try {
+      const result = await this.db
+        .selectFrom('exchange_rates')
+        .selectAll()
+        .where('currency', '=', currency.toUpperCase())
+        .where('date', '<=', date)
+        .orderBy('date', 'desc')
+        .orderBy((eb) => eb.case().when('source', '=', 'manual').then(0).else(1).end())
+        .executeTakeFirst();
+
+      return result ? this.mapDbExchangeRateToType(result) : null;
+    } catch (error) {
+      console.error('❌ Failed to get exchange rate:', error);
+      throw new Error(`Exchange rate retrieval failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Apply a bulk action to vehicles in one transaction and record it for undo
+   * - set_status / delete: set the status ('deleted' for delete)
+   * - append_note: append the note to personalNotes as a new paragraph
+   * - reanalyze: clear the AI analysis fields, fit scores and market value analysis so the next analyze run redoes them
+   * IDs of missing vehicles are skipped, as are vehicles whose status is not in fromStatuses (checked
+   * in the transaction, so a concurrent status change cannot slip past it). Operations past their undo window are pruned.
+   * @returns The recorded operation, or null when none of the vehicles exist or may change
    */
-  async findVehicleByUrl(sourceUrl: string): Promise<VehicleType | null> {
+  async applyBulkOperation(operation: NewBulkOperation, createdAt: Date = new Date()): Promise<BulkOperation | null> {
+    if (operation.action === 'set_status' && !operation.status) {
+      throw new Error('Bulk set_status requires a status');
+    }
+    if (operation.action === 'append_note' && !operation.note) {
+      throw new Error('Bulk append_note requires a note');
+    }
+    if (operation.vehicleIds.length === 0) {
+      return null;
+    }
+
     try {
-      const result = await this.db
-        .selectFrom('vehicles')
-        .selectAll()
-        .where('sourceUrl', '=', sourceUrl)
-        .executeTakeFirst();
+      return await this.withTransaction(async trx => {
+        await trx
+          .deleteFrom('bulk_operations')
+          .where('undoExpiresAt', '<', createdAt.toISOString())
+          .execute();
 
-      return result ? this.mapDbVehicleToType(result) : null;
+        const rows = await trx
+          .selectFrom('vehicles')
+          .selectAll()
+          .where('id', 'in', operation.vehicleIds)
+          .execute();
+
+        // Keep the requested order
+        const rowsById = new Map(rows.map(row => [row.id, row]));
+        const vehicleIds = [...new Set(operation.vehicleIds)].filter(id => rowsById.has(id) &&
+          (!operation.fromStatuses || operation.fromStatuses.includes(rowsById.get(id)!.status)));
+        if (vehicleIds.length === 0) {
+          return null;
+        }
+        const vehicles = vehicleIds.map(id => rowsById.get(id)!);
+        const previousValues: Record<string, BulkPreviousValues> = {};
+        for (const vehicle of vehicles) {
+          const values: VehicleUpdate = {};
+          for (const field of BULK_ACTION_FIELDS[operation.action]) {
+            Object.assign(values, { [field]: vehicle[field] });
+          }
+          previousValues[vehicle.id] = { values };
+
+          await trx
+            .updateTable('vehicles')
+            .set(this.bulkUpdateFor(operation, vehicle))
+            .where('id', '=', vehicle.id)
+            .execute();
+        }
+
+        if (operation.action === 'reanalyze') {
+          const fitScores = await trx
+            .selectFrom('vehicle_fit_scores')
+            .selectAll()
+            .where('vehicleId', 'in', vehicleIds)
+            .execute();
+          const analyses = await trx
+            .selectFrom('market_value_analyses')
+            .selectAll()
+            .where('vehicleId', 'in', vehicleIds)
+            .execute();
+          for (const vehicleId of vehicleIds) {
+            previousValues[vehicleId].fitScores = fitScores.filter(fitScore => fitScore.vehicleId === vehicleId);
+            previousValues[vehicleId].marketValueAnalysis = analyses.find(analysis => analysis.vehicleId === vehicleId) ?? null;
+          }
+
+          await trx
+            .deleteFrom('vehicle_fit_scores')
+            .where('vehicleId', 'in', vehicleIds)
+            .execute();
+          await trx
+            .deleteFrom('market_value_analyses')
+            .where('vehicleId', 'in', vehicleIds)
+            .execute();
+        }
+
+        const result = await trx
+          .insertInto('bulk_operations')
+          .values({
+            action: operation.action,
+            vehicleIds: JSON.stringify(vehicleIds),
+            status: operation.action === 'set_status' ? operation.status! : null,
+            note: operation.action === 'append_note' ? operation.note! : null,
+            previousValues: JSON.stringify(previousValues),
+            createdAt: createdAt.toISOString(),
+            undoExpiresAt: operation.undoExpiresAt.toISOString(),
+          })
+          .returningAll()
+          .executeTakeFirstOrThrow();
+
+        console.log(`✅ Bulk ${operation.action} applied to ${vehicleIds.length} vehicles: ${result.id}`);
+        return this.mapDbBulkOperationToType(result);
+      });
     } catch (error) {
-      console.error('❌ Failed to find vehicle by URL:', error);
-      throw new Error(`Vehicle lookup failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      console.error('❌ Failed to apply bulk operation:', error);
+      throw new Error(`Bulk operation failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
   /**
-   * Find a vehicle by its ID
+   * Get a bulk operation by ID (null if unknown or already pruned)
    */
-  async findVehicleById(id: string): Promise<VehicleType | null> {
+  async getBulkOperation(id: string): Promise<BulkOperation | null> {
     try {
       const result = await this.db
-        .selectFrom('vehicles')
+        .selectFrom('bulk_operations')
         .selectAll()
         .where('id', '=', id)
         .executeTakeFirst();
 
-      return result ? this.mapDbVehicleToType(result) : null;
+      return result ? this.mapDbBulkOperationToType(result) : null;
     } catch (error) {
-      console.error('❌ Failed to find vehicle by ID:', error);
-      throw new Error(`Vehicle lookup failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      console.error('❌ Failed to get bulk operation:', error);
+      throw new Error(`Bulk operation retrieval failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
   /**
-   * Update a vehicle's data
+   * Restore the values a bulk operation replaced, in one transaction
+   * Changes made to the same fields after the operation are overwritten; deleted vehicles are skipped
+   * @returns The undone operation, or null when it is unknown, already undone or past its undo window
    */
-  async updateVehicle(id: string, updates: Partial<VehicleType>): Promise<void> {
+  async undoBulkOperation(id: string, undoneAt: Date = new Date()): Promise<BulkOperation | null> {
     try {
-      const dbUpdates: VehicleUpdate = {};
+      return await this.withTransaction(async trx => {
+        const operation = await trx
+          .selectFrom('bulk_operations')
+          .selectAll()
+          .where('id', '=', id)
+          .where('undoneAt', 'is', null)
+          .where('undoExpiresAt', '>=', undoneAt.toISOString())
+          .executeTakeFirst();
+        if (!operation) {
+          return null;
+        }
 
-      // Map only the fields that are being updated
-      if (updates.description !== undefined) dbUpdates.description = updates.description;
-      if (updates.features !== undefined) dbUpdates.features = JSON.stringify(updates.features);
-      if (updates.status !== undefined) dbUpdates.status = updates.status;
-      if (updates.personalNotes !== undefined) dbUpdates.personalNotes = updates.personalNotes;
-      if (updates.personalFitScore !== undefined) dbUpdates.personalFitScore = updates.personalFitScore;
-      if (updates.marketValueScore !== undefined) dbUpdates.marketValueScore = updates.marketValueScore;
-      if (updates.aiPriorityRating !== undefined) dbUpdates.aiPriorityRating = updates.aiPriorityRating;
-      if (updates.aiPrioritySummary !== undefined) dbUpdates.aiPrioritySummary = updates.aiPrioritySummary;
-      if (updates.aiMechanicReport !== undefined) dbUpdates.aiMechanicReport = updates.aiMechanicReport;
-      if (updates.aiDataSanityCheck !== undefined) dbUpdates.aiDataSanityCheck = updates.aiDataSanityCheck;
+        const previousValues: Record<string, BulkPreviousValues> = JSON.parse(operation.previousValues);
+        for (const [vehicleId, previous] of Object.entries(previousValues)) {
+          const updated = await trx
+            .updateTable('vehicles')
+            .set(previous.values)
+            .where('id', '=', vehicleId)
+            .executeTakeFirst();
+          if (Number(updated.numUpdatedRows) === 0) {
+            continue;
+          }
 
-      if (Object.keys(dbUpdates).length === 0) {
-        console.log('⚠️ No valid updates provided for vehicle:', id);
-        return;
-      }
+          if (previous.fitScores) {
+            await trx
+              .deleteFrom('vehicle_fit_scores')
+              .where('vehicleId', '=', vehicleId)
+              .execute();
+            if (previous.fitScores.length > 0) {
+              await trx.insertInto('vehicle_fit_scores').values(previous.fitScores).execute();
+            }
+          }
 
-      const result = await this.db
-        .updateTable('vehicles')
-        .set(dbUpdates)
-        .where('id', '=', id)
-        .execute();
+          if (previous.marketValueAnalysis !== undefined) {
+            await trx
+              .deleteFrom('market_value_analyses')
+              .where('vehicleId', '=', vehicleId)
+              .execute();
+            if (previous.marketValueAnalysis) {
+              await trx.insertInto('market_value_analyses').values(previous.marketValueAnalysis).execute();
+            }
+          }
+        }
 
-      if (result.length === 0) {
-        throw new Error(`Vehicle with ID ${id} not found`);
-      }
+        const result = await trx
+          .updateTable('bulk_operations')
+          .set({ undoneAt: undoneAt.toISOString() })
+          .where('id', '=', id)
+          .returningAll()
+          .executeTakeFirstOrThrow();
 
-      console.log(`✅ Vehicle updated successfully: ${id}`);
+        console.log(`✅ Bulk operation undone: ${id}`);
+        return this.mapDbBulkOperationToType(result);
+      });
     } catch (error) {
-      console.error('❌ Failed to update vehicle:', error);
-      throw new Error(`Vehicle update failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      console.error('❌ Failed to undo bulk operation:', error);
+      throw new Error(`Bulk operation undo failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
   /**
-   * Get all vehicles (for dashboard display)
+   * Schedule a visit to a vehicle together with its inspection checklist, in one transaction
    */
-  async getAllVehicles(): Promise<VehicleType[]> {
+  async createVisit(visit: NewVisit, createdAt: Date = new Date()): Promise<Visit> {
+    try {
+      return await this.withTransaction(async trx => {
+        const result = await trx
+          .insertInto('visits')
+          .values({
+            vehicleId: visit.vehicleId,
+            scheduledAt: visit.scheduledAt.toISOString(),
+            durationMinutes: visit.durationMinutes ?? DEFAULT_VISIT_DURATION_MINUTES,
+            location: visit.location ?? null,
+            contactName: visit.contactName ?? null,
+            contactPhone: visit.contactPhone ?? null,
+            notes: visit.notes ?? null,
+            status: 'scheduled',
+            createdAt: createdAt.toISOString(),
+            updatedAt: createdAt.toISOString(),
+          })
+          .returningAll()
+          .executeTakeFirstOrThrow();
+
+        const checklist = await this.insertChecklistItems(trx, result.id, visit.checklist, new Set());
+
+        console.log(`✅ Visit scheduled: ${visit.vehicleId} (${checklist.length} checklist items)`);
+        return this.mapDbVisitToType(result, checklist);
+      });
+    } catch (error) {
+      console.error('❌ Failed to create visit:', error);
+      throw new Error(`Visit creation failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Get a vehicle's visits with their checklists, earliest appointment first
+   */
+  async getVisits(vehicleId: string): Promise<Visit[]> {
     try {
       const results = await this.db
-        .selectFrom('vehicles')
+        .selectFrom('visits')
         .selectAll()
-        .orderBy('createdAt', 'desc')
+        .where('vehicleId', '=', vehicleId)
+        .orderBy('scheduledAt', 'asc')
+        .orderBy('createdAt', 'asc')
         .execute();
 
-      return results.map(vehicle => this.mapDbVehicleToType(vehicle));
+      return await this.withChecklists(results);
     } catch (error) {
-      console.error('❌ Failed to get all vehicles:', error);
-      throw new Error(`Vehicle retrieval failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      console.error('❌ Failed to get visits:', error);
+      throw new Error(`Visit retrieval failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
   /**
-   * Get vehicles by status (for filtering)
+   * Get a visit with its checklist by ID
    */
-  async getVehiclesByStatus(status: VehicleType['status']): Promise<VehicleType[]> {
+  async getVisit(id: string): Promise<Visit | null> {
+    try {
+      const result = await this.db
+        .selectFrom('visits')
+        .selectAll()
+        .where('id', '=', id)
+        .executeTakeFirst();
+
+      if (!result) {
+        return null;
+      }
+      const [visit] = await this.withChecklists([result]);
+      return visit;
+    } catch (error) {
+      console.error('❌ Failed to get visit:', error);
+      throw new Error(`Visit retrieval failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Get scheduled visits (all vehicles) from the given time on, earliest first
+   */
+  async getUpcomingVisits(from: Date = new Date()): Promise<Visit[]> {
     try {
       const results = await this.db
-        .selectFrom('vehicles')
+        .selectFrom('visits')
         .selectAll()
-        .where('status', '=', status)
-        .orderBy('createdAt', 'desc')
+        .where('status', '=', 'scheduled')
+        .where('scheduledAt', '>=', from.toISOString())
+        .orderBy('scheduledAt', 'asc')
         .execute();
 
-      return results.map(vehicle => this.mapDbVehicleToType(vehicle));
+      return await this.withChecklists(results);
     } catch (error) {
-      console.error('❌ Failed to get vehicles by status:', error);
-      throw new Error(`Vehicle retrieval failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      console.error('❌ Failed to get upcoming visits:', error);
+      throw new Error(`Upcoming visit retrieval failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
   /**
-   * Delete a vehicle by ID
+   * Update a visit's appointment details or status
+   * @returns The updated visit, or null when it does not exist
    */
-  async deleteVehicle(id: string): Promise<void> {
+  async updateVisit(id: string, updates: VisitUpdate, updatedAt: Date = new Date()): Promise<Visit | null> {
     try {
       const result = await this.db
-        .deleteFrom('vehicles')
+        .updateTable('visits')
+        .set({
+          ...updates,
+          scheduledAt: updates.scheduledAt?.toISOString(),
+          updatedAt: updatedAt.toISOString(),
+        })
         .where('id', '=', id)
-        .execute();
+        .returningAll()
+        .executeTakeFirst();
 
-      if (result.length === 0) {
-        throw new Error(`Vehicle with ID ${id} not found`);
+      if (!result) {
+        return null;
       }
+      const [visit] = await this.withChecklists([result]);
+      return visit;
+    } catch (error) {
+      console.error('❌ Failed to update visit:', error);
+      throw new Error(`Visit update failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
 
-      console.log(`✅ Vehicle deleted successfully: ${id}`);
+  /**
+   * Replace a visit's inspection checklist, in one transaction
+   * Items keep their ID when it already belongs to this visit; all others get a new one
+   * @returns The updated visit, or null when it does not exist
+   */
+  async replaceVisitChecklist(visitId: string, items: NewInspectionItem[], updatedAt: Date = new Date()): Promise<Visit | null> {
+    try {
+      return await this.withTransaction(async trx => {
+        const result = await trx
+          .updateTable('visits')
+          .set({ updatedAt: updatedAt.toISOString() })
+          .where('id', '=', visitId)
+          .returningAll()
+          .executeTakeFirst();
+        if (!result) {
+          return null;
+        }
+
+        const existing = await trx
+          .deleteFrom('visit_checklist_items')
+          .where('visitId', '=', visitId)
+          .returning('id')
+          .execute();
+        const checklist = await this.insertChecklistItems(trx, visitId, items, new Set(existing.map(row => row.id)));
+
+        console.log(`✅ Visit checklist saved: ${visitId} (${checklist.length} items)`);
+        return this.mapDbVisitToType(result, checklist);
+      });
     } catch (error) {
-      console.error('❌ Failed to delete vehicle:', error);
-      throw new Error(`Vehicle deletion failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      console.error('❌ Failed to replace visit checklist:', error);
+      throw new Error(`Visit checklist update failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
@@ -232,8 +1593,9 @@ export class VehicleRepository {
   /**
    * Find vehicles that need any analysis step (resumable pipeline)
    * Returns vehicles where at least one analysis field is null
+   * @param profileId When given, a missing fit score means no score stored for this criteria profile
    */
-  async findVehiclesNeedingAnalysis(): Promise<VehicleType[]> {
+  async findVehiclesNeedingAnalysis(profileId?: string): Promise<VehicleType[]> {
     try {
       const results = await this.db
         .selectFrom('vehicles')
@@ -242,7 +1604,9 @@ export class VehicleRepository {
           eb.or([
             eb('description', 'is', null),
             eb('aiDataSanityCheck', 'is', null),
-            eb('personalFitScore', 'is', null),
+            profileId !== undefined
+              ? eb(this.fitScoreOf(eb, profileId), 'is', null)
+              : eb('personalFitScore', 'is', null),
             eb('aiMechanicReport', 'is', null),
             eb('marketValueScore', 'is', null),
             eb('aiPriorityRating', 'is', null),
@@ -455,7 +1819,7 @@ export class VehicleRepository {
 
   /**
    * Find comparable vehicles for market value analysis
-   * Returns vehicles matching make/model within specified year and mileage ranges
+   * Returns vehicles matching the make/model attributes within specified year and mileage ranges
    */
   async findComparableVehicles(params: {
     source: VehicleType['source'];
@@ -468,25 +1832,13 @@ export class VehicleRepository {
     try {
       const { source, make, model, year, mileage, excludeId } = params;
 
-      // Query with make/model JSON search and year/mileage range filtering
+      // Make/model columns compare case-insensitively (COLLATE NOCASE)
       const results = await this.db
         .selectFrom('vehicles')
         .selectAll()
         .where('source', '=', source)
-        .where((eb) =>
-          eb.or([
-            eb('sourceParameters', 'like', `%"Marka pojazdu":"${make}"%`),
-            eb('sourceParameters', 'like', `%"make":"${make}"%`),
-            eb('sourceParameters', 'like', `%"Make":"${make}"%`),
-          ])
-        )
-        .where((eb) =>
-          eb.or([
-            eb('sourceParameters', 'like', `%"Model pojazdu":"${model}"%`),
-            eb('sourceParameters', 'like', `%"model":"${model}"%`),
-            eb('sourceParameters', 'like', `%"Model":"${model}"%`),
-          ])
-        )
+        .where('make', '=', make)
+        .where('model', '=', model)
         .where('year', '>=', year - 3) // ±3 years for older vehicles
         .where('year', '<=', year + 3)
         .where('mileage', '>=', mileage - 50000) // ±50k km wider range
@@ -502,6 +1854,401 @@ export class VehicleRepository {
     }
   }
 
+  /**
+   * Build the WHERE expression for a vehicle query
+   * Features are stored as a JSON array, so inclusion is matched on the quoted value
+   */
+  private buildVehicleFilter(
+    eb: ExpressionBuilder<DatabaseSchema, 'vehicles'>,
+    query: VehicleQuery
+  ): Expression<SqlBool> {
+    const conditions: Expression<SqlBool>[] = [];
+
+    if (query.status && query.status.length > 0) {
+      conditions.push(eb('status', 'in', query.status));
+    }
+    if (query.listingState && query.listingState.length > 0) {
+      conditions.push(eb('listingState', 'in', query.listingState));
+    }
+    if (query.source !== undefined) {
+      conditions.push(eb('source', '=', query.source));
+    }
+    if (query.minPriceEur !== undefined) {
+      conditions.push(eb('priceEur', '>=', query.minPriceEur));
+    }
+    if (query.maxPriceEur !== undefined) {
+      conditions.push(eb('priceEur', '<=', query.maxPriceEur));
+    }
+    if (query.minYear !== undefined) {
+      conditions.push(eb('year', '>=', query.minYear));
+    }
+    if (query.maxYear !== undefined) {
+      conditions.push(eb('year', '<=', query.maxYear));
+    }
+    if (query.minMileage !== undefined) {
+      conditions.push(eb('mileage', '>=', query.minMileage));
+    }
+    if (query.maxMileage !== undefined) {
+      conditions.push(eb('mileage', '<=', query.maxMileage));
+    }
+    if (query.minPersonalFitScore !== undefined) {
+      conditions.push(
+        query.profileId !== undefined
+          ? eb(this.fitScoreOf(eb, query.profileId), '>=', query.minPersonalFitScore)
+          : eb('personalFitScore', '>=', query.minPersonalFitScore)
+      );
+    }
+    if (query.minAiPriorityRating !== undefined) {
+      conditions.push(eb('aiPriorityRating', '>=', query.minAiPriorityRating));
+    }
+    for (const feature of query.features ?? []) {
+      conditions.push(this.containsText('features', JSON.stringify(feature)));
+    }
+    if (query.collapseDuplicates) {
+      // A non-primary listing is only hidden when its primary matches the same filters,
+      // otherwise filtering out the primary would hide the whole cluster
+      conditions.push(
+        eb('id', 'not in', eb
+          .selectFrom('vehicle_duplicates as member')
+          .innerJoin('vehicle_duplicates as primary', join => join
+            .onRef('primary.clusterId', '=', 'member.clusterId')
+            .on('primary.isPrimary', '=', 1))
+          .select('member.vehicleId')
+          .where('member.isPrimary', '=', 0)
+          .where('primary.vehicleId', 'in', this.db
+            .selectFrom('vehicles')
+            .select('id')
+            .where(inner => this.buildVehicleFilter(inner, { ...query, collapseDuplicates: false }))))
+      );
+    }
+    if (query.search && query.search.trim() !== '') {
+      const search = query.search.trim();
+      conditions.push(
+        eb.or((['title', 'description', 'sourceTitle'] as const).map(column => this.containsText(column, search)))
+      );
+    }
+
+    return eb.and(conditions);
+  }
+
+  /**
+   * LIKE match of a column containing text, with % and _ in the text matched literally
+   */
+  private containsText(column: 'title' | 'description' | 'sourceTitle' | 'features', text: string): Expression<SqlBool> {
+    const pattern = `%${text.replace(/[\\%_]/g, char => `\\${char}`)}%`;
+    return sql<SqlBool>`${sql.ref(column)} LIKE ${pattern} ESCAPE '\\'`;
+  }
+
+  /**
+   * Column values a bulk action sets on one vehicle
+   */
+  private bulkUpdateFor(operation: NewBulkOperation, vehicle: Vehicle): VehicleUpdate {
+    switch (operation.action) {
+      case 'set_status':
+        return { status: operation.status! };
+      case 'delete':
+        return { status: 'deleted' };
+      case 'append_note':
+        return { personalNotes: vehicle.personalNotes ? `${vehicle.personalNotes}\n\n${operation.note}` : operation.note! };
+      case 'reanalyze':
+        return {
+          personalFitScore: null,
+          marketValueScore: null,
+          aiPriorityRating: null,
+          aiPrioritySummary: null,
+          aiMechanicReport: null,
+          aiDataSanityCheck: null,
+        };
+    }
+  }
+
+  /**
+   * Insert checklist items in order, reusing IDs from reusableIds (items removed by the caller)
+   */
+  private async insertChecklistItems(
+    trx: Transaction<DatabaseSchema>,
+    visitId: string,
+    items: NewInspectionItem[],
+    reusableIds: Set<string>
+  ): Promise<InspectionItem[]> {
+    const checklist: InspectionItem[] = [];
+
+    // One row at a time: SQLite has no DEFAULT in multi-row VALUES, so new IDs would be NULL
+    for (const [position, item] of items.entries()) {
+      const row = await trx
+        .insertInto('visit_checklist_items')
+        .values({
+          ...(item.id && reusableIds.has(item.id) ? { id: item.id } : {}),
+          visitId,
+          position,
+          label: item.label,
+          critical: item.critical ? 1 : 0,
+          source: item.source,
+          result: item.result ?? 'pending',
+          notes: item.notes ?? null,
+        })
+        .returningAll()
+        .executeTakeFirstOrThrow();
+
+      checklist.push(this.mapDbInspectionItemToType(row));
+    }
+
+    return checklist;
+  }
+
+  /**
+   * Load the checklists of the given visit records and map them to Visit
+   */
+  private async withChecklists(dbVisits: VisitRow[]): Promise<Visit[]> {
+    if (dbVisits.length === 0) {
+      return [];
+    }
+
+    const items = await this.db
+      .selectFrom('visit_checklist_items')
+      .selectAll()
+      .where('visitId', 'in', dbVisits.map(visit => visit.id))
+      .orderBy('position', 'asc')
+      .execute();
+
+    const checklists = new Map<string, InspectionItem[]>();
+    for (const item of items) {
+      const checklist = checklists.get(item.visitId) ?? [];
+      checklist.push(this.mapDbInspectionItemToType(item));
+      checklists.set(item.visitId, checklist);
+    }
+
+    return dbVisits.map(visit => this.mapDbVisitToType(visit, checklists.get(visit.id) ?? []));
+  }
+
+  /**
+   * Run work in a transaction, rolling back when it throws
+   * The database hands out its connection to one transaction at a time (SerializedLibsqlDialect),
+   * so queries of other requests wait for it; work must query through trx, this.db would wait forever
+   */
+  private async withTransaction<T>(work: (trx: Transaction<DatabaseSchema>) => Promise<T>): Promise<T> {
+    return await this.db.transaction().execute(work);
+  }
+
+  /**
+   * Subquery selecting a vehicle's fit score for a criteria profile (NULL when not scored)
+   */
+  private fitScoreOf(eb: ExpressionBuilder<DatabaseSchema, 'vehicles'>, profileId: string) {
+    return eb
+      .selectFrom('vehicle_fit_scores')
+      .select('vehicle_fit_scores.score')
+      .whereRef('vehicle_fit_scores.vehicleId', '=', 'vehicles.id')
+      .where('vehicle_fit_scores.profileId', '=', profileId);
+  }
+
+  /**
+   * Summarize sorted day counts, rounded to one decimal
+   */
+  private summarizeDays(status: DelistedStatus, sortedDays: number[]): TimeOnMarketStats {
+    const round = (value: number) => Math.round(value * 10) / 10;
+    const count = sortedDays.length;
+
+    if (count === 0) {
+      return { status, count, averageDays: 0, medianDays: 0, minDays: 0, maxDays: 0 };
+    }
+
+    const middle = Math.floor(count / 2);
+    const median = count % 2 === 0 ? (sortedDays[middle - 1] + sortedDays[middle]) / 2 : sortedDays[middle];
+
+    return {
+      status,
+      count,
+      averageDays: round(sortedDays.reduce((sum, days) => sum + days, 0) / count),
+      medianDays: round(median),
+      minDays: round(sortedDays[0]),
+      maxDays: round(sortedDays[count - 1]),
+    };
+  }
+
+  /**
+   * Map database snapshot record to @car-finder/types VehicleSnapshot interface
+   */
+  private mapDbSnapshotToType(dbSnapshot: VehicleSnapshotRow): VehicleSnapshot {
+    return {
+      id: dbSnapshot.id,
+      vehicleId: dbSnapshot.vehicleId,
+      pricePln: dbSnapshot.pricePln,
+      priceEur: dbSnapshot.priceEur,
+      mileage: dbSnapshot.mileage,
+      title: dbSnapshot.title,
+      descriptionHash: dbSnapshot.descriptionHash,
+      photoCount: dbSnapshot.photoCount,
+      changedFields: JSON.parse(dbSnapshot.changedFields),
+      capturedAt: new Date(dbSnapshot.capturedAt),
+    };
+  }
+
+  /**
+   * Map database page record to @car-finder/types VehiclePage interface
+   */
+  private mapDbVehiclePageToType(dbPage: VehiclePageRow): VehiclePage {
+    return {
+      id: dbPage.id,
+      vehicleId: dbPage.vehicleId,
+      html: zlib.gunzipSync(dbPage.htmlGzip).toString('utf8'),
+      contentHash: dbPage.contentHash,
+      scrapedAt: new Date(dbPage.scrapedAt),
+    };
+  }
+
+  /**
+   * Map database pipeline run record to @car-finder/types PipelineRun interface
+   */
+  private mapDbPipelineRunToType(dbRun: PipelineRunRow): PipelineRun {
+    const parseRunLog = (json: string | null) => json === null
+      ? null
+      : JSON.parse(json, (key, value) => RUN_LOG_DATE_FIELDS.has(key) && typeof value === 'string' ? new Date(value) : value);
+
+    return {
+      id: dbRun.id,
+      trigger: dbRun.trigger,
+      schedule: dbRun.schedule,
+      status: dbRun.status,
+      stages: JSON.parse(dbRun.stages),
+      startedAt: new Date(dbRun.startedAt),
+      finishedAt: dbRun.finishedAt ? new Date(dbRun.finishedAt) : null,
+      ingestion: parseRunLog(dbRun.ingestion),
+      translation: parseRunLog(dbRun.translation),
+      analysis: parseRunLog(dbRun.analysis),
+      error: dbRun.error,
+    };
+  }
+
+  /**
+   * Map database seller message record to @car-finder/types SellerMessage interface
+   */
+  private mapDbSellerMessageToType(dbMessage: SellerMessageRow): SellerMessage {
+    return {
+      id: dbMessage.id,
+      vehicleId: dbMessage.vehicleId,
+      direction: dbMessage.direction,
+      messageType: dbMessage.messageType,
+      textPl: dbMessage.textPl,
+      textEn: dbMessage.textEn,
+      createdAt: new Date(dbMessage.createdAt),
+    };
+  }
+
+  /**
+   * Map database market value analysis record to @car-finder/types MarketValueAnalysis interface
+   */
+  private mapDbMarketValueAnalysisToType(dbAnalysis: MarketValueAnalysisRow): MarketValueAnalysis {
+    return {
+      vehicleId: dbAnalysis.vehicleId,
+      model: dbAnalysis.model,
+      score: dbAnalysis.score,
+      priceEur: dbAnalysis.priceEur,
+      marketPriceEur: dbAnalysis.marketPriceEur,
+      percentDifference: dbAnalysis.percentDifference,
+      dealScore: dbAnalysis.dealScore,
+      sampleSize: dbAnalysis.sampleSize,
+      effectiveSampleSize: dbAnalysis.effectiveSampleSize,
+      confidence: dbAnalysis.confidence,
+      comparables: JSON.parse(dbAnalysis.comparables),
+      calculatedAt: new Date(dbAnalysis.calculatedAt),
+    };
+  }
+
+  /**
+   * Map database exchange rate record to @car-finder/types ExchangeRate interface
+   */
+  private mapDbExchangeRateToType(dbRate: ExchangeRateRow): ExchangeRate {
+    return {
+      currency: dbRate.currency,
+      date: dbRate.date,
+      ratePln: dbRate.ratePln,
+      source: dbRate.source,
+    };
+  }
+
+  /**
+   * Map database bulk operation record to @car-finder/types BulkOperation interface
+   */
+  private mapDbBulkOperationToType(dbOperation: BulkOperationRow): BulkOperation {
+    return {
+      id: dbOperation.id,
+      action: dbOperation.action,
+      vehicleIds: JSON.parse(dbOperation.vehicleIds),
+      status: dbOperation.status as BulkOperation['status'],
+      note: dbOperation.note,
+      createdAt: new Date(dbOperation.createdAt),
+      undoExpiresAt: new Date(dbOperation.undoExpiresAt),
+      undoneAt: dbOperation.undoneAt ? new Date(dbOperation.undoneAt) : null,
+    };
+  }
+
+  /**
+   * Map database vehicle event record to @car-finder/types VehicleEvent interface
+   */
+  private mapDbVehicleEventToType(dbEvent: VehicleEventRow): VehicleEvent {
+    return {
+      id: dbEvent.id,
+      vehicleId: dbEvent.vehicleId,
+      type: dbEvent.type,
+      fromValue: dbEvent.fromValue,
+      toValue: dbEvent.toValue,
+      createdAt: new Date(dbEvent.createdAt),
+    };
+  }
+
+  /**
+   * Map database visit record to @car-finder/types Visit interface
+   */
+  private mapDbVisitToType(dbVisit: VisitRow, checklist: InspectionItem[]): Visit {
+    return {
+      id: dbVisit.id,
+      vehicleId: dbVisit.vehicleId,
+      scheduledAt: new Date(dbVisit.scheduledAt),
+      durationMinutes: dbVisit.durationMinutes,
+      location: dbVisit.location,
+      contactName: dbVisit.contactName,
+      contactPhone: dbVisit.contactPhone,
+      notes: dbVisit.notes,
+      status: dbVisit.status,
+      checklist,
+      createdAt: new Date(dbVisit.createdAt),
+      updatedAt: new Date(dbVisit.updatedAt),
+    };
+  }
+
+  /**
+   * Map database checklist item record to @car-finder/types InspectionItem interface
+   */
+  private mapDbInspectionItemToType(dbItem: VisitChecklistItemRow): InspectionItem {
+    return {
+      id: dbItem.id,
+      label: dbItem.label,
+      critical: dbItem.critical === 1,
+      source: dbItem.source,
+      result: dbItem.result,
+      notes: dbItem.notes,
+    };
+  }
+
+  /**
+   * Map structured attributes to their vehicle columns
+   */
+  private mapAttributesToDb(attributes: VehicleAttributes): VehicleUpdate {
+    return {
+      make: attributes.make,
+      model: attributes.model,
+      engineSizeCc: attributes.engineSizeCc,
+      horsepower: attributes.horsepower,
+      fuelType: attributes.fuelType,
+      transmission: attributes.transmission,
+      bodyType: attributes.bodyType,
+      seats: attributes.seats,
+      wheelbase: attributes.wheelbase,
+      color: attributes.color,
+      vin: attributes.vin,
+    };
+  }
+
   /**
    * Map database vehicle record to @car-finder/types Vehicle interface
    */
@@ -532,6 +2279,19 @@ export class VehicleRepository {
       // Seller information
       sellerInfo: JSON.parse(dbVehicle.sellerInfo) as SellerInfo,
       photos: JSON.parse(dbVehicle.photos),
+      attributes: {
+        make: dbVehicle.make,
+        model: dbVehicle.model,
+        engineSizeCc: dbVehicle.engineSizeCc,
+        horsepower: dbVehicle.horsepower,
+        fuelType: dbVehicle.fuelType,
+        transmission: dbVehicle.transmission,
+        bodyType: dbVehicle.bodyType,
+        seats: dbVehicle.seats,
+        wheelbase: dbVehicle.wheelbase,
+        color: dbVehicle.color,
+        vin: dbVehicle.vin,
+      },
       
       // AI generated data
       personalFitScore: dbVehicle.personalFitScore,
@@ -549,6 +2309,11 @@ export class VehicleRepository {
       scrapedAt: new Date(dbVehicle.scrapedAt),
       createdAt: new Date(dbVehicle.createdAt),
       updatedAt: new Date(dbVehicle.updatedAt),
+
+      // Marketplace lifecycle
+      lastSeenAt: dbVehicle.lastSeenAt ? new Date(dbVehicle.lastSeenAt) : null,
+      listingState: dbVehicle.listingState,
+      delistedAt: dbVehicle.delistedAt ? new Date(dbVehicle.delistedAt) : null,
     };
   }
 }
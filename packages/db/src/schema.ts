@@ -1,4 +1,4 @@
-import { Generated, Insertable, Selectable, Updateable } from 'kysely';
+import { ColumnType, Generated, Insertable, Selectable, Updateable } from 'kysely';
 
 // Database table interface that matches the Vehicle type from @car-finder/types
 export interface VehicleTable {
@@ -6,7 +6,7 @@ export interface VehicleTable {
   id: Generated<string>;
   
   // Source information
-  source: 'otomoto' | 'olx';
+  source: string; // Key in vehicle_sources
   sourceId: string;
   sourceUrl: string;
   sourceCreatedAt: string; // ISO date string
@@ -40,97 +40,236 @@ export interface VehicleTable {
   aiDataSanityCheck: string | null;
   
   // User workflow data
-  status: 'new' | 'to_contact' | 'contacted' | 'to_visit' | 'visited' | 'not_interested' | 'deleted';
+  status: 'new' | 'to_contact' | 'contacted' | 'to_visit' | 'visited' | 'not_interested' | 'deleted' | 'sold' | 'removed';
   personalNotes: string | null;
   
   // Timestamps
   scrapedAt: string; // ISO date string
   createdAt: Generated<string>; // Auto-generated ISO date string
   updatedAt: Generated<string>; // Auto-updated ISO date string
+
+  // Marketplace lifecycle (see migration 003)
+  lastSeenAt: string | null; // ISO date string
+  delistedAt: string | null; // ISO date string
+  listingState: Generated<'active' | 'sold' | 'removed'>; // Set by the liveness check (see migration 017)
+
+  // Duplicate detection (see migration 004)
+  photoHashes: string | null; // JSON array string of hex perceptual hashes, NULL until hashed
+
+  // Structured attributes normalized from sourceParameters (see migration 010)
+  make: string | null;
+  model: string | null;
+  engineSizeCc: number | null;
+  horsepower: number | null;
+  fuelType: 'diesel' | 'petrol' | 'lpg' | 'electric' | 'hybrid' | null;
+  transmission: 'manual' | 'automatic' | null;
+  bodyType: string | null;
+  seats: number | null;
+  wheelbase: string | null;
+  color: string | null;
+  vin: string | null;
+}
+
+// Listing history captured at each scrape (see migration 002)
+export interface VehicleSnapshotTable {
+  id: Generated<string>;
+  vehicleId: string;
+  pricePln: number;
+  priceEur: number;
+  mileage: number;
+  title: string;
+  descriptionHash: string;
+  photoCount: number;
+  changedFields: string; // JSON array string of VehicleChangeField
+  capturedAt: string; // ISO date string
+}
+
+// Raw detail-page HTML of each scrape, gzip-compressed (see migration 015)
+export interface VehiclePageTable {
+  id: Generated<string>;
+  vehicleId: string;
+  htmlGzip: ColumnType<ArrayBuffer, Uint8Array, never>; // libsql reads BLOBs as ArrayBuffer
+  htmlBytes: number; // Uncompressed size
+  contentHash: string; // SHA-256 of the HTML
+  scrapedAt: string; // ISO date string
+}
+
+// Marketplaces vehicles can come from, registered by ingestion (see migration 016)
+export interface VehicleSourceTable {
+  key: string;
+  name: string;
+  registeredAt: Generated<string>; // ISO date string
+}
+
+// Clusters of listings detected as the same vehicle (see migration 004)
+export interface VehicleDuplicateTable {
+  vehicleId: string;
+  clusterId: string; // ID of the cluster's primary vehicle
+  isPrimary: number; // SQLite boolean (0/1)
+  matchScore: number;
+  matchReasons: string; // JSON array string of DuplicateMatchReason
+  detectedAt: string; // ISO date string
+}
+
+// Personal fit score per vehicle and criteria profile (see migration 005)
+export interface VehicleFitScoreTable {
+  vehicleId: string;
+  profileId: string;
+  score: number;
+  scoredAt: string; // ISO date string
+}
+
+// History of scheduled pipeline runs (see migration 006)
+export interface PipelineRunTable {
+  id: string;
+  trigger: 'schedule' | 'manual';
+  schedule: string | null; // Cron expression that started the run
+  status: 'running' | 'completed' | 'failed' | 'skipped';
+  stages: string; // JSON array string of PipelineStage
+  startedAt: string; // ISO date string
+  finishedAt: string | null; // ISO date string
+  ingestion: string | null; // JSON string of IngestionStats
+  translation: string | null; // JSON string of TranslationRunLog
+  analysis: string | null; // JSON string of AnalysisRunLog
+  error: string | null;
+}
+
+export interface PipelineLockTable {
+  name: string;
+  owner: string; // ID of the scheduler process holding the lock
+  acquiredAt: string; // ISO date string
+  expiresAt: string; // ISO date string
+}
+
+// Conversation log with each vehicle's seller (see migration 007)
+export interface SellerMessageTable {
+  id: Generated<string>;
+  vehicleId: string;
+  direction: 'outgoing' | 'incoming';
+  messageType: 'inquiry' | 'negotiation' | null;
+  textPl: string;
+  textEn: string;
+  createdAt: string; // ISO date string
+}
+
+// Latest market value calculation per vehicle (see migrations 008, 009)
+export interface MarketValueAnalysisTable {
+  vehicleId: string;
+  model: 'weighted' | 'regression';
+  score: string;
+  priceEur: number;
+  marketPriceEur: number;
+  percentDifference: number;
+  dealScore: number | null;
+  sampleSize: number;
+  effectiveSampleSize: number;
+  confidence: 'low' | 'medium' | 'high';
+  comparables: string; // JSON array string of MarketValueComparable
+  calculatedAt: string; // ISO date string
+}
+
+// Dated PLN exchange rates per currency (see migration 011)
+export interface ExchangeRateTable {
+  currency: string; // ISO 4217 code
+  date: string; // YYYY-MM-DD
+  ratePln: number; // PLN per 1 unit of the currency
+  source: string; // "nbp" or "manual"
+  importedAt: string; // ISO date string
+}
+
+// Undoable bulk operations from the dashboard (see migration 012)
+export interface BulkOperationTable {
+  id: Generated<string>;
+  action: 'set_status' | 'append_note' | 'reanalyze' | 'delete';
+  vehicleIds: string; // JSON array string of the changed vehicle IDs
+  status: string | null;
+  note: string | null;
+  previousValues: string; // JSON object string: vehicle ID -> values before the operation
+  createdAt: string; // ISO date string
+  undoExpiresAt: string; // ISO date string
+  undoneAt: string | null; // ISO date string
+}
+
+// Append-only audit log, filled by triggers on vehicles and by the analyze script (see migration 013)
+export interface VehicleEventTable {
+  id: Generated<string>;
+  vehicleId: string;
+  type: 'status_change' | 'note_edit' | 'price_change' | 'analysis';
+  fromValue: string | null;
+  toValue: string | null;
+  createdAt: string; // ISO date string
+}
+
+// Appointments to see a vehicle (see migration 014)
+export interface VisitTable {
+  id: Generated<string>;
+  vehicleId: string;
+  scheduledAt: string; // ISO date string
+  durationMinutes: number;
+  location: string | null;
+  contactName: string | null;
+  contactPhone: string | null;
+  notes: string | null;
+  status: 'scheduled' | 'completed' | 'cancelled';
+  createdAt: string; // ISO date string
+  updatedAt: string; // ISO date string
+}
+
+// Inspection checklist of each visit, in position order (see migration 014)
+export interface VisitChecklistItemTable {
+  id: Generated<string>;
+  visitId: string;
+  position: number;
+  label: string;
+  critical: number; // SQLite boolean (0/1)
+  source: 'mechanic_report' | 'manual';
+  result: 'pending' | 'ok' | 'issue' | 'skipped';
+  notes: string | null;
+}
+
+// Migration bookkeeping table managed by MigrationRunner
+export interface SchemaMigrationTable {
+  version: number;
+  name: string;
+  appliedAt: string; // ISO date string
 }
 
 // Database schema interface
 export interface Database {
   vehicles: VehicleTable;
+  vehicle_snapshots: VehicleSnapshotTable;
+  vehicle_pages: VehiclePageTable;
+  vehicle_sources: VehicleSourceTable;
+  vehicle_duplicates: VehicleDuplicateTable;
+  vehicle_fit_scores: VehicleFitScoreTable;
+  pipeline_runs: PipelineRunTable;
+  pipeline_locks: PipelineLockTable;
+  seller_messages: SellerMessageTable;
+  market_value_analyses: MarketValueAnalysisTable;
+  exchange_rates: ExchangeRateTable;
+  bulk_operations: BulkOperationTable;
+  vehicle_events: VehicleEventTable;
+  visits: VisitTable;
+  visit_checklist_items: VisitChecklistItemTable;
+  schema_migrations: SchemaMigrationTable;
 }
 
 // Type helpers for CRUD operations
 export type Vehicle = Selectable<VehicleTable>;
 export type NewVehicle = Insertable<VehicleTable>;
 export type VehicleUpdate = Updateable<VehicleTable>;
+export type VehicleSnapshotRow = Selectable<VehicleSnapshotTable>;
+export type NewVehicleSnapshotRow = Insertable<VehicleSnapshotTable>;
+export type VehiclePageRow = Selectable<VehiclePageTable>;
+export type VehicleSourceRow = Selectable<VehicleSourceTable>;
+export type VehicleDuplicateRow = Selectable<VehicleDuplicateTable>;
+export type PipelineRunRow = Selectable<PipelineRunTable>;
+export type SellerMessageRow = Selectable<SellerMessageTable>;
+export type MarketValueAnalysisRow = Selectable<MarketValueAnalysisTable>;
+export type ExchangeRateRow = Selectable<ExchangeRateTable>;
+export type BulkOperationRow = Selectable<BulkOperationTable>;
+export type VehicleEventRow = Selectable<VehicleEventTable>;
+export type VisitRow = Selectable<VisitTable>;
+export type VisitChecklistItemRow = Selectable<VisitChecklistItemTable>;
 
-// SQL DDL for creating the vehicles table
-export const CREATE_VEHICLES_TABLE = `
-  CREATE TABLE IF NOT EXISTS vehicles (
-    id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
-    
-    -- Source information
-    source TEXT NOT NULL CHECK (source IN ('otomoto', 'olx')),
-    sourceId TEXT NOT NULL,
-    sourceUrl TEXT NOT NULL UNIQUE,
-    sourceCreatedAt TEXT NOT NULL,
-    
-    -- Raw scraped data
-    sourceTitle TEXT NOT NULL,
-    sourceDescriptionHtml TEXT NOT NULL,
-    sourceParameters TEXT NOT NULL DEFAULT '{}',
-    sourceEquipment TEXT NOT NULL DEFAULT '{}',
-    sourcePhotos TEXT NOT NULL DEFAULT '[]',
-    
-    -- Processed & normalized data
-    title TEXT NOT NULL,
-    description TEXT, -- Nullable - translated by analyze script
-    features TEXT NOT NULL DEFAULT '[]',
-    pricePln REAL NOT NULL,
-    priceEur REAL NOT NULL,
-    year INTEGER NOT NULL,
-    mileage INTEGER NOT NULL,
-    
-    -- Seller information
-    sellerInfo TEXT NOT NULL DEFAULT '{}',
-    photos TEXT NOT NULL DEFAULT '[]',
-    
-    -- AI generated data (nullable)
-    personalFitScore REAL,
-    marketValueScore TEXT,
-    aiPriorityRating REAL,
-    aiPrioritySummary TEXT,
-    aiMechanicReport TEXT,
-    aiDataSanityCheck TEXT,
-    
-    -- User workflow data
-    status TEXT NOT NULL DEFAULT 'new' CHECK (status IN ('new', 'to_contact', 'contacted', 'to_visit', 'visited', 'not_interested', 'deleted')),
-    personalNotes TEXT,
-    
-    -- Timestamps
-    scrapedAt TEXT NOT NULL,
-    createdAt TEXT NOT NULL DEFAULT (datetime('now')),
-    updatedAt TEXT NOT NULL DEFAULT (datetime('now'))
-  )
-`;
-
-// Indexes for performance
-export const CREATE_INDEXES = [
-  'CREATE INDEX IF NOT EXISTS idx_vehicles_source_url ON vehicles(sourceUrl)',
-  'CREATE INDEX IF NOT EXISTS idx_vehicles_status ON vehicles(status)',
-  'CREATE INDEX IF NOT EXISTS idx_vehicles_created_at ON vehicles(createdAt)',
-  'CREATE INDEX IF NOT EXISTS idx_vehicles_source ON vehicles(source)',
-  'CREATE INDEX IF NOT EXISTS idx_vehicles_price_eur ON vehicles(priceEur)',
-];
-
-// Trigger for auto-updating updatedAt timestamp
-export const CREATE_UPDATE_TRIGGER = `
-  CREATE TRIGGER IF NOT EXISTS vehicles_updated_at
-  AFTER UPDATE ON vehicles
-  FOR EACH ROW
-  BEGIN
-    UPDATE vehicles SET updatedAt = datetime('now') WHERE id = NEW.id;
-  END
-`;
-
-// All schema creation statements
-export const SCHEMA_STATEMENTS = [
-  CREATE_VEHICLES_TABLE,
-  ...CREATE_INDEXES,
-  CREATE_UPDATE_TRIGGER,
-];
+// DDL lives in versioned migrations under ./migrations - add a new migration for schema changes
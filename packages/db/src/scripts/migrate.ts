@@ -0,0 +1,153 @@
+#!/usr/bin/env node
+
+/**
+ * Database Migration Script
+ *
+ * Applies, reverts and inspects versioned schema migrations.
+ *
+ * Usage:
+ *   pnpm migrate                        # Apply all pending migrations
+ *   pnpm migrate --to <version>         # Apply pending migrations up to a version
+ *   pnpm migrate rollback               # Revert the last applied migration
+ *   pnpm migrate rollback --steps <n>   # Revert the last n applied migrations
+ *   pnpm migrate status                 # Show applied and pending migrations
+ *
+ * Environment Variables:
+ *   DATABASE_PATH    Optional. Path to database file (default: <root>/data/vehicles.db)
+ */
+
+import { createClient } from '@libsql/client';
+import { Kysely } from 'kysely';
+import { LibsqlDialect } from 'kysely-libsql';
+import { DatabaseService } from '../database';
+import { MigrationRunner } from '../migrator';
+import { Database } from '../schema';
+import fs from 'fs';
+import path from 'path';
+
+type MigrateCommand = 'migrate' | 'rollback' | 'status';
+
+interface MigrateOptions {
+  command: MigrateCommand;
+  to?: number;
+  steps: number;
+}
+
+/**
+ * Parse command-line arguments
+ */
+function parseArgs(args: string[] = process.argv.slice(2)): MigrateOptions {
+  const options: MigrateOptions = { command: 'migrate', steps: 1 };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+
+    if (arg === 'migrate' || arg === 'rollback' || arg === 'status') {
+      options.command = arg;
+    } else if (arg === '--to' && i + 1 < args.length) {
+      options.to = parseInt(args[i + 1], 10);
+      i++;
+    } else if (arg === '--steps' && i + 1 < args.length) {
+      options.steps = parseInt(args[i + 1], 10);
+      i++;
+    } else if (arg === '--help' || arg === '-h') {
+      printHelp();
+      process.exit(0);
+    } else {
+      throw new Error(`Unknown argument: ${arg}`);
+    }
+  }
+
+  return options;
+}
+
+/**
+ * Print help message
+ */
+function printHelp(): void {
+  console.log(`
+Database Migration Script
+
+Usage:
+  pnpm migrate [command] [options]
+
+Commands:
+  migrate             Apply pending migrations (default)
+  rollback            Revert applied migrations, newest first
+  status              Show applied and pending migrations
+
+Options:
+  --to <version>      Only migrate up to this version
+  --steps <n>         Number of migrations to roll back (default: 1)
+  --help, -h          Show this help message
+`);
+}
+
+/**
+ * Print the migration status table
+ */
+async function printStatus(runner: MigrationRunner): Promise<void> {
+  const statuses = await runner.status();
+
+  console.log(`\n📋 Schema version: ${await runner.getCurrentVersion()}`);
+  for (const status of statuses) {
+    const version = String(status.version).padStart(3, '0');
+    const state = status.applied ? `✅ applied ${status.appliedAt}` : '⏳ pending';
+    console.log(`   ${version}_${status.name}  ${state}`);
+  }
+  console.log('');
+}
+
+/**
+ * Main execution
+ */
+async function main() {
+  try {
+    const options = parseArgs();
+
+    // Reuse DatabaseService path resolution, but open the connection directly so
+    // rollback/status do not trigger the automatic migrate-on-initialize
+    const dbPath = new DatabaseService().getDbPath();
+    fs.mkdirSync(path.dirname(dbPath), { recursive: true });
+    const client = createClient({ url: `file:${dbPath}` });
+    const db = new Kysely<Database>({ dialect: new LibsqlDialect({ client }) });
+    const runner = new MigrationRunner(db);
+
+    console.log(`🗄️  Database: ${dbPath}`);
+
+    try {
+      if (options.command === 'migrate') {
+        const applied = await runner.migrate(options.to);
+        console.log(applied.length > 0
+          ? `\n✅ Applied ${applied.length} migration(s)`
+          : '\n✅ Database is already up to date');
+      } else if (options.command === 'rollback') {
+        const reverted = await runner.rollback(options.steps);
+        console.log(reverted.length > 0
+          ? `\n✅ Reverted ${reverted.length} migration(s)`
+          : '\n⚠️  No applied migrations to roll back');
+      }
+
+      await printStatus(runner);
+    } finally {
+      await db.destroy();
+      client.close();
+    }
+
+    process.exit(0);
+  } catch (error) {
+    console.error('\n❌ Fatal error:', error);
+    process.exit(1);
+  }
+}
+
+// Run if executed directly
+if (require.main === module) {
+  main();
+}
+
+// Export for testing
+export {
+  main,
+  parseArgs,
+};
@@ -0,0 +1,8 @@
+import crypto from 'crypto';
+
+/**
+ * Hash a listing description so snapshots can detect edits without storing every revision
+ */
+export function hashDescription(descriptionHtml: string): string {
+  return crypto.createHash('sha256').update(descriptionHtml.trim()).digest('hex');
+}
@@ -70,6 +70,14 @@ describe('Mock Services', () => {
       expect(result.html).toContain('__NEXT_DATA__');
       expect(result.html).toContain('Mock Otomoto');
     });
+
+    it('should return configured image pixels or a flat gray image', async () => {
+      await scraperService.initialize();
+      scraperService.setMockImage('https://example.com/photo.jpg', [0, 255, 0, 255]);
+
+      expect(await scraperService.getImageGrayscale('https://example.com/photo.jpg', 2, 2)).toEqual([0, 255, 0, 255]);
+      expect(await scraperService.getImageGrayscale('https://example.com/other.jpg', 2, 1)).toEqual([128, 128]);
+    });
   });
 
   describe('MockParserService', () => {
@@ -124,6 +132,16 @@ describe('Mock Services', () => {
       expect(() => parserService.parseHtml('<html></html>', 'error-site')).toThrow('Parser error');
     });
 
+    it('should detect listing states from status codes and inactive notices', () => {
+      expect(parserService.detectListingState('<html></html>', 'otomoto', 404)).toBe('removed');
+      expect(parserService.detectListingState('<p>Ogłoszenie nieaktualne</p>', 'otomoto', 200)).toBe('removed');
+      expect(parserService.detectListingState('<p>Pojazd sprzedany</p>', 'otomoto', 200)).toBe('sold');
+      expect(parserService.detectListingState('<p>Fiat Ducato</p>', 'otomoto', 200)).toBe('active');
+
+      parserService.setMockListingState('<p>Fiat Ducato</p>', 'sold');
+      expect(parserService.detectListingState('<p>Fiat Ducato</p>', 'otomoto', 200)).toBe('sold');
+    });
+
     it('should reload schema', () => {
       expect(parserService.wasSchemaReloaded()).toBe(false);
       
@@ -209,6 +227,209 @@ describe('Mock Services', () => {
       expect(newVehicles[0].id).toBe('test-1');
     });
 
+    it('should query vehicles with filters, sorting and pagination', async () => {
+      repository.seedWithTestData([
+        { status: 'new', features: ['air_conditioning'] },
+        { status: 'contacted', features: ['air_conditioning', 'cruise_control'] },
+        { status: 'new', features: ['cruise_control'] },
+      ]);
+
+      const byStatus = await repository.queryVehicles({ status: ['new'], sortBy: 'year', sortDirection: 'asc' });
+      expect(byStatus.total).toBe(2);
+      expect(byStatus.data.map(v => v.id)).toEqual(['test-id-1', 'test-id-3']);
+
+      const byFeature = await repository.queryVehicles({ features: ['air_conditioning', 'cruise_control'] });
+      expect(byFeature.data.map(v => v.id)).toEqual(['test-id-2']);
+
+      const paged = await repository.queryVehicles({ sortBy: 'priceEur', sortDirection: 'desc', limit: 2, page: 2 });
+      expect(paged).toMatchObject({ total: 3, page: 2, limit: 2 });
+      expect(paged.data.map(v => v.id)).toEqual(['test-id-1']);
+    });
+
+    it('should record snapshots and apply listing updates', async () => {
+      const vehicle = MockVehicleRepository.createTestVehicle();
+      await repository.insertVehicle(vehicle);
+
+      const snapshot = {
+        vehicleId: vehicle.id,
+        pricePln: 45000,
+        priceEur: 10350,
+        mileage: vehicle.mileage,
+        title: vehicle.sourceTitle,
+        descriptionHash: 'hash',
+        photoCount: 1,
+        changedFields: ['price' as const],
+        capturedAt: new Date(),
+      };
+      await repository.recordVehicleSnapshot(snapshot, {
+        pricePln: 45000,
+        priceEur: 10350,
+        mileage: vehicle.mileage,
+        sourceTitle: vehicle.sourceTitle,
+        sourceDescriptionHtml: vehicle.sourceDescriptionHtml,
+        sourcePhotos: vehicle.sourcePhotos,
+        photos: vehicle.photos,
+        scrapedAt: snapshot.capturedAt,
+      });
+
+      expect((await repository.findVehicleById(vehicle.id))?.pricePln).toBe(45000);
+      expect(await repository.getVehicleSnapshots(vehicle.id)).toEqual([
+        { ...snapshot, id: 'mock-snapshot-1' },
+      ]);
+
+      await repository.deleteVehicle(vehicle.id);
+      expect(await repository.getVehicleSnapshots(vehicle.id)).toEqual([]);
+    });
+
+    it('should track last-seen listings and delist stale vehicles', async () => {
+      const publishedAt = new Date('2024-01-01T00:00:00Z');
+      const seen = MockVehicleRepository.createTestVehicle({
+        id: 'seen',
+        sourceUrl: 'https://otomoto.pl/seen',
+        sourceCreatedAt: publishedAt,
+        lastSeenAt: publishedAt,
+      });
+      const stale = MockVehicleRepository.createTestVehicle({
+        id: 'stale',
+        sourceUrl: 'https://otomoto.pl/stale',
+        sourceCreatedAt: publishedAt,
+        lastSeenAt: publishedAt,
+      });
+      await repository.insertVehicle(seen);
+      await repository.insertVehicle(stale);
+
+      expect(await repository.markVehiclesSeen(['https://otomoto.pl/seen'], new Date('2024-02-01T00:00:00Z'))).toBe(1);
+      expect((await repository.findStaleVehicles(new Date('2024-01-15T00:00:00Z'))).map(v => v.id)).toEqual(['stale']);
+
+      await repository.markVehicleDelisted('stale', 'sold', new Date('2024-01-11T00:00:00Z'));
+      expect(await repository.findStaleVehicles(new Date('2024-01-15T00:00:00Z'))).toEqual([]);
+      expect((await repository.getTimeOnMarketStats())[0]).toMatchObject({ status: 'sold', count: 1, averageDays: 10 });
+
+      expect(await repository.findVehicleById('stale')).toMatchObject({ status: 'new', listingState: 'sold' });
+
+      await repository.markVehiclesSeen(['https://otomoto.pl/stale']);
+      expect(await repository.findVehicleById('stale')).toMatchObject({ status: 'new', listingState: 'active', delistedAt: null });
+    });
+
+    it('should store duplicate clusters and collapse non-primary listings', async () => {
+      await repository.insertVehicle(MockVehicleRepository.createTestVehicle({ id: 'otomoto-1', sourceUrl: 'https://otomoto.pl/1' }));
+      await repository.insertVehicle(MockVehicleRepository.createTestVehicle({ id: 'olx-1', source: 'olx', sourceUrl: 'https://olx.pl/1' }));
+
+      await repository.replaceDuplicateClusters([[
+        { vehicleId: 'olx-1', isPrimary: false, matchScore: 0.9, matchReasons: ['photos'] },
+        { vehicleId: 'otomoto-1', isPrimary: true, matchScore: 1, matchReasons: [] },
+      ]]);
+
+      const clusters = await repository.getDuplicateClusters(['olx-1']);
+      expect(clusters).toHaveLength(1);
+      expect(clusters[0].clusterId).toBe('otomoto-1');
+      expect(clusters[0].listings.map(listing => listing.source)).toEqual(['otomoto', 'olx']);
+      expect((await repository.queryVehicles({ collapseDuplicates: true })).data.map(v => v.id)).toEqual(['otomoto-1']);
+      expect((await repository.queryVehicles({ collapseDuplicates: true, source: 'olx' })).data.map(v => v.id)).toEqual(['olx-1']);
+    });
+
+    it('should only accept vehicles from registered sources', async () => {
+      const vehicle = MockVehicleRepository.createTestVehicle({ source: 'autoscout24', sourceUrl: 'https://www.autoscout24.pl/1' });
+
+      await expect(repository.insertVehicle(vehicle)).rejects.toThrow('Vehicle source autoscout24 is not registered');
+
+      await repository.registerVehicleSources([{ key: 'autoscout24', name: 'AutoScout24' }]);
+      await repository.insertVehicle(vehicle);
+
+      expect((await repository.getVehicleSources()).map(source => source.key)).toEqual(['autoscout24', 'olx', 'otomoto']);
+    });
+
+    it('should track photo hashes per vehicle', async () => {
+      await repository.insertVehicle(MockVehicleRepository.createTestVehicle({ id: 'with-photos', photos: ['https://example.com/1.jpg'] }));
+
+      expect((await repository.findVehiclesWithoutPhotoHashes()).map(v => v.id)).toEqual(['with-photos']);
+
+      await repository.updateVehiclePhotoHashes('with-photos', ['0123456789abcdef']);
+
+      expect(await repository.findVehiclesWithoutPhotoHashes()).toEqual([]);
+      expect((await repository.getPhotoHashes()).get('with-photos')).toEqual(['0123456789abcdef']);
+    });
+
+    it('should sort and filter by criteria profile fit scores', async () => {
+      await repository.insertVehicle(MockVehicleRepository.createTestVehicle({ id: 'a', sourceUrl: 'https://otomoto.pl/a', personalFitScore: 9 }));
+      await repository.insertVehicle(MockVehicleRepository.createTestVehicle({ id: 'b', sourceUrl: 'https://otomoto.pl/b', personalFitScore: 2 }));
+      await repository.saveFitScore('a', 'family-van', 4);
+      await repository.saveFitScore('b', 'family-van', 7);
+
+      const sorted = await repository.queryVehicles({ profileId: 'family-van', sortBy: 'personalFitScore' });
+      expect(sorted.data.map(v => v.id)).toEqual(['b', 'a']);
+      expect((await repository.queryVehicles({ profileId: 'family-van', minPersonalFitScore: 5 })).total).toBe(1);
+      expect(await repository.getFitScores(['a', 'missing'])).toEqual(new Map([['a', { 'family-van': 4 }]]));
+    });
+
+    it('should hold the pipeline lock for one owner until it expires', async () => {
+      const now = new Date('2024-03-01T06:00:00Z');
+      const inOneHour = new Date('2024-03-01T07:00:00Z');
+
+      expect(await repository.acquirePipelineLock('a', inOneHour, now)).toBe(true);
+      expect(await repository.acquirePipelineLock('b', inOneHour, now)).toBe(false);
+      expect(await repository.acquirePipelineLock('b', new Date('2024-03-01T08:00:00Z'), inOneHour)).toBe(true);
+
+      await repository.releasePipelineLock('b');
+      expect(await repository.acquirePipelineLock('a', inOneHour, now)).toBe(true);
+    });
+
+    it('should keep a seller conversation per vehicle, oldest message first', async () => {
+      const vehicle = MockVehicleRepository.createTestVehicle();
+      await repository.insertVehicle(vehicle);
+
+      await repository.addSellerMessage({
+        vehicleId: vehicle.id,
+        direction: 'incoming',
+        messageType: null,
+        textPl: 'Tak, jest dostępny.',
+        textEn: 'Yes, it is available.',
+        createdAt: new Date('2024-03-02T10:00:00Z'),
+      });
+      await repository.addSellerMessage({
+        vehicleId: vehicle.id,
+        direction: 'outgoing',
+        messageType: 'inquiry',
+        textPl: 'Czy samochód jest dostępny?',
+        textEn: 'Is the car available?',
+        createdAt: new Date('2024-03-01T10:00:00Z'),
+      });
+
+      const messages = await repository.getSellerMessages(vehicle.id);
+      expect(messages.map(message => message.direction)).toEqual(['outgoing', 'incoming']);
+
+      await repository.deleteVehicle(vehicle.id);
+      expect(await repository.getSellerMessages(vehicle.id)).toEqual([]);
+    });
+
+    it('should keep the latest market value analysis per vehicle', async () => {
+      const vehicle = MockVehicleRepository.createTestVehicle();
+      await repository.insertVehicle(vehicle);
+      const analysis = {
+        vehicleId: vehicle.id,
+        model: 'weighted' as const,
+        score: '-5%',
+        priceEur: 9500,
+        marketPriceEur: 10000,
+        percentDifference: -5,
+        dealScore: null,
+        sampleSize: 0,
+        effectiveSampleSize: 0,
+        confidence: 'low' as const,
+        comparables: [],
+        calculatedAt: new Date('2024-03-01T10:00:00Z'),
+      };
+
+      expect(await repository.getMarketValueAnalysis(vehicle.id)).toBeNull();
+
+      await repository.saveMarketValueAnalysis(analysis);
+      await repository.saveMarketValueAnalysis({ ...analysis, score: 'market_avg' });
+      expect((await repository.getMarketValueAnalysis(vehicle.id))?.score).toBe('market_avg');
+
+      await repository.deleteVehicle(vehicle.id);
+      expect(await repository.getMarketValueAnalysis(vehicle.id)).toBeNull();
+    });
+
     it('should delete vehicles', async () => {
       const vehicle = MockVehicleRepository.createTestVehicle();
       await repository.insertVehicle(vehicle);
@@ -1,4 +1,4 @@
-import { Vehicle } from '@car-finder/types';
+import { Vehicle, ListingState } from '@car-finder/types';
 
 /**
  * Interface contract for HTML parsing services
@@ -21,8 +21,14 @@ export interface ParseResult {
 export interface IParserService {
   /**
    * Parse HTML content and return structured data with auto-detected page type
+   * Relative dates on the page ("3 dni temu") are resolved against fetchedAt, which defaults to now
    */
-  parseHtml(html: string, siteKey: string, expectedType?: PageType): ParseResult;
+  parseHtml(html: string, siteKey: string, expectedType?: PageType, fetchedAt?: Date): ParseResult;
+
+  /**
+   * Detect whether a fetched detail page is still active, sold or removed
+   */
+  detectListingState(html: string, siteKey: string, statusCode: number): ListingState;
 
   /**
    * Reload schema from file (useful for testing or dynamic updates)
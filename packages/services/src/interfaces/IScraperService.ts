@@ -13,6 +13,13 @@ export interface ScraperConfig {
   stealthMode: boolean;
   /** Custom user agents to rotate through */
   userAgents?: string[];
+  /** Archive every fetched page (HTML plus metadata) in this directory for offline replays */
+  captureDir?: string;
+}
+
+export interface ScrapeOptions {
+  /** Scroll to the bottom until the page height stops growing, for lazy-loaded lists */
+  scrollUntilStable?: boolean;
 }
 
 export interface ScrapingResult {
@@ -41,7 +48,12 @@ export interface IScraperService {
   /**
    * Scrapes a URL and returns the HTML content with retry logic
    */
-  scrapeUrl(url: string): Promise<ScrapingResult>;
+  scrapeUrl(url: string, options?: ScrapeOptions): Promise<ScrapingResult>;
+
+  /**
+   * Loads an image and returns its grayscale pixels (0-255, row-major) resized to width x height
+   */
+  getImageGrayscale(url: string, width: number, height: number): Promise<number[]>;
 
   /**
    * Gets browser statistics
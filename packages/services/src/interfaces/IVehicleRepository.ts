@@ -1,4 +1,31 @@
-import { Vehicle } from '@car-finder/types';
+import {
+  Vehicle,
+  VehicleQuery,
+  PaginatedResponse,
+  VehicleSnapshot,
+  NewVehicleSnapshot,
+  VehicleListingUpdate,
+  VehiclePage,
+  NewVehiclePage,
+  VehicleSourceInfo,
+  DelistedStatus,
+  TimeOnMarketStats,
+  DuplicateCluster,
+  NewDuplicateClusterMember,
+  PipelineRun,
+  SellerMessage,
+  NewSellerMessage,
+  MarketValueAnalysis,
+  ExchangeRate,
+  BulkOperation,
+  NewBulkOperation,
+  VehicleEvent,
+  NewVehicleEvent,
+  Visit,
+  NewVisit,
+  VisitUpdate,
+  NewInspectionItem,
+} from '@car-finder/types';
 
 /**
  * Interface contract for vehicle data repository
@@ -30,13 +57,227 @@ export interface IVehicleRepository {
    */
   getAllVehicles(): Promise<Vehicle[]>;
 
+  /**
+   * Query vehicles with filtering, sorting and pagination (for dashboard display)
+   */
+  queryVehicles(query?: VehicleQuery): Promise<PaginatedResponse<Vehicle>>;
+
   /**
    * Get vehicles by status (for filtering)
    */
   getVehiclesByStatus(status: Vehicle['status']): Promise<Vehicle[]>;
 
   /**
-   * Delete a vehicle by ID
+   * Delete a vehicle by ID (including its listing history)
    */
   deleteVehicle(id: string): Promise<void>;
+
+  /**
+   * Get the listing history of a vehicle, oldest snapshot first
+   */
+  getVehicleSnapshots(vehicleId: string): Promise<VehicleSnapshot[]>;
+
+  /**
+   * Append a listing snapshot, optionally applying re-scraped listing fields to the vehicle
+   */
+  recordVehicleSnapshot(snapshot: NewVehicleSnapshot, listingUpdate?: VehicleListingUpdate): Promise<void>;
+
+  /**
+   * Store the raw detail-page HTML of a scrape (skipped when identical to the latest stored page)
+   * @returns true when the page was stored
+   */
+  saveVehiclePage(page: NewVehiclePage): Promise<boolean>;
+
+  /**
+   * Get the most recently scraped detail page of a vehicle
+   */
+  getLatestVehiclePage(vehicleId: string): Promise<VehiclePage | null>;
+
+  /**
+   * Register marketplace sources so vehicles can reference them (updates known names)
+   */
+  registerVehicleSources(sources: VehicleSourceInfo[]): Promise<void>;
+
+  /**
+   * Get the registered marketplace sources, ordered by key
+   */
+  getVehicleSources(): Promise<VehicleSourceInfo[]>;
+
+  /**
+   * Get the audit log of a vehicle (status, note and price changes, analysis runs), oldest first
+   */
+  getVehicleEvents(vehicleId: string): Promise<VehicleEvent[]>;
+
+  /**
+   * Append an event that is not a tracked column change, such as an analysis run
+   */
+  recordVehicleEvent(event: NewVehicleEvent, createdAt?: Date): Promise<void>;
+
+  /**
+   * Record that listings were found in search results, relisting delisted vehicles
+   * @returns Number of vehicles updated
+   */
+  markVehiclesSeen(sourceUrls: string[], seenAt?: Date): Promise<number>;
+
+  /**
+   * Find listed vehicles not seen in search results since the given date
+   * Skips deleted, not interesting and already delisted vehicles
+   */
+  findStaleVehicles(seenBefore: Date, limit?: number): Promise<Vehicle[]>;
+
+  /**
+   * Mark a vehicle's listing as sold or removed from the marketplace, keeping its workflow status
+   */
+  markVehicleDelisted(id: string, state: DelistedStatus, delistedAt?: Date): Promise<void>;
+
+  /**
+   * Time-on-market statistics for delisted vehicles
+   */
+  getTimeOnMarketStats(): Promise<TimeOnMarketStats[]>;
+
+  /**
+   * Find listed vehicles with photos that have not been perceptually hashed yet
+   */
+  findVehiclesWithoutPhotoHashes(limit?: number): Promise<Vehicle[]>;
+
+  /**
+   * Store the perceptual hashes of a vehicle's photos
+   */
+  updateVehiclePhotoHashes(id: string, hashes: string[]): Promise<void>;
+
+  /**
+   * Get stored photo hashes by vehicle ID (vehicles not hashed yet are omitted)
+   */
+  getPhotoHashes(): Promise<Map<string, string[]>>;
+
+  /**
+   * Replace all duplicate clusters with the result of a detection run
+   * @returns Number of clusters stored
+   */
+  replaceDuplicateClusters(clusters: NewDuplicateClusterMember[][], detectedAt?: Date): Promise<number>;
+
+  /**
+   * Get duplicate clusters, primary listing first, optionally only those containing the given vehicles
+   */
+  getDuplicateClusters(vehicleIds?: string[]): Promise<DuplicateCluster[]>;
+
+  /**
+   * Store a vehicle's personal fit score for a criteria profile, replacing any previous score
+   */
+  saveFitScore(vehicleId: string, profileId: string, score: number, scoredAt?: Date): Promise<void>;
+
+  /**
+   * Get fit scores by vehicle ID, keyed by criteria profile ID (vehicles without scores are omitted)
+   */
+  getFitScores(vehicleIds: string[]): Promise<Map<string, Record<string, number>>>;
+
+  /**
+   * Take the pipeline lock for a scheduler process; an expired lock is replaced
+   * @returns Whether the owner now holds the lock
+   */
+  acquirePipelineLock(owner: string, expiresAt: Date, now?: Date): Promise<boolean>;
+
+  /**
+   * Release the pipeline lock if it is still held by the given owner
+   */
+  releasePipelineLock(owner: string): Promise<void>;
+
+  /**
+   * Insert or update a pipeline run
+   */
+  savePipelineRun(run: PipelineRun): Promise<void>;
+
+  /**
+   * Get pipeline runs, most recent first
+   */
+  getPipelineRuns(limit?: number): Promise<PipelineRun[]>;
+
+  /**
+   * Mark runs still 'running' as failed (call while holding the pipeline lock)
+   * @returns Number of runs updated
+   */
+  failInterruptedPipelineRuns(finishedAt?: Date): Promise<number>;
+
+  /**
+   * Get the conversation log with a vehicle's seller, oldest message first
+   */
+  getSellerMessages(vehicleId: string): Promise<SellerMessage[]>;
+
+  /**
+   * Append a message to the conversation log with a vehicle's seller
+   */
+  addSellerMessage(message: NewSellerMessage): Promise<SellerMessage>;
+
+  /**
+   * Store a vehicle's market value analysis, replacing the previous one
+   */
+  saveMarketValueAnalysis(analysis: MarketValueAnalysis): Promise<void>;
+
+  /**
+   * Get the latest market value analysis of a vehicle (null if never calculated)
+   */
+  getMarketValueAnalysis(vehicleId: string): Promise<MarketValueAnalysis | null>;
+
+  /**
+   * Store exchange rates, replacing any rate already stored for the same currency, date and source
+   * @returns Number of rates stored
+   */
+  saveExchangeRates(rates: ExchangeRate[], importedAt?: Date): Promise<number>;
+
+  /**
+   * Get the exchange rate effective on a date (latest on or before it, manual rates first)
+   * @param date - YYYY-MM-DD
+   */
+  getExchangeRate(currency: string, date: string): Promise<ExchangeRate | null>;
+
+  /**
+   * Apply a bulk action to vehicles in one transaction and record it for undo
+   * Missing vehicles and vehicles whose status is not in fromStatuses are skipped
+   * @returns The recorded operation, or null when none of the vehicles exist or may change
+   */
+  applyBulkOperation(operation: NewBulkOperation, createdAt?: Date): Promise<BulkOperation | null>;
+
+  /**
+   * Get a bulk operation by ID (null if unknown or already pruned)
+   */
+  getBulkOperation(id: string): Promise<BulkOperation | null>;
+
+  /**
+   * Restore the values a bulk operation replaced
+   * @returns The undone operation, or null when it is unknown, already undone or past its undo window
+   */
+  undoBulkOperation(id: string, undoneAt?: Date): Promise<BulkOperation | null>;
+
+  /**
+   * Schedule a visit to a vehicle together with its inspection checklist
+   */
+  createVisit(visit: NewVisit, createdAt?: Date): Promise<Visit>;
+
+  /**
+   * Get a vehicle's visits with their checklists, earliest appointment first
+   */
+  getVisits(vehicleId: string): Promise<Visit[]>;
+
+  /**
+   * Get a visit with its checklist by ID
+   */
+  getVisit(id: string): Promise<Visit | null>;
+
+  /**
+   * Get scheduled visits (all vehicles) from the given time on, earliest first
+   */
+  getUpcomingVisits(from?: Date): Promise<Visit[]>;
+
+  /**
+   * Update a visit's appointment details or status
+   * @returns The updated visit, or null when it does not exist
+   */
+  updateVisit(id: string, updates: VisitUpdate, updatedAt?: Date): Promise<Visit | null>;
+
+  /**
+   * Replace a visit's inspection checklist
+   * Items keep their ID when it already belongs to this visit; all others get a new one
+   * @returns The updated visit, or null when it does not exist
+   */
+  replaceVisitChecklist(visitId: string, items: NewInspectionItem[], updatedAt?: Date): Promise<Visit | null>;
 }
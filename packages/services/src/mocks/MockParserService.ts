@@ -1,4 +1,4 @@
-import { Vehicle } from '@car-finder/types';
+import { Vehicle, ListingState } from '@car-finder/types';
 import { IParserService, PageType, SearchResult, ParseResult } from '../interfaces/IParserService';
 
 /**
@@ -8,6 +8,7 @@ import { IParserService, PageType, SearchResult, ParseResult } from '../interfac
 export class MockParserService implements IParserService {
   private mockParseResults = new Map<string, ParseResult>();
   private mockErrors = new Map<string, Error>();
+  private mockListingStates = new Map<string, ListingState>();
   private schemaReloaded = false;
 
   /**
@@ -45,6 +46,26 @@ export class MockParserService implements IParserService {
     }
   }
 
+  /**
+   * Mock listing state detection, configurable per HTML content
+   * Falls back to 404/410 => removed, a "sprzedany" notice => sold and the "ogłoszenie nieaktualne" notice => removed
+   */
+  detectListingState(html: string, siteKey: string, statusCode: number): ListingState {
+    const mockState = this.mockListingStates.get(html);
+    if (mockState) {
+      return mockState;
+    }
+
+    if (statusCode === 404 || statusCode === 410) {
+      return 'removed';
+    }
+    const text = html.toLowerCase();
+    if (text.includes('sprzedany')) {
+      return 'sold';
+    }
+    return text.includes('ogłoszenie nieaktualne') ? 'removed' : 'active';
+  }
+
   /**
    * Mock schema reload
    */
@@ -62,6 +83,13 @@ export class MockParserService implements IParserService {
     this.mockParseResults.set(key, result);
   }
 
+  /**
+   * Configure the listing state returned for specific HTML
+   */
+  setMockListingState(html: string, state: ListingState): void {
+    this.mockListingStates.set(html, state);
+  }
+
   /**
    * Configure a mock error for specific inputs
    */
@@ -76,6 +104,7 @@ export class MockParserService implements IParserService {
   clearMocks(): void {
     this.mockParseResults.clear();
     this.mockErrors.clear();
+    this.mockListingStates.clear();
     this.schemaReloaded = false;
   }
 
@@ -122,7 +151,7 @@ export class MockParserService implements IParserService {
     const now = new Date();
 
     return {
-      source: siteKey as 'otomoto' | 'olx',
+      source: siteKey,
       sourceId: 'mock-vehicle-id',
       sourceUrl: `${baseUrl}/mock-vehicle-detail`,
       sourceCreatedAt: now,
@@ -176,6 +205,9 @@ export class MockParserService implements IParserService {
       scrapedAt: now,
       createdAt: now,
       updatedAt: now,
+      lastSeenAt: now,
+      listingState: 'active',
+      delistedAt: null,
     };
   }
 
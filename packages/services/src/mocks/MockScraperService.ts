@@ -10,6 +10,7 @@ export class MockScraperService implements IScraperService {
   private lastRequestTime = 0;
   private mockResponses = new Map<string, ScrapingResult>();
   private mockErrors = new Map<string, Error>();
+  private mockImages = new Map<string, number[]>();
   private defaultDelay = 100; // Fast for testing
 
   constructor(private config?: Partial<ScraperConfig>) {}
@@ -66,6 +67,23 @@ export class MockScraperService implements IScraperService {
     };
   }
 
+  /**
+   * Mock image loading, returning configured pixels or a flat gray image
+   */
+  async getImageGrayscale(url: string, width: number, height: number): Promise<number[]> {
+    if (!this.initialized) {
+      throw new Error('Browser not initialized. Call initialize() first.');
+    }
+
+    const mockError = this.mockErrors.get(url);
+    if (mockError) {
+      throw mockError;
+    }
+
+    this.requestCount++;
+    return this.mockImages.get(url) ?? new Array(width * height).fill(128);
+  }
+
   /**
    * Mock browser statistics
    */
@@ -115,12 +133,20 @@ export class MockScraperService implements IScraperService {
     this.mockErrors.set(url, error);
   }
 
+  /**
+   * Configure the grayscale pixels returned for an image URL
+   */
+  setMockImage(url: string, pixels: number[]): void {
+    this.mockImages.set(url, pixels);
+  }
+
   /**
    * Clear all mock configurations
    */
   clearMocks(): void {
     this.mockResponses.clear();
     this.mockErrors.clear();
+    this.mockImages.clear();
   }
 
   /**
@@ -1,6 +1,52 @@
-import { Vehicle } from '@car-finder/types';
+import crypto from 'crypto';
+import {
+  Vehicle,
+  VehicleQuery,
+  PaginatedResponse,
+  VehicleSnapshot,
+  NewVehicleSnapshot,
+  VehicleListingUpdate,
+  VehiclePage,
+  NewVehiclePage,
+  VehicleSourceInfo,
+  DelistedStatus,
+  TimeOnMarketStats,
+  DuplicateCluster,
+  NewDuplicateClusterMember,
+  PipelineRun,
+  SellerMessage,
+  NewSellerMessage,
+  MarketValueAnalysis,
+  VehicleAttributes,
+  ExchangeRate,
+  BulkOperation,
+  NewBulkOperation,
+  VehicleEvent,
+  NewVehicleEvent,
+  Visit,
+  NewVisit,
+  VisitUpdate,
+  InspectionItem,
+  NewInspectionItem,
+} from '@car-finder/types';
 import { IVehicleRepository } from '../interfaces/IVehicleRepository';
 
+const EMPTY_ATTRIBUTES: VehicleAttributes = {
+  make: null,
+  model: null,
+  engineSizeCc: null,
+  horsepower: null,
+  fuelType: null,
+  transmission: null,
+  bodyType: null,
+  seats: null,
+  wheelbase: null,
+  color: null,
+  vin: null,
+};
+
+const BUILT_IN_SOURCES: [string, string][] = [['otomoto', 'Otomoto'], ['olx', 'OLX']];
+
 /**
  * Mock implementation of VehicleRepository for testing
  * Provides in-memory data storage and configurable behavior
@@ -8,8 +54,35 @@ import { IVehicleRepository } from '../interfaces/IVehicleRepository';
 export class MockVehicleRepository implements IVehicleRepository {
   private vehicles = new Map<string, Vehicle>();
   private urlIndex = new Map<string, string>(); // sourceUrl -> id mapping
+  private snapshots: VehicleSnapshot[] = [];
+  private pages: VehiclePage[] = [];
+  private photoHashes = new Map<string, string[]>();
+  private duplicateClusters: NewDuplicateClusterMember[][] = [];
+  private fitScores = new Map<string, Record<string, number>>(); // vehicleId -> profileId -> score
+  private pipelineRuns = new Map<string, PipelineRun>();
+  private pipelineLock: { owner: string; expiresAt: Date } | null = null;
+  private sellerMessages: SellerMessage[] = [];
+  private marketValueAnalyses = new Map<string, MarketValueAnalysis>();
+  private exchangeRates = new Map<string, ExchangeRate>(); // currency|date|source -> rate
+  private bulkOperations = new Map<string, {
+    operation: BulkOperation;
+    previous: Map<string, Vehicle>;
+    fitScores: Map<string, Record<string, number>>;
+    marketValueAnalyses: Map<string, MarketValueAnalysis>;
+  }>();
+  private nextBulkOperationId = 1;
+  private vehicleEvents: VehicleEvent[] = [];
+  private nextEventId = 1;
+  private visits = new Map<string, Visit>();
+  private nextVisitId = 1;
+  private nextInspectionItemId = 1;
   private nextId = 1;
+  private nextSnapshotId = 1;
+  private nextPageId = 1;
+  private nextSellerMessageId = 1;
   private mockErrors = new Map<string, Error>();
+  // Sources seeded by migration 016; vehicles may only reference registered sources
+  private vehicleSources = new Map<string, string>(BUILT_IN_SOURCES);
 
   constructor(initialData: Vehicle[] = []) {
     // Populate with initial test data
@@ -38,6 +111,10 @@ export class MockVehicleRepository implements IVehicleRepository {
       updatedAt: new Date(),
     };
 
+    if (!this.vehicleSources.has(vehicleToInsert.source)) {
+      throw new Error(`Vehicle source ${vehicleToInsert.source} is not registered`);
+    }
+
     // Check for duplicate URL
     if (this.urlIndex.has(vehicleToInsert.sourceUrl)) {
       throw new Error(`Vehicle with URL ${vehicleToInsert.sourceUrl} already exists`);
@@ -99,7 +176,7 @@ export class MockVehicleRepository implements IVehicleRepository {
       updatedAt: new Date(),
     };
 
-    this.vehicles.set(id, updated);
+    this.setVehicle(updated);
   }
 
   /**
@@ -116,6 +193,76 @@ export class MockVehicleRepository implements IVehicleRepository {
       .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
   }
 
+  /**
+   * Mock vehicle query with in-memory filtering, sorting and pagination
+   */
+  async queryVehicles(query: VehicleQuery = {}): Promise<PaginatedResponse<Vehicle>> {
+    // Check for configured error
+    const mockError = this.mockErrors.get('queryVehicles');
+    if (mockError) {
+      throw mockError;
+    }
+
+    const page = Math.max(1, Math.floor(query.page ?? 1));
+    const limit = Math.max(1, Math.floor(query.limit ?? 20));
+    const sortBy = query.sortBy ?? 'createdAt';
+    const direction = query.sortDirection === 'asc' ? 1 : -1;
+    const search = query.search?.trim().toLowerCase();
+    const fitScoreOf = (vehicle: Vehicle): number | null => query.profileId !== undefined
+      ? this.fitScores.get(vehicle.id)?.[query.profileId] ?? null
+      : vehicle.personalFitScore;
+
+    const matches = (vehicle: Vehicle): boolean =>
+      (!query.status || query.status.length === 0 || query.status.includes(vehicle.status)) &&
+      (!query.listingState || query.listingState.length === 0 || query.listingState.includes(vehicle.listingState)) &&
+      (query.source === undefined || vehicle.source === query.source) &&
+      (query.minPriceEur === undefined || vehicle.priceEur >= query.minPriceEur) &&
+      (query.maxPriceEur === undefined || vehicle.priceEur <= query.maxPriceEur) &&
+      (query.minYear === undefined || vehicle.year >= query.minYear) &&
+      (query.maxYear === undefined || vehicle.year <= query.maxYear) &&
+      (query.minMileage === undefined || vehicle.mileage >= query.minMileage) &&
+      (query.maxMileage === undefined || vehicle.mileage <= query.maxMileage) &&
+      (query.minPersonalFitScore === undefined ||
+        (fitScoreOf(vehicle) !== null && fitScoreOf(vehicle)! >= query.minPersonalFitScore)) &&
+      (query.minAiPriorityRating === undefined ||
+        (vehicle.aiPriorityRating !== null && vehicle.aiPriorityRating >= query.minAiPriorityRating)) &&
+      (query.features ?? []).every(feature => vehicle.features.includes(feature)) &&
+      (!search ||
+        [vehicle.title, vehicle.description, vehicle.sourceTitle]
+          .some(text => (text || '').toLowerCase().includes(search)));
+
+    // A non-primary listing is only hidden when its primary matches the same filters
+    const hiddenDuplicate = (vehicle: Vehicle): boolean => this.duplicateClusters.some(members =>
+      members.some(member => member.vehicleId === vehicle.id && !member.isPrimary) &&
+      members.some(member => {
+        const primary = member.isPrimary ? this.vehicles.get(member.vehicleId) : undefined;
+        return primary !== undefined && matches(primary);
+      }));
+
+    const filtered = Array.from(this.vehicles.values()).filter(vehicle =>
+      matches(vehicle) && (!query.collapseDuplicates || !hiddenDuplicate(vehicle))
+    );
+
+    const sortValue = (vehicle: Vehicle): number => {
+      const value = sortBy === 'personalFitScore' ? fitScoreOf(vehicle) : vehicle[sortBy];
+      if (value instanceof Date) return value.getTime();
+      return value ?? Number.NEGATIVE_INFINITY; // NULLs sort lowest, as in SQLite
+    };
+
+    const sorted = filtered.sort((a, b) => {
+      const [valueA, valueB] = [sortValue(a), sortValue(b)];
+      if (valueA === valueB) return a.id.localeCompare(b.id);
+      return (valueA < valueB ? -1 : 1) * direction;
+    });
+
+    return {
+      data: sorted.slice((page - 1) * limit, page * limit),
+      total: filtered.length,
+      page,
+      limit,
+    };
+  }
+
   /**
    * Mock get vehicles by status
    */
@@ -150,6 +297,812 @@ export class MockVehicleRepository implements IVehicleRepository {
 
     this.vehicles.delete(id);
     this.urlIndex.delete(vehicle.sourceUrl);
+    this.snapshots = this.snapshots.filter(snapshot => snapshot.vehicleId !== id);
+    this.pages = this.pages.filter(page => page.vehicleId !== id);
+    this.vehicleEvents = this.vehicleEvents.filter(event => event.vehicleId !== id);
+    this.photoHashes.delete(id);
+    this.duplicateClusters = this.duplicateClusters
+      .map(members => members.filter(member => member.vehicleId !== id))
+      .filter(members => members.length > 0);
+    this.fitScores.delete(id);
+    this.sellerMessages = this.sellerMessages.filter(message => message.vehicleId !== id);
+    this.marketValueAnalyses.delete(id);
+    for (const visit of this.visits.values()) {
+      if (visit.vehicleId === id) {
+        this.visits.delete(visit.id);
+      }
+    }
+  }
+
+  /**
+   * Mock listing history lookup, oldest snapshot first
+   */
+  async getVehicleSnapshots(vehicleId: string): Promise<VehicleSnapshot[]> {
+    // Check for configured error
+    const errorKey = `getSnapshots:${vehicleId}`;
+    const mockError = this.mockErrors.get(errorKey);
+    if (mockError) {
+      throw mockError;
+    }
+
+    return this.snapshots
+      .filter(snapshot => snapshot.vehicleId === vehicleId)
+      .sort((a, b) => a.capturedAt.getTime() - b.capturedAt.getTime());
+  }
+
+  /**
+   * Mock snapshot recording with optional listing update
+   */
+  async recordVehicleSnapshot(snapshot: NewVehicleSnapshot, listingUpdate?: VehicleListingUpdate): Promise<void> {
+    // Check for configured error
+    const errorKey = `recordSnapshot:${snapshot.vehicleId}`;
+    const mockError = this.mockErrors.get(errorKey);
+    if (mockError) {
+      throw mockError;
+    }
+
+    if (listingUpdate) {
+      const existing = this.vehicles.get(snapshot.vehicleId);
+      if (!existing) {
+        throw new Error(`Vehicle with ID ${snapshot.vehicleId} not found`);
+      }
+      this.setVehicle({ ...existing, ...listingUpdate, updatedAt: new Date() });
+      if (snapshot.changedFields.includes('photoCount')) {
+        this.photoHashes.delete(snapshot.vehicleId);
+      }
+    }
+
+    this.snapshots.push({ ...snapshot, id: `mock-snapshot-${this.nextSnapshotId++}` });
+  }
+
+  /**
+   * Mock page storage, skipping pages identical to the latest one (pages are kept uncompressed)
+   */
+  async saveVehiclePage(page: NewVehiclePage): Promise<boolean> {
+    // Check for configured error
+    const mockError = this.mockErrors.get('saveVehiclePage');
+    if (mockError) {
+      throw mockError;
+    }
+
+    const contentHash = crypto.createHash('sha256').update(page.html).digest('hex');
+    const latest = await this.getLatestVehiclePage(page.vehicleId);
+    if (latest?.contentHash === contentHash) {
+      return false;
+    }
+
+    this.pages.push({ ...page, id: `mock-page-${this.nextPageId++}`, contentHash });
+    return true;
+  }
+
+  /**
+   * Mock latest page lookup
+   */
+  async getLatestVehiclePage(vehicleId: string): Promise<VehiclePage | null> {
+    // Check for configured error
+    const mockError = this.mockErrors.get('getLatestVehiclePage');
+    if (mockError) {
+      throw mockError;
+    }
+
+    const pages = this.pages
+      .filter(page => page.vehicleId === vehicleId)
+      .sort((a, b) => b.scrapedAt.getTime() - a.scrapedAt.getTime());
+    return pages[0] ? { ...pages[0] } : null;
+  }
+
+  /**
+   * Mock source registration
+   */
+  async registerVehicleSources(sources: VehicleSourceInfo[]): Promise<void> {
+    // Check for configured error
+    const mockError = this.mockErrors.get('registerVehicleSources');
+    if (mockError) {
+      throw mockError;
+    }
+
+    sources.forEach(source => this.vehicleSources.set(source.key, source.name));
+  }
+
+  /**
+   * Mock registered source lookup, ordered by key
+   */
+  async getVehicleSources(): Promise<VehicleSourceInfo[]> {
+    return Array.from(this.vehicleSources, ([key, name]) => ({ key, name }))
+      .sort((a, b) => a.key.localeCompare(b.key));
+  }
+
+  /**
+   * Mock vehicle event lookup, oldest first
+   */
+  async getVehicleEvents(vehicleId: string): Promise<VehicleEvent[]> {
+    // Check for configured error
+    const mockError = this.mockErrors.get('getVehicleEvents');
+    if (mockError) {
+      throw mockError;
+    }
+
+    return this.vehicleEvents.filter(event => event.vehicleId === vehicleId);
+  }
+
+  /**
+   * Mock vehicle event recording
+   */
+  async recordVehicleEvent(event: NewVehicleEvent, createdAt: Date = new Date()): Promise<void> {
+    // Check for configured error
+    const mockError = this.mockErrors.get('recordVehicleEvent');
+    if (mockError) {
+      throw mockError;
+    }
+
+    this.vehicleEvents.push({ ...event, id: `mock-event-${this.nextEventId++}`, createdAt });
+  }
+
+  /**
+   * Mock last-seen tracking, relisting delisted vehicles
+   */
+  async markVehiclesSeen(sourceUrls: string[], seenAt: Date = new Date()): Promise<number> {
+    // Check for configured error
+    const mockError = this.mockErrors.get('markSeen');
+    if (mockError) {
+      throw mockError;
+    }
+
+    let updated = 0;
+    for (const url of sourceUrls) {
+      const id = this.urlIndex.get(url);
+      const existing = id ? this.vehicles.get(id) : undefined;
+      if (!existing) continue;
+
+      this.setVehicle({
+        ...existing,
+        lastSeenAt: seenAt,
+        ...(existing.listingState !== 'active' && { listingState: 'active', delistedAt: null }),
+      });
+      updated++;
+    }
+
+    return updated;
+  }
+
+  /**
+   * Mock stale vehicle lookup, least recently seen first
+   */
+  async findStaleVehicles(seenBefore: Date, limit?: number): Promise<Vehicle[]> {
+    // Check for configured error
+    const mockError = this.mockErrors.get('findStale');
+    if (mockError) {
+      throw mockError;
+    }
+
+    const stale = Array.from(this.vehicles.values())
+      .filter(vehicle => !['deleted', 'not_interested'].includes(vehicle.status) && vehicle.listingState === 'active')
+      .filter(vehicle => !vehicle.lastSeenAt || vehicle.lastSeenAt < seenBefore)
+      .sort((a, b) => (a.lastSeenAt?.getTime() ?? 0) - (b.lastSeenAt?.getTime() ?? 0));
+
+    return limit !== undefined ? stale.slice(0, limit) : stale;
+  }
+
+  /**
+   * Mock delisting
+   */
+  async markVehicleDelisted(id: string, state: DelistedStatus, delistedAt: Date = new Date()): Promise<void> {
+    // Check for configured error
+    const errorKey = `delist:${id}`;
+    const mockError = this.mockErrors.get(errorKey);
+    if (mockError) {
+      throw mockError;
+    }
+
+    const existing = this.vehicles.get(id);
+    if (!existing) {
+      throw new Error(`Vehicle with ID ${id} not found`);
+    }
+
+    this.setVehicle({ ...existing, listingState: state, delistedAt, updatedAt: new Date() });
+  }
+
+  /**
+   * Mock time-on-market statistics
+   */
+  async getTimeOnMarketStats(): Promise<TimeOnMarketStats[]> {
+    // Check for configured error
+    const mockError = this.mockErrors.get('timeOnMarket');
+    if (mockError) {
+      throw mockError;
+    }
+
+    const statuses: DelistedStatus[] = ['sold', 'removed'];
+    return statuses.map(status => {
+      const days = Array.from(this.vehicles.values())
+        .filter(vehicle => vehicle.listingState === status && vehicle.delistedAt)
+        .map(vehicle => (vehicle.delistedAt!.getTime() - vehicle.sourceCreatedAt.getTime()) / (24 * 60 * 60 * 1000))
+        .sort((a, b) => a - b);
+      const count = days.length;
+      const middle = Math.floor(count / 2);
+
+      return {
+        status,
+        count,
+        averageDays: count ? days.reduce((sum, value) => sum + value, 0) / count : 0,
+        medianDays: count ? (count % 2 ? days[middle] : (days[middle - 1] + days[middle]) / 2) : 0,
+        minDays: count ? days[0] : 0,
+        maxDays: count ? days[count - 1] : 0,
+      };
+    });
+  }
+
+  /**
+   * Mock lookup of vehicles whose photos still need hashing
+   */
+  async findVehiclesWithoutPhotoHashes(limit?: number): Promise<Vehicle[]> {
+    // Check for configured error
+    const mockError = this.mockErrors.get('findWithoutPhotoHashes');
+    if (mockError) {
+      throw mockError;
+    }
+
+    const pending = Array.from(this.vehicles.values())
+      .filter(vehicle => vehicle.status !== 'deleted' && vehicle.photos.length > 0 && !this.photoHashes.has(vehicle.id))
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+
+    return limit !== undefined ? pending.slice(0, limit) : pending;
+  }
+
+  /**
+   * Mock photo hash storage
+   */
+  async updateVehiclePhotoHashes(id: string, hashes: string[]): Promise<void> {
+    // Check for configured error
+    const errorKey = `updatePhotoHashes:${id}`;
+    const mockError = this.mockErrors.get(errorKey);
+    if (mockError) {
+      throw mockError;
+    }
+
+    if (!this.vehicles.has(id)) {
+      throw new Error(`Vehicle with ID ${id} not found`);
+    }
+
+    this.photoHashes.set(id, hashes);
+  }
+
+  /**
+   * Mock photo hash lookup
+   */
+  async getPhotoHashes(): Promise<Map<string, string[]>> {
+    return new Map(this.photoHashes);
+  }
+
+  /**
+   * Mock duplicate cluster replacement
+   */
+  async replaceDuplicateClusters(clusters: NewDuplicateClusterMember[][]): Promise<number> {
+    // Check for configured error
+    const mockError = this.mockErrors.get('replaceDuplicates');
+    if (mockError) {
+      throw mockError;
+    }
+
+    if (clusters.some(members => !members.some(member => member.isPrimary))) {
+      throw new Error('Duplicate cluster has no primary listing');
+    }
+
+    this.duplicateClusters = clusters.map(members => [...members]);
+    return clusters.length;
+  }
+
+  /**
+   * Mock duplicate cluster lookup, primary listing first
+   */
+  async getDuplicateClusters(vehicleIds?: string[]): Promise<DuplicateCluster[]> {
+    // Check for configured error
+    const mockError = this.mockErrors.get('getDuplicates');
+    if (mockError) {
+      throw mockError;
+    }
+
+    return this.duplicateClusters
+      .filter(members => !vehicleIds || members.some(member => vehicleIds.includes(member.vehicleId)))
+      .map(members => {
+        const sorted = [...members].sort((a, b) => Number(b.isPrimary) - Number(a.isPrimary));
+        return {
+          clusterId: sorted[0].vehicleId,
+          listings: sorted
+            .filter(member => this.vehicles.has(member.vehicleId))
+            .map(member => {
+              const vehicle = this.vehicles.get(member.vehicleId)!;
+              return {
+                ...member,
+                source: vehicle.source,
+                sourceUrl: vehicle.sourceUrl,
+                title: vehicle.title,
+                priceEur: vehicle.priceEur,
+                status: vehicle.status,
+              };
+            }),
+        };
+      });
+  }
+
+  /**
+   * Mock fit score storage, replacing any previous score for the profile
+   */
+  async saveFitScore(vehicleId: string, profileId: string, score: number): Promise<void> {
+    // Check for configured error
+    const errorKey = `saveFitScore:${vehicleId}`;
+    const mockError = this.mockErrors.get(errorKey);
+    if (mockError) {
+      throw mockError;
+    }
+
+    this.fitScores.set(vehicleId, { ...this.fitScores.get(vehicleId), [profileId]: score });
+  }
+
+  /**
+   * Mock fit score lookup by vehicle ID
+   */
+  async getFitScores(vehicleIds: string[]): Promise<Map<string, Record<string, number>>> {
+    return new Map(
+      vehicleIds
+        .filter(id => this.fitScores.has(id))
+        .map(id => [id, { ...this.fitScores.get(id) }])
+    );
+  }
+
+  /**
+   * Mock pipeline lock acquisition (an expired lock is replaced)
+   */
+  async acquirePipelineLock(owner: string, expiresAt: Date, now: Date = new Date()): Promise<boolean> {
+    // Check for configured error
+    const mockError = this.mockErrors.get('acquireLock');
+    if (mockError) {
+      throw mockError;
+    }
+
+    if (!this.pipelineLock || this.pipelineLock.expiresAt <= now) {
+      this.pipelineLock = { owner, expiresAt };
+    }
+
+    return this.pipelineLock.owner === owner;
+  }
+
+  /**
+   * Mock pipeline lock release
+   */
+  async releasePipelineLock(owner: string): Promise<void> {
+    if (this.pipelineLock?.owner === owner) {
+      this.pipelineLock = null;
+    }
+  }
+
+  /**
+   * Mock pipeline run upsert
+   */
+  async savePipelineRun(run: PipelineRun): Promise<void> {
+    // Check for configured error
+    const mockError = this.mockErrors.get('savePipelineRun');
+    if (mockError) {
+      throw mockError;
+    }
+
+    this.pipelineRuns.set(run.id, { ...run });
+  }
+
+  /**
+   * Mock pipeline run history, most recent first
+   */
+  async getPipelineRuns(limit: number = 20): Promise<PipelineRun[]> {
+    // Check for configured error
+    const mockError = this.mockErrors.get('getPipelineRuns');
+    if (mockError) {
+      throw mockError;
+    }
+
+    return Array.from(this.pipelineRuns.values())
+      .sort((a, b) => b.startedAt.getTime() - a.startedAt.getTime())
+      .slice(0, limit)
+      .map(run => ({ ...run }));
+  }
+
+  /**
+   * Mock failing of runs left running
+   */
+  async failInterruptedPipelineRuns(finishedAt: Date = new Date()): Promise<number> {
+    const interrupted = Array.from(this.pipelineRuns.values()).filter(run => run.status === 'running');
+    interrupted.forEach(run => {
+      this.pipelineRuns.set(run.id, {
+        ...run,
+        status: 'failed',
+        finishedAt,
+        error: 'Interrupted: the scheduler stopped before the run finished',
+      });
+    });
+
+    return interrupted.length;
+  }
+
+  /**
+   * Mock seller conversation, oldest message first
+   */
+  async getSellerMessages(vehicleId: string): Promise<SellerMessage[]> {
+    // Check for configured error
+    const mockError = this.mockErrors.get('getSellerMessages');
+    if (mockError) {
+      throw mockError;
+    }
+
+    return this.sellerMessages
+      .filter(message => message.vehicleId === vehicleId)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+      .map(message => ({ ...message }));
+  }
+
+  /**
+   * Mock seller message logging
+   */
+  async addSellerMessage(message: NewSellerMessage): Promise<SellerMessage> {
+    // Check for configured error
+    const mockError = this.mockErrors.get('addSellerMessage');
+    if (mockError) {
+      throw mockError;
+    }
+
+    if (!this.vehicles.has(message.vehicleId)) {
+      throw new Error(`Vehicle with ID ${message.vehicleId} not found`);
+    }
+
+    const stored: SellerMessage = {
+      ...message,
+      id: `message-${this.nextSellerMessageId++}`,
+      createdAt: message.createdAt ?? new Date(),
+    };
+    this.sellerMessages.push(stored);
+
+    return { ...stored };
+  }
+
+  /**
+   * Mock market value analysis storage (replaces the previous analysis)
+   */
+  async saveMarketValueAnalysis(analysis: MarketValueAnalysis): Promise<void> {
+    // Check for configured error
+    const mockError = this.mockErrors.get('saveMarketValueAnalysis');
+    if (mockError) {
+      throw mockError;
+    }
+
+    this.marketValueAnalyses.set(analysis.vehicleId, { ...analysis });
+  }
+
+  /**
+   * Mock market value analysis lookup
+   */
+  async getMarketValueAnalysis(vehicleId: string): Promise<MarketValueAnalysis | null> {
+    // Check for configured error
+    const mockError = this.mockErrors.get('getMarketValueAnalysis');
+    if (mockError) {
+      throw mockError;
+    }
+
+    const analysis = this.marketValueAnalyses.get(vehicleId);
+    return analysis ? { ...analysis } : null;
+  }
+
+  /**
+   * Mock exchange rate storage (replaces rates for the same currency, date and source)
+   */
+  async saveExchangeRates(rates: ExchangeRate[]): Promise<number> {
+    // Check for configured error
+    const mockError = this.mockErrors.get('saveExchangeRates');
+    if (mockError) {
+      throw mockError;
+    }
+
+    for (const rate of rates) {
+      const stored = { ...rate, currency: rate.currency.toUpperCase() };
+      this.exchangeRates.set(`${stored.currency}|${stored.date}|${stored.source}`, stored);
+    }
+
+    return rates.length;
+  }
+
+  /**
+   * Mock exchange rate lookup (latest on or before the date, manual rates first)
+   */
+  async getExchangeRate(currency: string, date: string): Promise<ExchangeRate | null> {
+    // Check for configured error
+    const mockError = this.mockErrors.get('getExchangeRate');
+    if (mockError) {
+      throw mockError;
+    }
+
+    const [rate] = Array.from(this.exchangeRates.values())
+      .filter(candidate => candidate.currency === currency.toUpperCase() && candidate.date <= date)
+      .sort((a, b) =>
+        b.date.localeCompare(a.date) || Number(a.source !== 'manual') - Number(b.source !== 'manual')
+      );
+
+    return rate ? { ...rate } : null;
+  }
+
+  /**
+   * Mock bulk operation (keeps whole vehicle copies for undo)
+   */
+  async applyBulkOperation(operation: NewBulkOperation, createdAt: Date = new Date()): Promise<BulkOperation | null> {
+    // Check for configured error
+    const mockError = this.mockErrors.get('applyBulkOperation');
+    if (mockError) {
+      throw mockError;
+    }
+
+    const vehicleIds = [...new Set(operation.vehicleIds)].filter(id => this.vehicles.has(id) &&
+      (!operation.fromStatuses || operation.fromStatuses.includes(this.vehicles.get(id)!.status)));
+    if (vehicleIds.length === 0) {
+      return null;
+    }
+
+    const previous = new Map<string, Vehicle>();
+    const fitScores = new Map<string, Record<string, number>>();
+    const marketValueAnalyses = new Map<string, MarketValueAnalysis>();
+    for (const id of vehicleIds) {
+      const vehicle = this.vehicles.get(id)!;
+      previous.set(id, { ...vehicle });
+
+      let updates: Partial<Vehicle>;
+      if (operation.action === 'set_status') {
+        updates = { status: operation.status! };
+      } else if (operation.action === 'delete') {
+        updates = { status: 'deleted' };
+      } else if (operation.action === 'append_note') {
+        updates = { personalNotes: vehicle.personalNotes ? `${vehicle.personalNotes}\n\n${operation.note}` : operation.note! };
+      } else {
+        updates = {
+          personalFitScore: null,
+          marketValueScore: null,
+          aiPriorityRating: null,
+          aiPrioritySummary: null,
+          aiMechanicReport: null,
+          aiDataSanityCheck: null,
+        };
+        fitScores.set(id, this.fitScores.get(id) ?? {});
+        this.fitScores.delete(id);
+        const analysis = this.marketValueAnalyses.get(id);
+        if (analysis) {
+          marketValueAnalyses.set(id, analysis);
+          this.marketValueAnalyses.delete(id);
+        }
+      }
+      this.setVehicle({ ...vehicle, ...updates, updatedAt: new Date() });
+    }
+
+    const stored: BulkOperation = {
+      id: `bulk-${this.nextBulkOperationId++}`,
+      action: operation.action,
+      vehicleIds,
+      status: operation.action === 'set_status' ? operation.status! : null,
+      note: operation.action === 'append_note' ? operation.note! : null,
+      createdAt,
+      undoExpiresAt: operation.undoExpiresAt,
+      undoneAt: null,
+    };
+    this.bulkOperations.set(stored.id, { operation: stored, previous, fitScores, marketValueAnalyses });
+
+    return { ...stored };
+  }
+
+  /**
+   * Mock bulk operation lookup
+   */
+  async getBulkOperation(id: string): Promise<BulkOperation | null> {
+    // Check for configured error
+    const mockError = this.mockErrors.get('getBulkOperation');
+    if (mockError) {
+      throw mockError;
+    }
+
+    const entry = this.bulkOperations.get(id);
+    return entry ? { ...entry.operation } : null;
+  }
+
+  /**
+   * Mock bulk operation undo (restores the vehicles as they were before the operation)
+   */
+  async undoBulkOperation(id: string, undoneAt: Date = new Date()): Promise<BulkOperation | null> {
+    // Check for configured error
+    const mockError = this.mockErrors.get('undoBulkOperation');
+    if (mockError) {
+      throw mockError;
+    }
+
+    const entry = this.bulkOperations.get(id);
+    if (!entry || entry.operation.undoneAt || entry.operation.undoExpiresAt < undoneAt) {
+      return null;
+    }
+
+    for (const [vehicleId, vehicle] of entry.previous) {
+      if (this.vehicles.has(vehicleId)) {
+        this.setVehicle({ ...vehicle, updatedAt: new Date() });
+      }
+    }
+    for (const [vehicleId, scores] of entry.fitScores) {
+      if (this.vehicles.has(vehicleId) && Object.keys(scores).length > 0) {
+        this.fitScores.set(vehicleId, scores);
+      }
+    }
+    for (const [vehicleId, analysis] of entry.marketValueAnalyses) {
+      if (this.vehicles.has(vehicleId)) {
+        this.marketValueAnalyses.set(vehicleId, analysis);
+      }
+    }
+    entry.operation = { ...entry.operation, undoneAt };
+
+    return { ...entry.operation };
+  }
+
+  /**
+   * Mock visit scheduling with in-memory storage
+   */
+  async createVisit(visit: NewVisit, createdAt: Date = new Date()): Promise<Visit> {
+    // Check for configured error
+    const mockError = this.mockErrors.get('createVisit');
+    if (mockError) {
+      throw mockError;
+    }
+
+    if (!this.vehicles.has(visit.vehicleId)) {
+      throw new Error(`Vehicle with ID ${visit.vehicleId} not found`);
+    }
+
+    const stored: Visit = {
+      id: `visit-${this.nextVisitId++}`,
+      vehicleId: visit.vehicleId,
+      scheduledAt: visit.scheduledAt,
+      durationMinutes: visit.durationMinutes ?? 60,
+      location: visit.location ?? null,
+      contactName: visit.contactName ?? null,
+      contactPhone: visit.contactPhone ?? null,
+      notes: visit.notes ?? null,
+      status: 'scheduled',
+      checklist: this.toInspectionItems(visit.checklist, new Set()),
+      createdAt,
+      updatedAt: createdAt,
+    };
+    this.visits.set(stored.id, stored);
+
+    return this.copyVisit(stored);
+  }
+
+  /**
+   * Mock visit listing for a vehicle, earliest appointment first
+   */
+  async getVisits(vehicleId: string): Promise<Visit[]> {
+    // Check for configured error
+    const mockError = this.mockErrors.get('getVisits');
+    if (mockError) {
+      throw mockError;
+    }
+
+    return Array.from(this.visits.values())
+      .filter(visit => visit.vehicleId === vehicleId)
+      .sort((a, b) => a.scheduledAt.getTime() - b.scheduledAt.getTime())
+      .map(visit => this.copyVisit(visit));
+  }
+
+  /**
+   * Mock visit lookup by ID
+   */
+  async getVisit(id: string): Promise<Visit | null> {
+    // Check for configured error
+    const mockError = this.mockErrors.get('getVisit');
+    if (mockError) {
+      throw mockError;
+    }
+
+    const visit = this.visits.get(id);
+    return visit ? this.copyVisit(visit) : null;
+  }
+
+  /**
+   * Mock upcoming scheduled visits across all vehicles, earliest first
+   */
+  async getUpcomingVisits(from: Date = new Date()): Promise<Visit[]> {
+    // Check for configured error
+    const mockError = this.mockErrors.get('getUpcomingVisits');
+    if (mockError) {
+      throw mockError;
+    }
+
+    return Array.from(this.visits.values())
+      .filter(visit => visit.status === 'scheduled' && visit.scheduledAt >= from)
+      .sort((a, b) => a.scheduledAt.getTime() - b.scheduledAt.getTime())
+      .map(visit => this.copyVisit(visit));
+  }
+
+  /**
+   * Mock visit update
+   */
+  async updateVisit(id: string, updates: VisitUpdate, updatedAt: Date = new Date()): Promise<Visit | null> {
+    // Check for configured error
+    const mockError = this.mockErrors.get('updateVisit');
+    if (mockError) {
+      throw mockError;
+    }
+
+    const existing = this.visits.get(id);
+    if (!existing) {
+      return null;
+    }
+
+    const defined = Object.fromEntries(Object.entries(updates).filter(([, value]) => value !== undefined));
+    const updated: Visit = { ...existing, ...defined, updatedAt };
+    this.visits.set(id, updated);
+
+    return this.copyVisit(updated);
+  }
+
+  /**
+   * Mock checklist replacement (keeps IDs of items already on the visit)
+   */
+  async replaceVisitChecklist(visitId: string, items: NewInspectionItem[], updatedAt: Date = new Date()): Promise<Visit | null> {
+    // Check for configured error
+    const mockError = this.mockErrors.get('replaceVisitChecklist');
+    if (mockError) {
+      throw mockError;
+    }
+
+    const existing = this.visits.get(visitId);
+    if (!existing) {
+      return null;
+    }
+
+    const reusableIds = new Set(existing.checklist.map(item => item.id));
+    const updated: Visit = { ...existing, checklist: this.toInspectionItems(items, reusableIds), updatedAt };
+    this.visits.set(visitId, updated);
+
+    return this.copyVisit(updated);
+  }
+
+  /**
+   * Assign IDs and defaults to new checklist items
+   */
+  private toInspectionItems(items: NewInspectionItem[], reusableIds: Set<string>): InspectionItem[] {
+    return items.map(item => ({
+      id: item.id && reusableIds.has(item.id) ? item.id : `inspection-item-${this.nextInspectionItemId++}`,
+      label: item.label,
+      critical: item.critical,
+      source: item.source,
+      result: item.result ?? 'pending',
+      notes: item.notes ?? null,
+    }));
+  }
+
+  /**
+   * Copy a stored visit so callers cannot mutate mock state
+   */
+  private copyVisit(visit: Visit): Visit {
+    return { ...visit, checklist: visit.checklist.map(item => ({ ...item })) };
+  }
+
+  /**
+   * Store a changed vehicle, logging status, note and price changes like the vehicle_events triggers
+   */
+  private setVehicle(updated: Vehicle): void {
+    const existing = this.vehicles.get(updated.id);
+    if (existing) {
+      const changes: [VehicleEvent['type'], string | null, string | null][] = [
+        ['status_change', existing.status, updated.status],
+        ['note_edit', existing.personalNotes, updated.personalNotes],
+        ['price_change', String(existing.pricePln), String(updated.pricePln)],
+      ];
+      for (const [type, fromValue, toValue] of changes) {
+        if (fromValue !== toValue) {
+          this.vehicleEvents.push({ id: `mock-event-${this.nextEventId++}`, vehicleId: updated.id, type, fromValue, toValue, createdAt: new Date() });
+        }
+      }
+    }
+
+    this.vehicles.set(updated.id, updated);
   }
 
   // Test helper methods
@@ -174,8 +1127,29 @@ export class MockVehicleRepository implements IVehicleRepository {
   clearAll(): void {
     this.vehicles.clear();
     this.urlIndex.clear();
+    this.snapshots = [];
+    this.pages = [];
+    this.photoHashes.clear();
+    this.duplicateClusters = [];
+    this.fitScores.clear();
+    this.pipelineRuns.clear();
+    this.pipelineLock = null;
+    this.sellerMessages = [];
+    this.marketValueAnalyses.clear();
+    this.exchangeRates.clear();
+    this.bulkOperations.clear();
+    this.vehicleEvents = [];
+    this.visits.clear();
     this.mockErrors.clear();
+    this.vehicleSources = new Map(BUILT_IN_SOURCES);
     this.nextId = 1;
+    this.nextSnapshotId = 1;
+    this.nextPageId = 1;
+    this.nextSellerMessageId = 1;
+    this.nextBulkOperationId = 1;
+    this.nextEventId = 1;
+    this.nextVisitId = 1;
+    this.nextInspectionItemId = 1;
   }
 
   /**
@@ -230,6 +1204,7 @@ export class MockVehicleRepository implements IVehicleRepository {
           memberSince: '2020-01-01',
         },
         photos: [],
+        attributes: { ...EMPTY_ATTRIBUTES },
         personalFitScore: null,
         marketValueScore: null,
         aiPriorityRating: null,
@@ -241,6 +1216,9 @@ export class MockVehicleRepository implements IVehicleRepository {
         scrapedAt: new Date(),
         createdAt: new Date(),
         updatedAt: new Date(),
+        lastSeenAt: new Date(),
+        listingState: 'active',
+        delistedAt: null,
         ...vehicleData,
       };
 
@@ -280,6 +1258,7 @@ export class MockVehicleRepository implements IVehicleRepository {
         memberSince: '2020-01-01',
       },
       photos: ['https://example.com/photo.jpg'],
+      attributes: { ...EMPTY_ATTRIBUTES, make: 'Test Brand', model: 'Test Model' },
       personalFitScore: null,
       marketValueScore: null,
       aiPriorityRating: null,
@@ -291,6 +1270,9 @@ export class MockVehicleRepository implements IVehicleRepository {
       scrapedAt: now,
       createdAt: now,
       updatedAt: now,
+      lastSeenAt: now,
+      listingState: 'active',
+      delistedAt: null,
       ...overrides,
     };
   }
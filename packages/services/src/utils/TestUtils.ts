@@ -265,11 +265,12 @@ export class TestUtils {
       }
     }
 
-    if (!['otomoto', 'olx'].includes(vehicle.source)) {
+    // Sources are open-ended (registered source adapters), so only require one
+    if (typeof vehicle.source !== 'string' || vehicle.source.length === 0) {
       throw new Error(`Invalid vehicle source: ${vehicle.source}`);
     }
 
-    if (!['new', 'to_contact', 'contacted', 'to_visit', 'visited', 'deleted'].includes(vehicle.status)) {
+    if (!['new', 'to_contact', 'contacted', 'to_visit', 'visited', 'deleted', 'sold', 'removed'].includes(vehicle.status)) {
       throw new Error(`Invalid vehicle status: ${vehicle.status}`);
     }
   }
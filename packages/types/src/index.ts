@@ -1,7 +1,20 @@
 // Vehicle-related types based on architecture specifications
 
-export type VehicleSource = 'otomoto' | 'olx';
-export type VehicleStatus = 'new' | 'to_contact' | 'contacted' | 'to_visit' | 'visited' | 'not_interested' | 'deleted';
+// Key of a registered marketplace source adapter, e.g. 'otomoto' or 'olx'
+export type VehicleSource = string;
+export type VehicleStatus =
+  | 'new'
+  | 'to_contact'
+  | 'contacted'
+  | 'to_visit'
+  | 'visited'
+  | 'not_interested'
+  | 'deleted'
+  | 'sold' // The user learned the vehicle was sold
+  | 'removed'; // The user learned the listing was withdrawn
+
+// Marketplace lifecycle states set by the liveness checker (Vehicle.listingState), separate from the user's status
+export type DelistedStatus = Extract<VehicleStatus, 'sold' | 'removed'>;
 export type SellerType = 'private' | 'company' | null;
 
 export interface SellerInfo {
@@ -12,6 +25,24 @@ export interface SellerInfo {
   memberSince: string | null;
 }
 
+export type VehicleFuelType = 'diesel' | 'petrol' | 'lpg' | 'electric' | 'hybrid';
+export type VehicleTransmission = 'manual' | 'automatic';
+
+// Structured attributes normalized from sourceParameters at ingest time (null when not listed)
+export interface VehicleAttributes {
+  make: string | null; // As listed, e.g. "Renault"
+  model: string | null; // As listed, e.g. "Trafic"
+  engineSizeCc: number | null;
+  horsepower: number | null;
+  fuelType: VehicleFuelType | null;
+  transmission: VehicleTransmission | null;
+  bodyType: string | null; // As listed, e.g. "Minibus"
+  seats: number | null;
+  wheelbase: string | null; // L1, L2, L3 or L4
+  color: string | null; // As listed
+  vin: string | null; // From the parameters, falling back to the description
+}
+
 export interface Vehicle {
   id: string; // Our internal unique identifier
   source: VehicleSource;
@@ -36,6 +67,7 @@ export interface Vehicle {
   mileage: number;
   sellerInfo: SellerInfo;
   photos: string[]; // Cleaned photo URLs
+  attributes: VehicleAttributes;
 
   // AI Generated Data
   personalFitScore: number | null;
@@ -53,6 +85,366 @@ export interface Vehicle {
   scrapedAt: Date;
   createdAt: Date; 
   updatedAt: Date;
+
+  // Marketplace Lifecycle
+  lastSeenAt: Date | null; // Last time the listing appeared in search results
+  listingState: ListingState; // Whether the listing is still live on the marketplace
+  delistedAt: Date | null; // When the listing was detected as sold or removed
+
+  // Cross-source duplicates (attached by the API, not stored on the vehicle row)
+  duplicateListings?: DuplicateListing[]; // Other listings of the same vehicle
+
+  // Criteria profiles (attached by the API, stored in vehicle_fit_scores)
+  fitScores?: Record<string, number>; // Personal fit score by criteria profile ID
+}
+
+// Listing fields compared between scrapes to detect changes
+export type VehicleChangeField = 'price' | 'mileage' | 'title' | 'description' | 'photoCount';
+
+// Point-in-time copy of a listing's tracked fields, captured at each scrape
+export interface VehicleSnapshot {
+  id: string;
+  vehicleId: string;
+  pricePln: number;
+  priceEur: number;
+  mileage: number;
+  title: string; // Source title as listed by the seller
+  descriptionHash: string; // SHA-256 of the source description HTML
+  photoCount: number;
+  changedFields: VehicleChangeField[]; // Empty for the first snapshot of a vehicle
+  capturedAt: Date;
+}
+
+export type NewVehicleSnapshot = Omit<VehicleSnapshot, 'id'>;
+
+// Raw detail-page HTML kept per scrape so fields can be re-extracted after parser schema fixes
+export interface VehiclePage {
+  id: string;
+  vehicleId: string;
+  html: string;
+  contentHash: string; // SHA-256 of the HTML
+  scrapedAt: Date;
+}
+
+export type NewVehiclePage = Omit<VehiclePage, 'id' | 'contentHash'>;
+
+// Marketplace registered in vehicle_sources; vehicles may only reference registered sources
+export interface VehicleSourceInfo {
+  key: VehicleSource;
+  name: string; // Display name, e.g. 'Otomoto'
+}
+
+// Re-scraped listing data applied to the vehicle when a change is detected
+export type VehicleListingUpdate = Pick<
+  Vehicle,
+  'pricePln' | 'priceEur' | 'mileage' | 'sourceTitle' | 'sourceDescriptionHtml' | 'sourcePhotos' | 'photos' | 'scrapedAt'
+>;
+
+// Signals that matched between two listings of the same vehicle
+export type DuplicateMatchReason = 'vin' | 'seller' | 'year' | 'mileage' | 'price' | 'title' | 'photos';
+
+// One listing within a cluster of duplicates
+export interface DuplicateListing {
+  vehicleId: string;
+  source: VehicleSource;
+  sourceUrl: string;
+  title: string;
+  priceEur: number;
+  status: VehicleStatus;
+  isPrimary: boolean; // The listing shown when duplicates are collapsed
+  matchScore: number; // 0-1, best score linking this listing into the cluster (1 for the primary)
+  matchReasons: DuplicateMatchReason[];
+}
+
+// Listings detected as the same vehicle, primary listing first
+export interface DuplicateCluster {
+  clusterId: string; // ID of the primary vehicle
+  listings: DuplicateListing[];
+}
+
+// Cluster membership written by a duplicate detection run
+export type NewDuplicateClusterMember = Pick<DuplicateListing, 'vehicleId' | 'isPrimary' | 'matchScore' | 'matchReasons'>;
+
+// Named buyer criteria used to generate personal fit scores (search-config.json)
+export interface CriteriaProfile {
+  id: string;
+  name: string;
+  budgetEur: {
+    min: number;
+    max: number;
+  };
+  preferredFeatures: string[];
+  useCase: string;
+  priorityFactors: string[];
+}
+
+// Counters from one ingestion run (ingest script)
+export interface IngestionStats {
+  totalSearchUrls: number;
+  totalVehicleUrls: number;
+  newVehicles: number;
+  changedVehicles: number;
+  priceChanges: number;
+  seenListings: number;
+  duplicateVehicles: number;
+  failedScrapes: number;
+  errors: string[];
+  abortReason?: string; // Set when the run was stopped early, e.g. because a site's pages stopped parsing
+  startTime: Date;
+  endTime?: Date;
+}
+
+export interface TranslationFailure {
+  vehicleId: string;
+  vehicleTitle: string;
+  vehicleUrl: string;
+  error: string;
+  errorType: string;
+  timestamp: Date;
+  retryable: boolean;
+}
+
+// Outcome of one translation run (translate script)
+export interface TranslationRunLog {
+  runId: string;
+  startTime: Date;
+  endTime?: Date;
+  vehiclesProcessed: number;
+  vehiclesCompleted: number;
+  vehiclesFailed: number;
+  vehiclesFiltered: number;
+  failures: TranslationFailure[];
+}
+
+export type AnalysisStep = 'sanity_check' | 'fit_score' | 'mechanic_report' | 'market_value' | 'priority_rating';
+
+export interface AnalysisFailure {
+  vehicleId: string;
+  vehicleTitle: string;
+  vehicleUrl: string;
+  step: AnalysisStep;
+  error: string;
+  errorType: string;
+  timestamp: Date;
+  retryable: boolean;
+}
+
+// Outcome of one analysis run (analyze script)
+export interface AnalysisRunLog {
+  runId: string;
+  startTime: Date;
+  endTime?: Date;
+  vehiclesProcessed: number;
+  vehiclesCompleted: number;
+  vehiclesFailed: number;
+  failures: AnalysisFailure[];
+  summary?: {
+    byStep: Record<AnalysisStep, number>;
+    retryableCount: number;
+    permanentFailureCount: number;
+  };
+}
+
+// Stages chained by the pipeline scheduler, in run order
+export type PipelineStage = 'ingest' | 'translate' | 'analyze';
+export type PipelineRunStatus = 'running' | 'completed' | 'failed' | 'skipped';
+
+// One scheduled (or manually started) ingest → translate → analyze run
+export interface PipelineRun {
+  id: string;
+  trigger: 'schedule' | 'manual';
+  schedule: string | null; // Cron expression that started the run
+  status: PipelineRunStatus;
+  stages: PipelineStage[];
+  startedAt: Date;
+  finishedAt: Date | null;
+  ingestion: IngestionStats | null;
+  translation: TranslationRunLog | null;
+  analysis: AnalysisRunLog | null;
+  error: string | null; // Why the run failed or was skipped
+}
+
+// Market value analysis (analyze script, market_value step)
+export type MarketValueModel = 'weighted' | 'regression';
+export type MarketValueAttribute = 'engineSize' | 'horsepower' | 'transmission' | 'fuelType' | 'wheelbase';
+export type MarketValueConfidence = 'low' | 'medium' | 'high';
+
+// Attribute difference that lowered a comparable's weight
+export interface MarketValuePenalty {
+  attribute: MarketValueAttribute;
+  targetValue: string; // As normalized for comparison, e.g. "1995 cm3", "automatic"
+  comparableValue: string;
+  factor: number; // Weight multiplier applied (< 1.0)
+}
+
+// One comparable listing and how much it counted towards the market price
+export interface MarketValueComparable {
+  vehicleId: string;
+  title: string;
+  sourceUrl: string;
+  status: VehicleStatus;
+  year: number;
+  mileage: number;
+  priceEur: number;
+  adjustedPriceEur: number; // After high/low mileage condition adjustments
+  mileageWeight: number; // Proximity to the target's mileage
+  equivalencyWeight: number; // Platform twin weight from the equivalency group
+  attributeWeight: number; // Product of the penalty factors
+  statusWeight: number; // Listing status weight (e.g. sold listings count more)
+  weight: number; // Combined weight used in the average
+  penalties: MarketValuePenalty[];
+}
+
+// Market value score with the data it was calculated from
+export interface MarketValueAnalysis {
+  vehicleId: string;
+  model: MarketValueModel;
+  score: string; // "-5%", "+10%" or "market_avg" (same as Vehicle.marketValueScore)
+  priceEur: number; // Asking price at calculation time
+  marketPriceEur: number; // Weighted average of the comparables, or the regression prediction
+  percentDifference: number; // Unrounded, negative below the market
+  dealScore: number | null; // Regression residual in standard deviations (negative = cheap), null for weighted
+  sampleSize: number; // Comparables, or listings the regression was trained on
+  effectiveSampleSize: number; // Sample size discounted for uneven (or outlier-downweighted) samples
+  confidence: MarketValueConfidence;
+  comparables: MarketValueComparable[]; // Highest weight first, empty for regression
+  calculatedAt: Date;
+}
+
+// Accuracy of one market value model on the holdout listings
+export interface MarketModelMetrics {
+  model: MarketValueModel;
+  priced: number; // Holdout listings the model could price
+  coverage: number; // priced / holdout size
+  meanAbsoluteErrorEur: number | null;
+  meanAbsolutePercentError: number | null;
+  medianAbsolutePercentError: number | null;
+}
+
+// Holdout comparison of the market value models (analyze --evaluate-market-model)
+export interface MarketModelEvaluation {
+  holdoutFraction: number;
+  trainingSize: number;
+  holdoutSize: number;
+  results: MarketModelMetrics[];
+  evaluatedAt: Date;
+}
+
+// Append-only audit log of a vehicle's workflow and listing changes
+export type VehicleEventType = 'status_change' | 'note_edit' | 'price_change' | 'analysis';
+
+export interface VehicleEvent {
+  id: string;
+  vehicleId: string;
+  type: VehicleEventType;
+  fromValue: string | null; // Previous status, notes or PLN price; null for analysis
+  toValue: string | null; // New status, notes or PLN price; analysis: comma-separated fields written
+  createdAt: Date;
+}
+
+export type NewVehicleEvent = Omit<VehicleEvent, 'id' | 'createdAt'>;
+
+// Appointments to see a vehicle, each with an inspection checklist checked off during the visit
+export type VisitStatus = 'scheduled' | 'completed' | 'cancelled';
+export type InspectionResult = 'pending' | 'ok' | 'issue' | 'skipped';
+export type InspectionItemSource = 'mechanic_report' | 'manual';
+
+export interface InspectionItem {
+  id: string;
+  label: string;
+  critical: boolean; // Flagged critical in the mechanic report
+  source: InspectionItemSource;
+  result: InspectionResult;
+  notes: string | null; // What was found, e.g. which photos show the issue
+}
+
+export type NewInspectionItem = Pick<InspectionItem, 'label' | 'critical' | 'source'> &
+  Partial<Pick<InspectionItem, 'id' | 'result' | 'notes'>>;
+
+export interface Visit {
+  id: string;
+  vehicleId: string;
+  scheduledAt: Date;
+  durationMinutes: number;
+  location: string | null;
+  contactName: string | null;
+  contactPhone: string | null;
+  notes: string | null;
+  status: VisitStatus;
+  checklist: InspectionItem[]; // In checklist order
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface NewVisit {
+  vehicleId: string;
+  scheduledAt: Date;
+  durationMinutes?: number; // Default 60
+  location?: string | null;
+  contactName?: string | null;
+  contactPhone?: string | null;
+  notes?: string | null;
+  checklist: NewInspectionItem[];
+}
+
+export type VisitUpdate = Partial<
+  Pick<Visit, 'scheduledAt' | 'durationMinutes' | 'location' | 'contactName' | 'contactPhone' | 'notes' | 'status'>
+>;
+
+// Bulk vehicle operations (dashboard multi-select), undoable for a limited time
+export type BulkVehicleAction = 'set_status' | 'append_note' | 'reanalyze' | 'delete';
+
+export interface BulkOperation {
+  id: string;
+  action: BulkVehicleAction;
+  vehicleIds: string[]; // Vehicles the operation changed
+  status: VehicleStatus | null; // set_status only
+  note: string | null; // append_note only
+  createdAt: Date;
+  undoExpiresAt: Date;
+  undoneAt: Date | null;
+}
+
+export interface NewBulkOperation {
+  action: BulkVehicleAction;
+  vehicleIds: string[];
+  status?: VehicleStatus;
+  fromStatuses?: VehicleStatus[]; // set_status only: vehicles in another status are left unchanged
+  note?: string;
+  undoExpiresAt: Date;
+}
+
+// Currency conversion
+export interface ExchangeRate {
+  currency: string; // ISO 4217 code, e.g. "EUR"
+  date: string; // YYYY-MM-DD the rate is effective from
+  ratePln: number; // PLN per 1 unit of the currency (NBP table A mid rate)
+  source: string; // "nbp" or "manual"
+}
+
+// Seller conversation (communication assistant)
+export type SellerMessageType = 'inquiry' | 'negotiation';
+export type SellerMessageDirection = 'outgoing' | 'incoming';
+
+// One message in the conversation log with a vehicle's seller
+export interface SellerMessage {
+  id: string;
+  vehicleId: string;
+  direction: SellerMessageDirection; // outgoing: sent to the seller, incoming: the seller's reply
+  messageType: SellerMessageType | null; // Kind of outgoing message, null for replies
+  textPl: string; // Polish text as sent or received
+  textEn: string; // English translation
+  createdAt: Date;
+}
+
+export type NewSellerMessage = Omit<SellerMessage, 'id' | 'createdAt'> & { createdAt?: Date };
+
+// Message drafted by the communication assistant, stored only once logged as sent
+export interface SellerMessageDraft {
+  messageType: SellerMessageType;
+  messagePl: string; // Ready to paste into the marketplace chat
+  messageEn: string; // English version for the user to check
+  questions: string[]; // Questions asked in the message, in English
 }
 
 // API-related types
@@ -61,6 +453,196 @@ export interface UpdateVehiclePayload {
   personalNotes?: string;
 }
 
+export type VehicleSortField =
+  | 'createdAt'
+  | 'sourceCreatedAt'
+  | 'priceEur'
+  | 'year'
+  | 'mileage'
+  | 'personalFitScore'
+  | 'aiPriorityRating';
+export type SortDirection = 'asc' | 'desc';
+
+export interface VehicleQuery {
+  // Filters
+  status?: VehicleStatus[];
+  listingState?: ListingState[]; // Marketplace lifecycle state set by the liveness check
+  source?: VehicleSource;
+  minPriceEur?: number;
+  maxPriceEur?: number;
+  minYear?: number;
+  maxYear?: number;
+  minMileage?: number;
+  maxMileage?: number;
+  minPersonalFitScore?: number;
+  minAiPriorityRating?: number;
+  features?: string[]; // Vehicle must include all of these normalised features
+  search?: string; // Free-text search over title and description
+  collapseDuplicates?: boolean; // Hide non-primary listings of duplicate clusters whose primary matches the query
+  profileId?: string; // Criteria profile whose fit scores replace personalFitScore for filtering and sorting
+
+  // Sorting
+  sortBy?: VehicleSortField;
+  sortDirection?: SortDirection;
+
+  // Pagination (page is 1-based)
+  page?: number;
+  limit?: number;
+}
+
+// Liveness check outcome for a listing detail page, stored as Vehicle.listingState
+export type ListingState = 'active' | DelistedStatus;
+
+// Days between publication (or first scrape) and delisting, per lifecycle state
+export interface TimeOnMarketStats {
+  status: DelistedStatus;
+  count: number;
+  averageDays: number;
+  medianDays: number;
+  minDays: number;
+  maxDays: number;
+}
+
+export interface CriteriaProfilesResponse {
+  profiles: CriteriaProfile[];
+  defaultProfileId: string;
+}
+
+export interface PipelineRunsResponse {
+  runs: PipelineRun[]; // Most recent first
+}
+
+export interface VehicleHistoryResponse {
+  vehicleId: string;
+  snapshots: VehicleSnapshot[]; // Oldest first
+}
+
+export interface VehicleEventsResponse {
+  vehicleId: string;
+  events: VehicleEvent[]; // Oldest first
+}
+
+export interface VehicleVisitsResponse {
+  vehicleId: string;
+  visits: Visit[]; // Earliest appointment first
+}
+
+// POST /api/vehicles/:id/visits (the checklist is generated from the mechanic report)
+export interface ScheduleVisitRequest {
+  scheduledAt: string; // ISO date string
+  durationMinutes?: number;
+  location?: string | null;
+  contactName?: string | null;
+  contactPhone?: string | null;
+  notes?: string | null;
+}
+
+// PATCH /api/vehicles/:id/visits/:visitId
+export interface UpdateVisitRequest extends Partial<ScheduleVisitRequest> {
+  status?: VisitStatus;
+}
+
+// PUT /api/vehicles/:id/visits/:visitId/checklist - items without a known ID are added
+export type InspectionItemInput = Pick<InspectionItem, 'label'> & Partial<InspectionItem>;
+
+// GET /api/vehicles/compare - Key attributes of 2-4 vehicles aligned side by side
+export type ComparedVehicle = Pick<Vehicle, 'id' | 'title' | 'source' | 'sourceUrl' | 'status'> & {
+  photo: string | null; // First listing photo
+};
+
+export interface VehicleComparisonRow {
+  key: string; // e.g. "priceEur", "consistencyScore"
+  label: string;
+  values: Array<number | string | null>; // One per vehicle, in the order of VehicleComparison.vehicles
+  better: 'higher' | 'lower' | null; // null for attributes that are not ranked (e.g. fuel type)
+  best: number[]; // Indexes of the best values; empty when unranked or all values are equal
+  worst: number[];
+}
+
+export interface VehicleComparisonFeature {
+  feature: string;
+  present: boolean[]; // One per vehicle
+}
+
+export interface VehicleComparisonRecommendation {
+  summary: string;
+  recommendedVehicleId: string | null; // null when no vehicle is clearly better
+  vehicles: Array<{ vehicleId: string; pros: string[]; cons: string[] }>;
+}
+
+export interface VehicleComparison {
+  vehicles: ComparedVehicle[]; // In the requested order
+  rows: VehicleComparisonRow[]; // Attributes no vehicle has are left out
+  features: VehicleComparisonFeature[]; // Features only some vehicles have first
+  sanityFlags: string[][]; // Data sanity check flags and warnings, one list per vehicle
+  recommendation: VehicleComparisonRecommendation | null; // Only generated with ?recommend=true
+  recommendationError: string | null; // Why a requested recommendation could not be generated
+}
+
+// POST /api/vehicles/:id/translate
+export interface TranslateVehicleResponse {
+  message: string;
+  vehicle: Pick<Vehicle, 'id' | 'description' | 'features' | 'status'>;
+}
+
+// POST /api/vehicles/:id/analyze
+export interface AnalyzeVehicleResponse {
+  message: string;
+  vehicle: Pick<
+    Vehicle,
+    | 'id'
+    | 'personalFitScore'
+    | 'marketValueScore'
+    | 'aiPriorityRating'
+    | 'aiPrioritySummary'
+    | 'aiMechanicReport'
+    | 'aiDataSanityCheck'
+  > & {
+    fitScores: Record<string, number>;
+  };
+}
+
+// POST /api/vehicles/bulk - either vehicleIds or a filter selects the vehicles
+export interface BulkVehicleRequest {
+  vehicleIds?: string[];
+  filter?: VehicleQuery; // Same filters as GET /api/vehicles; sorting and pagination are ignored
+  action: BulkVehicleAction;
+  status?: VehicleStatus; // Required for set_status
+  note?: string; // Required for append_note
+}
+
+// POST /api/vehicles/bulk and POST /api/vehicles/bulk/:operationId/undo
+export interface BulkOperationResponse {
+  operationId: string;
+  action: BulkVehicleAction;
+  affected: number;
+  vehicleIds: string[];
+  rejectedVehicleIds: string[]; // set_status: vehicles whose status may not move to the requested one, left unchanged
+  undoExpiresAt: string;
+  undoneAt: string | null;
+}
+
+export interface SellerConversationResponse {
+  vehicleId: string;
+  messages: SellerMessage[]; // Oldest first
+}
+
+export interface DraftSellerMessageRequest {
+  messageType: SellerMessageType;
+  offerPriceEur?: number; // Price to propose in a negotiation message
+  notes?: string; // Extra points the user wants in the message
+}
+
+export interface LogSellerMessageRequest {
+  messageType: SellerMessageType;
+  textPl: string;
+  textEn: string;
+}
+
+export interface TranslateSellerReplyRequest {
+  textPl: string; // Reply pasted from the marketplace chat
+}
+
 export interface ChatMessage {
   role: 'user' | 'model';
   content: string;